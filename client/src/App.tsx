@@ -3,6 +3,7 @@ import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { AuthProvider } from './contexts/AuthContext';
 import { CartProvider } from './contexts/CartContext';
 import { ThemeProvider } from './contexts/ThemeContext';
+import { CurrencyProvider } from './contexts/CurrencyContext';
 import Header from './components/Header';
 import Hero from './components/Hero';
 import ProductShowcase from './components/ProductShowcase';
@@ -20,8 +21,14 @@ import AdminDashboard from './pages/AdminDashboard';
 import ContactPage from './pages/ContactPage';
 import SignInPage from './pages/SignInPage';
 import CheckoutPage from './pages/CheckoutPage';
+import CheckoutRecoveryPage from './pages/CheckoutRecoveryPage';
 import OrderConfirmationPage from './pages/OrderConfirmationPage';
+import MyOrdersPage from './pages/MyOrdersPage';
+import OrderDetailPage from './pages/OrderDetailPage';
+import FindOrderPage from './pages/FindOrderPage';
 import SignUpPage from './pages/SignUpPage';
+import ForgotPasswordPage from './pages/ForgotPasswordPage';
+import ResetPasswordPage from './pages/ResetPasswordPage';
 import NotFoundPage from './pages/NotFoundPage';
 
 function App() {
@@ -42,6 +49,7 @@ function App() {
     <ThemeProvider>
       <AuthProvider>
         <CartProvider>
+          <CurrencyProvider>
           <Router>
           <div className="min-h-screen bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 transition-colors duration-300">
           <Header isMenuOpen={isMenuOpen} setIsMenuOpen={setIsMenuOpen} />
@@ -60,8 +68,14 @@ function App() {
             <Route path="/contact" element={<ContactPage />} />
             <Route path="/signin" element={<SignInPage />} />
             <Route path="/signup" element={<SignUpPage />} />
+            <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+            <Route path="/reset-password" element={<ResetPasswordPage />} />
             <Route path="/checkout" element={<CheckoutPage />} />
+            <Route path="/checkout/recover/:draftId" element={<CheckoutRecoveryPage />} />
             <Route path="/order-confirmation/:orderId" element={<OrderConfirmationPage />} />
+            <Route path="/orders" element={<MyOrdersPage />} />
+            <Route path="/orders/:orderId" element={<OrderDetailPage />} />
+            <Route path="/find-order" element={<FindOrderPage />} />
             <Route path="/admin" element={
               <AdminRoute>
                 <AdminDashboard />
@@ -76,6 +90,7 @@ function App() {
           <Footer />
           </div>
           </Router>
+          </CurrencyProvider>
         </CartProvider>
       </AuthProvider>
     </ThemeProvider>
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { ShoppingCart, Check, AlertCircle, Loader2 } from 'lucide-react';
 import { useCart } from '../contexts/CartContext';
+import { useCurrency } from '../hooks/useCurrency';
 import { CartError } from '../types/cart';
 
 interface ProductDetail {
@@ -33,6 +34,7 @@ const AddToCartButton: React.FC<AddToCartButtonProps> = ({
   const [error, setError] = useState<string | null>(null);
 
   const { addItem, isInCart, getItem } = useCart();
+  const { formatDisplayPrice } = useCurrency();
 
   // Handle add to cart action
   const handleAddToCart = async () => {
@@ -144,14 +146,14 @@ const AddToCartButton: React.FC<AddToCartButtonProps> = ({
         <div className="space-y-1 text-sm">
           <div className="flex justify-between">
             <span className="text-gray-400">Item Price:</span>
-            <span className="text-gray-200">${product.price.toFixed(2)}</span>
+            <span className="text-gray-200">{formatDisplayPrice(product.price)}</span>
           </div>
           
           {finalPrice !== product.price && (
             <div className="flex justify-between">
               <span className="text-gray-400">Options:</span>
               <span className="text-gray-200">
-                +${(finalPrice - product.price).toFixed(2)}
+                +{formatDisplayPrice(finalPrice - product.price)}
               </span>
             </div>
           )}
@@ -164,7 +166,7 @@ const AddToCartButton: React.FC<AddToCartButtonProps> = ({
           <div className="border-t border-gray-700 pt-2 mt-2">
             <div className="flex justify-between font-semibold">
               <span className="text-gray-200">Total:</span>
-              <span className="text-gray-100">${(finalPrice * quantity).toFixed(2)}</span>
+              <span className="text-gray-100">{formatDisplayPrice(finalPrice * quantity)}</span>
             </div>
           </div>
         </div>
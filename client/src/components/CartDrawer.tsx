@@ -1,9 +1,9 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { X, Plus, Minus, Trash2, ShoppingBag, Package, ChevronDown } from 'lucide-react';
+import { X, Plus, Minus, Trash2, ShoppingBag, Package, ChevronDown, AlertTriangle } from 'lucide-react';
 import { useCart } from '../contexts/CartContext';
-import { formatPrice } from '../utils/cartUtils';
-import { CartError } from '../types/cart';
+import { useCurrency } from '../hooks/useCurrency';
+import { CartError, CartItem } from '../types/cart';
 import './CartDrawer.css';
 
 interface CartDrawerProps {
@@ -20,8 +20,11 @@ const CartDrawer: React.FC<CartDrawerProps> = ({ isOpen, onClose }) => {
     removeItem,
     updateQuantity,
     clearCart,
-    isLoading
+    isLoading,
+    getProductQuantity,
+    getStockConflict
   } = useCart();
+  const { formatDisplayPrice } = useCurrency();
   
   const [updatingItems, setUpdatingItems] = useState<Set<string>>(new Set());
   const [error, setError] = useState<string | null>(null);
@@ -101,6 +104,22 @@ const CartDrawer: React.FC<CartDrawerProps> = ({ isOpen, onClose }) => {
     }
   };
 
+  // Quantity this line can keep once other lines of the same product are counted
+  const getAllowedQuantity = (item: CartItem, available: number) => {
+    const otherLinesQuantity = getProductQuantity(item.productId) - item.quantity;
+    return Math.max(0, available - otherLinesQuantity);
+  };
+
+  // Bring a line back within the stock the server reported
+  const handleResolveConflict = (item: CartItem, available: number) => {
+    const allowedQuantity = getAllowedQuantity(item, available);
+    if (allowedQuantity === 0) {
+      handleRemoveItem(item.id);
+    } else {
+      handleQuantityUpdate(item.id, allowedQuantity);
+    }
+  };
+
   // Format variants for display
   const formatVariants = (variants?: Record<string, string>) => {
     if (!variants || Object.keys(variants).length === 0) return null;
@@ -185,8 +204,10 @@ const CartDrawer: React.FC<CartDrawerProps> = ({ isOpen, onClose }) => {
             </div>
           ) : (
             <div className="p-4 sm:p-6 space-y-4 pb-4">
-              {items.map((item) => (
-                <div key={item.id} className="bg-gray-800 rounded-lg p-4 space-y-3">
+              {items.map((item) => {
+                const stockConflict = getStockConflict(item.productId);
+                return (
+                <div key={item.id} className={`bg-gray-800 rounded-lg p-4 space-y-3 ${stockConflict ? 'border border-red-500/40' : ''}`}>
                   {/* Product Info */}
                   <div className="flex space-x-3">
                     {/* Product Image */}
@@ -207,7 +228,7 @@ const CartDrawer: React.FC<CartDrawerProps> = ({ isOpen, onClose }) => {
                     {/* Product Details */}
                     <div className="flex-1 min-w-0">
                       <h4 className="text-gray-100 font-medium truncate">{item.name}</h4>
-                      <p className="text-blue-400 font-semibold">{formatPrice(item.price)}</p>
+                      <p className="text-blue-400 font-semibold">{formatDisplayPrice(item.price)}</p>
                       {formatVariants(item.variants) && (
                         <p className="text-gray-400 text-sm">{formatVariants(item.variants)}</p>
                       )}
@@ -250,24 +271,41 @@ const CartDrawer: React.FC<CartDrawerProps> = ({ isOpen, onClose }) => {
                     {/* Item Total */}
                     <div className="text-right">
                       <p className="text-gray-100 font-semibold">
-                        {formatPrice(item.price * item.quantity)}
+                        {formatDisplayPrice(item.price * item.quantity)}
                       </p>
                       {item.quantity > 1 && (
                         <p className="text-gray-400 text-xs">
-                          {item.quantity} × {formatPrice(item.price)}
+                          {item.quantity} × {formatDisplayPrice(item.price)}
                         </p>
                       )}
                     </div>
                   </div>
 
-                  {/* Stock Warning */}
-                  {item.quantity >= item.maxStock && (
+                  {/* Stock Conflict */}
+                  {stockConflict ? (
+                    <div className="flex items-center justify-between gap-3 p-2 bg-red-500/10 border border-red-500/20 rounded-lg">
+                      <div className="flex items-center space-x-2 text-red-400 text-xs">
+                        <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                        <span>{stockConflict.message}</span>
+                      </div>
+                      <button
+                        onClick={() => handleResolveConflict(item, stockConflict.available)}
+                        className="text-xs font-medium text-blue-400 hover:text-blue-300 transition-colors duration-200 whitespace-nowrap"
+                      >
+                        {getAllowedQuantity(item, stockConflict.available) === 0
+                          ? 'Remove item'
+                          : `Update to ${getAllowedQuantity(item, stockConflict.available)}`}
+                      </button>
+                    </div>
+                  ) : item.quantity >= item.maxStock && (
+                    /* Stock Warning */
                     <div className="text-yellow-400 text-xs">
                       Maximum stock reached ({item.maxStock} available)
                     </div>
                   )}
                 </div>
-              ))}
+                );
+              })}
             </div>
           )}
 
@@ -288,7 +326,7 @@ const CartDrawer: React.FC<CartDrawerProps> = ({ isOpen, onClose }) => {
               {/* Total */}
               <div className="flex items-center justify-between text-lg font-bold">
                 <span className="text-gray-200">Total:</span>
-                <span className="text-gray-100">{formatPrice(totalPrice)}</span>
+                <span className="text-gray-100">{formatDisplayPrice(totalPrice)}</span>
               </div>
 
               {/* Action Buttons */}
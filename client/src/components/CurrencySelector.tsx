@@ -0,0 +1,30 @@
+import React from 'react';
+import { useCurrency } from '../hooks/useCurrency';
+
+// Lets the customer pick the currency prices are shown and charged in
+const CurrencySelector: React.FC = () => {
+  const { currencies, currency, setCurrency } = useCurrency();
+
+  // Nothing to choose from while only the base currency is enabled
+  if (currencies.length < 2 || !currency) {
+    return null;
+  }
+
+  return (
+    <select
+      value={currency.code}
+      onChange={(e) => setCurrency(e.target.value)}
+      className="bg-transparent text-sm font-medium text-gray-600 dark:text-gray-300 hover:text-blue-500 dark:hover:text-blue-400 border border-gray-200 dark:border-gray-700 rounded-lg px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors duration-200"
+      title="Currency"
+      aria-label="Currency"
+    >
+      {currencies.map(option => (
+        <option key={option.code} value={option.code} className="bg-white dark:bg-gray-800">
+          {option.code}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default CurrencySelector;
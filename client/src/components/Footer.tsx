@@ -101,12 +101,21 @@ const Footer: React.FC = () => {
             <ul className="space-y-2">
               {['Help Center', 'Returns', 'Shipping', 'Size Guide', 'Track Order', 'FAQ'].map((link) => (
                 <li key={link}>
-                  <a
-                    href="#"
-                    className="text-gray-600 dark:text-gray-400 hover:text-blue-500 dark:hover:text-blue-400 transition-colors duration-200"
-                  >
-                    {link}
-                  </a>
+                  {link === 'Track Order' ? (
+                    <Link
+                      to="/find-order"
+                      className="text-gray-600 dark:text-gray-400 hover:text-blue-500 dark:hover:text-blue-400 transition-colors duration-200"
+                    >
+                      {link}
+                    </Link>
+                  ) : (
+                    <a
+                      href="#"
+                      className="text-gray-600 dark:text-gray-400 hover:text-blue-500 dark:hover:text-blue-400 transition-colors duration-200"
+                    >
+                      {link}
+                    </a>
+                  )}
                 </li>
               ))}
             </ul>
@@ -5,6 +5,7 @@ import { useAuth } from '../contexts/AuthContext';
 import { useCart } from '../contexts/CartContext';
 import CartDrawer from './CartDrawer';
 import ThemeToggle from './ThemeToggle';
+import CurrencySelector from './CurrencySelector';
 
 interface HeaderProps {
   isMenuOpen: boolean;
@@ -71,6 +72,8 @@ const Header: React.FC<HeaderProps> = ({ isMenuOpen, setIsMenuOpen }) => {
             {/* Theme Toggle */}
             <ThemeToggle size="sm" />
 
+            <CurrencySelector />
+
             <button
               onClick={() => setShowCartDrawer(true)}
               className="relative p-2 text-gray-600 dark:text-gray-300 hover:text-blue-500 dark:hover:text-blue-400 transition-colors duration-200 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg"
@@ -1,5 +1,6 @@
 import React from 'react';
 import { CheckCircle, XCircle, AlertTriangle, Package } from 'lucide-react';
+import { useCurrency } from '../hooks/useCurrency';
 
 interface ProductDetail {
   id: string;
@@ -22,6 +23,8 @@ const ProductInfo: React.FC<ProductInfoProps> = ({
   finalPrice, 
   className = '' 
 }) => {
+  const { formatDisplayPrice } = useCurrency();
+
   // Determine stock status
   const getStockStatus = () => {
     if (product.stock === 0) {
@@ -60,14 +63,6 @@ const ProductInfo: React.FC<ProductInfoProps> = ({
   // Check if price has changed (variant modifier applied)
   const hasPriceChange = finalPrice !== product.price;
 
-  // Format price for display
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(price);
-  };
-
   // Check if product is new (created within last 7 days)
   const isNewProduct = () => {
     const createdDate = new Date(product.created_at);
@@ -104,13 +99,13 @@ const ProductInfo: React.FC<ProductInfoProps> = ({
       <div className="space-y-2">
         <div className="flex items-baseline space-x-3">
           <span className="text-3xl lg:text-4xl font-bold text-gray-100">
-            {formatPrice(finalPrice)}
+            {formatDisplayPrice(finalPrice)}
           </span>
           
           {/* Show original price if variant modifier applied */}
           {hasPriceChange && (
             <span className="text-xl text-gray-500 line-through">
-              {formatPrice(product.price)}
+              {formatDisplayPrice(product.price)}
             </span>
           )}
         </div>
@@ -119,7 +114,7 @@ const ProductInfo: React.FC<ProductInfoProps> = ({
         {hasPriceChange && (
           <p className="text-sm text-blue-400">
             {finalPrice > product.price ? '+' : ''}
-            {formatPrice(finalPrice - product.price)} for selected options
+            {formatDisplayPrice(finalPrice - product.price)} for selected options
           </p>
         )}
       </div>
@@ -174,7 +169,7 @@ const ProductInfo: React.FC<ProductInfoProps> = ({
       <div className="bg-gray-800/50 rounded-lg p-4 space-y-2">
         <h4 className="font-medium text-gray-200">Shipping & Returns</h4>
         <ul className="text-sm text-gray-400 space-y-1">
-          <li>• Free shipping on orders over $50</li>
+          <li>• Free shipping on orders over {formatDisplayPrice(50)}</li>
           <li>• 30-day return policy</li>
           <li>• 1-year warranty included</li>
           <li>• Ships within 1-2 business days</li>
@@ -3,6 +3,7 @@ import { Star, ShoppingCart, Eye, Package } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import ProductRating from './ProductRating';
 import { api } from '../config/api';
+import { useCurrency } from '../hooks/useCurrency';
 
 interface Product {
   id: string;
@@ -18,6 +19,7 @@ interface Product {
 }
 
 const ProductShowcase: React.FC = () => {
+  const { formatDisplayPrice } = useCurrency();
   const [products, setProducts] = useState<Product[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -252,7 +254,7 @@ const ProductShowcase: React.FC = () => {
                 {/* Price */}
                 <div className="flex items-center justify-between">
                   <div className="flex items-center space-x-2">
-                    <span className="text-2xl font-bold text-gray-900 dark:text-gray-100">${product.price.toFixed(2)}</span>
+                    <span className="text-2xl font-bold text-gray-900 dark:text-gray-100">{formatDisplayPrice(product.price)}</span>
                   </div>
                   <button
                     className={`px-4 py-2 rounded-lg font-medium transition-all duration-200 transform hover:-translate-y-0.5 ${
@@ -1,4 +1,5 @@
 import React from 'react';
+import { useCurrency } from '../hooks/useCurrency';
 
 interface ProductVariant {
   id: string;
@@ -22,6 +23,8 @@ const ProductVariants: React.FC<ProductVariantsProps> = ({
   onVariantChange,
   className = ''
 }) => {
+  const { formatDisplayPrice } = useCurrency();
+
   // Group variants by type
   const groupedVariants = variants.reduce((acc, variant) => {
     if (!acc[variant.type]) {
@@ -33,8 +36,8 @@ const ProductVariants: React.FC<ProductVariantsProps> = ({
 
   // Format price modifier for display
   const formatPriceModifier = (modifier: number) => {
-    const sign = modifier >= 0 ? '+' : '';
-    return `${sign}$${Math.abs(modifier).toFixed(2)}`;
+    const sign = modifier >= 0 ? '+' : '-';
+    return `${sign}${formatDisplayPrice(Math.abs(modifier))}`;
   };
 
   // Get variant type display name
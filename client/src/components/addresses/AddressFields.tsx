@@ -0,0 +1,126 @@
+import React from 'react';
+import {
+  AddressFormValues,
+  CountryAddressSchema,
+  COUNTRY_ADDRESS_FIELDS,
+  DEFAULT_ADDRESS_FIELDS,
+  findCountrySchema,
+  addressErrorKey
+} from '../../types/addresses';
+
+interface AddressFieldsProps {
+  values: AddressFormValues;
+  // Countries we ship to - the chosen one decides which fields are shown
+  countries: CountryAddressSchema[];
+  // Errors keyed by addressErrorKey(errorPrefix, field), e.g. billingCity
+  errors: Record<string, string>;
+  errorPrefix: string;
+  onChange: (field: keyof AddressFormValues, value: string) => void;
+}
+
+const WIDE_FIELDS: Array<keyof AddressFormValues> = ['addressLine1', 'addressLine2'];
+
+const inputClasses = (error?: string): string =>
+  `w-full px-4 py-3 bg-gray-700 border rounded-lg text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    error ? 'border-red-500' : 'border-gray-600'
+  }`;
+
+// The inputs of one postal address, styled for checkout and laid out for its country
+const AddressFields: React.FC<AddressFieldsProps> = ({ values, countries, errors, errorPrefix, onChange }) => {
+  const schema = findCountrySchema(countries, values.country);
+  const fields = schema ? schema.fields : DEFAULT_ADDRESS_FIELDS;
+  const errorFor = (field: string) => errors[addressErrorKey(errorPrefix, field)];
+
+  // Keep a saved address's country selectable even if we no longer list it
+  const countryNames = countries.map(country => country.country);
+  if (values.country && !schema) {
+    countryNames.push(values.country);
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Full Name *
+        </label>
+        <input
+          type="text"
+          value={values.fullName}
+          onChange={(e) => onChange('fullName', e.target.value)}
+          className={inputClasses(errorFor('fullName'))}
+          placeholder="Enter the full name"
+        />
+        {errorFor('fullName') && (
+          <p className="mt-1 text-sm text-red-400">{errorFor('fullName')}</p>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Country *
+        </label>
+        <select
+          value={values.country}
+          onChange={(e) => onChange('country', e.target.value)}
+          className={inputClasses(errorFor('country'))}
+        >
+          <option value="" disabled>Select a country</option>
+          {countryNames.map(country => (
+            <option key={country} value={country}>{country}</option>
+          ))}
+        </select>
+        {errorFor('country') && (
+          <p className="mt-1 text-sm text-red-400">{errorFor('country')}</p>
+        )}
+      </div>
+
+      {COUNTRY_ADDRESS_FIELDS.map(field => {
+        const rule = fields[field];
+        if (!rule) {
+          return null;
+        }
+
+        const error = errorFor(field);
+        const placeholder = field === 'postalCode' && schema?.postalCodeExample
+          ? `e.g. ${schema.postalCodeExample}`
+          : rule.placeholder || rule.label;
+
+        return (
+          <div key={field} className={WIDE_FIELDS.includes(field) ? 'md:col-span-2' : undefined}>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              {rule.label} {rule.required ? '*' : '(Optional)'}
+            </label>
+            <input
+              type="text"
+              value={values[field]}
+              onChange={(e) => onChange(field, e.target.value)}
+              className={inputClasses(error)}
+              placeholder={placeholder}
+            />
+            {error && (
+              <p className="mt-1 text-sm text-red-400">{error}</p>
+            )}
+          </div>
+        );
+      })}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Phone Number *
+        </label>
+        <input
+          type="tel"
+          value={values.phone}
+          onChange={(e) => onChange('phone', e.target.value)}
+          className={inputClasses(errorFor('phone'))}
+          placeholder={schema?.phoneExample || '+1 415 555 0132'}
+        />
+        {errorFor('phone') && (
+          <p className="mt-1 text-sm text-red-400">{errorFor('phone')}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AddressFields;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { BookUser, Plus } from 'lucide-react';
+import { SavedAddress, formatAddressLine } from '../../types/addresses';
+
+interface SavedAddressPickerProps {
+  addresses: SavedAddress[];
+  selectedId: string | null;
+  name: string;
+  onSelect: (address: SavedAddress | null) => void;
+}
+
+// Radio list of address book entries, ending with "use a new address"
+const SavedAddressPicker: React.FC<SavedAddressPickerProps> = ({ addresses, selectedId, name, onSelect }) => {
+  if (addresses.length === 0) {
+    return null;
+  }
+
+  const optionClasses = (isSelected: boolean) =>
+    `flex items-start p-4 border rounded-lg cursor-pointer transition-colors ${
+      isSelected ? 'border-blue-500 bg-blue-500/10' : 'border-gray-600 hover:border-gray-500'
+    }`;
+
+  return (
+    <div className="space-y-3 mb-6">
+      <p className="flex items-center text-sm font-medium text-gray-300">
+        <BookUser className="w-4 h-4 mr-2" />
+        Your saved addresses
+      </p>
+      {addresses.map(address => (
+        <label key={address.id} className={optionClasses(selectedId === address.id)}>
+          <input
+            type="radio"
+            name={name}
+            checked={selectedId === address.id}
+            onChange={() => onSelect(address)}
+            className="mt-1 mr-3 text-blue-500 focus:ring-blue-500"
+          />
+          <div>
+            <p className="text-gray-100 font-medium">
+              {address.fullName}
+              {address.isDefault && (
+                <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-blue-500/20 text-blue-300">
+                  Default {address.type}
+                </span>
+              )}
+            </p>
+            <p className="text-sm text-gray-400">{formatAddressLine(address)}</p>
+            <p className="text-sm text-gray-400">{address.phone}</p>
+          </div>
+        </label>
+      ))}
+      <label className={optionClasses(selectedId === null)}>
+        <input
+          type="radio"
+          name={name}
+          checked={selectedId === null}
+          onChange={() => onSelect(null)}
+          className="mt-1 mr-3 text-blue-500 focus:ring-blue-500"
+        />
+        <span className="flex items-center text-gray-100">
+          <Plus className="w-4 h-4 mr-2" />
+          Use a new address
+        </span>
+      </label>
+    </div>
+  );
+};
+
+export default SavedAddressPicker;
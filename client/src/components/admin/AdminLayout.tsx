@@ -1,10 +1,12 @@
 import React, { useState } from 'react';
-import { Package, ShoppingCart, BarChart3, Settings, Menu, X } from 'lucide-react';
+import { Package, ShoppingCart, PackageCheck, RotateCcw, FileText, Banknote, Tag, Webhook, Mail, ShoppingBag, BarChart3, Settings, Menu, X } from 'lucide-react';
+
+export type AdminSection = 'products' | 'orders' | 'fulfillment' | 'returns' | 'invoices' | 'cod' | 'promotions' | 'webhooks' | 'emails' | 'recovery' | 'analytics' | 'settings';
 
 interface AdminLayoutProps {
   children: React.ReactNode;
-  currentSection: 'products' | 'orders' | 'analytics' | 'settings';
-  onSectionChange: (section: 'products' | 'orders' | 'analytics' | 'settings') => void;
+  currentSection: AdminSection;
+  onSectionChange: (section: AdminSection) => void;
 }
 
 const AdminLayout: React.FC<AdminLayoutProps> = ({ children, currentSection, onSectionChange }) => {
@@ -23,6 +25,54 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children, currentSection, onS
       icon: ShoppingCart,
       description: 'Process and track customer orders'
     },
+    {
+      id: 'fulfillment' as const,
+      name: 'Fulfillment',
+      icon: PackageCheck,
+      description: 'Ship orders that still have units waiting'
+    },
+    {
+      id: 'returns' as const,
+      name: 'Returns',
+      icon: RotateCcw,
+      description: 'Review return requests, receive goods and issue refunds'
+    },
+    {
+      id: 'invoices' as const,
+      name: 'Invoices',
+      icon: FileText,
+      description: 'Download invoices and credit notes'
+    },
+    {
+      id: 'cod' as const,
+      name: 'Cash on Delivery',
+      icon: Banknote,
+      description: 'Reconcile courier cash collections and remittances'
+    },
+    {
+      id: 'promotions' as const,
+      name: 'Promotions',
+      icon: Tag,
+      description: 'Create coupon codes and track redemptions'
+    },
+    {
+      id: 'webhooks' as const,
+      name: 'Webhooks',
+      icon: Webhook,
+      description: 'Inspect and retry payment provider webhooks'
+    },
+    {
+      id: 'emails' as const,
+      name: 'Emails',
+      icon: Mail,
+      description: 'Preview and resend customer emails'
+    },
+    {
+      id: 'recovery' as const,
+      name: 'Recovery',
+      icon: ShoppingBag,
+      description: 'Track abandoned checkouts and recovered orders'
+    },
     {
       id: 'analytics' as const,
       name: 'Analytics',
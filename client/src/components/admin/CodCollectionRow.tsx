@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { formatCurrency, formatDate } from '../../types/admin';
+import {
+  CodCollection,
+  CodCollectionStatus,
+  CollectionOutcomeRequest,
+  COD_COLLECTION_STATUS_LABELS,
+  getCollectionStatusClasses
+} from '../../types/cod';
+
+interface CodCollectionRowProps {
+  collection: CodCollection;
+  onRecord: (orderId: string, outcome: CollectionOutcomeRequest) => Promise<void>;
+  // Collected cash not yet remitted can be picked for a remittance
+  selectable?: boolean;
+  selected?: boolean;
+  onToggleSelected?: (collectionId: string) => void;
+}
+
+// Outcomes staff can record from each status
+const OUTCOMES: Partial<Record<CodCollectionStatus, CodCollectionStatus[]>> = {
+  awaiting_collection: ['collected', 'failed', 'refused'],
+  failed: ['awaiting_collection', 'collected', 'refused']
+};
+
+const OUTCOME_ACTIONS: Record<CodCollectionStatus, string> = {
+  awaiting_collection: 'Try Again',
+  collected: 'Collected',
+  failed: 'Failed',
+  refused: 'Refused'
+};
+
+// One cash on delivery order with forms to record what the courier reported
+const CodCollectionRow: React.FC<CodCollectionRowProps> = ({
+  collection,
+  onRecord,
+  selectable,
+  selected,
+  onToggleSelected
+}) => {
+  const [outcome, setOutcome] = useState<CodCollectionStatus | null>(null);
+  const [amount, setAmount] = useState(collection.expectedAmount.toFixed(2));
+  const [driverReference, setDriverReference] = useState(collection.driverReference || '');
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!outcome) return;
+
+    const value = parseFloat(amount);
+    if (outcome === 'collected' && (isNaN(value) || value <= 0)) {
+      setError('Enter the amount the courier collected');
+      return;
+    }
+    if ((outcome === 'failed' || outcome === 'refused') && !note.trim()) {
+      setError('Please say what happened at the door');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await onRecord(collection.orderId, {
+        status: outcome,
+        amount: outcome === 'collected' ? value : undefined,
+        driverReference: driverReference.trim() || undefined,
+        note: note.trim() || undefined
+      });
+      setOutcome(null);
+      setNote('');
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const actions = OUTCOMES[collection.status] || [];
+
+  return (
+    <div className="p-4">
+      <div className="flex flex-wrap items-center gap-3">
+        {selectable && (
+          <input
+            type="checkbox"
+            checked={!!selected}
+            onChange={() => onToggleSelected?.(collection.id)}
+            className="rounded text-indigo-600 focus:ring-indigo-500"
+          />
+        )}
+        <span className="font-semibold text-gray-900">#{collection.orderNumber}</span>
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getCollectionStatusClasses(collection.status)}`}>
+          {COD_COLLECTION_STATUS_LABELS[collection.status]}
+        </span>
+        <span className="text-sm text-gray-600">{collection.customerEmail}</span>
+        <span className="ml-auto font-medium text-gray-900">
+          {collection.collectedAmount !== null && collection.collectedAmount !== collection.expectedAmount
+            ? `${formatCurrency(collection.collectedAmount)} of ${formatCurrency(collection.expectedAmount)}`
+            : formatCurrency(collection.expectedAmount)}
+        </span>
+      </div>
+
+      <div className="mt-1 text-sm text-gray-600 flex flex-wrap gap-x-4">
+        <span>Shipped {formatDate(collection.createdAt)}</span>
+        {collection.collectedAt && <span>Collected {formatDate(collection.collectedAt)}</span>}
+        {collection.driverReference && <span>Driver {collection.driverReference}</span>}
+        {collection.remittanceReference && <span>Remitted in {collection.remittanceReference}</span>}
+      </div>
+      {collection.note && <p className="mt-1 text-sm text-gray-500 italic">“{collection.note}”</p>}
+
+      {actions.length > 0 && !outcome && (
+        <div className="mt-3 flex flex-wrap justify-end gap-2">
+          {actions.map(action => (
+            <button
+              key={action}
+              onClick={() => { setOutcome(action); setError(null); }}
+              className={`px-3 py-2 text-sm font-medium rounded-lg ${
+                action === 'collected'
+                  ? 'text-white bg-green-600 hover:bg-green-700'
+                  : action === 'refused'
+                    ? 'text-white bg-red-600 hover:bg-red-700'
+                    : 'text-indigo-700 bg-indigo-50 hover:bg-indigo-100'
+              }`}
+            >
+              {OUTCOME_ACTIONS[action]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {outcome && (
+        <form onSubmit={handleSubmit} className="mt-3 p-3 bg-gray-50 rounded-lg space-y-2">
+          <p className="text-sm font-medium text-gray-900">
+            {outcome === 'refused'
+              ? 'The customer refused the parcel - the order will be returned and restocked.'
+              : outcome === 'awaiting_collection'
+                ? 'The courier will try to collect again.'
+                : `Mark as ${OUTCOME_ACTIONS[outcome].toLowerCase()}`}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {outcome === 'collected' && (
+              <input
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="Amount"
+                className="w-28 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              />
+            )}
+            <input
+              type="text"
+              value={driverReference}
+              onChange={(e) => setDriverReference(e.target.value)}
+              maxLength={100}
+              placeholder="Driver or run reference"
+              className="w-48 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            />
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={500}
+              placeholder={outcome === 'failed' || outcome === 'refused' ? 'What happened?' : 'Note (optional)'}
+              className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setOutcome(null)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-2"
+            >
+              {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+              Save
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default CodCollectionRow;
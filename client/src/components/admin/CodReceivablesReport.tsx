@@ -0,0 +1,89 @@
+import React from 'react';
+import { formatCurrency } from '../../types/admin';
+import { CodReceivablesReport as Report, COD_COLLECTION_STATUS_LABELS, getCollectionStatusClasses } from '../../types/cod';
+
+interface CodReceivablesReportProps {
+  report: Report;
+}
+
+// Cash on delivery money not received yet, by where it is and how old it is
+const CodReceivablesReport: React.FC<CodReceivablesReportProps> = ({ report }) => {
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <p className="text-sm font-medium text-gray-600">Awaiting Collection</p>
+          <p className="text-2xl font-bold text-gray-900">{formatCurrency(report.awaitingCollection.amount)}</p>
+          <p className="text-sm text-gray-500">{report.awaitingCollection.count} orders with the courier</p>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <p className="text-sm font-medium text-gray-600">Held by Courier</p>
+          <p className="text-2xl font-bold text-gray-900">{formatCurrency(report.heldByCourier.amount)}</p>
+          <p className="text-sm text-gray-500">{report.heldByCourier.count} collected, not remitted</p>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <p className="text-sm font-medium text-gray-600">Total Outstanding</p>
+          <p className="text-2xl font-bold text-indigo-600">{formatCurrency(report.totalOutstanding)}</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Aging</h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b border-gray-100">
+              <th className="py-2 font-medium">Age</th>
+              <th className="py-2 font-medium text-right">Orders</th>
+              <th className="py-2 font-medium text-right">Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.aging.map(bucket => (
+              <tr key={bucket.label} className="border-b border-gray-50">
+                <td className="py-2 text-gray-900">{bucket.label}</td>
+                <td className="py-2 text-right text-gray-900">{bucket.count}</td>
+                <td className="py-2 text-right text-gray-900">{formatCurrency(bucket.amount)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {report.collections.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Outstanding Orders</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b border-gray-100">
+                <th className="py-2 font-medium">Order</th>
+                <th className="py-2 font-medium">Status</th>
+                <th className="py-2 font-medium">Driver</th>
+                <th className="py-2 font-medium text-right">Days</th>
+                <th className="py-2 font-medium text-right">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.collections.map(collection => (
+                <tr key={collection.id} className="border-b border-gray-50">
+                  <td className="py-2 text-gray-900">#{collection.orderNumber}</td>
+                  <td className="py-2">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getCollectionStatusClasses(collection.status)}`}>
+                      {COD_COLLECTION_STATUS_LABELS[collection.status]}
+                    </span>
+                  </td>
+                  <td className="py-2 text-gray-600">{collection.driverReference || '-'}</td>
+                  <td className="py-2 text-right text-gray-900">{collection.ageDays}</td>
+                  <td className="py-2 text-right text-gray-900">
+                    {formatCurrency(collection.status === 'collected' ? collection.collectedAmount || 0 : collection.expectedAmount)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CodReceivablesReport;
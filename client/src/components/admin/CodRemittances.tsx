@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { formatCurrency, formatDate } from '../../types/admin';
+import { CodRemittance, getRemittanceStatusClasses } from '../../types/cod';
+
+interface CodRemittancesProps {
+  remittances: CodRemittance[];
+  onResolve: (remittanceId: string, note: string) => Promise<void>;
+}
+
+// Courier remittances with the difference to what was collected
+const CodRemittances: React.FC<CodRemittancesProps> = ({ remittances, onResolve }) => {
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleResolve = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!resolvingId) return;
+
+    if (!note.trim()) {
+      setError('Please explain how the difference was settled');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await onResolve(resolvingId, note.trim());
+      setResolvingId(null);
+      setNote('');
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (remittances.length === 0) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm p-12 text-center">
+        <h3 className="text-xl font-semibold text-gray-900 mb-2">No Remittances Yet</h3>
+        <p className="text-gray-600">Select collected cash under Unremitted to record a courier remittance.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm divide-y divide-gray-100">
+      {remittances.map(remittance => (
+        <div key={remittance.id} className="p-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="font-semibold text-gray-900">{remittance.reference}</span>
+            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getRemittanceStatusClasses(remittance.status)}`}>
+              {remittance.status}
+            </span>
+            <span className="text-sm text-gray-600">{remittance.courier}</span>
+            <span className="text-sm text-gray-500 ml-auto">{formatDate(remittance.receivedAt)}</span>
+          </div>
+          <div className="mt-2 grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+            <div>
+              <p className="text-gray-600">Orders</p>
+              <p className="font-medium text-gray-900">{remittance.collectionCount}</p>
+            </div>
+            <div>
+              <p className="text-gray-600">Expected</p>
+              <p className="font-medium text-gray-900">{formatCurrency(remittance.expectedAmount)}</p>
+            </div>
+            <div>
+              <p className="text-gray-600">Received</p>
+              <p className="font-medium text-gray-900">{formatCurrency(remittance.receivedAmount)}</p>
+            </div>
+            <div>
+              <p className="text-gray-600">Difference</p>
+              <p className={`font-medium ${remittance.difference === 0 ? 'text-gray-900' : 'text-red-600'}`}>
+                {remittance.difference > 0 ? '+' : ''}{formatCurrency(remittance.difference)}
+              </p>
+            </div>
+          </div>
+          {remittance.note && <p className="mt-2 text-sm text-gray-500 italic">“{remittance.note}”</p>}
+          {remittance.createdByName && <p className="mt-1 text-xs text-gray-500">Recorded by {remittance.createdByName}</p>}
+
+          {remittance.status === 'discrepancy' && resolvingId !== remittance.id && (
+            <div className="mt-3 flex justify-end">
+              <button
+                onClick={() => { setResolvingId(remittance.id); setNote(''); setError(null); }}
+                className="px-3 py-2 text-sm font-medium text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100"
+              >
+                Resolve
+              </button>
+            </div>
+          )}
+
+          {resolvingId === remittance.id && (
+            <form onSubmit={handleResolve} className="mt-3 p-3 bg-gray-50 rounded-lg space-y-2">
+              <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                maxLength={500}
+                placeholder="How was the difference settled?"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              />
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setResolvingId(null)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-2"
+                >
+                  {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Mark Resolved
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CodRemittances;
@@ -0,0 +1,390 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Save, Loader2, AlertCircle, Coins, Upload, CheckCircle } from 'lucide-react';
+import { api } from '../../config/api';
+import { AdminCurrency, CurrencyRequest } from '../../types/currency';
+import { formatDate } from '../../types/admin';
+
+const emptyForm: CurrencyRequest = {
+  code: '',
+  name: '',
+  decimals: 2,
+  rate: undefined,
+  isEnabled: true
+};
+
+// Rate inputs are kept as text so a half-typed number is not lost
+type RateDrafts = Record<string, string>;
+
+const toRateDrafts = (currencies: AdminCurrency[]): RateDrafts => {
+  return Object.fromEntries(currencies.map(currency => [currency.code, String(currency.rate)]));
+};
+
+const CurrenciesManager: React.FC = () => {
+  const [currencies, setCurrencies] = useState<AdminCurrency[]>([]);
+  const [rateDrafts, setRateDrafts] = useState<RateDrafts>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [savingCode, setSavingCode] = useState<string | null>(null);
+
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<CurrencyRequest>(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [isImporting, setIsImporting] = useState(false);
+  const [importMessage, setImportMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    fetchCurrencies();
+  }, []);
+
+  const fetchCurrencies = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await api.get('api/admin/currencies');
+      const data = await response.json();
+
+      if (data.success) {
+        setCurrencies(data.data);
+        setRateDrafts(toRateDrafts(data.data));
+      } else {
+        setError(data.message || 'Failed to fetch currencies');
+      }
+    } catch (error) {
+      console.error('Error fetching currencies:', error);
+      setError('Network error. Please check your connection.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Save one currency's rate or availability
+  const handleUpdate = async (currency: AdminCurrency, changes: CurrencyRequest) => {
+    try {
+      setSavingCode(currency.code);
+      setError(null);
+
+      const response = await api.put(`api/admin/currencies/${currency.code}`, changes);
+      const data = await response.json();
+
+      if (data.success) {
+        const updated: AdminCurrency = data.data;
+        setCurrencies(prev => prev.map(c => c.code === updated.code ? updated : c));
+        setRateDrafts(prev => ({ ...prev, [updated.code]: String(updated.rate) }));
+      } else {
+        setError(data.message || 'Failed to update currency');
+      }
+    } catch (error) {
+      console.error('Error updating currency:', error);
+      setError('Network error. Please try again.');
+    } finally {
+      setSavingCode(null);
+    }
+  };
+
+  const handleSaveRate = (currency: AdminCurrency) => {
+    const rate = parseFloat(rateDrafts[currency.code]);
+    if (!rate || rate <= 0) {
+      setError(`Enter a positive rate for ${currency.code}`);
+      return;
+    }
+    handleUpdate(currency, { rate });
+  };
+
+  // Add a currency
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const code = (formData.code || '').trim().toUpperCase();
+    if (!/^[A-Z]{3}$/.test(code)) {
+      setFormError('Code must be a three-letter ISO code, e.g. GBP');
+      return;
+    }
+    if (!formData.name?.trim()) {
+      setFormError('Name is required');
+      return;
+    }
+    if (!formData.rate || formData.rate <= 0) {
+      setFormError('Rate must be a positive number');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setFormError(null);
+
+      const response = await api.post('api/admin/currencies', { ...formData, code, name: formData.name.trim() });
+      const data = await response.json();
+
+      if (data.success) {
+        await fetchCurrencies();
+        setFormData(emptyForm);
+        setShowForm(false);
+      } else {
+        setFormError(data.message || 'Failed to add currency');
+      }
+    } catch (error) {
+      console.error('Error adding currency:', error);
+      setFormError('Network error. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Update rates from a "CODE,rate" file - nothing changes unless every line is valid
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setIsImporting(true);
+      setImportMessage(null);
+
+      const content = await file.text();
+      const response = await api.post('api/admin/currencies/import', { content });
+      const data = await response.json();
+
+      if (data.success) {
+        setCurrencies(data.data);
+        setRateDrafts(toRateDrafts(data.data));
+        setImportMessage({ type: 'success', text: data.message });
+      } else {
+        setImportMessage({ type: 'error', text: data.message || 'Failed to import exchange rates' });
+      }
+    } catch (error) {
+      console.error('Error importing exchange rates:', error);
+      setImportMessage({ type: 'error', text: 'Network error. Please try again.' });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const baseCurrency = currencies.find(currency => currency.isBase);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm">
+      {/* Header */}
+      <div className="flex items-center justify-between p-6 border-b border-gray-200">
+        <div className="flex items-center gap-3">
+          <Coins className="w-6 h-6 text-indigo-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Currencies</h3>
+            <p className="text-sm text-gray-600">
+              Prices are kept in {baseCurrency ? baseCurrency.code : 'the base currency'} and shown to customers in the currency they pick.
+              Orders keep the rate they were placed at.
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <label className={`px-4 py-2 rounded-lg font-medium flex items-center gap-2 border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors ${
+            isImporting ? 'opacity-50 cursor-wait' : 'cursor-pointer'
+          }`}>
+            {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            Import Rates
+            <input
+              type="file"
+              accept=".csv,.txt,text/csv,text/plain"
+              onChange={handleImport}
+              disabled={isImporting}
+              className="hidden"
+            />
+          </label>
+          <button
+            onClick={() => { setShowForm(prev => !prev); setFormError(null); }}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg font-medium flex items-center gap-2 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Add Currency
+          </button>
+        </div>
+      </div>
+
+      {/* Import Result */}
+      {importMessage && (
+        <div className={`mx-6 mt-6 rounded-lg p-4 flex items-start gap-3 border ${
+          importMessage.type === 'success' ? 'bg-green-50 border-green-200 text-green-700' : 'bg-red-50 border-red-200 text-red-700'
+        }`}>
+          {importMessage.type === 'success'
+            ? <CheckCircle className="w-5 h-5 flex-shrink-0" />
+            : <AlertCircle className="w-5 h-5 flex-shrink-0" />}
+          <p className="text-sm">{importMessage.text}</p>
+        </div>
+      )}
+      <p className="px-6 pt-4 text-xs text-gray-500">
+        Rate files have one <code>CODE,rate</code> pair per line, e.g. <code>EUR,0.92</code> - units of the currency per 1 {baseCurrency?.code || 'base unit'}.
+      </p>
+
+      {/* Add Form */}
+      {showForm && (
+        <form onSubmit={handleCreate} className="m-6 p-4 rounded-lg bg-gray-50 border border-gray-200 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Code *</label>
+              <input
+                type="text"
+                value={formData.code}
+                onChange={(e) => setFormData(prev => ({ ...prev, code: e.target.value.toUpperCase() }))}
+                maxLength={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                placeholder="GBP"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                maxLength={100}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                placeholder="British Pound"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Rate *</label>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={formData.rate ?? ''}
+                onChange={(e) => setFormData(prev => ({ ...prev, rate: e.target.value === '' ? undefined : parseFloat(e.target.value) }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                placeholder={`per 1 ${baseCurrency?.code || 'base unit'}`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Decimals</label>
+              <select
+                value={formData.decimals}
+                onChange={(e) => setFormData(prev => ({ ...prev, decimals: parseInt(e.target.value, 10) }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              >
+                {[0, 1, 2, 3].map(decimals => (
+                  <option key={decimals} value={decimals}>{decimals}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {formError && (
+            <div className="flex items-center gap-2 text-sm text-red-700">
+              <AlertCircle className="w-4 h-4" />
+              {formError}
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-2"
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              Add Currency
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Currency List */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
+        </div>
+      ) : (
+        <div className="p-6">
+          {error && (
+            <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-4 flex items-center gap-3">
+              <AlertCircle className="w-5 h-5 text-red-600" />
+              <p className="text-red-700">{error}</p>
+            </div>
+          )}
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead>
+                <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <th className="py-3 pr-4">Currency</th>
+                  <th className="py-3 pr-4">Rate per 1 {baseCurrency?.code}</th>
+                  <th className="py-3 pr-4">Decimals</th>
+                  <th className="py-3 pr-4">Rate updated</th>
+                  <th className="py-3">Offered</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {currencies.map(currency => (
+                  <tr key={currency.code} className="text-sm">
+                    <td className="py-3 pr-4">
+                      <span className="font-medium text-gray-900">{currency.code}</span>
+                      <span className="ml-2 text-gray-600">{currency.name}</span>
+                      {currency.isBase && (
+                        <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-indigo-100 text-indigo-800">
+                          Base
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-3 pr-4">
+                      {currency.isBase ? (
+                        <span className="text-gray-600">1</span>
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={rateDrafts[currency.code] ?? ''}
+                            onChange={(e) => setRateDrafts(prev => ({ ...prev, [currency.code]: e.target.value }))}
+                            className="w-32 px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                          />
+                          {rateDrafts[currency.code] !== String(currency.rate) && (
+                            <button
+                              onClick={() => handleSaveRate(currency)}
+                              disabled={savingCode === currency.code}
+                              className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors disabled:opacity-50"
+                              title="Save rate"
+                            >
+                              {savingCode === currency.code ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-3 pr-4">
+                      <select
+                        value={currency.decimals}
+                        onChange={(e) => handleUpdate(currency, { decimals: parseInt(e.target.value, 10) })}
+                        disabled={savingCode === currency.code}
+                        className="px-2 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                      >
+                        {[0, 1, 2, 3].map(decimals => (
+                          <option key={decimals} value={decimals}>{decimals}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-3 pr-4 text-gray-600">
+                      {currency.isBase || !currency.rateUpdatedAt ? '-' : formatDate(currency.rateUpdatedAt)}
+                    </td>
+                    <td className="py-3">
+                      <input
+                        type="checkbox"
+                        checked={currency.isEnabled}
+                        disabled={currency.isBase || savingCode === currency.code}
+                        onChange={(e) => handleUpdate(currency, { isEnabled: e.target.checked })}
+                        className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 disabled:opacity-50"
+                        title={currency.isBase ? 'The base currency is always offered' : 'Offer this currency to customers'}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CurrenciesManager;
@@ -0,0 +1,228 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2, Loader2, AlertCircle, CalendarDays } from 'lucide-react';
+import { api } from '../../config/api';
+import { StoreHoliday, StoreHolidayRequest, formatCalendarDate } from '../../types/delivery';
+
+const emptyForm: StoreHolidayRequest = {
+  date: '',
+  name: ''
+};
+
+// Today as YYYY-MM-DD in the browser's timezone
+const todayDate = () => {
+  const now = new Date();
+  return [
+    now.getFullYear(),
+    String(now.getMonth() + 1).padStart(2, '0'),
+    String(now.getDate()).padStart(2, '0')
+  ].join('-');
+};
+
+const HolidayCalendarManager: React.FC = () => {
+  const [holidays, setHolidays] = useState<StoreHoliday[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showPast, setShowPast] = useState(false);
+
+  const [formData, setFormData] = useState<StoreHolidayRequest>(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchHolidays();
+  }, []);
+
+  const fetchHolidays = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await api.get('api/admin/holidays');
+      const data = await response.json();
+
+      if (data.success) {
+        setHolidays(data.data);
+      } else {
+        setError(data.message || 'Failed to fetch store holidays');
+      }
+    } catch (error) {
+      console.error('Error fetching store holidays:', error);
+      setError('Network error. Please check your connection.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Add a holiday
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.date) {
+      setFormError('Choose a date');
+      return;
+    }
+    if (!formData.name.trim()) {
+      setFormError('Enter a name for the holiday');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setFormError(null);
+
+      const response = await api.post('api/admin/holidays', {
+        date: formData.date,
+        name: formData.name.trim()
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setHolidays(prev => [...prev, data.data].sort((a, b) => a.date.localeCompare(b.date)));
+        setFormData(emptyForm);
+      } else {
+        setFormError(data.message || 'Failed to add holiday');
+      }
+    } catch (error) {
+      console.error('Error adding store holiday:', error);
+      setFormError('Network error. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Remove a holiday
+  const handleDelete = async (holiday: StoreHoliday) => {
+    if (!window.confirm(`Remove "${holiday.name}"? Orders will be estimated to ship on that day again.`)) {
+      return;
+    }
+
+    try {
+      const response = await api.delete(`api/admin/holidays/${holiday.id}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setHolidays(prev => prev.filter(h => h.id !== holiday.id));
+      } else {
+        setError(data.message || 'Failed to remove holiday');
+      }
+    } catch (error) {
+      console.error('Error removing store holiday:', error);
+      setError('Network error. Please try again.');
+    }
+  };
+
+  const today = todayDate();
+  const visibleHolidays = showPast ? holidays : holidays.filter(holiday => holiday.date >= today);
+  const pastCount = holidays.length - holidays.filter(holiday => holiday.date >= today).length;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm">
+      {/* Header */}
+      <div className="flex items-center gap-3 p-6 border-b border-gray-200">
+        <CalendarDays className="w-6 h-6 text-indigo-600" />
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Holiday Calendar</h3>
+          <p className="text-sm text-gray-600">
+            Nothing ships on weekends or these days. Delivery estimates skip them.
+          </p>
+        </div>
+      </div>
+
+      {/* Add Form */}
+      <form onSubmit={handleAdd} className="p-6 border-b border-gray-200 bg-gray-50">
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Date *</label>
+            <input
+              type="date"
+              value={formData.date}
+              onChange={(e) => setFormData(prev => ({ ...prev, date: e.target.value }))}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            />
+          </div>
+          <div className="flex-1 min-w-[12rem]">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+            <input
+              type="text"
+              value={formData.name}
+              onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              maxLength={100}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              placeholder="e.g. Thanksgiving"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg font-medium flex items-center gap-2 transition-colors disabled:opacity-50"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Add Holiday
+          </button>
+        </div>
+
+        {formError && (
+          <div className="mt-4 flex items-center gap-2 text-sm text-red-700">
+            <AlertCircle className="w-4 h-4" />
+            {formError}
+          </div>
+        )}
+      </form>
+
+      {/* Holiday List */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
+        </div>
+      ) : error ? (
+        <div className="m-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-center gap-3">
+          <AlertCircle className="w-5 h-5 text-red-600" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      ) : (
+        <div>
+          {visibleHolidays.length === 0 ? (
+            <div className="p-12 text-center text-gray-600">
+              No upcoming holidays. Orders ship every weekday.
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {visibleHolidays.map(holiday => (
+                <li key={holiday.id} className="flex items-center justify-between px-6 py-4">
+                  <div>
+                    <p className={`text-sm font-medium ${holiday.date < today ? 'text-gray-500' : 'text-gray-900'}`}>
+                      {holiday.name}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {formatCalendarDate(holiday.date, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleDelete(holiday)}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                    title="Remove holiday"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {pastCount > 0 && (
+            <div className="px-6 py-3 border-t border-gray-200">
+              <button
+                onClick={() => setShowPast(prev => !prev)}
+                className="text-sm font-medium text-indigo-600 hover:text-indigo-800"
+              >
+                {showPast ? 'Hide past holidays' : `Show ${pastCount} past ${pastCount === 1 ? 'holiday' : 'holidays'}`}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HolidayCalendarManager;
@@ -9,60 +9,125 @@ import {
   ChevronDown, 
   ChevronUp,
   Loader2,
-  ArrowRight
+  ArrowRight,
+  History,
+  XCircle
 } from 'lucide-react';
 import { 
   AdminOrder, 
   OrderStatus, 
+  OrderStatusHistoryEntry,
   formatCurrency, 
   formatDate, 
-  getNextOrderStatus,
-  canUpdateOrderStatus 
+  getOrderStatusText,
+  getStatusActorText,
+  isReversalStatus
 } from '../../types/admin';
+import { api } from '../../config/api';
 import OrderStatusBadge from './OrderStatusBadge';
+import OrderRefunds from './OrderRefunds';
+import OrderShipments from './OrderShipments';
 
 interface OrderCardProps {
   order: AdminOrder;
-  onStatusUpdate: (orderId: string, newStatus: OrderStatus) => Promise<void>;
+  onStatusUpdate: (orderId: string, newStatus: OrderStatus, reason?: string) => Promise<void>;
+  onRefundIssued?: () => void;
+  onShipmentsChanged?: () => void;
   isUpdating?: boolean;
 }
 
-const OrderCard: React.FC<OrderCardProps> = ({ order, onStatusUpdate, isUpdating = false }) => {
+const OrderCard: React.FC<OrderCardProps> = ({ order, onStatusUpdate, onRefundIssued, onShipmentsChanged, isUpdating = false }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
+  const [statusError, setStatusError] = useState<string | null>(null);
 
-  const nextStatus = getNextOrderStatus(order.status);
-  const canAdvanceStatus = nextStatus && canUpdateOrderStatus(order.status, nextStatus);
+  // Reversals (cancel, refund, return) ask for a reason before they are sent
+  const [pendingReversal, setPendingReversal] = useState<OrderStatus | null>(null);
+  const [reversalReason, setReversalReason] = useState('');
 
-  const handleStatusUpdate = async (newStatus: OrderStatus) => {
-    if (isUpdatingStatus || !canUpdateOrderStatus(order.status, newStatus)) return;
+  const [history, setHistory] = useState<OrderStatusHistoryEntry[] | null>(null);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+
+  const forwardStatuses = order.allowedTransitions.filter(status => !isReversalStatus(status));
+  const reversalStatuses = order.allowedTransitions.filter(isReversalStatus);
+
+  const fetchHistory = async () => {
+    try {
+      setIsLoadingHistory(true);
+      const response = await api.get(`api/admin/orders/${order.id}/history`);
+      const data = await response.json();
+
+      if (data.success) {
+        setHistory(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch order history:', error);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  };
+
+  const handleToggleExpanded = () => {
+    if (!isExpanded && history === null) {
+      fetchHistory();
+    }
+    setIsExpanded(!isExpanded);
+  };
+
+  const handleStatusUpdate = async (newStatus: OrderStatus, reason?: string) => {
+    if (isUpdatingStatus || !order.allowedTransitions.includes(newStatus)) return;
 
     try {
       setIsUpdatingStatus(true);
-      await onStatusUpdate(order.id, newStatus);
+      setStatusError(null);
+      await onStatusUpdate(order.id, newStatus, reason);
+      setPendingReversal(null);
+      setReversalReason('');
+
+      // Show the new entry if the timeline is already loaded
+      if (history !== null) {
+        fetchHistory();
+      }
     } catch (error) {
       console.error('Failed to update order status:', error);
+      setStatusError((error as Error).message || 'Failed to update order status');
     } finally {
       setIsUpdatingStatus(false);
     }
   };
 
-  const getStatusUpdateButton = () => {
-    if (!canAdvanceStatus) return null;
+  const getStatusUpdateButtons = () => {
+    if (order.allowedTransitions.length === 0) return null;
 
     return (
-      <button
-        onClick={() => handleStatusUpdate(nextStatus)}
-        disabled={isUpdatingStatus || isUpdating}
-        className="inline-flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400 text-white text-sm font-medium rounded-lg transition-colors"
-      >
-        {isUpdatingStatus ? (
-          <Loader2 className="w-4 h-4 animate-spin" />
-        ) : (
-          <ArrowRight className="w-4 h-4" />
-        )}
-        Mark as {nextStatus?.charAt(0).toUpperCase() + nextStatus?.slice(1)}
-      </button>
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        {reversalStatuses.map(status => (
+          <button
+            key={status}
+            onClick={() => setPendingReversal(pendingReversal === status ? null : status)}
+            disabled={isUpdatingStatus || isUpdating}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-white border border-red-300 text-red-700 hover:bg-red-50 disabled:opacity-50 text-sm font-medium rounded-lg transition-colors"
+          >
+            <XCircle className="w-4 h-4" />
+            Mark as {getOrderStatusText(status)}
+          </button>
+        ))}
+        {forwardStatuses.map(status => (
+          <button
+            key={status}
+            onClick={() => handleStatusUpdate(status)}
+            disabled={isUpdatingStatus || isUpdating}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400 text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            {isUpdatingStatus ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <ArrowRight className="w-4 h-4" />
+            )}
+            Mark as {getOrderStatusText(status)}
+          </button>
+        ))}
+      </div>
     );
   };
 
@@ -85,9 +150,14 @@ const OrderCard: React.FC<OrderCardProps> = ({ order, onStatusUpdate, isUpdating
             </div>
           </div>
           <div className="flex items-center gap-3">
+            {order.cancelledBy === 'customer' && (
+              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border bg-orange-100 text-orange-800 border-orange-200">
+                By customer
+              </span>
+            )}
             <OrderStatusBadge status={order.status} />
             <button
-              onClick={() => setIsExpanded(!isExpanded)}
+              onClick={handleToggleExpanded}
               className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
             >
               {isExpanded ? (
@@ -121,15 +191,76 @@ const OrderCard: React.FC<OrderCardProps> = ({ order, onStatusUpdate, isUpdating
             <DollarSign className="w-5 h-5 text-gray-400" />
             <div>
               <p className="text-sm text-gray-600">Total</p>
-              <p className="font-medium text-gray-900">{formatCurrency(order.total)}</p>
+              <p className="font-medium text-gray-900">{formatCurrency(order.total, order.currency)}</p>
+              {order.refundedAmount > 0 && (
+                <p className="text-xs text-red-600">{formatCurrency(order.refundedAmount, order.currency)} refunded</p>
+              )}
             </div>
           </div>
         </div>
 
-        {/* Status Update Button */}
-        <div className="mt-4 flex justify-end">
-          {getStatusUpdateButton()}
+        {/* Cancellation - customer cancellations are called out so staff can follow up */}
+        {order.status === OrderStatus.CANCELLED && order.cancelledBy && (
+          <div
+            className={`mt-4 p-3 rounded-lg border text-sm ${
+              order.cancelledBy === 'customer'
+                ? 'bg-orange-50 border-orange-200 text-orange-900'
+                : 'bg-gray-50 border-gray-200 text-gray-700'
+            }`}
+          >
+            <p className="font-medium flex items-center gap-2">
+              <XCircle className="w-4 h-4" />
+              Cancelled by {order.cancelledBy === 'customer' ? 'the customer' : order.cancelledBy === 'admin' ? 'staff' : 'the system'}
+            </p>
+            {order.cancellationReason && <p className="mt-1">{order.cancellationReason}</p>}
+          </div>
+        )}
+
+        {/* Status Update Buttons */}
+        <div className="mt-4">
+          {getStatusUpdateButtons()}
         </div>
+
+        {/* Reason for a cancel, refund or return */}
+        {pendingReversal && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleStatusUpdate(pendingReversal, reversalReason.trim() || undefined);
+            }}
+            className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg flex flex-col sm:flex-row gap-3"
+          >
+            <input
+              type="text"
+              value={reversalReason}
+              onChange={(e) => setReversalReason(e.target.value)}
+              maxLength={500}
+              placeholder={`Why is this order being ${getOrderStatusText(pendingReversal).toLowerCase()}?`}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-red-500 focus:border-transparent"
+            />
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setPendingReversal(null)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                Keep Order
+              </button>
+              <button
+                type="submit"
+                disabled={isUpdatingStatus}
+                className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 disabled:opacity-50 flex items-center gap-2"
+              >
+                {isUpdatingStatus && <Loader2 className="w-4 h-4 animate-spin" />}
+                Confirm {getOrderStatusText(pendingReversal)}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {statusError && (
+          <p className="mt-3 text-sm text-red-600 text-right">{statusError}</p>
+        )}
       </div>
 
       {/* Expanded Details */}
@@ -152,11 +283,11 @@ const OrderCard: React.FC<OrderCardProps> = ({ order, onStatusUpdate, isUpdating
                     <div className="flex-1">
                       <p className="font-medium text-gray-900">{item.productName}</p>
                       <p className="text-sm text-gray-600">
-                        Qty: {item.quantity} × {formatCurrency(item.unitPrice)}
+                        Qty: {item.quantity} × {formatCurrency(item.unitPrice, order.currency)}
                       </p>
                     </div>
                     <p className="font-medium text-gray-900">
-                      {formatCurrency(item.quantity * item.unitPrice)}
+                      {formatCurrency(item.quantity * item.unitPrice, order.currency)}
                     </p>
                   </div>
                 ))}
@@ -174,16 +305,52 @@ const OrderCard: React.FC<OrderCardProps> = ({ order, onStatusUpdate, isUpdating
                 <div className="p-3 bg-white rounded-lg">
                   <p className="font-medium text-gray-900">{order.shippingAddress.fullName}</p>
                   <p className="text-sm text-gray-600">{order.shippingAddress.phone}</p>
-                  <p className="text-sm text-gray-600 mt-1">
-                    {order.shippingAddress.addressLine1}
-                    {order.shippingAddress.addressLine2 && (
-                      <>, {order.shippingAddress.addressLine2}</>
-                    )}
-                  </p>
-                  <p className="text-sm text-gray-600">
-                    {order.shippingAddress.city}, {order.shippingAddress.state} {order.shippingAddress.postalCode}
-                  </p>
-                  <p className="text-sm text-gray-600">{order.shippingAddress.country}</p>
+                  <div className="mt-1">
+                    {order.shippingAddress.formattedLines.map((line, index) => (
+                      <p key={index} className="text-sm text-gray-600">{line}</p>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              {/* Status Timeline */}
+              <div>
+                <h4 className="text-sm font-semibold text-gray-900 mb-3 flex items-center gap-2">
+                  <History className="w-4 h-4" />
+                  Status History
+                </h4>
+                <div className="p-3 bg-white rounded-lg">
+                  {isLoadingHistory && history === null ? (
+                    <div className="flex justify-center py-2">
+                      <Loader2 className="w-5 h-5 animate-spin text-indigo-600" />
+                    </div>
+                  ) : !history || history.length === 0 ? (
+                    <p className="text-sm text-gray-600">No status changes recorded.</p>
+                  ) : (
+                    <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+                      {history.map(entry => (
+                        <li key={entry.id} className="ml-4">
+                          <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-indigo-600 border-2 border-white" />
+                          <div className="flex items-center gap-2">
+                            <OrderStatusBadge status={entry.toStatus} />
+                            <span className="text-xs text-gray-500 flex items-center gap-1">
+                              <Calendar className="w-3 h-3" />
+                              {formatDate(entry.createdAt)}
+                            </span>
+                          </div>
+                          <p className="text-sm text-gray-700 mt-1">
+                            {entry.fromStatus
+                              ? `${getOrderStatusText(entry.fromStatus)} → ${getOrderStatusText(entry.toStatus)}`
+                              : 'Order placed'}
+                            {' by '}{getStatusActorText(entry.actorType, entry.actorName)}
+                          </p>
+                          {entry.reason && (
+                            <p className="text-sm text-gray-500 italic">“{entry.reason}”</p>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
                 </div>
               </div>
 
@@ -193,31 +360,61 @@ const OrderCard: React.FC<OrderCardProps> = ({ order, onStatusUpdate, isUpdating
                 <div className="p-3 bg-white rounded-lg space-y-2">
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">Subtotal:</span>
-                    <span className="text-gray-900">{formatCurrency(order.subtotal)}</span>
+                    <span className="text-gray-900">{formatCurrency(order.subtotal, order.currency)}</span>
                   </div>
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">Shipping:</span>
-                    <span className="text-gray-900">{formatCurrency(order.shippingCost)}</span>
+                    <span className="text-gray-900">{formatCurrency(order.shippingCost, order.currency)}</span>
                   </div>
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">Tax:</span>
-                    <span className="text-gray-900">{formatCurrency(order.taxAmount)}</span>
+                    <span className="text-gray-900">{formatCurrency(order.taxAmount, order.currency)}</span>
                   </div>
                   {order.codFee > 0 && (
                     <div className="flex justify-between text-sm">
                       <span className="text-gray-600">COD Fee:</span>
-                      <span className="text-gray-900">{formatCurrency(order.codFee)}</span>
+                      <span className="text-gray-900">{formatCurrency(order.codFee, order.currency)}</span>
                     </div>
                   )}
                   <div className="border-t pt-2 flex justify-between font-semibold">
                     <span className="text-gray-900">Total:</span>
-                    <span className="text-gray-900">{formatCurrency(order.total)}</span>
+                    <span className="text-gray-900">{formatCurrency(order.total, order.currency)}</span>
                   </div>
+                  {order.exchangeRate !== 1 && (
+                    <div className="flex justify-between text-xs text-gray-500">
+                      <span>In store currency:</span>
+                      <span>{formatCurrency(order.baseTotal)}</span>
+                    </div>
+                  )}
+                  {order.refundedAmount > 0 && (
+                    <>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-gray-600">Refunded:</span>
+                        <span className="text-red-600">-{formatCurrency(order.refundedAmount, order.currency)}</span>
+                      </div>
+                      <div className="flex justify-between font-semibold">
+                        <span className="text-gray-900">Net:</span>
+                        <span className="text-gray-900">{formatCurrency(order.netTotal, order.currency)}</span>
+                      </div>
+                    </>
+                  )}
                   <div className="text-sm text-gray-600 mt-2">
                     Payment: {order.paymentMethod.replace('_', ' ').toUpperCase()}
                   </div>
                 </div>
               </div>
+
+              <OrderShipments
+                orderId={order.id}
+                orderStatus={order.status}
+                onShipmentsChanged={() => {
+                  // A shipment can move the order along - show it on the timeline
+                  fetchHistory();
+                  onShipmentsChanged?.();
+                }}
+              />
+
+              <OrderRefunds orderId={order.id} currency={order.currency} onRefundIssued={onRefundIssued} />
             </div>
           </div>
         </div>
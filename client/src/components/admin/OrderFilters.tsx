@@ -19,10 +19,7 @@ const OrderFilters: React.FC<OrderFiltersProps> = ({
 }) => {
   const statusOptions: Array<{ value: 'all' | OrderStatus; label: string }> = [
     { value: 'all', label: 'All Orders' },
-    { value: OrderStatus.PENDING, label: getOrderStatusText(OrderStatus.PENDING) },
-    { value: OrderStatus.PAID, label: getOrderStatusText(OrderStatus.PAID) },
-    { value: OrderStatus.SHIPPED, label: getOrderStatusText(OrderStatus.SHIPPED) },
-    { value: OrderStatus.CANCELLED, label: getOrderStatusText(OrderStatus.CANCELLED) }
+    ...Object.values(OrderStatus).map(status => ({ value: status, label: getOrderStatusText(status) }))
   ];
 
   return (
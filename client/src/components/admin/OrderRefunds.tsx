@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import { RotateCcw, Loader2 } from 'lucide-react';
+import { api } from '../../config/api';
+import { OrderRefundSummary, RefundStatus, formatCurrency, formatDate } from '../../types/admin';
+
+interface OrderRefundsProps {
+  orderId: string;
+  // Currency the order was paid in - refunds go back in it
+  currency: string;
+  // Called after money was sent back so totals and stats can be reloaded
+  onRefundIssued?: () => void;
+}
+
+const getRefundStatusClasses = (status: RefundStatus): string => {
+  switch (status) {
+    case 'succeeded':
+      return 'bg-green-100 text-green-800';
+    case 'pending':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'failed':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+// Refunds ledger of an order with a form for full or partial refunds
+const OrderRefunds: React.FC<OrderRefundsProps> = ({ orderId, currency, onRefundIssued }) => {
+  const [summary, setSummary] = useState<OrderRefundSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRefunds(orderId);
+  }, [orderId]);
+
+  const fetchRefunds = async (id: string) => {
+    try {
+      setIsLoading(true);
+      const response = await api.get(`api/admin/orders/${id}/refunds`);
+      const data = await response.json();
+
+      if (data.success) {
+        setSummary(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch refunds:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!summary) return;
+
+    const value = parseFloat(amount);
+    if (isNaN(value) || value <= 0 || value > summary.refundableAmount) {
+      setError(`Enter an amount between ${formatCurrency(0.01, currency)} and ${formatCurrency(summary.refundableAmount, currency)}`);
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const response = await api.post(`api/admin/orders/${orderId}/refunds`, {
+        amount: value,
+        reason: reason.trim() || undefined
+      });
+      const data = await response.json();
+
+      if (data.data) {
+        setSummary(data.data);
+      }
+
+      if (data.success) {
+        setAmount('');
+        setReason('');
+        onRefundIssued?.();
+      } else {
+        setError(data.message || 'Failed to issue refund');
+      }
+    } catch (error) {
+      console.error('Failed to issue refund:', error);
+      setError('Network error. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-900 mb-3 flex items-center gap-2">
+        <RotateCcw className="w-4 h-4" />
+        Refunds
+      </h4>
+      <div className="p-3 bg-white rounded-lg">
+        {isLoading && summary === null ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="w-5 h-5 animate-spin text-indigo-600" />
+          </div>
+        ) : !summary ? (
+          <p className="text-sm text-gray-600">Refunds could not be loaded.</p>
+        ) : (
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-2 text-sm">
+              <div>
+                <p className="text-gray-600">Captured</p>
+                <p className="font-medium text-gray-900">{formatCurrency(summary.capturedAmount, currency)}</p>
+              </div>
+              <div>
+                <p className="text-gray-600">Refunded</p>
+                <p className="font-medium text-gray-900">{formatCurrency(summary.refundedAmount, currency)}</p>
+              </div>
+              <div>
+                <p className="text-gray-600">Refundable</p>
+                <p className="font-medium text-gray-900">{formatCurrency(summary.refundableAmount, currency)}</p>
+              </div>
+            </div>
+
+            {summary.refunds.length > 0 && (
+              <ul className="divide-y divide-gray-100 border-t border-gray-100">
+                {summary.refunds.map(refund => (
+                  <li key={refund.id} className="pt-2 pb-1 text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-gray-900">{formatCurrency(refund.amount, currency)}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getRefundStatusClasses(refund.status)}`}>
+                        {refund.status}
+                      </span>
+                    </div>
+                    <p className="text-gray-600">
+                      {formatDate(refund.createdAt)} via {refund.provider}
+                      {refund.createdByName && ` by ${refund.createdByName}`}
+                    </p>
+                    {refund.reason && <p className="text-gray-500 italic">“{refund.reason}”</p>}
+                    {refund.failureReason && <p className="text-red-600">{refund.failureReason}</p>}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {summary.refundableAmount > 0 && (
+              <form onSubmit={handleSubmit} className="space-y-2 border-t border-gray-100 pt-3">
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    min="0.01"
+                    max={summary.refundableAmount}
+                    step="0.01"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    placeholder="Amount"
+                    className="w-28 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setAmount(summary.refundableAmount.toFixed(2))}
+                    className="px-3 py-2 text-sm font-medium text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100"
+                  >
+                    Full
+                  </button>
+                  <input
+                    type="text"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    maxLength={500}
+                    placeholder="Reason (optional)"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  />
+                </div>
+                {error && <p className="text-sm text-red-600">{error}</p>}
+                <div className="flex justify-end">
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 disabled:opacity-50 flex items-center gap-2"
+                  >
+                    {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                    Issue Refund
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OrderRefunds;
@@ -0,0 +1,301 @@
+import React, { useEffect, useState } from 'react';
+import { Truck, Loader2, ExternalLink, Printer } from 'lucide-react';
+import { api } from '../../config/api';
+import { saveResponseAsFile } from '../../utils/downloadFile';
+import { OrderStatus, formatDate } from '../../types/admin';
+import { OrderShipmentsSummary, CreateShipmentRequest, CARRIERS, SHIPMENT_STATUS_LABELS } from '../../types/shipments';
+
+interface OrderShipmentsProps {
+  orderId: string;
+  orderStatus: OrderStatus;
+  // Called after a shipment changed the order's status so the list can be reloaded
+  onShipmentsChanged?: () => void;
+}
+
+// Orders that can have parcels handed to a carrier
+const SHIPPABLE_STATUSES: OrderStatus[] = [OrderStatus.PROCESSING, OrderStatus.PARTIALLY_SHIPPED, OrderStatus.SHIPPED];
+
+// Shipments of an order with a form to record a new one from some or all of the units left
+const OrderShipments: React.FC<OrderShipmentsProps> = ({ orderId, orderStatus, onShipmentsChanged }) => {
+  const [summary, setSummary] = useState<OrderShipmentsSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [carrier, setCarrier] = useState(CARRIERS[0].value);
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [shippedAt, setShippedAt] = useState('');
+  // Units of each line going into the new shipment, keyed by order item - missing means all that is left
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [deliveringId, setDeliveringId] = useState<string | null>(null);
+  const [printingId, setPrintingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchShipments(orderId);
+  }, [orderId]);
+
+  const fetchShipments = async (id: string) => {
+    try {
+      setIsLoading(true);
+      const response = await api.get(`api/admin/orders/${id}/shipments`);
+      const data = await response.json();
+
+      if (data.success) {
+        setSummary(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch shipments:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const unshippedItems = summary?.shippableItems.filter(item => item.unshippedQuantity > 0) || [];
+  const selectedItems = unshippedItems
+    .map(item => ({
+      ...item,
+      shipQuantity: item.orderItemId in quantities ? parseInt(quantities[item.orderItemId]) || 0 : item.unshippedQuantity
+    }))
+    .filter(item => item.shipQuantity > 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!trackingNumber.trim()) {
+      setError('Enter the tracking number');
+      return;
+    }
+    if (selectedItems.length === 0) {
+      setError('Choose at least one item for this shipment');
+      return;
+    }
+    const tooMany = selectedItems.find(item => item.shipQuantity > item.unshippedQuantity);
+    if (tooMany) {
+      setError(`Only ${tooMany.unshippedQuantity} of ${tooMany.name} are left to ship`);
+      return;
+    }
+
+    const shipsEverything = selectedItems.length === unshippedItems.length
+      && selectedItems.every(item => item.shipQuantity === item.unshippedQuantity);
+
+    const request: CreateShipmentRequest = {
+      carrier,
+      trackingNumber: trackingNumber.trim(),
+      shippedAt: shippedAt || undefined,
+      // Leaving items out ships everything that is left
+      items: shipsEverything
+        ? undefined
+        : selectedItems.map(item => ({ orderItemId: item.orderItemId, quantity: item.shipQuantity }))
+    };
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const response = await api.post(`api/admin/orders/${orderId}/shipments`, request);
+      const data = await response.json();
+
+      if (data.success) {
+        setSummary(data.data);
+        setTrackingNumber('');
+        setShippedAt('');
+        setQuantities({});
+        onShipmentsChanged?.();
+      } else {
+        setError(data.message || 'Failed to record shipment');
+      }
+    } catch (error) {
+      console.error('Failed to record shipment:', error);
+      setError('Network error. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeliver = async (shipmentId: string) => {
+    try {
+      setDeliveringId(shipmentId);
+      setError(null);
+
+      const response = await api.put(`api/admin/shipments/${shipmentId}/deliver`, {});
+      const data = await response.json();
+
+      if (data.success) {
+        setSummary(data.data);
+        onShipmentsChanged?.();
+      } else {
+        setError(data.message || 'Failed to update shipment');
+      }
+    } catch (error) {
+      console.error('Failed to update shipment:', error);
+      setError('Network error. Please try again.');
+    } finally {
+      setDeliveringId(null);
+    }
+  };
+
+  const handlePrintLabel = async (shipmentId: string, trackingNumber: string) => {
+    try {
+      setPrintingId(shipmentId);
+      setError(null);
+
+      const response = await api.get(`api/admin/shipments/${shipmentId}/label`);
+      const failure = await saveResponseAsFile(response, `label-${trackingNumber}.pdf`);
+
+      if (failure) {
+        setError(failure);
+      }
+    } catch (error) {
+      console.error('Failed to download label:', error);
+      setError('Network error. Please try again.');
+    } finally {
+      setPrintingId(null);
+    }
+  };
+
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-900 mb-3 flex items-center gap-2">
+        <Truck className="w-4 h-4" />
+        Shipments
+      </h4>
+      <div className="p-3 bg-white rounded-lg">
+        {isLoading && summary === null ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="w-5 h-5 animate-spin text-indigo-600" />
+          </div>
+        ) : !summary ? (
+          <p className="text-sm text-gray-600">Shipments could not be loaded.</p>
+        ) : (
+          <div className="space-y-3">
+            {summary.shipments.length === 0 ? (
+              <p className="text-sm text-gray-600">Nothing has been shipped yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {summary.shipments.map(shipment => (
+                  <li key={shipment.id} className="py-2 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-gray-900">
+                        {shipment.carrierName} ·{' '}
+                        {shipment.trackingUrl ? (
+                          <a
+                            href={shipment.trackingUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-indigo-600 hover:text-indigo-800 inline-flex items-center gap-1"
+                          >
+                            {shipment.trackingNumber}
+                            <ExternalLink className="w-3 h-3" />
+                          </a>
+                        ) : shipment.trackingNumber}
+                      </span>
+                      <span
+                        className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                          shipment.status === 'delivered' ? 'bg-green-100 text-green-800' : 'bg-blue-100 text-blue-800'
+                        }`}
+                      >
+                        {SHIPMENT_STATUS_LABELS[shipment.status]}
+                      </span>
+                    </div>
+                    <p className="text-gray-600">
+                      Shipped {formatDate(shipment.shippedAt)}
+                      {shipment.deliveredAt && `, delivered ${formatDate(shipment.deliveredAt)}`}
+                    </p>
+                    <p className="text-gray-500">
+                      {shipment.items.map(item => `${item.quantity} × ${item.name}`).join(', ')}
+                    </p>
+                    <div className="flex justify-end gap-2 mt-1">
+                      <button
+                        onClick={() => handlePrintLabel(shipment.id, shipment.trackingNumber)}
+                        disabled={printingId !== null}
+                        className="px-3 py-1.5 text-xs font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 flex items-center gap-1"
+                      >
+                        {printingId === shipment.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Printer className="w-3 h-3" />}
+                        Label
+                      </button>
+                      {shipment.status === 'in_transit' && (
+                        <button
+                          onClick={() => handleDeliver(shipment.id)}
+                          disabled={deliveringId !== null}
+                          className="px-3 py-1.5 text-xs font-medium text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100 disabled:opacity-50 flex items-center gap-1"
+                        >
+                          {deliveringId === shipment.id && <Loader2 className="w-3 h-3 animate-spin" />}
+                          Mark Delivered
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {SHIPPABLE_STATUSES.includes(orderStatus) && unshippedItems.length > 0 && (
+              <form onSubmit={handleSubmit} className="space-y-2 border-t border-gray-100 pt-3">
+                <div className="flex flex-wrap gap-2">
+                  <select
+                    value={carrier}
+                    onChange={(e) => setCarrier(e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  >
+                    {CARRIERS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={trackingNumber}
+                    onChange={(e) => setTrackingNumber(e.target.value)}
+                    maxLength={100}
+                    placeholder="Tracking number"
+                    className="flex-1 min-w-[10rem] px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  />
+                  <input
+                    type="date"
+                    value={shippedAt}
+                    onChange={(e) => setShippedAt(e.target.value)}
+                    title="Shipped date (defaults to today)"
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  />
+                </div>
+                <div className="space-y-1">
+                  {unshippedItems.map(item => (
+                    <label key={item.orderItemId} className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="number"
+                        min="0"
+                        max={item.unshippedQuantity}
+                        value={quantities[item.orderItemId] ?? String(item.unshippedQuantity)}
+                        onChange={(e) => setQuantities(prev => ({ ...prev, [item.orderItemId]: e.target.value }))}
+                        className="w-16 px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                      />
+                      <span className="flex-1">{item.name}</span>
+                      <span className="text-gray-500">
+                        {item.unshippedQuantity} of {item.quantity} left
+                      </span>
+                    </label>
+                  ))}
+                </div>
+                {error && <p className="text-sm text-red-600">{error}</p>}
+                <div className="flex justify-end">
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-2"
+                  >
+                    {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                    Add Shipment
+                  </button>
+                </div>
+              </form>
+            )}
+
+            {error && !(SHIPPABLE_STATUSES.includes(orderStatus) && unshippedItems.length > 0) && (
+              <p className="text-sm text-red-600">{error}</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OrderShipments;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { ProductShippingDetails } from '../../types/admin';
+
+interface ProductShippingFieldsProps {
+  values: ProductShippingDetails;
+  errors: { [key: string]: string };
+  onChange: (field: keyof ProductShippingDetails, value: number | null) => void;
+}
+
+const DIMENSION_FIELDS: Array<{ field: 'length_cm' | 'width_cm' | 'height_cm'; label: string }> = [
+  { field: 'length_cm', label: 'Length (cm)' },
+  { field: 'width_cm', label: 'Width (cm)' },
+  { field: 'height_cm', label: 'Height (cm)' }
+];
+
+// Weight and parcel size inputs of the product forms - shipping rates are priced on them
+const ProductShippingFields: React.FC<ProductShippingFieldsProps> = ({ values, errors, onChange }) => {
+  const inputClasses = (field: string) =>
+    `w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-gray-900 placeholder-gray-500 bg-white ${
+      errors[field] ? 'border-red-300' : 'border-gray-300'
+    }`;
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        Shipping
+      </label>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div>
+          <input
+            type="number"
+            min="0"
+            step="0.001"
+            value={values.weight_kg || ''}
+            onChange={(e) => onChange('weight_kg', parseFloat(e.target.value) || 0)}
+            className={inputClasses('weight_kg')}
+            placeholder="Weight (kg)"
+            title="Weight (kg)"
+          />
+        </div>
+        {DIMENSION_FIELDS.map(({ field, label }) => (
+          <div key={field}>
+            <input
+              type="number"
+              min="0"
+              step="0.1"
+              value={values[field] ?? ''}
+              onChange={(e) => onChange(field, e.target.value === '' ? null : parseFloat(e.target.value))}
+              className={inputClasses(field)}
+              placeholder={label}
+              title={label}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="mt-1 text-xs text-gray-500">
+        Parcels are charged by the larger of their weight and their size (length × width × height / 5000).
+      </p>
+      {['weight_kg', 'length_cm', 'width_cm', 'height_cm'].map(field => errors[field] && (
+        <p key={field} className="mt-1 text-sm text-red-600">{errors[field]}</p>
+      ))}
+    </div>
+  );
+};
+
+export default ProductShippingFields;
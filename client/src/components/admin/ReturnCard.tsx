@@ -0,0 +1,262 @@
+import React, { useState } from 'react';
+import {
+  Check,
+  X,
+  PackageCheck,
+  DollarSign,
+  Loader2,
+  AlertCircle,
+  Package
+} from 'lucide-react';
+import { formatCurrency, formatDate } from '../../types/admin';
+import {
+  ReturnRequest,
+  ReturnDisposition,
+  RETURN_REASONS,
+  ITEM_CONDITIONS,
+  RETURN_STATUS_LABELS,
+  getReturnStatusBadgeClasses
+} from '../../types/returns';
+
+interface ReturnCardProps {
+  returnRequest: ReturnRequest;
+  onDecide: (returnId: string, status: 'approved' | 'rejected', note?: string) => Promise<void>;
+  onReceive: (returnId: string, items: Array<{ returnItemId: string; disposition: ReturnDisposition }>) => Promise<void>;
+  onRefund: (returnId: string, amount: number) => Promise<void>;
+}
+
+const ReturnCard: React.FC<ReturnCardProps> = ({ returnRequest, onDecide, onReceive, onRefund }) => {
+  // What the customer paid for the returned units - the most that can be refunded
+  const itemsValue = returnRequest.items.reduce((sum, item) => sum + item.refundableAmount, 0);
+
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [rejectNote, setRejectNote] = useState('');
+  // Damaged goods are written off by default, everything else goes back on sale
+  const [dispositions, setDispositions] = useState<Record<string, ReturnDisposition>>(() =>
+    Object.fromEntries(returnRequest.items.map(item => [
+      item.id,
+      item.condition === 'damaged' ? 'write_off' : 'restock'
+    ]))
+  );
+  const [refundAmount, setRefundAmount] = useState(itemsValue.toFixed(2));
+
+  const runAction = async (action: () => Promise<void>) => {
+    try {
+      setIsUpdating(true);
+      setError(null);
+      await action();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update return');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleReject = () => {
+    if (!rejectNote.trim()) {
+      setError('Please give the customer a reason for the rejection');
+      return;
+    }
+    runAction(async () => {
+      await onDecide(returnRequest.id, 'rejected', rejectNote.trim());
+      setIsRejecting(false);
+      setRejectNote('');
+    });
+  };
+
+  const handleRefund = () => {
+    const amount = parseFloat(refundAmount);
+    if (isNaN(amount) || amount < 0 || amount > itemsValue) {
+      setError(`Refund must be between ${formatCurrency(0, returnRequest.currency)} and ${formatCurrency(itemsValue, returnRequest.currency)}`);
+      return;
+    }
+    runAction(() => onRefund(returnRequest.id, amount));
+  };
+
+  const canReject = returnRequest.status === 'requested' || returnRequest.status === 'approved';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      {/* Header */}
+      <div className="p-6 border-b border-gray-100">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <div className="flex items-center gap-3">
+              <h3 className="text-lg font-semibold text-gray-900">{returnRequest.rmaNumber}</h3>
+              <span className={`px-2.5 py-0.5 rounded-full text-xs font-medium ${getReturnStatusBadgeClasses(returnRequest.status)}`}>
+                {RETURN_STATUS_LABELS[returnRequest.status]}
+              </span>
+            </div>
+            <p className="text-sm text-gray-600 mt-1">
+              Order #{returnRequest.orderNumber} · {returnRequest.customerEmail} · {formatDate(returnRequest.createdAt)}
+            </p>
+          </div>
+          <div className="text-right">
+            <p className="text-sm text-gray-600">Amount paid</p>
+            <p className="text-lg font-semibold text-gray-900">{formatCurrency(itemsValue, returnRequest.currency)}</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Items */}
+      <div className="p-6 space-y-4">
+        {returnRequest.items.map(item => (
+          <div key={item.id} className="flex flex-col sm:flex-row sm:items-center gap-4">
+            <div className="w-12 h-12 bg-gray-100 rounded-lg overflow-hidden flex-shrink-0">
+              {item.image ? (
+                <img src={item.image} alt={item.name} className="w-full h-full object-cover" />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center">
+                  <Package className="w-5 h-5 text-gray-400" />
+                </div>
+              )}
+            </div>
+            <div className="flex-1">
+              <p className="font-medium text-gray-900">{item.name}</p>
+              <p className="text-sm text-gray-600">
+                {item.quantity} × {formatCurrency(item.unitPrice, returnRequest.currency)} · {RETURN_REASONS[item.reason] || item.reason} · {ITEM_CONDITIONS[item.condition] || item.condition}
+              </p>
+            </div>
+            {returnRequest.status === 'approved' ? (
+              <select
+                value={dispositions[item.id]}
+                onChange={(e) => setDispositions(prev => ({ ...prev, [item.id]: e.target.value as ReturnDisposition }))}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              >
+                <option value="restock">Restock</option>
+                <option value="write_off">Write off</option>
+              </select>
+            ) : item.disposition && (
+              <span className="text-sm text-gray-600">
+                {item.disposition === 'restock' ? 'Restocked' : 'Written off'}
+              </span>
+            )}
+          </div>
+        ))}
+
+        {returnRequest.customerNote && (
+          <div className="p-3 bg-gray-50 rounded-lg text-sm text-gray-700">
+            <span className="font-medium">Customer note:</span> {returnRequest.customerNote}
+          </div>
+        )}
+        {returnRequest.adminNote && (
+          <div className="p-3 bg-indigo-50 rounded-lg text-sm text-indigo-900">
+            <span className="font-medium">Admin note:</span> {returnRequest.adminNote}
+          </div>
+        )}
+        {returnRequest.refundAmount !== null && (
+          <p className="text-sm text-green-700">
+            Refunded {formatCurrency(returnRequest.refundAmount, returnRequest.currency)}
+            {returnRequest.refundedAt && ` on ${formatDate(returnRequest.refundedAt)}`}
+          </p>
+        )}
+      </div>
+
+      {/* Actions */}
+      {(canReject || returnRequest.status === 'received') && (
+        <div className="px-6 pb-6 space-y-4">
+          {error && (
+            <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {isRejecting && (
+            <div className="space-y-2">
+              <textarea
+                value={rejectNote}
+                onChange={(e) => setRejectNote(e.target.value)}
+                maxLength={1000}
+                rows={2}
+                placeholder="Reason shown to the customer"
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              />
+              <div className="flex gap-2 justify-end">
+                <button
+                  onClick={() => setIsRejecting(false)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+                >
+                  Back
+                </button>
+                <button
+                  onClick={handleReject}
+                  disabled={isUpdating}
+                  className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 disabled:opacity-50 flex items-center gap-2"
+                >
+                  {isUpdating && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Reject Return
+                </button>
+              </div>
+            </div>
+          )}
+
+          {!isRejecting && (
+            <div className="flex flex-wrap gap-2 justify-end">
+              {canReject && (
+                <button
+                  onClick={() => setIsRejecting(true)}
+                  className="px-4 py-2 text-sm font-medium text-red-700 bg-red-50 rounded-lg hover:bg-red-100 flex items-center gap-2"
+                >
+                  <X className="w-4 h-4" />
+                  Reject
+                </button>
+              )}
+
+              {returnRequest.status === 'requested' && (
+                <button
+                  onClick={() => runAction(() => onDecide(returnRequest.id, 'approved'))}
+                  disabled={isUpdating}
+                  className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-2"
+                >
+                  {isUpdating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                  Approve
+                </button>
+              )}
+
+              {returnRequest.status === 'approved' && (
+                <button
+                  onClick={() => runAction(() => onReceive(
+                    returnRequest.id,
+                    returnRequest.items.map(item => ({ returnItemId: item.id, disposition: dispositions[item.id] }))
+                  ))}
+                  disabled={isUpdating}
+                  className="px-4 py-2 text-sm font-medium text-white bg-purple-600 rounded-lg hover:bg-purple-700 disabled:opacity-50 flex items-center gap-2"
+                >
+                  {isUpdating ? <Loader2 className="w-4 h-4 animate-spin" /> : <PackageCheck className="w-4 h-4" />}
+                  Mark Received
+                </button>
+              )}
+
+              {returnRequest.status === 'received' && (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min="0"
+                    max={itemsValue}
+                    step="0.01"
+                    value={refundAmount}
+                    onChange={(e) => setRefundAmount(e.target.value)}
+                    className="w-32 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  />
+                  <button
+                    onClick={handleRefund}
+                    disabled={isUpdating}
+                    className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:opacity-50 flex items-center gap-2"
+                  >
+                    {isUpdating ? <Loader2 className="w-4 h-4 animate-spin" /> : <DollarSign className="w-4 h-4" />}
+                    Refund
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReturnCard;
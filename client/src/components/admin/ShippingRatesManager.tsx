@@ -0,0 +1,413 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit, Trash2, Loader2, AlertCircle, Save, X, Scale } from 'lucide-react';
+import { api } from '../../config/api';
+import { formatPrice } from '../../utils/cartUtils';
+import { useCurrency } from '../../hooks/useCurrency';
+import {
+  ShippingRatesData,
+  ShippingRate,
+  ShippingRateRequest,
+  ShippingRateType,
+  ShippingZone,
+  AdminDeliveryMethod,
+  SHIPPING_RATE_TYPE_LABELS
+} from '../../types/shipping';
+
+interface ShippingRatesManagerProps {
+  // Bumped by the parent when zones change so the table is reloaded
+  refreshKey?: number;
+}
+
+// Form values - amounts are edited as text
+interface BracketFormData {
+  minValue: string;
+  maxValue: string;
+  price: string;
+}
+
+interface RateFormData {
+  rateType: ShippingRateType;
+  basePrice: string;
+  freeOverAmount: string;
+  brackets: BracketFormData[];
+}
+
+const emptyBracket: BracketFormData = { minValue: '0', maxValue: '', price: '' };
+
+const toFormData = (rate: ShippingRate | undefined): RateFormData => ({
+  rateType: rate?.rateType || 'weight',
+  basePrice: rate?.basePrice?.toString() || '',
+  freeOverAmount: rate?.freeOverAmount?.toString() || '',
+  brackets: rate && rate.brackets.length > 0
+    ? rate.brackets.map(bracket => ({
+        minValue: bracket.minValue.toString(),
+        maxValue: bracket.maxValue === null ? '' : bracket.maxValue.toString(),
+        price: bracket.price.toString()
+      }))
+    : [emptyBracket]
+});
+
+// One line summary of how a rate prices an order - rates are in the base currency
+const describeRate = (rate: ShippingRate, currency?: string): string => {
+  if (rate.rateType === 'free_over') {
+    return `${formatPrice(rate.basePrice || 0, currency)}, free from ${formatPrice(rate.freeOverAmount || 0, currency)}`;
+  }
+
+  const formatBound = (value: number) => rate.rateType === 'weight' ? `${value} kg` : formatPrice(value, currency);
+
+  return rate.brackets
+    .map(bracket => {
+      const range = bracket.maxValue === null
+        ? `${formatBound(bracket.minValue)}+`
+        : `${formatBound(bracket.minValue)}-${formatBound(bracket.maxValue)}`;
+      return `${range}: ${bracket.price === 0 ? 'Free' : formatPrice(bracket.price, currency)}`;
+    })
+    .join(' · ');
+};
+
+const ShippingRatesManager: React.FC<ShippingRatesManagerProps> = ({ refreshKey = 0 }) => {
+  const { currencies } = useCurrency();
+  const baseCurrencyCode = currencies.find(c => c.isBase)?.code;
+  const moneyUnit = baseCurrencyCode || 'base currency';
+  const [data, setData] = useState<ShippingRatesData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // The method and zone whose rate is being edited
+  const [editing, setEditing] = useState<{ deliveryMethodId: string; zoneId: string } | null>(null);
+  const [formData, setFormData] = useState<RateFormData>(toFormData(undefined));
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchRates();
+  }, [refreshKey]);
+
+  const fetchRates = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await api.get('api/admin/shipping-rates');
+      const result = await response.json();
+
+      if (result.success) {
+        setData(result.data);
+      } else {
+        setError(result.message || 'Failed to fetch shipping rates');
+      }
+    } catch (error) {
+      console.error('Error fetching shipping rates:', error);
+      setError('Network error. Please check your connection.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const findRate = (deliveryMethodId: string, zoneId: string) =>
+    data?.rates.find(rate => rate.deliveryMethodId === deliveryMethodId && rate.zoneId === zoneId);
+
+  const openForm = (method: AdminDeliveryMethod, zone: ShippingZone) => {
+    setFormData(toFormData(findRate(method.id, zone.id)));
+    setFormError(null);
+    setEditing({ deliveryMethodId: method.id, zoneId: zone.id });
+  };
+
+  const closeForm = () => {
+    setEditing(null);
+    setFormError(null);
+  };
+
+  const updateBracket = (index: number, changes: Partial<BracketFormData>) => {
+    setFormData(prev => ({
+      ...prev,
+      brackets: prev.brackets.map((bracket, i) => i === index ? { ...bracket, ...changes } : bracket)
+    }));
+  };
+
+  // Save the rate for the method and zone being edited
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    const request: ShippingRateRequest = { ...editing, rateType: formData.rateType };
+
+    if (formData.rateType === 'free_over') {
+      const basePrice = parseFloat(formData.basePrice);
+      const freeOverAmount = parseFloat(formData.freeOverAmount);
+      if (isNaN(basePrice) || basePrice < 0 || isNaN(freeOverAmount) || freeOverAmount < 0) {
+        setFormError('Enter the price and the subtotal from which shipping is free');
+        return;
+      }
+      request.basePrice = basePrice;
+      request.freeOverAmount = freeOverAmount;
+    } else {
+      const brackets = formData.brackets.map(bracket => ({
+        minValue: parseFloat(bracket.minValue),
+        maxValue: bracket.maxValue.trim() === '' ? null : parseFloat(bracket.maxValue),
+        price: parseFloat(bracket.price)
+      }));
+      if (brackets.length === 0 || brackets.some(bracket => isNaN(bracket.minValue) || isNaN(bracket.price))) {
+        setFormError('Every bracket needs a lower bound and a price');
+        return;
+      }
+      request.brackets = brackets;
+    }
+
+    try {
+      setIsSaving(true);
+      setFormError(null);
+
+      const response = await api.put('api/admin/shipping-rates', request);
+      const result = await response.json();
+
+      if (result.success) {
+        setData(prev => prev && {
+          ...prev,
+          rates: [...prev.rates.filter(rate => rate.id !== result.data.id), result.data]
+        });
+        closeForm();
+      } else {
+        setFormError(result.message || 'Failed to save shipping rate');
+      }
+    } catch (error) {
+      console.error('Error saving shipping rate:', error);
+      setFormError('Network error. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Stop a method shipping to a zone
+  const handleDelete = async (rate: ShippingRate, method: AdminDeliveryMethod, zone: ShippingZone) => {
+    if (!window.confirm(`Stop offering ${method.name} in ${zone.name}?`)) {
+      return;
+    }
+
+    try {
+      const response = await api.delete(`api/admin/shipping-rates/${rate.id}`);
+      const result = await response.json();
+
+      if (result.success) {
+        setData(prev => prev && { ...prev, rates: prev.rates.filter(r => r.id !== rate.id) });
+      } else {
+        setError(result.message || 'Failed to delete shipping rate');
+      }
+    } catch (error) {
+      console.error('Error deleting shipping rate:', error);
+      setError('Network error. Please try again.');
+    }
+  };
+
+  const unit = formData.rateType === 'weight' ? 'kg' : moneyUnit;
+
+  const renderForm = () => (
+    <form onSubmit={handleSave} className="mt-3 p-4 rounded-lg bg-gray-50 border border-gray-200 space-y-3">
+      <select
+        value={formData.rateType}
+        onChange={(e) => setFormData(prev => ({ ...prev, rateType: e.target.value as ShippingRateType }))}
+        className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+      >
+        {(Object.keys(SHIPPING_RATE_TYPE_LABELS) as ShippingRateType[]).map(type => (
+          <option key={type} value={type}>{SHIPPING_RATE_TYPE_LABELS[type]}</option>
+        ))}
+      </select>
+
+      {formData.rateType === 'free_over' ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Price ({moneyUnit})</label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={formData.basePrice}
+              onChange={(e) => setFormData(prev => ({ ...prev, basePrice: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Free from subtotal ({moneyUnit})</label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={formData.freeOverAmount}
+              onChange={(e) => setFormData(prev => ({ ...prev, freeOverAmount: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-xs text-gray-500">
+            Each bracket covers from its lower bound up to, not including, its upper bound. Leave the last upper bound empty for no limit.
+            Orders outside every bracket cannot use this method.
+          </p>
+          {formData.brackets.map((bracket, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="number"
+                min="0"
+                step="0.001"
+                value={bracket.minValue}
+                onChange={(e) => updateBracket(index, { minValue: e.target.value })}
+                className="w-28 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                placeholder={`From (${unit})`}
+                title={`From (${unit})`}
+              />
+              <span className="text-gray-500">to</span>
+              <input
+                type="number"
+                min="0"
+                step="0.001"
+                value={bracket.maxValue}
+                onChange={(e) => updateBracket(index, { maxValue: e.target.value })}
+                className="w-28 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                placeholder="No limit"
+                title={`Up to (${unit})`}
+              />
+              <span className="text-gray-500">costs</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={bracket.price}
+                onChange={(e) => updateBracket(index, { price: e.target.value })}
+                className="w-28 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                placeholder={`Price (${moneyUnit})`}
+                title={`Price (${moneyUnit})`}
+              />
+              <button
+                type="button"
+                onClick={() => setFormData(prev => ({ ...prev, brackets: prev.brackets.filter((_, i) => i !== index) }))}
+                className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                title="Remove bracket"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setFormData(prev => {
+              const last = prev.brackets[prev.brackets.length - 1];
+              return { ...prev, brackets: [...prev.brackets, { minValue: last?.maxValue || '', maxValue: '', price: '' }] };
+            })}
+            className="text-sm font-medium text-indigo-600 hover:text-indigo-800 flex items-center gap-1"
+          >
+            <Plus className="w-4 h-4" />
+            Add bracket
+          </button>
+        </div>
+      )}
+
+      {formError && (
+        <div className="flex items-center gap-2 text-sm text-red-700">
+          <AlertCircle className="w-4 h-4" />
+          {formError}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={closeForm}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center gap-2"
+        >
+          <X className="w-4 h-4" />
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-2"
+        >
+          {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          Save Rate
+        </button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm">
+      {/* Header */}
+      <div className="flex items-center gap-3 p-6 border-b border-gray-200">
+        <Scale className="w-6 h-6 text-indigo-600" />
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Shipping Rates</h3>
+          <p className="text-sm text-gray-600">
+            A delivery method is only offered in the zones it has a rate for. Weight is the larger of actual and volumetric weight.
+          </p>
+        </div>
+      </div>
+
+      {isLoading && !data ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
+        </div>
+      ) : error ? (
+        <div className="m-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-center gap-3">
+          <AlertCircle className="w-5 h-5 text-red-600" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      ) : !data || data.zones.length === 0 ? (
+        <div className="p-12 text-center text-gray-600">
+          Add a shipping zone first, then set what each delivery method costs in it.
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {data.zones.map(zone => (
+            <div key={zone.id} className="p-6">
+              <h4 className="text-sm font-semibold text-gray-900 mb-3">{zone.name}</h4>
+              <ul className="divide-y divide-gray-100">
+                {data.deliveryMethods.map(method => {
+                  const rate = findRate(method.id, zone.id);
+                  const isEditing = editing?.deliveryMethodId === method.id && editing.zoneId === zone.id;
+
+                  return (
+                    <li key={method.id} className="py-3">
+                      <div className="flex items-center justify-between gap-4">
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">
+                            {method.name}
+                            {!method.isActive && <span className="ml-2 text-xs text-gray-500">(inactive)</span>}
+                          </p>
+                          <p className={`text-sm ${rate ? 'text-gray-600' : 'text-gray-400'}`}>
+                            {rate ? `${SHIPPING_RATE_TYPE_LABELS[rate.rateType]} - ${describeRate(rate, baseCurrencyCode)}` : 'Not offered in this zone'}
+                          </p>
+                        </div>
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => isEditing ? closeForm() : openForm(method, zone)}
+                            className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                            title={rate ? 'Edit rate' : 'Add rate'}
+                          >
+                            {rate ? <Edit className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+                          </button>
+                          {rate && (
+                            <button
+                              onClick={() => handleDelete(rate, method, zone)}
+                              className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                              title="Stop offering in this zone"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                      {isEditing && renderForm()}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShippingRatesManager;
@@ -0,0 +1,321 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit, Trash2, Loader2, AlertCircle, Save, X, Globe2 } from 'lucide-react';
+import { api } from '../../config/api';
+import { ShippingZone, ShippingZoneRequest, describeZoneRegion } from '../../types/shipping';
+
+interface ShippingZonesManagerProps {
+  // Called after a zone was added, changed or removed so rates can be reloaded
+  onZonesChanged?: () => void;
+}
+
+const emptyForm: ShippingZoneRequest = {
+  name: '',
+  isRestOfWorld: false,
+  regions: [{ country: '', region: null }]
+};
+
+const ShippingZonesManager: React.FC<ShippingZonesManagerProps> = ({ onZonesChanged }) => {
+  const [zones, setZones] = useState<ShippingZone[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // null = form closed, 'new' = creating, otherwise the zone being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<ShippingZoneRequest>(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchZones();
+  }, []);
+
+  const fetchZones = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await api.get('api/admin/shipping-zones');
+      const data = await response.json();
+
+      if (data.success) {
+        setZones(data.data);
+      } else {
+        setError(data.message || 'Failed to fetch shipping zones');
+      }
+    } catch (error) {
+      console.error('Error fetching shipping zones:', error);
+      setError('Network error. Please check your connection.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openCreateForm = () => {
+    setFormData(emptyForm);
+    setFormError(null);
+    setEditingId('new');
+  };
+
+  const openEditForm = (zone: ShippingZone) => {
+    setFormData({
+      name: zone.name,
+      isRestOfWorld: zone.isRestOfWorld,
+      regions: zone.regions.length > 0 ? zone.regions : [{ country: '', region: null }]
+    });
+    setFormError(null);
+    setEditingId(zone.id);
+  };
+
+  const closeForm = () => {
+    setEditingId(null);
+    setFormError(null);
+  };
+
+  const updateRegion = (index: number, changes: Partial<{ country: string; region: string | null }>) => {
+    setFormData(prev => ({
+      ...prev,
+      regions: prev.regions.map((place, i) => i === index ? { ...place, ...changes } : place)
+    }));
+  };
+
+  // Create or update a zone
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const regions = formData.regions
+      .filter(place => place.country.trim())
+      .map(place => ({ country: place.country.trim(), region: place.region?.trim() || null }));
+
+    if (!formData.name.trim()) {
+      setFormError('Zone name is required');
+      return;
+    }
+    if (regions.length === 0 && !formData.isRestOfWorld) {
+      setFormError('Add at least one country or region');
+      return;
+    }
+
+    const request: ShippingZoneRequest = {
+      name: formData.name.trim(),
+      isRestOfWorld: formData.isRestOfWorld,
+      regions
+    };
+
+    try {
+      setIsSaving(true);
+      setFormError(null);
+
+      const response = editingId === 'new'
+        ? await api.post('api/admin/shipping-zones', request)
+        : await api.put(`api/admin/shipping-zones/${editingId}`, request);
+      const data = await response.json();
+
+      if (data.success) {
+        await fetchZones();
+        closeForm();
+        onZonesChanged?.();
+      } else {
+        setFormError(data.message || 'Failed to save shipping zone');
+      }
+    } catch (error) {
+      console.error('Error saving shipping zone:', error);
+      setFormError('Network error. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Delete a zone
+  const handleDelete = async (zone: ShippingZone) => {
+    if (!window.confirm(`Delete the zone "${zone.name}"? Its rates are deleted too and its places can no longer be shipped to unless another zone covers them.`)) {
+      return;
+    }
+
+    try {
+      const response = await api.delete(`api/admin/shipping-zones/${zone.id}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setZones(prev => prev.filter(z => z.id !== zone.id));
+        onZonesChanged?.();
+      } else {
+        setError(data.message || 'Failed to delete shipping zone');
+      }
+    } catch (error) {
+      console.error('Error deleting shipping zone:', error);
+      setError('Network error. Please try again.');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm">
+      {/* Header */}
+      <div className="flex items-center justify-between p-6 border-b border-gray-200">
+        <div className="flex items-center gap-3">
+          <Globe2 className="w-6 h-6 text-indigo-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Shipping Zones</h3>
+            <p className="text-sm text-gray-600">
+              An address is in the zone listing its state or region, else its country, else the rest-of-world zone.
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={openCreateForm}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg font-medium flex items-center gap-2 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add Zone
+        </button>
+      </div>
+
+      {/* Zone Form */}
+      {editingId && (
+        <form onSubmit={handleSave} className="p-6 border-b border-gray-200 bg-gray-50 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                maxLength={100}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                placeholder="e.g. Europe"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 md:mt-6">
+              <input
+                type="checkbox"
+                checked={formData.isRestOfWorld}
+                onChange={(e) => setFormData(prev => ({ ...prev, isRestOfWorld: e.target.checked }))}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Also covers every place no other zone lists
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">Countries and regions</label>
+            {formData.regions.map((place, index) => (
+              <div key={index} className="flex gap-2">
+                <input
+                  type="text"
+                  value={place.country}
+                  onChange={(e) => updateRegion(index, { country: e.target.value })}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  placeholder="Country"
+                />
+                <input
+                  type="text"
+                  value={place.region || ''}
+                  onChange={(e) => updateRegion(index, { region: e.target.value })}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  placeholder="State / region (whole country if empty)"
+                />
+                <button
+                  type="button"
+                  onClick={() => setFormData(prev => ({ ...prev, regions: prev.regions.filter((_, i) => i !== index) }))}
+                  className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  title="Remove place"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setFormData(prev => ({ ...prev, regions: [...prev.regions, { country: '', region: null }] }))}
+              className="text-sm font-medium text-indigo-600 hover:text-indigo-800 flex items-center gap-1"
+            >
+              <Plus className="w-4 h-4" />
+              Add place
+            </button>
+          </div>
+
+          {formError && (
+            <div className="flex items-center gap-2 text-sm text-red-700">
+              <AlertCircle className="w-4 h-4" />
+              {formError}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center gap-2"
+            >
+              <X className="w-4 h-4" />
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-2"
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              {editingId === 'new' ? 'Create Zone' : 'Save Changes'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Zone List */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
+        </div>
+      ) : error ? (
+        <div className="m-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-center gap-3">
+          <AlertCircle className="w-5 h-5 text-red-600" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      ) : zones.length === 0 ? (
+        <div className="p-12 text-center text-gray-600">
+          No shipping zones yet. Nothing can be shipped until a zone covers the address.
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {zones.map(zone => (
+            <li key={zone.id} className="flex items-start justify-between gap-4 px-6 py-4">
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {zone.name}
+                  {zone.isRestOfWorld && (
+                    <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-indigo-100 text-indigo-800">
+                      Rest of world
+                    </span>
+                  )}
+                </p>
+                <p className="text-sm text-gray-600">
+                  {zone.regions.length > 0
+                    ? zone.regions.map(describeZoneRegion).join(' · ')
+                    : 'Every place no other zone lists'}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => openEditForm(zone)}
+                  className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                  title="Edit zone"
+                >
+                  <Edit className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(zone)}
+                  className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  title="Delete zone"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ShippingZonesManager;
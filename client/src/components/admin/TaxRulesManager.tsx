@@ -0,0 +1,375 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit, Trash2, Loader2, AlertCircle, Save, X, Receipt } from 'lucide-react';
+import { api } from '../../config/api';
+import { Category } from '../../types/admin';
+import { TaxRule, TaxRuleRequest, formatTaxRate } from '../../types/tax';
+
+// Form values - the rate is edited as a percentage
+interface TaxRuleFormData {
+  name: string;
+  country: string;
+  region: string;
+  postalCodePrefix: string;
+  categoryId: string;
+  ratePercent: string;
+  isActive: boolean;
+}
+
+const emptyForm: TaxRuleFormData = {
+  name: '',
+  country: 'United States',
+  region: '',
+  postalCodePrefix: '',
+  categoryId: '',
+  ratePercent: '',
+  isActive: true
+};
+
+const toFormData = (rule: TaxRule): TaxRuleFormData => ({
+  name: rule.name,
+  country: rule.country,
+  region: rule.region || '',
+  postalCodePrefix: rule.postalCodePrefix || '',
+  categoryId: rule.categoryId || '',
+  ratePercent: parseFloat((rule.rate * 100).toFixed(3)).toString(),
+  isActive: rule.isActive
+});
+
+const TaxRulesManager: React.FC = () => {
+  const [rules, setRules] = useState<TaxRule[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // null = form closed, 'new' = creating, otherwise the rule being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<TaxRuleFormData>(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Fetch tax rules and categories
+  const fetchRules = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [rulesResponse, categoriesResponse] = await Promise.all([
+        api.get('api/admin/tax-rules'),
+        api.get('api/admin/categories')
+      ]);
+      const rulesData = await rulesResponse.json();
+      const categoriesData = await categoriesResponse.json();
+
+      if (rulesData.success) {
+        setRules(rulesData.data);
+      } else {
+        setError(rulesData.message || 'Failed to fetch tax rules');
+      }
+
+      if (categoriesData.success) {
+        setCategories(categoriesData.data.categories);
+      }
+    } catch (error) {
+      console.error('Error fetching tax rules:', error);
+      setError('Network error. Please check your connection.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const openCreateForm = () => {
+    setEditingId('new');
+    setFormData(emptyForm);
+    setFormError(null);
+  };
+
+  const openEditForm = (rule: TaxRule) => {
+    setEditingId(rule.id);
+    setFormData(toFormData(rule));
+    setFormError(null);
+  };
+
+  const closeForm = () => {
+    setEditingId(null);
+    setFormError(null);
+  };
+
+  // Create or update a rule
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const ratePercent = parseFloat(formData.ratePercent);
+    if (!formData.name.trim() || !formData.country.trim()) {
+      setFormError('Name and country are required');
+      return;
+    }
+    if (isNaN(ratePercent) || ratePercent < 0 || ratePercent > 100) {
+      setFormError('Rate must be a percentage between 0 and 100');
+      return;
+    }
+
+    const body: TaxRuleRequest = {
+      name: formData.name.trim(),
+      country: formData.country.trim(),
+      region: formData.region.trim() || null,
+      postalCodePrefix: formData.postalCodePrefix.trim() || null,
+      categoryId: formData.categoryId || null,
+      rate: Math.round(ratePercent * 1000) / 100000,
+      isActive: formData.isActive
+    };
+
+    try {
+      setIsSaving(true);
+      setFormError(null);
+
+      const response = editingId === 'new'
+        ? await api.post('api/admin/tax-rules', body)
+        : await api.put(`api/admin/tax-rules/${editingId}`, body);
+      const data = await response.json();
+
+      if (data.success) {
+        closeForm();
+        fetchRules();
+      } else {
+        setFormError(data.message || 'Failed to save tax rule');
+      }
+    } catch (error) {
+      console.error('Error saving tax rule:', error);
+      setFormError('Network error. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Delete a rule
+  const handleDelete = async (rule: TaxRule) => {
+    if (!window.confirm(`Delete the tax rule "${rule.name}"? Existing orders keep the rates they were charged.`)) {
+      return;
+    }
+
+    try {
+      const response = await api.delete(`api/admin/tax-rules/${rule.id}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setRules(prev => prev.filter(r => r.id !== rule.id));
+      } else {
+        setError(data.message || 'Failed to delete tax rule');
+      }
+    } catch (error) {
+      console.error('Error deleting tax rule:', error);
+      setError('Network error. Please try again.');
+    }
+  };
+
+  const describeLocation = (rule: TaxRule) => {
+    return [rule.country, rule.region, rule.postalCodePrefix && `${rule.postalCodePrefix}*`]
+      .filter(Boolean)
+      .join(' / ');
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm">
+      {/* Header */}
+      <div className="flex items-center justify-between p-6 border-b border-gray-200">
+        <div className="flex items-center gap-3">
+          <Receipt className="w-6 h-6 text-indigo-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Tax Rules</h3>
+            <p className="text-sm text-gray-600">
+              Country, region and postal code rates add up. A category rule replaces the general rule at the same level.
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={openCreateForm}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg font-medium flex items-center gap-2 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add Rule
+        </button>
+      </div>
+
+      {/* Rule Form */}
+      {editingId && (
+        <form onSubmit={handleSave} className="p-6 border-b border-gray-200 bg-gray-50">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                placeholder="e.g. California State Tax"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Country *</label>
+              <input
+                type="text"
+                value={formData.country}
+                onChange={(e) => setFormData(prev => ({ ...prev, country: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">State / Region</label>
+              <input
+                type="text"
+                value={formData.region}
+                onChange={(e) => setFormData(prev => ({ ...prev, region: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                placeholder="All regions"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Postal Code Prefix</label>
+              <input
+                type="text"
+                value={formData.postalCodePrefix}
+                onChange={(e) => setFormData(prev => ({ ...prev, postalCodePrefix: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                placeholder="All postal codes"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+              <select
+                value={formData.categoryId}
+                onChange={(e) => setFormData(prev => ({ ...prev, categoryId: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              >
+                <option value="">All categories</option>
+                {categories.map(category => (
+                  <option key={category.id} value={category.id}>{category.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Rate (%) *</label>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="0.001"
+                value={formData.ratePercent}
+                onChange={(e) => setFormData(prev => ({ ...prev, ratePercent: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                placeholder="e.g. 7.25"
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 mt-4 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={formData.isActive}
+              onChange={(e) => setFormData(prev => ({ ...prev, isActive: e.target.checked }))}
+              className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            Active
+          </label>
+
+          {formError && (
+            <div className="mt-4 flex items-center gap-2 text-sm text-red-700">
+              <AlertCircle className="w-4 h-4" />
+              {formError}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 mt-4">
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center gap-2"
+            >
+              <X className="w-4 h-4" />
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-2"
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              {editingId === 'new' ? 'Create Rule' : 'Save Changes'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Rules List */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
+        </div>
+      ) : error ? (
+        <div className="m-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-center gap-3">
+          <AlertCircle className="w-5 h-5 text-red-600" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      ) : rules.length === 0 ? (
+        <div className="p-12 text-center text-gray-600">
+          No tax rules yet. Orders are not taxed until a rule matches the shipping address.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rate</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rules.map(rule => (
+                <tr key={rule.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900">{rule.name}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{describeLocation(rule)}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{rule.categoryName || 'All categories'}</td>
+                  <td className="px-6 py-4 text-sm text-gray-900">{formatTaxRate(rule.rate)}</td>
+                  <td className="px-6 py-4">
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                      rule.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                    }`}>
+                      {rule.isActive ? 'Active' : 'Inactive'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => openEditForm(rule)}
+                        className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                        title="Edit rule"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(rule)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        title="Delete rule"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaxRulesManager;
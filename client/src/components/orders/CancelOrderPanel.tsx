@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { XCircle, Loader2 } from 'lucide-react';
+import { api } from '../../config/api';
+import { CANCELLATION_REASONS, OrderCancelRequest } from '../../types/orders';
+
+interface CancelOrderPanelProps {
+  orderId: string;
+  // Needed by guests - signed-in owners are recognised from their session
+  accessToken?: string | null;
+  onCancelled: (refundPending: boolean) => void;
+}
+
+const CancelOrderPanel: React.FC<CancelOrderPanelProps> = ({ orderId, accessToken, onCancelled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!reason) {
+      setError('Please choose a reason');
+      return;
+    }
+    if (reason === 'other' && !note.trim()) {
+      setError('Please tell us why you are cancelling');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const body: OrderCancelRequest = { reason, note: note.trim() || undefined };
+      const query = accessToken ? `?token=${encodeURIComponent(accessToken)}` : '';
+      const response = await api.post(`api/orders/${orderId}/cancel${query}`, body);
+      const result = await response.json();
+
+      if (result.success) {
+        setIsOpen(false);
+        onCancelled(result.data.refundPending);
+      } else {
+        setError(result.message || 'Failed to cancel order');
+      }
+    } catch (error) {
+      console.error('Failed to cancel order:', error);
+      setError('Network error. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="flex items-center justify-center px-6 py-3 bg-gray-700 text-red-400 rounded-lg hover:bg-gray-600 transition-colors duration-200"
+      >
+        <XCircle className="w-4 h-4 mr-2" />
+        Cancel Order
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full bg-gray-800 rounded-lg p-6 text-left">
+      <h3 className="text-lg font-semibold text-gray-100 mb-1">Cancel this order?</h3>
+      <p className="text-sm text-gray-400 mb-4">
+        The items go back on sale straight away. If you have already paid, your payment will be refunded.
+      </p>
+
+      <div className="space-y-2 mb-4">
+        {CANCELLATION_REASONS.map(option => (
+          <label key={option.value} className="flex items-center gap-3 text-gray-300 cursor-pointer">
+            <input
+              type="radio"
+              name="cancellation-reason"
+              value={option.value}
+              checked={reason === option.value}
+              onChange={() => setReason(option.value)}
+              className="text-blue-500 focus:ring-blue-500"
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        maxLength={500}
+        rows={2}
+        placeholder={reason === 'other' ? 'Tell us why you are cancelling' : 'Anything else we should know? (optional)'}
+        className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-gray-100 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent mb-4"
+      />
+
+      {error && (
+        <div className="p-3 mb-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-3 justify-end">
+        <button
+          type="button"
+          onClick={() => setIsOpen(false)}
+          className="px-6 py-3 bg-gray-700 text-gray-100 rounded-lg hover:bg-gray-600 transition-colors duration-200"
+        >
+          Keep Order
+        </button>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="flex items-center justify-center px-6 py-3 bg-red-500 text-white rounded-lg hover:bg-red-600 disabled:opacity-50 transition-colors duration-200"
+        >
+          {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Cancel Order
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default CancelOrderPanel;
@@ -0,0 +1,193 @@
+import React from 'react';
+import {
+  CheckCircle,
+  Package,
+  Truck,
+  Mail,
+  Phone,
+  MapPin,
+  Calendar,
+  CreditCard
+} from 'lucide-react';
+import { formatPrice } from '../../utils/cartUtils';
+import { formatTaxRate } from '../../types/tax';
+import { formatDeliveryEstimate } from '../../types/delivery';
+import { OrderDetailsData, formatOrderStatus, getOrderStatusClasses } from '../../types/orders';
+import OrderStatusTimeline from './OrderStatusTimeline';
+
+interface OrderDetailsProps {
+  order: OrderDetailsData;
+}
+
+// Order summary, totals, timeline, shipping and delivery cards shared by the
+// confirmation page and the order history detail page
+const OrderDetails: React.FC<OrderDetailsProps> = ({ order }) => {
+  return (
+    <>
+      {/* Order Summary Card */}
+      <div className="bg-gray-800 rounded-lg p-6 mb-8">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-6">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-100">Order #{order.orderNumber || order.orderId}</h2>
+            <p className="text-gray-400">Placed on {new Date(order.createdAt).toLocaleDateString()}</p>
+          </div>
+          <div className="mt-4 sm:mt-0">
+            <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium border ${getOrderStatusClasses(order.status)}`}>
+              <CheckCircle className="w-4 h-4 mr-1" />
+              {formatOrderStatus(order.status)}
+            </span>
+          </div>
+        </div>
+
+        {/* Order Items */}
+        <div className="border-t border-gray-700 pt-6">
+          <h3 className="text-lg font-semibold text-gray-100 mb-4">Items Ordered</h3>
+          <div className="space-y-4">
+            {order.items.map((item) => (
+              <div key={item.id} className="flex items-center space-x-4">
+                <div className="w-16 h-16 bg-gray-700 rounded-lg overflow-hidden flex-shrink-0">
+                  {item.image ? (
+                    <img
+                      src={item.image}
+                      alt={item.name}
+                      className="w-full h-full object-cover"
+                    />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center">
+                      <Package className="w-6 h-6 text-gray-400" />
+                    </div>
+                  )}
+                </div>
+                <div className="flex-1">
+                  <h4 className="text-gray-100 font-medium">{item.name}</h4>
+                  <p className="text-gray-400 text-sm">Quantity: {item.quantity}</p>
+                </div>
+                <div className="text-gray-100 font-semibold">
+                  {formatPrice(item.unitPrice * item.quantity, order.currency)}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Order Totals */}
+        <div className="border-t border-gray-700 pt-6 mt-6">
+          <div className="space-y-2">
+            <div className="flex justify-between text-gray-300">
+              <span>Subtotal</span>
+              <span>{formatPrice(order.subtotal, order.currency)}</span>
+            </div>
+            <div className="flex justify-between text-gray-300">
+              <span>Shipping</span>
+              <span>{order.shippingCost === 0 ? 'Free' : formatPrice(order.shippingCost, order.currency)}</span>
+            </div>
+            {order.discountAmount !== undefined && order.discountAmount > 0 && (
+              <div className="flex justify-between text-gray-300">
+                <span>Discount{order.promotionCode && ` (${order.promotionCode})`}</span>
+                <span className="text-green-400">-{formatPrice(order.discountAmount, order.currency)}</span>
+              </div>
+            )}
+            {order.taxLines && order.taxLines.length > 0 ? (
+              order.taxLines.map((line, index) => (
+                <div key={`${line.name}-${index}`} className="flex justify-between text-gray-300">
+                  <span>{line.name} ({formatTaxRate(line.rate)})</span>
+                  <span>{formatPrice(line.amount, order.currency)}</span>
+                </div>
+              ))
+            ) : (
+              <div className="flex justify-between text-gray-300">
+                <span>Tax</span>
+                <span>{formatPrice(order.taxAmount, order.currency)}</span>
+              </div>
+            )}
+            {order.codFee && order.codFee > 0 && (
+              <div className="flex justify-between text-gray-300">
+                <span>Cash on Delivery Fee</span>
+                <span>{formatPrice(order.codFee, order.currency)}</span>
+              </div>
+            )}
+            <div className="border-t border-gray-700 pt-2">
+              <div className="flex justify-between text-lg font-bold text-gray-100">
+                <span>Total</span>
+                <span>{formatPrice(order.total, order.currency)}</span>
+              </div>
+            </div>
+            {order.refunds && order.refunds.length > 0 && (
+              <div className="border-t border-gray-700 pt-2 space-y-2">
+                {order.refunds.map((refund, index) => (
+                  <div key={`${refund.createdAt}-${index}`} className="flex justify-between text-gray-300">
+                    <span>
+                      Refund{refund.status === 'pending' ? ' (processing)' : ''} · {new Date(refund.createdAt).toLocaleDateString()}
+                    </span>
+                    <span className="text-green-400">-{formatPrice(refund.amount, order.currency)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Status Timeline */}
+      {order.statusHistory && order.statusHistory.length > 0 && (
+        <OrderStatusTimeline history={order.statusHistory} />
+      )}
+
+      {/* Delivery and Contact Info */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-8">
+        {/* Shipping Information */}
+        <div className="bg-gray-800 rounded-lg p-6">
+          <div className="flex items-center mb-4">
+            <Truck className="w-5 h-5 text-blue-400 mr-2" />
+            <h3 className="text-lg font-semibold text-gray-100">Shipping Information</h3>
+          </div>
+          <div className="space-y-2 text-gray-300">
+            <div className="flex items-center">
+              <MapPin className="w-4 h-4 mr-2 text-gray-400" />
+              <div>
+                <p className="font-medium">{order.shippingAddress.fullName}</p>
+                {order.shippingAddress.formattedLines.map((line, index) => (
+                  <p key={index}>{line}</p>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center">
+              <Phone className="w-4 h-4 mr-2 text-gray-400" />
+              <span>{order.shippingAddress.phone}</span>
+            </div>
+            <div className="flex items-center">
+              <Mail className="w-4 h-4 mr-2 text-gray-400" />
+              <span>{order.shippingAddress.email}</span>
+            </div>
+          </div>
+        </div>
+
+        {/* Delivery Details */}
+        <div className="bg-gray-800 rounded-lg p-6">
+          <div className="flex items-center mb-4">
+            <Calendar className="w-5 h-5 text-blue-400 mr-2" />
+            <h3 className="text-lg font-semibold text-gray-100">Delivery Details</h3>
+          </div>
+          <div className="space-y-3 text-gray-300">
+            <div>
+              <p className="font-medium">{order.deliveryMethod.name}</p>
+              <p className="text-sm text-gray-400">{order.deliveryMethod.estimatedDays}</p>
+            </div>
+            {order.deliveryEstimate && (
+              <div>
+                <p className="text-sm text-gray-400">Estimated Delivery</p>
+                <p className="font-medium">{formatDeliveryEstimate(order.deliveryEstimate)}</p>
+              </div>
+            )}
+            <div className="flex items-center">
+              <CreditCard className="w-4 h-4 mr-2 text-gray-400" />
+              <span className="capitalize">{order.paymentMethod.replace('_', ' ')}</span>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default OrderDetails;
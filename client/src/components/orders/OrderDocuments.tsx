@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { FileText, Download, Loader2 } from 'lucide-react';
+import { api } from '../../config/api';
+import { BillingDocument, BILLING_DOCUMENT_TYPE_LABELS } from '../../types/billing';
+import { formatPrice } from '../../utils/cartUtils';
+import { saveResponseAsFile } from '../../utils/downloadFile';
+
+interface OrderDocumentsProps {
+  orderId: string;
+  // Needed by guests - signed-in owners are recognised from their session
+  accessToken?: string | null;
+}
+
+// Invoice and credit notes of an order as downloadable PDFs
+const OrderDocuments: React.FC<OrderDocumentsProps> = ({ orderId, accessToken }) => {
+  const [documents, setDocuments] = useState<BillingDocument[]>([]);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchDocuments(orderId, accessToken);
+  }, [orderId, accessToken]);
+
+  const fetchDocuments = async (id: string, token?: string | null) => {
+    try {
+      const tokenQuery = token ? `?token=${encodeURIComponent(token)}` : '';
+      const response = await api.get(`api/orders/${id}/documents${tokenQuery}`);
+      const result = await response.json();
+
+      if (result.success) {
+        setDocuments(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch documents:', error);
+    }
+  };
+
+  const handleDownload = async (billingDocument: BillingDocument) => {
+    try {
+      setDownloadingId(billingDocument.id);
+      setError(null);
+
+      const tokenQuery = accessToken ? `?token=${encodeURIComponent(accessToken)}` : '';
+      const response = await api.get(`api/orders/${orderId}/documents/${billingDocument.id}/pdf${tokenQuery}`);
+      const failure = await saveResponseAsFile(response, `${billingDocument.number}.pdf`);
+
+      if (failure) {
+        setError(failure);
+      }
+    } catch (error) {
+      console.error('Failed to download document:', error);
+      setError('Network error. Please try again.');
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  if (documents.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 mb-8">
+      <div className="flex items-center mb-4">
+        <FileText className="w-5 h-5 text-blue-400 mr-2" />
+        <h3 className="text-lg font-semibold text-gray-100">Invoices</h3>
+      </div>
+
+      <ul className="divide-y divide-gray-700">
+        {documents.map(billingDocument => (
+          <li key={billingDocument.id} className="flex items-center justify-between gap-4 py-3">
+            <div>
+              <p className="text-gray-100 font-medium">
+                {BILLING_DOCUMENT_TYPE_LABELS[billingDocument.documentType]} {billingDocument.number}
+              </p>
+              <p className="text-sm text-gray-400">
+                {new Date(billingDocument.issuedAt).toLocaleDateString()} · {formatPrice(billingDocument.total, billingDocument.currency)}
+              </p>
+            </div>
+            <button
+              onClick={() => handleDownload(billingDocument)}
+              disabled={downloadingId === billingDocument.id}
+              className="flex items-center gap-2 px-4 py-2 text-sm bg-gray-700 text-gray-100 rounded-lg hover:bg-gray-600 disabled:opacity-50 transition-colors duration-200"
+            >
+              {downloadingId === billingDocument.id
+                ? <Loader2 className="w-4 h-4 animate-spin" />
+                : <Download className="w-4 h-4" />}
+              PDF
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {error && <p className="mt-3 text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default OrderDocuments;
@@ -0,0 +1,272 @@
+import React, { useEffect, useState } from 'react';
+import { RotateCcw, Loader2 } from 'lucide-react';
+import { api } from '../../config/api';
+import { formatPrice } from '../../utils/cartUtils';
+import {
+  OrderReturnsData,
+  CreateReturnRequest,
+  RETURN_REASONS,
+  ITEM_CONDITIONS,
+  RETURN_STATUS_LABELS,
+  getReturnStatusClasses,
+  describeReturnStatus
+} from '../../types/returns';
+
+interface OrderReturnsProps {
+  orderId: string;
+  // Currency the order was paid in
+  currency: string;
+  // Needed by guests - signed-in owners are recognised from their session
+  accessToken?: string | null;
+}
+
+// Selection for one order line while filling in the return form
+interface ReturnLineSelection {
+  selected: boolean;
+  quantity: number;
+  reason: string;
+  condition: string;
+}
+
+// Lists an order's return requests and lets the customer send back delivered items
+const OrderReturns: React.FC<OrderReturnsProps> = ({ orderId, currency, accessToken }) => {
+  const [data, setData] = useState<OrderReturnsData | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [lines, setLines] = useState<Record<string, ReturnLineSelection>>({});
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchReturns(orderId, accessToken);
+  }, [orderId, accessToken]);
+
+  const fetchReturns = async (id: string, token?: string | null) => {
+    try {
+      const tokenQuery = token ? `?token=${encodeURIComponent(token)}` : '';
+      const response = await api.get(`api/orders/${id}/returns${tokenQuery}`);
+      const result = await response.json();
+
+      if (result.success) {
+        setData(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch returns:', error);
+    }
+  };
+
+  const openForm = () => {
+    if (!data) return;
+    setLines(Object.fromEntries(data.returnableItems.map(item => [
+      item.orderItemId,
+      { selected: false, quantity: item.returnableQuantity, reason: '', condition: '' }
+    ])));
+    setNote('');
+    setError(null);
+    setSuccessMessage(null);
+    setIsFormOpen(true);
+  };
+
+  const updateLine = (orderItemId: string, changes: Partial<ReturnLineSelection>) => {
+    setLines(prev => ({ ...prev, [orderItemId]: { ...prev[orderItemId], ...changes } }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const selected = Object.entries(lines).filter(([, line]) => line.selected);
+
+    if (selected.length === 0) {
+      setError('Choose at least one item to return');
+      return;
+    }
+    if (selected.some(([, line]) => !line.reason || !line.condition)) {
+      setError('Please give a reason and condition for each item');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const body: CreateReturnRequest = {
+        items: selected.map(([orderItemId, line]) => ({
+          orderItemId,
+          quantity: line.quantity,
+          reason: line.reason,
+          condition: line.condition
+        })),
+        note: note.trim() || undefined
+      };
+
+      const tokenQuery = accessToken ? `?token=${encodeURIComponent(accessToken)}` : '';
+      const response = await api.post(`api/orders/${orderId}/returns${tokenQuery}`, body);
+      const result = await response.json();
+
+      if (result.success) {
+        setIsFormOpen(false);
+        setSuccessMessage(result.message);
+        fetchReturns(orderId, accessToken);
+      } else {
+        setError(result.message || 'Failed to request return');
+      }
+    } catch (error) {
+      console.error('Failed to request return:', error);
+      setError('Network error. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!data || (data.returns.length === 0 && data.returnableItems.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <RotateCcw className="w-5 h-5 text-blue-400 mr-2" />
+          <h3 className="text-lg font-semibold text-gray-100">Returns</h3>
+        </div>
+        {!isFormOpen && data.returnableItems.length > 0 && (
+          <button
+            onClick={openForm}
+            className="px-4 py-2 text-sm bg-gray-700 text-gray-100 rounded-lg hover:bg-gray-600 transition-colors duration-200"
+          >
+            Return Items
+          </button>
+        )}
+      </div>
+
+      {successMessage && (
+        <div className="p-3 mb-4 bg-green-500/10 border border-green-500/20 rounded-lg text-green-400 text-sm">
+          {successMessage}
+        </div>
+      )}
+
+      {/* Existing Requests */}
+      {data.returns.length > 0 && (
+        <div className="space-y-4 mb-4">
+          {data.returns.map(request => (
+            <div key={request.id} className="border border-gray-700 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-gray-100 font-medium">{request.rmaNumber}</p>
+                <span className={`px-3 py-1 rounded-full text-xs font-medium border ${getReturnStatusClasses(request.status)}`}>
+                  {RETURN_STATUS_LABELS[request.status]}
+                </span>
+              </div>
+              <ul className="text-sm text-gray-300 space-y-1 mb-2">
+                {request.items.map(item => (
+                  <li key={item.id}>
+                    {item.quantity} × {item.name} - {RETURN_REASONS[item.reason] || item.reason}
+                  </li>
+                ))}
+              </ul>
+              <p className="text-sm text-gray-400">{describeReturnStatus(request.status)}</p>
+              {request.adminNote && (
+                <p className="text-sm text-gray-300 mt-1">{request.adminNote}</p>
+              )}
+              {request.refundAmount !== null && (
+                <p className="text-sm text-green-400 mt-1">Refunded {formatPrice(request.refundAmount, currency)}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* New Request */}
+      {isFormOpen && (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {data.returnableItems.map(item => {
+            const line = lines[item.orderItemId];
+            return (
+              <div key={item.orderItemId} className="border border-gray-700 rounded-lg p-4">
+                <label className="flex items-center gap-3 text-gray-100 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={line.selected}
+                    onChange={(e) => updateLine(item.orderItemId, { selected: e.target.checked })}
+                    className="rounded text-blue-500 focus:ring-blue-500"
+                  />
+                  <span className="flex-1">{item.name}</span>
+                  <span className="text-sm text-gray-400">{formatPrice(item.unitPrice, currency)} each</span>
+                </label>
+
+                {line.selected && (
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mt-3">
+                    <select
+                      value={line.quantity}
+                      onChange={(e) => updateLine(item.orderItemId, { quantity: parseInt(e.target.value) })}
+                      className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-gray-100 focus:ring-2 focus:ring-blue-500"
+                    >
+                      {Array.from({ length: item.returnableQuantity }, (_, index) => index + 1).map(quantity => (
+                        <option key={quantity} value={quantity}>Qty {quantity}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={line.reason}
+                      onChange={(e) => updateLine(item.orderItemId, { reason: e.target.value })}
+                      className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-gray-100 focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Reason...</option>
+                      {Object.entries(RETURN_REASONS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={line.condition}
+                      onChange={(e) => updateLine(item.orderItemId, { condition: e.target.value })}
+                      className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-gray-100 focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Condition...</option>
+                      {Object.entries(ITEM_CONDITIONS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            maxLength={1000}
+            rows={2}
+            placeholder="Anything else we should know? (optional)"
+            className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-gray-100 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+
+          {error && (
+            <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-3 justify-end">
+            <button
+              type="button"
+              onClick={() => setIsFormOpen(false)}
+              className="px-6 py-3 bg-gray-700 text-gray-100 rounded-lg hover:bg-gray-600 transition-colors duration-200"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="flex items-center justify-center px-6 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 transition-colors duration-200"
+            >
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Request Return
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default OrderReturns;
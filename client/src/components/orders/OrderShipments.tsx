@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { Truck, ExternalLink } from 'lucide-react';
+import { api } from '../../config/api';
+import { CustomerShipmentsData, SHIPMENT_STATUS_LABELS } from '../../types/shipments';
+
+interface OrderShipmentsProps {
+  orderId: string;
+  // Needed by guests - signed-in owners are recognised from their session
+  accessToken?: string | null;
+}
+
+// Lists the parcels of an order, what is in each, and what has not shipped yet
+const OrderShipments: React.FC<OrderShipmentsProps> = ({ orderId, accessToken }) => {
+  const [data, setData] = useState<CustomerShipmentsData | null>(null);
+
+  useEffect(() => {
+    fetchShipments(orderId, accessToken);
+  }, [orderId, accessToken]);
+
+  const fetchShipments = async (id: string, token?: string | null) => {
+    try {
+      const tokenQuery = token ? `?token=${encodeURIComponent(token)}` : '';
+      const response = await api.get(`api/orders/${id}/shipments${tokenQuery}`);
+      const result = await response.json();
+
+      if (result.success) {
+        setData(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch shipments:', error);
+    }
+  };
+
+  if (!data || (data.shipments.length === 0 && data.unshippedItems.length === 0)) {
+    return null;
+  }
+
+  const { shipments, unshippedItems } = data;
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 mb-8">
+      <div className="flex items-center mb-4">
+        <Truck className="w-5 h-5 text-blue-400 mr-2" />
+        <h3 className="text-lg font-semibold text-gray-100">
+          {shipments.length > 1 ? `Shipments (${shipments.length})` : 'Shipment'}
+        </h3>
+      </div>
+
+      <div className="space-y-4">
+        {shipments.map(shipment => (
+          <div key={shipment.id} className="border border-gray-700 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-gray-100 font-medium">{shipment.carrierName}</p>
+              <span
+                className={`px-3 py-1 rounded-full text-xs font-medium border ${
+                  shipment.status === 'delivered'
+                    ? 'bg-green-500/10 text-green-400 border-green-500/20'
+                    : 'bg-blue-500/10 text-blue-400 border-blue-500/20'
+                }`}
+              >
+                {SHIPMENT_STATUS_LABELS[shipment.status]}
+              </span>
+            </div>
+            <p className="text-sm text-gray-300">
+              Tracking number:{' '}
+              {shipment.trackingUrl ? (
+                <a
+                  href={shipment.trackingUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-400 hover:text-blue-300 inline-flex items-center gap-1"
+                >
+                  {shipment.trackingNumber}
+                  <ExternalLink className="w-3 h-3" />
+                </a>
+              ) : (
+                <span className="text-gray-100">{shipment.trackingNumber}</span>
+              )}
+            </p>
+            <p className="text-sm text-gray-400">
+              Shipped on {new Date(shipment.shippedAt).toLocaleDateString()}
+              {shipment.deliveredAt && ` · Delivered on ${new Date(shipment.deliveredAt).toLocaleDateString()}`}
+            </p>
+            <ul className="text-sm text-gray-300 space-y-1 mt-2">
+              {shipment.items.map(item => (
+                <li key={item.id}>{item.quantity} × {item.name}</li>
+              ))}
+            </ul>
+          </div>
+        ))}
+
+        {unshippedItems.length > 0 && (
+          <div className="border border-dashed border-gray-700 rounded-lg p-4">
+            <p className="text-gray-100 font-medium mb-2">Not shipped yet</p>
+            <ul className="text-sm text-gray-400 space-y-1">
+              {unshippedItems.map(item => (
+                <li key={item.orderItemId}>{item.unshippedQuantity} × {item.name}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OrderShipments;
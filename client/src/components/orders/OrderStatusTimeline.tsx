@@ -0,0 +1,41 @@
+import React from 'react';
+import { History } from 'lucide-react';
+import { OrderStatusChange, formatOrderStatus, describeStatusActor } from '../../types/orders';
+
+interface OrderStatusTimelineProps {
+  history: OrderStatusChange[];
+}
+
+const OrderStatusTimeline: React.FC<OrderStatusTimelineProps> = ({ history }) => {
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 mb-8">
+      <div className="flex items-center mb-4">
+        <History className="w-5 h-5 text-blue-400 mr-2" />
+        <h3 className="text-lg font-semibold text-gray-100">Order Timeline</h3>
+      </div>
+      <ol className="relative border-l border-gray-700 ml-2 space-y-6">
+        {history.map((entry, index) => (
+          <li key={`${entry.toStatus}-${index}`} className="ml-6">
+            <span
+              className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-gray-800 ${
+                index === history.length - 1 ? 'bg-blue-400' : 'bg-gray-500'
+              }`}
+            />
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+              <p className="text-gray-100 font-medium">
+                {entry.fromStatus ? formatOrderStatus(entry.toStatus) : 'Order placed'}
+              </p>
+              <time className="text-sm text-gray-400">{new Date(entry.createdAt).toLocaleString()}</time>
+            </div>
+            <p className="text-sm text-gray-400">{describeStatusActor(entry.actorType)}</p>
+            {entry.reason && entry.fromStatus && (
+              <p className="text-sm text-gray-300 mt-1">{entry.reason}</p>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default OrderStatusTimeline;
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { ShieldCheck, Loader } from 'lucide-react';
+
+interface PaymentChallengeModalProps {
+  message: string;
+  onConfirm: (response: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Bank confirmation step (3-D Secure style) shown when a payment needs approval
+const PaymentChallengeModal: React.FC<PaymentChallengeModalProps> = ({ message, onConfirm, onCancel }) => {
+  const [response, setResponse] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!response.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      await onConfirm(response.trim());
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-md bg-gray-800 rounded-lg p-6 shadow-xl">
+        <div className="flex items-center mb-4">
+          <ShieldCheck className="w-6 h-6 text-blue-400 mr-3" />
+          <h2 className="text-xl font-semibold text-gray-100">Confirm your payment</h2>
+        </div>
+        <p className="text-gray-300 text-sm mb-4">{message}</p>
+        <input
+          type="text"
+          inputMode="numeric"
+          autoFocus
+          value={response}
+          onChange={(e) => setResponse(e.target.value)}
+          maxLength={10}
+          placeholder="Confirmation code"
+          className="w-full px-4 py-3 mb-4 bg-gray-700 border border-gray-600 rounded-lg text-gray-100 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <div className="flex gap-3 justify-end">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isSubmitting}
+            className="px-6 py-3 bg-gray-700 text-gray-100 rounded-lg hover:bg-gray-600 disabled:opacity-50 transition-colors duration-200"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting || !response.trim()}
+            className="flex items-center justify-center px-6 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 transition-colors duration-200"
+          >
+            {isSubmitting && <Loader className="w-4 h-4 mr-2 animate-spin" />}
+            Confirm
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default PaymentChallengeModal;
@@ -11,6 +11,7 @@ import {
   CartItem, 
   AddToCartData, 
   CartEventType,
+  StockConflict,
   CartError,
   CART_ERROR_CODES,
   CART_CONFIG
@@ -32,7 +33,8 @@ type CartAction =
   | { type: 'REMOVE_ITEM'; payload: string }
   | { type: 'UPDATE_QUANTITY'; payload: { itemId: string; quantity: number } }
   | { type: 'CLEAR_CART' }
-  | { type: 'SET_LOADING'; payload: boolean };
+  | { type: 'SET_LOADING'; payload: boolean }
+  | { type: 'SET_STOCK_CONFLICTS'; payload: StockConflict[] };
 
 // Initial cart state
 const initialCartState: CartState = {
@@ -41,6 +43,14 @@ const initialCartState: CartState = {
   totalPrice: 0,
   isLoading: true,
   lastUpdated: new Date().toISOString(),
+  stockConflicts: [],
+};
+
+// Keep only the conflicts that the current cart quantities still run into
+const pruneStockConflicts = (conflicts: StockConflict[], items: CartItem[]): StockConflict[] => {
+  return conflicts.filter(conflict =>
+    getProductTotalQuantity(items, conflict.productId) > conflict.available
+  );
 };
 
 // Cart reducer
@@ -78,6 +88,7 @@ const cartReducer = (state: CartState, action: CartAction): CartState => {
         items: newItems,
         totalItems,
         totalPrice,
+        stockConflicts: pruneStockConflicts(state.stockConflicts, newItems),
         lastUpdated: new Date().toISOString(),
       };
     }
@@ -94,6 +105,7 @@ const cartReducer = (state: CartState, action: CartAction): CartState => {
         items: newItems,
         totalItems,
         totalPrice,
+        stockConflicts: pruneStockConflicts(state.stockConflicts, newItems),
         lastUpdated: new Date().toISOString(),
       };
     }
@@ -105,6 +117,7 @@ const cartReducer = (state: CartState, action: CartAction): CartState => {
         totalItems: 0,
         totalPrice: 0,
         lastUpdated: new Date().toISOString(),
+        stockConflicts: [],
       };
     }
 
@@ -115,6 +128,22 @@ const cartReducer = (state: CartState, action: CartAction): CartState => {
       };
     }
 
+    case 'SET_STOCK_CONFLICTS': {
+      // Lower the stock limit of affected items so the quantity controls match the server
+      const availableByProduct = new Map(action.payload.map(conflict => [conflict.productId, conflict.available]));
+      const newItems = state.items.map(item => {
+        const available = availableByProduct.get(item.productId);
+        return available !== undefined && available < item.maxStock
+          ? { ...item, maxStock: available }
+          : item;
+      });
+      return {
+        ...state,
+        items: newItems,
+        stockConflicts: action.payload,
+      };
+    }
+
     default:
       return state;
   }
@@ -267,6 +296,21 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }));
   }, [state.items]);
 
+  // Replace the cart, e.g. with the lines of a restored checkout
+  const replaceItems = useCallback((itemsData: Omit<CartItem, 'id' | 'addedAt'>[]) => {
+    const newItems: CartItem[] = itemsData.map(itemData => ({
+      ...itemData,
+      id: generateCartItemId(itemData.productId, itemData.variants),
+      addedAt: new Date().toISOString(),
+    }));
+
+    dispatch({ type: 'LOAD_CART', payload: newItems });
+
+    window.dispatchEvent(new CustomEvent(CartEventType.CART_LOADED, {
+      detail: { items: newItems }
+    }));
+  }, []);
+
   // Get specific item
   const getItem = useCallback((productId: string, variants?: Record<string, string>) => {
     return findCartItem(state.items, productId, variants);
@@ -282,15 +326,34 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return getProductTotalQuantity(state.items, productId);
   }, [state.items]);
 
+  // Record stock conflicts returned by the server
+  const applyStockConflicts = useCallback((conflicts: StockConflict[]) => {
+    dispatch({ type: 'SET_STOCK_CONFLICTS', payload: conflicts });
+  }, []);
+
+  // Dismiss stock conflicts
+  const clearStockConflicts = useCallback(() => {
+    dispatch({ type: 'SET_STOCK_CONFLICTS', payload: [] });
+  }, []);
+
+  // Get stock conflict for a product
+  const getStockConflict = useCallback((productId: string) => {
+    return state.stockConflicts.find(conflict => conflict.productId === productId);
+  }, [state.stockConflicts]);
+
   const contextValue: CartContextType = {
     ...state,
     addItem,
     removeItem,
     updateQuantity,
     clearCart,
+    replaceItems,
     getItem,
     isInCart,
     getProductQuantity,
+    applyStockConflicts,
+    clearStockConflicts,
+    getStockConflict,
   };
 
   return (
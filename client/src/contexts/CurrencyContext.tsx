@@ -0,0 +1,72 @@
+/**
+ * Currency Context and Provider
+ *
+ * Keeps the currency the customer browses in and converts catalog prices,
+ * which are in the store's base currency, for display
+ */
+
+import React, { useEffect, useState, useCallback } from 'react';
+import { api } from '../config/api';
+import { Currency, CurrencyContextType, convertFromBase } from '../types/currency';
+import { formatPrice } from '../utils/cartUtils';
+import { CurrencyContext } from '../hooks/useCurrency';
+
+const CURRENCY_STORAGE_KEY = 'currency';
+
+interface CurrencyProviderProps {
+  children: React.ReactNode;
+}
+
+export const CurrencyProvider: React.FC<CurrencyProviderProps> = ({ children }) => {
+  const [currencies, setCurrencies] = useState<Currency[]>([]);
+  const [selectedCode, setSelectedCode] = useState<string | null>(() => localStorage.getItem(CURRENCY_STORAGE_KEY));
+
+  useEffect(() => {
+    fetchCurrencies();
+  }, []);
+
+  const fetchCurrencies = async () => {
+    try {
+      const response = await api.get('api/currencies');
+      const data = await response.json();
+
+      if (data.success) {
+        setCurrencies(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch currencies:', error);
+    }
+  };
+
+  // A saved currency that was disabled since falls back to the base currency
+  const currency = currencies.find(c => c.code === selectedCode)
+    || currencies.find(c => c.isBase)
+    || null;
+
+  const setCurrency = (code: string) => {
+    setSelectedCode(code);
+    localStorage.setItem(CURRENCY_STORAGE_KEY, code);
+  };
+
+  const convertPrice = useCallback((baseAmount: number): number => {
+    return currency ? convertFromBase(baseAmount, currency) : baseAmount;
+  }, [currency]);
+
+  const formatDisplayPrice = useCallback((baseAmount: number): string => {
+    return currency ? formatPrice(convertFromBase(baseAmount, currency), currency.code) : formatPrice(baseAmount);
+  }, [currency]);
+
+  const value: CurrencyContextType = {
+    currencies,
+    currency,
+    setCurrency,
+    convertPrice,
+    formatDisplayPrice,
+  };
+
+  return (
+    <CurrencyContext.Provider value={value}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+};
@@ -0,0 +1,18 @@
+/**
+ * useCurrency Hook
+ *
+ * The currency the customer browses in, kept by CurrencyProvider
+ */
+
+import { createContext, useContext } from 'react';
+import { CurrencyContextType } from '../types/currency';
+
+export const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+export const useCurrency = (): CurrencyContextType => {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+};
@@ -0,0 +1,227 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ShoppingBag, Loader2, AlertCircle, RefreshCw, Mail, MousePointerClick, CheckCircle, TrendingUp, DollarSign } from 'lucide-react';
+import { api } from '../config/api';
+import { formatCurrency, formatDate } from '../types/admin';
+import { CheckoutDraftStatus, CheckoutRecoveryStats } from '../types/checkout';
+
+const PERIOD_OPTIONS = [7, 30, 90];
+
+const getDraftStatusClasses = (status: CheckoutDraftStatus): string => {
+  switch (status) {
+    case 'converted':
+      return 'bg-green-100 text-green-800';
+    case 'reminded':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'open':
+      return 'bg-blue-100 text-blue-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+const getColorClasses = (color: string) => {
+  const colorMap = {
+    indigo: 'bg-indigo-100 text-indigo-600',
+    green: 'bg-green-100 text-green-600',
+    yellow: 'bg-yellow-100 text-yellow-600',
+    purple: 'bg-purple-100 text-purple-600'
+  };
+  return colorMap[color as keyof typeof colorMap] || 'bg-gray-100 text-gray-600';
+};
+
+// Abandoned checkouts - how many were emailed, came back and ended in an order
+const AdminCheckoutRecoveryPage: React.FC = () => {
+  const [days, setDays] = useState(30);
+  const [stats, setStats] = useState<CheckoutRecoveryStats | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStats = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await api.get(`api/admin/checkout-recovery?days=${days}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setStats(data.data);
+      } else {
+        setError(data.message || 'Failed to fetch checkout recovery');
+      }
+    } catch (error) {
+      console.error('Error fetching checkout recovery:', error);
+      setError('Network error. Please check your connection.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    fetchStats();
+  }, [fetchStats]);
+
+  const statsCards = stats ? [
+    {
+      title: 'Checkouts Captured',
+      value: stats.captured,
+      icon: ShoppingBag,
+      color: 'indigo' as const
+    },
+    {
+      title: 'Abandoned (Emailed)',
+      value: stats.abandoned,
+      icon: Mail,
+      color: 'yellow' as const
+    },
+    {
+      title: 'Restored from Email',
+      value: stats.restored,
+      icon: MousePointerClick,
+      color: 'purple' as const
+    },
+    {
+      title: 'Recovered Orders',
+      value: stats.recovered,
+      icon: CheckCircle,
+      color: 'green' as const
+    },
+    {
+      title: 'Recovery Rate',
+      value: `${(stats.recoveryRate * 100).toFixed(1)}%`,
+      icon: TrendingUp,
+      color: 'indigo' as const
+    },
+    {
+      title: 'Recovered Revenue',
+      value: formatCurrency(stats.recoveredRevenue, stats.baseCurrency),
+      icon: DollarSign,
+      color: 'green' as const
+    }
+  ] : [];
+
+  return (
+    <div>
+      {/* Action Bar */}
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex gap-2">
+          {PERIOD_OPTIONS.map(option => (
+            <button
+              key={option}
+              onClick={() => setDays(option)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                days === option ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 shadow-sm hover:bg-gray-100'
+              }`}
+            >
+              Last {option} days
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={fetchStats}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-3 rounded-lg font-medium flex items-center gap-2 transition-colors"
+        >
+          <RefreshCw className="w-5 h-5" />
+          Refresh
+        </button>
+      </div>
+
+      {isLoading && !stats ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center space-y-4">
+            <Loader2 className="w-12 h-12 animate-spin text-indigo-600 mx-auto" />
+            <p className="text-gray-600">Loading checkout recovery...</p>
+          </div>
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-6">
+          <div className="flex items-center gap-3">
+            <AlertCircle className="w-6 h-6 text-red-600" />
+            <div>
+              <h3 className="text-lg font-semibold text-red-900">Error Loading Checkout Recovery</h3>
+              <p className="text-red-700">{error}</p>
+            </div>
+          </div>
+        </div>
+      ) : stats && (
+        <>
+          {/* Stats Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
+            {statsCards.map(stat => (
+              <div key={stat.title} className="bg-white rounded-xl shadow-sm p-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-600">{stat.title}</p>
+                    <p className="text-2xl font-bold text-gray-900">
+                      {typeof stat.value === 'string' ? stat.value : stat.value.toLocaleString()}
+                    </p>
+                  </div>
+                  <div className={`p-3 rounded-lg ${getColorClasses(stat.color)}`}>
+                    <stat.icon className="w-6 h-6" />
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Emailed Checkouts */}
+          {stats.drafts.length === 0 ? (
+            <div className="bg-white rounded-xl shadow-sm p-12 text-center">
+              <ShoppingBag className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">No Abandoned Checkouts</h3>
+              <p className="text-gray-600">
+                Checkouts left without an order in the last {stats.days} days will show up here once their reminder is sent.
+              </p>
+            </div>
+          ) : (
+            <div className="bg-white rounded-xl shadow-sm overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Items</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reminded</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Restored</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {stats.drafts.map(draft => (
+                    <tr key={draft.id}>
+                      <td className="px-6 py-4 text-sm text-gray-900">{draft.email}</td>
+                      <td className="px-6 py-4 text-sm text-gray-600">{draft.itemCount}</td>
+                      <td className="px-6 py-4">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getDraftStatusClasses(draft.status)}`}>
+                          {draft.status}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {draft.reminderSentAt ? formatDate(draft.reminderSentAt) : '-'}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {draft.restoredAt ? formatDate(draft.restoredAt) : '-'}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {draft.orderNumber ? (
+                          <>
+                            <span className="font-medium">{draft.orderNumber}</span>
+                            {draft.orderTotal !== null && (
+                              <span className="text-gray-500 ml-2">{formatCurrency(draft.orderTotal, stats.baseCurrency)}</span>
+                            )}
+                          </>
+                        ) : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AdminCheckoutRecoveryPage;
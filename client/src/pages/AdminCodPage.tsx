@@ -0,0 +1,338 @@
+import React, { useState, useEffect } from 'react';
+import { Banknote, Loader2, AlertCircle, RefreshCw } from 'lucide-react';
+import { api } from '../config/api';
+import { formatCurrency } from '../types/admin';
+import CodCollectionRow from '../components/admin/CodCollectionRow';
+import CodRemittances from '../components/admin/CodRemittances';
+import CodReceivablesReport from '../components/admin/CodReceivablesReport';
+import {
+  CodCollection,
+  CodCollectionStatus,
+  CodRemittance,
+  CodReceivablesReport as ReceivablesReport,
+  CollectionOutcomeRequest,
+  COD_COLLECTION_STATUSES,
+  COD_COLLECTION_STATUS_LABELS
+} from '../types/cod';
+
+type CodView = 'collections' | 'remittances' | 'receivables';
+type CollectionFilter = CodCollectionStatus | 'all' | 'unremitted';
+
+const VIEWS: Array<{ id: CodView; name: string }> = [
+  { id: 'collections', name: 'Collections' },
+  { id: 'remittances', name: 'Remittances' },
+  { id: 'receivables', name: 'Receivables' }
+];
+
+const AdminCodPage: React.FC = () => {
+  const [view, setView] = useState<CodView>('collections');
+  const [collectionFilter, setCollectionFilter] = useState<CollectionFilter>('awaiting_collection');
+  const [collections, setCollections] = useState<CodCollection[]>([]);
+  const [counts, setCounts] = useState<Partial<Record<CodCollectionStatus, number>>>({});
+  const [remittances, setRemittances] = useState<CodRemittance[]>([]);
+  const [report, setReport] = useState<ReceivablesReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Remittance form for the unremitted view
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [reference, setReference] = useState('');
+  const [courier, setCourier] = useState('');
+  const [receivedAmount, setReceivedAmount] = useState('');
+  const [remittanceNote, setRemittanceNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const fetchData = async (currentView: CodView, filter: CollectionFilter) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      let response: Response;
+      if (currentView === 'collections') {
+        response = await api.get(filter === 'unremitted'
+          ? 'api/admin/cod/collections?status=collected&unremitted=true'
+          : `api/admin/cod/collections?status=${filter}`);
+      } else if (currentView === 'remittances') {
+        response = await api.get('api/admin/cod/remittances');
+      } else {
+        response = await api.get('api/admin/cod/receivables');
+      }
+      const data = await response.json();
+
+      if (data.success) {
+        if (currentView === 'collections') {
+          setCollections(data.data.collections);
+          setCounts(data.data.counts);
+          setSelectedIds([]);
+        } else if (currentView === 'remittances') {
+          setRemittances(data.data);
+        } else {
+          setReport(data.data);
+        }
+      } else {
+        setError(data.message || 'Failed to fetch cash on delivery data');
+      }
+    } catch (error) {
+      console.error('Error fetching cash on delivery data:', error);
+      setError('Network error. Please check your connection.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData(view, collectionFilter);
+  }, [view, collectionFilter]);
+
+  const handleRecord = async (orderId: string, outcome: CollectionOutcomeRequest) => {
+    const response = await api.put(`api/admin/cod/collections/${orderId}`, outcome);
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.message || 'Failed to record collection');
+    }
+
+    fetchData(view, collectionFilter);
+  };
+
+  const handleResolve = async (remittanceId: string, note: string) => {
+    const response = await api.put(`api/admin/cod/remittances/${remittanceId}/resolve`, { note });
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.message || 'Failed to resolve remittance');
+    }
+
+    fetchData(view, collectionFilter);
+  };
+
+  const toggleSelected = (collectionId: string) => {
+    setSelectedIds(prev => prev.includes(collectionId)
+      ? prev.filter(id => id !== collectionId)
+      : [...prev, collectionId]);
+  };
+
+  const selectedTotal = collections
+    .filter(collection => selectedIds.includes(collection.id))
+    .reduce((sum, collection) => sum + (collection.collectedAmount || 0), 0);
+
+  const handleCreateRemittance = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = parseFloat(receivedAmount);
+    if (!reference.trim() || !courier.trim()) {
+      setFormError('Reference and courier are required');
+      return;
+    }
+    if (isNaN(amount) || amount < 0) {
+      setFormError('Enter the amount the courier paid in');
+      return;
+    }
+    if (selectedIds.length === 0) {
+      setFormError('Select the collections this remittance covers');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setFormError(null);
+
+      const response = await api.post('api/admin/cod/remittances', {
+        reference: reference.trim(),
+        courier: courier.trim(),
+        receivedAmount: amount,
+        collectionIds: selectedIds,
+        note: remittanceNote.trim() || undefined
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        setFormError(data.message || 'Failed to record remittance');
+        return;
+      }
+
+      setMessage(data.message);
+      setReference('');
+      setReceivedAmount('');
+      setRemittanceNote('');
+      fetchData(view, collectionFilter);
+    } catch (error) {
+      console.error('Error recording remittance:', error);
+      setFormError('Network error. Please check your connection.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const totalCount = Object.values(counts).reduce((sum, count) => sum + (count || 0), 0);
+
+  const filterClasses = (active: boolean) => `px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+    active ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+  }`;
+
+  return (
+    <div>
+      {/* Action Bar */}
+      <div className="flex flex-wrap justify-between gap-4 mb-6">
+        <div className="flex gap-2">
+          {VIEWS.map(item => (
+            <button
+              key={item.id}
+              onClick={() => { setView(item.id); setMessage(null); }}
+              className={`px-4 py-3 rounded-lg font-medium transition-colors ${
+                view === item.id ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 shadow-sm hover:bg-gray-50'
+              }`}
+            >
+              {item.name}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => fetchData(view, collectionFilter)}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-3 rounded-lg font-medium flex items-center gap-2 transition-colors"
+        >
+          <RefreshCw className="w-5 h-5" />
+          Refresh
+        </button>
+      </div>
+
+      {message && (
+        <div className="bg-indigo-50 border border-indigo-200 text-indigo-800 rounded-xl p-4 mb-6">
+          {message}
+        </div>
+      )}
+
+      {/* Status Filter */}
+      {view === 'collections' && (
+        <div className="bg-white rounded-xl shadow-sm p-4 mb-8 flex flex-wrap gap-2">
+          <button onClick={() => setCollectionFilter('all')} className={filterClasses(collectionFilter === 'all')}>
+            All ({totalCount})
+          </button>
+          {COD_COLLECTION_STATUSES.map(status => (
+            <button
+              key={status}
+              onClick={() => setCollectionFilter(status)}
+              className={filterClasses(collectionFilter === status)}
+            >
+              {COD_COLLECTION_STATUS_LABELS[status]} ({counts[status] || 0})
+            </button>
+          ))}
+          <button onClick={() => setCollectionFilter('unremitted')} className={filterClasses(collectionFilter === 'unremitted')}>
+            Unremitted
+          </button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center space-y-4">
+            <Loader2 className="w-12 h-12 animate-spin text-indigo-600 mx-auto" />
+            <p className="text-gray-600">Loading cash on delivery...</p>
+          </div>
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-6">
+          <div className="flex items-center gap-3">
+            <AlertCircle className="w-6 h-6 text-red-600" />
+            <div>
+              <h3 className="text-lg font-semibold text-red-900">Error Loading Cash on Delivery</h3>
+              <p className="text-red-700">{error}</p>
+            </div>
+          </div>
+        </div>
+      ) : view === 'remittances' ? (
+        <CodRemittances remittances={remittances} onResolve={handleResolve} />
+      ) : view === 'receivables' ? (
+        report && <CodReceivablesReport report={report} />
+      ) : collections.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm p-12 text-center">
+          <Banknote className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">No Collections Found</h3>
+          <p className="text-gray-600">
+            {collectionFilter === 'unremitted'
+              ? 'All collected cash has been remitted.'
+              : collectionFilter !== 'all'
+                ? `There are no ${COD_COLLECTION_STATUS_LABELS[collectionFilter].toLowerCase()} orders.`
+                : 'Collections appear here once cash on delivery orders ship.'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {collectionFilter === 'unremitted' && (
+            <form onSubmit={handleCreateRemittance} className="bg-white rounded-xl shadow-sm p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-gray-900">Record Remittance</h3>
+                <p className="text-sm text-gray-600">
+                  {selectedIds.length} selected · {formatCurrency(selectedTotal)} collected
+                </p>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <input
+                  type="text"
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  maxLength={100}
+                  placeholder="Remittance reference"
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                />
+                <input
+                  type="text"
+                  value={courier}
+                  onChange={(e) => setCourier(e.target.value)}
+                  maxLength={100}
+                  placeholder="Courier"
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={receivedAmount}
+                  onChange={(e) => setReceivedAmount(e.target.value)}
+                  placeholder="Amount received"
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                />
+              </div>
+              <input
+                type="text"
+                value={remittanceNote}
+                onChange={(e) => setRemittanceNote(e.target.value)}
+                maxLength={500}
+                placeholder="Note (optional)"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              />
+              {formError && <p className="text-sm text-red-600">{formError}</p>}
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-2"
+                >
+                  {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Record Remittance
+                </button>
+              </div>
+            </form>
+          )}
+
+          <div className="bg-white rounded-xl shadow-sm divide-y divide-gray-100">
+            {collections.map(collection => (
+              <CodCollectionRow
+                key={collection.id}
+                collection={collection}
+                onRecord={handleRecord}
+                selectable={collectionFilter === 'unremitted'}
+                selected={selectedIds.includes(collection.id)}
+                onToggleSelected={toggleSelected}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminCodPage;
@@ -1,9 +1,16 @@
 import React, { useState } from 'react';
-import AdminLayout from '../components/admin/AdminLayout';
+import AdminLayout, { AdminSection } from '../components/admin/AdminLayout';
 import AdminPage from './AdminPage';
 import AdminOrdersPage from './AdminOrdersPage';
-
-type AdminSection = 'products' | 'orders' | 'analytics' | 'settings';
+import AdminFulfillmentPage from './AdminFulfillmentPage';
+import AdminReturnsPage from './AdminReturnsPage';
+import AdminInvoicesPage from './AdminInvoicesPage';
+import AdminCodPage from './AdminCodPage';
+import AdminSettingsPage from './AdminSettingsPage';
+import AdminPromotionsPage from './AdminPromotionsPage';
+import AdminWebhooksPage from './AdminWebhooksPage';
+import AdminEmailsPage from './AdminEmailsPage';
+import AdminCheckoutRecoveryPage from './AdminCheckoutRecoveryPage';
 
 const AdminDashboard: React.FC = () => {
   const [currentSection, setCurrentSection] = useState<AdminSection>('products');
@@ -14,6 +21,22 @@ const AdminDashboard: React.FC = () => {
         return <AdminProductsContent />;
       case 'orders':
         return <AdminOrdersContent />;
+      case 'fulfillment':
+        return <AdminFulfillmentContent />;
+      case 'returns':
+        return <AdminReturnsContent />;
+      case 'invoices':
+        return <AdminInvoicesContent />;
+      case 'cod':
+        return <AdminCodContent />;
+      case 'promotions':
+        return <AdminPromotionsContent />;
+      case 'webhooks':
+        return <AdminWebhooksContent />;
+      case 'emails':
+        return <AdminEmailsContent />;
+      case 'recovery':
+        return <AdminRecoveryContent />;
       case 'analytics':
         return <AdminAnalyticsContent />;
       case 'settings':
@@ -42,6 +65,38 @@ const AdminOrdersContent: React.FC = () => {
   return <AdminOrdersPage />;
 };
 
+const AdminFulfillmentContent: React.FC = () => {
+  return <AdminFulfillmentPage />;
+};
+
+const AdminReturnsContent: React.FC = () => {
+  return <AdminReturnsPage />;
+};
+
+const AdminInvoicesContent: React.FC = () => {
+  return <AdminInvoicesPage />;
+};
+
+const AdminCodContent: React.FC = () => {
+  return <AdminCodPage />;
+};
+
+const AdminPromotionsContent: React.FC = () => {
+  return <AdminPromotionsPage />;
+};
+
+const AdminWebhooksContent: React.FC = () => {
+  return <AdminWebhooksPage />;
+};
+
+const AdminEmailsContent: React.FC = () => {
+  return <AdminEmailsPage />;
+};
+
+const AdminRecoveryContent: React.FC = () => {
+  return <AdminCheckoutRecoveryPage />;
+};
+
 const AdminAnalyticsContent: React.FC = () => {
   return (
     <div className="text-center py-12">
@@ -52,12 +107,7 @@ const AdminAnalyticsContent: React.FC = () => {
 };
 
 const AdminSettingsContent: React.FC = () => {
-  return (
-    <div className="text-center py-12">
-      <h2 className="text-2xl font-bold text-gray-900 mb-4">Settings</h2>
-      <p className="text-gray-600">Settings panel coming soon...</p>
-    </div>
-  );
+  return <AdminSettingsPage />;
 };
 
 export default AdminDashboard;
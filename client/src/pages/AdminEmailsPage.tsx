@@ -0,0 +1,281 @@
+import React, { useState, useEffect } from 'react';
+import { Mail, Loader2, AlertCircle, RefreshCw, ChevronDown, ChevronUp, Send } from 'lucide-react';
+import { api } from '../config/api';
+import { formatDate } from '../types/admin';
+import {
+  OutboxEmail,
+  OutboxEmailWithBody,
+  EmailStatus,
+  EMAIL_STATUSES,
+  EMAIL_TEMPLATE_LABELS
+} from '../types/emails';
+
+const getEmailStatusClasses = (status: EmailStatus): string => {
+  switch (status) {
+    case 'sent':
+      return 'bg-green-100 text-green-800';
+    case 'pending':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'failed':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+// Emails carrying a single-use link cannot be resent
+const canResend = (email: OutboxEmail): boolean => email.template !== 'password_reset';
+
+// The email outbox - what was sent to whom, with previews and resends
+const AdminEmailsPage: React.FC = () => {
+  const [emails, setEmails] = useState<OutboxEmail[]>([]);
+  const [counts, setCounts] = useState<Partial<Record<EmailStatus, number>>>({});
+  const [statusFilter, setStatusFilter] = useState<EmailStatus | 'all'>('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<OutboxEmailWithBody | null>(null);
+  const [previewFormat, setPreviewFormat] = useState<'html' | 'text'>('html');
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+  const [resendingId, setResendingId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchEmails(statusFilter);
+  }, [statusFilter]);
+
+  const fetchEmails = async (status: EmailStatus | 'all') => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await api.get(`api/admin/emails?status=${status}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setEmails(data.data.emails);
+        setCounts(data.data.counts);
+      } else {
+        setError(data.message || 'Failed to fetch emails');
+      }
+    } catch (error) {
+      console.error('Error fetching emails:', error);
+      setError('Network error. Please check your connection.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleToggle = async (emailId: string) => {
+    if (expandedId === emailId) {
+      setExpandedId(null);
+      return;
+    }
+
+    setExpandedId(emailId);
+    if (preview?.id === emailId) {
+      return;
+    }
+
+    try {
+      setIsLoadingPreview(true);
+      setPreview(null);
+
+      const response = await api.get(`api/admin/emails/${emailId}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setPreview(data.data);
+      } else {
+        alert(data.message || 'Failed to load email');
+      }
+    } catch (error) {
+      console.error('Error loading email:', error);
+      alert('Network error. Please try again.');
+    } finally {
+      setIsLoadingPreview(false);
+    }
+  };
+
+  const handleResend = async (emailId: string) => {
+    try {
+      setResendingId(emailId);
+
+      const response = await api.post(`api/admin/emails/${emailId}/resend`);
+      const data = await response.json();
+
+      if (data.data) {
+        // The copy is a new outbox entry; the original stays as it was
+        setEmails(prev => [data.data, ...prev]);
+        setCounts(prev => ({ ...prev, [data.data.status]: (prev[data.data.status as EmailStatus] || 0) + 1 }));
+      }
+      alert(data.message || (data.success ? 'Email resent' : 'Failed to resend email'));
+    } catch (error) {
+      console.error('Error resending email:', error);
+      alert('Network error. Please try again.');
+    } finally {
+      setResendingId(null);
+    }
+  };
+
+  const totalCount = Object.values(counts).reduce((sum, count) => sum + (count || 0), 0);
+
+  return (
+    <div>
+      {/* Action Bar */}
+      <div className="flex justify-end mb-6">
+        <button
+          onClick={() => fetchEmails(statusFilter)}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-3 rounded-lg font-medium flex items-center gap-2 transition-colors"
+        >
+          <RefreshCw className="w-5 h-5" />
+          Refresh
+        </button>
+      </div>
+
+      {/* Status Filter */}
+      <div className="bg-white rounded-xl shadow-sm p-4 mb-8 flex flex-wrap gap-2">
+        <button
+          onClick={() => setStatusFilter('all')}
+          className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+            statusFilter === 'all' ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+        >
+          All ({totalCount})
+        </button>
+        {EMAIL_STATUSES.map(status => (
+          <button
+            key={status}
+            onClick={() => setStatusFilter(status)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium capitalize transition-colors ${
+              statusFilter === status ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {status} ({counts[status] || 0})
+          </button>
+        ))}
+      </div>
+
+      {/* Emails */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center space-y-4">
+            <Loader2 className="w-12 h-12 animate-spin text-indigo-600 mx-auto" />
+            <p className="text-gray-600">Loading emails...</p>
+          </div>
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-6">
+          <div className="flex items-center gap-3">
+            <AlertCircle className="w-6 h-6 text-red-600" />
+            <div>
+              <h3 className="text-lg font-semibold text-red-900">Error Loading Emails</h3>
+              <p className="text-red-700">{error}</p>
+            </div>
+          </div>
+        </div>
+      ) : emails.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm p-12 text-center">
+          <Mail className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">No Emails</h3>
+          <p className="text-gray-600">
+            {statusFilter !== 'all'
+              ? `There are no ${statusFilter} emails.`
+              : 'Order and account emails will show up here once they are queued.'}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm divide-y divide-gray-100">
+          {emails.map(email => (
+            <div key={email.id} className="p-4">
+              <div className="flex flex-wrap items-center gap-3">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getEmailStatusClasses(email.status)}`}>
+                  {email.status}
+                </span>
+                <span className="font-medium text-gray-900">{email.subject}</span>
+                <span className="text-sm text-gray-500">{EMAIL_TEMPLATE_LABELS[email.template]}</span>
+                <span className="text-sm text-gray-500 ml-auto">{formatDate(email.createdAt)}</span>
+                <button
+                  onClick={() => handleToggle(email.id)}
+                  className="text-gray-500 hover:text-gray-700"
+                  aria-label="Toggle preview"
+                >
+                  {expandedId === email.id ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
+                </button>
+              </div>
+
+              <div className="mt-1 text-sm text-gray-600 flex flex-wrap gap-x-4">
+                <span>To {email.recipient}</span>
+                {email.orderNumber && <span>Order #{email.orderNumber}</span>}
+                <span>{email.attempts} attempt{email.attempts === 1 ? '' : 's'}</span>
+                {email.sentAt && <span>Sent {formatDate(email.sentAt)} via {email.transport}</span>}
+                {email.resentFromId && <span className="text-gray-900">Resend</span>}
+              </div>
+
+              {email.lastError && (
+                <p className="mt-1 text-sm text-red-600">
+                  {email.lastError}
+                  {email.nextAttemptAt ? ` - next attempt ${formatDate(email.nextAttemptAt)}` : email.status === 'failed' ? ' - no more automatic attempts' : ''}
+                </p>
+              )}
+
+              {expandedId === email.id && (
+                <div className="mt-3">
+                  {isLoadingPreview || preview?.id !== email.id ? (
+                    <div className="flex items-center gap-2 text-sm text-gray-500">
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      Loading preview...
+                    </div>
+                  ) : (
+                    <>
+                      <div className="flex gap-2 mb-2">
+                        {(['html', 'text'] as const).map(format => (
+                          <button
+                            key={format}
+                            onClick={() => setPreviewFormat(format)}
+                            className={`px-3 py-1 rounded-lg text-xs font-medium uppercase transition-colors ${
+                              previewFormat === format ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                            }`}
+                          >
+                            {format}
+                          </button>
+                        ))}
+                      </div>
+                      {previewFormat === 'html' ? (
+                        // Sandboxed so nothing in the email can run or reach the admin page
+                        <iframe
+                          title={`Preview of ${email.subject}`}
+                          srcDoc={preview.htmlBody}
+                          sandbox=""
+                          className="w-full h-96 border border-gray-200 rounded-lg bg-white"
+                        />
+                      ) : (
+                        <pre className="p-3 bg-gray-50 rounded-lg text-xs text-gray-800 whitespace-pre-wrap">
+                          {preview.textBody}
+                        </pre>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+
+              {canResend(email) && email.status !== 'pending' && (
+                <div className="mt-3 flex justify-end">
+                  <button
+                    onClick={() => handleResend(email.id)}
+                    disabled={resendingId === email.id}
+                    className="px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100 disabled:opacity-50 flex items-center gap-2"
+                  >
+                    {resendingId === email.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                    Resend
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminEmailsPage;
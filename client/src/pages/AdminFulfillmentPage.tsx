@@ -0,0 +1,140 @@
+import React, { useState, useEffect } from 'react';
+import { PackageCheck, Loader2, AlertCircle, RefreshCw, ChevronDown, ChevronUp } from 'lucide-react';
+import { api } from '../config/api';
+import { OrderStatus, formatDate } from '../types/admin';
+import { FulfillmentQueueEntry } from '../types/shipments';
+import OrderStatusBadge from '../components/admin/OrderStatusBadge';
+import OrderShipments from '../components/admin/OrderShipments';
+
+// Orders with units still to ship - staff record shipments straight from the queue
+const AdminFulfillmentPage: React.FC = () => {
+  const [queue, setQueue] = useState<FulfillmentQueueEntry[]>([]);
+  const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchQueue();
+  }, []);
+
+  const fetchQueue = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await api.get('api/admin/fulfillment');
+      const data = await response.json();
+
+      if (data.success) {
+        setQueue(data.data);
+      } else {
+        setError(data.message || 'Failed to fetch fulfillment queue');
+      }
+    } catch (error) {
+      console.error('Error fetching fulfillment queue:', error);
+      setError('Network error. Please check your connection.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const totalUnits = queue.reduce((sum, entry) => sum + entry.unshippedUnits, 0);
+
+  return (
+    <div>
+      {/* Action Bar */}
+      <div className="flex items-center justify-between mb-6">
+        <p className="text-gray-600">
+          {queue.length} {queue.length === 1 ? 'order' : 'orders'} · {totalUnits} {totalUnits === 1 ? 'unit' : 'units'} to ship
+        </p>
+        <button
+          onClick={fetchQueue}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-3 rounded-lg font-medium flex items-center gap-2 transition-colors"
+        >
+          <RefreshCw className="w-5 h-5" />
+          Refresh
+        </button>
+      </div>
+
+      {/* Queue */}
+      <div className="space-y-6">
+        {isLoading && queue.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="text-center space-y-4">
+              <Loader2 className="w-12 h-12 animate-spin text-indigo-600 mx-auto" />
+              <p className="text-gray-600">Loading fulfillment queue...</p>
+            </div>
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-6">
+            <div className="flex items-center gap-3">
+              <AlertCircle className="w-6 h-6 text-red-600" />
+              <div>
+                <h3 className="text-lg font-semibold text-red-900">Error Loading Fulfillment Queue</h3>
+                <p className="text-red-700">{error}</p>
+              </div>
+            </div>
+          </div>
+        ) : queue.length === 0 ? (
+          <div className="bg-white rounded-xl shadow-sm p-12 text-center">
+            <PackageCheck className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">Everything Has Shipped</h3>
+            <p className="text-gray-600">Orders appear here once they are processing and until their last unit ships.</p>
+          </div>
+        ) : (
+          queue.map(entry => (
+            <div key={entry.orderId} className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              <div className="p-6">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900">Order #{entry.orderNumber}</h3>
+                    <p className="text-sm text-gray-600">
+                      {entry.customerName || entry.customerEmail} · placed {formatDate(entry.createdAt)}
+                      {entry.shipmentCount > 0 && ` · ${entry.shipmentCount} ${entry.shipmentCount === 1 ? 'shipment' : 'shipments'} so far`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <OrderStatusBadge status={entry.orderStatus as OrderStatus} />
+                    <button
+                      onClick={() => setExpandedOrderId(expandedOrderId === entry.orderId ? null : entry.orderId)}
+                      className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+                    >
+                      {expandedOrderId === entry.orderId ? (
+                        <ChevronUp className="w-5 h-5" />
+                      ) : (
+                        <ChevronDown className="w-5 h-5" />
+                      )}
+                    </button>
+                  </div>
+                </div>
+
+                <ul className="mt-4 divide-y divide-gray-100 text-sm">
+                  {entry.items.map(item => (
+                    <li key={item.orderItemId} className="py-2 flex items-center justify-between">
+                      <span className="text-gray-900">{item.name}</span>
+                      <span className="text-gray-600">
+                        {item.unshippedQuantity} of {item.quantity} to ship
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {expandedOrderId === entry.orderId && (
+                <div className="border-t border-gray-200 p-6 bg-gray-50">
+                  <OrderShipments
+                    orderId={entry.orderId}
+                    orderStatus={entry.orderStatus as OrderStatus}
+                    onShipmentsChanged={fetchQueue}
+                  />
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminFulfillmentPage;
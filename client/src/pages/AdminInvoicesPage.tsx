@@ -0,0 +1,226 @@
+import React, { useState, useEffect } from 'react';
+import { FileText, Loader2, AlertCircle, Download, RefreshCw } from 'lucide-react';
+import { api } from '../config/api';
+import { formatCurrency, formatDate } from '../types/admin';
+import {
+  BillingDocument,
+  BillingDocumentType,
+  BILLING_DOCUMENT_TYPES,
+  BILLING_DOCUMENT_TYPE_LABELS
+} from '../types/billing';
+import { saveResponseAsFile } from '../utils/downloadFile';
+
+interface DocumentFilters {
+  type: BillingDocumentType | 'all';
+  from: string;
+  to: string;
+}
+
+// First day of the current month, as YYYY-MM-DD
+const startOfMonth = (): string => {
+  const today = new Date();
+  return new Date(Date.UTC(today.getFullYear(), today.getMonth(), 1)).toISOString().substring(0, 10);
+};
+
+const buildDocumentQuery = (filters: DocumentFilters): string => {
+  const params = new URLSearchParams({ type: filters.type });
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  return params.toString();
+};
+
+// Issued invoices and credit notes, with single and bulk PDF downloads for the accountant
+const AdminInvoicesPage: React.FC = () => {
+  const [documents, setDocuments] = useState<BillingDocument[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [filters, setFilters] = useState<DocumentFilters>({ type: 'all', from: startOfMonth(), to: '' });
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchDocuments(filters);
+  }, [filters]);
+
+  const fetchDocuments = async (current: DocumentFilters) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await api.get(`api/admin/documents?${buildDocumentQuery(current)}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setDocuments(data.data.documents);
+        setHasMore(data.data.hasMore);
+      } else {
+        setError(data.message || 'Failed to fetch documents');
+      }
+    } catch (error) {
+      console.error('Error fetching documents:', error);
+      setError('Network error. Please check your connection.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // id of a single document, or 'bulk' for everything matching the filters
+  const handleDownload = async (target: BillingDocument | 'bulk') => {
+    try {
+      setDownloadingId(target === 'bulk' ? 'bulk' : target.id);
+
+      const response = target === 'bulk'
+        ? await api.get(`api/admin/documents/bulk?${buildDocumentQuery(filters)}`)
+        : await api.get(`api/admin/documents/${target.id}/pdf`);
+      const kind = filters.type === 'all' ? 'documents' : filters.type === 'invoice' ? 'invoices' : 'credit-notes';
+      const filename = target === 'bulk'
+        ? `${[kind, filters.from, filters.to].filter(Boolean).join('_')}.pdf`
+        : `${target.number}.pdf`;
+
+      const failure = await saveResponseAsFile(response, filename);
+      if (failure) {
+        alert(failure);
+      }
+    } catch (error) {
+      console.error('Error downloading documents:', error);
+      alert('Network error. Please try again.');
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  return (
+    <div>
+      {/* Action Bar */}
+      <div className="flex justify-end gap-3 mb-6">
+        <button
+          onClick={() => fetchDocuments(filters)}
+          className="bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 px-6 py-3 rounded-lg font-medium flex items-center gap-2 transition-colors"
+        >
+          <RefreshCw className="w-5 h-5" />
+          Refresh
+        </button>
+        <button
+          onClick={() => handleDownload('bulk')}
+          disabled={documents.length === 0 || hasMore || downloadingId === 'bulk'}
+          title={hasMore ? 'Too many documents for one download - narrow the date range' : undefined}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-3 rounded-lg font-medium flex items-center gap-2 transition-colors disabled:opacity-50"
+        >
+          {downloadingId === 'bulk' ? <Loader2 className="w-5 h-5 animate-spin" /> : <Download className="w-5 h-5" />}
+          Download All as PDF
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-xl shadow-sm p-4 mb-8 flex flex-wrap items-end gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+          <select
+            value={filters.type}
+            onChange={(e) => setFilters(prev => ({ ...prev, type: e.target.value as DocumentFilters['type'] }))}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          >
+            <option value="all">Invoices and credit notes</option>
+            {BILLING_DOCUMENT_TYPES.map(type => (
+              <option key={type} value={type}>{BILLING_DOCUMENT_TYPE_LABELS[type]}s</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Issued from</label>
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilters(prev => ({ ...prev, from: e.target.value }))}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Issued to</label>
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilters(prev => ({ ...prev, to: e.target.value }))}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      {/* Documents */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center space-y-4">
+            <Loader2 className="w-12 h-12 animate-spin text-indigo-600 mx-auto" />
+            <p className="text-gray-600">Loading documents...</p>
+          </div>
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-6">
+          <div className="flex items-center gap-3">
+            <AlertCircle className="w-6 h-6 text-red-600" />
+            <div>
+              <h3 className="text-lg font-semibold text-red-900">Error Loading Documents</h3>
+              <p className="text-red-700">{error}</p>
+            </div>
+          </div>
+        </div>
+      ) : documents.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm p-12 text-center">
+          <FileText className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">No Documents</h3>
+          <p className="text-gray-600">
+            Invoices are issued when an order is paid, credit notes when a refund goes through.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+          {hasMore && (
+            <div className="px-6 py-3 bg-yellow-50 border-b border-yellow-200 text-sm text-yellow-800">
+              Only the first {documents.length} documents are shown. Narrow the date range to see or download the rest.
+            </div>
+          )}
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Number</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Issued</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {documents.map(billingDocument => (
+                <tr key={billingDocument.id}>
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900">{billingDocument.number}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{BILLING_DOCUMENT_TYPE_LABELS[billingDocument.documentType]}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">#{billingDocument.orderNumber}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{formatDate(billingDocument.issuedAt)}</td>
+                  <td className="px-6 py-4 text-sm text-gray-900 text-right">
+                    {billingDocument.documentType === 'credit_note' && '-'}
+                    {formatCurrency(billingDocument.total, billingDocument.currency)}
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    <button
+                      onClick={() => handleDownload(billingDocument)}
+                      disabled={downloadingId === billingDocument.id}
+                      className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors disabled:opacity-50"
+                      title="Download PDF"
+                    >
+                      {downloadingId === billingDocument.id
+                        ? <Loader2 className="w-4 h-4 animate-spin" />
+                        : <Download className="w-4 h-4" />}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminInvoicesPage;
@@ -6,7 +6,9 @@ import {
   TrendingUp,
   Loader2,
   AlertCircle,
-  RefreshCw
+  RefreshCw,
+  Bell,
+  X
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import {
@@ -14,7 +16,9 @@ import {
   OrderStatus,
   OrderStats,
   AdminOrdersPageState,
-  formatCurrency
+  AdminNotification,
+  formatCurrency,
+  formatDate
 } from '../types/admin';
 import OrderCard from '../components/admin/OrderCard';
 import OrderFilters from '../components/admin/OrderFilters';
@@ -38,6 +42,7 @@ const AdminOrdersPage: React.FC = () => {
     },
     pagination: null
   });
+  const [notifications, setNotifications] = useState<AdminNotification[]>([]);
 
   // Fetch orders
   const fetchOrders = async () => {
@@ -102,10 +107,38 @@ const AdminOrdersPage: React.FC = () => {
     }
   };
 
+  // Fetch undismissed notifications such as customer cancellations
+  const fetchNotifications = async () => {
+    try {
+      const response = await api.get('api/admin/notifications');
+      const data = await response.json();
+
+      if (data.success) {
+        setNotifications(data.data);
+      }
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    }
+  };
+
+  // Dismiss one notification, or all of them when no id is given
+  const handleDismissNotifications = async (notificationId?: string) => {
+    try {
+      const response = await api.put('api/admin/notifications/read', notificationId ? { ids: [notificationId] } : {});
+      const data = await response.json();
+
+      if (data.success) {
+        setNotifications(prev => notificationId ? prev.filter(n => n.id !== notificationId) : []);
+      }
+    } catch (error) {
+      console.error('Error dismissing notifications:', error);
+    }
+  };
+
   // Update order status
-  const handleStatusUpdate = async (orderId: string, newStatus: OrderStatus) => {
+  const handleStatusUpdate = async (orderId: string, newStatus: OrderStatus, reason?: string) => {
     try {
-      const response = await api.put(`api/admin/orders/${orderId}/status`, { status: newStatus });
+      const response = await api.put(`api/admin/orders/${orderId}/status`, { status: newStatus, reason });
       const data = await response.json();
 
       if (data.success) {
@@ -113,7 +146,9 @@ const AdminOrdersPage: React.FC = () => {
         setState(prev => ({
           ...prev,
           orders: prev.orders.map(order =>
-            order.id === orderId ? { ...order, status: newStatus } : order
+            order.id === orderId
+              ? { ...order, status: data.data.status, allowedTransitions: data.data.allowedTransitions }
+              : order
           )
         }));
 
@@ -147,6 +182,7 @@ const AdminOrdersPage: React.FC = () => {
 
   useEffect(() => {
     fetchOrderStats();
+    fetchNotifications();
   }, []);
 
   // Stats cards data
@@ -158,7 +194,7 @@ const AdminOrdersPage: React.FC = () => {
       color: 'indigo' as const
     },
     {
-      title: 'Total Revenue',
+      title: 'Net Revenue',
       value: formatCurrency(state.orderStats?.totalRevenue || 0),
       icon: DollarSign,
       color: 'green' as const
@@ -195,6 +231,7 @@ const AdminOrdersPage: React.FC = () => {
           onClick={() => {
             fetchOrders();
             fetchOrderStats();
+            fetchNotifications();
           }}
           className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-3 rounded-lg font-medium flex items-center gap-2 transition-colors"
         >
@@ -202,6 +239,41 @@ const AdminOrdersPage: React.FC = () => {
           Refresh
         </button>
       </div>
+        {/* Notifications */}
+        {notifications.length > 0 && (
+          <div className="bg-orange-50 border border-orange-200 rounded-xl p-6 mb-8">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-semibold text-orange-900 flex items-center gap-2">
+                <Bell className="w-4 h-4" />
+                {notifications.length} new notification{notifications.length !== 1 ? 's' : ''}
+              </h3>
+              <button
+                onClick={() => handleDismissNotifications()}
+                className="text-sm font-medium text-orange-700 hover:text-orange-900"
+              >
+                Dismiss all
+              </button>
+            </div>
+            <ul className="space-y-2">
+              {notifications.map(notification => (
+                <li key={notification.id} className="flex items-start justify-between gap-4 text-sm text-orange-900">
+                  <span>
+                    {notification.message}
+                    <span className="block text-xs text-orange-700">{formatDate(notification.createdAt)}</span>
+                  </span>
+                  <button
+                    onClick={() => handleDismissNotifications(notification.id)}
+                    className="p-1 text-orange-500 hover:text-orange-700"
+                    title="Dismiss"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           {statsCards.map((stat, index) => (
@@ -272,6 +344,14 @@ const AdminOrdersPage: React.FC = () => {
                   key={order.id}
                   order={order}
                   onStatusUpdate={handleStatusUpdate}
+                  onRefundIssued={() => {
+                    fetchOrders();
+                    fetchOrderStats();
+                  }}
+                  onShipmentsChanged={() => {
+                    fetchOrders();
+                    fetchOrderStats();
+                  }}
                 />
               ))}
 
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Plus, Edit, Trash2, Search, Filter, Eye, Package, DollarSign, Users, ShoppingCart, Loader2, AlertCircle } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../hooks/useCurrency';
 import {
   Product,
   Category,
@@ -16,9 +17,13 @@ import {
   getStockStatusClasses
 } from '../types/admin';
 import { api } from '../config/api';
+import ProductShippingFields from '../components/admin/ProductShippingFields';
 
 const AdminPage: React.FC = () => {
   const { user } = useAuth();
+  // Catalog prices are entered in the store's base currency
+  const { currencies } = useCurrency();
+  const baseCurrencyCode = currencies.find(c => c.isBase)?.code;
 
   // State management
   const [state, setState] = useState<AdminPageState>({
@@ -53,7 +58,11 @@ const AdminPage: React.FC = () => {
     price: 0,
     stock: 0,
     category_id: '',
-    image_url: ''
+    image_url: '',
+    weight_kg: 0,
+    length_cm: null,
+    width_cm: null,
+    height_cm: null
   });
   const [formErrors, setFormErrors] = useState<{ [key: string]: string }>({});
 
@@ -71,7 +80,11 @@ const AdminPage: React.FC = () => {
     price: 0,
     stock: 0,
     category_id: '',
-    image_url: ''
+    image_url: '',
+    weight_kg: 0,
+    length_cm: null,
+    width_cm: null,
+    height_cm: null
   });
   const [editFormErrors, setEditFormErrors] = useState<{ [key: string]: string }>({});
 
@@ -223,6 +236,17 @@ const AdminPage: React.FC = () => {
       errors.description = 'Description must be 500 characters or less';
     }
 
+    // Validate shipping details
+    if ((formData.weight_kg || 0) < 0) {
+      errors.weight_kg = 'Weight cannot be negative';
+    }
+    (['length_cm', 'width_cm', 'height_cm'] as const).forEach(field => {
+      const value = formData[field];
+      if (value !== null && value !== undefined && value <= 0) {
+        errors[field] = 'Dimensions must be positive numbers';
+      }
+    });
+
     setFormErrors(errors);
     return Object.keys(errors).length === 0;
   };
@@ -258,6 +282,17 @@ const AdminPage: React.FC = () => {
       errors.description = 'Description must be 500 characters or less';
     }
 
+    // Validate shipping details
+    if ((editFormData.weight_kg || 0) < 0) {
+      errors.weight_kg = 'Weight cannot be negative';
+    }
+    (['length_cm', 'width_cm', 'height_cm'] as const).forEach(field => {
+      const value = editFormData[field];
+      if (value !== null && value !== undefined && value <= 0) {
+        errors[field] = 'Dimensions must be positive numbers';
+      }
+    });
+
     setEditFormErrors(errors);
     return Object.keys(errors).length === 0;
   };
@@ -378,7 +413,11 @@ const AdminPage: React.FC = () => {
       price: 0,
       stock: 0,
       category_id: '',
-      image_url: ''
+      image_url: '',
+      weight_kg: 0,
+      length_cm: null,
+      width_cm: null,
+      height_cm: null
     });
     setFormErrors({});
     setCreateMessage(null);
@@ -395,7 +434,11 @@ const AdminPage: React.FC = () => {
       price: 0,
       stock: 0,
       category_id: '',
-      image_url: ''
+      image_url: '',
+      weight_kg: 0,
+      length_cm: null,
+      width_cm: null,
+      height_cm: null
     });
     setEditFormErrors({});
     setUpdateMessage(null);
@@ -674,7 +717,11 @@ const AdminPage: React.FC = () => {
       price: product.price,
       stock: product.stock,
       category_id: product.category_id || '',
-      image_url: product.image_url || ''
+      image_url: product.image_url || '',
+      weight_kg: product.weight_kg || 0,
+      length_cm: product.length_cm ?? null,
+      width_cm: product.width_cm ?? null,
+      height_cm: product.height_cm ?? null
     });
 
     // Set image preview if product has an image
@@ -711,7 +758,7 @@ const AdminPage: React.FC = () => {
   };
 
   // Form input handlers
-  const handleInputChange = (field: keyof CreateProductRequest, value: string | number) => {
+  const handleInputChange = (field: keyof CreateProductRequest, value: string | number | null) => {
     setFormData(prev => ({
       ...prev,
       [field]: value
@@ -727,7 +774,7 @@ const AdminPage: React.FC = () => {
   };
 
   // Edit form input handlers
-  const handleEditInputChange = (field: keyof UpdateProductRequest, value: string | number) => {
+  const handleEditInputChange = (field: keyof UpdateProductRequest, value: string | number | null) => {
     setEditFormData(prev => ({
       ...prev,
       [field]: value
@@ -1146,7 +1193,7 @@ const AdminPage: React.FC = () => {
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Price ($) *
+                      Price ({baseCurrencyCode || 'base currency'}) *
                     </label>
                     <input
                       type="number"
@@ -1183,6 +1230,11 @@ const AdminPage: React.FC = () => {
                     )}
                   </div>
                 </div>
+                <ProductShippingFields
+                  values={formData}
+                  errors={formErrors}
+                  onChange={handleInputChange}
+                />
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Description
@@ -1368,7 +1420,7 @@ const AdminPage: React.FC = () => {
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Price ($) *
+                      Price ({baseCurrencyCode || 'base currency'}) *
                     </label>
                     <input
                       type="number"
@@ -1404,6 +1456,11 @@ const AdminPage: React.FC = () => {
                     )}
                   </div>
                 </div>
+                <ProductShippingFields
+                  values={editFormData}
+                  errors={editFormErrors}
+                  onChange={handleEditInputChange}
+                />
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Description
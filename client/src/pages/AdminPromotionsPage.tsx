@@ -0,0 +1,633 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Plus,
+  Tag,
+  Loader2,
+  AlertCircle,
+  RefreshCw,
+  Save,
+  X,
+  Edit,
+  Users,
+  ChevronDown,
+  ChevronUp
+} from 'lucide-react';
+import { api } from '../config/api';
+import { Category, Product, formatCurrency, formatDate } from '../types/admin';
+import {
+  Promotion,
+  PromotionRequest,
+  PromotionRedemption,
+  DiscountType,
+  DISCOUNT_TYPE_LABELS,
+  describeDiscount
+} from '../types/promotions';
+
+// Form values - numbers and dates are kept as input strings while editing
+interface PromotionFormData {
+  code: string;
+  description: string;
+  discountType: DiscountType;
+  discountValue: string;
+  minSubtotal: string;
+  startsAt: string;
+  endsAt: string;
+  usageLimit: string;
+  perCustomerLimit: string;
+  categoryIds: string[];
+  productIds: string[];
+  isActive: boolean;
+}
+
+const emptyForm: PromotionFormData = {
+  code: '',
+  description: '',
+  discountType: 'percentage',
+  discountValue: '',
+  minSubtotal: '',
+  startsAt: '',
+  endsAt: '',
+  usageLimit: '',
+  perCustomerLimit: '',
+  categoryIds: [],
+  productIds: [],
+  isActive: true
+};
+
+// ISO timestamp to the value of a datetime-local input
+const toLocalInput = (value: string | null): string => {
+  if (!value) return '';
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const toFormData = (promotion: Promotion): PromotionFormData => ({
+  code: promotion.code,
+  description: promotion.description || '',
+  discountType: promotion.discountType,
+  discountValue: promotion.discountType === 'free_shipping' ? '' : promotion.discountValue.toString(),
+  minSubtotal: promotion.minSubtotal > 0 ? promotion.minSubtotal.toString() : '',
+  startsAt: toLocalInput(promotion.startsAt),
+  endsAt: toLocalInput(promotion.endsAt),
+  usageLimit: promotion.usageLimit?.toString() || '',
+  perCustomerLimit: promotion.perCustomerLimit?.toString() || '',
+  categoryIds: promotion.categoryIds,
+  productIds: promotion.productIds,
+  isActive: promotion.isActive
+});
+
+const toRequest = (form: PromotionFormData): PromotionRequest => ({
+  code: form.code.trim().toUpperCase(),
+  description: form.description.trim() || null,
+  discountType: form.discountType,
+  discountValue: form.discountType === 'free_shipping' ? 0 : parseFloat(form.discountValue),
+  minSubtotal: form.minSubtotal ? parseFloat(form.minSubtotal) : 0,
+  startsAt: form.startsAt ? new Date(form.startsAt).toISOString() : null,
+  endsAt: form.endsAt ? new Date(form.endsAt).toISOString() : null,
+  usageLimit: form.usageLimit ? parseInt(form.usageLimit, 10) : null,
+  perCustomerLimit: form.perCustomerLimit ? parseInt(form.perCustomerLimit, 10) : null,
+  categoryIds: form.categoryIds,
+  productIds: form.productIds,
+  isActive: form.isActive
+});
+
+// Where a promotion stands right now
+const getPromotionState = (promotion: Promotion): { label: string; className: string } => {
+  const now = new Date();
+  if (!promotion.isActive) return { label: 'Inactive', className: 'bg-gray-100 text-gray-600' };
+  if (promotion.startsAt && new Date(promotion.startsAt) > now) return { label: 'Scheduled', className: 'bg-blue-100 text-blue-800' };
+  if (promotion.endsAt && new Date(promotion.endsAt) < now) return { label: 'Expired', className: 'bg-gray-100 text-gray-600' };
+  if (promotion.usageLimit !== null && promotion.timesUsed >= promotion.usageLimit) return { label: 'Used up', className: 'bg-yellow-100 text-yellow-800' };
+  return { label: 'Active', className: 'bg-green-100 text-green-800' };
+};
+
+const AdminPromotionsPage: React.FC = () => {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // null = form closed, 'new' = creating, otherwise the promotion being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<PromotionFormData>(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Redemptions of the expanded promotion
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [redemptions, setRedemptions] = useState<PromotionRedemption[]>([]);
+  const [isLoadingRedemptions, setIsLoadingRedemptions] = useState(false);
+
+  // Fetch promotions
+  const fetchPromotions = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await api.get('api/admin/promotions');
+      const data = await response.json();
+
+      if (data.success) {
+        setPromotions(data.data);
+      } else {
+        setError(data.message || 'Failed to fetch promotions');
+      }
+    } catch (error) {
+      console.error('Error fetching promotions:', error);
+      setError('Network error. Please check your connection.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Fetch categories and products for the restriction pickers
+  const fetchCatalog = async () => {
+    try {
+      const [categoriesResponse, productsResponse] = await Promise.all([
+        api.get('api/admin/categories'),
+        api.get('api/admin/products?limit=100&sortBy=name&sortOrder=asc')
+      ]);
+      const categoriesData = await categoriesResponse.json();
+      const productsData = await productsResponse.json();
+
+      if (categoriesData.success) setCategories(categoriesData.data.categories);
+      if (productsData.success) setProducts(productsData.data.products);
+    } catch (error) {
+      console.error('Error fetching catalog:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchPromotions();
+    fetchCatalog();
+  }, []);
+
+  // Fetch the orders that used a promotion
+  const toggleRedemptions = async (promotionId: string) => {
+    if (expandedId === promotionId) {
+      setExpandedId(null);
+      return;
+    }
+
+    setExpandedId(promotionId);
+    setRedemptions([]);
+    setIsLoadingRedemptions(true);
+
+    try {
+      const response = await api.get(`api/admin/promotions/${promotionId}/redemptions`);
+      const data = await response.json();
+
+      if (data.success) {
+        setRedemptions(data.data);
+      }
+    } catch (error) {
+      console.error('Error fetching redemptions:', error);
+    } finally {
+      setIsLoadingRedemptions(false);
+    }
+  };
+
+  const openCreateForm = () => {
+    setEditingId('new');
+    setFormData(emptyForm);
+    setFormError(null);
+  };
+
+  const openEditForm = (promotion: Promotion) => {
+    setEditingId(promotion.id);
+    setFormData(toFormData(promotion));
+    setFormError(null);
+  };
+
+  const closeForm = () => {
+    setEditingId(null);
+    setFormError(null);
+  };
+
+  const toggleSelection = (field: 'categoryIds' | 'productIds', id: string) => {
+    setFormData(prev => ({
+      ...prev,
+      [field]: prev[field].includes(id)
+        ? prev[field].filter(existing => existing !== id)
+        : [...prev[field], id]
+    }));
+  };
+
+  // Create or update a promotion
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.code.trim()) {
+      setFormError('Code is required');
+      return;
+    }
+    if (formData.discountType !== 'free_shipping' && !(parseFloat(formData.discountValue) > 0)) {
+      setFormError('Discount value must be greater than zero');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setFormError(null);
+
+      const body = toRequest(formData);
+      const response = editingId === 'new'
+        ? await api.post('api/admin/promotions', body)
+        : await api.put(`api/admin/promotions/${editingId}`, body);
+      const data = await response.json();
+
+      if (data.success) {
+        closeForm();
+        fetchPromotions();
+      } else {
+        setFormError(data.message || 'Failed to save promotion');
+      }
+    } catch (error) {
+      console.error('Error saving promotion:', error);
+      setFormError('Network error. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Switch a promotion on or off
+  const handleToggleActive = async (promotion: Promotion) => {
+    try {
+      const response = await api.put(`api/admin/promotions/${promotion.id}`, {
+        ...toRequest(toFormData(promotion)),
+        isActive: !promotion.isActive
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setPromotions(prev => prev.map(p => p.id === promotion.id ? data.data : p));
+      } else {
+        setError(data.message || 'Failed to update promotion');
+      }
+    } catch (error) {
+      console.error('Error updating promotion:', error);
+      setError('Network error. Please try again.');
+    }
+  };
+
+  const describeRestrictions = (promotion: Promotion) => {
+    const parts: string[] = [];
+    if (promotion.categoryIds.length > 0) {
+      parts.push(promotion.categoryIds
+        .map(id => categories.find(c => c.id === id)?.name || 'Unknown category')
+        .join(', '));
+    }
+    if (promotion.productIds.length > 0) {
+      parts.push(`${promotion.productIds.length} product${promotion.productIds.length !== 1 ? 's' : ''}`);
+    }
+    return parts.length > 0 ? parts.join(' + ') : 'All items';
+  };
+
+  return (
+    <div>
+      {/* Action Bar */}
+      <div className="flex justify-end gap-3 mb-6">
+        <button
+          onClick={fetchPromotions}
+          className="bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 px-6 py-3 rounded-lg font-medium flex items-center gap-2 transition-colors"
+        >
+          <RefreshCw className="w-5 h-5" />
+          Refresh
+        </button>
+        <button
+          onClick={openCreateForm}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-3 rounded-lg font-medium flex items-center gap-2 transition-colors"
+        >
+          <Plus className="w-5 h-5" />
+          New Code
+        </button>
+      </div>
+
+      {/* Promotion Form */}
+      {editingId && (
+        <form onSubmit={handleSave} className="bg-white rounded-xl shadow-sm p-6 mb-8">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            {editingId === 'new' ? 'Create Promotion Code' : `Edit ${formData.code}`}
+          </h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Code *</label>
+              <input
+                type="text"
+                value={formData.code}
+                onChange={(e) => setFormData(prev => ({ ...prev, code: e.target.value.toUpperCase() }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg uppercase focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                placeholder="e.g. SUMMER15"
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input
+                type="text"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                placeholder="Shown to the customer when the code is applied"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Discount Type *</label>
+              <select
+                value={formData.discountType}
+                onChange={(e) => setFormData(prev => ({ ...prev, discountType: e.target.value as DiscountType }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              >
+                {(Object.keys(DISCOUNT_TYPE_LABELS) as DiscountType[]).map(type => (
+                  <option key={type} value={type}>{DISCOUNT_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {formData.discountType === 'percentage' ? 'Percent Off *' : 'Amount Off *'}
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.discountValue}
+                disabled={formData.discountType === 'free_shipping'}
+                onChange={(e) => setFormData(prev => ({ ...prev, discountValue: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent disabled:bg-gray-100"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Minimum Subtotal</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.minSubtotal}
+                onChange={(e) => setFormData(prev => ({ ...prev, minSubtotal: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                placeholder="No minimum"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Starts</label>
+              <input
+                type="datetime-local"
+                value={formData.startsAt}
+                onChange={(e) => setFormData(prev => ({ ...prev, startsAt: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Ends</label>
+              <input
+                type="datetime-local"
+                value={formData.endsAt}
+                onChange={(e) => setFormData(prev => ({ ...prev, endsAt: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Total Uses</label>
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={formData.usageLimit}
+                  onChange={(e) => setFormData(prev => ({ ...prev, usageLimit: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  placeholder="Unlimited"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Per Customer</label>
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={formData.perCustomerLimit}
+                  onChange={(e) => setFormData(prev => ({ ...prev, perCustomerLimit: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  placeholder="Unlimited"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Restrictions */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-1">Limit to Categories</p>
+              <div className="border border-gray-300 rounded-lg p-3 max-h-40 overflow-y-auto space-y-1">
+                {categories.map(category => (
+                  <label key={category.id} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.categoryIds.includes(category.id)}
+                      onChange={() => toggleSelection('categoryIds', category.id)}
+                      className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    {category.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-1">Limit to Products</p>
+              <div className="border border-gray-300 rounded-lg p-3 max-h-40 overflow-y-auto space-y-1">
+                {products.map(product => (
+                  <label key={product.id} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.productIds.includes(product.id)}
+                      onChange={() => toggleSelection('productIds', product.id)}
+                      className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    {product.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Leave both empty to apply the code to every item. Otherwise it applies to items in any selected category or product.
+          </p>
+
+          <label className="flex items-center gap-2 mt-4 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={formData.isActive}
+              onChange={(e) => setFormData(prev => ({ ...prev, isActive: e.target.checked }))}
+              className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            Active
+          </label>
+
+          {formError && (
+            <div className="mt-4 flex items-center gap-2 text-sm text-red-700">
+              <AlertCircle className="w-4 h-4" />
+              {formError}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 mt-4">
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center gap-2"
+            >
+              <X className="w-4 h-4" />
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-2"
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              {editingId === 'new' ? 'Create Code' : 'Save Changes'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Promotions List */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center space-y-4">
+            <Loader2 className="w-12 h-12 animate-spin text-indigo-600 mx-auto" />
+            <p className="text-gray-600">Loading promotions...</p>
+          </div>
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-6">
+          <div className="flex items-center gap-3">
+            <AlertCircle className="w-6 h-6 text-red-600" />
+            <div>
+              <h3 className="text-lg font-semibold text-red-900">Error Loading Promotions</h3>
+              <p className="text-red-700">{error}</p>
+            </div>
+          </div>
+        </div>
+      ) : promotions.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm p-12 text-center">
+          <Tag className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">No Promotion Codes</h3>
+          <p className="text-gray-600">Create a code to offer customers a discount at checkout.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {promotions.map(promotion => {
+            const state = getPromotionState(promotion);
+            return (
+              <div key={promotion.id} className="bg-white rounded-xl shadow-sm">
+                <div className="p-6 flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+                  <div>
+                    <div className="flex items-center gap-3">
+                      <h3 className="text-lg font-bold text-gray-900 font-mono">{promotion.code}</h3>
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${state.className}`}>
+                        {state.label}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1">
+                      {describeDiscount(promotion)}
+                      {promotion.minSubtotal > 0 && ` on orders over ${formatCurrency(promotion.minSubtotal)}`}
+                      {' · '}{describeRestrictions(promotion)}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {promotion.startsAt ? `From ${formatDate(promotion.startsAt)}` : 'No start date'}
+                      {' · '}
+                      {promotion.endsAt ? `until ${formatDate(promotion.endsAt)}` : 'no end date'}
+                      {promotion.perCustomerLimit !== null && ` · ${promotion.perCustomerLimit} per customer`}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center gap-6">
+                    <div className="text-right">
+                      <p className="text-sm text-gray-600">Used</p>
+                      <p className="text-lg font-semibold text-gray-900">
+                        {promotion.timesUsed}{promotion.usageLimit !== null && ` / ${promotion.usageLimit}`}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-sm text-gray-600">Discount Given</p>
+                      <p className="text-lg font-semibold text-gray-900">{formatCurrency(promotion.totalDiscount)}</p>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleToggleActive(promotion)}
+                        className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+                      >
+                        {promotion.isActive ? 'Deactivate' : 'Activate'}
+                      </button>
+                      <button
+                        onClick={() => openEditForm(promotion)}
+                        className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                        title="Edit code"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => toggleRedemptions(promotion.id)}
+                        className="px-3 py-2 text-sm font-medium text-indigo-600 hover:bg-indigo-50 rounded-lg flex items-center gap-1"
+                      >
+                        <Users className="w-4 h-4" />
+                        Redemptions
+                        {expandedId === promotion.id ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                      </button>
+                    </div>
+                  </div>
+                </div>
+
+                {/* Redemptions */}
+                {expandedId === promotion.id && (
+                  <div className="border-t border-gray-200 px-6 py-4">
+                    {isLoadingRedemptions ? (
+                      <div className="flex justify-center py-4">
+                        <Loader2 className="w-6 h-6 animate-spin text-indigo-600" />
+                      </div>
+                    ) : redemptions.length === 0 ? (
+                      <p className="text-sm text-gray-600 text-center py-4">This code has not been used yet.</p>
+                    ) : (
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            <th className="py-2">Order</th>
+                            <th className="py-2">Customer</th>
+                            <th className="py-2">Date</th>
+                            <th className="py-2">Status</th>
+                            <th className="py-2 text-right">Order Total</th>
+                            <th className="py-2 text-right">Discount</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {redemptions.map(redemption => (
+                            <tr key={redemption.id}>
+                              <td className="py-2 font-medium text-gray-900">#{redemption.orderNumber}</td>
+                              <td className="py-2 text-gray-600">
+                                {redemption.customerName}
+                                {redemption.customerEmail && <span className="block text-xs text-gray-500">{redemption.customerEmail}</span>}
+                              </td>
+                              <td className="py-2 text-gray-600">{formatDate(redemption.redeemedAt)}</td>
+                              <td className="py-2 text-gray-600 capitalize">{redemption.orderStatus}</td>
+                              <td className="py-2 text-right text-gray-900">{formatCurrency(redemption.orderTotal)}</td>
+                              <td className="py-2 text-right text-green-700">-{formatCurrency(redemption.discountAmount)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminPromotionsPage;
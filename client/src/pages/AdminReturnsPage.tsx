@@ -0,0 +1,166 @@
+import React, { useState, useEffect } from 'react';
+import { RotateCcw, Loader2, AlertCircle, RefreshCw } from 'lucide-react';
+import { api } from '../config/api';
+import ReturnCard from '../components/admin/ReturnCard';
+import {
+  ReturnRequest,
+  ReturnStatus,
+  ReturnDisposition,
+  RETURN_STATUSES,
+  RETURN_STATUS_LABELS
+} from '../types/returns';
+
+const AdminReturnsPage: React.FC = () => {
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [counts, setCounts] = useState<Partial<Record<ReturnStatus, number>>>({});
+  const [statusFilter, setStatusFilter] = useState<ReturnStatus | 'all'>('requested');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReturns = async (status: ReturnStatus | 'all') => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await api.get(`api/admin/returns?status=${status}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setReturns(data.data.returns);
+        setCounts(data.data.counts);
+      } else {
+        setError(data.message || 'Failed to fetch returns');
+      }
+    } catch (error) {
+      console.error('Error fetching returns:', error);
+      setError('Network error. Please check your connection.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReturns(statusFilter);
+  }, [statusFilter]);
+
+  const fetchCounts = async () => {
+    try {
+      const response = await api.get('api/admin/returns?status=all');
+      const data = await response.json();
+
+      if (data.success) {
+        setCounts(data.data.counts);
+      }
+    } catch (error) {
+      console.error('Error fetching return counts:', error);
+    }
+  };
+
+  // Every action returns the updated request; it is swapped in and the counts refreshed
+  const applyUpdate = async (response: Response) => {
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.message || 'Failed to update return');
+    }
+
+    setReturns(prev => prev.map(request => request.id === data.data.id ? data.data : request));
+    fetchCounts();
+  };
+
+  const handleDecide = async (returnId: string, status: 'approved' | 'rejected', note?: string) => {
+    await applyUpdate(await api.put(`api/admin/returns/${returnId}/status`, { status, note }));
+  };
+
+  const handleReceive = async (returnId: string, items: Array<{ returnItemId: string; disposition: ReturnDisposition }>) => {
+    await applyUpdate(await api.put(`api/admin/returns/${returnId}/receive`, { items }));
+  };
+
+  const handleRefund = async (returnId: string, amount: number) => {
+    await applyUpdate(await api.post(`api/admin/returns/${returnId}/refund`, { amount }));
+  };
+
+  const totalCount = Object.values(counts).reduce((sum, count) => sum + (count || 0), 0);
+
+  return (
+    <div>
+      {/* Action Bar */}
+      <div className="flex justify-end mb-6">
+        <button
+          onClick={() => fetchReturns(statusFilter)}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-3 rounded-lg font-medium flex items-center gap-2 transition-colors"
+        >
+          <RefreshCw className="w-5 h-5" />
+          Refresh
+        </button>
+      </div>
+
+      {/* Status Filter */}
+      <div className="bg-white rounded-xl shadow-sm p-4 mb-8 flex flex-wrap gap-2">
+        <button
+          onClick={() => setStatusFilter('all')}
+          className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+            statusFilter === 'all' ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+        >
+          All ({totalCount})
+        </button>
+        {RETURN_STATUSES.map(status => (
+          <button
+            key={status}
+            onClick={() => setStatusFilter(status)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              statusFilter === status ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {RETURN_STATUS_LABELS[status]} ({counts[status] || 0})
+          </button>
+        ))}
+      </div>
+
+      {/* Returns List */}
+      <div className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="text-center space-y-4">
+              <Loader2 className="w-12 h-12 animate-spin text-indigo-600 mx-auto" />
+              <p className="text-gray-600">Loading returns...</p>
+            </div>
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-6">
+            <div className="flex items-center gap-3">
+              <AlertCircle className="w-6 h-6 text-red-600" />
+              <div>
+                <h3 className="text-lg font-semibold text-red-900">Error Loading Returns</h3>
+                <p className="text-red-700">{error}</p>
+              </div>
+            </div>
+          </div>
+        ) : returns.length === 0 ? (
+          <div className="bg-white rounded-xl shadow-sm p-12 text-center">
+            <RotateCcw className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">No Returns Found</h3>
+            <p className="text-gray-600">
+              {statusFilter !== 'all'
+                ? `There are no ${RETURN_STATUS_LABELS[statusFilter].toLowerCase()} returns.`
+                : 'No returns have been requested yet.'}
+            </p>
+          </div>
+        ) : (
+          returns.map(request => (
+            <ReturnCard
+              key={request.id}
+              returnRequest={request}
+              onDecide={handleDecide}
+              onReceive={handleReceive}
+              onRefund={handleRefund}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminReturnsPage;
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Receipt, CalendarDays, Truck, Coins } from 'lucide-react';
+import TaxRulesManager from '../components/admin/TaxRulesManager';
+import HolidayCalendarManager from '../components/admin/HolidayCalendarManager';
+import ShippingZonesManager from '../components/admin/ShippingZonesManager';
+import ShippingRatesManager from '../components/admin/ShippingRatesManager';
+import CurrenciesManager from '../components/admin/CurrenciesManager';
+
+type SettingsTab = 'tax' | 'shipping' | 'holidays' | 'currencies';
+
+const settingsTabs = [
+  {
+    id: 'tax' as const,
+    name: 'Tax Rules',
+    icon: Receipt
+  },
+  {
+    id: 'shipping' as const,
+    name: 'Shipping',
+    icon: Truck
+  },
+  {
+    id: 'holidays' as const,
+    name: 'Holiday Calendar',
+    icon: CalendarDays
+  },
+  {
+    id: 'currencies' as const,
+    name: 'Currencies',
+    icon: Coins
+  }
+];
+
+const AdminSettingsPage: React.FC = () => {
+  const [currentTab, setCurrentTab] = useState<SettingsTab>('tax');
+  // Rates list zones, so they are reloaded whenever a zone changes
+  const [zonesVersion, setZonesVersion] = useState(0);
+
+  const renderCurrentTab = () => {
+    switch (currentTab) {
+      case 'tax':
+        return <TaxRulesManager />;
+      case 'shipping':
+        return (
+          <div className="space-y-6">
+            <ShippingZonesManager onZonesChanged={() => setZonesVersion(version => version + 1)} />
+            <ShippingRatesManager refreshKey={zonesVersion} />
+          </div>
+        );
+      case 'holidays':
+        return <HolidayCalendarManager />;
+      case 'currencies':
+        return <CurrenciesManager />;
+      default:
+        return <TaxRulesManager />;
+    }
+  };
+
+  return (
+    <div>
+      {/* Tabs */}
+      <div className="flex gap-2 mb-6 border-b border-gray-200">
+        {settingsTabs.map(tab => (
+          <button
+            key={tab.id}
+            onClick={() => setCurrentTab(tab.id)}
+            className={`flex items-center gap-2 px-4 py-3 text-sm font-medium border-b-2 -mb-px transition-colors ${
+              currentTab === tab.id
+                ? 'border-indigo-600 text-indigo-600'
+                : 'border-transparent text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            <tab.icon className="w-4 h-4" />
+            {tab.name}
+          </button>
+        ))}
+      </div>
+
+      {renderCurrentTab()}
+    </div>
+  );
+};
+
+export default AdminSettingsPage;
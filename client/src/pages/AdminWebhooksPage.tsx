@@ -0,0 +1,202 @@
+import React, { useState, useEffect } from 'react';
+import { Webhook, Loader2, AlertCircle, RefreshCw, ChevronDown, ChevronUp } from 'lucide-react';
+import { api } from '../config/api';
+import { PaymentWebhookEvent, WebhookEventStatus, WEBHOOK_EVENT_STATUSES, formatDate } from '../types/admin';
+
+const getWebhookStatusClasses = (status: WebhookEventStatus): string => {
+  switch (status) {
+    case 'processed':
+      return 'bg-green-100 text-green-800';
+    case 'pending':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'failed':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+// Recent payment webhook deliveries, for debugging provider integrations
+const AdminWebhooksPage: React.FC = () => {
+  const [events, setEvents] = useState<PaymentWebhookEvent[]>([]);
+  const [counts, setCounts] = useState<Partial<Record<WebhookEventStatus, number>>>({});
+  const [statusFilter, setStatusFilter] = useState<WebhookEventStatus | 'all'>('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchEvents(statusFilter);
+  }, [statusFilter]);
+
+  const fetchEvents = async (status: WebhookEventStatus | 'all') => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await api.get(`api/admin/payment-webhooks?status=${status}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setEvents(data.data.events);
+        setCounts(data.data.counts);
+      } else {
+        setError(data.message || 'Failed to fetch webhook events');
+      }
+    } catch (error) {
+      console.error('Error fetching webhook events:', error);
+      setError('Network error. Please check your connection.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRetry = async (eventId: string) => {
+    try {
+      setRetryingId(eventId);
+
+      const response = await api.post(`api/admin/payment-webhooks/${eventId}/retry`);
+      const data = await response.json();
+
+      if (data.data) {
+        setEvents(prev => prev.map(event => event.id === eventId ? data.data : event));
+      }
+      if (!data.success) {
+        alert(data.message || 'Failed to retry webhook event');
+      }
+    } catch (error) {
+      console.error('Error retrying webhook event:', error);
+      alert('Network error. Please try again.');
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  const totalCount = Object.values(counts).reduce((sum, count) => sum + (count || 0), 0);
+
+  return (
+    <div>
+      {/* Action Bar */}
+      <div className="flex justify-end mb-6">
+        <button
+          onClick={() => fetchEvents(statusFilter)}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-3 rounded-lg font-medium flex items-center gap-2 transition-colors"
+        >
+          <RefreshCw className="w-5 h-5" />
+          Refresh
+        </button>
+      </div>
+
+      {/* Status Filter */}
+      <div className="bg-white rounded-xl shadow-sm p-4 mb-8 flex flex-wrap gap-2">
+        <button
+          onClick={() => setStatusFilter('all')}
+          className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+            statusFilter === 'all' ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+        >
+          All ({totalCount})
+        </button>
+        {WEBHOOK_EVENT_STATUSES.map(status => (
+          <button
+            key={status}
+            onClick={() => setStatusFilter(status)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium capitalize transition-colors ${
+              statusFilter === status ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {status} ({counts[status] || 0})
+          </button>
+        ))}
+      </div>
+
+      {/* Deliveries */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center space-y-4">
+            <Loader2 className="w-12 h-12 animate-spin text-indigo-600 mx-auto" />
+            <p className="text-gray-600">Loading webhook events...</p>
+          </div>
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-6">
+          <div className="flex items-center gap-3">
+            <AlertCircle className="w-6 h-6 text-red-600" />
+            <div>
+              <h3 className="text-lg font-semibold text-red-900">Error Loading Webhook Events</h3>
+              <p className="text-red-700">{error}</p>
+            </div>
+          </div>
+        </div>
+      ) : events.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm p-12 text-center">
+          <Webhook className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">No Webhook Events</h3>
+          <p className="text-gray-600">
+            {statusFilter !== 'all'
+              ? `There are no ${statusFilter} webhook events.`
+              : 'No payment provider has sent a webhook yet.'}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm divide-y divide-gray-100">
+          {events.map(event => (
+            <div key={event.id} className="p-4">
+              <div className="flex flex-wrap items-center gap-3">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getWebhookStatusClasses(event.status)}`}>
+                  {event.status}
+                </span>
+                <span className="font-medium text-gray-900">{event.eventType}</span>
+                <span className="text-sm text-gray-500">{event.provider}</span>
+                <span className="text-sm text-gray-500 ml-auto">{formatDate(event.receivedAt)}</span>
+                <button
+                  onClick={() => setExpandedId(expandedId === event.id ? null : event.id)}
+                  className="text-gray-500 hover:text-gray-700"
+                  aria-label="Toggle details"
+                >
+                  {expandedId === event.id ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
+                </button>
+              </div>
+
+              <div className="mt-1 text-sm text-gray-600 flex flex-wrap gap-x-4">
+                <span>Event {event.eventId}</span>
+                {event.transactionId && <span>Transaction {event.transactionId}</span>}
+                <span>{event.attempts} attempt{event.attempts === 1 ? '' : 's'}</span>
+                {event.outcome && <span className="text-gray-900">{event.outcome}</span>}
+              </div>
+
+              {event.lastError && (
+                <p className="mt-1 text-sm text-red-600">
+                  {event.lastError}
+                  {event.nextRetryAt ? ` - next retry ${formatDate(event.nextRetryAt)}` : event.status === 'failed' ? ' - no more automatic retries' : ''}
+                </p>
+              )}
+
+              {expandedId === event.id && (
+                <pre className="mt-3 p-3 bg-gray-50 rounded-lg text-xs text-gray-800 overflow-x-auto">
+                  {JSON.stringify(event.payload, null, 2)}
+                </pre>
+              )}
+
+              {event.status !== 'processed' && (
+                <div className="mt-3 flex justify-end">
+                  <button
+                    onClick={() => handleRetry(event.id)}
+                    disabled={retryingId === event.id}
+                    className="px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100 disabled:opacity-50 flex items-center gap-2"
+                  >
+                    {retryingId === event.id && <Loader2 className="w-4 h-4 animate-spin" />}
+                    Retry Now
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminWebhooksPage;
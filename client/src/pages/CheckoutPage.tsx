@@ -1,34 +1,46 @@
-import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
 import {
   CreditCard,
   Truck,
   MapPin,
-  User,
-  Phone,
   Mail,
   ShoppingBag,
   AlertCircle,
   CheckCircle,
   Loader,
-  Banknote
+  Banknote,
+  Tag,
+  X
 } from 'lucide-react';
 import { useCart } from '../contexts/CartContext';
 import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../hooks/useCurrency';
 import { formatPrice } from '../utils/cartUtils';
 import { api } from '../config/api';
+import { OrderPricing, PriceBreakdownLine, PaymentAttempt, ORDER_ERROR_CODES, RestoredCheckout, CheckoutDraftRef } from '../types/checkout';
+import { OrderDetailsData } from '../types/orders';
+import { createCardToken, createPayPalToken } from '../utils/mockPaymentGateway';
+import PaymentChallengeModal from '../components/orders/PaymentChallengeModal';
+import { TaxQuote, formatTaxRate } from '../types/tax';
+import { DeliveryEstimate, formatDeliveryEstimate } from '../types/delivery';
+import {
+  AddressFormValues,
+  SavedAddress,
+  CountryAddressSchema,
+  EMPTY_ADDRESS,
+  toAddressFormValues,
+  findCountrySchema,
+  validateAddressFields,
+  addressErrorKey
+} from '../types/addresses';
+import SavedAddressPicker from '../components/addresses/SavedAddressPicker';
+import AddressFields from '../components/addresses/AddressFields';
+import { loadCheckoutDraftRef, saveCheckoutDraftRef } from '../utils/checkoutDraft';
 
 // Types for checkout
-interface ShippingAddress {
-  fullName: string;
-  phone: string;
+interface ShippingAddress extends AddressFormValues {
   email: string;
-  addressLine1: string;
-  addressLine2: string;
-  city: string;
-  state: string;
-  postalCode: string;
-  country: string;
 }
 
 interface DeliveryMethod {
@@ -37,6 +49,7 @@ interface DeliveryMethod {
   description: string;
   price: number;
   estimatedDays: string;
+  deliveryEstimate: DeliveryEstimate;
 }
 
 interface PaymentMethod {
@@ -49,23 +62,36 @@ interface PaymentMethod {
 
 const CheckoutPage: React.FC = () => {
   const navigate = useNavigate();
-  const { items, totalItems, totalPrice, clearCart } = useCart();
+  const location = useLocation();
+  // Set when arriving from a checkout recovery link
+  const restoredCheckout: RestoredCheckout | undefined = location.state?.restoredCheckout;
+  const { items, totalItems, totalPrice, clearCart, stockConflicts, applyStockConflicts, getStockConflict } = useCart();
   const { user, isAuthenticated } = useAuth();
+  const { currency, currencies, convertPrice } = useCurrency();
+  const currencyCode = currency?.code;
 
   // Form states
   const [shippingAddress, setShippingAddress] = useState<ShippingAddress>({
+    ...EMPTY_ADDRESS,
     fullName: user?.full_name || '',
-    phone: '',
     email: user?.email || '',
-    addressLine1: '',
-    addressLine2: '',
-    city: '',
-    state: '',
-    postalCode: '',
-    country: 'United States'
+    ...restoredCheckout?.form.shippingAddress,
+    ...(restoredCheckout && { email: restoredCheckout.email })
   });
 
-  const [selectedDeliveryMethod, setSelectedDeliveryMethod] = useState<string>('');
+  // Countries we ship to and how their addresses are written
+  const [addressFormats, setAddressFormats] = useState<CountryAddressSchema[]>([]);
+
+  // Address book - signed-in customers can pick a saved address or save the one they type
+  const [savedAddresses, setSavedAddresses] = useState<SavedAddress[]>([]);
+  const [shippingAddressId, setShippingAddressId] = useState<string | null>(null);
+  const [saveShippingAddress, setSaveShippingAddress] = useState(false);
+  const [billingSameAsShipping, setBillingSameAsShipping] = useState(restoredCheckout?.form.billingSameAsShipping ?? true);
+  const [billingAddress, setBillingAddress] = useState<AddressFormValues>({ ...EMPTY_ADDRESS, ...restoredCheckout?.form.billingAddress });
+  const [billingAddressId, setBillingAddressId] = useState<string | null>(null);
+  const [saveBillingAddress, setSaveBillingAddress] = useState(false);
+
+  const [selectedDeliveryMethod, setSelectedDeliveryMethod] = useState<string>(restoredCheckout?.form.deliveryMethodId || '');
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>({
     type: 'credit_card',
     cardNumber: '',
@@ -78,7 +104,102 @@ const CheckoutPage: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [deliveryMethods, setDeliveryMethods] = useState<DeliveryMethod[]>([]);
-  const [orderNotes, setOrderNotes] = useState('');
+  const [orderNotes, setOrderNotes] = useState(restoredCheckout?.form.orderNotes || '');
+  const [quote, setQuote] = useState<OrderPricing | null>(null);
+  const [isQuoting, setIsQuoting] = useState(false);
+  const [taxQuote, setTaxQuote] = useState<TaxQuote | null>(null);
+  const [couponInput, setCouponInput] = useState(restoredCheckout?.form.couponCode || '');
+  const [appliedCoupon, setAppliedCoupon] = useState<string | null>(restoredCheckout?.form.couponCode || null);
+  const [couponError, setCouponError] = useState<string | null>(null);
+
+  // One Idempotency-Key per order attempt so retries never create a second order
+  const idempotencyKeyRef = useRef<string | null>(null);
+  const isSubmittingRef = useRef(false);
+
+  // The saved checkout this browser is filling in - see the draft effect below
+  const checkoutDraftRef = useRef<CheckoutDraftRef | null>(loadCheckoutDraftRef());
+
+  // Order placed but not yet paid, e.g. after a declined card - payment is
+  // retried on it instead of placing a second order
+  const [pendingOrder, setPendingOrder] = useState<OrderDetailsData | null>(null);
+  const [challenge, setChallenge] = useState<{ paymentId: string; message: string } | null>(null);
+
+  // A changed cart needs a new order - the unpaid one expires on its own
+  useEffect(() => {
+    setPendingOrder(null);
+  }, [items]);
+
+  // Couriers only collect cash in the store's base currency
+  const isCashOnDeliveryAvailable = !currency || currency.isBase;
+  const baseCurrencyCode = currencies.find(c => c.isBase)?.code;
+
+  useEffect(() => {
+    if (!isCashOnDeliveryAvailable) {
+      setPaymentMethod(prev => prev.type === 'cash_on_delivery' ? { ...prev, type: 'credit_card' } : prev);
+    }
+  }, [isCashOnDeliveryAvailable]);
+
+  useEffect(() => {
+    const fetchAddressFormats = async () => {
+      try {
+        const response = await api.get('api/addresses/formats');
+        const result = await response.json();
+
+        if (result.success) {
+          setAddressFormats(result.data.countries);
+        }
+      } catch (error) {
+        // The form falls back to generic fields and the server still validates
+        console.error('Error fetching address formats:', error);
+      }
+    };
+
+    fetchAddressFormats();
+  }, []);
+
+  // Load the address book and start from the customer's default addresses
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+
+    const fetchSavedAddresses = async () => {
+      try {
+        const response = await api.get('api/addresses');
+        const result = await response.json();
+
+        if (!result.success) {
+          return;
+        }
+
+        const addresses: SavedAddress[] = result.data.addresses;
+        setSavedAddresses(addresses);
+
+        // A restored checkout keeps the addresses the customer had typed
+        if (restoredCheckout) {
+          return;
+        }
+
+        const defaultShipping = addresses.find(address => address.type === 'shipping' && address.isDefault);
+        if (defaultShipping) {
+          setShippingAddressId(defaultShipping.id);
+          setShippingAddress(prev => ({ ...prev, ...toAddressFormValues(defaultShipping) }));
+        }
+
+        const defaultBilling = addresses.find(address => address.type === 'billing' && address.isDefault);
+        if (defaultBilling && defaultBilling.id !== defaultShipping?.id) {
+          setBillingSameAsShipping(false);
+          setBillingAddressId(defaultBilling.id);
+          setBillingAddress(toAddressFormValues(defaultBilling));
+        }
+      } catch (error) {
+        // Checkout works without the address book
+        console.error('Error fetching saved addresses:', error);
+      }
+    };
+
+    fetchSavedAddresses();
+  }, [isAuthenticated, restoredCheckout]);
 
   // Redirect if cart is empty
   useEffect(() => {
@@ -87,67 +208,198 @@ const CheckoutPage: React.FC = () => {
     }
   }, [items.length, navigate]);
 
-  // Fetch delivery methods
-  useEffect(() => {
-    fetchDeliveryMethods();
-  }, []);
+  // Tax and shipping depend only on these parts of the address
+  const { country, state: region, postalCode } = shippingAddress;
+
+  // Fetch the delivery methods that ship this cart to the address, with their prices
+  const fetchDeliveryMethods = useCallback(async () => {
+    if (items.length === 0 || !country) return;
 
-  const fetchDeliveryMethods = async () => {
     try {
-      const response = await api.get('api/delivery-methods');
+      const params = new URLSearchParams({
+        country,
+        region,
+        items: items.map(item => `${item.productId}:${item.quantity}`).join(','),
+        ...(currencyCode && { currency: currencyCode })
+      });
+      const response = await api.get(`api/delivery-methods?${params.toString()}`);
       const data = await response.json();
-      
-      if (data.success) {
-        setDeliveryMethods(data.data);
-        // Set default delivery method
-        if (data.data.length > 0) {
-          setSelectedDeliveryMethod(data.data[0].id);
-        }
-      }
+
+      const methods: DeliveryMethod[] = data.success ? data.data : [];
+      setDeliveryMethods(methods);
+      // Keep the customer's choice while it still ships here, otherwise take the cheapest
+      setSelectedDeliveryMethod(prev => methods.some(method => method.id === prev) ? prev : (methods[0]?.id || ''));
     } catch (error) {
       console.error('Failed to fetch delivery methods:', error);
-      // Fallback delivery methods
-      setDeliveryMethods([
-        {
-          id: 'standard',
-          name: 'Standard Shipping',
-          description: 'Free standard shipping',
-          price: 0,
-          estimatedDays: '5-7 business days'
-        },
-        {
-          id: 'express',
-          name: 'Express Shipping', 
-          description: 'Fast delivery',
-          price: 9.99,
-          estimatedDays: '2-3 business days'
-        }
-      ]);
-      setSelectedDeliveryMethod('standard');
+      setDeliveryMethods([]);
+      setSelectedDeliveryMethod('');
     }
+  }, [items, country, region, currencyCode]);
+
+  // Per-customer coupon limits need the email, but only while a code is applied
+  const couponEmail = appliedCoupon ? shippingAddress.email : '';
+
+  // Fetch the authoritative totals from the server
+  const fetchQuote = useCallback(async () => {
+    if (!selectedDeliveryMethod || items.length === 0) return;
+
+    setIsQuoting(true);
+    try {
+      const response = await api.post('api/orders/quote', {
+        items: items.map(item => ({
+          productId: item.productId,
+          quantity: item.quantity
+        })),
+        deliveryMethodId: selectedDeliveryMethod,
+        paymentMethod: paymentMethod.type,
+        shippingAddress: { country, state: region, postalCode },
+        couponCode: appliedCoupon,
+        customerEmail: couponEmail || undefined,
+        currency: currencyCode
+      });
+      const result = await response.json();
+
+      setQuote(result.success ? result.data : null);
+
+      // Drop a code the server rejected and tell the customer why
+      if (result.success && result.data.coupon && !result.data.coupon.valid) {
+        setCouponError(result.data.coupon.message || 'This code is not valid');
+        setAppliedCoupon(null);
+      }
+    } catch (error) {
+      console.error('Failed to fetch order quote:', error);
+      setQuote(null);
+    } finally {
+      setIsQuoting(false);
+    }
+  }, [items, selectedDeliveryMethod, paymentMethod.type, country, region, postalCode, appliedCoupon, couponEmail, currencyCode]);
+
+  // Apply or remove a coupon code - the next quote validates it
+  const handleApplyCoupon = () => {
+    const code = couponInput.trim().toUpperCase();
+    if (!code) return;
+    setCouponError(null);
+    setAppliedCoupon(code);
+  };
+
+  const handleRemoveCoupon = () => {
+    setAppliedCoupon(null);
+    setCouponInput('');
+    setCouponError(null);
   };
 
-  // Calculate totals
+  // Fetch the tax for the estimate shown while no full quote is available
+  const fetchTaxQuote = useCallback(async () => {
+    if (items.length === 0 || !country) return;
+
+    try {
+      const response = await api.post('api/tax/quote', {
+        items: items.map(item => ({
+          productId: item.productId,
+          quantity: item.quantity
+        })),
+        destination: { country, region, postalCode }
+      });
+      const result = await response.json();
+
+      setTaxQuote(result.success ? result.data : null);
+    } catch (error) {
+      console.error('Failed to fetch tax quote:', error);
+      setTaxQuote(null);
+    }
+  }, [items, country, region, postalCode]);
+
+  // Wait for the customer to stop typing before re-quoting
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      fetchQuote();
+      fetchTaxQuote();
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [fetchQuote, fetchTaxQuote]);
+
+  useEffect(() => {
+    const timer = setTimeout(fetchDeliveryMethods, 400);
+    return () => clearTimeout(timer);
+  }, [fetchDeliveryMethods]);
+
+  // Save the checkout once there is an email to remind - an abandoned one is
+  // emailed a link that restores it. Nothing is saved while an unpaid order exists.
+  const draftEmail = shippingAddress.email.trim();
+  useEffect(() => {
+    if (items.length === 0 || pendingOrder || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(draftEmail)) return;
+
+    const saveDraft = async () => {
+      try {
+        const { email, ...draftShippingAddress } = shippingAddress;
+        const response = await api.post('api/checkout-drafts', {
+          ...checkoutDraftRef.current,
+          email: email.trim(),
+          items: items.map(item => ({
+            productId: item.productId,
+            quantity: item.quantity,
+            variants: item.variants
+          })),
+          form: {
+            shippingAddress: draftShippingAddress,
+            billingSameAsShipping,
+            billingAddress: billingSameAsShipping ? null : billingAddress,
+            deliveryMethodId: selectedDeliveryMethod || null,
+            couponCode: appliedCoupon,
+            orderNotes: orderNotes.trim() || null
+          },
+          currency: currencyCode
+        });
+        const result = await response.json();
+
+        if (result.success) {
+          checkoutDraftRef.current = result.data;
+          saveCheckoutDraftRef(result.data);
+        }
+      } catch (error) {
+        // Checkout works without the draft
+        console.error('Failed to save checkout draft:', error);
+      }
+    };
+
+    const timer = setTimeout(saveDraft, 1500);
+    return () => clearTimeout(timer);
+  }, [items, pendingOrder, draftEmail, shippingAddress, billingSameAsShipping, billingAddress, selectedDeliveryMethod, appliedCoupon, orderNotes, currencyCode]);
+
+  // Calculate totals - local estimate until the server quote arrives. Cart
+  // and tax amounts are in the base currency, delivery prices already converted
+  const displayCurrency = quote?.currency || currencyCode || 'USD';
   const selectedDelivery = deliveryMethods.find(d => d.id === selectedDeliveryMethod);
-  const shippingCost = selectedDelivery?.price || 0;
-  const subtotal = totalPrice;
-  const taxRate = 0.08; // 8% tax
-  const taxAmount = subtotal * taxRate;
-  const codFee = paymentMethod.type === 'cash_on_delivery' ? 2.99 : 0;
-  const finalTotal = subtotal + shippingCost + taxAmount + codFee;
+  const estimatedShipping = selectedDelivery?.price || 0;
+  const estimatedSubtotal = convertPrice(totalPrice);
+  const estimatedTax = convertPrice(taxQuote?.taxAmount || 0);
+  const estimatedCodFee = paymentMethod.type === 'cash_on_delivery' ? convertPrice(2.99) : 0;
+
+  const subtotal = quote ? quote.subtotal : estimatedSubtotal;
+  const shippingCost = quote ? quote.shippingCost : estimatedShipping;
+  const taxAmount = quote ? quote.taxAmount : estimatedTax;
+  const codFee = quote ? quote.codFee : estimatedCodFee;
+  const discountAmount = quote ? quote.discountAmount : 0;
+  const finalTotal = quote ? quote.total : subtotal + shippingCost - discountAmount + taxAmount + codFee;
+
+  const summaryLines: PriceBreakdownLine[] = quote
+    ? quote.breakdown.filter(line => line.code !== 'total')
+    : [
+        { code: 'subtotal', label: 'Subtotal', amount: subtotal },
+        { code: 'shipping', label: 'Shipping', amount: shippingCost },
+        ...(taxQuote && taxQuote.lines.length > 0
+          ? taxQuote.lines.map(line => ({ code: 'tax' as const, label: `${line.name} (${formatTaxRate(line.rate)})`, amount: convertPrice(line.amount) }))
+          : [{ code: 'tax' as const, label: 'Tax', amount: taxAmount }]),
+        ...(codFee > 0 ? [{ code: 'cod_fee' as const, label: 'Cash on Delivery Fee', amount: codFee }] : [])
+      ];
 
   // Validation
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
 
-    // Shipping address validation
-    if (!shippingAddress.fullName.trim()) newErrors.fullName = 'Full name is required';
-    if (!shippingAddress.phone.trim()) newErrors.phone = 'Phone number is required';
+    // Shipping address validation, by the rules of its country
+    Object.assign(newErrors, validateAddressFields(shippingAddress, findCountrySchema(addressFormats, shippingAddress.country)));
     if (!shippingAddress.email.trim()) newErrors.email = 'Email is required';
-    if (!shippingAddress.addressLine1.trim()) newErrors.addressLine1 = 'Address is required';
-    if (!shippingAddress.city.trim()) newErrors.city = 'City is required';
-    if (!shippingAddress.state.trim()) newErrors.state = 'State is required';
-    if (!shippingAddress.postalCode.trim()) newErrors.postalCode = 'Postal code is required';
 
     // Email validation
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -155,10 +407,9 @@ const CheckoutPage: React.FC = () => {
       newErrors.email = 'Please enter a valid email address';
     }
 
-    // Phone validation
-    const phoneRegex = /^[\+]?[1-9][\d]{0,15}$/;
-    if (shippingAddress.phone && !phoneRegex.test(shippingAddress.phone.replace(/\D/g, ''))) {
-      newErrors.phone = 'Please enter a valid phone number';
+    // Billing address validation - only a typed billing address has fields to check
+    if (!billingSameAsShipping && !billingAddressId) {
+      Object.assign(newErrors, validateAddressFields(billingAddress, findCountrySchema(addressFormats, billingAddress.country), 'billing'));
     }
 
     // Payment validation
@@ -176,54 +427,186 @@ const CheckoutPage: React.FC = () => {
     return Object.keys(newErrors).length === 0;
   };
 
+  // Leave checkout once the order is paid for, or placed as cash on delivery
+  const completeOrder = (order: OrderDetailsData) => {
+    clearCart();
+
+    // The access token keeps the confirmation link working for guests
+    const tokenParam = order.accessToken ? `?token=${encodeURIComponent(order.accessToken)}` : '';
+    navigate(`/order-confirmation/${order.orderId}${tokenParam}`, {
+      state: { orderData: order }
+    });
+  };
+
+  // Act on what the payment provider said about the order's payment
+  const handlePaymentResult = (order: OrderDetailsData, payment: PaymentAttempt) => {
+    if (payment.status === 'success') {
+      completeOrder({ ...order, status: 'paid' });
+    } else if (payment.status === 'authorized') {
+      // Accepted - the order turns paid when the provider confirms it
+      completeOrder(order);
+    } else if (payment.status === 'requires_action' && payment.challenge) {
+      setPendingOrder(order);
+      setChallenge({ paymentId: payment.paymentId, message: payment.challenge.message });
+    } else {
+      setPendingOrder(order);
+      setErrors({
+        submit: `${payment.failureReason || 'Your payment was declined'}. Your order is saved - please try again or use another card.`
+      });
+    }
+  };
+
+  const getPaymentToken = async (): Promise<string | null> => {
+    if (paymentMethod.type === 'cash_on_delivery') return null;
+
+    // Card details go to the payment provider only - the store gets a token
+    const result = paymentMethod.type === 'credit_card'
+      ? await createCardToken({
+        number: paymentMethod.cardNumber || '',
+        expiry: paymentMethod.expiryDate || '',
+        cvc: paymentMethod.cvv || '',
+        name: paymentMethod.cardholderName || ''
+      })
+      : await createPayPalToken();
+
+    if (result.error) {
+      setErrors({ [result.error.field]: result.error.message });
+      return null;
+    }
+    return result.token;
+  };
+
+  // Pay again for an order whose earlier payment did not go through
+  const retryPayment = async (order: OrderDetailsData, paymentToken: string, idempotencyKey: string) => {
+    const tokenQuery = order.accessToken ? `?token=${encodeURIComponent(order.accessToken)}` : '';
+    const response = await api.post(`api/orders/${order.orderId}/payments${tokenQuery}`, { paymentToken }, {
+      headers: {
+        'Idempotency-Key': idempotencyKey,
+        ...(isAuthenticated && { 'Authorization': `Bearer ${localStorage.getItem('token')}` })
+      }
+    });
+
+    const result = await response.json();
+
+    if (result.code !== ORDER_ERROR_CODES.IDEMPOTENCY_REQUEST_IN_PROGRESS) {
+      idempotencyKeyRef.current = null;
+    }
+
+    if (result.data?.payment) {
+      handlePaymentResult(order, result.data.payment);
+    } else if (result.code === ORDER_ERROR_CODES.IDEMPOTENCY_REQUEST_IN_PROGRESS) {
+      setErrors({ submit: 'Your payment is still being processed. Please wait a moment before trying again.' });
+    } else {
+      setErrors({ submit: result.message || 'Failed to process payment' });
+    }
+  };
+
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!validateForm()) {
+    if (!validateForm() || isSubmittingRef.current) {
       return;
     }
 
+    isSubmittingRef.current = true;
     setIsLoading(true);
 
     try {
+      const paymentToken = await getPaymentToken();
+      if (paymentMethod.type !== 'cash_on_delivery' && !paymentToken) {
+        return;
+      }
+
+      if (!idempotencyKeyRef.current) {
+        idempotencyKeyRef.current = crypto.randomUUID();
+      }
+
+      if (pendingOrder) {
+        if (paymentToken) {
+          await retryPayment(pendingOrder, paymentToken, idempotencyKeyRef.current);
+        } else {
+          setErrors({ submit: 'Your order was placed for online payment - please pay by card or PayPal.' });
+        }
+        return;
+      }
+
       // Prepare order data
       const orderData = {
         items: items.map(item => ({
           productId: item.productId,
           quantity: item.quantity,
-          unitPrice: item.price,
+          unitPrice: quote?.items.find(priced => priced.productId === item.productId)?.unitPrice ?? item.price,
           name: item.name
         })),
         shippingAddress,
+        shippingAddressId,
+        saveShippingAddress: !shippingAddressId && saveShippingAddress,
+        billingAddress: billingSameAsShipping || billingAddressId ? null : billingAddress,
+        billingAddressId: billingSameAsShipping ? null : billingAddressId,
+        saveBillingAddress: !billingSameAsShipping && !billingAddressId && saveBillingAddress,
         deliveryMethodId: selectedDeliveryMethod,
         paymentMethod: paymentMethod.type,
+        paymentToken,
         subtotal,
         shippingCost,
+        discountAmount,
         taxAmount,
         codFee,
         total: finalTotal,
+        couponCode: appliedCoupon,
+        currency: displayCurrency,
         orderNotes: orderNotes.trim() || null,
-        customerEmail: shippingAddress.email
+        customerEmail: shippingAddress.email,
+        checkoutDraftId: checkoutDraftRef.current?.draftId || null,
+        checkoutDraftToken: checkoutDraftRef.current?.token || null
       };
 
       // Submit order
       const response = await api.post('api/orders', orderData, {
         headers: {
+          'Idempotency-Key': idempotencyKeyRef.current,
           ...(isAuthenticated && { 'Authorization': `Bearer ${localStorage.getItem('token')}` })
         }
       });
 
       const result = await response.json();
 
+      // A failed attempt created nothing, so the next one starts with a fresh key -
+      // except while the original request is still running
+      if (!result.success && result.code !== ORDER_ERROR_CODES.IDEMPOTENCY_REQUEST_IN_PROGRESS) {
+        idempotencyKeyRef.current = null;
+      }
+
       if (result.success) {
-        // Clear cart
-        clearCart();
-        
-        // Redirect to success page
-        navigate(`/order-confirmation/${result.data.orderId}`, {
-          state: { orderData: result.data }
-        });
+        idempotencyKeyRef.current = null;
+        // The order closed the saved checkout
+        checkoutDraftRef.current = null;
+        saveCheckoutDraftRef(null);
+
+        if (result.data.payment) {
+          handlePaymentResult(result.data, result.data.payment);
+        } else {
+          completeOrder(result.data);
+        }
+      } else if (result.code === ORDER_ERROR_CODES.PRICE_CHANGED && result.data?.pricing) {
+        // Show the re-quoted totals and let the customer confirm again
+        setQuote(result.data.pricing);
+        setErrors({ submit: result.message });
+      } else if (result.code === ORDER_ERROR_CODES.INSUFFICIENT_STOCK && result.data?.conflicts) {
+        // Flag the affected items so the customer can adjust them in the cart
+        applyStockConflicts(result.data.conflicts);
+        setErrors({ submit: result.message });
+      } else if (result.code === ORDER_ERROR_CODES.COUPON_INVALID) {
+        // The code stopped being valid since it was applied
+        setCouponError(result.message);
+        setAppliedCoupon(null);
+        setErrors({ submit: `${result.message}. The discount has been removed - please review your total.` });
+      } else if (result.code === ORDER_ERROR_CODES.IDEMPOTENCY_REQUEST_IN_PROGRESS) {
+        setErrors({ submit: 'Your order is still being processed. Please wait a moment before trying again.' });
+      } else if (result.code === ORDER_ERROR_CODES.IDEMPOTENCY_KEY_REUSED) {
+        // The details changed after an attempt whose outcome we never received
+        setErrors({ submit: 'We could not confirm your previous attempt. Please check your email for an order confirmation before placing the order again.' });
       } else {
         setErrors({ submit: result.message || 'Failed to place order' });
       }
@@ -231,19 +614,80 @@ const CheckoutPage: React.FC = () => {
       console.error('Order submission error:', error);
       setErrors({ submit: 'Network error. Please try again.' });
     } finally {
+      isSubmittingRef.current = false;
       setIsLoading(false);
     }
   };
 
+  // Send the customer's answer to the bank's confirmation step
+  const handleChallengeConfirm = async (challengeResponse: string) => {
+    if (!pendingOrder || !challenge) return;
+
+    try {
+      const tokenQuery = pendingOrder.accessToken ? `?token=${encodeURIComponent(pendingOrder.accessToken)}` : '';
+      const response = await api.post(
+        `api/orders/${pendingOrder.orderId}/payments/${challenge.paymentId}/challenge${tokenQuery}`,
+        { response: challengeResponse }
+      );
+      const result = await response.json();
+
+      setChallenge(null);
+      if (result.data?.payment) {
+        handlePaymentResult(pendingOrder, result.data.payment);
+      } else {
+        setErrors({ submit: result.message || 'Failed to confirm payment' });
+      }
+    } catch (error) {
+      console.error('Payment confirmation error:', error);
+      setChallenge(null);
+      setErrors({ submit: 'Network error. Please try again.' });
+    }
+  };
+
+  const handleChallengeCancel = () => {
+    setChallenge(null);
+    setErrors({ submit: 'Your payment was not confirmed. Your order is saved - please try again or use another card.' });
+  };
+
   // Handle input changes
   const handleAddressChange = (field: keyof ShippingAddress, value: string) => {
-    setShippingAddress(prev => ({ ...prev, [field]: value }));
+    // A region or postal code from another country means nothing in the new one
+    setShippingAddress(prev => field === 'country'
+      ? { ...prev, country: value, state: '', postalCode: '' }
+      : { ...prev, [field]: value });
+    // An edited saved address is a new address
+    if (field !== 'email') {
+      setShippingAddressId(null);
+    }
     // Clear error when user starts typing
     if (errors[field]) {
       setErrors(prev => ({ ...prev, [field]: '' }));
     }
   };
 
+  // Fill the shipping form from a saved address, or clear it for a new one
+  const selectSavedShippingAddress = (address: SavedAddress | null) => {
+    setShippingAddressId(address?.id || null);
+    setShippingAddress(prev => ({ ...prev, ...(address ? toAddressFormValues(address) : { ...EMPTY_ADDRESS, fullName: user?.full_name || '' }) }));
+    setErrors({});
+  };
+
+  const selectSavedBillingAddress = (address: SavedAddress | null) => {
+    setBillingAddressId(address?.id || null);
+    setBillingAddress(address ? toAddressFormValues(address) : EMPTY_ADDRESS);
+  };
+
+  const handleBillingChange = (field: keyof AddressFormValues, value: string) => {
+    setBillingAddress(prev => field === 'country'
+      ? { ...prev, country: value, state: '', postalCode: '' }
+      : { ...prev, [field]: value });
+    setBillingAddressId(null);
+    const errorKey = addressErrorKey('billing', field);
+    if (errors[errorKey]) {
+      setErrors(prev => ({ ...prev, [errorKey]: '' }));
+    }
+  };
+
   const handlePaymentChange = (field: keyof PaymentMethod, value: string) => {
     setPaymentMethod(prev => ({ ...prev, [field]: value }));
     // Clear error when user starts typing
@@ -300,174 +744,105 @@ const CheckoutPage: React.FC = () => {
                   <h2 className="text-xl font-semibold text-gray-100">Shipping Information</h2>
                 </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {/* Full Name */}
-                  <div>
-                    <label className="block text-sm font-medium text-gray-300 mb-2">
-                      <User className="w-4 h-4 inline mr-2" />
-                      Full Name *
-                    </label>
-                    <input
-                      type="text"
-                      value={shippingAddress.fullName}
-                      onChange={(e) => handleAddressChange('fullName', e.target.value)}
-                      className={`w-full px-4 py-3 bg-gray-700 border rounded-lg text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                        errors.fullName ? 'border-red-500' : 'border-gray-600'
-                      }`}
-                      placeholder="Enter your full name"
-                    />
-                    {errors.fullName && (
-                      <p className="mt-1 text-sm text-red-400">{errors.fullName}</p>
-                    )}
-                  </div>
+                <SavedAddressPicker
+                  addresses={savedAddresses}
+                  selectedId={shippingAddressId}
+                  name="savedShippingAddress"
+                  onSelect={selectSavedShippingAddress}
+                />
 
-                  {/* Phone */}
-                  <div>
-                    <label className="block text-sm font-medium text-gray-300 mb-2">
-                      <Phone className="w-4 h-4 inline mr-2" />
-                      Phone Number *
-                    </label>
-                    <input
-                      type="tel"
-                      value={shippingAddress.phone}
-                      onChange={(e) => handleAddressChange('phone', e.target.value)}
-                      className={`w-full px-4 py-3 bg-gray-700 border rounded-lg text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                        errors.phone ? 'border-red-500' : 'border-gray-600'
-                      }`}
-                      placeholder="(555) 123-4567"
-                    />
-                    {errors.phone && (
-                      <p className="mt-1 text-sm text-red-400">{errors.phone}</p>
-                    )}
-                  </div>
+                {/* Email */}
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    <Mail className="w-4 h-4 inline mr-2" />
+                    Email Address *
+                  </label>
+                  <input
+                    type="email"
+                    value={shippingAddress.email}
+                    onChange={(e) => handleAddressChange('email', e.target.value)}
+                    className={`w-full px-4 py-3 bg-gray-700 border rounded-lg text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                      errors.email ? 'border-red-500' : 'border-gray-600'
+                    }`}
+                    placeholder="your.email@example.com"
+                  />
+                  {errors.email && (
+                    <p className="mt-1 text-sm text-red-400">{errors.email}</p>
+                  )}
+                </div>
 
-                  {/* Email */}
-                  <div className="md:col-span-2">
-                    <label className="block text-sm font-medium text-gray-300 mb-2">
-                      <Mail className="w-4 h-4 inline mr-2" />
-                      Email Address *
-                    </label>
-                    <input
-                      type="email"
-                      value={shippingAddress.email}
-                      onChange={(e) => handleAddressChange('email', e.target.value)}
-                      className={`w-full px-4 py-3 bg-gray-700 border rounded-lg text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                        errors.email ? 'border-red-500' : 'border-gray-600'
-                      }`}
-                      placeholder="your.email@example.com"
-                    />
-                    {errors.email && (
-                      <p className="mt-1 text-sm text-red-400">{errors.email}</p>
-                    )}
-                  </div>
+                <AddressFields
+                  values={shippingAddress}
+                  countries={addressFormats}
+                  errors={errors}
+                  errorPrefix=""
+                  onChange={handleAddressChange}
+                />
 
-                  {/* Address Line 1 */}
-                  <div className="md:col-span-2">
-                    <label className="block text-sm font-medium text-gray-300 mb-2">
-                      Address Line 1 *
-                    </label>
+                {isAuthenticated && !shippingAddressId && (
+                  <label className="flex items-center mt-4 text-sm text-gray-300 cursor-pointer">
                     <input
-                      type="text"
-                      value={shippingAddress.addressLine1}
-                      onChange={(e) => handleAddressChange('addressLine1', e.target.value)}
-                      className={`w-full px-4 py-3 bg-gray-700 border rounded-lg text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                        errors.addressLine1 ? 'border-red-500' : 'border-gray-600'
-                      }`}
-                      placeholder="Street address, P.O. box, company name"
+                      type="checkbox"
+                      checked={saveShippingAddress}
+                      onChange={(e) => setSaveShippingAddress(e.target.checked)}
+                      className="h-4 w-4 mr-2 text-blue-600 focus:ring-blue-500 border-gray-600 bg-gray-700 rounded"
                     />
-                    {errors.addressLine1 && (
-                      <p className="mt-1 text-sm text-red-400">{errors.addressLine1}</p>
-                    )}
-                  </div>
+                    Save this address to my address book
+                  </label>
+                )}
+              </div>
 
-                  {/* Address Line 2 */}
-                  <div className="md:col-span-2">
-                    <label className="block text-sm font-medium text-gray-300 mb-2">
-                      Address Line 2 (Optional)
-                    </label>
-                    <input
-                      type="text"
-                      value={shippingAddress.addressLine2}
-                      onChange={(e) => handleAddressChange('addressLine2', e.target.value)}
-                      className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                      placeholder="Apartment, suite, unit, building, floor, etc."
-                    />
-                  </div>
+              {/* Billing Address */}
+              <div className="bg-gray-800 rounded-lg p-6">
+                <div className="flex items-center mb-6">
+                  <CreditCard className="w-6 h-6 text-blue-400 mr-3" />
+                  <h2 className="text-xl font-semibold text-gray-100">Billing Address</h2>
+                </div>
 
-                  {/* City */}
-                  <div>
-                    <label className="block text-sm font-medium text-gray-300 mb-2">
-                      City *
-                    </label>
-                    <input
-                      type="text"
-                      value={shippingAddress.city}
-                      onChange={(e) => handleAddressChange('city', e.target.value)}
-                      className={`w-full px-4 py-3 bg-gray-700 border rounded-lg text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                        errors.city ? 'border-red-500' : 'border-gray-600'
-                      }`}
-                      placeholder="City"
+                <label className="flex items-center text-sm text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={billingSameAsShipping}
+                    onChange={(e) => setBillingSameAsShipping(e.target.checked)}
+                    className="h-4 w-4 mr-2 text-blue-600 focus:ring-blue-500 border-gray-600 bg-gray-700 rounded"
+                  />
+                  Same as shipping address
+                </label>
+
+                {!billingSameAsShipping && (
+                  <div className="mt-6">
+                    <SavedAddressPicker
+                      addresses={savedAddresses}
+                      selectedId={billingAddressId}
+                      name="savedBillingAddress"
+                      onSelect={selectSavedBillingAddress}
                     />
-                    {errors.city && (
-                      <p className="mt-1 text-sm text-red-400">{errors.city}</p>
-                    )}
-                  </div>
 
-                  {/* State */}
-                  <div>
-                    <label className="block text-sm font-medium text-gray-300 mb-2">
-                      State *
-                    </label>
-                    <input
-                      type="text"
-                      value={shippingAddress.state}
-                      onChange={(e) => handleAddressChange('state', e.target.value)}
-                      className={`w-full px-4 py-3 bg-gray-700 border rounded-lg text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                        errors.state ? 'border-red-500' : 'border-gray-600'
-                      }`}
-                      placeholder="State"
-                    />
-                    {errors.state && (
-                      <p className="mt-1 text-sm text-red-400">{errors.state}</p>
-                    )}
-                  </div>
+                    {!billingAddressId && (
+                      <>
+                        <AddressFields
+                          values={billingAddress}
+                          countries={addressFormats}
+                          errors={errors}
+                          errorPrefix="billing"
+                          onChange={handleBillingChange}
+                        />
 
-                  {/* Postal Code */}
-                  <div>
-                    <label className="block text-sm font-medium text-gray-300 mb-2">
-                      Postal Code *
-                    </label>
-                    <input
-                      type="text"
-                      value={shippingAddress.postalCode}
-                      onChange={(e) => handleAddressChange('postalCode', e.target.value)}
-                      className={`w-full px-4 py-3 bg-gray-700 border rounded-lg text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                        errors.postalCode ? 'border-red-500' : 'border-gray-600'
-                      }`}
-                      placeholder="ZIP / Postal Code"
-                    />
-                    {errors.postalCode && (
-                      <p className="mt-1 text-sm text-red-400">{errors.postalCode}</p>
+                        {isAuthenticated && (
+                          <label className="flex items-center mt-4 text-sm text-gray-300 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={saveBillingAddress}
+                              onChange={(e) => setSaveBillingAddress(e.target.checked)}
+                              className="h-4 w-4 mr-2 text-blue-600 focus:ring-blue-500 border-gray-600 bg-gray-700 rounded"
+                            />
+                            Save this billing address to my address book
+                          </label>
+                        )}
+                      </>
                     )}
                   </div>
-
-                  {/* Country */}
-                  <div>
-                    <label className="block text-sm font-medium text-gray-300 mb-2">
-                      Country *
-                    </label>
-                    <select
-                      value={shippingAddress.country}
-                      onChange={(e) => handleAddressChange('country', e.target.value)}
-                      className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    >
-                      <option value="United States">United States</option>
-                      <option value="Canada">Canada</option>
-                      <option value="United Kingdom">United Kingdom</option>
-                      <option value="Australia">Australia</option>
-                    </select>
-                  </div>
-                </div>
+                )}
               </div>
 
               {/* Delivery Method */}
@@ -478,6 +853,13 @@ const CheckoutPage: React.FC = () => {
                 </div>
 
                 <div className="space-y-4">
+                  {deliveryMethods.length === 0 && (
+                    <p className="text-gray-400">
+                      {country
+                        ? `None of our delivery methods ship this order to ${region ? `${region}, ` : ''}${country}.`
+                        : 'Enter your country to see delivery options.'}
+                    </p>
+                  )}
                   {deliveryMethods.map((method) => (
                     <label
                       key={method.id}
@@ -499,11 +881,13 @@ const CheckoutPage: React.FC = () => {
                         <div className="ml-3">
                           <div className="text-gray-100 font-medium">{method.name}</div>
                           <div className="text-gray-400 text-sm">{method.description}</div>
-                          <div className="text-gray-400 text-sm">{method.estimatedDays}</div>
+                          <div className="text-gray-400 text-sm">
+                            Arrives {formatDeliveryEstimate(method.deliveryEstimate)}
+                          </div>
                         </div>
                       </div>
                       <div className="text-gray-100 font-semibold">
-                        {method.price === 0 ? 'Free' : formatPrice(method.price)}
+                        {method.price === 0 ? 'Free' : formatPrice(method.price, displayCurrency)}
                       </div>
                     </label>
                   ))}
@@ -559,21 +943,27 @@ const CheckoutPage: React.FC = () => {
                       <span className="text-gray-100">PayPal</span>
                     </label>
 
-                    <label className={`flex items-center p-4 border rounded-lg cursor-pointer transition-colors ${
-                      paymentMethod.type === 'cash_on_delivery'
-                        ? 'border-blue-500 bg-blue-500/10'
-                        : 'border-gray-600 hover:border-gray-500'
+                    <label className={`flex items-center p-4 border rounded-lg transition-colors ${
+                      !isCashOnDeliveryAvailable
+                        ? 'border-gray-700 opacity-50 cursor-not-allowed'
+                        : paymentMethod.type === 'cash_on_delivery'
+                          ? 'border-blue-500 bg-blue-500/10 cursor-pointer'
+                          : 'border-gray-600 hover:border-gray-500 cursor-pointer'
                     }`}>
                       <input
                         type="radio"
                         name="paymentType"
                         value="cash_on_delivery"
                         checked={paymentMethod.type === 'cash_on_delivery'}
+                        disabled={!isCashOnDeliveryAvailable}
                         onChange={(e) => setPaymentMethod(prev => ({ ...prev, type: e.target.value as 'cash_on_delivery' }))}
                         className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-600 focus:ring-blue-500"
                       />
                       <Banknote className="w-5 h-5 ml-3 mr-2 text-gray-300" />
                       <span className="text-gray-100">Cash on Delivery</span>
+                      {!isCashOnDeliveryAvailable && baseCurrencyCode && (
+                        <span className="ml-2 text-xs text-gray-400">Only when paying in {baseCurrencyCode}</span>
+                      )}
                     </label>
                   </div>
                 </div>
@@ -680,7 +1070,7 @@ const CheckoutPage: React.FC = () => {
                         <p className="text-green-400 text-sm font-medium mb-1">Cash on Delivery</p>
                         <p className="text-green-300 text-sm">
                           Pay with cash when your order is delivered to your doorstep.
-                          A small processing fee of $2.99 will be added to your total.
+                          A small processing fee of {formatPrice(codFee, displayCurrency)} will be added to your total.
                         </p>
                         <p className="text-green-300 text-xs mt-2">
                           Please have the exact amount ready for the delivery person.
@@ -733,6 +1123,9 @@ const CheckoutPage: React.FC = () => {
                     <div className="flex-1 min-w-0">
                       <h4 className="text-gray-100 font-medium truncate">{item.name}</h4>
                       <p className="text-gray-400 text-sm">Qty: {item.quantity}</p>
+                      {getStockConflict(item.productId) && (
+                        <p className="text-red-400 text-xs">{getStockConflict(item.productId)?.message}</p>
+                      )}
                       {item.variants && Object.keys(item.variants).length > 0 && (
                         <p className="text-gray-400 text-xs">
                           {Object.entries(item.variants)
@@ -742,53 +1135,117 @@ const CheckoutPage: React.FC = () => {
                       )}
                     </div>
                     <div className="text-gray-100 font-semibold">
-                      {formatPrice(item.price * item.quantity)}
+                      {formatPrice(convertPrice(item.price) * item.quantity, displayCurrency)}
                     </div>
                   </div>
                 ))}
               </div>
 
+              {/* Coupon Code */}
+              <div className="border-t border-gray-700 pt-4 mb-4">
+                {appliedCoupon && quote?.coupon?.valid ? (
+                  <div className="flex items-center justify-between p-3 bg-green-500/10 border border-green-500/20 rounded-lg">
+                    <div className="flex items-center text-green-400 text-sm">
+                      <Tag className="w-4 h-4 mr-2" />
+                      <span>
+                        <span className="font-semibold">{quote.coupon.code}</span>
+                        {quote.coupon.discount?.description && ` - ${quote.coupon.discount.description}`}
+                      </span>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={handleRemoveCoupon}
+                      className="p-1 text-gray-400 hover:text-gray-200 transition-colors duration-200"
+                      aria-label="Remove coupon"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={couponInput}
+                      onChange={(e) => {
+                        setCouponInput(e.target.value);
+                        setCouponError(null);
+                      }}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault();
+                          handleApplyCoupon();
+                        }
+                      }}
+                      className="flex-1 px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-gray-100 placeholder-gray-400 uppercase focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="Coupon code"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleApplyCoupon}
+                      disabled={!couponInput.trim() || (!!appliedCoupon && isQuoting)}
+                      className="px-4 py-2 bg-gray-700 text-gray-200 rounded-lg font-medium hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                    >
+                      {appliedCoupon && isQuoting ? <Loader className="w-4 h-4 animate-spin" /> : 'Apply'}
+                    </button>
+                  </div>
+                )}
+                {couponError && (
+                  <p className="mt-2 text-sm text-red-400">{couponError}</p>
+                )}
+              </div>
+
               {/* Order Totals */}
               <div className="border-t border-gray-700 pt-4 space-y-3">
-                <div className="flex justify-between text-gray-300">
-                  <span>Subtotal ({totalItems} items)</span>
-                  <span>{formatPrice(subtotal)}</span>
-                </div>
-
-                <div className="flex justify-between text-gray-300">
-                  <span>Shipping</span>
-                  <span>{shippingCost === 0 ? 'Free' : formatPrice(shippingCost)}</span>
-                </div>
-
-                <div className="flex justify-between text-gray-300">
-                  <span>Tax</span>
-                  <span>{formatPrice(taxAmount)}</span>
-                </div>
-
-                {/* Cash on Delivery Fee */}
-                {paymentMethod.type === 'cash_on_delivery' && (
-                  <div className="flex justify-between text-gray-300">
-                    <span>Cash on Delivery Fee</span>
-                    <span>{formatPrice(codFee)}</span>
+                {summaryLines.map((line, index) => (
+                  <div key={`${line.code}-${index}`} className="flex justify-between text-gray-300">
+                    <span>{line.code === 'subtotal' ? `${line.label} (${totalItems} items)` : line.label}</span>
+                    <span className={line.code === 'discount' ? 'text-green-400' : undefined}>
+                      {line.code === 'shipping' && line.amount === 0
+                        ? 'Free'
+                        : line.code === 'discount'
+                          ? `-${formatPrice(Math.abs(line.amount), displayCurrency)}`
+                          : formatPrice(line.amount, displayCurrency)}
+                    </span>
                   </div>
-                )}
+                ))}
 
                 <div className="border-t border-gray-700 pt-3">
                   <div className="flex justify-between text-lg font-bold text-gray-100">
                     <span>Total</span>
-                    <span>{formatPrice(finalTotal)}</span>
+                    <span className="flex items-center">
+                      {isQuoting && <Loader className="w-4 h-4 animate-spin mr-2 text-gray-400" />}
+                      {formatPrice(finalTotal, displayCurrency)}
+                    </span>
                   </div>
+                  {!quote && (
+                    <p className="text-gray-500 text-xs mt-1">Estimated total - final prices are confirmed by the store.</p>
+                  )}
                 </div>
               </div>
 
               {/* Submit Button */}
               <div className="mt-6">
+                {pendingOrder && (
+                  <div className="mb-4 p-3 bg-blue-500/10 border border-blue-500/20 rounded-lg text-blue-400 text-sm">
+                    Order #{pendingOrder.orderNumber} is reserved for you and waiting for payment.
+                  </div>
+                )}
                 {errors.submit && (
                   <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
                     <div className="flex items-center">
                       <AlertCircle className="w-4 h-4 text-red-400 mr-2" />
                       <span className="text-red-400 text-sm">{errors.submit}</span>
                     </div>
+                    {stockConflicts.length > 0 && (
+                      <ul className="mt-2 ml-6 space-y-1 text-red-400 text-xs list-disc">
+                        {stockConflicts.map(conflict => (
+                          <li key={conflict.productId}>
+                            {conflict.name}: {conflict.message} (you requested {conflict.requested})
+                          </li>
+                        ))}
+                        <li className="list-none text-gray-400">Update the quantities in your cart and place the order again.</li>
+                      </ul>
+                    )}
                   </div>
                 )}
 
@@ -807,7 +1264,7 @@ const CheckoutPage: React.FC = () => {
                   ) : (
                     <>
                       <CheckCircle className="w-5 h-5" />
-                      <span>Confirm Order</span>
+                      <span>{pendingOrder ? 'Pay for Order' : 'Confirm Order'}</span>
                     </>
                   )}
                 </button>
@@ -828,6 +1285,14 @@ const CheckoutPage: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {challenge && (
+        <PaymentChallengeModal
+          message={challenge.message}
+          onConfirm={handleChallengeConfirm}
+          onCancel={handleChallengeCancel}
+        />
+      )}
     </div>
   );
 };
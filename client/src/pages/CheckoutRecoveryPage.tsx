@@ -0,0 +1,120 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { ShoppingBag, Loader2, AlertCircle } from 'lucide-react';
+import { api } from '../config/api';
+import { useCart } from '../contexts/CartContext';
+import { useCurrency } from '../hooks/useCurrency';
+import { RestoredCheckout } from '../types/checkout';
+import { saveCheckoutDraftRef } from '../utils/checkoutDraft';
+
+// Opened from the link in an abandoned checkout email - puts the cart and form back
+const CheckoutRecoveryPage: React.FC = () => {
+  const { draftId } = useParams<{ draftId: string }>();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const navigate = useNavigate();
+  const { replaceItems } = useCart();
+  const { setCurrency } = useCurrency();
+  const [checkout, setCheckout] = useState<RestoredCheckout | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // The draft is restored once, even if the page renders again
+  const hasRestoredRef = useRef(false);
+
+  useEffect(() => {
+    if (!draftId || !token || hasRestoredRef.current) {
+      return;
+    }
+    hasRestoredRef.current = true;
+
+    const restoreCheckout = async () => {
+      try {
+        const response = await api.get(`api/checkout-drafts/${draftId}?token=${encodeURIComponent(token)}`);
+        const result = await response.json();
+
+        if (!result.success) {
+          setError(result.message || 'This checkout could not be restored');
+          return;
+        }
+
+        const restored: RestoredCheckout = result.data;
+        replaceItems(restored.items.map(({ productId, quantity, variants, name, price, image, maxStock, category }) => ({
+          productId, quantity, variants, name, price, image, maxStock, category
+        })));
+        if (restored.currency) {
+          setCurrency(restored.currency);
+        }
+        // Keep updating the same draft so the order counts as recovered
+        saveCheckoutDraftRef({ draftId: restored.draftId, token });
+
+        if (restored.items.length > 0 && restored.unavailableCount === 0) {
+          navigate('/checkout', { replace: true, state: { restoredCheckout: restored } });
+        } else {
+          setCheckout(restored);
+        }
+      } catch (error) {
+        console.error('Failed to restore checkout:', error);
+        setError('Network error. Please try again.');
+      }
+    };
+
+    restoreCheckout();
+  }, [draftId, token, replaceItems, setCurrency, navigate]);
+
+  return (
+    <div className="min-h-screen bg-gray-900 pt-20">
+      <div className="max-w-md mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 bg-blue-500/10 rounded-full flex items-center justify-center mx-auto mb-4">
+            <ShoppingBag className="w-8 h-8 text-blue-400" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-100 mb-2">Your Cart</h1>
+        </div>
+
+        <div className="bg-gray-800 rounded-lg p-6 text-center">
+          {!token ? (
+            <p className="text-gray-400 text-sm mb-6">
+              This page only works from the link in your email.
+            </p>
+          ) : error ? (
+            <>
+              <AlertCircle className="w-10 h-10 text-red-400 mx-auto mb-4" />
+              <p className="text-gray-100 mb-6">{error}</p>
+            </>
+          ) : !checkout ? (
+            <div className="flex items-center justify-center gap-2 text-gray-400">
+              <Loader2 className="w-5 h-5 animate-spin" />
+              Restoring your cart...
+            </div>
+          ) : checkout.items.length === 0 ? (
+            <p className="text-gray-100 mb-6">
+              Sorry, the items you left in your cart are no longer available.
+            </p>
+          ) : (
+            <>
+              <p className="text-gray-100 mb-6">
+                {checkout.unavailableCount === 1
+                  ? 'One item you left in your cart is no longer available'
+                  : `${checkout.unavailableCount} items you left in your cart are no longer available`}
+                {' '}- the rest is back in your cart.
+              </p>
+              <button
+                onClick={() => navigate('/checkout', { replace: true, state: { restoredCheckout: checkout } })}
+                className="inline-flex items-center justify-center px-6 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors duration-200"
+              >
+                Continue to Checkout
+              </button>
+            </>
+          )}
+
+          {(!token || error || checkout?.items.length === 0) && (
+            <Link to="/products" className="text-blue-400 hover:text-blue-300 text-sm">
+              Browse products
+            </Link>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CheckoutRecoveryPage;
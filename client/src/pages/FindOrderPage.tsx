@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Search, Mail, Loader2, Package } from 'lucide-react';
+import { api } from '../config/api';
+import { useAuth } from '../contexts/AuthContext';
+import { OrderLookupRequest } from '../types/orders';
+
+const FindOrderPage: React.FC = () => {
+  const { isAuthenticated } = useAuth();
+  const [formData, setFormData] = useState<OrderLookupRequest>({ orderNumber: '', email: '' });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.orderNumber.trim() || !formData.email.trim()) {
+      setError('Please enter your order number and email address');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const response = await api.post('api/orders/lookup', {
+        orderNumber: formData.orderNumber.trim(),
+        email: formData.email.trim()
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setSentMessage(result.message);
+      } else {
+        setError(result.message || 'Failed to look up your order');
+      }
+    } catch (error) {
+      console.error('Failed to look up order:', error);
+      setError('Network error. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 pt-20">
+      <div className="max-w-md mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 bg-blue-500/10 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Search className="w-8 h-8 text-blue-400" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-100 mb-2">Find My Order</h1>
+          <p className="text-gray-400">
+            Enter the order number from your confirmation and the email you ordered with. We'll email you a link to view it.
+          </p>
+        </div>
+
+        {sentMessage ? (
+          <div className="bg-gray-800 rounded-lg p-6 text-center">
+            <Mail className="w-10 h-10 text-blue-400 mx-auto mb-4" />
+            <p className="text-gray-100 mb-2">Check your inbox</p>
+            <p className="text-gray-400 text-sm mb-6">{sentMessage}.</p>
+            <button
+              onClick={() => {
+                setSentMessage(null);
+                setFormData({ orderNumber: '', email: '' });
+              }}
+              className="text-blue-400 hover:text-blue-300 text-sm"
+            >
+              Look up another order
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="bg-gray-800 rounded-lg p-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Order Number</label>
+              <input
+                type="text"
+                value={formData.orderNumber}
+                onChange={(e) => setFormData(prev => ({ ...prev, orderNumber: e.target.value.toUpperCase() }))}
+                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-gray-100 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent uppercase"
+                placeholder="e.g. 3F2A9C1B"
+                maxLength={9}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Email Address</label>
+              <input
+                type="email"
+                value={formData.email}
+                onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-gray-100 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="you@example.com"
+              />
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm">
+                {error}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full flex items-center justify-center px-6 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 transition-colors duration-200"
+            >
+              {isSubmitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Mail className="w-4 h-4 mr-2" />}
+              Send Me a Link
+            </button>
+          </form>
+        )}
+
+        {isAuthenticated && (
+          <div className="mt-6 text-center">
+            <Link to="/orders" className="inline-flex items-center text-gray-400 hover:text-blue-400 text-sm">
+              <Package className="w-4 h-4 mr-2" />
+              Signed in? See all your orders
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FindOrderPage;
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { KeyRound, Mail, Loader2 } from 'lucide-react';
+import { api } from '../config/api';
+
+const ForgotPasswordPage: React.FC = () => {
+  const [email, setEmail] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email.trim() || !email.includes('@')) {
+      setError('Please enter the email address of your account');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const response = await api.post('api/auth/forgot-password', { email: email.trim() });
+      const result = await response.json();
+
+      if (result.success) {
+        setSentMessage(result.message);
+      } else {
+        setError(result.errors?.[0]?.message || result.message || 'Failed to send a reset link');
+      }
+    } catch (error) {
+      console.error('Failed to request password reset:', error);
+      setError('Network error. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 pt-20">
+      <div className="max-w-md mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 bg-blue-500/10 rounded-full flex items-center justify-center mx-auto mb-4">
+            <KeyRound className="w-8 h-8 text-blue-400" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-100 mb-2">Forgot Your Password?</h1>
+          <p className="text-gray-400">
+            Enter the email address of your account and we'll email you a link to choose a new password.
+          </p>
+        </div>
+
+        {sentMessage ? (
+          <div className="bg-gray-800 rounded-lg p-6 text-center">
+            <Mail className="w-10 h-10 text-blue-400 mx-auto mb-4" />
+            <p className="text-gray-100 mb-2">Check your inbox</p>
+            <p className="text-gray-400 text-sm">{sentMessage}.</p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="bg-gray-800 rounded-lg p-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Email Address</label>
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                autoComplete="email"
+                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-gray-100 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="you@example.com"
+              />
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm">
+                {error}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full flex items-center justify-center px-6 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 transition-colors duration-200"
+            >
+              {isSubmitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Mail className="w-4 h-4 mr-2" />}
+              Send Me a Reset Link
+            </button>
+          </form>
+        )}
+
+        <div className="mt-6 text-center">
+          <Link to="/signin" className="text-gray-400 hover:text-blue-400 text-sm">
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPasswordPage;
@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { Package, ChevronLeft, ChevronRight } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { api } from '../config/api';
+import { formatPrice } from '../utils/cartUtils';
+import {
+  OrderHistoryEntry,
+  OrderHistoryResponse,
+  ORDER_HISTORY_FILTERS,
+  formatOrderStatus,
+  getOrderStatusClasses
+} from '../types/orders';
+
+const ORDERS_PER_PAGE = 10;
+
+// Thumbnails shown per order before collapsing into "+N"
+const MAX_THUMBNAILS = 4;
+
+const MyOrdersPage: React.FC = () => {
+  const { isAuthenticated, isLoading: isAuthLoading } = useAuth();
+  const [orders, setOrders] = useState<OrderHistoryEntry[]>([]);
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchOrders(statusFilter, currentPage);
+    }
+  }, [isAuthenticated, statusFilter, currentPage]);
+
+  const fetchOrders = async (status: string, page: number) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams({
+        status,
+        page: page.toString(),
+        limit: ORDERS_PER_PAGE.toString()
+      });
+      const response = await api.get(`api/orders?${params.toString()}`);
+      const result: OrderHistoryResponse = await response.json();
+
+      if (result.success) {
+        setOrders(result.data.orders);
+        setTotalPages(Math.max(1, result.data.pagination.totalPages));
+      } else {
+        setError(result.message || 'Failed to load your orders');
+      }
+    } catch (error) {
+      console.error('Failed to fetch orders:', error);
+      setError('Failed to load your orders');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFilterChange = (status: string) => {
+    setStatusFilter(status);
+    setCurrentPage(1);
+  };
+
+  if (!isAuthLoading && !isAuthenticated) {
+    return <Navigate to="/signin" replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 pt-20">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h1 className="text-3xl font-bold text-gray-100 mb-6">My Orders</h1>
+
+        {/* Status Filters */}
+        <div className="flex flex-wrap gap-2 mb-6">
+          {ORDER_HISTORY_FILTERS.map(filter => (
+            <button
+              key={filter.value}
+              onClick={() => handleFilterChange(filter.value)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 ${
+                statusFilter === filter.value
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+              }`}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+
+        {isLoading || isAuthLoading ? (
+          <div className="text-center py-16">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-400 mx-auto mb-4"></div>
+            <p className="text-gray-400">Loading your orders...</p>
+          </div>
+        ) : error ? (
+          <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400">
+            {error}
+          </div>
+        ) : orders.length === 0 ? (
+          <div className="bg-gray-800 rounded-lg p-12 text-center">
+            <Package className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <h2 className="text-xl font-semibold text-gray-100 mb-2">No orders found</h2>
+            <p className="text-gray-400 mb-6">
+              {statusFilter === 'all' ? "You haven't placed any orders yet." : 'No orders match this status.'}
+            </p>
+            <Link
+              to="/products"
+              className="bg-blue-500 hover:bg-blue-600 text-white px-6 py-3 rounded-lg transition-colors duration-200"
+            >
+              Start Shopping
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {orders.map(order => (
+              <Link
+                key={order.orderId}
+                to={`/orders/${order.orderId}`}
+                className="block bg-gray-800 rounded-lg p-6 hover:ring-1 hover:ring-gray-600 transition-all duration-200"
+              >
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-4">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-100">Order #{order.orderNumber}</h2>
+                    <p className="text-sm text-gray-400">
+                      Placed on {new Date(order.createdAt).toLocaleDateString()} · {order.itemCount} item{order.itemCount !== 1 ? 's' : ''}
+                    </p>
+                  </div>
+                  <span className={`self-start sm:self-auto inline-flex items-center px-3 py-1 rounded-full text-sm font-medium border ${getOrderStatusClasses(order.status)}`}>
+                    {formatOrderStatus(order.status)}
+                  </span>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center -space-x-2">
+                    {order.items.slice(0, MAX_THUMBNAILS).map((item, index) => (
+                      <div
+                        key={`${item.productId}-${index}`}
+                        className="w-12 h-12 bg-gray-700 rounded-lg overflow-hidden border-2 border-gray-800"
+                        title={item.name}
+                      >
+                        {item.image ? (
+                          <img src={item.image} alt={item.name} className="w-full h-full object-cover" />
+                        ) : (
+                          <div className="w-full h-full flex items-center justify-center">
+                            <Package className="w-5 h-5 text-gray-400" />
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                    {order.items.length > MAX_THUMBNAILS && (
+                      <div className="w-12 h-12 bg-gray-700 rounded-lg border-2 border-gray-800 flex items-center justify-center text-sm text-gray-300">
+                        +{order.items.length - MAX_THUMBNAILS}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 text-gray-100 font-semibold">
+                    <div className="text-right">
+                      {formatPrice(order.total, order.currency)}
+                      {order.refundedAmount > 0 && (
+                        <p className="text-xs font-normal text-green-400">{formatPrice(order.refundedAmount, order.currency)} refunded</p>
+                      )}
+                    </div>
+                    <ChevronRight className="w-5 h-5 text-gray-400" />
+                  </div>
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+
+        {/* Pagination */}
+        {!isLoading && totalPages > 1 && (
+          <div className="flex items-center justify-center gap-4 mt-8">
+            <button
+              onClick={() => setCurrentPage(page => page - 1)}
+              disabled={currentPage === 1}
+              className={`p-2 rounded-lg transition-all duration-200 ${
+                currentPage === 1
+                  ? 'text-gray-500 cursor-not-allowed'
+                  : 'text-gray-300 hover:text-blue-400 hover:bg-gray-800'
+              }`}
+              title="Previous page"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <span className="text-gray-400 text-sm">Page {currentPage} of {totalPages}</span>
+            <button
+              onClick={() => setCurrentPage(page => page + 1)}
+              disabled={currentPage === totalPages}
+              className={`p-2 rounded-lg transition-all duration-200 ${
+                currentPage === totalPages
+                  ? 'text-gray-500 cursor-not-allowed'
+                  : 'text-gray-300 hover:text-blue-400 hover:bg-gray-800'
+              }`}
+              title="Next page"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MyOrdersPage;
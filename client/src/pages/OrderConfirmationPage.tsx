@@ -1,60 +1,26 @@
 import React, { useEffect, useState } from 'react';
-import { useParams, useLocation, Link } from 'react-router-dom';
+import { useParams, useLocation, useSearchParams, Link } from 'react-router-dom';
 import {
   CheckCircle,
   Package,
-  Truck,
   Mail,
-  Phone,
-  MapPin,
-  Calendar,
-  CreditCard,
   ArrowLeft,
   Download
 } from 'lucide-react';
-import { formatPrice } from '../utils/cartUtils';
 import { api } from '../config/api';
-
-interface OrderData {
-  orderId: string;
-  orderNumber: string;
-  status: string;
-  total: number;
-  subtotal: number;
-  shippingCost: number;
-  taxAmount: number;
-  codFee?: number;
-  items: Array<{
-    id: string;
-    name: string;
-    quantity: number;
-    unitPrice: number;
-    image?: string;
-  }>;
-  shippingAddress: {
-    fullName: string;
-    phone: string;
-    email: string;
-    addressLine1: string;
-    addressLine2?: string;
-    city: string;
-    state: string;
-    postalCode: string;
-    country: string;
-  };
-  deliveryMethod: {
-    name: string;
-    estimatedDays: string;
-  };
-  paymentMethod: string;
-  createdAt: string;
-  estimatedDelivery: string;
-}
+import { OrderDetailsData, CUSTOMER_CANCELLABLE_STATUSES, RETURN_VISIBLE_STATUSES, SHIPMENT_VISIBLE_STATUSES } from '../types/orders';
+import OrderDetails from '../components/orders/OrderDetails';
+import CancelOrderPanel from '../components/orders/CancelOrderPanel';
+import OrderReturns from '../components/orders/OrderReturns';
+import OrderShipments from '../components/orders/OrderShipments';
+import OrderDocuments from '../components/orders/OrderDocuments';
 
 const OrderConfirmationPage: React.FC = () => {
   const { orderId } = useParams<{ orderId: string }>();
   const location = useLocation();
-  const [orderData, setOrderData] = useState<OrderData | null>(null);
+  const [searchParams] = useSearchParams();
+  const accessToken = searchParams.get('token');
+  const [orderData, setOrderData] = useState<OrderDetailsData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -65,16 +31,17 @@ const OrderConfirmationPage: React.FC = () => {
       setIsLoading(false);
     } else if (orderId) {
       // Fetch order data from API
-      fetchOrderData(orderId);
+      fetchOrderData(orderId, accessToken);
     } else {
       setError('Order ID not found');
       setIsLoading(false);
     }
-  }, [orderId, location.state]);
+  }, [orderId, accessToken, location.state]);
 
-  const fetchOrderData = async (id: string) => {
+  const fetchOrderData = async (id: string, token: string | null) => {
     try {
-      const response = await api.get(`api/orders/${id}`);
+      const query = token ? `?token=${encodeURIComponent(token)}` : '';
+      const response = await api.get(`api/orders/${id}${query}`);
       const result = await response.json();
 
       if (result.success) {
@@ -108,12 +75,20 @@ const OrderConfirmationPage: React.FC = () => {
           <Package className="w-16 h-16 text-gray-400 mx-auto mb-4" />
           <h2 className="text-2xl font-bold text-gray-100 mb-2">Order Not Found</h2>
           <p className="text-gray-400 mb-6">{error || 'The order you are looking for does not exist.'}</p>
-          <Link
-            to="/products"
-            className="bg-blue-500 hover:bg-blue-600 text-white px-6 py-3 rounded-lg transition-colors duration-200"
-          >
-            Continue Shopping
-          </Link>
+          <div className="flex flex-col sm:flex-row gap-4 justify-center">
+            <Link
+              to="/find-order"
+              className="bg-gray-700 hover:bg-gray-600 text-gray-100 px-6 py-3 rounded-lg transition-colors duration-200"
+            >
+              Find My Order
+            </Link>
+            <Link
+              to="/products"
+              className="bg-blue-500 hover:bg-blue-600 text-white px-6 py-3 rounded-lg transition-colors duration-200"
+            >
+              Continue Shopping
+            </Link>
+          </div>
         </div>
       </div>
     );
@@ -131,139 +106,27 @@ const OrderConfirmationPage: React.FC = () => {
           <p className="text-gray-400">Thank you for your purchase. Your order has been received and is being processed.</p>
         </div>
 
-        {/* Order Summary Card */}
-        <div className="bg-gray-800 rounded-lg p-6 mb-8">
-          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-6">
-            <div>
-              <h2 className="text-xl font-semibold text-gray-100">Order #{orderData.orderNumber || orderData.orderId}</h2>
-              <p className="text-gray-400">Placed on {new Date(orderData.createdAt).toLocaleDateString()}</p>
-            </div>
-            <div className="mt-4 sm:mt-0">
-              <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-green-500/10 text-green-400 border border-green-500/20">
-                <CheckCircle className="w-4 h-4 mr-1" />
-                {orderData.status.charAt(0).toUpperCase() + orderData.status.slice(1)}
-              </span>
-            </div>
-          </div>
+        <OrderDetails order={orderData} />
 
-          {/* Order Items */}
-          <div className="border-t border-gray-700 pt-6">
-            <h3 className="text-lg font-semibold text-gray-100 mb-4">Items Ordered</h3>
-            <div className="space-y-4">
-              {orderData.items.map((item) => (
-                <div key={item.id} className="flex items-center space-x-4">
-                  <div className="w-16 h-16 bg-gray-700 rounded-lg overflow-hidden flex-shrink-0">
-                    {item.image ? (
-                      <img
-                        src={item.image}
-                        alt={item.name}
-                        className="w-full h-full object-cover"
-                      />
-                    ) : (
-                      <div className="w-full h-full flex items-center justify-center">
-                        <Package className="w-6 h-6 text-gray-400" />
-                      </div>
-                    )}
-                  </div>
-                  <div className="flex-1">
-                    <h4 className="text-gray-100 font-medium">{item.name}</h4>
-                    <p className="text-gray-400 text-sm">Quantity: {item.quantity}</p>
-                  </div>
-                  <div className="text-gray-100 font-semibold">
-                    {formatPrice(item.unitPrice * item.quantity)}
-                  </div>
-                </div>
-              ))}
-            </div>
-          </div>
+        {SHIPMENT_VISIBLE_STATUSES.includes(orderData.status) && (
+          <OrderShipments orderId={orderData.orderId} accessToken={accessToken} />
+        )}
 
-          {/* Order Totals */}
-          <div className="border-t border-gray-700 pt-6 mt-6">
-            <div className="space-y-2">
-              <div className="flex justify-between text-gray-300">
-                <span>Subtotal</span>
-                <span>{formatPrice(orderData.subtotal)}</span>
-              </div>
-              <div className="flex justify-between text-gray-300">
-                <span>Shipping</span>
-                <span>{orderData.shippingCost === 0 ? 'Free' : formatPrice(orderData.shippingCost)}</span>
-              </div>
-              <div className="flex justify-between text-gray-300">
-                <span>Tax</span>
-                <span>{formatPrice(orderData.taxAmount)}</span>
-              </div>
-              {orderData.codFee && orderData.codFee > 0 && (
-                <div className="flex justify-between text-gray-300">
-                  <span>Cash on Delivery Fee</span>
-                  <span>{formatPrice(orderData.codFee)}</span>
-                </div>
-              )}
-              <div className="border-t border-gray-700 pt-2">
-                <div className="flex justify-between text-lg font-bold text-gray-100">
-                  <span>Total</span>
-                  <span>{formatPrice(orderData.total)}</span>
-                </div>
-              </div>
-            </div>
-          </div>
-        </div>
+        <OrderDocuments orderId={orderData.orderId} accessToken={accessToken} />
 
-        {/* Delivery and Contact Info */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-8">
-          {/* Shipping Information */}
-          <div className="bg-gray-800 rounded-lg p-6">
-            <div className="flex items-center mb-4">
-              <Truck className="w-5 h-5 text-blue-400 mr-2" />
-              <h3 className="text-lg font-semibold text-gray-100">Shipping Information</h3>
-            </div>
-            <div className="space-y-2 text-gray-300">
-              <div className="flex items-center">
-                <MapPin className="w-4 h-4 mr-2 text-gray-400" />
-                <div>
-                  <p className="font-medium">{orderData.shippingAddress.fullName}</p>
-                  <p>{orderData.shippingAddress.addressLine1}</p>
-                  {orderData.shippingAddress.addressLine2 && (
-                    <p>{orderData.shippingAddress.addressLine2}</p>
-                  )}
-                  <p>
-                    {orderData.shippingAddress.city}, {orderData.shippingAddress.state} {orderData.shippingAddress.postalCode}
-                  </p>
-                  <p>{orderData.shippingAddress.country}</p>
-                </div>
-              </div>
-              <div className="flex items-center">
-                <Phone className="w-4 h-4 mr-2 text-gray-400" />
-                <span>{orderData.shippingAddress.phone}</span>
-              </div>
-              <div className="flex items-center">
-                <Mail className="w-4 h-4 mr-2 text-gray-400" />
-                <span>{orderData.shippingAddress.email}</span>
-              </div>
-            </div>
-          </div>
+        {RETURN_VISIBLE_STATUSES.includes(orderData.status) && (
+          <OrderReturns orderId={orderData.orderId} currency={orderData.currency} accessToken={accessToken} />
+        )}
 
-          {/* Delivery Details */}
-          <div className="bg-gray-800 rounded-lg p-6">
-            <div className="flex items-center mb-4">
-              <Calendar className="w-5 h-5 text-blue-400 mr-2" />
-              <h3 className="text-lg font-semibold text-gray-100">Delivery Details</h3>
-            </div>
-            <div className="space-y-3 text-gray-300">
-              <div>
-                <p className="font-medium">{orderData.deliveryMethod.name}</p>
-                <p className="text-sm text-gray-400">{orderData.deliveryMethod.estimatedDays}</p>
-              </div>
-              <div>
-                <p className="text-sm text-gray-400">Estimated Delivery</p>
-                <p className="font-medium">{new Date(orderData.estimatedDelivery).toLocaleDateString()}</p>
-              </div>
-              <div className="flex items-center">
-                <CreditCard className="w-4 h-4 mr-2 text-gray-400" />
-                <span className="capitalize">{orderData.paymentMethod.replace('_', ' ')}</span>
-              </div>
-            </div>
+        {CUSTOMER_CANCELLABLE_STATUSES.includes(orderData.status) && (
+          <div className="flex justify-center mb-8">
+            <CancelOrderPanel
+              orderId={orderData.orderId}
+              accessToken={accessToken}
+              onCancelled={() => fetchOrderData(orderData.orderId, accessToken)}
+            />
           </div>
-        </div>
+        )}
 
         {/* Action Buttons */}
         <div className="flex flex-col sm:flex-row gap-4 justify-center">
@@ -291,7 +154,7 @@ const OrderConfirmationPage: React.FC = () => {
             <div>
               <p className="text-blue-400 font-medium">Confirmation Email Sent</p>
               <p className="text-blue-300 text-sm">
-                A confirmation email has been sent to {orderData.shippingAddress.email} with your order details and tracking information.
+                A confirmation email has been sent to {orderData.shippingAddress.email} with your order details. Tracking numbers appear on this page once your order ships.
               </p>
             </div>
           </div>
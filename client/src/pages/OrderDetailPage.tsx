@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { useParams, Link, Navigate } from 'react-router-dom';
+import { Package, ArrowLeft, Download } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { api } from '../config/api';
+import { OrderDetailsData, CUSTOMER_CANCELLABLE_STATUSES, RETURN_VISIBLE_STATUSES, SHIPMENT_VISIBLE_STATUSES } from '../types/orders';
+import OrderDetails from '../components/orders/OrderDetails';
+import CancelOrderPanel from '../components/orders/CancelOrderPanel';
+import OrderReturns from '../components/orders/OrderReturns';
+import OrderShipments from '../components/orders/OrderShipments';
+import OrderDocuments from '../components/orders/OrderDocuments';
+
+const OrderDetailPage: React.FC = () => {
+  const { orderId } = useParams<{ orderId: string }>();
+  const { isAuthenticated, isLoading: isAuthLoading } = useAuth();
+  const [orderData, setOrderData] = useState<OrderDetailsData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isAuthenticated && orderId) {
+      fetchOrderData(orderId);
+    }
+  }, [isAuthenticated, orderId]);
+
+  const fetchOrderData = async (id: string) => {
+    try {
+      setIsLoading(true);
+      const response = await api.get(`api/orders/${id}`);
+      const result = await response.json();
+
+      if (result.success) {
+        setOrderData(result.data);
+      } else {
+        setError(result.message || 'Order not found');
+      }
+    } catch (error) {
+      console.error('Failed to fetch order:', error);
+      setError('Failed to load order details');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!isAuthLoading && !isAuthenticated) {
+    return <Navigate to="/signin" replace />;
+  }
+
+  if (isLoading || isAuthLoading) {
+    return (
+      <div className="min-h-screen bg-gray-900 pt-20 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-400 mx-auto mb-4"></div>
+          <p className="text-gray-400">Loading order details...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !orderData) {
+    return (
+      <div className="min-h-screen bg-gray-900 pt-20 flex items-center justify-center">
+        <div className="text-center">
+          <Package className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-100 mb-2">Order Not Found</h2>
+          <p className="text-gray-400 mb-6">{error || 'The order you are looking for does not exist.'}</p>
+          <Link
+            to="/orders"
+            className="bg-blue-500 hover:bg-blue-600 text-white px-6 py-3 rounded-lg transition-colors duration-200"
+          >
+            Back to My Orders
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 pt-20">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link
+          to="/orders"
+          className="inline-flex items-center text-gray-400 hover:text-blue-400 mb-6 transition-colors duration-200"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to My Orders
+        </Link>
+
+        <OrderDetails order={orderData} />
+
+        {SHIPMENT_VISIBLE_STATUSES.includes(orderData.status) && (
+          <OrderShipments orderId={orderData.orderId} />
+        )}
+
+        <OrderDocuments orderId={orderData.orderId} />
+
+        {RETURN_VISIBLE_STATUSES.includes(orderData.status) && (
+          <OrderReturns orderId={orderData.orderId} currency={orderData.currency} />
+        )}
+
+        {CUSTOMER_CANCELLABLE_STATUSES.includes(orderData.status) && (
+          <div className="flex justify-center mb-8">
+            <CancelOrderPanel orderId={orderData.orderId} onCancelled={() => fetchOrderData(orderData.orderId)} />
+          </div>
+        )}
+
+        {/* Action Buttons */}
+        <div className="flex justify-center">
+          <button
+            onClick={() => window.print()}
+            className="flex items-center justify-center px-6 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors duration-200"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Print Receipt
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrderDetailPage;
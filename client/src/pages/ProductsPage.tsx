@@ -3,6 +3,7 @@ import { Star, ShoppingCart, Eye, Filter, Grid, List, ArrowLeft, Package, Loader
 import { Link, useSearchParams } from 'react-router-dom';
 import ProductRating from '../components/ProductRating';
 import { api } from '../config/api';
+import { useCurrency } from '../hooks/useCurrency';
 
 interface Product {
   id: string;
@@ -41,6 +42,7 @@ interface CategoriesResponse {
 }
 
 const ProductsPage: React.FC = () => {
+  const { formatDisplayPrice } = useCurrency();
   const [searchParams, setSearchParams] = useSearchParams();
 
   // UI state
@@ -531,7 +533,7 @@ const ProductsPage: React.FC = () => {
                   {/* Price */}
                   <div className="flex items-center justify-between">
                     <div className="flex items-center space-x-2">
-                      <span className="text-2xl font-bold text-gray-100">${product.price.toFixed(2)}</span>
+                      <span className="text-2xl font-bold text-gray-100">{formatDisplayPrice(product.price)}</span>
                     </div>
                     <button
                       className={`px-4 py-2 rounded-lg transition-all duration-200 transform hover:-translate-y-0.5 ${
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Lock, Loader2, CheckCircle, Eye, EyeOff } from 'lucide-react';
+import { api } from '../config/api';
+
+// Opened from the link in the password reset email
+const ResetPasswordPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isDone, setIsDone] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password.length < 6) {
+      setError('Password must be at least 6 characters long');
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const response = await api.post('api/auth/reset-password', { token, password });
+      const result = await response.json();
+
+      if (result.success) {
+        setIsDone(true);
+      } else {
+        setError(result.errors?.[0]?.message || result.message || 'Failed to reset your password');
+      }
+    } catch (error) {
+      console.error('Failed to reset password:', error);
+      setError('Network error. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 pt-20">
+      <div className="max-w-md mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 bg-blue-500/10 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Lock className="w-8 h-8 text-blue-400" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-100 mb-2">Choose a New Password</h1>
+        </div>
+
+        {!token ? (
+          <div className="bg-gray-800 rounded-lg p-6 text-center">
+            <p className="text-gray-400 text-sm mb-6">
+              This page only works from the link in a password reset email.
+            </p>
+            <Link to="/forgot-password" className="text-blue-400 hover:text-blue-300 text-sm">
+              Request a reset link
+            </Link>
+          </div>
+        ) : isDone ? (
+          <div className="bg-gray-800 rounded-lg p-6 text-center">
+            <CheckCircle className="w-10 h-10 text-green-400 mx-auto mb-4" />
+            <p className="text-gray-100 mb-6">Your password has been changed.</p>
+            <Link
+              to="/signin"
+              className="inline-flex items-center justify-center px-6 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors duration-200"
+            >
+              Sign In
+            </Link>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="bg-gray-800 rounded-lg p-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">New Password</label>
+              <div className="relative">
+                <input
+                  type={showPassword ? 'text' : 'password'}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete="new-password"
+                  className="w-full px-4 py-3 pr-12 bg-gray-700 border border-gray-600 rounded-lg text-gray-100 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="At least 6 characters"
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowPassword(!showPassword)}
+                  className="absolute inset-y-0 right-0 pr-4 flex items-center text-gray-400 hover:text-gray-300"
+                >
+                  {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                </button>
+              </div>
+              <p className="mt-1 text-xs text-gray-500">Use upper and lower case letters and at least one number.</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Confirm New Password</label>
+              <input
+                type={showPassword ? 'text' : 'password'}
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                autoComplete="new-password"
+                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-gray-100 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm">
+                {error}
+                {error.includes('expired') && (
+                  <Link to="/forgot-password" className="block mt-2 text-blue-400 hover:text-blue-300">
+                    Request a new link
+                  </Link>
+                )}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full flex items-center justify-center px-6 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 transition-colors duration-200"
+            >
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Change Password
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResetPasswordPage;
@@ -170,9 +170,9 @@ const SignInPage: React.FC = () => {
               </div>
 
               <div className="text-sm">
-                <a href="#" className="text-blue-400 hover:text-blue-300 transition-colors duration-200">
+                <Link to="/forgot-password" className="text-blue-400 hover:text-blue-300 transition-colors duration-200">
                   Forgot your password?
-                </a>
+                </Link>
               </div>
             </div>
 
@@ -6,5 +6,11 @@ export { default as NotFoundPage } from './NotFoundPage';
 export { default as ProductsPage } from './ProductsPage';
 export { default as SignInPage } from './SignInPage';
 export { default as SignUpPage } from './SignUpPage';
+export { default as ForgotPasswordPage } from './ForgotPasswordPage';
+export { default as ResetPasswordPage } from './ResetPasswordPage';
 export { default as CheckoutPage } from './CheckoutPage';
+export { default as CheckoutRecoveryPage } from './CheckoutRecoveryPage';
 export { default as OrderConfirmationPage } from './OrderConfirmationPage';
+export { default as MyOrdersPage } from './MyOrdersPage';
+export { default as OrderDetailPage } from './OrderDetailPage';
+export { default as FindOrderPage } from './FindOrderPage';
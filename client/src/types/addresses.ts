@@ -0,0 +1,165 @@
+// ===============================================
+// ADDRESS BOOK TYPES - CLIENT SIDE
+// ===============================================
+
+export type AddressType = 'shipping' | 'billing';
+
+// The fields of an address form
+export interface AddressFormValues {
+  fullName: string;
+  phone: string;
+  addressLine1: string;
+  addressLine2: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  country: string;
+}
+
+// An entry of the signed-in customer's address book
+export interface SavedAddress extends Omit<AddressFormValues, 'addressLine2' | 'state' | 'postalCode'> {
+  id: string;
+  type: AddressType;
+  addressLine2: string | null;
+  state: string | null;
+  postalCode: string | null;
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Address fields whose presence and labels vary by country
+export type CountryAddressField = 'addressLine1' | 'addressLine2' | 'city' | 'state' | 'postalCode';
+
+export const COUNTRY_ADDRESS_FIELDS: CountryAddressField[] = ['addressLine1', 'addressLine2', 'city', 'state', 'postalCode'];
+
+export interface AddressFieldSchema {
+  label: string;
+  required: boolean;
+  placeholder?: string;
+}
+
+// How addresses are written in a country we ship to, from GET /api/addresses/formats
+export interface CountryAddressSchema {
+  country: string;
+  code: string;
+  fields: Partial<Record<CountryAddressField, AddressFieldSchema>>;
+  postalCodePattern: string | null;
+  postalCodeExample: string | null;
+  callingCode: string;
+  trunkPrefix: string | null;
+  phonePattern: string;
+  phoneExample: string;
+  format: string[];
+}
+
+// Fields asked for while no country is chosen, or for one we have no schema for
+export const DEFAULT_ADDRESS_FIELDS: Partial<Record<CountryAddressField, AddressFieldSchema>> = {
+  addressLine1: { label: 'Street address', required: true, placeholder: 'Street and house number' },
+  addressLine2: { label: 'Apartment, suite, etc.', required: false },
+  city: { label: 'City', required: true },
+  state: { label: 'State, province or region', required: false },
+  postalCode: { label: 'Postal code', required: false }
+};
+
+export const EMPTY_ADDRESS: AddressFormValues = {
+  fullName: '',
+  phone: '',
+  addressLine1: '',
+  addressLine2: '',
+  city: '',
+  state: '',
+  postalCode: '',
+  country: ''
+};
+
+// Form values of a saved address
+export const toAddressFormValues = (address: SavedAddress): AddressFormValues => ({
+  fullName: address.fullName,
+  phone: address.phone,
+  addressLine1: address.addressLine1,
+  addressLine2: address.addressLine2 || '',
+  city: address.city,
+  state: address.state || '',
+  postalCode: address.postalCode || '',
+  country: address.country
+});
+
+// One line summary, e.g. for a picker
+export const formatAddressLine = (address: SavedAddress | AddressFormValues): string => {
+  return [address.addressLine1, address.addressLine2, address.city, `${address.state || ''} ${address.postalCode || ''}`.trim(), address.country]
+    .filter(Boolean)
+    .join(', ');
+};
+
+export const findCountrySchema = (schemas: CountryAddressSchema[], country: string): CountryAddressSchema | null => {
+  const name = country.trim().toLowerCase();
+  return schemas.find(schema => schema.country.toLowerCase() === name) || null;
+};
+
+// Key of a field's error message, e.g. billingPostalCode, or postalCode without a prefix
+export const addressErrorKey = (prefix: string, field: string): string => {
+  return prefix ? prefix + field.charAt(0).toUpperCase() + field.slice(1) : field;
+};
+
+// The national number of a phone number typed in local or international form, or null
+const toNationalNumber = (schema: CountryAddressSchema, phone: string): string | null => {
+  const international = phone.trim().startsWith('+') || phone.trim().startsWith('00');
+  let digits = phone.replace(/\D/g, '');
+
+  if (international) {
+    digits = digits.replace(/^00/, '');
+    if (!digits.startsWith(schema.callingCode)) {
+      return null;
+    }
+    digits = digits.slice(schema.callingCode.length);
+  }
+
+  if (schema.trunkPrefix && digits.startsWith(schema.trunkPrefix) && !new RegExp(schema.phonePattern).test(digits)) {
+    digits = digits.slice(schema.trunkPrefix.length);
+  }
+  return digits;
+};
+
+/**
+ * Check an address form against its country's rules, as the server will
+ * Errors are keyed with addressErrorKey.
+ */
+export const validateAddressFields = (
+  values: AddressFormValues,
+  schema: CountryAddressSchema | null,
+  prefix = ''
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  const fields = schema ? schema.fields : DEFAULT_ADDRESS_FIELDS;
+
+  if (!values.fullName.trim()) errors[addressErrorKey(prefix, 'fullName')] = 'Full name is required';
+  if (!values.phone.trim()) errors[addressErrorKey(prefix, 'phone')] = 'Phone number is required';
+  if (!values.country.trim()) errors[addressErrorKey(prefix, 'country')] = 'Country is required';
+
+  for (const field of COUNTRY_ADDRESS_FIELDS) {
+    const rule = fields[field];
+    if (rule?.required && !values[field].trim()) {
+      errors[addressErrorKey(prefix, field)] = `${rule.label} is required`;
+    }
+  }
+
+  if (!schema) {
+    return errors;
+  }
+
+  const postalCode = values.postalCode.trim();
+  if (postalCode && schema.fields.postalCode && schema.postalCodePattern
+    && !new RegExp(schema.postalCodePattern, 'i').test(postalCode)) {
+    errors[addressErrorKey(prefix, 'postalCode')] = `${schema.fields.postalCode.label} should look like ${schema.postalCodeExample}`;
+  }
+
+  if (values.phone.trim()) {
+    const nationalNumber = toNationalNumber(schema, values.phone);
+    if (!nationalNumber || !new RegExp(schema.phonePattern).test(nationalNumber)) {
+      errors[addressErrorKey(prefix, 'phone')] = `Phone number should look like ${schema.phoneExample} or +${schema.callingCode} ...`;
+    }
+  }
+
+  return errors;
+};
@@ -7,7 +7,15 @@ export interface Category {
   created_at: string;
 }
 
-export interface Product {
+// Weight and parcel size used to price shipping - dimensions are optional
+export interface ProductShippingDetails {
+  weight_kg?: number;
+  length_cm?: number | null;
+  width_cm?: number | null;
+  height_cm?: number | null;
+}
+
+export interface Product extends ProductShippingDetails {
   id: string;
   name: string;
   description: string | null;
@@ -63,7 +71,7 @@ export interface AdminDeleteProductResponse {
   };
 }
 
-export interface CreateProductRequest {
+export interface CreateProductRequest extends ProductShippingDetails {
   name: string;
   description?: string;
   price: number;
@@ -72,7 +80,7 @@ export interface CreateProductRequest {
   image_url?: string;
 }
 
-export interface UpdateProductRequest {
+export interface UpdateProductRequest extends ProductShippingDetails {
   name: string;
   description?: string;
   price: number;
@@ -187,9 +195,11 @@ export interface ShippingAddress {
   addressLine1: string;
   addressLine2?: string;
   city: string;
-  state: string;
-  postalCode: string;
+  state: string | null;
+  postalCode: string | null;
   country: string;
+  // The address lines as written in its country, without name and phone
+  formattedLines: string[];
 }
 
 // Delivery method interface
@@ -206,13 +216,26 @@ export interface AdminOrder {
   customerEmail: string;
   customerName: string;
   status: OrderStatus;
+  // Statuses the server will accept next, in lifecycle order
+  allowedTransitions: OrderStatus[];
   subtotal: number;
   shippingCost: number;
   taxAmount: number;
   codFee: number;
   total: number;
+  // Amounts above are in the order currency; baseTotal is the total in the
+  // store's base currency at the order's exchange rate
+  currency: string;
+  exchangeRate: number;
+  baseTotal: number;
+  // Money sent back so far, and what the order is worth after it
+  refundedAmount: number;
+  netTotal: number;
   paymentMethod: string;
   orderNotes?: string;
+  // Set on cancelled orders
+  cancelledBy: StatusActorType | null;
+  cancellationReason: string | null;
   createdAt: string;
   items: OrderItem[];
   shippingAddress: ShippingAddress;
@@ -223,19 +246,108 @@ export interface AdminOrder {
 export enum OrderStatus {
   PENDING = 'pending',
   PAID = 'paid',
+  PROCESSING = 'processing',
+  PARTIALLY_SHIPPED = 'partially_shipped',
   SHIPPED = 'shipped',
-  CANCELLED = 'cancelled'
+  DELIVERED = 'delivered',
+  CANCELLED = 'cancelled',
+  REFUNDED = 'refunded',
+  RETURNED = 'returned'
+}
+
+// Who made a status change
+export type StatusActorType = 'customer' | 'admin' | 'system';
+
+// One row of an order's status timeline
+export interface OrderStatusHistoryEntry {
+  id: string;
+  fromStatus: OrderStatus | null;
+  toStatus: OrderStatus;
+  actorType: StatusActorType;
+  actorName: string | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+// Event staff should look at, such as a customer cancelling an order
+export interface AdminNotification {
+  id: string;
+  type: 'order_cancelled_by_customer' | 'return_requested' | 'payment_after_cancellation' | 'refund_failed';
+  orderId: string | null;
+  message: string;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export type WebhookEventStatus = 'pending' | 'processed' | 'failed';
+
+export const WEBHOOK_EVENT_STATUSES: WebhookEventStatus[] = ['pending', 'processed', 'failed'];
+
+// One payment webhook delivery as stored by the server
+export interface PaymentWebhookEvent {
+  id: string;
+  provider: string;
+  eventId: string;
+  eventType: string;
+  transactionId: string | null;
+  status: WebhookEventStatus;
+  attempts: number;
+  lastError: string | null;
+  // What processing changed, e.g. "Order marked paid"
+  outcome: string | null;
+  payload: unknown;
+  receivedAt: string;
+  processedAt: string | null;
+  nextRetryAt: string | null;
+}
+
+export type RefundStatus = 'pending' | 'succeeded' | 'failed';
+
+// One row of an order's refunds ledger
+export interface OrderRefund {
+  id: string;
+  paymentId: string;
+  orderId: string;
+  returnId: string | null;
+  amount: number;
+  reason: string | null;
+  status: RefundStatus;
+  provider: string;
+  providerRefundId: string | null;
+  failureReason: string | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+// Response data of GET/POST /api/admin/orders/:id/refunds
+export interface OrderRefundSummary {
+  capturedAmount: number;
+  refundedAmount: number;
+  refundableAmount: number;
+  refunds: OrderRefund[];
+}
+
+export interface AdminOrderHistoryResponse {
+  success: boolean;
+  message: string;
+  data: OrderStatusHistoryEntry[];
 }
 
 // Order statistics interface
 export interface OrderStats {
   totalOrders: number;
   pendingOrders: number;
+  paidOrders: number;
   processingOrders: number;
+  partiallyShippedOrders: number;
   shippedOrders: number;
   deliveredOrders: number;
   cancelledOrders: number;
+  refundedOrders: number;
+  returnedOrders: number;
+  // Net of refunds
   totalRevenue: number;
+  totalRefunded: number;
   averageOrderValue: number;
   ordersLast30Days: number;
 }
@@ -270,6 +382,7 @@ export interface AdminOrderStatusUpdateResponse {
     orderId: string;
     orderNumber: string;
     status: OrderStatus;
+    allowedTransitions: OrderStatus[];
     customerEmail: string;
     total: number;
     createdAt: string;
@@ -280,6 +393,7 @@ export interface AdminOrderStatusUpdateResponse {
 // Request interfaces
 export interface UpdateOrderStatusRequest {
   status: OrderStatus;
+  reason?: string | null;
 }
 
 export interface OrdersQueryParams {
@@ -298,10 +412,20 @@ export const getOrderStatusText = (status: OrderStatus): string => {
       return 'Pending';
     case OrderStatus.PAID:
       return 'Paid';
+    case OrderStatus.PROCESSING:
+      return 'Processing';
+    case OrderStatus.PARTIALLY_SHIPPED:
+      return 'Partially Shipped';
     case OrderStatus.SHIPPED:
       return 'Shipped';
+    case OrderStatus.DELIVERED:
+      return 'Delivered';
     case OrderStatus.CANCELLED:
       return 'Cancelled';
+    case OrderStatus.REFUNDED:
+      return 'Refunded';
+    case OrderStatus.RETURNED:
+      return 'Returned';
     default:
       return 'Unknown';
   }
@@ -313,36 +437,40 @@ export const getOrderStatusBadgeClasses = (status: OrderStatus): string => {
       return 'bg-yellow-100 text-yellow-800 border-yellow-200';
     case OrderStatus.PAID:
       return 'bg-blue-100 text-blue-800 border-blue-200';
+    case OrderStatus.PROCESSING:
+      return 'bg-indigo-100 text-indigo-800 border-indigo-200';
+    case OrderStatus.PARTIALLY_SHIPPED:
+      return 'bg-fuchsia-100 text-fuchsia-800 border-fuchsia-200';
     case OrderStatus.SHIPPED:
+      return 'bg-purple-100 text-purple-800 border-purple-200';
+    case OrderStatus.DELIVERED:
       return 'bg-green-100 text-green-800 border-green-200';
     case OrderStatus.CANCELLED:
       return 'bg-red-100 text-red-800 border-red-200';
+    case OrderStatus.REFUNDED:
+    case OrderStatus.RETURNED:
+      return 'bg-gray-100 text-gray-800 border-gray-200';
     default:
       return 'bg-gray-100 text-gray-800 border-gray-200';
   }
 };
 
-export const getNextOrderStatus = (currentStatus: OrderStatus): OrderStatus | null => {
-  switch (currentStatus) {
-    case OrderStatus.PENDING:
-      return OrderStatus.PAID;
-    case OrderStatus.PAID:
-      return OrderStatus.SHIPPED;
-    default:
-      return null; // shipped and cancelled are final states
-  }
+// Transitions that undo an order rather than move it forward - they ask for a reason
+export const isReversalStatus = (status: OrderStatus): boolean => {
+  return [OrderStatus.CANCELLED, OrderStatus.REFUNDED, OrderStatus.RETURNED].includes(status);
 };
 
-export const canUpdateOrderStatus = (currentStatus: OrderStatus, newStatus: OrderStatus): boolean => {
-  // Define valid status transitions based on your database schema
-  const validTransitions: { [key in OrderStatus]: OrderStatus[] } = {
-    [OrderStatus.PENDING]: [OrderStatus.PAID, OrderStatus.CANCELLED],
-    [OrderStatus.PAID]: [OrderStatus.SHIPPED, OrderStatus.CANCELLED],
-    [OrderStatus.SHIPPED]: [], // Final state - product delivered
-    [OrderStatus.CANCELLED]: [] // Final state
-  };
-
-  return validTransitions[currentStatus].includes(newStatus);
+export const getStatusActorText = (actorType: StatusActorType, actorName?: string | null): string => {
+  switch (actorType) {
+    case 'admin':
+      return actorName || 'Staff';
+    case 'customer':
+      return actorName ? `${actorName} (customer)` : 'Customer';
+    case 'system':
+      return 'System';
+    default:
+      return 'Unknown';
+  }
 };
 
 // Frontend-specific interfaces
@@ -373,7 +501,8 @@ export interface AdminOrdersPageState {
 // Component prop interfaces
 export interface OrderCardProps {
   order: AdminOrder;
-  onStatusUpdate: (orderId: string, newStatus: OrderStatus) => Promise<void>;
+  onStatusUpdate: (orderId: string, newStatus: OrderStatus, reason?: string) => Promise<void>;
+  onRefundIssued?: () => void;
   isUpdating?: boolean;
 }
 
@@ -391,10 +520,10 @@ export interface OrderFiltersProps {
 }
 
 // Utility functions for formatting
-export const formatCurrency = (amount: number): string => {
+export const formatCurrency = (amount: number, currency: string = 'USD'): string => {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: 'USD'
+    currency
   }).format(amount);
 };
 
@@ -0,0 +1,33 @@
+// ===============================================
+// INVOICE AND CREDIT NOTE TYPES - CLIENT SIDE
+// ===============================================
+
+export type BillingDocumentType = 'invoice' | 'credit_note';
+
+export const BILLING_DOCUMENT_TYPES: BillingDocumentType[] = ['invoice', 'credit_note'];
+
+export const BILLING_DOCUMENT_TYPE_LABELS: Record<BillingDocumentType, string> = {
+  invoice: 'Invoice',
+  credit_note: 'Credit note'
+};
+
+// An issued invoice or credit note - numbered separately from orders
+export interface BillingDocument {
+  id: string;
+  documentType: BillingDocumentType;
+  number: string;
+  orderId: string;
+  orderNumber: string;
+  // Set on credit notes
+  refundId: string | null;
+  currency: string;
+  total: number;
+  issuedAt: string;
+}
+
+// Response of GET /api/admin/documents
+export interface AdminDocumentsData {
+  documents: BillingDocument[];
+  // More documents match than one bulk download can hold
+  hasMore: boolean;
+}
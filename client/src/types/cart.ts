@@ -36,6 +36,24 @@ export interface CartItem {
   category?: string | null;
 }
 
+/** A cart line the server could not reserve stock for at checkout */
+export interface StockConflict {
+  /** Product ID from the database */
+  productId: string;
+  
+  /** Product name */
+  name: string;
+  
+  /** Quantity the order asked for */
+  requested: number;
+  
+  /** Units still in stock */
+  available: number;
+  
+  /** Short message to show next to the item */
+  message: string;
+}
+
 export interface CartState {
   /** Array of items in the cart */
   items: CartItem[];
@@ -51,6 +69,9 @@ export interface CartState {
   
   /** Last updated timestamp */
   lastUpdated: string;
+  
+  /** Stock problems reported by the server for the current cart */
+  stockConflicts: StockConflict[];
 }
 
 export interface CartActions {
@@ -66,6 +87,9 @@ export interface CartActions {
   /** Clear all items from cart */
   clearCart: () => void;
   
+  /** Replace the whole cart, e.g. with a restored checkout */
+  replaceItems: (items: Omit<CartItem, 'id' | 'addedAt'>[]) => void;
+  
   /** Get specific item from cart */
   getItem: (productId: string, variants?: Record<string, string>) => CartItem | undefined;
   
@@ -74,6 +98,15 @@ export interface CartActions {
   
   /** Get total quantity for a specific product */
   getProductQuantity: (productId: string) => number;
+  
+  /** Record stock conflicts and cap affected items at the available stock */
+  applyStockConflicts: (conflicts: StockConflict[]) => void;
+  
+  /** Dismiss all stock conflicts */
+  clearStockConflicts: () => void;
+  
+  /** Get the stock conflict for a product, if any */
+  getStockConflict: (productId: string) => StockConflict | undefined;
 }
 
 export interface CartContextType extends CartState, CartActions {}
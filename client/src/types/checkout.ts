@@ -0,0 +1,164 @@
+// ===============================================
+// CHECKOUT TYPES - CLIENT SIDE
+// ===============================================
+
+import { TaxLine } from './tax';
+import { AddressFormValues } from './addresses';
+
+// Item priced by the server from the current catalog
+export interface PricedItem {
+  productId: string;
+  categoryId: string | null;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+}
+
+// One row of the server-side order summary
+export interface PriceBreakdownLine {
+  code: 'subtotal' | 'shipping' | 'discount' | 'tax' | 'cod_fee' | 'total';
+  label: string;
+  amount: number;
+}
+
+// Discount granted by a coupon code
+export interface AppliedDiscount {
+  promotionId: string;
+  code: string;
+  description: string | null;
+  discountType: 'percentage' | 'fixed_amount' | 'free_shipping';
+  itemDiscount: number;
+  shippingDiscount: number;
+  discountAmount: number;
+}
+
+// Outcome of applying a coupon code to the cart
+export interface CouponResult {
+  code: string;
+  valid: boolean;
+  message?: string;
+  discount?: AppliedDiscount;
+}
+
+// Server quote returned by POST /api/orders/quote and POST /api/orders
+// Amounts are in the order currency
+export interface OrderPricing {
+  currency: string;
+  // Order currency units per 1 unit of the store's base currency
+  exchangeRate: number;
+  items: PricedItem[];
+  subtotal: number;
+  shippingCost: number;
+  discountAmount: number;
+  coupon: CouponResult | null;
+  // Effective rate across all tax lines
+  taxRate: number;
+  taxAmount: number;
+  taxLines: TaxLine[];
+  codFee: number;
+  total: number;
+  breakdown: PriceBreakdownLine[];
+}
+
+export interface OrderQuoteResponse {
+  success: boolean;
+  message?: string;
+  data?: OrderPricing;
+}
+
+// Error codes returned by POST /api/orders
+export const ORDER_ERROR_CODES = {
+  PRICE_CHANGED: 'PRICE_CHANGED',
+  INSUFFICIENT_STOCK: 'INSUFFICIENT_STOCK',
+  IDEMPOTENCY_KEY_REUSED: 'IDEMPOTENCY_KEY_REUSED',
+  IDEMPOTENCY_REQUEST_IN_PROGRESS: 'IDEMPOTENCY_REQUEST_IN_PROGRESS',
+  COUPON_INVALID: 'COUPON_INVALID',
+} as const;
+
+// Outcome of taking the payment for an order
+export interface PaymentAttempt {
+  paymentId: string;
+  // authorized - accepted, the provider confirms the capture shortly
+  status: 'initiated' | 'requires_action' | 'authorized' | 'success' | 'failed';
+  // Present when the customer's bank wants them to confirm the payment
+  challenge?: {
+    message: string;
+  };
+  failureReason?: string;
+}
+
+// Returned by POST /api/orders/:id/payments and the challenge endpoint
+export const PAYMENT_ERROR_CODES = {
+  PAYMENT_DECLINED: 'PAYMENT_DECLINED',
+} as const;
+
+// The checkout form as saved with a draft - never payment details
+export interface CheckoutDraftForm {
+  shippingAddress: Partial<AddressFormValues>;
+  billingSameAsShipping: boolean;
+  billingAddress: Partial<AddressFormValues> | null;
+  deliveryMethodId: string | null;
+  couponCode: string | null;
+  orderNotes: string | null;
+}
+
+// The draft this browser is filling in, kept across reloads
+export interface CheckoutDraftRef {
+  draftId: string;
+  token: string;
+}
+
+export const CHECKOUT_DRAFT_STORAGE_KEY = 'zineshop_checkout_draft';
+
+// A cart line of a restored checkout, with the product as it is now
+export interface RestoredCheckoutItem {
+  productId: string;
+  quantity: number;
+  variants?: Record<string, string>;
+  name: string;
+  price: number;
+  image: string | null;
+  maxStock: number;
+  category: string | null;
+}
+
+export interface RestoredCheckout {
+  draftId: string;
+  email: string;
+  items: RestoredCheckoutItem[];
+  unavailableCount: number;
+  form: CheckoutDraftForm;
+  currency: string | null;
+}
+
+export type CheckoutDraftStatus = 'open' | 'reminded' | 'converted' | 'closed';
+
+// A reminded checkout as listed to admins
+export interface CheckoutDraftSummary {
+  id: string;
+  email: string;
+  status: CheckoutDraftStatus;
+  itemCount: number;
+  orderId: string | null;
+  orderNumber: string | null;
+  orderTotal: number | null;
+  reminderSentAt: string | null;
+  restoredAt: string | null;
+  convertedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CheckoutRecoveryStats {
+  days: number;
+  captured: number;
+  converted: number;
+  abandoned: number;
+  restored: number;
+  recovered: number;
+  recoveryRate: number;
+  recoveredRevenue: number;
+  baseCurrency: string;
+  drafts: CheckoutDraftSummary[];
+}
@@ -0,0 +1,95 @@
+// ===============================================
+// CASH ON DELIVERY TYPES - CLIENT SIDE
+// ===============================================
+
+export type CodCollectionStatus = 'awaiting_collection' | 'collected' | 'failed' | 'refused';
+
+export const COD_COLLECTION_STATUSES: CodCollectionStatus[] = ['awaiting_collection', 'collected', 'failed', 'refused'];
+
+export const COD_COLLECTION_STATUS_LABELS: Record<CodCollectionStatus, string> = {
+  awaiting_collection: 'Awaiting Collection',
+  collected: 'Collected',
+  failed: 'Failed Attempt',
+  refused: 'Refused',
+};
+
+export type RemittanceStatus = 'reconciled' | 'discrepancy' | 'resolved';
+
+// Cash the courier should collect for one shipped order
+export interface CodCollection {
+  id: string;
+  orderId: string;
+  orderNumber: string;
+  orderStatus: string;
+  customerEmail: string;
+  expectedAmount: number;
+  collectedAmount: number | null;
+  status: CodCollectionStatus;
+  driverReference: string | null;
+  note: string | null;
+  remittanceId: string | null;
+  remittanceReference: string | null;
+  collectedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Cash paid in by a courier for a batch of collections
+export interface CodRemittance {
+  id: string;
+  reference: string;
+  courier: string;
+  expectedAmount: number;
+  receivedAmount: number;
+  // Negative when the courier paid in too little
+  difference: number;
+  status: RemittanceStatus;
+  note: string | null;
+  collectionCount: number;
+  createdByName: string | null;
+  receivedAt: string;
+}
+
+export interface CodReceivablesReport {
+  awaitingCollection: { count: number; amount: number };
+  heldByCourier: { count: number; amount: number };
+  totalOutstanding: number;
+  aging: Array<{ label: string; count: number; amount: number }>;
+  collections: Array<CodCollection & { ageDays: number }>;
+}
+
+// Body of PUT /api/admin/cod/collections/:orderId
+export interface CollectionOutcomeRequest {
+  status: CodCollectionStatus;
+  amount?: number;
+  driverReference?: string;
+  note?: string;
+}
+
+export const getCollectionStatusClasses = (status: CodCollectionStatus): string => {
+  switch (status) {
+    case 'awaiting_collection':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'collected':
+      return 'bg-green-100 text-green-800';
+    case 'failed':
+      return 'bg-orange-100 text-orange-800';
+    case 'refused':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+export const getRemittanceStatusClasses = (status: RemittanceStatus): string => {
+  switch (status) {
+    case 'reconciled':
+      return 'bg-green-100 text-green-800';
+    case 'discrepancy':
+      return 'bg-red-100 text-red-800';
+    case 'resolved':
+      return 'bg-blue-100 text-blue-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
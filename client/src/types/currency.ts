@@ -0,0 +1,51 @@
+// ===============================================
+// CURRENCY TYPES - CLIENT SIDE
+// ===============================================
+
+// A currency customers can shop in, from GET /api/currencies
+export interface Currency {
+  code: string;
+  name: string;
+  // Minor units prices are rounded to, e.g. 2 for cents
+  decimals: number;
+  // Units of this currency per 1 unit of the base currency
+  rate: number;
+  // Catalog prices are in the base currency
+  isBase: boolean;
+}
+
+// A currency as managed in the admin settings
+export interface AdminCurrency extends Currency {
+  isEnabled: boolean;
+  rateUpdatedAt: string | null;
+}
+
+// What the currency context provides
+export interface CurrencyContextType {
+  // Enabled currencies, base currency first
+  currencies: Currency[];
+  // Selected currency - null until the currencies are loaded
+  currency: Currency | null;
+  setCurrency: (code: string) => void;
+  // Convert a base-currency amount to the selected currency
+  convertPrice: (baseAmount: number) => number;
+  // Convert and format a base-currency amount, e.g. "€18.39"
+  formatDisplayPrice: (baseAmount: number) => string;
+}
+
+// Body of POST /api/admin/currencies and PUT /api/admin/currencies/:code
+export interface CurrencyRequest {
+  code?: string;
+  name?: string;
+  decimals?: number;
+  rate?: number;
+  isEnabled?: boolean;
+}
+
+/**
+ * Convert a base-currency amount the way the server does when pricing an order
+ */
+export const convertFromBase = (amount: number, currency: Currency): number => {
+  const factor = Math.pow(10, currency.decimals);
+  return Math.round((amount * currency.rate + Number.EPSILON) * factor) / factor;
+};
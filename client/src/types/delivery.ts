@@ -0,0 +1,42 @@
+// ===============================================
+// DELIVERY TYPES - CLIENT SIDE
+// ===============================================
+
+// Calendar dates (YYYY-MM-DD, store time) an order should arrive between
+export interface DeliveryEstimate {
+  dispatchDate: string;
+  earliest: string;
+  latest: string;
+}
+
+// A day the store does not ship
+export interface StoreHoliday {
+  id: string;
+  date: string;
+  name: string;
+  createdAt: string;
+}
+
+// Body of POST /api/admin/holidays
+export interface StoreHolidayRequest {
+  date: string;
+  name: string;
+}
+
+// Read a YYYY-MM-DD date as a local calendar day so no timezone moves it
+const parseCalendarDate = (date: string): Date => new Date(`${date}T00:00:00`);
+
+export const formatCalendarDate = (date: string, options: Intl.DateTimeFormatOptions = {
+  weekday: 'short',
+  month: 'short',
+  day: 'numeric'
+}): string => {
+  return parseCalendarDate(date).toLocaleDateString('en-US', options);
+};
+
+// "Tue, Oct 20 - Thu, Oct 22", or a single day when both ends match
+export const formatDeliveryEstimate = (estimate: DeliveryEstimate): string => {
+  return estimate.earliest === estimate.latest
+    ? formatCalendarDate(estimate.latest)
+    : `${formatCalendarDate(estimate.earliest)} - ${formatCalendarDate(estimate.latest)}`;
+};
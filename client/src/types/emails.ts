@@ -0,0 +1,52 @@
+// ===============================================
+// TRANSACTIONAL EMAIL TYPES - CLIENT SIDE
+// ===============================================
+
+export type EmailStatus = 'pending' | 'sent' | 'failed';
+
+export const EMAIL_STATUSES: EmailStatus[] = ['pending', 'sent', 'failed'];
+
+export type EmailTemplate =
+  | 'order_placed'
+  | 'order_paid'
+  | 'order_shipped'
+  | 'order_cancelled'
+  | 'refund_issued'
+  | 'order_lookup'
+  | 'password_reset'
+  | 'checkout_recovery';
+
+export const EMAIL_TEMPLATE_LABELS: Record<EmailTemplate, string> = {
+  order_placed: 'Order confirmation',
+  order_paid: 'Payment received',
+  order_shipped: 'Shipment',
+  order_cancelled: 'Cancellation',
+  refund_issued: 'Refund',
+  order_lookup: 'Order link',
+  password_reset: 'Password reset',
+  checkout_recovery: 'Abandoned checkout'
+};
+
+// One outbox entry - bodies are only loaded when it is opened
+export interface OutboxEmail {
+  id: string;
+  template: EmailTemplate;
+  recipient: string;
+  subject: string;
+  orderId: string | null;
+  orderNumber: string | null;
+  resentFromId: string | null;
+  status: EmailStatus;
+  attempts: number;
+  lastError: string | null;
+  transport: string | null;
+  messageId: string | null;
+  createdAt: string;
+  sentAt: string | null;
+  nextAttemptAt: string | null;
+}
+
+export interface OutboxEmailWithBody extends OutboxEmail {
+  htmlBody: string;
+  textBody: string;
+}
@@ -0,0 +1,198 @@
+// ===============================================
+// CUSTOMER ORDER TYPES - CLIENT SIDE
+// ===============================================
+
+import { TaxLine } from './tax';
+import { DeliveryEstimate } from './delivery';
+
+// Full order as returned by GET /api/orders/:id
+export interface OrderDetailsData {
+  orderId: string;
+  orderNumber: string;
+  // Only returned when the order is created - opens the order without signing in
+  accessToken?: string;
+  status: string;
+  // Currency the order was placed and paid in - all amounts are in it
+  currency: string;
+  total: number;
+  subtotal: number;
+  shippingCost: number;
+  discountAmount?: number;
+  promotionCode?: string | null;
+  taxAmount: number;
+  taxLines?: TaxLine[];
+  codFee?: number;
+  items: Array<{
+    id: string;
+    name: string;
+    quantity: number;
+    unitPrice: number;
+    image?: string;
+  }>;
+  shippingAddress: {
+    fullName: string;
+    phone: string;
+    email: string;
+    addressLine1: string;
+    addressLine2?: string;
+    city: string;
+    state: string | null;
+    postalCode: string | null;
+    country: string;
+    // The address lines as written in its country, without name and phone
+    formattedLines: string[];
+  };
+  deliveryMethod: {
+    name: string;
+    estimatedDays: string;
+  };
+  paymentMethod: string;
+  statusHistory?: OrderStatusChange[];
+  refundedAmount?: number;
+  refunds?: OrderRefundEntry[];
+  createdAt: string;
+  // Latest expected delivery date (YYYY-MM-DD) - null once the delivery method is gone
+  estimatedDelivery: string | null;
+  deliveryEstimate: DeliveryEstimate | null;
+}
+
+// Money sent back to the customer
+export interface OrderRefundEntry {
+  amount: number;
+  status: 'pending' | 'succeeded';
+  createdAt: string;
+}
+
+// One step of the order timeline shown to the customer
+export interface OrderStatusChange {
+  fromStatus: string | null;
+  toStatus: string;
+  actorType: 'customer' | 'admin' | 'system';
+  reason: string | null;
+  createdAt: string;
+}
+
+// Item thumbnail on an order history row
+export interface OrderHistoryItem {
+  productId: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  image: string | null;
+}
+
+// One row of GET /api/orders
+export interface OrderHistoryEntry {
+  orderId: string;
+  orderNumber: string;
+  status: string;
+  currency: string;
+  total: number;
+  refundedAmount: number;
+  paymentMethod: string;
+  deliveryMethod: string | null;
+  itemCount: number;
+  items: OrderHistoryItem[];
+  createdAt: string;
+}
+
+export interface OrderHistoryResponse {
+  success: boolean;
+  message?: string;
+  data: {
+    orders: OrderHistoryEntry[];
+    pagination: {
+      currentPage: number;
+      totalPages: number;
+      totalOrders: number;
+      hasNextPage: boolean;
+      hasPrevPage: boolean;
+      limit: number;
+    };
+  };
+}
+
+// Body of POST /api/orders/lookup
+export interface OrderLookupRequest {
+  orderNumber: string;
+  email: string;
+}
+
+// Status filter tabs on the My Orders page
+export const ORDER_HISTORY_FILTERS: Array<{ value: string; label: string }> = [
+  { value: 'all', label: 'All Orders' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'paid', label: 'Paid' },
+  { value: 'processing', label: 'Processing' },
+  { value: 'partially_shipped', label: 'Partially Shipped' },
+  { value: 'shipped', label: 'Shipped' },
+  { value: 'delivered', label: 'Delivered' },
+  { value: 'cancelled', label: 'Cancelled' },
+  { value: 'refunded', label: 'Refunded' },
+  { value: 'returned', label: 'Returned' },
+];
+
+export const formatOrderStatus = (status: string): string => {
+  return status.charAt(0).toUpperCase() + status.slice(1).replace(/_/g, ' ');
+};
+
+// Badge colours for the dark storefront theme
+export const getOrderStatusClasses = (status: string): string => {
+  switch (status) {
+    case 'pending':
+      return 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20';
+    case 'paid':
+      return 'bg-blue-500/10 text-blue-400 border-blue-500/20';
+    case 'processing':
+      return 'bg-indigo-500/10 text-indigo-400 border-indigo-500/20';
+    case 'partially_shipped':
+      return 'bg-fuchsia-500/10 text-fuchsia-400 border-fuchsia-500/20';
+    case 'shipped':
+      return 'bg-purple-500/10 text-purple-400 border-purple-500/20';
+    case 'delivered':
+      return 'bg-green-500/10 text-green-400 border-green-500/20';
+    case 'cancelled':
+      return 'bg-red-500/10 text-red-400 border-red-500/20';
+    default:
+      return 'bg-gray-500/10 text-gray-400 border-gray-500/20';
+  }
+};
+
+// Who made a change, as told to the customer
+export const describeStatusActor = (actorType: OrderStatusChange['actorType']): string => {
+  switch (actorType) {
+    case 'customer':
+      return 'You';
+    case 'admin':
+      return 'Our team';
+    case 'system':
+      return 'Automatically';
+    default:
+      return '';
+  }
+};
+
+// Orders customers can still cancel themselves
+export const CUSTOMER_CANCELLABLE_STATUSES = ['pending', 'paid'];
+
+// Orders that were delivered, so may have returns
+export const RETURN_VISIBLE_STATUSES = ['delivered', 'returned', 'refunded'];
+
+// Reasons offered when cancelling - keys match the server
+export const CANCELLATION_REASONS: Array<{ value: string; label: string }> = [
+  { value: 'changed_mind', label: 'Changed my mind' },
+  { value: 'ordered_by_mistake', label: 'Ordered by mistake' },
+  { value: 'found_better_price', label: 'Found a better price elsewhere' },
+  { value: 'delivery_too_slow', label: 'Delivery would take too long' },
+  { value: 'wrong_details', label: 'Wrong address or order details' },
+  { value: 'other', label: 'Other' },
+];
+
+// Body of POST /api/orders/:id/cancel
+export interface OrderCancelRequest {
+  reason: string;
+  note?: string;
+}
+
+// Orders that have left the warehouse, so may have shipments to track
+export const SHIPMENT_VISIBLE_STATUSES = ['partially_shipped', 'shipped', 'delivered', 'returned', 'refunded'];
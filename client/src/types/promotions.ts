@@ -0,0 +1,75 @@
+// ===============================================
+// PROMOTION TYPES - CLIENT SIDE
+// ===============================================
+
+import { formatPrice } from '../utils/cartUtils';
+
+export type DiscountType = 'percentage' | 'fixed_amount' | 'free_shipping';
+
+// Promotion code as listed in the admin
+export interface Promotion {
+  id: string;
+  code: string;
+  description: string | null;
+  discountType: DiscountType;
+  discountValue: number;
+  minSubtotal: number;
+  startsAt: string | null;
+  endsAt: string | null;
+  usageLimit: number | null;
+  perCustomerLimit: number | null;
+  categoryIds: string[];
+  productIds: string[];
+  isActive: boolean;
+  timesUsed: number;
+  totalDiscount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Body of POST/PUT /api/admin/promotions
+export interface PromotionRequest {
+  code: string;
+  description: string | null;
+  discountType: DiscountType;
+  discountValue: number;
+  minSubtotal: number;
+  startsAt: string | null;
+  endsAt: string | null;
+  usageLimit: number | null;
+  perCustomerLimit: number | null;
+  categoryIds: string[];
+  productIds: string[];
+  isActive: boolean;
+}
+
+// An order that used a promotion code
+export interface PromotionRedemption {
+  id: string;
+  orderId: string;
+  orderNumber: string;
+  orderStatus: string;
+  orderTotal: number;
+  customerName: string;
+  customerEmail: string | null;
+  discountAmount: number;
+  redeemedAt: string;
+}
+
+export const DISCOUNT_TYPE_LABELS: Record<DiscountType, string> = {
+  percentage: 'Percentage off',
+  fixed_amount: 'Fixed amount off',
+  free_shipping: 'Free shipping',
+};
+
+// Short description of the discount, e.g. "15% off" or "$10.00 off"
+export const describeDiscount = (promotion: Pick<Promotion, 'discountType' | 'discountValue'>): string => {
+  switch (promotion.discountType) {
+    case 'percentage':
+      return `${promotion.discountValue}% off`;
+    case 'fixed_amount':
+      return `${formatPrice(promotion.discountValue)} off`;
+    case 'free_shipping':
+      return 'Free shipping';
+  }
+};
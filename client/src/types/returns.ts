@@ -0,0 +1,159 @@
+// ===============================================
+// RETURN TYPES - CLIENT SIDE
+// ===============================================
+
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'received' | 'refunded';
+
+export type ReturnDisposition = 'restock' | 'write_off';
+
+export const RETURN_STATUSES: ReturnStatus[] = ['requested', 'approved', 'rejected', 'received', 'refunded'];
+
+// One returned order line
+export interface ReturnItem {
+  id: string;
+  orderItemId: string;
+  productId: string;
+  name: string;
+  image: string | null;
+  unitPrice: number;
+  quantity: number;
+  // Net amount paid for these units, after discount and with tax
+  refundableAmount: number;
+  reason: string;
+  condition: string;
+  disposition: ReturnDisposition | null;
+}
+
+// Return request (RMA) as returned by the API
+export interface ReturnRequest {
+  id: string;
+  rmaNumber: string;
+  orderId: string;
+  orderNumber: string;
+  orderStatus: string;
+  customerEmail: string;
+  // Currency of the order - refunds and item prices are in it
+  currency: string;
+  status: ReturnStatus;
+  customerNote: string | null;
+  adminNote: string | null;
+  refundAmount: number | null;
+  items: ReturnItem[];
+  createdAt: string;
+  decidedAt: string | null;
+  receivedAt: string | null;
+  refundedAt: string | null;
+}
+
+// Order line with the units that can still be sent back
+export interface ReturnableItem {
+  orderItemId: string;
+  productId: string;
+  name: string;
+  image: string | null;
+  unitPrice: number;
+  quantity: number;
+  returnableQuantity: number;
+}
+
+// Response of GET /api/orders/:id/returns
+export interface OrderReturnsData {
+  returns: ReturnRequest[];
+  returnableItems: ReturnableItem[];
+}
+
+// Body of POST /api/orders/:id/returns
+export interface CreateReturnRequest {
+  items: Array<{
+    orderItemId: string;
+    quantity: number;
+    reason: string;
+    condition: string;
+  }>;
+  note?: string;
+}
+
+// Response of GET /api/admin/returns
+export interface AdminReturnsData {
+  returns: ReturnRequest[];
+  counts: Record<ReturnStatus, number>;
+}
+
+// Keys match the server
+export const RETURN_REASONS: Record<string, string> = {
+  damaged: 'Arrived damaged',
+  defective: 'Defective or does not work',
+  wrong_item: 'Wrong item sent',
+  not_as_described: 'Not as described',
+  no_longer_needed: 'No longer needed',
+  other: 'Other'
+};
+
+export const ITEM_CONDITIONS: Record<string, string> = {
+  unopened: 'Unopened',
+  opened: 'Opened, unused',
+  used: 'Used',
+  damaged: 'Damaged'
+};
+
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: 'Requested',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  received: 'Received',
+  refunded: 'Refunded'
+};
+
+// Badge colours for the light admin theme
+export const getReturnStatusBadgeClasses = (status: ReturnStatus): string => {
+  switch (status) {
+    case 'requested':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'approved':
+      return 'bg-blue-100 text-blue-800';
+    case 'rejected':
+      return 'bg-red-100 text-red-800';
+    case 'received':
+      return 'bg-purple-100 text-purple-800';
+    case 'refunded':
+      return 'bg-green-100 text-green-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+// Badge colours for the dark storefront theme
+export const getReturnStatusClasses = (status: ReturnStatus): string => {
+  switch (status) {
+    case 'requested':
+      return 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20';
+    case 'approved':
+      return 'bg-blue-500/10 text-blue-400 border-blue-500/20';
+    case 'rejected':
+      return 'bg-red-500/10 text-red-400 border-red-500/20';
+    case 'received':
+      return 'bg-purple-500/10 text-purple-400 border-purple-500/20';
+    case 'refunded':
+      return 'bg-green-500/10 text-green-400 border-green-500/20';
+    default:
+      return 'bg-gray-500/10 text-gray-400 border-gray-500/20';
+  }
+};
+
+// What the customer should expect next
+export const describeReturnStatus = (status: ReturnStatus): string => {
+  switch (status) {
+    case 'requested':
+      return 'We are reviewing your request.';
+    case 'approved':
+      return 'Approved - please send the items back to us.';
+    case 'rejected':
+      return 'This return was not accepted.';
+    case 'received':
+      return 'We have received your items and will refund you shortly.';
+    case 'refunded':
+      return 'Your refund has been issued.';
+    default:
+      return '';
+  }
+};
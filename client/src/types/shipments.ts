@@ -0,0 +1,89 @@
+// ===============================================
+// SHIPMENT TYPES - CLIENT SIDE
+// ===============================================
+
+export type ShipmentStatus = 'in_transit' | 'delivered';
+
+// Carriers offered when recording a shipment - keys match the server
+export const CARRIERS: Array<{ value: string; label: string }> = [
+  { value: 'ups', label: 'UPS' },
+  { value: 'fedex', label: 'FedEx' },
+  { value: 'usps', label: 'USPS' },
+  { value: 'dhl', label: 'DHL' },
+  { value: 'other', label: 'Other' }
+];
+
+export const SHIPMENT_STATUS_LABELS: Record<ShipmentStatus, string> = {
+  in_transit: 'In Transit',
+  delivered: 'Delivered'
+};
+
+// Order line in a shipment
+export interface ShipmentItem {
+  id: string;
+  orderItemId: string;
+  productId: string;
+  name: string;
+  image: string | null;
+  quantity: number;
+}
+
+// Parcel handed to a carrier, as returned by the API
+export interface Shipment {
+  id: string;
+  orderId: string;
+  carrier: string;
+  carrierName: string;
+  trackingNumber: string;
+  // Null for carriers without a known tracking page
+  trackingUrl: string | null;
+  status: ShipmentStatus;
+  items: ShipmentItem[];
+  shippedAt: string;
+  deliveredAt: string | null;
+}
+
+// Order line with the units not yet put in a shipment
+export interface ShippableItem {
+  orderItemId: string;
+  productId: string;
+  name: string;
+  image: string | null;
+  quantity: number;
+  unshippedQuantity: number;
+}
+
+// Response of GET /api/admin/orders/:id/shipments
+export interface OrderShipmentsSummary {
+  shipments: Shipment[];
+  shippableItems: ShippableItem[];
+}
+
+// Response of GET /api/orders/:id/shipments
+export interface CustomerShipmentsData {
+  shipments: Shipment[];
+  // Only filled in while the order is still being fulfilled
+  unshippedItems: ShippableItem[];
+}
+
+// Order with units still to ship, as listed in the fulfillment queue
+export interface FulfillmentQueueEntry {
+  orderId: string;
+  orderNumber: string;
+  orderStatus: string;
+  customerName: string;
+  customerEmail: string;
+  shipmentCount: number;
+  unshippedUnits: number;
+  // Only the lines with something left to ship
+  items: ShippableItem[];
+  createdAt: string;
+}
+
+// Body of POST /api/admin/orders/:id/shipments - no items ships everything remaining
+export interface CreateShipmentRequest {
+  carrier: string;
+  trackingNumber: string;
+  shippedAt?: string;
+  items?: Array<{ orderItemId: string; quantity: number }>;
+}
@@ -0,0 +1,79 @@
+// ===============================================
+// SHIPPING ZONE AND RATE TYPES - CLIENT SIDE
+// ===============================================
+
+export type ShippingRateType = 'weight' | 'subtotal' | 'free_over';
+
+export const SHIPPING_RATE_TYPE_LABELS: Record<ShippingRateType, string> = {
+  weight: 'By weight',
+  subtotal: 'By order subtotal',
+  free_over: 'Free over a threshold'
+};
+
+// A place covered by a zone - no region covers the whole country
+export interface ShippingZoneRegion {
+  country: string;
+  region: string | null;
+}
+
+export interface ShippingZone {
+  id: string;
+  name: string;
+  // Catches destinations no other zone lists
+  isRestOfWorld: boolean;
+  regions: ShippingZoneRegion[];
+}
+
+// Body of POST/PUT /api/admin/shipping-zones
+export interface ShippingZoneRequest {
+  name: string;
+  isRestOfWorld: boolean;
+  regions: ShippingZoneRegion[];
+}
+
+// Price for carts whose weight (kg) or subtotal is from minValue up to, not including, maxValue
+export interface ShippingRateBracket {
+  minValue: number;
+  maxValue: number | null;
+  price: number;
+}
+
+// How a delivery method is priced in a zone
+export interface ShippingRate {
+  id: string;
+  deliveryMethodId: string;
+  zoneId: string;
+  rateType: ShippingRateType;
+  // Only used by free_over rates
+  basePrice: number | null;
+  freeOverAmount: number | null;
+  brackets: ShippingRateBracket[];
+}
+
+// Body of PUT /api/admin/shipping-rates
+export interface ShippingRateRequest {
+  deliveryMethodId: string;
+  zoneId: string;
+  rateType: ShippingRateType;
+  basePrice?: number;
+  freeOverAmount?: number;
+  brackets?: ShippingRateBracket[];
+}
+
+export interface AdminDeliveryMethod {
+  id: string;
+  name: string;
+  estimatedDays: string;
+  isActive: boolean;
+}
+
+// Response of GET /api/admin/shipping-rates
+export interface ShippingRatesData {
+  rates: ShippingRate[];
+  zones: ShippingZone[];
+  deliveryMethods: AdminDeliveryMethod[];
+}
+
+export const describeZoneRegion = (place: ShippingZoneRegion): string => {
+  return place.region ? `${place.region}, ${place.country}` : place.country;
+};
@@ -0,0 +1,59 @@
+// ===============================================
+// TAX TYPES - CLIENT SIDE
+// ===============================================
+
+export type TaxJurisdiction = 'country' | 'region' | 'postal_code';
+
+// Tax rule as managed in the admin settings
+export interface TaxRule {
+  id: string;
+  name: string;
+  country: string;
+  region: string | null;
+  postalCodePrefix: string | null;
+  categoryId: string | null;
+  categoryName: string | null;
+  rate: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Body of POST/PUT /api/admin/tax-rules
+export interface TaxRuleRequest {
+  name: string;
+  country: string;
+  region: string | null;
+  postalCodePrefix: string | null;
+  categoryId: string | null;
+  rate: number;
+  isActive: boolean;
+}
+
+// One applied rate on a quote or order
+export interface TaxLine {
+  ruleId: string | null;
+  name: string;
+  jurisdiction: TaxJurisdiction;
+  rate: number;
+  taxableAmount: number;
+  amount: number;
+}
+
+// Response data of POST /api/tax/quote
+export interface TaxQuote {
+  lines: TaxLine[];
+  taxAmount: number;
+  taxRate: number;
+}
+
+export const JURISDICTION_LABELS: Record<TaxJurisdiction, string> = {
+  country: 'Country',
+  region: 'State / Region',
+  postal_code: 'Postal code',
+};
+
+// Format a rate such as 0.0725 as "7.25%"
+export const formatTaxRate = (rate: number): string => {
+  return `${parseFloat((rate * 100).toFixed(3))}%`;
+};
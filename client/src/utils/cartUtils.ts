@@ -134,13 +134,13 @@ export const clearCartFromStorage = (): void => {
 
 /**
  * Format price for display
+ * The amount must already be in the given currency; use the currency context
+ * to show base-currency catalog prices in the customer's currency.
  */
-export const formatPrice = (price: number): string => {
+export const formatPrice = (price: number, currency: string = 'USD'): string => {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
+    currency,
   }).format(price);
 };
 
@@ -0,0 +1,40 @@
+/**
+ * Checkout Draft Utility Functions
+ *
+ * Remembering which saved checkout this browser is filling in
+ */
+
+import { CheckoutDraftRef, CHECKOUT_DRAFT_STORAGE_KEY } from '../types/checkout';
+
+/**
+ * The draft saved from this browser, if any
+ */
+export const loadCheckoutDraftRef = (): CheckoutDraftRef | null => {
+  try {
+    const stored = localStorage.getItem(CHECKOUT_DRAFT_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    return parsed && typeof parsed.draftId === 'string' && typeof parsed.token === 'string'
+      ? { draftId: parsed.draftId, token: parsed.token }
+      : null;
+  } catch (error) {
+    console.error('Error reading checkout draft reference:', error);
+    localStorage.removeItem(CHECKOUT_DRAFT_STORAGE_KEY);
+    return null;
+  }
+};
+
+/**
+ * Remember the draft to update next time, or forget it once the order is placed
+ */
+export const saveCheckoutDraftRef = (draft: CheckoutDraftRef | null): void => {
+  try {
+    if (draft) {
+      localStorage.setItem(CHECKOUT_DRAFT_STORAGE_KEY, JSON.stringify(draft));
+    } else {
+      localStorage.removeItem(CHECKOUT_DRAFT_STORAGE_KEY);
+    }
+  } catch (error) {
+    // Without storage each visit simply starts a new draft
+    console.error('Failed to save checkout draft reference:', error);
+  }
+};
@@ -0,0 +1,27 @@
+/**
+ * Download Utility Functions
+ *
+ * Saving files the API sends back, such as PDF documents
+ */
+
+/**
+ * Save a file response under the given name
+ * Error responses are JSON, so their message is returned instead.
+ */
+export const saveResponseAsFile = async (response: Response, filename: string): Promise<string | null> => {
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    return data?.message || 'Download failed';
+  }
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+
+  return null;
+};
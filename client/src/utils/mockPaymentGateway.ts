@@ -0,0 +1,94 @@
+/**
+ * Mock Payment Gateway
+ *
+ * Browser side of the local mock provider. Like a real provider's client
+ * library it turns card details into a single-use token, so the card number
+ * and CVC never reach our server. Test cards pick the outcome:
+ *
+ *   4242 4242 4242 4242  succeeds
+ *   4000 0000 0000 3220  asks for confirmation (enter 1234)
+ *   4000 0000 0000 0077  succeeds later, confirmed by webhook
+ *   4000 0000 0000 0002  declined
+ *   4000 0000 0000 9995  insufficient funds
+ *   4000 0000 0000 0069  expired card
+ */
+
+export interface CardDetails {
+  number: string;
+  expiry: string; // MM/YY
+  cvc: string;
+  name: string;
+}
+
+export type CardTokenResult =
+  | { token: string; error?: undefined }
+  | { token?: undefined; error: { field: 'cardNumber' | 'expiryDate' | 'cvv'; message: string } };
+
+const TEST_CARD_SCENARIOS: Record<string, string> = {
+  '4242424242424242': 'success',
+  '4000000000003220': 'challenge',
+  '4000000000000077': 'async',
+  '4000000000000002': 'decline',
+  '4000000000009995': 'insufficient_funds',
+  '4000000000000069': 'expired_card',
+};
+
+/**
+ * Luhn checksum used by all card numbers
+ */
+export const isValidCardNumber = (number: string): boolean => {
+  if (!/^\d{12,19}$/.test(number)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < number.length; i++) {
+    let digit = parseInt(number[number.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+/**
+ * Whether an MM/YY expiry is still in the future
+ */
+export const isValidExpiry = (expiry: string, now: Date = new Date()): boolean => {
+  const match = /^(\d{2})\/(\d{2})$/.exec(expiry);
+  if (!match) return false;
+
+  const month = parseInt(match[1]);
+  const year = 2000 + parseInt(match[2]);
+  if (month < 1 || month > 12) return false;
+
+  // Cards are valid until the end of their expiry month
+  return new Date(year, month, 1) > now;
+};
+
+/**
+ * Turn card details into a token for POST /api/orders
+ */
+export const createCardToken = async (card: CardDetails): Promise<CardTokenResult> => {
+  const number = card.number.replace(/\s/g, '');
+
+  if (!isValidCardNumber(number)) {
+    return { error: { field: 'cardNumber', message: 'Your card number is invalid' } };
+  }
+  if (!isValidExpiry(card.expiry)) {
+    return { error: { field: 'expiryDate', message: 'Your card has expired or the date is invalid' } };
+  }
+  if (!/^\d{3,4}$/.test(card.cvc)) {
+    return { error: { field: 'cvv', message: 'Your security code is invalid' } };
+  }
+
+  const scenario = TEST_CARD_SCENARIOS[number] || 'decline';
+  return { token: `tok_mock_${scenario}_${number.slice(-4)}` };
+};
+
+/**
+ * Token for a completed PayPal approval
+ */
+export const createPayPalToken = async (): Promise<CardTokenResult> => {
+  return { token: 'tok_mock_paypal' };
+};
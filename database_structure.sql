@@ -43,7 +43,7 @@ create table orders (
   id uuid primary key default gen_random_uuid(),
   user_id uuid references users(id) on delete set null,
   total numeric(10, 2),
-  status text default 'pending', -- pending, paid, shipped, cancelled
+  status text default 'pending', -- see ORDER LIFECYCLE below
   created_at timestamp default now()
 );
 
@@ -61,8 +61,8 @@ create table payments (
   id uuid primary key default gen_random_uuid(),
   order_id uuid references orders(id) on delete cascade,
   amount numeric(10, 2),
-  provider text, -- stripe, paypal...
-  status text default 'initiated', -- initiated, success, failed
+  provider text, -- mock, manual (cash on delivery)
+  status text default 'initiated', -- initiated, requires_action, authorized, success, failed, voided, cancelled, refund_pending, partially_refunded, refunded
   created_at timestamp default now()
 );
 
@@ -285,3 +285,743 @@ select
   coalesce(prs.total_reviews, 0) as calculated_review_count
 from products p
 left join product_ratings_summary prs on p.id = prs.product_id;
+
+-- ===============================================
+-- 📦 STOCK RESERVATIONS
+-- ===============================================
+-- Units taken from stock for each order. Orders waiting for payment hold
+-- their units until expires_at, after which the stock is released again
+
+-- 📦 Stock Reservations Table
+create table stock_reservations (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid references orders(id) on delete cascade,
+  product_id uuid references products(id) on delete cascade,
+  quantity integer not null check (quantity > 0),
+  status text not null default 'active' check (status in ('active', 'committed', 'released')),
+  expires_at timestamp,
+  created_at timestamp default now(),
+  updated_at timestamp default now()
+);
+
+-- 🔍 Indexes for the expiry sweeper and order lookups
+create index if not exists idx_stock_reservations_status_expires on stock_reservations(status, expires_at);
+create index if not exists idx_stock_reservations_order on stock_reservations(order_id);
+
+-- 🛡️ Stock can never go negative
+alter table products add constraint products_stock_non_negative check (stock >= 0) not valid;
+
+-- ===============================================
+-- 🔁 IDEMPOTENCY KEYS
+-- ===============================================
+-- Stores the result of write requests sent with an Idempotency-Key header
+-- so retries replay the original response instead of running twice
+
+-- 🔁 Idempotency Keys Table
+create table idempotency_keys (
+  id uuid primary key default gen_random_uuid(),
+  key text not null,
+  scope text not null,
+  request_hash text not null,
+  status text not null default 'in_progress' check (status in ('in_progress', 'completed')),
+  response_code integer,
+  response_body jsonb,
+  locked_at timestamp default now(),
+  expires_at timestamp not null,
+  created_at timestamp default now(),
+  updated_at timestamp default now(),
+  unique (key, scope)
+);
+
+-- ===============================================
+-- 🧾 TAX RULES
+-- ===============================================
+-- Tax rates by country, region and postal code prefix, optionally limited
+-- to one product category (reduced-rate goods). Rates of different levels
+-- add up; a category rule replaces the general rule of its level
+
+-- 🧾 Tax Rules Table
+create table tax_rules (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  country text not null,
+  region text,
+  postal_code_prefix text,
+  category_id uuid references categories(id) on delete cascade,
+  rate numeric(6, 4) not null check (rate >= 0 and rate <= 1),
+  is_active boolean default true,
+  created_at timestamp default now(),
+  updated_at timestamp default now()
+);
+
+-- One rule per location and category
+create unique index if not exists idx_tax_rules_scope on tax_rules (
+  lower(country),
+  coalesce(lower(region), ''),
+  coalesce(upper(postal_code_prefix), ''),
+  coalesce(category_id, '00000000-0000-0000-0000-000000000000'::uuid)
+);
+
+-- Keep the previous flat rate for US orders until rules are configured
+insert into tax_rules (name, country, rate) values
+('Sales Tax', 'United States', 0.08);
+
+-- 🧾 Order Tax Lines Table - rates applied when the order was placed
+create table order_tax_lines (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid references orders(id) on delete cascade,
+  tax_rule_id uuid references tax_rules(id) on delete set null,
+  name text not null,
+  jurisdiction text not null check (jurisdiction in ('country', 'region', 'postal_code')),
+  rate numeric(6, 4) not null,
+  taxable_amount numeric(10, 2) not null,
+  amount numeric(10, 2) not null,
+  created_at timestamp default now()
+);
+
+create index if not exists idx_order_tax_lines_order on order_tax_lines(order_id);
+
+-- ===============================================
+-- 🏷️ PROMOTIONS
+-- ===============================================
+-- Coupon codes for percentage, fixed-amount and free-shipping discounts
+
+-- 🏷️ Promotions Table
+create table promotions (
+  id uuid primary key default gen_random_uuid(),
+  code text unique not null,
+  description text,
+  discount_type text not null check (discount_type in ('percentage', 'fixed_amount', 'free_shipping')),
+  discount_value numeric(10, 2) not null default 0 check (discount_value >= 0),
+  min_subtotal numeric(10, 2) not null default 0,
+  starts_at timestamp,
+  ends_at timestamp,
+  usage_limit integer check (usage_limit > 0),
+  per_customer_limit integer check (per_customer_limit > 0),
+  -- Empty restrictions mean the code applies to every item
+  category_ids uuid[] not null default '{}',
+  product_ids uuid[] not null default '{}',
+  is_active boolean default true,
+  created_at timestamp default now(),
+  updated_at timestamp default now()
+);
+
+-- 🎟️ Promotion Redemptions Table - one row per order that used a code
+create table promotion_redemptions (
+  id uuid primary key default gen_random_uuid(),
+  promotion_id uuid references promotions(id) on delete cascade,
+  order_id uuid unique references orders(id) on delete cascade,
+  user_id uuid references users(id) on delete set null,
+  customer_email text,
+  discount_amount numeric(10, 2) not null,
+  created_at timestamp default now()
+);
+
+create index if not exists idx_promotion_redemptions_promotion on promotion_redemptions(promotion_id);
+
+-- 📦 Discount columns on orders
+alter table orders add column if not exists discount_amount numeric(10, 2) default 0;
+alter table orders add column if not exists promotion_id uuid references promotions(id) on delete set null;
+alter table orders add column if not exists promotion_code text;
+
+-- ===============================================
+-- 🧾 CUSTOMER ORDER HISTORY
+-- ===============================================
+
+-- 🔍 Serves "My Orders" - a user's orders newest first
+create index if not exists idx_orders_user_created on orders(user_id, created_at desc);
+
+-- ===============================================
+-- 🔑 GUEST ORDER LOOKUP
+-- ===============================================
+
+-- 🔍 Finds an order from the 8-character number shown to customers
+create index if not exists idx_orders_order_number on orders(upper(substring(id::text, 1, 8)));
+
+-- ===============================================
+-- 🔄 ORDER LIFECYCLE
+-- ===============================================
+-- pending → paid → processing → shipped → delivered, plus cancelled, refunded
+-- and returned. Allowed transitions are enforced by the server.
+
+-- ✅ Only known statuses
+alter table orders add constraint orders_status_valid
+  check (status in ('pending', 'paid', 'processing', 'shipped', 'delivered', 'cancelled', 'refunded', 'returned'));
+
+-- 🕓 Order Status History Table - one row per status change
+create table order_status_history (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid references orders(id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  actor_type text not null check (actor_type in ('customer', 'admin', 'system')),
+  actor_id uuid references users(id) on delete set null,
+  reason text,
+  created_at timestamp default now()
+);
+
+create index if not exists idx_order_status_history_order on order_status_history(order_id, created_at);
+
+-- ===============================================
+-- 🔔 ADMIN NOTIFICATIONS
+-- ===============================================
+
+-- 🔔 Admin Notifications Table - events staff should look at, such as customer cancellations
+create table admin_notifications (
+  id uuid primary key default gen_random_uuid(),
+  type text not null,
+  order_id uuid references orders(id) on delete cascade,
+  message text not null,
+  read_at timestamp,
+  read_by uuid references users(id) on delete set null,
+  created_at timestamp default now()
+);
+
+create index if not exists idx_admin_notifications_unread on admin_notifications(created_at desc) where read_at is null;
+
+-- ===============================================
+-- ↩️ RETURNS (RMA)
+-- ===============================================
+-- requested → approved → received → refunded, or rejected. Items link back to
+-- order_items so part of an order, or part of a line, can be returned.
+
+-- ↩️ Return Requests Table - one per RMA
+create table return_requests (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid references orders(id) on delete cascade,
+  user_id uuid references users(id) on delete set null,
+  status text not null default 'requested' check (status in ('requested', 'approved', 'rejected', 'received', 'refunded')),
+  customer_note text,
+  admin_note text,
+  refund_amount numeric(10, 2),
+  decided_by uuid references users(id) on delete set null,
+  decided_at timestamp,
+  received_at timestamp,
+  refunded_at timestamp,
+  created_at timestamp default now(),
+  updated_at timestamp default now()
+);
+
+-- 📦 Return Items Table - the order lines, and how many units of each, being sent back
+create table return_items (
+  id uuid primary key default gen_random_uuid(),
+  return_id uuid references return_requests(id) on delete cascade,
+  order_item_id uuid references order_items(id) on delete cascade,
+  quantity int not null check (quantity > 0),
+  reason text not null, -- damaged, defective, wrong_item, not_as_described, no_longer_needed, other
+  condition text not null, -- unopened, opened, used, damaged
+  disposition text check (disposition in ('restock', 'write_off')), -- set when the goods arrive
+  created_at timestamp default now()
+);
+
+create index if not exists idx_return_requests_status_created on return_requests(status, created_at desc);
+create index if not exists idx_return_requests_order on return_requests(order_id);
+create index if not exists idx_return_items_return on return_items(return_id);
+create index if not exists idx_return_items_order_item on return_items(order_item_id);
+
+-- 💰 What each order line really cost - its share of the coupon discount and of
+-- the tax - so returned units are refunded at the amount paid
+alter table order_items add column if not exists discount_amount numeric(10, 2) not null default 0;
+alter table order_items add column if not exists tax_amount numeric(10, 2) not null default 0;
+
+-- Older orders did not record the split; spread their totals over the lines by value
+update order_items oi
+set discount_amount = case when p.discount_type = 'free_shipping' then 0
+      else round(coalesce(o.discount_amount, 0) * oi.unit_price * oi.quantity / o.subtotal, 2) end,
+    tax_amount = round(coalesce(o.tax_amount, 0) * oi.unit_price * oi.quantity / o.subtotal, 2)
+from orders o
+left join promotions p on o.promotion_id = p.id
+where oi.order_id = o.id and o.subtotal > 0;
+
+-- ===============================================
+-- 💸 REFUNDS
+-- ===============================================
+-- Money going back out, tied to the payment it came from. Refunds that did
+-- not fail never add up to more than the payment's amount (checked by the server).
+
+-- 💸 Refunds Table - one row per refund attempt
+create table refunds (
+  id uuid primary key default gen_random_uuid(),
+  payment_id uuid references payments(id) on delete cascade,
+  order_id uuid references orders(id) on delete cascade,
+  return_id uuid references return_requests(id) on delete set null,
+  amount numeric(10, 2) not null check (amount > 0),
+  reason text,
+  status text not null default 'pending' check (status in ('pending', 'succeeded', 'failed')),
+  provider text not null, -- mock, manual...
+  provider_refund_id text,
+  failure_reason text,
+  created_by uuid references users(id) on delete set null,
+  created_at timestamp default now(),
+  updated_at timestamp default now()
+);
+
+create index if not exists idx_refunds_order on refunds(order_id, created_at desc);
+create index if not exists idx_refunds_payment on refunds(payment_id);
+
+-- ===============================================
+-- 💳 PAYMENT PROVIDERS
+-- ===============================================
+-- Payments are taken through a provider (see PAYMENT_PROVIDER). Card details
+-- stay with the provider; we keep its transaction id, the card brand and the
+-- last four digits. Every retry of an order's payment is its own row.
+
+create index if not exists idx_payments_order on payments(order_id, created_at);
+create index if not exists idx_payments_transaction on payments(provider, transaction_id);
+
+-- ===============================================
+-- 🔔 PAYMENT WEBHOOKS
+-- ===============================================
+-- Signed events from payment providers. Every verified delivery is stored
+-- before it is applied, so events that fail can be retried and a replayed
+-- event id is recognised.
+
+-- 🔔 Payment Webhook Events Table
+create table payment_webhook_events (
+  id uuid primary key default gen_random_uuid(),
+  provider text not null,
+  event_id text not null, -- the provider's id, unique per provider
+  event_type text not null, -- payment.succeeded, payment.failed, payment.voided, refund.succeeded, refund.failed
+  transaction_id text,
+  payload jsonb not null,
+  status text not null default 'pending' check (status in ('pending', 'processed', 'failed')),
+  attempts int not null default 0,
+  last_error text,
+  outcome text, -- what processing changed, for the admin view
+  received_at timestamp default now(),
+  processed_at timestamp,
+  next_retry_at timestamp,
+  unique(provider, event_id)
+);
+
+create index if not exists idx_payment_webhook_events_received on payment_webhook_events(received_at desc);
+create index if not exists idx_payment_webhook_events_retry on payment_webhook_events(status, next_retry_at);
+create index if not exists idx_refunds_provider_refund on refunds(provider, provider_refund_id);
+
+-- ===============================================
+-- 💵 CASH ON DELIVERY RECONCILIATION
+-- ===============================================
+-- A collection is opened when a cash on delivery order ships. Staff record
+-- whether the courier collected the cash; couriers pay collected cash in
+-- batches (remittances), which are checked against what was collected.
+
+-- 💵 COD Remittances Table - cash paid in by a courier
+create table cod_remittances (
+  id uuid primary key default gen_random_uuid(),
+  reference text unique not null, -- courier's batch or driver settlement reference
+  courier text not null,
+  expected_amount numeric(10, 2) not null, -- sum of the collections it covers
+  received_amount numeric(10, 2) not null check (received_amount >= 0),
+  status text not null check (status in ('reconciled', 'discrepancy', 'resolved')),
+  note text,
+  created_by uuid references users(id) on delete set null,
+  received_at timestamp default now()
+);
+
+-- 💵 COD Collections Table - one per shipped cash on delivery order
+create table cod_collections (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid unique not null references orders(id) on delete cascade,
+  expected_amount numeric(10, 2) not null,
+  collected_amount numeric(10, 2),
+  status text not null default 'awaiting_collection'
+    check (status in ('awaiting_collection', 'collected', 'failed', 'refused')),
+  driver_reference text,
+  note text, -- why an attempt failed or was refused
+  remittance_id uuid references cod_remittances(id) on delete set null,
+  recorded_by uuid references users(id) on delete set null,
+  collected_at timestamp,
+  created_at timestamp default now(),
+  updated_at timestamp default now()
+);
+
+create index if not exists idx_cod_collections_status on cod_collections(status, created_at desc);
+create index if not exists idx_cod_collections_remittance on cod_collections(remittance_id);
+
+-- Open collections for cash on delivery orders already on their way
+insert into cod_collections (order_id, expected_amount)
+select id, total from orders
+where payment_method = 'cash_on_delivery' and status = 'shipped'
+on conflict (order_id) do nothing;
+
+-- ===============================================
+-- 🚚 SHIPMENTS
+-- ===============================================
+-- Parcels handed to a carrier. An order can go out in more than one
+-- shipment; each shipment lists the order lines, and how many units of
+-- each, it contains.
+
+-- 🚚 Shipments Table - one per parcel
+create table shipments (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid references orders(id) on delete cascade,
+  carrier text not null, -- ups, fedex, usps, dhl, other
+  tracking_number text not null,
+  status text not null default 'in_transit' check (status in ('in_transit', 'delivered')),
+  created_by uuid references users(id) on delete set null,
+  shipped_at timestamp not null default now(),
+  delivered_at timestamp,
+  created_at timestamp default now()
+);
+
+-- 📦 Shipment Items Table - the order lines in a shipment
+create table shipment_items (
+  id uuid primary key default gen_random_uuid(),
+  shipment_id uuid references shipments(id) on delete cascade,
+  order_item_id uuid references order_items(id) on delete cascade,
+  quantity int not null check (quantity > 0)
+);
+
+create index if not exists idx_shipments_order on shipments(order_id, shipped_at);
+create index if not exists idx_shipment_items_shipment on shipment_items(shipment_id);
+create index if not exists idx_shipment_items_order_item on shipment_items(order_item_id);
+
+-- 📦 Orders going out in more than one shipment are partially shipped until the last one leaves
+alter table orders drop constraint orders_status_valid;
+alter table orders add constraint orders_status_valid
+  check (status in ('pending', 'paid', 'processing', 'partially_shipped', 'shipped', 'delivered', 'cancelled', 'refunded', 'returned'));
+
+-- ===============================================
+-- 📅 DELIVERY ESTIMATES
+-- ===============================================
+-- Delivery methods state their transit time in business days and the hour
+-- after which an order leaves the next business day. Weekends and the
+-- dates in the holiday calendar are not business days.
+
+alter table delivery_methods add column min_business_days int;
+alter table delivery_methods add column max_business_days int;
+alter table delivery_methods add column cutoff_hour int not null default 14
+  check (cutoff_hour between 0 and 23); -- store time
+
+-- Take the numbers out of the existing "5-7 business days" labels
+update delivery_methods set
+  min_business_days = coalesce((regexp_match(estimated_days, '(\d+)'))[1]::int, 5),
+  max_business_days = coalesce(
+    (regexp_match(estimated_days, '\d+\s*-\s*(\d+)'))[1]::int,
+    (regexp_match(estimated_days, '(\d+)'))[1]::int,
+    7
+  );
+
+alter table delivery_methods alter column min_business_days set not null;
+alter table delivery_methods alter column max_business_days set not null;
+alter table delivery_methods add constraint delivery_methods_business_days_valid
+  check (min_business_days >= 0 and max_business_days >= min_business_days);
+
+-- 🎉 Store Holidays Table - days nothing is shipped
+create table store_holidays (
+  id uuid primary key default gen_random_uuid(),
+  holiday_date date unique not null,
+  name text not null,
+  created_at timestamp default now()
+);
+
+-- ===============================================
+-- 🌍 SHIPPING ZONES AND RATES
+-- ===============================================
+-- Shipping is priced per delivery method and zone. A zone is a set of
+-- countries and regions; a destination belongs to the zone listing its
+-- region, else its country, else the rest-of-world zone. A method that has
+-- no rate for the destination's zone does not ship there.
+
+-- 📦 Product shipping details - billable weight is the larger of the actual
+-- weight and the volumetric weight (length x width x height / 5000)
+alter table products add column weight_kg numeric(8, 3) not null default 0 check (weight_kg >= 0);
+alter table products add column length_cm numeric(8, 1) check (length_cm > 0);
+alter table products add column width_cm numeric(8, 1) check (width_cm > 0);
+alter table products add column height_cm numeric(8, 1) check (height_cm > 0);
+
+-- 🌍 Shipping Zones Table
+create table shipping_zones (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  is_rest_of_world boolean not null default false, -- catches destinations no other zone lists
+  created_at timestamp default now(),
+  updated_at timestamp default now()
+);
+
+-- Only one zone can catch the rest of the world
+create unique index if not exists idx_shipping_zones_rest_of_world on shipping_zones(is_rest_of_world) where is_rest_of_world;
+
+-- 📍 Shipping Zone Regions Table - the places a zone covers
+create table shipping_zone_regions (
+  id uuid primary key default gen_random_uuid(),
+  zone_id uuid not null references shipping_zones(id) on delete cascade,
+  country text not null,
+  region text -- null covers the whole country
+);
+
+-- A place belongs to one zone
+create unique index if not exists idx_shipping_zone_regions_place on shipping_zone_regions (
+  lower(country),
+  coalesce(lower(region), '')
+);
+
+-- 💲 Shipping Rates Table - how a delivery method is priced in a zone
+create table shipping_rates (
+  id uuid primary key default gen_random_uuid(),
+  delivery_method_id uuid not null references delivery_methods(id) on delete cascade,
+  zone_id uuid not null references shipping_zones(id) on delete cascade,
+  rate_type text not null check (rate_type in ('weight', 'subtotal', 'free_over')),
+  base_price numeric(10, 2) check (base_price >= 0), -- free_over: charged below the threshold
+  free_over_amount numeric(10, 2) check (free_over_amount >= 0), -- free_over: subtotal that ships free
+  created_at timestamp default now(),
+  updated_at timestamp default now(),
+  unique (delivery_method_id, zone_id),
+  constraint shipping_rates_free_over_complete
+    check (rate_type <> 'free_over' or (base_price is not null and free_over_amount is not null))
+);
+
+-- 📊 Shipping Rate Brackets Table - price per weight (kg) or subtotal range
+create table shipping_rate_brackets (
+  id uuid primary key default gen_random_uuid(),
+  shipping_rate_id uuid not null references shipping_rates(id) on delete cascade,
+  min_value numeric(10, 3) not null default 0 check (min_value >= 0), -- inclusive
+  max_value numeric(10, 3), -- exclusive, null = no upper limit
+  price numeric(10, 2) not null check (price >= 0),
+  check (max_value is null or max_value > min_value)
+);
+
+create index if not exists idx_shipping_rates_zone on shipping_rates(zone_id);
+create index if not exists idx_shipping_rate_brackets_rate on shipping_rate_brackets(shipping_rate_id, min_value);
+
+-- delivery_methods.price is no longer charged - shipping_rates prices every method
+
+-- Domestic orders keep the flat prices they had; abroad is priced by weight
+-- and overnight is domestic only
+insert into shipping_zones (name) values ('Domestic');
+insert into shipping_zones (name, is_rest_of_world) values ('International', true);
+
+insert into shipping_zone_regions (zone_id, country)
+select id, 'United States' from shipping_zones where name = 'Domestic';
+
+insert into shipping_rates (delivery_method_id, zone_id, rate_type)
+select dm.id, z.id, 'subtotal'
+from delivery_methods dm, shipping_zones z
+where z.name = 'Domestic';
+
+insert into shipping_rate_brackets (shipping_rate_id, min_value, price)
+select sr.id, 0, dm.price
+from shipping_rates sr
+join delivery_methods dm on sr.delivery_method_id = dm.id
+join shipping_zones z on sr.zone_id = z.id
+where z.name = 'Domestic';
+
+insert into shipping_rates (delivery_method_id, zone_id, rate_type)
+select dm.id, z.id, 'weight'
+from delivery_methods dm, shipping_zones z
+where z.name = 'International' and dm.name in ('Standard Shipping', 'Express Shipping');
+
+insert into shipping_rate_brackets (shipping_rate_id, min_value, max_value, price)
+select sr.id, b.min_value, b.max_value, b.price
+from shipping_rates sr
+join delivery_methods dm on sr.delivery_method_id = dm.id
+join shipping_zones z on sr.zone_id = z.id
+join (values
+  ('Standard Shipping', 0, 1, 14.99),
+  ('Standard Shipping', 1, 5, 29.99),
+  ('Standard Shipping', 5, 20, 59.99),
+  ('Express Shipping', 0, 1, 39.99),
+  ('Express Shipping', 1, 5, 69.99)
+) as b(method_name, min_value, max_value, price) on b.method_name = dm.name
+where z.name = 'International';
+
+-- ===============================================
+-- 💱 CURRENCIES
+-- ===============================================
+-- Catalog prices, shipping rates and fees are kept in the base currency.
+-- Customers can browse and pay in any enabled currency; the order stores the
+-- amounts it was charged in together with the rate used and the same amounts
+-- in the base currency, which reports are built on.
+
+-- 💱 Currencies Table
+create table currencies (
+  code char(3) primary key, -- ISO 4217, e.g. 'EUR'
+  name text not null,
+  decimals integer not null default 2 check (decimals between 0 and 3), -- minor units prices are rounded to
+  rate_to_base numeric(18, 8) not null check (rate_to_base > 0), -- units of this currency per 1 base unit
+  is_base boolean not null default false,
+  is_enabled boolean not null default true,
+  rate_updated_at timestamp default now(),
+  created_at timestamp default now(),
+  constraint currencies_base_rate check (not is_base or (rate_to_base = 1 and is_enabled))
+);
+
+-- Exactly one currency is the base currency
+create unique index if not exists idx_currencies_base on currencies(is_base) where is_base;
+
+insert into currencies (code, name, decimals, rate_to_base, is_base) values
+  ('USD', 'US Dollar', 2, 1, true),
+  ('EUR', 'Euro', 2, 0.92, false),
+  ('MAD', 'Moroccan Dirham', 2, 10.05, false);
+
+-- 🛒 Orders keep the currency they were placed in - the existing amount
+-- columns hold what the customer was charged, base_* the same in the base currency
+alter table orders add column currency char(3) not null default 'USD' references currencies(code);
+alter table orders add column exchange_rate numeric(18, 8) not null default 1 check (exchange_rate > 0); -- order currency per 1 base unit
+alter table orders add column base_subtotal numeric(10, 2);
+alter table orders add column base_shipping_cost numeric(10, 2);
+alter table orders add column base_discount_amount numeric(10, 2);
+alter table orders add column base_tax_amount numeric(10, 2);
+alter table orders add column base_cod_fee numeric(10, 2);
+alter table orders add column base_total numeric(10, 2);
+
+-- Orders placed so far were all in the base currency
+update orders set
+  base_subtotal = subtotal,
+  base_shipping_cost = coalesce(shipping_cost, 0),
+  base_discount_amount = coalesce(discount_amount, 0),
+  base_tax_amount = coalesce(tax_amount, 0),
+  base_cod_fee = coalesce(cod_fee, 0),
+  base_total = total;
+
+alter table orders alter column base_subtotal set not null;
+alter table orders alter column base_shipping_cost set not null;
+alter table orders alter column base_discount_amount set not null;
+alter table orders alter column base_tax_amount set not null;
+alter table orders alter column base_cod_fee set not null;
+alter table orders alter column base_total set not null;
+
+-- Coupon discounts are recorded in promotion_redemptions in the base currency
+
+-- 💳 Payments and their refunds are in the order's currency
+alter table payments add column currency char(3) not null default 'USD' references currencies(code);
+
+-- ===============================================
+-- 🧾 INVOICES AND CREDIT NOTES
+-- ===============================================
+-- An invoice is issued when an order is paid (cash on delivery: when it is
+-- delivered) and a credit note for every refund that goes through. Each type
+-- has its own gap-free number sequence, separate from the order number.
+-- Documents keep a snapshot of everything printed on them, so later changes
+-- to the store's details, addresses or products never alter an issued document.
+
+-- 🔢 Document Sequences Table - next number per document type
+create table document_sequences (
+  document_type text primary key check (document_type in ('invoice', 'credit_note')),
+  prefix text not null,
+  next_number integer not null default 1 check (next_number > 0)
+);
+
+insert into document_sequences (document_type, prefix) values
+  ('invoice', 'INV'),
+  ('credit_note', 'CN');
+
+-- 🧾 Billing Documents Table
+create table billing_documents (
+  id uuid primary key default gen_random_uuid(),
+  document_type text not null check (document_type in ('invoice', 'credit_note')),
+  number text not null unique, -- e.g. INV-000042
+  order_id uuid not null references orders(id) on delete restrict,
+  refund_id uuid unique references refunds(id) on delete restrict, -- credit notes only
+  invoice_id uuid references billing_documents(id) on delete restrict, -- the invoice a credit note corrects
+  currency char(3) not null references currencies(code),
+  total numeric(10, 2) not null,
+  content jsonb not null, -- seller, buyer, lines, tax breakdown and totals as printed
+  issued_at timestamp not null default now(),
+  constraint billing_documents_credit_note_links check (
+    (document_type = 'invoice' and refund_id is null and invoice_id is null)
+    or (document_type = 'credit_note' and refund_id is not null and invoice_id is not null)
+  )
+);
+
+-- One invoice per order
+create unique index if not exists idx_billing_documents_invoice on billing_documents(order_id) where document_type = 'invoice';
+create index if not exists idx_billing_documents_order on billing_documents(order_id, issued_at);
+create index if not exists idx_billing_documents_issued on billing_documents(document_type, issued_at);
+
+-- ===============================================
+-- ✉️ EMAIL OUTBOX
+-- ===============================================
+-- Transactional emails are rendered and stored in the same transaction as
+-- the change they announce, then sent in the background through the
+-- configured transport (EMAIL_TRANSPORT). Failed sends are retried with a
+-- growing delay. Admins can read every email and send it again.
+
+-- ✉️ Email Outbox Table - one row per email, resends are new rows
+create table email_outbox (
+  id uuid primary key default gen_random_uuid(),
+  template text not null, -- order_placed, order_paid, order_shipped, order_cancelled, refund_issued, order_lookup, password_reset, checkout_recovery
+  recipient text not null,
+  subject text not null,
+  html_body text not null,
+  text_body text not null,
+  order_id uuid references orders(id) on delete set null,
+  resent_from_id uuid references email_outbox(id) on delete set null,
+  status text not null default 'pending' check (status in ('pending', 'sent', 'failed')),
+  attempts int not null default 0,
+  last_error text,
+  transport text, -- smtp, file, memory
+  message_id text, -- Message-ID header of the sent email
+  created_at timestamp default now(),
+  sent_at timestamp,
+  next_attempt_at timestamp default now() -- null once sent or out of attempts
+);
+
+create index if not exists idx_email_outbox_due on email_outbox(status, next_attempt_at);
+create index if not exists idx_email_outbox_created on email_outbox(created_at desc);
+create index if not exists idx_email_outbox_order on email_outbox(order_id);
+
+-- 🔑 Password Reset Tokens Table - only a hash of the emailed token is kept
+create table password_reset_tokens (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references users(id) on delete cascade,
+  token_hash text not null unique, -- sha256 of the token in the link
+  expires_at timestamp not null,
+  used_at timestamp,
+  created_at timestamp default now()
+);
+
+create index if not exists idx_password_reset_tokens_user on password_reset_tokens(user_id);
+
+-- ===============================================
+-- 📒 ADDRESS BOOK
+-- ===============================================
+-- Customers' saved addresses are rows of the addresses table kept in their
+-- address book. Orders point at address rows directly, so a saved address
+-- that an order used is never changed - editing it saves a new row and
+-- removing it only takes it out of the book.
+
+alter table addresses add column if not exists in_address_book boolean not null default false;
+
+-- One default shipping and one default billing address per customer
+create unique index if not exists idx_addresses_default
+  on addresses(user_id, type) where is_default and in_address_book;
+create index if not exists idx_addresses_book on addresses(user_id) where in_address_book;
+
+-- ===============================================
+-- 🌐 COUNTRY ADDRESS FORMATS
+-- ===============================================
+-- Which address fields are required depends on the country (see
+-- server/utils/addressFormats.ts). Countries without states or postal codes
+-- store null, and there is no default country any more.
+
+alter table addresses alter column state drop not null;
+alter table addresses alter column postal_code drop not null;
+alter table addresses alter column country drop default;
+
+-- ===============================================
+-- 🛒 ABANDONED CHECKOUT RECOVERY
+-- ===============================================
+-- Checkout is saved as a draft once the customer has typed an email. Drafts
+-- left untouched get one email linking back to the cart; a draft is
+-- recovered when its order is placed after that email.
+
+create table checkout_drafts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references users(id) on delete set null,
+  email text not null, -- lower case
+  items jsonb not null, -- [{ productId, quantity, variants }]
+  form jsonb not null, -- addresses, delivery method, coupon and notes - never payment details
+  currency char(3),
+  status text not null default 'open' check (status in ('open', 'reminded', 'converted', 'closed')),
+  reminder_sent_at timestamp,
+  restored_at timestamp, -- first time the recovery link was opened
+  order_id uuid references orders(id) on delete set null,
+  converted_at timestamp,
+  created_at timestamp default now(),
+  updated_at timestamp default now()
+);
+
+create index if not exists idx_checkout_drafts_due on checkout_drafts(updated_at) where status = 'open';
+create index if not exists idx_checkout_drafts_email on checkout_drafts(email) where status = 'open';
+create index if not exists idx_checkout_drafts_created on checkout_drafts(created_at desc);
@@ -97,6 +97,65 @@ const getClient = async (): Promise<PoolClient> => {
   }
 };
 
+// Minimal query interface shared by the pool helper and transaction clients
+interface Queryable {
+  query: (text: string, params?: any[]) => Promise<QueryResult>;
+}
+
+// Transaction options
+interface TransactionOptions {
+  isolationLevel?: 'READ COMMITTED' | 'REPEATABLE READ' | 'SERIALIZABLE';
+  maxRetries?: number;
+}
+
+// PostgreSQL errors after which the whole transaction can safely be retried
+const RETRYABLE_ERROR_CODES = [
+  '40001', // serialization_failure
+  '40P01'  // deadlock_detected
+];
+
+/**
+ * Run a callback inside a transaction on a single pooled client
+ * Commits when the callback resolves and rolls back when it throws. Serialization
+ * failures and deadlocks are retried with a short backoff, so the callback must
+ * only touch the database through the client it receives and must not send
+ * the HTTP response itself.
+ */
+const withTransaction = async <T>(
+  callback: (client: PoolClient) => Promise<T>,
+  options: TransactionOptions = {}
+): Promise<T> => {
+  const { isolationLevel = 'READ COMMITTED', maxRetries = 3 } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    const client = await getClient();
+
+    try {
+      await client.query(`BEGIN ISOLATION LEVEL ${isolationLevel}`);
+      const result = await callback(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      try {
+        await client.query('ROLLBACK');
+      } catch (rollbackError) {
+        console.error('❌ Error rolling back transaction:', (rollbackError as Error).message);
+      }
+
+      const code = (error as { code?: string }).code;
+      if (code && RETRYABLE_ERROR_CODES.includes(code) && attempt <= maxRetries) {
+        console.warn(`⚠️  Retrying transaction after ${code} (attempt ${attempt} of ${maxRetries})`);
+        await new Promise(resolve => setTimeout(resolve, 50 * attempt + Math.floor(Math.random() * 50)));
+        continue;
+      }
+
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+};
+
 // Graceful shutdown
 const closePool = async (): Promise<void> => {
   try {
@@ -115,6 +174,9 @@ export {
   pool,
   query,
   getClient,
+  withTransaction,
   testConnection,
-  closePool
+  closePool,
+  Queryable,
+  TransactionOptions
 };
@@ -113,6 +113,13 @@ const notFound = (req: Request, res: Response, next: NextFunction): void => {
   next(error);
 };
 
+// Create an error carrying the HTTP status it should be reported with
+const createError = (message: string, statusCode: number): CustomError => {
+  const error: CustomError = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
 // Async error wrapper
 const asyncHandler = (fn: Function) => (
   req: Request, 
@@ -126,6 +133,7 @@ export {
   errorHandler,
   notFound,
   asyncHandler,
+  createError,
   CustomError,
   ErrorResponse
 };
@@ -0,0 +1,181 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { query } from '../config/database';
+
+// How long a completed response can be replayed
+const KEY_TTL_HOURS = parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24', 10);
+
+// After this long an unfinished request is treated as abandoned and its key can be retried
+const LOCK_TIMEOUT_SECONDS = parseInt(process.env.IDEMPOTENCY_LOCK_TIMEOUT_SECONDS || '60', 10);
+
+const MAX_KEY_LENGTH = 255;
+
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+interface IdempotencyOptions {
+  // Reject write requests that do not send an Idempotency-Key header
+  required?: boolean;
+}
+
+// Serialize a value with sorted object keys so equal bodies hash the same
+const canonicalize = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonicalize(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value === undefined ? null : value);
+};
+
+const hashRequest = (req: Request): string => {
+  return crypto
+    .createHash('sha256')
+    .update(`${req.method} ${req.originalUrl}\n${canonicalize(req.body)}`)
+    .digest('hex');
+};
+
+/**
+ * Make write requests safe to retry
+ * The first request with a given Idempotency-Key runs normally and its
+ * successful response is stored. Repeating the key with the same request
+ * replays that response without running the handler again; repeating it with a
+ * different request is rejected with 409. Failed responses are not stored so
+ * the same key can be retried. Keys are scoped per route and per user.
+ */
+const idempotency = (options: IdempotencyOptions = {}) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!WRITE_METHODS.includes(req.method)) {
+      next();
+      return;
+    }
+
+    const key = req.get('Idempotency-Key');
+
+    if (!key) {
+      if (options.required) {
+        res.status(400).json({
+          success: false,
+          code: 'IDEMPOTENCY_KEY_REQUIRED',
+          message: 'An Idempotency-Key header is required for this request'
+        });
+        return;
+      }
+      next();
+      return;
+    }
+
+    if (key.length > MAX_KEY_LENGTH) {
+      res.status(400).json({
+        success: false,
+        code: 'IDEMPOTENCY_KEY_INVALID',
+        message: `Idempotency-Key must not exceed ${MAX_KEY_LENGTH} characters`
+      });
+      return;
+    }
+
+    const scope = `${req.method} ${req.baseUrl}${req.path}:${req.user?.id || 'guest'}`;
+    const requestHash = hashRequest(req);
+
+    try {
+      // Forget keys whose replay window has passed
+      await query(
+        'DELETE FROM idempotency_keys WHERE key = $1 AND scope = $2 AND expires_at <= NOW()',
+        [key, scope]
+      );
+
+      // Claim the key, or take over one whose request was abandoned
+      const claimResult = await query(
+        `INSERT INTO idempotency_keys (key, scope, request_hash, status, locked_at, expires_at)
+         VALUES ($1, $2, $3, 'in_progress', NOW(), NOW() + make_interval(hours => $4))
+         ON CONFLICT (key, scope) DO UPDATE
+           SET locked_at = NOW()
+           WHERE idempotency_keys.status = 'in_progress'
+             AND idempotency_keys.request_hash = EXCLUDED.request_hash
+             AND idempotency_keys.locked_at < NOW() - make_interval(secs => $5)
+         RETURNING id`,
+        [key, scope, requestHash, KEY_TTL_HOURS, LOCK_TIMEOUT_SECONDS]
+      );
+
+      if (claimResult.rows.length === 0) {
+        const existingResult = await query(
+          'SELECT request_hash, status, response_code, response_body FROM idempotency_keys WHERE key = $1 AND scope = $2',
+          [key, scope]
+        );
+
+        const existing = existingResult.rows[0];
+
+        if (!existing) {
+          // Released between the two statements - ask the client to try again
+          res.status(409).json({
+            success: false,
+            code: 'IDEMPOTENCY_REQUEST_IN_PROGRESS',
+            message: 'A request with this Idempotency-Key is already being processed'
+          });
+          return;
+        }
+
+        if (existing.request_hash !== requestHash) {
+          res.status(409).json({
+            success: false,
+            code: 'IDEMPOTENCY_KEY_REUSED',
+            message: 'This Idempotency-Key was already used for a different request'
+          });
+          return;
+        }
+
+        if (existing.status === 'in_progress') {
+          res.set('Retry-After', '1');
+          res.status(409).json({
+            success: false,
+            code: 'IDEMPOTENCY_REQUEST_IN_PROGRESS',
+            message: 'A request with this Idempotency-Key is already being processed'
+          });
+          return;
+        }
+
+        // Replay the original response
+        res.set('Idempotent-Replayed', 'true');
+        res.status(existing.response_code).json(existing.response_body);
+        return;
+      }
+    } catch (error) {
+      next(error);
+      return;
+    }
+
+    let settled = false;
+
+    const settle = (statusCode: number, body: any): void => {
+      if (settled) return;
+      settled = true;
+
+      const store = statusCode >= 200 && statusCode < 300
+        ? query(
+            `UPDATE idempotency_keys
+             SET status = 'completed', response_code = $3, response_body = $4, updated_at = CURRENT_TIMESTAMP
+             WHERE key = $1 AND scope = $2`,
+            [key, scope, statusCode, JSON.stringify(body ?? null)]
+          )
+        : query('DELETE FROM idempotency_keys WHERE key = $1 AND scope = $2', [key, scope]);
+
+      store.catch(error => {
+        console.error('Error saving idempotency key result:', (error as Error).message);
+      });
+    };
+
+    // Capture the JSON response the route sends
+    const originalJson = res.json.bind(res);
+    res.json = (body?: any) => {
+      settle(res.statusCode, body);
+      return originalJson(body);
+    };
+
+    // Release the key if the response ended without a JSON body
+    res.on('close', () => settle(500, null));
+
+    next();
+  };
+};
+
+export { idempotency, IdempotencyOptions };
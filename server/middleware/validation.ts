@@ -68,6 +68,28 @@ const validateProfileUpdate: ValidationChain[] = [
     .withMessage('Email must not exceed 255 characters')
 ];
 
+// Validation rules for requesting a password reset link
+const validateForgotPassword: ValidationChain[] = [
+  body('email')
+    .isEmail()
+    .withMessage('Please provide a valid email address')
+    .normalizeEmail()
+];
+
+// Validation rules for choosing a new password with a reset link
+const validatePasswordReset: ValidationChain[] = [
+  body('token')
+    .isString()
+    .notEmpty()
+    .withMessage('Reset token is required'),
+  
+  body('password')
+    .isLength({ min: 6, max: 128 })
+    .withMessage('Password must be between 6 and 128 characters')
+    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
+    .withMessage('Password must contain at least one lowercase letter, one uppercase letter, and one number')
+];
+
 // Interface for validation error
 interface ValidationError {
   field: string;
@@ -136,6 +158,8 @@ export {
   validateSignIn,
   validatePasswordChange,
   validateProfileUpdate,
+  validateForgotPassword,
+  validatePasswordReset,
   handleValidationErrors,
   sanitizeInput,
   ValidationError
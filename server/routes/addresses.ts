@@ -0,0 +1,191 @@
+import express, { Request, Response } from 'express';
+import { withTransaction } from '../config/database';
+import { authenticateToken, User } from '../middleware/auth';
+import { asyncHandler, CustomError } from '../middleware/errorHandler';
+import {
+  getAddressBook,
+  saveAddress,
+  updateSavedAddress,
+  removeSavedAddress,
+  parseAddressInput,
+  isAddressType,
+  ADDRESS_TYPES
+} from '../utils/addresses';
+import { COUNTRY_ADDRESS_SCHEMAS } from '../utils/addressFormats';
+
+const router = express.Router();
+
+// @route   GET /api/addresses/formats
+// @desc    Get the countries we ship to with their address fields, postal code and phone formats
+// @access  Public - guests fill in the same checkout form
+router.get('/formats', (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    message: 'Address formats retrieved successfully',
+    data: {
+      countries: COUNTRY_ADDRESS_SCHEMAS
+    }
+  });
+});
+
+// Every address book route belongs to the signed-in customer
+router.use(authenticateToken);
+
+// Reply with the status of errors raised on purpose, 500 otherwise
+const sendAddressError = (res: Response, error: unknown, action: string): void => {
+  const statusCode = (error as CustomError).statusCode;
+  if (statusCode) {
+    res.status(statusCode).json({
+      success: false,
+      message: (error as Error).message
+    });
+    return;
+  }
+
+  console.error(`Error ${action} address:`, error);
+  res.status(500).json({
+    success: false,
+    message: `Internal server error while ${action} address`
+  });
+};
+
+// @route   GET /api/addresses
+// @desc    Get the signed-in customer's saved addresses, defaults first
+// @access  Private
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const addresses = await getAddressBook((req.user as User).id);
+
+    res.json({
+      success: true,
+      message: 'Addresses retrieved successfully',
+      data: {
+        addresses
+      }
+    });
+
+  } catch (error) {
+    sendAddressError(res, error, 'fetching');
+  }
+}));
+
+// @route   POST /api/addresses
+// @desc    Save an address - an identical saved address is returned instead of a copy
+// @access  Private
+router.post('/', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { type = 'shipping', isDefault = false } = req.body;
+    const { address, errors } = parseAddressInput(req.body);
+
+    if (!isAddressType(type)) {
+      errors.push('Type must be one of: ' + ADDRESS_TYPES.join(', '));
+    }
+    if (typeof isDefault !== 'boolean') {
+      errors.push('isDefault must be true or false');
+    }
+
+    if (!address || errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: `Validation errors: ${errors.join(', ')}`
+      });
+      return;
+    }
+
+    const result = await withTransaction(client =>
+      saveAddress(client, (req.user as User).id, type, address, isDefault)
+    );
+
+    res.status(result.created ? 201 : 200).json({
+      success: true,
+      message: result.created ? 'Address saved' : 'This address is already in your address book',
+      data: {
+        address: result.address
+      }
+    });
+
+  } catch (error) {
+    sendAddressError(res, error, 'saving');
+  }
+}));
+
+// @route   PUT /api/addresses/:id
+// @desc    Change a saved address - one already used by an order is saved under a new id
+// @access  Private
+router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const addressId = req.params.id;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(addressId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid address ID format'
+      });
+      return;
+    }
+
+    const { type = 'shipping', isDefault } = req.body;
+    const { address, errors } = parseAddressInput(req.body);
+
+    if (!isAddressType(type)) {
+      errors.push('Type must be one of: ' + ADDRESS_TYPES.join(', '));
+    }
+    if (isDefault !== undefined && typeof isDefault !== 'boolean') {
+      errors.push('isDefault must be true or false');
+    }
+
+    if (!address || errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: `Validation errors: ${errors.join(', ')}`
+      });
+      return;
+    }
+
+    const updated = await withTransaction(client =>
+      updateSavedAddress(client, (req.user as User).id, addressId, { type, address, isDefault })
+    );
+
+    res.json({
+      success: true,
+      message: 'Address updated',
+      data: {
+        address: updated
+      }
+    });
+
+  } catch (error) {
+    sendAddressError(res, error, 'updating');
+  }
+}));
+
+// @route   DELETE /api/addresses/:id
+// @desc    Remove a saved address - orders that used it keep their copy
+// @access  Private
+router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const addressId = req.params.id;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(addressId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid address ID format'
+      });
+      return;
+    }
+
+    await withTransaction(client => removeSavedAddress(client, (req.user as User).id, addressId));
+
+    res.json({
+      success: true,
+      message: 'Address removed'
+    });
+
+  } catch (error) {
+    sendAddressError(res, error, 'removing');
+  }
+}));
+
+export default router;
@@ -1,7 +1,9 @@
 import express, { Request, Response } from 'express';
-import { query } from '../config/database';
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../config/database';
 import { authenticateToken, requireAdmin } from '../middleware/auth';
-import { asyncHandler } from '../middleware/errorHandler';
+import { asyncHandler, createError, CustomError } from '../middleware/errorHandler';
+import { idempotency } from '../middleware/idempotency';
 import {
   AdminProductsResponse,
   AdminCategoriesResponse,
@@ -11,12 +13,86 @@ import {
   AdminUpdateProductResponse,
   CreateProductRequest,
   UpdateProductRequest,
+  ProductShippingDetails,
   ProductsQueryParams,
   ProductWithCategory,
   Category,
   AdminStats,
   getProductStatus
 } from '../types/admin';
+import {
+  transitionOrder,
+  getManualTransitions,
+  SHIPMENT_DRIVEN_STATUSES,
+  isOrderStatus,
+  InvalidTransitionError,
+  ORDER_STATUSES
+} from '../utils/orderStateMachine';
+import { getStatusHistory } from '../utils/orderStatusHistory';
+import { getUnreadNotifications } from '../utils/adminNotifications';
+import {
+  getReturnRequests,
+  decideReturn,
+  receiveReturn,
+  refundReturn,
+  isReturnStatus,
+  RETURN_STATUSES,
+  RETURN_DISPOSITIONS,
+  ReturnDisposition
+} from '../utils/returns';
+import { getOrderRefunds, issueRefund } from '../utils/refunds';
+import {
+  listBillingDocuments,
+  getBillingDocument,
+  renderDocumentsPdf,
+  toDocumentSummary,
+  isBillingDocumentType,
+  BILLING_DOCUMENT_TYPES,
+  MAX_BULK_DOCUMENTS,
+  BillingDocumentFilters
+} from '../utils/billingDocuments';
+import { roundMoney } from '../utils/money';
+import {
+  getWebhookEvents,
+  processWebhookEvent,
+  isWebhookEventStatus,
+  WEBHOOK_EVENT_STATUSES
+} from '../utils/paymentWebhooks';
+import { getOutboxEmails, getOutboxEmail, resendEmail, isEmailStatus, EMAIL_STATUSES } from '../utils/emailOutbox';
+import { getCheckoutRecoveryStats } from '../utils/checkoutDrafts';
+import {
+  getCodCollections,
+  recordCollectionOutcome,
+  getRemittances,
+  createRemittance,
+  resolveRemittance,
+  getCodReceivables,
+  isCodCollectionStatus,
+  COD_COLLECTION_STATUSES
+} from '../utils/codCollections';
+import {
+  getShipments,
+  getShippableItems,
+  getFulfillmentQueue,
+  createShipment,
+  markShipmentDelivered,
+  isCarrier,
+  CARRIERS,
+  ShipmentItemInput
+} from '../utils/shipments';
+import { mapTaxRuleRow } from '../utils/taxEngine';
+import { mapStoreHolidayRow } from '../utils/deliveryEstimate';
+import { formatAddressLines } from '../utils/addressFormats';
+import { getShippingLabel, renderShippingLabelPdf } from '../utils/shippingLabels';
+import { getCurrencies, mapCurrencyRow, parseRateImport, isCurrencyCode, CURRENCY_SELECT } from '../utils/currencies';
+import {
+  getShippingZones,
+  getShippingRates,
+  isShippingRateType,
+  SHIPPING_RATE_TYPES,
+  ShippingRateType
+} from '../utils/shippingRates';
+import { mapPromotionRow, normalizeCode, DISCOUNT_TYPES, DiscountType } from '../utils/promotions';
 
 const router = express.Router();
 
@@ -24,6 +100,9 @@ const router = express.Router();
 router.use(authenticateToken);
 router.use(requireAdmin);
 
+// Let admin write requests be retried safely with an Idempotency-Key header
+router.use(idempotency());
+
 // @route   GET /api/admin/products
 // @desc    Get all products with filtering and pagination
 // @access  Private (Admin only)
@@ -95,6 +174,10 @@ router.get('/products', asyncHandler(async (req: Request, res: Response<AdminPro
       p.image_url,
       p.stock,
       p.category_id,
+      p.weight_kg,
+      p.length_cm,
+      p.width_cm,
+      p.height_cm,
       p.created_at,
       p.updated_at,
       c.name as category_name
@@ -132,6 +215,7 @@ router.get('/products', asyncHandler(async (req: Request, res: Response<AdminPro
       image_url: row.image_url,
       stock: parseInt(row.stock),
       category_id: row.category_id,
+      ...mapProductShipping(row),
       created_at: row.created_at,
       updated_at: row.updated_at,
       category_name: row.category_name
@@ -244,12 +328,43 @@ router.get('/stats', asyncHandler(async (req: Request, res: Response<AdminStatsR
   }
 }));
 
+// Shipping details shared by product create and update
+const validateProductShipping = (shipping: ProductShippingDetails): string[] => {
+  const errors: string[] = [];
+
+  if (shipping.weight_kg !== undefined && shipping.weight_kg !== null
+    && (typeof shipping.weight_kg !== 'number' || shipping.weight_kg < 0 || shipping.weight_kg > 99999)) {
+    errors.push('Weight must be a number of kilograms between 0 and 99999');
+  }
+
+  const dimensions: Array<[keyof ProductShippingDetails, string]> = [
+    ['length_cm', 'Length'],
+    ['width_cm', 'Width'],
+    ['height_cm', 'Height']
+  ];
+  for (const [field, label] of dimensions) {
+    const value = shipping[field];
+    if (value !== undefined && value !== null && (typeof value !== 'number' || value <= 0 || value > 9999999)) {
+      errors.push(`${label} must be a positive number of centimetres`);
+    }
+  }
+
+  return errors;
+};
+
+const mapProductShipping = (row: any): ProductShippingDetails => ({
+  weight_kg: parseFloat(row.weight_kg),
+  length_cm: row.length_cm === null ? null : parseFloat(row.length_cm),
+  width_cm: row.width_cm === null ? null : parseFloat(row.width_cm),
+  height_cm: row.height_cm === null ? null : parseFloat(row.height_cm)
+});
+
 // @route   POST /api/admin/products
 // @desc    Create a new product
 // @access  Private (Admin only)
 router.post('/products', asyncHandler(async (req: Request, res: Response<AdminCreateProductResponse>) => {
   try {
-    const { name, description, price, stock, category_id, image_url }: CreateProductRequest = req.body;
+    const { name, description, price, stock, category_id, image_url, ...shipping }: CreateProductRequest = req.body;
 
     // Validation
     const errors: string[] = [];
@@ -294,6 +409,8 @@ router.post('/products', asyncHandler(async (req: Request, res: Response<AdminCr
       errors.push('Image URL must be a string');
     }
 
+    errors.push(...validateProductShipping(shipping));
+
     if (errors.length > 0) {
       res.status(400).json({
         success: false,
@@ -302,66 +419,67 @@ router.post('/products', asyncHandler(async (req: Request, res: Response<AdminCr
       return;
     }
 
-    // Check for duplicate product name
-    const duplicateCheck = await query(
-      'SELECT id FROM products WHERE LOWER(name) = LOWER($1)',
-      [name.trim()]
-    );
-
-    if (duplicateCheck.rows.length > 0) {
-      res.status(409).json({
-        success: false,
-        message: 'A product with this name already exists'
-      });
-      return;
-    }
-
-    // Create the product
-    const createResult = await query(
-      `INSERT INTO products (name, description, price, stock, category_id, image_url)
-       VALUES ($1, $2, $3, $4, $5, $6)
-       RETURNING id, name, description, price, stock, category_id, image_url, created_at, updated_at`,
-      [
-        name.trim(),
-        description?.trim() || null,
-        price,
-        stock,
-        category_id,
-        image_url?.trim() || null
-      ]
-    );
-
-    if (createResult.rows.length === 0) {
-      res.status(500).json({
-        success: false,
-        message: 'Failed to create product'
-      });
-      return;
-    }
+    // Duplicate check and insert share a serializable transaction so two
+    // concurrent creates with the same name cannot both succeed
+    const newProduct: ProductWithCategory = await withTransaction(async (client) => {
+      // Check for duplicate product name
+      const duplicateCheck = await client.query(
+        'SELECT id FROM products WHERE LOWER(name) = LOWER($1)',
+        [name.trim()]
+      );
+
+      if (duplicateCheck.rows.length > 0) {
+        throw createError('A product with this name already exists', 409);
+      }
 
-    // Get the created product with category information
-    const productWithCategory = await query(
-      `SELECT
-        p.id, p.name, p.description, p.price, p.stock, p.category_id, p.image_url,
-        p.created_at, p.updated_at, c.name as category_name
-       FROM products p
-       LEFT JOIN categories c ON p.category_id = c.id
-       WHERE p.id = $1`,
-      [createResult.rows[0].id]
-    );
+      // Create the product
+      const createResult = await client.query(
+        `INSERT INTO products (name, description, price, stock, category_id, image_url, weight_kg, length_cm, width_cm, height_cm)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         RETURNING id, name, description, price, stock, category_id, image_url, created_at, updated_at`,
+        [
+          name.trim(),
+          description?.trim() || null,
+          price,
+          stock,
+          category_id,
+          image_url?.trim() || null,
+          shipping.weight_kg ?? 0,
+          shipping.length_cm ?? null,
+          shipping.width_cm ?? null,
+          shipping.height_cm ?? null
+        ]
+      );
+
+      if (createResult.rows.length === 0) {
+        throw createError('Failed to create product', 500);
+      }
 
-    const newProduct: ProductWithCategory = {
-      id: productWithCategory.rows[0].id,
-      name: productWithCategory.rows[0].name,
-      description: productWithCategory.rows[0].description,
-      price: parseFloat(productWithCategory.rows[0].price),
-      image_url: productWithCategory.rows[0].image_url,
-      stock: parseInt(productWithCategory.rows[0].stock),
-      category_id: productWithCategory.rows[0].category_id,
-      created_at: productWithCategory.rows[0].created_at,
-      updated_at: productWithCategory.rows[0].updated_at,
-      category_name: productWithCategory.rows[0].category_name
-    };
+      // Get the created product with category information
+      const productWithCategory = await client.query(
+        `SELECT
+          p.id, p.name, p.description, p.price, p.stock, p.category_id, p.image_url,
+          p.weight_kg, p.length_cm, p.width_cm, p.height_cm, p.created_at, p.updated_at, c.name as category_name
+         FROM products p
+         LEFT JOIN categories c ON p.category_id = c.id
+         WHERE p.id = $1`,
+        [createResult.rows[0].id]
+      );
+
+      return {
+        id: productWithCategory.rows[0].id,
+        name: productWithCategory.rows[0].name,
+        description: productWithCategory.rows[0].description,
+        price: parseFloat(productWithCategory.rows[0].price),
+        image_url: productWithCategory.rows[0].image_url,
+        stock: parseInt(productWithCategory.rows[0].stock),
+        category_id: productWithCategory.rows[0].category_id,
+        ...mapProductShipping(productWithCategory.rows[0]),
+        created_at: productWithCategory.rows[0].created_at,
+        updated_at: productWithCategory.rows[0].updated_at,
+        category_name: productWithCategory.rows[0].category_name
+      };
+    }, { isolationLevel: 'SERIALIZABLE' });
 
     res.status(201).json({
       success: true,
@@ -372,6 +490,15 @@ router.post('/products', asyncHandler(async (req: Request, res: Response<AdminCr
     });
 
   } catch (error) {
+    const statusCode = (error as CustomError).statusCode;
+    if (statusCode) {
+      res.status(statusCode).json({
+        success: false,
+        message: (error as Error).message
+      });
+      return;
+    }
+
     console.error('Error creating product:', error);
     res.status(500).json({
       success: false,
@@ -386,7 +513,7 @@ router.post('/products', asyncHandler(async (req: Request, res: Response<AdminCr
 router.put('/products/:id', asyncHandler(async (req: Request, res: Response<AdminUpdateProductResponse>) => {
   try {
     const productId = req.params.id;
-    const { name, description, price, stock, category_id, image_url }: UpdateProductRequest = req.body;
+    const { name, description, price, stock, category_id, image_url, ...shipping }: UpdateProductRequest = req.body;
 
     // Validate product ID format (UUID)
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
@@ -455,6 +582,8 @@ router.put('/products/:id', asyncHandler(async (req: Request, res: Response<Admi
       errors.push('Image URL must be a string');
     }
 
+    errors.push(...validateProductShipping(shipping));
+
     if (errors.length > 0) {
       res.status(400).json({
         success: false,
@@ -463,68 +592,68 @@ router.put('/products/:id', asyncHandler(async (req: Request, res: Response<Admi
       return;
     }
 
-    // Check for duplicate product name (excluding current product)
-    const duplicateCheck = await query(
-      'SELECT id FROM products WHERE LOWER(name) = LOWER($1) AND id != $2',
-      [name.trim(), productId]
-    );
-
-    if (duplicateCheck.rows.length > 0) {
-      res.status(409).json({
-        success: false,
-        message: 'A product with this name already exists'
-      });
-      return;
-    }
-
-    // Update the product
-    const updateResult = await query(
-      `UPDATE products
-       SET name = $1, description = $2, price = $3, stock = $4, category_id = $5, image_url = $6, updated_at = CURRENT_TIMESTAMP
-       WHERE id = $7
-       RETURNING id, name, description, price, stock, category_id, image_url, created_at, updated_at`,
-      [
-        name.trim(),
-        description?.trim() || null,
-        price,
-        stock,
-        category_id,
-        image_url?.trim() || null,
-        productId
-      ]
-    );
+    const updatedProduct: ProductWithCategory = await withTransaction(async (client) => {
+      // Check for duplicate product name (excluding current product)
+      const duplicateCheck = await client.query(
+        'SELECT id FROM products WHERE LOWER(name) = LOWER($1) AND id != $2',
+        [name.trim(), productId]
+      );
 
-    if (updateResult.rows.length === 0) {
-      res.status(500).json({
-        success: false,
-        message: 'Failed to update product'
-      });
-      return;
-    }
+      if (duplicateCheck.rows.length > 0) {
+        throw createError('A product with this name already exists', 409);
+      }
 
-    // Get the updated product with category information
-    const productWithCategory = await query(
-      `SELECT
-        p.id, p.name, p.description, p.price, p.stock, p.category_id, p.image_url,
-        p.created_at, p.updated_at, c.name as category_name
-       FROM products p
-       LEFT JOIN categories c ON p.category_id = c.id
-       WHERE p.id = $1`,
-      [productId]
-    );
+      // Update the product
+      const updateResult = await client.query(
+        `UPDATE products
+         SET name = $1, description = $2, price = $3, stock = $4, category_id = $5, image_url = $6,
+             weight_kg = $7, length_cm = $8, width_cm = $9, height_cm = $10, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $11
+         RETURNING id, name, description, price, stock, category_id, image_url, created_at, updated_at`,
+        [
+          name.trim(),
+          description?.trim() || null,
+          price,
+          stock,
+          category_id,
+          image_url?.trim() || null,
+          shipping.weight_kg ?? 0,
+          shipping.length_cm ?? null,
+          shipping.width_cm ?? null,
+          shipping.height_cm ?? null,
+          productId
+        ]
+      );
+
+      if (updateResult.rows.length === 0) {
+        throw createError('Failed to update product', 500);
+      }
 
-    const updatedProduct: ProductWithCategory = {
-      id: productWithCategory.rows[0].id,
-      name: productWithCategory.rows[0].name,
-      description: productWithCategory.rows[0].description,
-      price: parseFloat(productWithCategory.rows[0].price),
-      image_url: productWithCategory.rows[0].image_url,
-      stock: parseInt(productWithCategory.rows[0].stock),
-      category_id: productWithCategory.rows[0].category_id,
-      created_at: productWithCategory.rows[0].created_at,
-      updated_at: productWithCategory.rows[0].updated_at,
-      category_name: productWithCategory.rows[0].category_name
-    };
+      // Get the updated product with category information
+      const productWithCategory = await client.query(
+        `SELECT
+          p.id, p.name, p.description, p.price, p.stock, p.category_id, p.image_url,
+          p.weight_kg, p.length_cm, p.width_cm, p.height_cm, p.created_at, p.updated_at, c.name as category_name
+         FROM products p
+         LEFT JOIN categories c ON p.category_id = c.id
+         WHERE p.id = $1`,
+        [productId]
+      );
+
+      return {
+        id: productWithCategory.rows[0].id,
+        name: productWithCategory.rows[0].name,
+        description: productWithCategory.rows[0].description,
+        price: parseFloat(productWithCategory.rows[0].price),
+        image_url: productWithCategory.rows[0].image_url,
+        stock: parseInt(productWithCategory.rows[0].stock),
+        category_id: productWithCategory.rows[0].category_id,
+        ...mapProductShipping(productWithCategory.rows[0]),
+        created_at: productWithCategory.rows[0].created_at,
+        updated_at: productWithCategory.rows[0].updated_at,
+        category_name: productWithCategory.rows[0].category_name
+      };
+    }, { isolationLevel: 'SERIALIZABLE' });
 
     res.json({
       success: true,
@@ -535,6 +664,15 @@ router.put('/products/:id', asyncHandler(async (req: Request, res: Response<Admi
     });
 
   } catch (error) {
+    const statusCode = (error as CustomError).statusCode;
+    if (statusCode) {
+      res.status(statusCode).json({
+        success: false,
+        message: (error as Error).message
+      });
+      return;
+    }
+
     console.error('Error updating product:', error);
     res.status(500).json({
       success: false,
@@ -680,6 +818,9 @@ router.get('/orders', asyncHandler(async (req: Request, res: Response) => {
         o.tax_amount,
         o.cod_fee,
         o.total,
+        o.currency,
+        o.exchange_rate,
+        o.base_total,
         o.payment_method,
         o.order_notes,
         o.created_at,
@@ -697,11 +838,25 @@ router.get('/orders', asyncHandler(async (req: Request, res: Response) => {
         dm.estimated_days,
         -- User info (if registered user)
         u.full_name as user_full_name,
-        u.email as user_email
+        u.email as user_email,
+        -- Who cancelled the order, if it was cancelled
+        cancellation.actor_type as cancelled_by,
+        cancellation.reason as cancellation_reason,
+        -- Money sent back so far
+        COALESCE((
+          SELECT SUM(r.amount) FROM refunds r WHERE r.order_id = o.id AND r.status <> 'failed'
+        ), 0) as refunded_amount
       FROM orders o
       LEFT JOIN addresses sa ON o.shipping_address_id = sa.id
       LEFT JOIN delivery_methods dm ON o.delivery_method_id = dm.id
       LEFT JOIN users u ON o.user_id = u.id
+      LEFT JOIN LATERAL (
+        SELECT h.actor_type, h.reason
+        FROM order_status_history h
+        WHERE h.order_id = o.id AND h.to_status = 'cancelled'
+        ORDER BY h.created_at DESC
+        LIMIT 1
+      ) cancellation ON o.status = 'cancelled'
       ${whereClause}
       ORDER BY o.${safeSortBy} ${safeSortOrder}
       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
@@ -753,13 +908,21 @@ router.get('/orders', asyncHandler(async (req: Request, res: Response) => {
       customerEmail: order.customer_email,
       customerName: order.user_full_name || order.shipping_name,
       status: order.status,
+      allowedTransitions: getManualTransitions(order),
       subtotal: parseFloat(order.subtotal || '0'),
       shippingCost: parseFloat(order.shipping_cost || '0'),
       taxAmount: parseFloat(order.tax_amount || '0'),
       codFee: parseFloat(order.cod_fee || '0'),
       total: parseFloat(order.total || '0'),
+      currency: order.currency.trim(),
+      exchangeRate: parseFloat(order.exchange_rate),
+      baseTotal: parseFloat(order.base_total),
+      refundedAmount: parseFloat(order.refunded_amount),
+      netTotal: roundMoney(parseFloat(order.total || '0') - parseFloat(order.refunded_amount)),
       paymentMethod: order.payment_method,
       orderNotes: order.order_notes,
+      cancelledBy: order.cancelled_by || null,
+      cancellationReason: order.cancellation_reason || null,
       createdAt: order.created_at,
       items: orderItemsMap[order.id] || [],
       shippingAddress: {
@@ -770,7 +933,15 @@ router.get('/orders', asyncHandler(async (req: Request, res: Response) => {
         city: order.shipping_city,
         state: order.shipping_state,
         postalCode: order.shipping_postal_code,
-        country: order.shipping_country
+        country: order.shipping_country,
+        formattedLines: formatAddressLines({
+          addressLine1: order.shipping_address_1,
+          addressLine2: order.shipping_address_2,
+          city: order.shipping_city,
+          state: order.shipping_state,
+          postalCode: order.shipping_postal_code,
+          country: order.shipping_country
+        })
       },
       deliveryMethod: {
         name: order.delivery_method_name,
@@ -814,7 +985,7 @@ router.get('/orders', asyncHandler(async (req: Request, res: Response) => {
 router.put('/orders/:id/status', asyncHandler(async (req: Request, res: Response) => {
   try {
     const orderId = req.params.id;
-    const { status } = req.body;
+    const { status, reason } = req.body;
 
     // Validate order ID format (UUID)
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
@@ -827,56 +998,35 @@ router.put('/orders/:id/status', asyncHandler(async (req: Request, res: Response
     }
 
     // Validate status
-    const validStatuses = ['pending', 'paid', 'shipped', 'cancelled'];
-    if (!status || !validStatuses.includes(status)) {
+    if (!isOrderStatus(status)) {
       res.status(400).json({
         success: false,
-        message: 'Invalid status. Valid statuses are: ' + validStatuses.join(', ')
+        message: 'Invalid status. Valid statuses are: ' + ORDER_STATUSES.join(', ')
       });
       return;
     }
 
-    // Check if order exists
-    const existingOrderResult = await query(
-      'SELECT id, status, customer_email FROM orders WHERE id = $1',
-      [orderId]
-    );
-
-    if (existingOrderResult.rows.length === 0) {
-      res.status(404).json({
+    if (SHIPMENT_DRIVEN_STATUSES.includes(status)) {
+      res.status(400).json({
         success: false,
-        message: 'Order not found'
+        message: `Orders become ${status} by recording shipments`
       });
       return;
     }
 
-    const existingOrder = existingOrderResult.rows[0];
-
-    // Check if status is actually changing
-    if (existingOrder.status === status) {
+    if (reason !== undefined && reason !== null && (typeof reason !== 'string' || reason.length > 500)) {
       res.status(400).json({
         success: false,
-        message: `Order is already in ${status} status`
+        message: 'Reason must be text of at most 500 characters'
       });
       return;
     }
 
-    // Update order status
-    const updateResult = await query(
-      'UPDATE orders SET status = $1 WHERE id = $2 RETURNING id, status, total, created_at',
-      [status, orderId]
+    // Move the order through its lifecycle - stock and history are updated in the same transaction
+    const { order: updatedOrder } = await withTransaction(client =>
+      transitionOrder(client, orderId, status, { type: 'admin', userId: req.user!.id }, reason?.trim() || null)
     );
 
-    if (updateResult.rows.length === 0) {
-      res.status(500).json({
-        success: false,
-        message: 'Failed to update order status'
-      });
-      return;
-    }
-
-    const updatedOrder = updateResult.rows[0];
-
     res.json({
       success: true,
       message: `Order status updated to ${status} successfully`,
@@ -884,6 +1034,7 @@ router.put('/orders/:id/status', asyncHandler(async (req: Request, res: Response
         orderId: updatedOrder.id,
         orderNumber: updatedOrder.id.substring(0, 8).toUpperCase(),
         status: updatedOrder.status,
+        allowedTransitions: getManualTransitions(updatedOrder),
         total: parseFloat(updatedOrder.total),
         createdAt: updatedOrder.created_at,
         updatedAt: new Date().toISOString()
@@ -891,6 +1042,29 @@ router.put('/orders/:id/status', asyncHandler(async (req: Request, res: Response
     });
 
   } catch (error) {
+    if (error instanceof InvalidTransitionError) {
+      res.status(409).json({
+        success: false,
+        code: 'INVALID_STATUS_TRANSITION',
+        message: error.message,
+        data: {
+          from: error.from,
+          to: error.to,
+          allowedTransitions: error.allowed
+        }
+      });
+      return;
+    }
+
+    const statusCode = (error as CustomError).statusCode;
+    if (statusCode) {
+      res.status(statusCode).json({
+        success: false,
+        message: (error as Error).message
+      });
+      return;
+    }
+
     console.error('Error updating order status:', error);
     res.status(500).json({
       success: false,
@@ -899,275 +1073,3131 @@ router.put('/orders/:id/status', asyncHandler(async (req: Request, res: Response
   }
 }));
 
-// @route   GET /api/admin/orders/stats
-// @desc    Get order statistics for admin dashboard
+// @route   GET /api/admin/orders/:id/history
+// @desc    Get the status timeline of an order
 // @access  Private (Admin only)
-router.get('/orders/stats', asyncHandler(async (req: Request, res: Response) => {
+router.get('/orders/:id/history', asyncHandler(async (req: Request, res: Response) => {
   try {
-    // Get order statistics
-    const statsResult = await query(`
-      SELECT
-        COUNT(*) as total_orders,
-        COUNT(CASE WHEN status = 'pending' THEN 1 END) as pending_orders,
-        COUNT(CASE WHEN status = 'processing' THEN 1 END) as processing_orders,
-        COUNT(CASE WHEN status = 'shipped' THEN 1 END) as shipped_orders,
-        COUNT(CASE WHEN status = 'delivered' THEN 1 END) as delivered_orders,
-        COUNT(CASE WHEN status = 'cancelled' THEN 1 END) as cancelled_orders,
-        COALESCE(SUM(total), 0) as total_revenue,
-        COALESCE(AVG(total), 0) as average_order_value,
-        COUNT(CASE WHEN created_at >= NOW() - INTERVAL '30 days' THEN 1 END) as orders_last_30_days
-      FROM orders
-    `);
+    const orderId = req.params.id;
 
-    const stats = statsResult.rows[0];
+    // Validate order ID format (UUID)
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(orderId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid order ID format'
+      });
+      return;
+    }
+
+    const history = await getStatusHistory(orderId);
 
     res.json({
       success: true,
-      message: 'Order statistics retrieved successfully',
-      data: {
-        totalOrders: parseInt(stats.total_orders),
-        pendingOrders: parseInt(stats.pending_orders),
-        processingOrders: parseInt(stats.processing_orders),
-        shippedOrders: parseInt(stats.shipped_orders),
-        deliveredOrders: parseInt(stats.delivered_orders),
-        cancelledOrders: parseInt(stats.cancelled_orders),
-        totalRevenue: parseFloat(stats.total_revenue),
-        averageOrderValue: parseFloat(stats.average_order_value),
-        ordersLast30Days: parseInt(stats.orders_last_30_days)
-      }
+      message: 'Order history retrieved successfully',
+      data: history
     });
 
   } catch (error) {
-    console.error('Error fetching order statistics:', error);
+    console.error('Error fetching order history:', error);
     res.status(500).json({
       success: false,
-      message: 'Internal server error while fetching order statistics'
+      message: 'Internal server error while fetching order history'
     });
   }
 }));
 
-// ===============================================
-// REVIEW MANAGEMENT ENDPOINTS
-// ===============================================
-
-// @route   GET /api/admin/reviews
-// @desc    Get all reviews with filtering and pagination
+// @route   GET /api/admin/orders/:id/refunds
+// @desc    Get the refunds ledger of an order with the amount still refundable
 // @access  Private (Admin only)
-router.get('/reviews', asyncHandler(async (req: Request, res: Response) => {
+router.get('/orders/:id/refunds', asyncHandler(async (req: Request, res: Response) => {
   try {
-    const {
-      search = '',
-      rating = 'all',
-      page = 1,
-      limit = 20,
-      sortBy = 'created_at',
-      sortOrder = 'desc'
-    } = req.query;
-
-    // Build WHERE clause for filtering
-    let whereConditions: string[] = [];
-    let queryParams: any[] = [];
-    let paramIndex = 1;
-
-    // Search filter (by product name, user name, or review content)
-    if (search && search.toString().trim() !== '') {
-      whereConditions.push(`(p.name ILIKE $${paramIndex} OR u.full_name ILIKE $${paramIndex} OR pr.review ILIKE $${paramIndex})`);
-      queryParams.push(`%${search.toString().trim()}%`);
-      paramIndex++;
-    }
+    const orderId = req.params.id;
 
-    // Rating filter
-    if (rating && rating !== 'all') {
-      whereConditions.push(`pr.rating = $${paramIndex}`);
-      queryParams.push(parseInt(rating as string));
-      paramIndex++;
+    // Validate order ID format (UUID)
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(orderId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid order ID format'
+      });
+      return;
     }
 
-    // Build WHERE clause
-    const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
-
-    // Validate sort parameters
-    const validSortColumns = ['created_at', 'rating', 'product_name', 'user_name'];
-    const validSortOrders = ['asc', 'desc'];
-    const safeSortBy = validSortColumns.includes(sortBy as string) ? sortBy : 'created_at';
-    const safeSortOrder = validSortOrders.includes(sortOrder as string) ? sortOrder : 'desc';
-
-    // Calculate pagination
-    const pageNum = Math.max(1, parseInt(page as string) || 1);
-    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 20));
-    const offset = (pageNum - 1) * limitNum;
-
-    // Get total count for pagination
-    const countQuery = `
-      SELECT COUNT(*) as total
-      FROM product_reviews pr
-      LEFT JOIN products p ON pr.product_id = p.id
-      LEFT JOIN users u ON pr.user_id = u.id
-      ${whereClause}
-    `;
-    const countResult = await query(countQuery, queryParams);
-    const totalReviews = parseInt(countResult.rows[0].total);
-
-    // Get reviews with related data
-    const reviewsQuery = `
-      SELECT
-        pr.id,
-        pr.user_id,
-        pr.product_id,
-        pr.rating,
-        pr.review,
-        pr.created_at,
-        pr.updated_at,
-        u.full_name as user_name,
-        u.email as user_email,
-        p.name as product_name,
-        p.image_url as product_image
-      FROM product_reviews pr
-      LEFT JOIN products p ON pr.product_id = p.id
-      LEFT JOIN users u ON pr.user_id = u.id
-      ${whereClause}
-      ORDER BY pr.${safeSortBy === 'product_name' ? 'p.name' : safeSortBy === 'user_name' ? 'u.full_name' : 'pr.' + safeSortBy} ${safeSortOrder}
-      LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
-    `;
-
-    queryParams.push(limitNum, offset);
-    const reviewsResult = await query(reviewsQuery, queryParams);
-
-    // Calculate pagination info
-    const totalPages = Math.ceil(totalReviews / limitNum);
-    const hasNextPage = pageNum < totalPages;
-    const hasPrevPage = pageNum > 1;
+    const summary = await getOrderRefunds(orderId);
 
     res.json({
       success: true,
-      message: 'Reviews retrieved successfully',
-      data: {
-        reviews: reviewsResult.rows,
-        pagination: {
-          currentPage: pageNum,
-          totalPages,
-          totalReviews,
-          hasNextPage,
-          hasPrevPage,
-          limit: limitNum
-        }
-      }
+      message: 'Refunds retrieved successfully',
+      data: summary
     });
 
   } catch (error) {
-    console.error('Error fetching reviews:', error);
+    console.error('Error fetching refunds:', error);
     res.status(500).json({
       success: false,
-      message: 'Internal server error while fetching reviews'
+      message: 'Internal server error while fetching refunds'
     });
   }
 }));
 
-// @route   DELETE /api/admin/reviews/:id
-// @desc    Delete a review
+// @route   POST /api/admin/orders/:id/refunds
+// @desc    Refund all or part of an order's captured payment
 // @access  Private (Admin only)
-router.delete('/reviews/:id', asyncHandler(async (req: Request, res: Response) => {
+router.post('/orders/:id/refunds', asyncHandler(async (req: Request, res: Response) => {
   try {
-    const reviewId = req.params.id;
+    const orderId = req.params.id;
+    const { amount, reason } = req.body;
 
-    // Validate review ID format (UUID)
+    // Validate order ID format (UUID)
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-    if (!uuidRegex.test(reviewId)) {
+    if (!uuidRegex.test(orderId)) {
       res.status(400).json({
         success: false,
-        message: 'Invalid review ID format'
+        message: 'Invalid order ID format'
       });
       return;
     }
 
-    // Check if review exists
-    const existingReviewResult = await query(
-      'SELECT id, product_id FROM product_reviews WHERE id = $1',
-      [reviewId]
-    );
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Amount must be a positive number'
+      });
+      return;
+    }
 
-    if (existingReviewResult.rows.length === 0) {
-      res.status(404).json({
+    if (reason !== undefined && reason !== null && (typeof reason !== 'string' || reason.length > 500)) {
+      res.status(400).json({
         success: false,
-        message: 'Review not found'
+        message: 'Reason must be text of at most 500 characters'
       });
       return;
     }
 
-    // Delete the review
-    const deleteResult = await query(
-      'DELETE FROM product_reviews WHERE id = $1 RETURNING id',
-      [reviewId]
+    const refund = await withTransaction(client =>
+      issueRefund(client, {
+        orderId,
+        amount,
+        reason: reason?.trim() || null,
+        actor: { type: 'admin', userId: req.user!.id }
+      })
     );
 
-    if (deleteResult.rows.length === 0) {
-      res.status(500).json({
+    const summary = await getOrderRefunds(orderId);
+
+    if (refund.status === 'failed') {
+      res.status(502).json({
         success: false,
-        message: 'Failed to delete review'
+        message: refund.failureReason || 'The payment provider declined the refund',
+        data: summary
+      });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: refund.status === 'pending'
+        ? 'Refund submitted to the payment provider'
+        : `Refunded ${refund.amount.toFixed(2)} successfully`,
+      data: summary
+    });
+
+  } catch (error) {
+    const statusCode = (error as CustomError).statusCode;
+    if (statusCode) {
+      res.status(statusCode).json({
+        success: false,
+        message: (error as Error).message
       });
       return;
     }
 
+    console.error('Error issuing refund:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while issuing refund'
+    });
+  }
+}));
+
+// @route   GET /api/admin/fulfillment
+// @desc    Get orders with units still to ship, oldest first
+// @access  Private (Admin only)
+router.get('/fulfillment', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const queue = await getFulfillmentQueue();
+
     res.json({
       success: true,
-      message: 'Review deleted successfully',
+      message: 'Fulfillment queue retrieved successfully',
+      data: queue
+    });
+
+  } catch (error) {
+    console.error('Error fetching fulfillment queue:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while fetching fulfillment queue'
+    });
+  }
+}));
+
+// @route   GET /api/admin/orders/:id/shipments
+// @desc    Get an order's shipments and the items not shipped yet
+// @access  Private (Admin only)
+router.get('/orders/:id/shipments', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const orderId = req.params.id;
+
+    // Validate order ID format (UUID)
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(orderId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid order ID format'
+      });
+      return;
+    }
+
+    const [shipments, shippableItems] = await Promise.all([
+      getShipments(orderId),
+      getShippableItems(orderId)
+    ]);
+
+    res.json({
+      success: true,
+      message: 'Shipments retrieved successfully',
       data: {
-        reviewId: deleteResult.rows[0].id
+        shipments,
+        shippableItems
       }
     });
 
   } catch (error) {
-    console.error('Error deleting review:', error);
+    console.error('Error fetching shipments:', error);
     res.status(500).json({
       success: false,
-      message: 'Internal server error while deleting review'
+      message: 'Internal server error while fetching shipments'
     });
   }
 }));
 
-// @route   GET /api/admin/reviews/stats
-// @desc    Get review statistics for admin dashboard
+// @route   POST /api/admin/orders/:id/shipments
+// @desc    Record a parcel handed to a carrier with its tracking number
 // @access  Private (Admin only)
-router.get('/reviews/stats', asyncHandler(async (req: Request, res: Response) => {
+router.post('/orders/:id/shipments', asyncHandler(async (req: Request, res: Response) => {
   try {
-    // Get review statistics
-    const statsResult = await query(`
-      SELECT
-        COUNT(*) as total_reviews,
-        COUNT(CASE WHEN rating = 1 THEN 1 END) as one_star_reviews,
-        COUNT(CASE WHEN rating = 2 THEN 1 END) as two_star_reviews,
-        COUNT(CASE WHEN rating = 3 THEN 1 END) as three_star_reviews,
-        COUNT(CASE WHEN rating = 4 THEN 1 END) as four_star_reviews,
-        COUNT(CASE WHEN rating = 5 THEN 1 END) as five_star_reviews,
-        COALESCE(AVG(rating), 0) as average_rating,
-        COUNT(CASE WHEN created_at >= NOW() - INTERVAL '30 days' THEN 1 END) as reviews_last_30_days,
-        COUNT(CASE WHEN review IS NOT NULL AND review != '' THEN 1 END) as reviews_with_comments
-      FROM product_reviews
-    `);
+    const orderId = req.params.id;
+    const { carrier, trackingNumber, shippedAt, items } = req.body;
 
-    const stats = statsResult.rows[0];
+    // Validate order ID format (UUID)
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(orderId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid order ID format'
+      });
+      return;
+    }
+
+    if (!isCarrier(carrier)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid carrier. Valid carriers are: ' + Object.keys(CARRIERS).join(', ')
+      });
+      return;
+    }
+
+    if (typeof trackingNumber !== 'string' || !trackingNumber.trim() || trackingNumber.length > 100) {
+      res.status(400).json({
+        success: false,
+        message: 'Tracking number is required (at most 100 characters)'
+      });
+      return;
+    }
+
+    // A bare date is read as midnight UTC, which can still be ahead of the server in eastern time zones
+    const shippedDate = shippedAt ? new Date(shippedAt) : null;
+    if (shippedDate && (isNaN(shippedDate.getTime()) || shippedDate.getTime() > Date.now() + 24 * 60 * 60 * 1000)) {
+      res.status(400).json({
+        success: false,
+        message: 'Shipped date must be a valid date that is not in the future'
+      });
+      return;
+    }
+
+    let shipmentItems: ShipmentItemInput[] | null = null;
+    if (items !== undefined && items !== null) {
+      if (!Array.isArray(items) || items.length === 0) {
+        res.status(400).json({
+          success: false,
+          message: 'Items must be a non-empty list, or left out to ship everything remaining'
+        });
+        return;
+      }
+
+      for (const item of items) {
+        if (!item || typeof item.orderItemId !== 'string' || !Number.isInteger(item.quantity) || item.quantity < 1) {
+          res.status(400).json({
+            success: false,
+            message: 'Each item needs an order item and a quantity of at least 1'
+          });
+          return;
+        }
+      }
+
+      if (new Set(items.map((item: ShipmentItemInput) => item.orderItemId)).size !== items.length) {
+        res.status(400).json({
+          success: false,
+          message: 'Each order item can only appear once'
+        });
+        return;
+      }
+
+      shipmentItems = items.map((item: ShipmentItemInput) => ({ orderItemId: item.orderItemId, quantity: item.quantity }));
+    }
+
+    await withTransaction(client =>
+      createShipment(
+        client,
+        orderId,
+        { carrier, trackingNumber: trackingNumber.trim(), shippedAt: shippedDate, items: shipmentItems },
+        { type: 'admin', userId: req.user!.id }
+      )
+    );
+
+    const [shipments, shippableItems] = await Promise.all([
+      getShipments(orderId),
+      getShippableItems(orderId)
+    ]);
+
+    res.status(201).json({
+      success: true,
+      message: `Shipment with ${CARRIERS[carrier].name} recorded`,
+      data: {
+        shipments,
+        shippableItems
+      }
+    });
+
+  } catch (error) {
+    const statusCode = (error as CustomError).statusCode;
+    if (statusCode) {
+      res.status(statusCode).json({
+        success: false,
+        message: (error as Error).message
+      });
+      return;
+    }
+
+    console.error('Error creating shipment:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while creating shipment'
+    });
+  }
+}));
+
+// @route   PUT /api/admin/shipments/:id/deliver
+// @desc    Mark a shipment delivered - the order follows once everything has arrived
+// @access  Private (Admin only)
+router.put('/shipments/:id/deliver', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const shipmentId = req.params.id;
+
+    // Validate shipment ID format (UUID)
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(shipmentId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid shipment ID format'
+      });
+      return;
+    }
+
+    const orderId = await withTransaction(client =>
+      markShipmentDelivered(client, shipmentId, { type: 'admin', userId: req.user!.id })
+    );
+
+    const [shipments, shippableItems] = await Promise.all([
+      getShipments(orderId),
+      getShippableItems(orderId)
+    ]);
 
     res.json({
       success: true,
-      message: 'Review statistics retrieved successfully',
+      message: 'Shipment marked delivered',
       data: {
-        totalReviews: parseInt(stats.total_reviews),
-        oneStarReviews: parseInt(stats.one_star_reviews),
-        twoStarReviews: parseInt(stats.two_star_reviews),
-        threeStarReviews: parseInt(stats.three_star_reviews),
-        fourStarReviews: parseInt(stats.four_star_reviews),
-        fiveStarReviews: parseInt(stats.five_star_reviews),
-        averageRating: parseFloat(stats.average_rating),
-        reviewsLast30Days: parseInt(stats.reviews_last_30_days),
-        reviewsWithComments: parseInt(stats.reviews_with_comments)
+        shipments,
+        shippableItems
       }
     });
 
   } catch (error) {
-    console.error('Error fetching review statistics:', error);
+    const statusCode = (error as CustomError).statusCode;
+    if (statusCode) {
+      res.status(statusCode).json({
+        success: false,
+        message: (error as Error).message
+      });
+      return;
+    }
+
+    console.error('Error delivering shipment:', error);
     res.status(500).json({
       success: false,
-      message: 'Internal server error while fetching review statistics'
+      message: 'Internal server error while delivering shipment'
+    });
+  }
+}));
+
+const sendPdf = (res: Response, pdf: Buffer, filename: string): void => {
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.send(pdf);
+};
+
+// @route   GET /api/admin/shipments/:id/label
+// @desc    Download a shipment's address label as a PDF
+// @access  Private (Admin only)
+router.get('/shipments/:id/label', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const shipmentId = req.params.id;
+
+    // Validate shipment ID format (UUID)
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(shipmentId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid shipment ID format'
+      });
+      return;
+    }
+
+    const label = await getShippingLabel(shipmentId);
+
+    if (!label) {
+      res.status(404).json({
+        success: false,
+        message: 'Shipment not found'
+      });
+      return;
+    }
+
+    sendPdf(res, renderShippingLabelPdf(label), `label-${label.orderNumber}-${label.trackingNumber.replace(/[^\w-]/g, '')}.pdf`);
+
+  } catch (error) {
+    console.error('Error generating shipping label:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while generating shipping label'
+    });
+  }
+}));
+
+// @route   GET /api/admin/notifications
+// @desc    Get notifications no admin has dismissed yet
+// @access  Private (Admin only)
+router.get('/notifications', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const notifications = await getUnreadNotifications();
+
+    res.json({
+      success: true,
+      message: 'Notifications retrieved successfully',
+      data: notifications
+    });
+
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while fetching notifications'
+    });
+  }
+}));
+
+// @route   PUT /api/admin/notifications/read
+// @desc    Dismiss notifications - all unread ones when no ids are given
+// @access  Private (Admin only)
+router.put('/notifications/read', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { ids } = req.body;
+
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some((id: unknown) => typeof id !== 'string'))) {
+      res.status(400).json({
+        success: false,
+        message: 'ids must be an array of notification IDs'
+      });
+      return;
+    }
+
+    const result = ids
+      ? await query(
+          'UPDATE admin_notifications SET read_at = NOW(), read_by = $1 WHERE id = ANY($2::uuid[]) AND read_at IS NULL',
+          [req.user!.id, ids]
+        )
+      : await query(
+          'UPDATE admin_notifications SET read_at = NOW(), read_by = $1 WHERE read_at IS NULL',
+          [req.user!.id]
+        );
+
+    res.json({
+      success: true,
+      message: `${result.rowCount} notification(s) dismissed`,
+      data: { dismissed: result.rowCount }
+    });
+
+  } catch (error) {
+    console.error('Error dismissing notifications:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while dismissing notifications'
+    });
+  }
+}));
+
+// @route   GET /api/admin/returns
+// @desc    Get the return request queue, optionally filtered by status
+// @access  Private (Admin only)
+router.get('/returns', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status;
+
+    if (status !== undefined && status !== 'all' && !isReturnStatus(status)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid status. Valid statuses are: ' + RETURN_STATUSES.join(', ')
+      });
+      return;
+    }
+
+    const [returns, countsResult] = await Promise.all([
+      getReturnRequests({ status: isReturnStatus(status) ? status : undefined }),
+      query('SELECT status, COUNT(*) AS count FROM return_requests GROUP BY status')
+    ]);
+
+    const counts = Object.fromEntries(RETURN_STATUSES.map(returnStatus => [returnStatus, 0]));
+    for (const row of countsResult.rows) {
+      counts[row.status] = parseInt(row.count);
+    }
+
+    res.json({
+      success: true,
+      message: 'Return requests retrieved successfully',
+      data: {
+        returns,
+        counts
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching return requests:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while fetching return requests'
+    });
+  }
+}));
+
+// @route   PUT /api/admin/returns/:id/status
+// @desc    Approve or reject a return request
+// @access  Private (Admin only)
+router.put('/returns/:id/status', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const returnId = req.params.id;
+    const { status, note } = req.body;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(returnId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid return ID format'
+      });
+      return;
+    }
+
+    if (status !== 'approved' && status !== 'rejected') {
+      res.status(400).json({
+        success: false,
+        message: 'Status must be approved or rejected'
+      });
+      return;
+    }
+
+    if (note !== undefined && note !== null && (typeof note !== 'string' || note.length > 1000)) {
+      res.status(400).json({
+        success: false,
+        message: 'Note must be text of at most 1000 characters'
+      });
+      return;
+    }
+
+    if (status === 'rejected' && !note?.trim()) {
+      res.status(400).json({
+        success: false,
+        message: 'Please give the customer a reason for the rejection'
+      });
+      return;
+    }
+
+    await withTransaction(client => decideReturn(client, returnId, status, req.user!.id, note?.trim() || null));
+
+    const [updated] = await getReturnRequests({ returnId });
+
+    res.json({
+      success: true,
+      message: `Return ${updated.rmaNumber} ${status}`,
+      data: updated
+    });
+
+  } catch (error) {
+    const statusCode = (error as CustomError).statusCode;
+    if (statusCode) {
+      res.status(statusCode).json({
+        success: false,
+        message: (error as Error).message
+      });
+      return;
+    }
+
+    console.error('Error updating return request:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while updating return request'
+    });
+  }
+}));
+
+// @route   PUT /api/admin/returns/:id/receive
+// @desc    Mark returned goods as received, restocking or writing off each item
+// @access  Private (Admin only)
+router.put('/returns/:id/receive', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const returnId = req.params.id;
+    const { items } = req.body;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(returnId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid return ID format'
+      });
+      return;
+    }
+
+    if (!Array.isArray(items) || items.some((item: any) =>
+      !item || typeof item.returnItemId !== 'string' || !RETURN_DISPOSITIONS.includes(item.disposition)
+    )) {
+      res.status(400).json({
+        success: false,
+        message: 'items must list each returnItemId with a disposition of ' + RETURN_DISPOSITIONS.join(' or ')
+      });
+      return;
+    }
+
+    const dispositions: Record<string, ReturnDisposition> = {};
+    for (const item of items) {
+      dispositions[item.returnItemId] = item.disposition;
+    }
+
+    await withTransaction(client =>
+      receiveReturn(client, returnId, dispositions, { type: 'admin', userId: req.user!.id })
+    );
+
+    const [updated] = await getReturnRequests({ returnId });
+
+    res.json({
+      success: true,
+      message: `Return ${updated.rmaNumber} received`,
+      data: updated
+    });
+
+  } catch (error) {
+    const statusCode = (error as CustomError).statusCode;
+    if (statusCode) {
+      res.status(statusCode).json({
+        success: false,
+        message: (error as Error).message
+      });
+      return;
+    }
+
+    console.error('Error receiving return:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while receiving return'
+    });
+  }
+}));
+
+// @route   POST /api/admin/returns/:id/refund
+// @desc    Refund a received return - the full value of the returned items unless an amount is given
+// @access  Private (Admin only)
+router.post('/returns/:id/refund', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const returnId = req.params.id;
+    const { amount } = req.body;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(returnId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid return ID format'
+      });
+      return;
+    }
+
+    if (amount !== undefined && amount !== null && (typeof amount !== 'number' || !Number.isFinite(amount))) {
+      res.status(400).json({
+        success: false,
+        message: 'Amount must be a number'
+      });
+      return;
+    }
+
+    const refundAmount = await withTransaction(client =>
+      refundReturn(client, returnId, amount ?? null, { type: 'admin', userId: req.user!.id })
+    );
+
+    const [updated] = await getReturnRequests({ returnId });
+
+    res.json({
+      success: true,
+      message: `Refund of ${refundAmount.toFixed(2)} issued for return ${updated.rmaNumber}`,
+      data: updated
+    });
+
+  } catch (error) {
+    const statusCode = (error as CustomError).statusCode;
+    if (statusCode) {
+      res.status(statusCode).json({
+        success: false,
+        message: (error as Error).message
+      });
+      return;
+    }
+
+    console.error('Error refunding return:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while refunding return'
+    });
+  }
+}));
+
+// Filters shared by the document list and the bulk download
+const parseDocumentFilters = (queryParams: Request['query']): { filters: BillingDocumentFilters; errors: string[] } => {
+  const { type, from, to } = queryParams;
+  const errors: string[] = [];
+  const filters: BillingDocumentFilters = {};
+
+  if (type !== undefined && type !== 'all') {
+    if (isBillingDocumentType(type)) {
+      filters.documentType = type;
+    } else {
+      errors.push('Type must be one of: ' + BILLING_DOCUMENT_TYPES.join(', '));
+    }
+  }
+
+  for (const [label, value] of [['From', from], ['To', to]] as const) {
+    if (value === undefined || value === '') {
+      continue;
+    }
+    // Rolled-over dates such as 2025-02-30 come back different and are rejected
+    const parsedDate = typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)
+      ? new Date(`${value}T00:00:00Z`)
+      : null;
+    if (!parsedDate || isNaN(parsedDate.getTime()) || parsedDate.toISOString().substring(0, 10) !== value) {
+      errors.push(`${label} must be a valid YYYY-MM-DD date`);
+    } else if (label === 'From') {
+      filters.from = value;
+    } else {
+      filters.to = value;
+    }
+  }
+
+  if (filters.from && filters.to && filters.from > filters.to) {
+    errors.push('From must not be after To');
+  }
+
+  return { filters, errors };
+};
+
+// @route   GET /api/admin/documents
+// @desc    Get issued invoices and credit notes, filtered by type and issue date
+// @access  Private (Admin only)
+router.get('/documents', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { filters, errors } = parseDocumentFilters(req.query);
+
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: `Validation errors: ${errors.join(', ')}`
+      });
+      return;
+    }
+
+    // One more than a bulk download allows, to tell the list was cut short
+    const documents = await listBillingDocuments({ ...filters, limit: MAX_BULK_DOCUMENTS + 1 });
+
+    res.json({
+      success: true,
+      message: 'Documents retrieved successfully',
+      data: {
+        documents: documents.slice(0, MAX_BULK_DOCUMENTS).map(toDocumentSummary),
+        hasMore: documents.length > MAX_BULK_DOCUMENTS
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching documents:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while fetching documents'
+    });
+  }
+}));
+
+// @route   GET /api/admin/documents/bulk
+// @desc    Download every document matching the filters as one PDF, a document per page
+// @access  Private (Admin only)
+router.get('/documents/bulk', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { filters, errors } = parseDocumentFilters(req.query);
+
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: `Validation errors: ${errors.join(', ')}`
+      });
+      return;
+    }
+
+    const documents = await listBillingDocuments({ ...filters, limit: MAX_BULK_DOCUMENTS + 1 });
+
+    if (documents.length === 0) {
+      res.status(404).json({
+        success: false,
+        message: 'No documents match these filters'
+      });
+      return;
+    }
+
+    if (documents.length > MAX_BULK_DOCUMENTS) {
+      res.status(400).json({
+        success: false,
+        message: `More than ${MAX_BULK_DOCUMENTS} documents match - narrow the date range`
+      });
+      return;
+    }
+
+    const kind = filters.documentType === 'invoice' ? 'invoices' : filters.documentType === 'credit_note' ? 'credit-notes' : 'documents';
+    const filename = [kind, filters.from, filters.to].filter(Boolean).join('_');
+
+    sendPdf(res, renderDocumentsPdf(documents, filename), `${filename}.pdf`);
+
+  } catch (error) {
+    console.error('Error generating bulk documents:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while generating documents'
+    });
+  }
+}));
+
+// @route   GET /api/admin/documents/:id/pdf
+// @desc    Download one invoice or credit note
+// @access  Private (Admin only)
+router.get('/documents/:id/pdf', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    const document = uuidRegex.test(id) ? await getBillingDocument(id) : null;
+
+    if (!document) {
+      res.status(404).json({
+        success: false,
+        message: 'Document not found'
+      });
+      return;
+    }
+
+    sendPdf(res, renderDocumentsPdf([document], document.number), `${document.number}.pdf`);
+
+  } catch (error) {
+    console.error('Error generating document:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while generating document'
+    });
+  }
+}));
+
+// @route   GET /api/admin/payment-webhooks
+// @desc    Get recent payment webhook deliveries, optionally filtered by status
+// @access  Private (Admin only)
+router.get('/payment-webhooks', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status;
+
+    if (status !== undefined && status !== 'all' && !isWebhookEventStatus(status)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid status. Valid statuses are: ' + WEBHOOK_EVENT_STATUSES.join(', ')
+      });
+      return;
+    }
+
+    const [events, countsResult] = await Promise.all([
+      getWebhookEvents({ status: isWebhookEventStatus(status) ? status : undefined }),
+      query('SELECT status, COUNT(*) AS count FROM payment_webhook_events GROUP BY status')
+    ]);
+
+    const counts = Object.fromEntries(WEBHOOK_EVENT_STATUSES.map(eventStatus => [eventStatus, 0]));
+    for (const row of countsResult.rows) {
+      counts[row.status] = parseInt(row.count);
+    }
+
+    res.json({
+      success: true,
+      message: 'Webhook events retrieved successfully',
+      data: {
+        events,
+        counts
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching webhook events:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while fetching webhook events'
+    });
+  }
+}));
+
+// @route   POST /api/admin/payment-webhooks/:id/retry
+// @desc    Apply a stored webhook event again now
+// @access  Private (Admin only)
+router.post('/payment-webhooks/:id/retry', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const eventId = req.params.id;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(eventId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid webhook event ID format'
+      });
+      return;
+    }
+
+    const existing = await query('SELECT status FROM payment_webhook_events WHERE id = $1', [eventId]);
+
+    if (existing.rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        message: 'Webhook event not found'
+      });
+      return;
+    }
+
+    if (existing.rows[0].status === 'processed') {
+      res.status(409).json({
+        success: false,
+        message: 'This event has already been processed'
+      });
+      return;
+    }
+
+    const event = await processWebhookEvent(eventId);
+
+    res.json({
+      success: event.status === 'processed',
+      message: event.status === 'processed'
+        ? 'Webhook event processed'
+        : `Webhook event failed again: ${event.lastError}`,
+      data: event
+    });
+
+  } catch (error) {
+    console.error('Error retrying webhook event:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while retrying webhook event'
+    });
+  }
+}));
+
+// @route   GET /api/admin/emails
+// @desc    Get recent outbox emails, optionally filtered by status or order
+// @access  Private (Admin only)
+router.get('/emails', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { status, orderId } = req.query;
+
+    if (status !== undefined && status !== 'all' && !isEmailStatus(status)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid status. Valid statuses are: ' + EMAIL_STATUSES.join(', ')
+      });
+      return;
+    }
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (orderId !== undefined && (typeof orderId !== 'string' || !uuidRegex.test(orderId))) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid order ID format'
+      });
+      return;
+    }
+
+    const [emails, countsResult] = await Promise.all([
+      getOutboxEmails({ status: isEmailStatus(status) ? status : undefined, orderId }),
+      query('SELECT status, COUNT(*) AS count FROM email_outbox GROUP BY status')
+    ]);
+
+    const counts = Object.fromEntries(EMAIL_STATUSES.map(emailStatus => [emailStatus, 0]));
+    for (const row of countsResult.rows) {
+      counts[row.status] = parseInt(row.count);
+    }
+
+    res.json({
+      success: true,
+      message: 'Emails retrieved successfully',
+      data: {
+        emails,
+        counts
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching emails:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while fetching emails'
+    });
+  }
+}));
+
+// @route   GET /api/admin/emails/:id
+// @desc    Get one outbox email with its HTML and text bodies
+// @access  Private (Admin only)
+router.get('/emails/:id', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const emailId = req.params.id;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(emailId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid email ID format'
+      });
+      return;
+    }
+
+    const email = await getOutboxEmail(emailId);
+
+    if (!email) {
+      res.status(404).json({
+        success: false,
+        message: 'Email not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Email retrieved successfully',
+      data: email
+    });
+
+  } catch (error) {
+    console.error('Error fetching email:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while fetching email'
+    });
+  }
+}));
+
+// @route   POST /api/admin/emails/:id/resend
+// @desc    Send a copy of an outbox email again now
+// @access  Private (Admin only)
+router.post('/emails/:id/resend', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const emailId = req.params.id;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(emailId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid email ID format'
+      });
+      return;
+    }
+
+    const email = await resendEmail(emailId);
+
+    res.json({
+      success: email.status === 'sent',
+      message: email.status === 'sent'
+        ? `Email resent to ${email.recipient}`
+        : `Email could not be sent: ${email.lastError}`,
+      data: email
+    });
+
+  } catch (error) {
+    const statusCode = (error as CustomError).statusCode;
+    if (statusCode) {
+      res.status(statusCode).json({
+        success: false,
+        message: (error as Error).message
+      });
+      return;
+    }
+
+    console.error('Error resending email:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while resending email'
+    });
+  }
+}));
+
+// @route   GET /api/admin/checkout-recovery?days=30
+// @desc    Get abandoned checkout recovery stats and the latest reminded checkouts
+// @access  Private (Admin only)
+router.get('/checkout-recovery', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const days = req.query.days === undefined ? 30 : Number(req.query.days);
+
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      res.status(400).json({
+        success: false,
+        message: 'Days must be a whole number from 1 to 365'
+      });
+      return;
+    }
+
+    const stats = await getCheckoutRecoveryStats(days);
+
+    res.json({
+      success: true,
+      message: 'Checkout recovery stats retrieved successfully',
+      data: stats
+    });
+
+  } catch (error) {
+    console.error('Error fetching checkout recovery stats:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while fetching checkout recovery stats'
+    });
+  }
+}));
+
+// @route   GET /api/admin/cod/collections
+// @desc    Get cash on delivery collections, optionally by status or only cash not yet remitted
+// @access  Private (Admin only)
+router.get('/cod/collections', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status;
+    const unremitted = req.query.unremitted === 'true';
+
+    if (status !== undefined && status !== 'all' && !isCodCollectionStatus(status)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid status. Valid statuses are: ' + COD_COLLECTION_STATUSES.join(', ')
+      });
+      return;
+    }
+
+    const [collections, countsResult] = await Promise.all([
+      getCodCollections({ status: isCodCollectionStatus(status) ? status : undefined, unremitted }),
+      query('SELECT status, COUNT(*) AS count FROM cod_collections GROUP BY status')
+    ]);
+
+    const counts = Object.fromEntries(COD_COLLECTION_STATUSES.map(collectionStatus => [collectionStatus, 0]));
+    for (const row of countsResult.rows) {
+      counts[row.status] = parseInt(row.count);
+    }
+
+    res.json({
+      success: true,
+      message: 'Collections retrieved successfully',
+      data: {
+        collections,
+        counts
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching COD collections:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while fetching collections'
+    });
+  }
+}));
+
+// @route   PUT /api/admin/cod/collections/:orderId
+// @desc    Record whether the courier collected the cash, or why not
+// @access  Private (Admin only)
+router.put('/cod/collections/:orderId', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const orderId = req.params.orderId;
+    const { status, amount, driverReference, note } = req.body;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(orderId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid order ID format'
+      });
+      return;
+    }
+
+    if (!isCodCollectionStatus(status)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid status. Valid statuses are: ' + COD_COLLECTION_STATUSES.join(', ')
+      });
+      return;
+    }
+
+    if (amount !== undefined && amount !== null && (typeof amount !== 'number' || !Number.isFinite(amount))) {
+      res.status(400).json({
+        success: false,
+        message: 'Amount must be a number'
+      });
+      return;
+    }
+
+    if ((driverReference !== undefined && driverReference !== null && (typeof driverReference !== 'string' || driverReference.length > 100))
+      || (note !== undefined && note !== null && (typeof note !== 'string' || note.length > 500))) {
+      res.status(400).json({
+        success: false,
+        message: 'Driver reference must be at most 100 characters and note at most 500'
+      });
+      return;
+    }
+
+    await withTransaction(client =>
+      recordCollectionOutcome(client, orderId, { status, amount, driverReference, note }, { type: 'admin', userId: req.user!.id })
+    );
+
+    const [collection] = await getCodCollections({ orderId });
+
+    res.json({
+      success: true,
+      message: `Collection for order #${collection.orderNumber} marked ${status.replace('_', ' ')}`,
+      data: collection
+    });
+
+  } catch (error) {
+    const statusCode = (error as CustomError).statusCode;
+    if (statusCode) {
+      res.status(statusCode).json({
+        success: false,
+        message: (error as Error).message
+      });
+      return;
+    }
+
+    console.error('Error recording COD collection:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while recording collection'
+    });
+  }
+}));
+
+// @route   GET /api/admin/cod/remittances
+// @desc    Get courier remittances, newest first
+// @access  Private (Admin only)
+router.get('/cod/remittances', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const remittances = await getRemittances();
+
+    res.json({
+      success: true,
+      message: 'Remittances retrieved successfully',
+      data: remittances
+    });
+
+  } catch (error) {
+    console.error('Error fetching remittances:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while fetching remittances'
+    });
+  }
+}));
+
+// @route   POST /api/admin/cod/remittances
+// @desc    Record cash paid in by a courier and reconcile it against collections
+// @access  Private (Admin only)
+router.post('/cod/remittances', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { reference, courier, receivedAmount, collectionIds, note } = req.body;
+
+    if (typeof reference !== 'string' || !reference.trim() || reference.length > 100
+      || typeof courier !== 'string' || !courier.trim() || courier.length > 100) {
+      res.status(400).json({
+        success: false,
+        message: 'Reference and courier are required (at most 100 characters each)'
+      });
+      return;
+    }
+
+    if (typeof receivedAmount !== 'number' || !Number.isFinite(receivedAmount) || receivedAmount < 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Received amount must be a number of zero or more'
+      });
+      return;
+    }
+
+    if (!Array.isArray(collectionIds) || collectionIds.some(id => typeof id !== 'string')) {
+      res.status(400).json({
+        success: false,
+        message: 'Collection IDs must be a list'
+      });
+      return;
+    }
+
+    if (note !== undefined && note !== null && (typeof note !== 'string' || note.length > 500)) {
+      res.status(400).json({
+        success: false,
+        message: 'Note must be text of at most 500 characters'
+      });
+      return;
+    }
+
+    const remittance = await withTransaction(client =>
+      createRemittance(
+        client,
+        { reference, courier, receivedAmount, collectionIds, note: note?.trim() || null },
+        { type: 'admin', userId: req.user!.id }
+      )
+    );
+
+    res.status(201).json({
+      success: true,
+      message: remittance.status === 'reconciled'
+        ? `Remittance ${remittance.reference} matches the cash collected`
+        : `Remittance ${remittance.reference} is ${Math.abs(remittance.difference).toFixed(2)} ${remittance.difference < 0 ? 'short' : 'over'}`,
+      data: remittance
+    });
+
+  } catch (error) {
+    const statusCode = (error as CustomError).statusCode;
+    if (statusCode) {
+      res.status(statusCode).json({
+        success: false,
+        message: (error as Error).message
+      });
+      return;
+    }
+
+    console.error('Error creating remittance:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while creating remittance'
+    });
+  }
+}));
+
+// @route   PUT /api/admin/cod/remittances/:id/resolve
+// @desc    Close a remittance discrepancy with a note
+// @access  Private (Admin only)
+router.put('/cod/remittances/:id/resolve', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const remittanceId = req.params.id;
+    const { note } = req.body;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(remittanceId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid remittance ID format'
+      });
+      return;
+    }
+
+    if (typeof note !== 'string' || !note.trim() || note.length > 500) {
+      res.status(400).json({
+        success: false,
+        message: 'Please explain how the difference was settled (at most 500 characters)'
+      });
+      return;
+    }
+
+    await withTransaction(client => resolveRemittance(client, remittanceId, note.trim()));
+
+    res.json({
+      success: true,
+      message: 'Remittance marked resolved'
+    });
+
+  } catch (error) {
+    const statusCode = (error as CustomError).statusCode;
+    if (statusCode) {
+      res.status(statusCode).json({
+        success: false,
+        message: (error as Error).message
+      });
+      return;
+    }
+
+    console.error('Error resolving remittance:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while resolving remittance'
+    });
+  }
+}));
+
+// @route   GET /api/admin/cod/receivables
+// @desc    Report of cash on delivery money not yet received, aged
+// @access  Private (Admin only)
+router.get('/cod/receivables', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const report = await getCodReceivables();
+
+    res.json({
+      success: true,
+      message: 'Receivables report generated successfully',
+      data: report
+    });
+
+  } catch (error) {
+    console.error('Error building COD receivables report:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while building receivables report'
+    });
+  }
+}));
+
+// @route   GET /api/admin/orders/stats
+// @desc    Get order statistics for admin dashboard
+// @access  Private (Admin only)
+router.get('/orders/stats', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    // Get order statistics - one count per lifecycle status, so they add up to the total
+    // Revenue is net of refunds - money that went back out is not counted.
+    // Orders are added up in the base currency; refunds are in the order
+    // currency and are converted back at the rate the order was placed at.
+    const statsResult = await query(`
+      SELECT
+        COUNT(*) as total_orders,
+        COUNT(CASE WHEN status = 'pending' THEN 1 END) as pending_orders,
+        COUNT(CASE WHEN status = 'paid' THEN 1 END) as paid_orders,
+        COUNT(CASE WHEN status = 'processing' THEN 1 END) as processing_orders,
+        COUNT(CASE WHEN status = 'partially_shipped' THEN 1 END) as partially_shipped_orders,
+        COUNT(CASE WHEN status = 'shipped' THEN 1 END) as shipped_orders,
+        COUNT(CASE WHEN status = 'delivered' THEN 1 END) as delivered_orders,
+        COUNT(CASE WHEN status = 'cancelled' THEN 1 END) as cancelled_orders,
+        COUNT(CASE WHEN status = 'refunded' THEN 1 END) as refunded_orders,
+        COUNT(CASE WHEN status = 'returned' THEN 1 END) as returned_orders,
+        COALESCE(SUM(o.base_total - COALESCE(r.refunded, 0) / o.exchange_rate), 0) as total_revenue,
+        COALESCE(AVG(o.base_total - COALESCE(r.refunded, 0) / o.exchange_rate), 0) as average_order_value,
+        COALESCE(SUM(r.refunded / o.exchange_rate), 0) as total_refunded,
+        COUNT(CASE WHEN created_at >= NOW() - INTERVAL '30 days' THEN 1 END) as orders_last_30_days
+      FROM orders o
+      LEFT JOIN (
+        SELECT order_id, SUM(amount) as refunded
+        FROM refunds
+        WHERE status <> 'failed'
+        GROUP BY order_id
+      ) r ON r.order_id = o.id
+    `);
+
+    const stats = statsResult.rows[0];
+
+    res.json({
+      success: true,
+      message: 'Order statistics retrieved successfully',
+      data: {
+        totalOrders: parseInt(stats.total_orders),
+        pendingOrders: parseInt(stats.pending_orders),
+        paidOrders: parseInt(stats.paid_orders),
+        processingOrders: parseInt(stats.processing_orders),
+        partiallyShippedOrders: parseInt(stats.partially_shipped_orders),
+        shippedOrders: parseInt(stats.shipped_orders),
+        deliveredOrders: parseInt(stats.delivered_orders),
+        cancelledOrders: parseInt(stats.cancelled_orders),
+        refundedOrders: parseInt(stats.refunded_orders),
+        returnedOrders: parseInt(stats.returned_orders),
+        totalRevenue: parseFloat(stats.total_revenue),
+        totalRefunded: parseFloat(stats.total_refunded),
+        averageOrderValue: parseFloat(stats.average_order_value),
+        ordersLast30Days: parseInt(stats.orders_last_30_days)
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching order statistics:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while fetching order statistics'
+    });
+  }
+}));
+
+// ===============================================
+// REVIEW MANAGEMENT ENDPOINTS
+// ===============================================
+
+// @route   GET /api/admin/reviews
+// @desc    Get all reviews with filtering and pagination
+// @access  Private (Admin only)
+router.get('/reviews', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const {
+      search = '',
+      rating = 'all',
+      page = 1,
+      limit = 20,
+      sortBy = 'created_at',
+      sortOrder = 'desc'
+    } = req.query;
+
+    // Build WHERE clause for filtering
+    let whereConditions: string[] = [];
+    let queryParams: any[] = [];
+    let paramIndex = 1;
+
+    // Search filter (by product name, user name, or review content)
+    if (search && search.toString().trim() !== '') {
+      whereConditions.push(`(p.name ILIKE $${paramIndex} OR u.full_name ILIKE $${paramIndex} OR pr.review ILIKE $${paramIndex})`);
+      queryParams.push(`%${search.toString().trim()}%`);
+      paramIndex++;
+    }
+
+    // Rating filter
+    if (rating && rating !== 'all') {
+      whereConditions.push(`pr.rating = $${paramIndex}`);
+      queryParams.push(parseInt(rating as string));
+      paramIndex++;
+    }
+
+    // Build WHERE clause
+    const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+
+    // Validate sort parameters
+    const validSortColumns = ['created_at', 'rating', 'product_name', 'user_name'];
+    const validSortOrders = ['asc', 'desc'];
+    const safeSortBy = validSortColumns.includes(sortBy as string) ? sortBy : 'created_at';
+    const safeSortOrder = validSortOrders.includes(sortOrder as string) ? sortOrder : 'desc';
+
+    // Calculate pagination
+    const pageNum = Math.max(1, parseInt(page as string) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 20));
+    const offset = (pageNum - 1) * limitNum;
+
+    // Get total count for pagination
+    const countQuery = `
+      SELECT COUNT(*) as total
+      FROM product_reviews pr
+      LEFT JOIN products p ON pr.product_id = p.id
+      LEFT JOIN users u ON pr.user_id = u.id
+      ${whereClause}
+    `;
+    const countResult = await query(countQuery, queryParams);
+    const totalReviews = parseInt(countResult.rows[0].total);
+
+    // Get reviews with related data
+    const reviewsQuery = `
+      SELECT
+        pr.id,
+        pr.user_id,
+        pr.product_id,
+        pr.rating,
+        pr.review,
+        pr.created_at,
+        pr.updated_at,
+        u.full_name as user_name,
+        u.email as user_email,
+        p.name as product_name,
+        p.image_url as product_image
+      FROM product_reviews pr
+      LEFT JOIN products p ON pr.product_id = p.id
+      LEFT JOIN users u ON pr.user_id = u.id
+      ${whereClause}
+      ORDER BY pr.${safeSortBy === 'product_name' ? 'p.name' : safeSortBy === 'user_name' ? 'u.full_name' : 'pr.' + safeSortBy} ${safeSortOrder}
+      LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
+    `;
+
+    queryParams.push(limitNum, offset);
+    const reviewsResult = await query(reviewsQuery, queryParams);
+
+    // Calculate pagination info
+    const totalPages = Math.ceil(totalReviews / limitNum);
+    const hasNextPage = pageNum < totalPages;
+    const hasPrevPage = pageNum > 1;
+
+    res.json({
+      success: true,
+      message: 'Reviews retrieved successfully',
+      data: {
+        reviews: reviewsResult.rows,
+        pagination: {
+          currentPage: pageNum,
+          totalPages,
+          totalReviews,
+          hasNextPage,
+          hasPrevPage,
+          limit: limitNum
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching reviews:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while fetching reviews'
+    });
+  }
+}));
+
+// @route   DELETE /api/admin/reviews/:id
+// @desc    Delete a review
+// @access  Private (Admin only)
+router.delete('/reviews/:id', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const reviewId = req.params.id;
+
+    // Validate review ID format (UUID)
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(reviewId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid review ID format'
+      });
+      return;
+    }
+
+    // Check if review exists
+    const existingReviewResult = await query(
+      'SELECT id, product_id FROM product_reviews WHERE id = $1',
+      [reviewId]
+    );
+
+    if (existingReviewResult.rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        message: 'Review not found'
+      });
+      return;
+    }
+
+    // Delete the review
+    const deleteResult = await query(
+      'DELETE FROM product_reviews WHERE id = $1 RETURNING id',
+      [reviewId]
+    );
+
+    if (deleteResult.rows.length === 0) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to delete review'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Review deleted successfully',
+      data: {
+        reviewId: deleteResult.rows[0].id
+      }
+    });
+
+  } catch (error) {
+    console.error('Error deleting review:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while deleting review'
+    });
+  }
+}));
+
+// @route   GET /api/admin/reviews/stats
+// @desc    Get review statistics for admin dashboard
+// @access  Private (Admin only)
+router.get('/reviews/stats', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    // Get review statistics
+    const statsResult = await query(`
+      SELECT
+        COUNT(*) as total_reviews,
+        COUNT(CASE WHEN rating = 1 THEN 1 END) as one_star_reviews,
+        COUNT(CASE WHEN rating = 2 THEN 1 END) as two_star_reviews,
+        COUNT(CASE WHEN rating = 3 THEN 1 END) as three_star_reviews,
+        COUNT(CASE WHEN rating = 4 THEN 1 END) as four_star_reviews,
+        COUNT(CASE WHEN rating = 5 THEN 1 END) as five_star_reviews,
+        COALESCE(AVG(rating), 0) as average_rating,
+        COUNT(CASE WHEN created_at >= NOW() - INTERVAL '30 days' THEN 1 END) as reviews_last_30_days,
+        COUNT(CASE WHEN review IS NOT NULL AND review != '' THEN 1 END) as reviews_with_comments
+      FROM product_reviews
+    `);
+
+    const stats = statsResult.rows[0];
+
+    res.json({
+      success: true,
+      message: 'Review statistics retrieved successfully',
+      data: {
+        totalReviews: parseInt(stats.total_reviews),
+        oneStarReviews: parseInt(stats.one_star_reviews),
+        twoStarReviews: parseInt(stats.two_star_reviews),
+        threeStarReviews: parseInt(stats.three_star_reviews),
+        fourStarReviews: parseInt(stats.four_star_reviews),
+        fiveStarReviews: parseInt(stats.five_star_reviews),
+        averageRating: parseFloat(stats.average_rating),
+        reviewsLast30Days: parseInt(stats.reviews_last_30_days),
+        reviewsWithComments: parseInt(stats.reviews_with_comments)
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching review statistics:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while fetching review statistics'
+    });
+  }
+}));
+
+// Tax rule body shared by create and update
+interface TaxRuleRequest {
+  name: string;
+  country: string;
+  region?: string | null;
+  postalCodePrefix?: string | null;
+  categoryId?: string | null;
+  rate: number;
+  isActive?: boolean;
+}
+
+const TAX_RULE_SELECT = `
+  SELECT tr.id, tr.name, tr.country, tr.region, tr.postal_code_prefix, tr.category_id,
+         tr.rate, tr.is_active, tr.created_at, tr.updated_at, c.name as category_name
+  FROM tax_rules tr
+  LEFT JOIN categories c ON tr.category_id = c.id
+`;
+
+const formatTaxRule = (row: any) => ({
+  ...mapTaxRuleRow(row),
+  categoryName: row.category_name || null,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+// Validate a tax rule body, returning the list of problems
+const validateTaxRule = async (rule: TaxRuleRequest): Promise<string[]> => {
+  const errors: string[] = [];
+
+  if (!rule.name || typeof rule.name !== 'string' || !rule.name.trim()) {
+    errors.push('Rule name is required');
+  } else if (rule.name.trim().length > 100) {
+    errors.push('Rule name must not exceed 100 characters');
+  }
+
+  if (!rule.country || typeof rule.country !== 'string' || !rule.country.trim()) {
+    errors.push('Country is required');
+  }
+
+  if (rule.region && typeof rule.region !== 'string') {
+    errors.push('Region must be a string');
+  }
+
+  if (rule.postalCodePrefix && (typeof rule.postalCodePrefix !== 'string' || !/^[A-Za-z0-9 -]{1,10}$/.test(rule.postalCodePrefix))) {
+    errors.push('Postal code prefix must be up to 10 letters or digits');
+  }
+
+  if (typeof rule.rate !== 'number' || rule.rate < 0 || rule.rate > 1) {
+    errors.push('Rate must be a number between 0 and 1');
+  }
+
+  if (rule.categoryId) {
+    const categoryExists = await query('SELECT id FROM categories WHERE id = $1', [rule.categoryId]);
+    if (categoryExists.rows.length === 0) {
+      errors.push('Selected category does not exist');
+    }
+  }
+
+  return errors;
+};
+
+// @route   GET /api/admin/tax-rules
+// @desc    Get all tax rules
+// @access  Private (Admin only)
+router.get('/tax-rules', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const result = await query(
+      `${TAX_RULE_SELECT}
+       ORDER BY tr.country, tr.region NULLS FIRST, tr.postal_code_prefix NULLS FIRST, tr.category_id NULLS FIRST`
+    );
+
+    res.json({
+      success: true,
+      message: 'Tax rules retrieved successfully',
+      data: result.rows.map(formatTaxRule)
+    });
+
+  } catch (error) {
+    console.error('Error fetching tax rules:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while fetching tax rules'
+    });
+  }
+}));
+
+// @route   POST /api/admin/tax-rules
+// @desc    Create a tax rule
+// @access  Private (Admin only)
+router.post('/tax-rules', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const rule: TaxRuleRequest = req.body;
+
+    const errors = await validateTaxRule(rule);
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: `Validation errors: ${errors.join(', ')}`
+      });
+      return;
+    }
+
+    const insertResult = await query(
+      `INSERT INTO tax_rules (name, country, region, postal_code_prefix, category_id, rate, is_active)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING id`,
+      [
+        rule.name.trim(),
+        rule.country.trim(),
+        rule.region?.trim() || null,
+        rule.postalCodePrefix?.trim().toUpperCase() || null,
+        rule.categoryId || null,
+        rule.rate,
+        rule.isActive !== false
+      ]
+    );
+
+    const createdResult = await query(`${TAX_RULE_SELECT} WHERE tr.id = $1`, [insertResult.rows[0].id]);
+
+    res.status(201).json({
+      success: true,
+      message: 'Tax rule created successfully',
+      data: formatTaxRule(createdResult.rows[0])
+    });
+
+  } catch (error) {
+    if ((error as CustomError).code === '23505') {
+      res.status(409).json({
+        success: false,
+        message: 'A tax rule for this location and category already exists'
+      });
+      return;
+    }
+
+    console.error('Error creating tax rule:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while creating tax rule'
+    });
+  }
+}));
+
+// @route   PUT /api/admin/tax-rules/:id
+// @desc    Update a tax rule
+// @access  Private (Admin only)
+router.put('/tax-rules/:id', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const ruleId = req.params.id;
+    const rule: TaxRuleRequest = req.body;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(ruleId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid tax rule ID format'
+      });
+      return;
+    }
+
+    const errors = await validateTaxRule(rule);
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: `Validation errors: ${errors.join(', ')}`
+      });
+      return;
+    }
+
+    // Orders keep their own copy of applied rates, so editing a rule never changes past orders
+    const updateResult = await query(
+      `UPDATE tax_rules
+       SET name = $1, country = $2, region = $3, postal_code_prefix = $4, category_id = $5,
+           rate = $6, is_active = $7, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $8
+       RETURNING id`,
+      [
+        rule.name.trim(),
+        rule.country.trim(),
+        rule.region?.trim() || null,
+        rule.postalCodePrefix?.trim().toUpperCase() || null,
+        rule.categoryId || null,
+        rule.rate,
+        rule.isActive !== false,
+        ruleId
+      ]
+    );
+
+    if (updateResult.rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        message: 'Tax rule not found'
+      });
+      return;
+    }
+
+    const updatedResult = await query(`${TAX_RULE_SELECT} WHERE tr.id = $1`, [ruleId]);
+
+    res.json({
+      success: true,
+      message: 'Tax rule updated successfully',
+      data: formatTaxRule(updatedResult.rows[0])
+    });
+
+  } catch (error) {
+    if ((error as CustomError).code === '23505') {
+      res.status(409).json({
+        success: false,
+        message: 'A tax rule for this location and category already exists'
+      });
+      return;
+    }
+
+    console.error('Error updating tax rule:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while updating tax rule'
+    });
+  }
+}));
+
+// @route   DELETE /api/admin/tax-rules/:id
+// @desc    Delete a tax rule
+// @access  Private (Admin only)
+router.delete('/tax-rules/:id', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const ruleId = req.params.id;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(ruleId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid tax rule ID format'
+      });
+      return;
+    }
+
+    const deleteResult = await query(
+      'DELETE FROM tax_rules WHERE id = $1 RETURNING id',
+      [ruleId]
+    );
+
+    if (deleteResult.rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        message: 'Tax rule not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Tax rule deleted successfully',
+      data: {
+        taxRuleId: deleteResult.rows[0].id
+      }
+    });
+
+  } catch (error) {
+    console.error('Error deleting tax rule:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while deleting tax rule'
+    });
+  }
+}));
+
+// Columns of a store holiday with the date as YYYY-MM-DD
+const STORE_HOLIDAY_SELECT = `SELECT id, to_char(holiday_date, 'YYYY-MM-DD') AS holiday_date, name, created_at FROM store_holidays`;
+
+// @route   GET /api/admin/holidays
+// @desc    Get the store holiday calendar
+// @access  Private (Admin only)
+router.get('/holidays', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const result = await query(`${STORE_HOLIDAY_SELECT} ORDER BY holiday_date`);
+
+    res.json({
+      success: true,
+      message: 'Store holidays retrieved successfully',
+      data: result.rows.map(mapStoreHolidayRow)
+    });
+
+  } catch (error) {
+    console.error('Error fetching store holidays:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while fetching store holidays'
+    });
+  }
+}));
+
+// @route   POST /api/admin/holidays
+// @desc    Add a day the store does not ship
+// @access  Private (Admin only)
+router.post('/holidays', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { date, name } = req.body as { date?: string; name?: string };
+
+    // Rolled-over dates such as 2025-02-30 come back different and are rejected
+    const parsedDate = typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)
+      ? new Date(`${date}T00:00:00Z`)
+      : null;
+
+    const errors: string[] = [];
+    if (!parsedDate || isNaN(parsedDate.getTime()) || parsedDate.toISOString().substring(0, 10) !== date) {
+      errors.push('Date must be a valid YYYY-MM-DD date');
+    }
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      errors.push('Name is required');
+    } else if (name.trim().length > 100) {
+      errors.push('Name must be 100 characters or fewer');
+    }
+
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: `Validation errors: ${errors.join(', ')}`
+      });
+      return;
+    }
+
+    const insertResult = await query(
+      'INSERT INTO store_holidays (holiday_date, name) VALUES ($1, $2) RETURNING id',
+      [date, name!.trim()]
+    );
+
+    const createdResult = await query(`${STORE_HOLIDAY_SELECT} WHERE id = $1`, [insertResult.rows[0].id]);
+
+    res.status(201).json({
+      success: true,
+      message: 'Store holiday added successfully',
+      data: mapStoreHolidayRow(createdResult.rows[0])
+    });
+
+  } catch (error) {
+    if ((error as CustomError).code === '23505') {
+      res.status(409).json({
+        success: false,
+        message: 'That date is already a store holiday'
+      });
+      return;
+    }
+
+    console.error('Error adding store holiday:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while adding store holiday'
+    });
+  }
+}));
+
+// @route   DELETE /api/admin/holidays/:id
+// @desc    Remove a store holiday
+// @access  Private (Admin only)
+router.delete('/holidays/:id', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const holidayId = req.params.id;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(holidayId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid holiday ID format'
+      });
+      return;
+    }
+
+    const deleteResult = await query(
+      'DELETE FROM store_holidays WHERE id = $1 RETURNING id',
+      [holidayId]
+    );
+
+    if (deleteResult.rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        message: 'Store holiday not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Store holiday removed successfully',
+      data: {
+        holidayId: deleteResult.rows[0].id
+      }
+    });
+
+  } catch (error) {
+    console.error('Error removing store holiday:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while removing store holiday'
+    });
+  }
+}));
+
+// Shipping zone body shared by create and update
+interface ShippingZoneRequest {
+  name: string;
+  isRestOfWorld?: boolean;
+  regions?: Array<{ country: string; region?: string | null }>;
+}
+
+// Validate a shipping zone body, returning the list of problems
+const validateShippingZone = (zone: ShippingZoneRequest): string[] => {
+  const errors: string[] = [];
+
+  if (!zone.name || typeof zone.name !== 'string' || !zone.name.trim()) {
+    errors.push('Zone name is required');
+  } else if (zone.name.trim().length > 100) {
+    errors.push('Zone name must not exceed 100 characters');
+  }
+
+  if (zone.regions !== undefined && !Array.isArray(zone.regions)) {
+    errors.push('Regions must be a list');
+  } else {
+    const regions = zone.regions || [];
+
+    if (regions.length === 0 && !zone.isRestOfWorld) {
+      errors.push('A zone must cover at least one country or region');
+    }
+
+    const places = new Set<string>();
+    for (const place of regions) {
+      if (!place || typeof place.country !== 'string' || !place.country.trim()) {
+        errors.push('Every region needs a country');
+        break;
+      }
+      if (place.region && typeof place.region !== 'string') {
+        errors.push('Region must be a string');
+        break;
+      }
+
+      const key = `${place.country.trim().toLowerCase()}|${place.region?.trim().toLowerCase() || ''}`;
+      if (places.has(key)) {
+        errors.push(`${place.region?.trim() || place.country.trim()} is listed twice`);
+        break;
+      }
+      places.add(key);
+    }
+  }
+
+  return errors;
+};
+
+// Store a zone's places, replacing what it covered before
+const saveZoneRegions = async (client: PoolClient, zoneId: string, regions: ShippingZoneRequest['regions']) => {
+  await client.query('DELETE FROM shipping_zone_regions WHERE zone_id = $1', [zoneId]);
+
+  for (const place of regions || []) {
+    await client.query(
+      'INSERT INTO shipping_zone_regions (zone_id, country, region) VALUES ($1, $2, $3)',
+      [zoneId, place.country.trim(), place.region?.trim() || null]
+    );
+  }
+};
+
+// Unique violations on zones mean a clashing name, place or second rest-of-world zone
+const shippingZoneConflictMessage = (error: unknown): string | null => {
+  if ((error as CustomError).code !== '23505') return null;
+
+  const constraint = (error as { constraint?: string }).constraint;
+  if (constraint === 'idx_shipping_zone_regions_place') return 'One of these places already belongs to another zone';
+  if (constraint === 'idx_shipping_zones_rest_of_world') return 'Another zone already covers the rest of the world';
+  return 'A zone with this name already exists';
+};
+
+// @route   GET /api/admin/shipping-zones
+// @desc    Get all shipping zones with the places they cover
+// @access  Private (Admin only)
+router.get('/shipping-zones', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const zones = await getShippingZones();
+
+    res.json({
+      success: true,
+      message: 'Shipping zones retrieved successfully',
+      data: zones
+    });
+
+  } catch (error) {
+    console.error('Error fetching shipping zones:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while fetching shipping zones'
+    });
+  }
+}));
+
+// @route   POST /api/admin/shipping-zones
+// @desc    Create a shipping zone
+// @access  Private (Admin only)
+router.post('/shipping-zones', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const zone: ShippingZoneRequest = req.body;
+
+    const errors = validateShippingZone(zone);
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: `Validation errors: ${errors.join(', ')}`
+      });
+      return;
+    }
+
+    const zoneId = await withTransaction(async (client) => {
+      const insertResult = await client.query(
+        'INSERT INTO shipping_zones (name, is_rest_of_world) VALUES ($1, $2) RETURNING id',
+        [zone.name.trim(), zone.isRestOfWorld === true]
+      );
+
+      await saveZoneRegions(client, insertResult.rows[0].id, zone.regions);
+      return insertResult.rows[0].id;
+    });
+
+    const zones = await getShippingZones();
+
+    res.status(201).json({
+      success: true,
+      message: 'Shipping zone created successfully',
+      data: zones.find(z => z.id === zoneId)
+    });
+
+  } catch (error) {
+    const conflict = shippingZoneConflictMessage(error);
+    if (conflict) {
+      res.status(409).json({
+        success: false,
+        message: conflict
+      });
+      return;
+    }
+
+    console.error('Error creating shipping zone:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while creating shipping zone'
+    });
+  }
+}));
+
+// @route   PUT /api/admin/shipping-zones/:id
+// @desc    Update a shipping zone and the places it covers
+// @access  Private (Admin only)
+router.put('/shipping-zones/:id', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const zoneId = req.params.id;
+    const zone: ShippingZoneRequest = req.body;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(zoneId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid shipping zone ID format'
+      });
+      return;
+    }
+
+    const errors = validateShippingZone(zone);
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: `Validation errors: ${errors.join(', ')}`
+      });
+      return;
+    }
+
+    await withTransaction(async (client) => {
+      const updateResult = await client.query(
+        `UPDATE shipping_zones SET name = $1, is_rest_of_world = $2, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $3 RETURNING id`,
+        [zone.name.trim(), zone.isRestOfWorld === true, zoneId]
+      );
+
+      if (updateResult.rows.length === 0) {
+        throw createError('Shipping zone not found', 404);
+      }
+
+      await saveZoneRegions(client, zoneId, zone.regions);
+    });
+
+    const zones = await getShippingZones();
+
+    res.json({
+      success: true,
+      message: 'Shipping zone updated successfully',
+      data: zones.find(z => z.id === zoneId)
+    });
+
+  } catch (error) {
+    const statusCode = (error as CustomError).statusCode;
+    if (statusCode) {
+      res.status(statusCode).json({
+        success: false,
+        message: (error as Error).message
+      });
+      return;
+    }
+
+    const conflict = shippingZoneConflictMessage(error);
+    if (conflict) {
+      res.status(409).json({
+        success: false,
+        message: conflict
+      });
+      return;
+    }
+
+    console.error('Error updating shipping zone:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while updating shipping zone'
+    });
+  }
+}));
+
+// @route   DELETE /api/admin/shipping-zones/:id
+// @desc    Delete a shipping zone and its rates
+// @access  Private (Admin only)
+router.delete('/shipping-zones/:id', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const zoneId = req.params.id;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(zoneId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid shipping zone ID format'
+      });
+      return;
+    }
+
+    const deleteResult = await query(
+      'DELETE FROM shipping_zones WHERE id = $1 RETURNING id',
+      [zoneId]
+    );
+
+    if (deleteResult.rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        message: 'Shipping zone not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Shipping zone deleted successfully',
+      data: {
+        zoneId: deleteResult.rows[0].id
+      }
+    });
+
+  } catch (error) {
+    console.error('Error deleting shipping zone:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while deleting shipping zone'
+    });
+  }
+}));
+
+// Shipping rate body - one rate per delivery method and zone
+interface ShippingRateRequest {
+  deliveryMethodId: string;
+  zoneId: string;
+  rateType: ShippingRateType;
+  basePrice?: number | null;
+  freeOverAmount?: number | null;
+  brackets?: Array<{ minValue: number; maxValue?: number | null; price: number }>;
+}
+
+const isAmount = (value: unknown): value is number => typeof value === 'number' && isFinite(value) && value >= 0;
+
+// Validate a shipping rate body, returning the list of problems
+const validateShippingRate = (rate: ShippingRateRequest): string[] => {
+  const errors: string[] = [];
+
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  if (typeof rate.deliveryMethodId !== 'string' || !uuidRegex.test(rate.deliveryMethodId)) {
+    errors.push('A valid delivery method is required');
+  }
+  if (typeof rate.zoneId !== 'string' || !uuidRegex.test(rate.zoneId)) {
+    errors.push('A valid shipping zone is required');
+  }
+
+  if (!isShippingRateType(rate.rateType)) {
+    errors.push(`Rate type must be one of: ${SHIPPING_RATE_TYPES.join(', ')}`);
+    return errors;
+  }
+
+  if (rate.rateType === 'free_over') {
+    if (!isAmount(rate.basePrice)) {
+      errors.push('Price below the threshold must be a non-negative number');
+    }
+    if (!isAmount(rate.freeOverAmount)) {
+      errors.push('Free shipping threshold must be a non-negative number');
+    }
+    return errors;
+  }
+
+  if (!Array.isArray(rate.brackets) || rate.brackets.length === 0) {
+    errors.push('At least one bracket is required');
+    return errors;
+  }
+
+  const sorted = [...rate.brackets].sort((a, b) => a.minValue - b.minValue);
+  for (const [index, bracket] of sorted.entries()) {
+    if (!isAmount(bracket.minValue) || !isAmount(bracket.price)) {
+      errors.push('Every bracket needs a non-negative lower bound and price');
+      break;
+    }
+    if (bracket.maxValue !== undefined && bracket.maxValue !== null
+      && (!isAmount(bracket.maxValue) || bracket.maxValue <= bracket.minValue)) {
+      errors.push('A bracket upper bound must be above its lower bound');
+      break;
+    }
+
+    const next = sorted[index + 1];
+    if (next && (bracket.maxValue === undefined || bracket.maxValue === null || bracket.maxValue > next.minValue)) {
+      errors.push('Brackets must not overlap');
+      break;
+    }
+  }
+
+  return errors;
+};
+
+// @route   GET /api/admin/shipping-rates
+// @desc    Get every shipping rate with the delivery methods and zones they belong to
+// @access  Private (Admin only)
+router.get('/shipping-rates', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const rates = await getShippingRates();
+    const zones = await getShippingZones();
+    const methodsResult = await query(
+      'SELECT id, name, estimated_days, is_active FROM delivery_methods ORDER BY price, name'
+    );
+
+    res.json({
+      success: true,
+      message: 'Shipping rates retrieved successfully',
+      data: {
+        rates,
+        zones,
+        deliveryMethods: methodsResult.rows.map(row => ({
+          id: row.id,
+          name: row.name,
+          estimatedDays: row.estimated_days,
+          isActive: row.is_active
+        }))
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching shipping rates:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while fetching shipping rates'
+    });
+  }
+}));
+
+// @route   PUT /api/admin/shipping-rates
+// @desc    Set how a delivery method is priced in a zone, replacing any earlier rate
+// @access  Private (Admin only)
+router.put('/shipping-rates', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const rate: ShippingRateRequest = req.body;
+
+    const errors = validateShippingRate(rate);
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: `Validation errors: ${errors.join(', ')}`
+      });
+      return;
+    }
+
+    const isFreeOver = rate.rateType === 'free_over';
+
+    const rateId = await withTransaction(async (client) => {
+      const upsertResult = await client.query(
+        `INSERT INTO shipping_rates (delivery_method_id, zone_id, rate_type, base_price, free_over_amount)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (delivery_method_id, zone_id) DO UPDATE
+           SET rate_type = EXCLUDED.rate_type,
+               base_price = EXCLUDED.base_price,
+               free_over_amount = EXCLUDED.free_over_amount,
+               updated_at = CURRENT_TIMESTAMP
+         RETURNING id`,
+        [
+          rate.deliveryMethodId,
+          rate.zoneId,
+          rate.rateType,
+          isFreeOver ? rate.basePrice : null,
+          isFreeOver ? rate.freeOverAmount : null
+        ]
+      );
+
+      const id = upsertResult.rows[0].id;
+      await client.query('DELETE FROM shipping_rate_brackets WHERE shipping_rate_id = $1', [id]);
+
+      if (!isFreeOver) {
+        for (const bracket of rate.brackets || []) {
+          await client.query(
+            'INSERT INTO shipping_rate_brackets (shipping_rate_id, min_value, max_value, price) VALUES ($1, $2, $3, $4)',
+            [id, bracket.minValue, bracket.maxValue ?? null, bracket.price]
+          );
+        }
+      }
+
+      return id;
+    });
+
+    const rates = await getShippingRates();
+
+    res.json({
+      success: true,
+      message: 'Shipping rate saved successfully',
+      data: rates.find(r => r.id === rateId)
+    });
+
+  } catch (error) {
+    // The method or zone was deleted or never existed
+    if ((error as CustomError).code === '23503') {
+      res.status(400).json({
+        success: false,
+        message: 'Selected delivery method or shipping zone does not exist'
+      });
+      return;
+    }
+
+    console.error('Error saving shipping rate:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while saving shipping rate'
+    });
+  }
+}));
+
+// @route   DELETE /api/admin/shipping-rates/:id
+// @desc    Stop a delivery method shipping to a zone
+// @access  Private (Admin only)
+router.delete('/shipping-rates/:id', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const rateId = req.params.id;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(rateId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid shipping rate ID format'
+      });
+      return;
+    }
+
+    const deleteResult = await query(
+      'DELETE FROM shipping_rates WHERE id = $1 RETURNING id',
+      [rateId]
+    );
+
+    if (deleteResult.rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        message: 'Shipping rate not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Shipping rate deleted successfully',
+      data: {
+        rateId: deleteResult.rows[0].id
+      }
+    });
+
+  } catch (error) {
+    console.error('Error deleting shipping rate:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while deleting shipping rate'
+    });
+  }
+}));
+
+// Currency body shared by create and update
+interface CurrencyRequest {
+  code?: string;
+  name?: string;
+  decimals?: number;
+  rate?: number;
+  isEnabled?: boolean;
+}
+
+// Validate a currency body - on update only the fields sent are checked
+const validateCurrency = (body: CurrencyRequest, isUpdate: boolean, isBase: boolean): string[] => {
+  const errors: string[] = [];
+
+  if (!isUpdate && !isCurrencyCode(body.code)) {
+    errors.push('Code must be a three-letter ISO code in capitals, e.g. EUR');
+  }
+  if (!isUpdate || body.name !== undefined) {
+    if (typeof body.name !== 'string' || body.name.trim().length === 0) {
+      errors.push('Name is required');
+    } else if (body.name.trim().length > 100) {
+      errors.push('Name must be 100 characters or fewer');
+    }
+  }
+  if (body.decimals !== undefined && (!Number.isInteger(body.decimals) || body.decimals < 0 || body.decimals > 3)) {
+    errors.push('Decimals must be a whole number from 0 to 3');
+  }
+  if (!isUpdate || body.rate !== undefined) {
+    if (typeof body.rate !== 'number' || !Number.isFinite(body.rate) || body.rate <= 0) {
+      errors.push('Rate must be a positive number');
+    } else if (isBase && body.rate !== 1) {
+      errors.push('The base currency rate is always 1');
+    }
+  }
+  if (body.isEnabled !== undefined && typeof body.isEnabled !== 'boolean') {
+    errors.push('isEnabled must be true or false');
+  } else if (isBase && body.isEnabled === false) {
+    errors.push('The base currency cannot be disabled');
+  }
+
+  return errors;
+};
+
+// @route   GET /api/admin/currencies
+// @desc    Get all currencies with their exchange rates
+// @access  Private (Admin only)
+router.get('/currencies', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const currencies = await getCurrencies();
+
+    res.json({
+      success: true,
+      message: 'Currencies retrieved successfully',
+      data: currencies
+    });
+
+  } catch (error) {
+    console.error('Error fetching currencies:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while fetching currencies'
+    });
+  }
+}));
+
+// @route   POST /api/admin/currencies
+// @desc    Add a currency customers can shop in
+// @access  Private (Admin only)
+router.post('/currencies', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const body = req.body as CurrencyRequest;
+
+    const errors = validateCurrency(body, false, false);
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: `Validation errors: ${errors.join(', ')}`
+      });
+      return;
+    }
+
+    const result = await query(
+      `INSERT INTO currencies (code, name, decimals, rate_to_base, is_enabled)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING code, name, decimals, rate_to_base, is_base, is_enabled, rate_updated_at`,
+      [body.code, body.name!.trim(), body.decimals ?? 2, body.rate, body.isEnabled ?? true]
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Currency added successfully',
+      data: mapCurrencyRow(result.rows[0])
+    });
+
+  } catch (error) {
+    if ((error as CustomError).code === '23505') {
+      res.status(409).json({
+        success: false,
+        message: 'That currency already exists'
+      });
+      return;
+    }
+
+    console.error('Error adding currency:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while adding currency'
+    });
+  }
+}));
+
+// @route   PUT /api/admin/currencies/:code
+// @desc    Update a currency's name, rounding, exchange rate or availability
+// @access  Private (Admin only)
+router.put('/currencies/:code', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const code = req.params.code.toUpperCase();
+    const body = req.body as CurrencyRequest;
+
+    const existingResult = await query(`${CURRENCY_SELECT} WHERE code = $1`, [code]);
+    if (existingResult.rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        message: 'Currency not found'
+      });
+      return;
+    }
+
+    const existing = mapCurrencyRow(existingResult.rows[0]);
+
+    const errors = validateCurrency(body, true, existing.isBase);
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: `Validation errors: ${errors.join(', ')}`
+      });
+      return;
+    }
+
+    // Orders already placed keep the rate they were placed at
+    const result = await query(
+      `UPDATE currencies SET
+         name = $2,
+         decimals = $3,
+         rate_to_base = $4,
+         is_enabled = $5,
+         rate_updated_at = CASE WHEN rate_to_base <> $4 THEN NOW() ELSE rate_updated_at END
+       WHERE code = $1
+       RETURNING code, name, decimals, rate_to_base, is_base, is_enabled, rate_updated_at`,
+      [
+        code,
+        body.name !== undefined ? body.name.trim() : existing.name,
+        body.decimals ?? existing.decimals,
+        body.rate ?? existing.rate,
+        body.isEnabled ?? existing.isEnabled
+      ]
+    );
+
+    res.json({
+      success: true,
+      message: 'Currency updated successfully',
+      data: mapCurrencyRow(result.rows[0])
+    });
+
+  } catch (error) {
+    console.error('Error updating currency:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while updating currency'
+    });
+  }
+}));
+
+// @route   POST /api/admin/currencies/import
+// @desc    Update exchange rates from a rate file ("CODE,rate" per line)
+// @access  Private (Admin only)
+router.post('/currencies/import', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { content } = req.body as { content?: string };
+
+    if (typeof content !== 'string' || content.trim().length === 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Rate file content is required'
+      });
+      return;
+    }
+
+    const { rates, errors } = parseRateImport(content);
+    if (errors.length === 0 && rates.length === 0) {
+      errors.push('The file contains no rates');
+    }
+
+    const currencies = await getCurrencies();
+    for (const { code, rate } of rates) {
+      const currency = currencies.find(c => c.code === code);
+      if (!currency) {
+        errors.push(`${code} is not a store currency - add it first`);
+      } else if (currency.isBase && rate !== 1) {
+        errors.push(`${code} is the base currency, its rate is always 1`);
+      }
+    }
+
+    // Nothing is changed unless the whole file is valid
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: `Validation errors: ${errors.join(', ')}`
+      });
+      return;
+    }
+
+    await withTransaction(async (client) => {
+      for (const { code, rate } of rates) {
+        await client.query(
+          `UPDATE currencies
+           SET rate_to_base = $2,
+               rate_updated_at = CASE WHEN rate_to_base <> $2 THEN NOW() ELSE rate_updated_at END
+           WHERE code = $1`,
+          [code, rate]
+        );
+      }
+    });
+
+    res.json({
+      success: true,
+      message: `Imported ${rates.length} exchange rate${rates.length === 1 ? '' : 's'}`,
+      data: await getCurrencies()
+    });
+
+  } catch (error) {
+    console.error('Error importing exchange rates:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while importing exchange rates'
+    });
+  }
+}));
+
+// Promotion body shared by create and update
+interface PromotionRequest {
+  code: string;
+  description?: string | null;
+  discountType: DiscountType;
+  discountValue?: number;
+  minSubtotal?: number;
+  startsAt?: string | null;
+  endsAt?: string | null;
+  usageLimit?: number | null;
+  perCustomerLimit?: number | null;
+  categoryIds?: string[];
+  productIds?: string[];
+  isActive?: boolean;
+}
+
+const PROMOTION_SELECT = `
+  SELECT p.*,
+         COUNT(o.id) as times_used,
+         COALESCE(SUM(pr.discount_amount) FILTER (WHERE o.id IS NOT NULL), 0) as total_discount
+  FROM promotions p
+  LEFT JOIN promotion_redemptions pr ON pr.promotion_id = p.id
+  LEFT JOIN orders o ON pr.order_id = o.id AND o.status != 'cancelled'
+`;
+
+const formatPromotion = (row: any) => ({
+  ...mapPromotionRow(row),
+  timesUsed: parseInt(row.times_used || '0'),
+  totalDiscount: parseFloat(row.total_discount || '0'),
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+// Validate a promotion body, returning the list of problems
+const validatePromotion = (promotion: PromotionRequest): string[] => {
+  const errors: string[] = [];
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+  if (!promotion.code || typeof promotion.code !== 'string' || !/^[A-Za-z0-9_-]{3,32}$/.test(promotion.code.trim())) {
+    errors.push('Code must be 3 to 32 letters, digits, dashes or underscores');
+  }
+
+  if (!DISCOUNT_TYPES.includes(promotion.discountType)) {
+    errors.push('Discount type must be one of: ' + DISCOUNT_TYPES.join(', '));
+  } else if (promotion.discountType !== 'free_shipping') {
+    const value = promotion.discountValue;
+    if (typeof value !== 'number' || value <= 0) {
+      errors.push('Discount value must be a positive number');
+    } else if (promotion.discountType === 'percentage' && value > 100) {
+      errors.push('Percentage discount cannot exceed 100');
+    }
+  }
+
+  if (promotion.minSubtotal !== undefined && (typeof promotion.minSubtotal !== 'number' || promotion.minSubtotal < 0)) {
+    errors.push('Minimum subtotal must be a non-negative number');
+  }
+
+  for (const field of ['usageLimit', 'perCustomerLimit'] as const) {
+    const limit = promotion[field];
+    if (limit !== undefined && limit !== null && (!Number.isInteger(limit) || limit < 1)) {
+      errors.push(`${field === 'usageLimit' ? 'Usage limit' : 'Per-customer limit'} must be a positive integer`);
+    }
+  }
+
+  const startsAt = promotion.startsAt ? new Date(promotion.startsAt) : null;
+  const endsAt = promotion.endsAt ? new Date(promotion.endsAt) : null;
+  if ((startsAt && isNaN(startsAt.getTime())) || (endsAt && isNaN(endsAt.getTime()))) {
+    errors.push('Start and end dates must be valid dates');
+  } else if (startsAt && endsAt && endsAt <= startsAt) {
+    errors.push('End date must be after the start date');
+  }
+
+  const ids = [...(promotion.categoryIds || []), ...(promotion.productIds || [])];
+  if (!ids.every(id => typeof id === 'string' && uuidRegex.test(id))) {
+    errors.push('Category and product restrictions must be valid IDs');
+  }
+
+  return errors;
+};
+
+const promotionParams = (promotion: PromotionRequest) => [
+  normalizeCode(promotion.code),
+  promotion.description?.trim() || null,
+  promotion.discountType,
+  promotion.discountType === 'free_shipping' ? 0 : promotion.discountValue,
+  promotion.minSubtotal || 0,
+  promotion.startsAt || null,
+  promotion.endsAt || null,
+  promotion.usageLimit || null,
+  promotion.perCustomerLimit || null,
+  promotion.categoryIds || [],
+  promotion.productIds || [],
+  promotion.isActive !== false
+];
+
+// @route   GET /api/admin/promotions
+// @desc    Get all promotion codes with usage totals
+// @access  Private (Admin only)
+router.get('/promotions', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const result = await query(
+      `${PROMOTION_SELECT}
+       GROUP BY p.id
+       ORDER BY p.created_at DESC`
+    );
+
+    res.json({
+      success: true,
+      message: 'Promotions retrieved successfully',
+      data: result.rows.map(formatPromotion)
+    });
+
+  } catch (error) {
+    console.error('Error fetching promotions:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while fetching promotions'
+    });
+  }
+}));
+
+// @route   POST /api/admin/promotions
+// @desc    Create a promotion code
+// @access  Private (Admin only)
+router.post('/promotions', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const promotion: PromotionRequest = req.body;
+
+    const errors = validatePromotion(promotion);
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: `Validation errors: ${errors.join(', ')}`
+      });
+      return;
+    }
+
+    const insertResult = await query(
+      `INSERT INTO promotions (
+        code, description, discount_type, discount_value, min_subtotal, starts_at, ends_at,
+        usage_limit, per_customer_limit, category_ids, product_ids, is_active
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      RETURNING id`,
+      promotionParams(promotion)
+    );
+
+    const createdResult = await query(
+      `${PROMOTION_SELECT} WHERE p.id = $1 GROUP BY p.id`,
+      [insertResult.rows[0].id]
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Promotion created successfully',
+      data: formatPromotion(createdResult.rows[0])
+    });
+
+  } catch (error) {
+    if ((error as CustomError).code === '23505') {
+      res.status(409).json({
+        success: false,
+        message: 'A promotion with this code already exists'
+      });
+      return;
+    }
+
+    console.error('Error creating promotion:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while creating promotion'
+    });
+  }
+}));
+
+// @route   PUT /api/admin/promotions/:id
+// @desc    Update a promotion code
+// @access  Private (Admin only)
+router.put('/promotions/:id', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const promotionId = req.params.id;
+    const promotion: PromotionRequest = req.body;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(promotionId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid promotion ID format'
+      });
+      return;
+    }
+
+    const errors = validatePromotion(promotion);
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: `Validation errors: ${errors.join(', ')}`
+      });
+      return;
+    }
+
+    const updateResult = await query(
+      `UPDATE promotions
+       SET code = $1, description = $2, discount_type = $3, discount_value = $4, min_subtotal = $5,
+           starts_at = $6, ends_at = $7, usage_limit = $8, per_customer_limit = $9,
+           category_ids = $10, product_ids = $11, is_active = $12, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $13
+       RETURNING id`,
+      [...promotionParams(promotion), promotionId]
+    );
+
+    if (updateResult.rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        message: 'Promotion not found'
+      });
+      return;
+    }
+
+    const updatedResult = await query(
+      `${PROMOTION_SELECT} WHERE p.id = $1 GROUP BY p.id`,
+      [promotionId]
+    );
+
+    res.json({
+      success: true,
+      message: 'Promotion updated successfully',
+      data: formatPromotion(updatedResult.rows[0])
+    });
+
+  } catch (error) {
+    if ((error as CustomError).code === '23505') {
+      res.status(409).json({
+        success: false,
+        message: 'A promotion with this code already exists'
+      });
+      return;
+    }
+
+    console.error('Error updating promotion:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while updating promotion'
+    });
+  }
+}));
+
+// @route   GET /api/admin/promotions/:id/redemptions
+// @desc    Get the orders that used a promotion code
+// @access  Private (Admin only)
+router.get('/promotions/:id/redemptions', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const promotionId = req.params.id;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(promotionId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid promotion ID format'
+      });
+      return;
+    }
+
+    const result = await query(
+      `SELECT pr.id, pr.order_id, pr.customer_email, pr.discount_amount, pr.created_at,
+              o.status as order_status, o.total as order_total, u.full_name as customer_name
+       FROM promotion_redemptions pr
+       JOIN orders o ON pr.order_id = o.id
+       LEFT JOIN users u ON pr.user_id = u.id
+       WHERE pr.promotion_id = $1
+       ORDER BY pr.created_at DESC`,
+      [promotionId]
+    );
+
+    res.json({
+      success: true,
+      message: 'Redemptions retrieved successfully',
+      data: result.rows.map(row => ({
+        id: row.id,
+        orderId: row.order_id,
+        orderNumber: row.order_id.substring(0, 8).toUpperCase(),
+        orderStatus: row.order_status,
+        orderTotal: parseFloat(row.order_total),
+        customerName: row.customer_name || 'Guest',
+        customerEmail: row.customer_email,
+        discountAmount: parseFloat(row.discount_amount),
+        redeemedAt: row.created_at
+      }))
+    });
+
+  } catch (error) {
+    console.error('Error fetching promotion redemptions:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while fetching redemptions'
     });
   }
 }));
@@ -1,15 +1,21 @@
 import express, { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
-import { query } from '../config/database';
+import crypto from 'crypto';
+import { query, withTransaction } from '../config/database';
 import { 
   validateSignUp, 
   validateSignIn, 
+  validateForgotPassword,
+  validatePasswordReset,
   handleValidationErrors, 
   sanitizeInput 
 } from '../middleware/validation';
 import { authenticateToken, User } from '../middleware/auth';
 import { asyncHandler } from '../middleware/errorHandler';
+import { renderEmail } from '../utils/emailTemplates';
+import { queueEmail } from '../utils/emailOutbox';
 
 const router = express.Router();
 
@@ -25,6 +31,15 @@ interface SignInRequestBody {
   password: string;
 }
 
+interface ForgotPasswordRequestBody {
+  email: string;
+}
+
+interface PasswordResetRequestBody {
+  token: string;
+  password: string;
+}
+
 interface ProfileUpdateRequestBody {
   fullName?: string;
 }
@@ -183,6 +198,144 @@ router.post('/signin',
   })
 );
 
+// How long a password reset link works
+const PASSWORD_RESET_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60', 10);
+
+// Reset requests send email, so they get the same tight limit as order lookups
+const forgotPasswordLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 5,
+  message: {
+    success: false,
+    message: 'Too many password reset requests, please try again later.'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// Setting the new password has its own budget, so asking for links never blocks using one
+const resetPasswordLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  message: {
+    success: false,
+    message: 'Too many password reset attempts, please try again later.'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// Only the hash of a reset token is stored, so a leaked table cannot be used to reset passwords
+const hashResetToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+// @route   POST /api/auth/forgot-password
+// @desc    Email a single-use password reset link
+// @access  Public
+router.post('/forgot-password',
+  forgotPasswordLimiter,
+  sanitizeInput,
+  validateForgotPassword,
+  handleValidationErrors,
+  asyncHandler(async (req: Request<{}, {}, ForgotPasswordRequestBody>, res: Response) => {
+    const { email } = req.body;
+
+    const result = await query(
+      'SELECT id, full_name, email FROM users WHERE email = $1',
+      [email]
+    );
+
+    if (result.rows.length > 0) {
+      const user = result.rows[0];
+      const token = crypto.randomBytes(32).toString('hex');
+      const clientUrl = process.env.CLIENT_URL || 'http://localhost:5173';
+
+      await withTransaction(async (client) => {
+        await client.query(
+          `INSERT INTO password_reset_tokens (user_id, token_hash, expires_at)
+           VALUES ($1, $2, NOW() + INTERVAL '1 minute' * $3)`,
+          [user.id, hashResetToken(token), PASSWORD_RESET_TTL_MINUTES]
+        );
+
+        await queueEmail(client, {
+          ...renderEmail({
+            template: 'password_reset',
+            customerName: user.full_name,
+            resetUrl: `${clientUrl}/reset-password?token=${token}`,
+            expiresInMinutes: PASSWORD_RESET_TTL_MINUTES
+          }),
+          template: 'password_reset',
+          recipient: user.email
+        });
+      });
+    }
+
+    // Same answer whether or not the account exists, so emails cannot be probed
+    res.json({
+      success: true,
+      message: 'If an account uses that email address, a link to reset its password has been sent'
+    });
+  })
+);
+
+// @route   POST /api/auth/reset-password
+// @desc    Choose a new password with a reset link
+// @access  Public
+router.post('/reset-password',
+  resetPasswordLimiter,
+  sanitizeInput,
+  validatePasswordReset,
+  handleValidationErrors,
+  asyncHandler(async (req: Request<{}, {}, PasswordResetRequestBody>, res: Response) => {
+    const { token, password } = req.body;
+
+    // Hash before opening the transaction - bcrypt is slow on purpose
+    const saltRounds = 12;
+    const passwordHash = await bcrypt.hash(password, saltRounds);
+
+    const reset = await withTransaction(async (client) => {
+      const tokenResult = await client.query(
+        `SELECT id, user_id FROM password_reset_tokens
+         WHERE token_hash = $1 AND used_at IS NULL AND expires_at > NOW()
+         FOR UPDATE`,
+        [hashResetToken(token)]
+      );
+      const resetToken = tokenResult.rows[0];
+
+      if (!resetToken) {
+        return false;
+      }
+
+      await client.query(
+        'UPDATE users SET password_hash = $1 WHERE id = $2',
+        [passwordHash, resetToken.user_id]
+      );
+
+      // Using one link retires every other link sent to the same account
+      await client.query(
+        'UPDATE password_reset_tokens SET used_at = NOW() WHERE user_id = $1 AND used_at IS NULL',
+        [resetToken.user_id]
+      );
+
+      return true;
+    });
+
+    if (!reset) {
+      res.status(400).json({
+        success: false,
+        message: 'This reset link is invalid or has expired. Please request a new one.'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Your password has been changed. You can now sign in.'
+    });
+  })
+);
+
 // @route   GET /api/auth/me
 // @desc    Get current user profile
 // @access  Private
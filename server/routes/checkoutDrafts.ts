@@ -0,0 +1,123 @@
+import express, { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit';
+import { query } from '../config/database';
+import { optionalAuth } from '../middleware/auth';
+import { asyncHandler, CustomError } from '../middleware/errorHandler';
+import {
+  parseCheckoutDraftInput,
+  saveCheckoutDraft,
+  restoreCheckoutDraft,
+  verifyCheckoutDraftToken,
+  isDraftId
+} from '../utils/checkoutDrafts';
+
+const router = express.Router();
+
+// Any visitor can save a draft for any address and each one may be emailed,
+// so saves get their own limit on top of the API default
+const draftSaveLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 60,
+  message: {
+    success: false,
+    message: 'Too many checkout saves, please try again later.'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// @route   POST /api/checkout-drafts
+// @desc    Save the checkout being filled in - pass draftId and token to update the caller's draft
+// @access  Public (guests check out too)
+router.post('/', draftSaveLimiter, optionalAuth, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { draft, errors } = parseCheckoutDraftInput(req.body);
+
+    if (!draft) {
+      res.status(400).json({
+        success: false,
+        message: `Validation errors: ${errors.join(', ')}`
+      });
+      return;
+    }
+
+    const saved = await saveCheckoutDraft({ query }, draft, {
+      draftId: req.body.draftId,
+      token: req.body.token,
+      userId: req.user?.id || null
+    });
+
+    res.json({
+      success: true,
+      message: 'Checkout saved',
+      data: saved
+    });
+
+  } catch (error) {
+    const statusCode = (error as CustomError).statusCode;
+    if (statusCode) {
+      res.status(statusCode).json({
+        success: false,
+        message: (error as Error).message
+      });
+      return;
+    }
+
+    console.error('Error saving checkout draft:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while saving checkout'
+    });
+  }
+}));
+
+// @route   GET /api/checkout-drafts/:id?token=
+// @desc    Restore a saved checkout from its recovery link
+// @access  Public with the draft's token
+router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const draftId = req.params.id;
+
+    if (!isDraftId(draftId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid checkout ID format'
+      });
+      return;
+    }
+
+    if (!verifyCheckoutDraftToken(req.query.token, draftId)) {
+      res.status(403).json({
+        success: false,
+        message: 'This checkout link has expired'
+      });
+      return;
+    }
+
+    const checkout = await restoreCheckoutDraft(draftId);
+
+    res.json({
+      success: true,
+      message: 'Checkout restored',
+      data: checkout
+    });
+
+  } catch (error) {
+    const statusCode = (error as CustomError).statusCode;
+    if (statusCode) {
+      res.status(statusCode).json({
+        success: false,
+        message: (error as Error).message
+      });
+      return;
+    }
+
+    console.error('Error restoring checkout draft:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while restoring checkout'
+    });
+  }
+}));
+
+export default router;
@@ -0,0 +1,36 @@
+import express, { Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { getCurrencies } from '../utils/currencies';
+
+const router = express.Router();
+
+/**
+ * GET /api/currencies
+ * Currencies customers can shop in with their current exchange rates
+ * Catalog prices are in the base currency, which is listed first.
+ */
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const currencies = await getCurrencies({ enabledOnly: true });
+
+    return res.json({
+      success: true,
+      data: currencies.map(currency => ({
+        code: currency.code,
+        name: currency.name,
+        decimals: currency.decimals,
+        rate: currency.rate,
+        isBase: currency.isBase
+      }))
+    });
+
+  } catch (error) {
+    console.error('Error fetching currencies:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to fetch currencies'
+    });
+  }
+}));
+
+export default router;
@@ -1,35 +1,83 @@
 import express, { Request, Response } from 'express';
-import { query } from '../config/database';
+import { asyncHandler, CustomError } from '../middleware/errorHandler';
+import { calculateDeliveryEstimate, getHolidayDates } from '../utils/deliveryEstimate';
+import { priceItems, PricingItemInput } from '../utils/orderPricing';
+import { quoteShipping } from '../utils/shippingRates';
+import { resolveCurrency, convertAmount } from '../utils/currencies';
 
 const router = express.Router();
 
+// Cart lines come in the query string as productId:quantity pairs separated by commas
+const parseCartItems = (value: unknown): PricingItemInput[] => {
+  if (typeof value !== 'string' || value.trim() === '') return [];
+
+  return value.split(',').map(pair => {
+    const [productId, quantity] = pair.split(':');
+    return { productId: productId?.trim(), quantity: Number(quantity) };
+  });
+};
+
 /**
- * GET /api/delivery-methods
- * Get all active delivery methods
+ * GET /api/delivery-methods?country=&region=&items=productId:quantity,...&currency=
+ * Delivery methods that ship the cart to the destination, with their price
+ * in the requested currency and the dates an order placed now would arrive
  */
-router.get('/delivery-methods', async (req: Request, res: Response) => {
+router.get('/delivery-methods', asyncHandler(async (req: Request, res: Response) => {
   try {
-    const result = await query(
-      'SELECT id, name, description, price, estimated_days FROM delivery_methods WHERE is_active = true ORDER BY price ASC'
+    const { country, region, items, currency: currencyCode } = req.query;
+
+    if (typeof country !== 'string' || !country.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'A destination country is required'
+      });
+    }
+
+    const currency = await resolveCurrency(typeof currencyCode === 'string' ? currencyCode : null);
+    const pricedItems = await priceItems(parseCartItems(items));
+
+    const options = await quoteShipping(
+      { country, region: typeof region === 'string' ? region : null },
+      {
+        subtotal: pricedItems.reduce((sum, item) => sum + item.lineTotal, 0),
+        weightKg: pricedItems.reduce((sum, item) => sum + item.weightKg, 0)
+      }
     );
 
-    res.json({
+    const now = new Date();
+    const holidays = await getHolidayDates(now);
+
+    return res.json({
       success: true,
-      data: result.rows.map(row => ({
-        id: row.id,
-        name: row.name,
-        description: row.description,
-        price: parseFloat(row.price),
-        estimatedDays: row.estimated_days
+      data: options.map(option => ({
+        id: option.deliveryMethodId,
+        name: option.name,
+        description: option.description,
+        price: convertAmount(option.price, currency),
+        estimatedDays: option.estimatedDays,
+        minBusinessDays: option.window.minBusinessDays,
+        maxBusinessDays: option.window.maxBusinessDays,
+        cutoffHour: option.window.cutoffHour,
+        zoneName: option.zoneName,
+        deliveryEstimate: calculateDeliveryEstimate(option.window, now, holidays)
       }))
     });
+
   } catch (error) {
+    const statusCode = (error as CustomError).statusCode;
+    if (statusCode) {
+      return res.status(statusCode).json({
+        success: false,
+        message: (error as Error).message
+      });
+    }
+
     console.error('Error fetching delivery methods:', error);
-    res.status(500).json({
+    return res.status(500).json({
       success: false,
       message: 'Failed to fetch delivery methods'
     });
   }
-});
+}));
 
 export default router;
@@ -1,15 +1,46 @@
 import express, { Request, Response } from 'express';
-import { query } from '../config/database';
+import rateLimit from 'express-rate-limit';
+import { query, withTransaction } from '../config/database';
 import { authenticateToken, optionalAuth } from '../middleware/auth';
-import { asyncHandler } from '../middleware/errorHandler';
+import { asyncHandler, createError, CustomError } from '../middleware/errorHandler';
+import { idempotency } from '../middleware/idempotency';
+import { quoteOrder, findPriceMismatches, OrderPricing } from '../utils/orderPricing';
+import { TaxDestination } from '../utils/taxEngine';
+import { redeemPromotion, PromotionCustomer } from '../utils/promotions';
+import { reserveStock, StockConflictError, RESERVATION_TTL_MINUTES } from '../utils/stockReservations';
+import { createOrderAccessToken, buildOrderAccessUrl, canAccessOrder, LOOKUP_TOKEN_TTL_HOURS } from '../utils/orderAccess';
+import { recordStatusChange, getStatusHistory } from '../utils/orderStatusHistory';
+import { transitionOrder } from '../utils/orderStateMachine';
+import { notifyAdmins } from '../utils/adminNotifications';
+import { getOrderRefunds } from '../utils/refunds';
+import { resolveProviderName } from '../utils/paymentProviders';
+import { authorizePayment, completePaymentChallenge, retryOrderPayment, hasRawCardData, PaymentAttemptResult } from '../utils/payments';
+import {
+  getReturnableItems,
+  getReturnRequests,
+  createReturnRequest,
+  formatRmaNumber,
+  RETURN_REASONS,
+  ITEM_CONDITIONS,
+  RETURNABLE_ORDER_STATUSES,
+  ReturnItemInput
+} from '../utils/returns';
+import { getShipments, getShippableItems, FULFILLMENT_QUEUE_STATUSES } from '../utils/shipments';
+import { estimateDelivery, mapDeliveryWindowRow } from '../utils/deliveryEstimate';
+import { getOrderDocuments, getBillingDocument, renderDocumentsPdf } from '../utils/billingDocuments';
+import { queueOrderEmail } from '../utils/orderEmails';
+import { isSingleEmailAddress } from '../utils/mailTransports';
+import { getSavedAddress, parseAddressInput, resolveOrderAddress } from '../utils/addresses';
+import { verifyCheckoutDraftToken, markCheckoutDraftConverted } from '../utils/checkoutDrafts';
+import { formatAddressLines } from '../utils/addressFormats';
 
 const router = express.Router();
 
 interface OrderItem {
   productId: string;
   quantity: number;
-  unitPrice: number;
-  name: string;
+  unitPrice?: number;
+  name?: string;
 }
 
 interface ShippingAddress {
@@ -19,176 +50,1189 @@ interface ShippingAddress {
   addressLine1: string;
   addressLine2?: string;
   city: string;
-  state: string;
-  postalCode: string;
+  state?: string | null;
+  postalCode?: string | null;
   country: string;
 }
 
 interface CreateOrderRequest {
   items: OrderItem[];
   shippingAddress: ShippingAddress;
+  // A saved address book entry to ship to instead of the typed address
+  shippingAddressId?: string | null;
+  saveShippingAddress?: boolean;
+  // Billing goes to the shipping address unless one of these is given
+  billingAddress?: Partial<ShippingAddress> | null;
+  billingAddressId?: string | null;
+  saveBillingAddress?: boolean;
   deliveryMethodId: string;
   paymentMethod: string;
-  subtotal: number;
-  shippingCost: number;
-  taxAmount: number;
+  // Single-use token from the payment provider's client library - never card details
+  paymentToken?: string;
+  // Totals the customer saw - checked against the server quote, never stored
+  subtotal?: number;
+  shippingCost?: number;
+  discountAmount?: number;
+  taxAmount?: number;
   codFee?: number;
-  total: number;
+  total?: number;
+  couponCode?: string | null;
+  // Currency the customer pays in - the base currency when omitted
+  currency?: string | null;
   orderNotes?: string;
   customerEmail: string;
+  // The saved checkout this order completes, with the token the browser holds for it
+  checkoutDraftId?: string | null;
+  checkoutDraftToken?: string | null;
 }
 
+interface QuoteOrderRequest {
+  items: OrderItem[];
+  deliveryMethodId: string;
+  paymentMethod: string;
+  shippingAddress?: Partial<ShippingAddress>;
+  couponCode?: string | null;
+  currency?: string | null;
+  customerEmail?: string;
+}
+
+// Reasons a customer can pick when cancelling
+const CANCELLATION_REASONS: Record<string, string> = {
+  changed_mind: 'Changed my mind',
+  ordered_by_mistake: 'Ordered by mistake',
+  found_better_price: 'Found a better price elsewhere',
+  delivery_too_slow: 'Delivery would take too long',
+  wrong_details: 'Wrong address or order details',
+  other: 'Other'
+};
+
+// Customers can cancel until the shop starts working on the order
+const CUSTOMER_CANCELLABLE_STATUSES = ['pending', 'paid'];
+
+// The parts of a shipping address tax rules are matched on
+const toTaxDestination = (address?: Partial<Pick<ShippingAddress, 'country' | 'state' | 'postalCode'>>): TaxDestination | null => {
+  if (!address?.country) return null;
+  return {
+    country: address.country,
+    region: address.state || null,
+    postalCode: address.postalCode || null
+  };
+};
+
+/**
+ * POST /api/orders/quote
+ * Price a cart from current product, delivery and payment method data
+ */
+router.post('/quote', optionalAuth, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { items, deliveryMethodId, paymentMethod, shippingAddress, couponCode, currency, customerEmail }: QuoteOrderRequest = req.body;
+
+    const pricing = await quoteOrder({
+      items,
+      deliveryMethodId,
+      paymentMethod,
+      destination: toTaxDestination(shippingAddress),
+      couponCode,
+      customer: { userId: req.user?.id || null, email: customerEmail || null },
+      currency
+    });
+
+    return res.json({
+      success: true,
+      data: pricing
+    });
+
+  } catch (error) {
+    const statusCode = (error as CustomError).statusCode;
+    if (statusCode) {
+      return res.status(statusCode).json({
+        success: false,
+        message: (error as Error).message
+      });
+    }
+
+    console.error('Error quoting order:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to calculate order totals'
+    });
+  }
+}));
+
+/**
+ * POST /api/orders
+ * Create a new order
+ * Send an Idempotency-Key header to make retries return the original order.
+ */
+// Option 1: Required Authentication (current implementation)
+// router.post('/', authenticateToken, asyncHandler(async (req: Request, res: Response) => {
+//   const userId = req.user!.id; // Required - user must be authenticated
+
+// Option 2: Optional Authentication (supports guest checkout)
+router.post('/', optionalAuth, idempotency(), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const orderData: CreateOrderRequest = req.body;
+    const userId = req.user?.id || null; // Optional - supports guest checkout
+
+    // Validate required fields
+    if (!orderData.items || orderData.items.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Order must contain at least one item'
+      });
+    }
+
+    if ((!orderData.shippingAddress && !orderData.shippingAddressId) || !orderData.customerEmail) {
+      return res.status(400).json({
+        success: false,
+        message: 'Shipping address and email are required'
+      });
+    }
+
+    // Order emails go to this address, so it must be exactly one address
+    if (!isSingleEmailAddress(orderData.customerEmail)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Please enter a valid email address'
+      });
+    }
+
+    if (!userId && (orderData.shippingAddressId || orderData.billingAddressId)) {
+      return res.status(401).json({
+        success: false,
+        message: 'Please sign in to use your saved addresses'
+      });
+    }
+
+    // A saved address is shipped to as it is stored, whatever was typed alongside it
+    const savedShippingAddress = orderData.shippingAddressId
+      ? await getSavedAddress({ query }, userId!, orderData.shippingAddressId)
+      : null;
+    if (orderData.shippingAddressId && !savedShippingAddress) {
+      return res.status(400).json({
+        success: false,
+        message: 'The selected saved address was not found'
+      });
+    }
+
+    const shippingInput = parseAddressInput(savedShippingAddress || orderData.shippingAddress);
+    const billingInput = orderData.billingAddress && !orderData.billingAddressId
+      ? parseAddressInput(orderData.billingAddress)
+      : null;
+
+    if (!shippingInput.address || (billingInput && !billingInput.address)) {
+      return res.status(400).json({
+        success: false,
+        message: `Please check your address: ${[...shippingInput.errors, ...(billingInput?.errors || [])].join(', ')}`
+      });
+    }
+    const shippingAddress = shippingInput.address;
+
+    if (hasRawCardData(orderData)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Card details must not be sent to the store. Please pay with a payment token.'
+      });
+    }
+
+    const isCashOnDelivery = orderData.paymentMethod === 'cash_on_delivery';
+    if (!isCashOnDelivery && (typeof orderData.paymentToken !== 'string' || !orderData.paymentToken)) {
+      return res.status(400).json({
+        success: false,
+        message: 'A payment token is required'
+      });
+    }
+
+    const customer: PromotionCustomer = { userId, email: orderData.customerEmail };
+
+    // Price the order on the server - client totals are only used for comparison
+    const pricing: OrderPricing = await quoteOrder({
+      items: orderData.items,
+      deliveryMethodId: orderData.deliveryMethodId,
+      paymentMethod: orderData.paymentMethod,
+      destination: toTaxDestination(shippingAddress),
+      couponCode: orderData.couponCode,
+      customer,
+      currency: orderData.currency
+    });
+
+    if (pricing.coupon && !pricing.coupon.valid) {
+      return res.status(400).json({
+        success: false,
+        code: 'COUPON_INVALID',
+        message: pricing.coupon.message,
+        data: {
+          coupon: pricing.coupon
+        }
+      });
+    }
+
+    const mismatches = findPriceMismatches(pricing, orderData);
+    if (mismatches.length > 0) {
+      return res.status(409).json({
+        success: false,
+        code: 'PRICE_CHANGED',
+        message: 'Prices have changed since you started checkout. Please review the updated totals and confirm again.',
+        data: {
+          mismatches,
+          pricing
+        }
+      });
+    }
+
+    // Only the browser that saved the checkout can mark it completed
+    const checkoutDraftId = verifyCheckoutDraftToken(orderData.checkoutDraftToken, orderData.checkoutDraftId)
+      ? orderData.checkoutDraftId!
+      : null;
+
+    // Write the order, its items and the payment record in one transaction
+    const { orderId, paymentId, reservedUntil } = await withTransaction(async (client) => {
+      // 1. Record the addresses - typed ones are matched against the customer's address book
+      const shippingAddressId = await resolveOrderAddress(client, userId, 'shipping', {
+        addressId: savedShippingAddress?.id,
+        address: shippingAddress,
+        save: orderData.saveShippingAddress === true
+      });
+      const billingAddressId = orderData.billingAddressId || billingInput?.address
+        ? await resolveOrderAddress(client, userId, 'billing', {
+          addressId: orderData.billingAddressId,
+          address: billingInput?.address || shippingAddress,
+          save: orderData.saveBillingAddress === true
+        })
+        : shippingAddressId;
+
+      // 2. Create order
+      const orderResult = await client.query(
+        `INSERT INTO orders (
+          user_id, shipping_address_id, billing_address_id, delivery_method_id,
+          subtotal, shipping_cost, discount_amount, tax_amount, cod_fee, total, status, payment_method,
+          order_notes, customer_email, promotion_id, promotion_code, currency, exchange_rate,
+          base_subtotal, base_shipping_cost, base_discount_amount, base_tax_amount, base_cod_fee, base_total
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'pending', $11, $12, $13, $14, $15, $16, $17,
+          $18, $19, $20, $21, $22, $23)
+        RETURNING id`,
+        [
+          userId,
+          shippingAddressId,
+          billingAddressId,
+          orderData.deliveryMethodId,
+          pricing.subtotal,
+          pricing.shippingCost,
+          pricing.discountAmount,
+          pricing.taxAmount,
+          pricing.codFee,
+          pricing.total,
+          orderData.paymentMethod,
+          orderData.orderNotes || null,
+          orderData.customerEmail,
+          pricing.coupon?.discount?.promotionId || null,
+          pricing.coupon?.discount?.code || null,
+          pricing.currency,
+          pricing.exchangeRate,
+          pricing.base.subtotal,
+          pricing.base.shippingCost,
+          pricing.base.discountAmount,
+          pricing.base.taxAmount,
+          pricing.base.codFee,
+          pricing.base.total
+        ]
+      );
+
+      const newOrderId = orderResult.rows[0].id;
+      await recordStatusChange(client, newOrderId, null, 'pending', { type: 'customer', userId }, 'Order placed');
+
+      // 3. Take stock - card and PayPal orders hold their units until payment arrives,
+      // cash on delivery orders keep them straight away
+      const holdMinutes = orderData.paymentMethod === 'cash_on_delivery' ? null : RESERVATION_TTL_MINUTES;
+      const expiresAt = await reserveStock(client, newOrderId, pricing.items, holdMinutes);
+
+      // 4. Create order items
+      for (const item of pricing.items) {
+        await client.query(
+          `INSERT INTO order_items (order_id, product_id, quantity, unit_price, discount_amount, tax_amount)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [newOrderId, item.productId, item.quantity, item.unitPrice, item.discountAmount, item.taxAmount]
+        );
+      }
+
+      // 5. Keep the applied tax rates with the order so later documents stay correct
+      for (const line of pricing.taxLines) {
+        await client.query(
+          `INSERT INTO order_tax_lines (order_id, tax_rule_id, name, jurisdiction, rate, taxable_amount, amount)
+           VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+          [newOrderId, line.ruleId, line.name, line.jurisdiction, line.rate, line.taxableAmount, line.amount]
+        );
+      }
+
+      // 6. Record the coupon use - limits are checked again under a lock
+      if (pricing.coupon?.discount) {
+        await redeemPromotion(client, newOrderId, pricing.coupon.discount, customer);
+      }
+
+      // 7. Create payment record
+      const paymentResult = await client.query(
+        `INSERT INTO payments (order_id, amount, currency, provider, status, payment_method)
+         VALUES ($1, $2, $3, $4, 'initiated', $5)
+         RETURNING id`,
+        [newOrderId, pricing.total, pricing.currency, resolveProviderName(orderData.paymentMethod), orderData.paymentMethod]
+      );
+
+      // 8. Confirm the order by email once it is committed
+      await queueOrderEmail(client, newOrderId, { template: 'order_placed' });
+
+      // 9. Close the saved checkout so it is not chased as abandoned
+      if (checkoutDraftId) {
+        await markCheckoutDraftConverted(client, checkoutDraftId, newOrderId);
+      }
+
+      return { orderId: newOrderId as string, paymentId: paymentResult.rows[0].id as string, reservedUntil: expiresAt };
+    });
+
+    // Take the payment once the order exists - a decline leaves the order
+    // pending so the customer can try another card before the hold expires
+    let payment: PaymentAttemptResult | null = null;
+    if (!isCashOnDelivery) {
+      try {
+        payment = await withTransaction(client => authorizePayment(client, paymentId, orderData.paymentToken!));
+      } catch (paymentError) {
+        console.error('Error authorizing payment:', paymentError);
+        payment = {
+          paymentId,
+          status: 'initiated',
+          failureReason: 'We could not reach the payment provider. Please try again.'
+        };
+      }
+    }
+
+    // Get delivery method for response
+    const deliveryResult = await query(
+      'SELECT name, estimated_days, min_business_days, max_business_days, cutoff_hour FROM delivery_methods WHERE id = $1',
+      [orderData.deliveryMethodId]
+    );
+
+    const deliveryMethod = deliveryResult.rows[0];
+    const deliveryEstimate = await estimateDelivery(mapDeliveryWindowRow(deliveryMethod));
+
+    // Return order confirmation
+    return res.status(201).json({
+      success: true,
+      message: 'Order created successfully',
+      data: {
+        orderId,
+        orderNumber: orderId.substring(0, 8).toUpperCase(),
+        // Lets a guest reopen the order - signed-in owners do not need it
+        accessToken: createOrderAccessToken(orderId),
+        status: payment?.status === 'success' ? 'paid' : 'pending',
+        currency: pricing.currency,
+        total: pricing.total,
+        subtotal: pricing.subtotal,
+        shippingCost: pricing.shippingCost,
+        discountAmount: pricing.discountAmount,
+        promotionCode: pricing.coupon?.discount?.code || null,
+        taxAmount: pricing.taxAmount,
+        taxLines: pricing.taxLines,
+        codFee: pricing.codFee,
+        items: pricing.items,
+        pricing,
+        shippingAddress: {
+          ...shippingAddress,
+          email: orderData.customerEmail,
+          formattedLines: formatAddressLines(shippingAddress)
+        },
+        deliveryMethod: {
+          name: deliveryMethod.name,
+          estimatedDays: deliveryMethod.estimated_days
+        },
+        paymentMethod: orderData.paymentMethod,
+        createdAt: new Date().toISOString(),
+        estimatedDelivery: deliveryEstimate.latest,
+        deliveryEstimate,
+        reservedUntil: reservedUntil ? reservedUntil.toISOString() : null,
+        payment
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof StockConflictError) {
+      return res.status(409).json({
+        success: false,
+        code: 'INSUFFICIENT_STOCK',
+        message: error.message,
+        data: {
+          conflicts: error.conflicts
+        }
+      });
+    }
+
+    const statusCode = (error as CustomError).statusCode;
+    if (statusCode) {
+      return res.status(statusCode).json({
+        success: false,
+        message: (error as Error).message
+      });
+    }
+
+    console.error('Error creating order:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to create order'
+    });
+  }
+}));
+
+/**
+ * GET /api/orders
+ * List the signed-in user's orders, newest first
+ * Supports ?status= filtering and page/limit pagination.
+ */
+router.get('/', authenticateToken, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { status = 'all', page = 1, limit = 10 } = req.query;
+
+    const queryParams: any[] = [userId];
+    let statusCondition = '';
+
+    if (status && status !== 'all') {
+      statusCondition = 'AND o.status = $2';
+      queryParams.push(status);
+    }
+
+    const pageNum = Math.max(1, parseInt(page as string) || 1);
+    const limitNum = Math.min(50, Math.max(1, parseInt(limit as string) || 10));
+    const offset = (pageNum - 1) * limitNum;
+
+    const countResult = await query(
+      `SELECT COUNT(*) as total FROM orders o WHERE o.user_id = $1 ${statusCondition}`,
+      queryParams
+    );
+    const totalOrders = parseInt(countResult.rows[0].total);
+
+    const ordersResult = await query(
+      `SELECT o.id, o.status, o.currency, o.total, o.payment_method, o.created_at,
+              dm.name as delivery_name,
+              COALESCE((
+                SELECT SUM(r.amount) FROM refunds r WHERE r.order_id = o.id AND r.status <> 'failed'
+              ), 0) as refunded_amount
+       FROM orders o
+       LEFT JOIN delivery_methods dm ON o.delivery_method_id = dm.id
+       WHERE o.user_id = $1 ${statusCondition}
+       ORDER BY o.created_at DESC
+       LIMIT $${queryParams.length + 1} OFFSET $${queryParams.length + 2}`,
+      [...queryParams, limitNum, offset]
+    );
+
+    // Items of every order on the page in one query
+    const orderIds = ordersResult.rows.map(order => order.id);
+    const itemsByOrder: { [orderId: string]: any[] } = {};
+
+    if (orderIds.length > 0) {
+      const itemsResult = await query(
+        `SELECT oi.order_id, oi.quantity, oi.unit_price, p.id as product_id, p.name, p.image_url
+         FROM order_items oi
+         LEFT JOIN products p ON oi.product_id = p.id
+         WHERE oi.order_id = ANY($1)
+         ORDER BY oi.order_id, p.name`,
+        [orderIds]
+      );
+
+      itemsResult.rows.forEach(item => {
+        if (!itemsByOrder[item.order_id]) {
+          itemsByOrder[item.order_id] = [];
+        }
+        itemsByOrder[item.order_id].push({
+          productId: item.product_id,
+          name: item.name,
+          quantity: item.quantity,
+          unitPrice: parseFloat(item.unit_price),
+          image: item.image_url
+        });
+      });
+    }
+
+    const totalPages = Math.ceil(totalOrders / limitNum);
+
+    return res.json({
+      success: true,
+      data: {
+        orders: ordersResult.rows.map(order => {
+          const items = itemsByOrder[order.id] || [];
+          return {
+            orderId: order.id,
+            orderNumber: order.id.substring(0, 8).toUpperCase(),
+            status: order.status,
+            currency: order.currency.trim(),
+            total: parseFloat(order.total),
+            refundedAmount: parseFloat(order.refunded_amount),
+            paymentMethod: order.payment_method,
+            deliveryMethod: order.delivery_name,
+            itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+            items,
+            createdAt: order.created_at
+          };
+        }),
+        pagination: {
+          currentPage: pageNum,
+          totalPages,
+          totalOrders,
+          hasNextPage: pageNum < totalPages,
+          hasPrevPage: pageNum > 1,
+          limit: limitNum
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching orders:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to fetch orders'
+    });
+  }
+}));
+
+// Order lookups send email, so they get a much tighter limit than the API default
+const lookupLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 5,
+  message: {
+    success: false,
+    message: 'Too many order lookups, please try again later.'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+/**
+ * POST /api/orders/lookup
+ * Send a link to an order to the email it was placed with
+ * Always answers the same way so it cannot be used to probe for orders.
+ */
+router.post('/lookup', lookupLimiter, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { orderNumber, email } = req.body;
+
+    if (typeof orderNumber !== 'string' || !/^[0-9a-f]{8}$/i.test(orderNumber.trim().replace(/^#/, ''))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Please enter the 8-character order number from your confirmation'
+      });
+    }
+
+    if (typeof email !== 'string' || !email.includes('@')) {
+      return res.status(400).json({
+        success: false,
+        message: 'Please enter the email address used for the order'
+      });
+    }
+
+    const ordersResult = await query(
+      `SELECT id FROM orders
+       WHERE UPPER(SUBSTRING(id::text, 1, 8)) = $1 AND LOWER(customer_email) = LOWER($2)`,
+      [orderNumber.trim().replace(/^#/, '').toUpperCase(), email.trim()]
+    );
+
+    for (const order of ordersResult.rows) {
+      await queueOrderEmail({ query }, order.id, {
+        template: 'order_lookup',
+        orderUrl: buildOrderAccessUrl(order.id, createOrderAccessToken(order.id, true)),
+        expiresInHours: LOOKUP_TOKEN_TTL_HOURS
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'If an order matches those details, a link to it has been sent to that email address'
+    });
+
+  } catch (error) {
+    console.error('Error looking up order:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to look up order'
+    });
+  }
+}));
+
+/**
+ * POST /api/orders/:id/cancel
+ * Cancel an order that has not been processed yet
+ * Open to the order's owner and to guests holding its access token (?token=).
+ * The stock goes back on sale and a taken payment is flagged for refund.
+ */
+router.post('/:id/cancel', optionalAuth, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { reason, note } = req.body;
+    const token = typeof req.query.token === 'string' ? req.query.token : undefined;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found'
+      });
+    }
+
+    if (typeof reason !== 'string' || !CANCELLATION_REASONS[reason]) {
+      return res.status(400).json({
+        success: false,
+        message: 'Please choose a reason. Valid reasons are: ' + Object.keys(CANCELLATION_REASONS).join(', ')
+      });
+    }
+
+    if (note !== undefined && note !== null && (typeof note !== 'string' || note.length > 500)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Note must be text of at most 500 characters'
+      });
+    }
+
+    if (reason === 'other' && !note?.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Please tell us why you are cancelling'
+      });
+    }
+
+    const orderResult = await query('SELECT id, user_id FROM orders WHERE id = $1', [id]);
+
+    if (orderResult.rows.length === 0 || !canAccessOrder(orderResult.rows[0], req.user, token)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found'
+      });
+    }
+
+    const orderNumber = id.substring(0, 8).toUpperCase();
+    const reasonText = note?.trim()
+      ? `${CANCELLATION_REASONS[reason]}: ${note.trim()}`
+      : CANCELLATION_REASONS[reason];
+
+    const { order: cancelledOrder, from } = await withTransaction(async (client) => {
+      const lockedResult = await client.query('SELECT status FROM orders WHERE id = $1 FOR UPDATE', [id]);
+      const currentStatus = lockedResult.rows[0].status;
+
+      if (!CUSTOMER_CANCELLABLE_STATUSES.includes(currentStatus)) {
+        throw createError(
+          currentStatus === 'cancelled'
+            ? 'This order has already been cancelled'
+            : `This order is already ${currentStatus} and can no longer be cancelled online. Please contact us for help.`,
+          409
+        );
+      }
+
+      const { order, from } = await transitionOrder(
+        client,
+        id,
+        'cancelled',
+        { type: 'customer', userId: req.user?.id || null },
+        reasonText
+      );
+
+      await notifyAdmins(
+        client,
+        'order_cancelled_by_customer',
+        `Order #${orderNumber} (${order.customer_email}) was cancelled by the customer - ${reasonText}`,
+        id
+      );
+
+      return { order, from };
+    });
+
+    return res.json({
+      success: true,
+      message: 'Your order has been cancelled',
+      data: {
+        orderId: cancelledOrder.id,
+        orderNumber,
+        status: cancelledOrder.status,
+        // Only orders that were paid need money sent back
+        refundPending: from === 'paid'
+      }
+    });
+
+  } catch (error) {
+    const statusCode = (error as CustomError).statusCode;
+    if (statusCode) {
+      return res.status(statusCode).json({
+        success: false,
+        code: statusCode === 409 ? 'ORDER_NOT_CANCELLABLE' : undefined,
+        message: (error as Error).message
+      });
+    }
+
+    console.error('Error cancelling order:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to cancel order'
+    });
+  }
+}));
+
+// Reply for a payment attempt - a decline is a 402 the customer can retry
+const sendPaymentResult = (res: Response, payment: PaymentAttemptResult) => {
+  if (payment.status === 'failed') {
+    return res.status(402).json({
+      success: false,
+      code: 'PAYMENT_DECLINED',
+      message: payment.failureReason || 'Payment declined',
+      data: { payment }
+    });
+  }
+
+  return res.json({
+    success: true,
+    message: payment.status === 'success' ? 'Payment received' : 'Please confirm the payment with your bank',
+    data: { payment }
+  });
+};
+
+/**
+ * POST /api/orders/:id/payments
+ * Pay a pending order again with a new payment token, e.g. after a decline
+ */
+router.post('/:id/payments', optionalAuth, idempotency(), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { paymentToken } = req.body;
+    const token = typeof req.query.token === 'string' ? req.query.token : undefined;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found'
+      });
+    }
+
+    if (hasRawCardData(req.body)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Card details must not be sent to the store. Please pay with a payment token.'
+      });
+    }
+
+    if (typeof paymentToken !== 'string' || !paymentToken) {
+      return res.status(400).json({
+        success: false,
+        message: 'A payment token is required'
+      });
+    }
+
+    const orderResult = await query('SELECT id, user_id FROM orders WHERE id = $1', [id]);
+
+    if (orderResult.rows.length === 0 || !canAccessOrder(orderResult.rows[0], req.user, token)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found'
+      });
+    }
+
+    const payment = await withTransaction(client => retryOrderPayment(client, id, paymentToken));
+
+    return sendPaymentResult(res, payment);
+
+  } catch (error) {
+    const statusCode = (error as CustomError).statusCode;
+    if (statusCode) {
+      return res.status(statusCode).json({
+        success: false,
+        message: (error as Error).message
+      });
+    }
+
+    console.error('Error retrying payment:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to process payment'
+    });
+  }
+}));
+
 /**
- * POST /api/orders
- * Create a new order
+ * POST /api/orders/:id/payments/:paymentId/challenge
+ * Answer the bank's confirmation step for a payment (3-D Secure style)
  */
-// Option 1: Required Authentication (current implementation)
-// router.post('/', authenticateToken, asyncHandler(async (req: Request, res: Response) => {
-//   const userId = req.user!.id; // Required - user must be authenticated
-
-// Option 2: Optional Authentication (supports guest checkout)
-router.post('/', optionalAuth, asyncHandler(async (req: Request, res: Response) => {
+router.post('/:id/payments/:paymentId/challenge', optionalAuth, asyncHandler(async (req: Request, res: Response) => {
   try {
-    const orderData: CreateOrderRequest = req.body;
-    const userId = req.user?.id || null; // Optional - supports guest checkout
+    const { id, paymentId } = req.params;
+    const { response } = req.body;
+    const token = typeof req.query.token === 'string' ? req.query.token : undefined;
 
-    // Validate required fields
-    if (!orderData.items || orderData.items.length === 0) {
-      return res.status(400).json({
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id) || !uuidRegex.test(paymentId)) {
+      return res.status(404).json({
         success: false,
-        message: 'Order must contain at least one item'
+        message: 'Payment not found'
       });
     }
 
-    if (!orderData.shippingAddress || !orderData.customerEmail) {
+    if (typeof response !== 'string' || !response.trim()) {
       return res.status(400).json({
         success: false,
-        message: 'Shipping address and email are required'
+        message: 'A confirmation response is required'
       });
     }
 
-    // Start transaction
-    await query('BEGIN');
+    const paymentResult = await query(
+      `SELECT o.id, o.user_id
+       FROM payments p
+       JOIN orders o ON p.order_id = o.id
+       WHERE p.id = $1 AND o.id = $2`,
+      [paymentId, id]
+    );
 
-    try {
-      // 1. Create shipping address
-      const addressResult = await query(
-        `INSERT INTO addresses (user_id, type, full_name, phone, address_line_1, address_line_2, city, state, postal_code, country)
-         VALUES ($1, 'shipping', $2, $3, $4, $5, $6, $7, $8, $9)
-         RETURNING id`,
-        [
-          userId,
-          orderData.shippingAddress.fullName,
-          orderData.shippingAddress.phone,
-          orderData.shippingAddress.addressLine1,
-          orderData.shippingAddress.addressLine2 || null,
-          orderData.shippingAddress.city,
-          orderData.shippingAddress.state,
-          orderData.shippingAddress.postalCode,
-          orderData.shippingAddress.country
-        ]
-      );
+    if (paymentResult.rows.length === 0 || !canAccessOrder(paymentResult.rows[0], req.user, token)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Payment not found'
+      });
+    }
 
-      const shippingAddressId = addressResult.rows[0].id;
+    const payment = await withTransaction(client => completePaymentChallenge(client, paymentId, response));
 
-      // 2. Create order
-      const orderResult = await query(
-        `INSERT INTO orders (
-          user_id, shipping_address_id, billing_address_id, delivery_method_id,
-          subtotal, shipping_cost, tax_amount, cod_fee, total, status, payment_method,
-          order_notes, customer_email
-        ) VALUES ($1, $2, $2, $3, $4, $5, $6, $7, $8, 'pending', $9, $10, $11)
-        RETURNING id`,
-        [
-          userId,
-          shippingAddressId,
-          orderData.deliveryMethodId,
-          orderData.subtotal,
-          orderData.shippingCost,
-          orderData.taxAmount,
-          orderData.codFee || 0,
-          orderData.total,
-          orderData.paymentMethod,
-          orderData.orderNotes || null,
-          orderData.customerEmail
-        ]
-      );
+    return sendPaymentResult(res, payment);
 
-      const orderId = orderResult.rows[0].id;
+  } catch (error) {
+    const statusCode = (error as CustomError).statusCode;
+    if (statusCode) {
+      return res.status(statusCode).json({
+        success: false,
+        message: (error as Error).message
+      });
+    }
 
-      // 3. Create order items
-      for (const item of orderData.items) {
-        await query(
-          'INSERT INTO order_items (order_id, product_id, quantity, unit_price) VALUES ($1, $2, $3, $4)',
-          [orderId, item.productId, item.quantity, item.unitPrice]
-        );
+    console.error('Error confirming payment:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to confirm payment'
+    });
+  }
+}));
 
-        // Update product stock
-        await query(
-          'UPDATE products SET stock = stock - $1 WHERE id = $2',
-          [item.quantity, item.productId]
-        );
+/**
+ * GET /api/orders/:id/shipments
+ * Get an order's shipments with carrier tracking links, and the items not
+ * shipped yet while the order is being fulfilled
+ * Open to the order's owner and to guests holding its access token (?token=).
+ */
+router.get('/:id/shipments', optionalAuth, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const token = typeof req.query.token === 'string' ? req.query.token : undefined;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found'
+      });
+    }
+
+    const orderResult = await query('SELECT id, user_id, status FROM orders WHERE id = $1', [id]);
+
+    if (orderResult.rows.length === 0 || !canAccessOrder(orderResult.rows[0], req.user, token)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found'
+      });
+    }
+
+    // Units still to ship only mean something while the order is being fulfilled
+    const isFulfilling = FULFILLMENT_QUEUE_STATUSES.includes(orderResult.rows[0].status);
+
+    const [shipments, shippableItems] = await Promise.all([
+      getShipments(id),
+      isFulfilling ? getShippableItems(id) : Promise.resolve([])
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        shipments,
+        unshippedItems: shippableItems.filter(item => item.unshippedQuantity > 0)
       }
+    });
 
-      // 4. Create payment record
-      await query(
-        `INSERT INTO payments (order_id, amount, provider, status, payment_method)
-         VALUES ($1, $2, $3, 'initiated', $4)`,
-        [orderId, orderData.total, orderData.paymentMethod, orderData.paymentMethod]
-      );
+  } catch (error) {
+    console.error('Error fetching shipments:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to fetch shipments'
+    });
+  }
+}));
 
-      // Commit transaction
-      await query('COMMIT');
+/**
+ * GET /api/orders/:id/documents
+ * Get the invoice and credit notes issued for an order
+ * Open to the order's owner and to guests holding its access token (?token=).
+ */
+router.get('/:id/documents', optionalAuth, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const token = typeof req.query.token === 'string' ? req.query.token : undefined;
 
-      // Get delivery method for response
-      const deliveryResult = await query(
-        'SELECT name, estimated_days FROM delivery_methods WHERE id = $1',
-        [orderData.deliveryMethodId]
-      );
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found'
+      });
+    }
+
+    const orderResult = await query('SELECT id, user_id FROM orders WHERE id = $1', [id]);
+
+    if (orderResult.rows.length === 0 || !canAccessOrder(orderResult.rows[0], req.user, token)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found'
+      });
+    }
 
-      const deliveryMethod = deliveryResult.rows[0];
+    const documents = await getOrderDocuments(id);
 
-      // Calculate estimated delivery date
-      const estimatedDelivery = new Date();
-      const days = parseInt(deliveryMethod.estimated_days.split('-')[1] || '7');
-      estimatedDelivery.setDate(estimatedDelivery.getDate() + days);
+    return res.json({
+      success: true,
+      data: documents
+    });
 
-      // Return order confirmation
-      return res.status(201).json({
-        success: true,
-        message: 'Order created successfully',
-        data: {
-          orderId,
-          orderNumber: orderId.substring(0, 8).toUpperCase(),
-          status: 'pending',
-          total: orderData.total,
-          subtotal: orderData.subtotal,
-          shippingCost: orderData.shippingCost,
-          taxAmount: orderData.taxAmount,
-          codFee: orderData.codFee || 0,
-          items: orderData.items,
-          shippingAddress: orderData.shippingAddress,
-          deliveryMethod: {
-            name: deliveryMethod.name,
-            estimatedDays: deliveryMethod.estimated_days
-          },
-          paymentMethod: orderData.paymentMethod,
-          createdAt: new Date().toISOString(),
-          estimatedDelivery: estimatedDelivery.toISOString()
-        }
+  } catch (error) {
+    console.error('Error fetching order documents:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to fetch documents'
+    });
+  }
+}));
+
+/**
+ * GET /api/orders/:id/documents/:documentId/pdf
+ * Download an invoice or credit note of an order as a PDF
+ * Open to the order's owner and to guests holding its access token (?token=).
+ */
+router.get('/:id/documents/:documentId/pdf', optionalAuth, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id, documentId } = req.params;
+    const token = typeof req.query.token === 'string' ? req.query.token : undefined;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id) || !uuidRegex.test(documentId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Document not found'
       });
+    }
 
-    } catch (error) {
-      // Rollback transaction on error
-      await query('ROLLBACK');
-      throw error;
+    const orderResult = await query('SELECT id, user_id FROM orders WHERE id = $1', [id]);
+    const document = await getBillingDocument(documentId);
+
+    if (
+      orderResult.rows.length === 0 ||
+      !canAccessOrder(orderResult.rows[0], req.user, token) ||
+      !document ||
+      document.orderId !== id
+    ) {
+      return res.status(404).json({
+        success: false,
+        message: 'Document not found'
+      });
     }
 
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${document.number}.pdf"`);
+    return res.send(renderDocumentsPdf([document], document.number));
+
   } catch (error) {
-    console.error('Error creating order:', error);
+    console.error('Error generating order document:', error);
     return res.status(500).json({
       success: false,
-      message: 'Failed to create order'
+      message: 'Failed to generate document'
+    });
+  }
+}));
+
+/**
+ * GET /api/orders/:id/returns
+ * Get an order's return requests and the items that can still be returned
+ * Open to the order's owner and to guests holding its access token (?token=).
+ */
+router.get('/:id/returns', optionalAuth, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const token = typeof req.query.token === 'string' ? req.query.token : undefined;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found'
+      });
+    }
+
+    const orderResult = await query('SELECT id, user_id, status FROM orders WHERE id = $1', [id]);
+
+    if (orderResult.rows.length === 0 || !canAccessOrder(orderResult.rows[0], req.user, token)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found'
+      });
+    }
+
+    const isReturnable = RETURNABLE_ORDER_STATUSES.includes(orderResult.rows[0].status);
+
+    const [returns, returnableItems] = await Promise.all([
+      getReturnRequests({ orderId: id }),
+      isReturnable ? getReturnableItems(id) : Promise.resolve([])
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        returns: returns.map(request => ({
+          ...request,
+          // Staff notes stay internal unless they explain a rejection
+          adminNote: request.status === 'rejected' ? request.adminNote : null
+        })),
+        returnableItems: returnableItems.filter(item => item.returnableQuantity > 0)
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching returns:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to fetch returns'
+    });
+  }
+}));
+
+/**
+ * POST /api/orders/:id/returns
+ * Ask to send back items from a delivered order
+ * Each item carries its own quantity, reason and condition, so part of a line
+ * can be returned. Open to the owner and to access token holders (?token=).
+ */
+router.post('/:id/returns', optionalAuth, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { items, note } = req.body;
+    const token = typeof req.query.token === 'string' ? req.query.token : undefined;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found'
+      });
+    }
+
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Choose at least one item to return'
+      });
+    }
+
+    for (const item of items as ReturnItemInput[]) {
+      if (!item || typeof item.orderItemId !== 'string' || !uuidRegex.test(item.orderItemId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Each item needs a valid orderItemId'
+        });
+      }
+      if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+        return res.status(400).json({
+          success: false,
+          message: 'Quantities must be whole numbers of at least 1'
+        });
+      }
+      if (typeof item.reason !== 'string' || !RETURN_REASONS[item.reason]) {
+        return res.status(400).json({
+          success: false,
+          message: 'Please choose a reason for each item. Valid reasons are: ' + Object.keys(RETURN_REASONS).join(', ')
+        });
+      }
+      if (typeof item.condition !== 'string' || !ITEM_CONDITIONS[item.condition]) {
+        return res.status(400).json({
+          success: false,
+          message: 'Please give the condition of each item. Valid conditions are: ' + Object.keys(ITEM_CONDITIONS).join(', ')
+        });
+      }
+    }
+
+    const orderItemIds = (items as ReturnItemInput[]).map(item => item.orderItemId);
+    if (new Set(orderItemIds).size !== orderItemIds.length) {
+      return res.status(400).json({
+        success: false,
+        message: 'Each item can only be listed once'
+      });
+    }
+
+    if (note !== undefined && note !== null && (typeof note !== 'string' || note.length > 1000)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Note must be text of at most 1000 characters'
+      });
+    }
+
+    const orderResult = await query('SELECT id, user_id FROM orders WHERE id = $1', [id]);
+
+    if (orderResult.rows.length === 0 || !canAccessOrder(orderResult.rows[0], req.user, token)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found'
+      });
+    }
+
+    const orderNumber = id.substring(0, 8).toUpperCase();
+
+    const returnId = await withTransaction(async (client) => {
+      const newReturnId = await createReturnRequest(
+        client,
+        id,
+        req.user?.id || null,
+        (items as ReturnItemInput[]).map(item => ({
+          orderItemId: item.orderItemId,
+          quantity: item.quantity,
+          reason: item.reason,
+          condition: item.condition
+        })),
+        note?.trim() || null
+      );
+
+      await notifyAdmins(
+        client,
+        'return_requested',
+        `Return ${formatRmaNumber(newReturnId)} requested for order #${orderNumber}`,
+        id
+      );
+
+      return newReturnId;
+    });
+
+    const [created] = await getReturnRequests({ returnId });
+
+    return res.status(201).json({
+      success: true,
+      message: `Return ${created.rmaNumber} requested. We will review it shortly.`,
+      data: { ...created, adminNote: null }
+    });
+
+  } catch (error) {
+    const statusCode = (error as CustomError).statusCode;
+    if (statusCode) {
+      return res.status(statusCode).json({
+        success: false,
+        message: (error as Error).message
+      });
+    }
+
+    console.error('Error requesting return:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to request return'
     });
   }
 }));
@@ -196,10 +1240,20 @@ router.post('/', optionalAuth, asyncHandler(async (req: Request, res: Response)
 /**
  * GET /api/orders/:id
  * Get order details by ID
+ * Available to the order's owner, admins, and holders of an access token (?token=).
  */
-router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+router.get('/:id', optionalAuth, asyncHandler(async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
+    const token = typeof req.query.token === 'string' ? req.query.token : undefined;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found'
+      });
+    }
 
     // Get order with related data
     const orderResult = await query(
@@ -207,7 +1261,8 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
         o.*,
         a.full_name, a.phone, a.address_line_1, a.address_line_2,
         a.city, a.state, a.postal_code, a.country,
-        dm.name as delivery_name, dm.estimated_days
+        dm.name as delivery_name, dm.estimated_days,
+        dm.min_business_days, dm.max_business_days, dm.cutoff_hour
        FROM orders o
        LEFT JOIN addresses a ON o.shipping_address_id = a.id
        LEFT JOIN delivery_methods dm ON o.delivery_method_id = dm.id
@@ -215,7 +1270,8 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
       [id]
     );
 
-    if (orderResult.rows.length === 0) {
+    // Orders the caller may not see are reported as missing so ids cannot be probed
+    if (orderResult.rows.length === 0 || !canAccessOrder(orderResult.rows[0], req.user, token)) {
       return res.status(404).json({
         success: false,
         message: 'Order not found'
@@ -224,19 +1280,30 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
 
     const order = orderResult.rows[0];
 
-    // Get order items
-    const itemsResult = await query(
-      `SELECT oi.*, p.name, p.image_url
-       FROM order_items oi
-       LEFT JOIN products p ON oi.product_id = p.id
-       WHERE oi.order_id = $1`,
-      [id]
-    );
+    // Get order items, the tax rates applied when it was placed and the status timeline
+    const [itemsResult, taxLinesResult, statusHistory, refundSummary] = await Promise.all([
+      query(
+        `SELECT oi.*, p.name, p.image_url
+         FROM order_items oi
+         LEFT JOIN products p ON oi.product_id = p.id
+         WHERE oi.order_id = $1`,
+        [id]
+      ),
+      query(
+        `SELECT tax_rule_id, name, jurisdiction, rate, taxable_amount, amount
+         FROM order_tax_lines
+         WHERE order_id = $1
+         ORDER BY created_at`,
+        [id]
+      ),
+      getStatusHistory(id),
+      getOrderRefunds(id)
+    ]);
 
-    // Calculate estimated delivery
-    const estimatedDelivery = new Date(order.created_at);
-    const days = parseInt(order.estimated_days?.split('-')[1] || '7');
-    estimatedDelivery.setDate(estimatedDelivery.getDate() + days);
+    // Orders whose delivery method was removed have nothing to estimate from
+    const deliveryEstimate = order.min_business_days === null
+      ? null
+      : await estimateDelivery(mapDeliveryWindowRow(order), new Date(order.created_at));
 
     return res.json({
       success: true,
@@ -244,10 +1311,21 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
         orderId: order.id,
         orderNumber: order.id.substring(0, 8).toUpperCase(),
         status: order.status,
+        currency: order.currency.trim(),
         total: parseFloat(order.total),
         subtotal: parseFloat(order.subtotal),
         shippingCost: parseFloat(order.shipping_cost),
+        discountAmount: parseFloat(order.discount_amount || '0'),
+        promotionCode: order.promotion_code,
         taxAmount: parseFloat(order.tax_amount),
+        taxLines: taxLinesResult.rows.map(line => ({
+          ruleId: line.tax_rule_id,
+          name: line.name,
+          jurisdiction: line.jurisdiction,
+          rate: parseFloat(line.rate),
+          taxableAmount: parseFloat(line.taxable_amount),
+          amount: parseFloat(line.amount)
+        })),
         codFee: parseFloat(order.cod_fee || '0'),
         items: itemsResult.rows.map(item => ({
           id: item.id,
@@ -265,15 +1343,41 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
           city: order.city,
           state: order.state,
           postalCode: order.postal_code,
-          country: order.country
+          country: order.country,
+          formattedLines: formatAddressLines({
+            addressLine1: order.address_line_1,
+            addressLine2: order.address_line_2,
+            city: order.city,
+            state: order.state,
+            postalCode: order.postal_code,
+            country: order.country
+          })
         },
         deliveryMethod: {
           name: order.delivery_name,
           estimatedDays: order.estimated_days
         },
         paymentMethod: order.payment_method,
+        // Staff names stay internal - customers see whether the store, the system or they made a change
+        statusHistory: statusHistory.map(entry => ({
+          fromStatus: entry.fromStatus,
+          toStatus: entry.toStatus,
+          actorType: entry.actorType,
+          reason: entry.reason,
+          createdAt: entry.createdAt
+        })),
+        // Failed attempts are an internal matter - customers see money that is on its way back
+        refundedAmount: refundSummary.refundedAmount,
+        refunds: refundSummary.refunds
+          .filter(refund => refund.status !== 'failed')
+          .map(refund => ({
+            amount: refund.amount,
+            status: refund.status,
+            createdAt: refund.createdAt
+          })),
         createdAt: order.created_at,
-        estimatedDelivery: estimatedDelivery.toISOString()
+        estimatedDelivery: deliveryEstimate?.latest || null,
+        deliveryEstimate
       }
     });
 
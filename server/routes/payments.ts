@@ -0,0 +1,95 @@
+import express, { Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { getProviderByName } from '../utils/paymentProviders';
+import { getWebhookSecret, verifyWebhookSignature, WEBHOOK_SIGNATURE_HEADER } from '../utils/webhookSignature';
+import { recordWebhookEvent, processWebhookEvent } from '../utils/paymentWebhooks';
+
+const router = express.Router();
+
+/**
+ * POST /api/payments/webhooks/:provider
+ * Receive a signed event from a payment provider
+ * The body arrives raw so the signature can be checked against it. Events
+ * are stored before they are applied; one that cannot be applied yet is kept
+ * and retried, and a replayed event id is acknowledged without running again.
+ */
+router.post('/webhooks/:provider', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const provider = getProviderByName(req.params.provider);
+
+    if (!provider) {
+      return res.status(404).json({
+        success: false,
+        message: 'Unknown payment provider'
+      });
+    }
+
+    const secret = getWebhookSecret(provider.name);
+    if (!secret) {
+      console.error(`❌ Webhook received for ${provider.name} but no signing secret is configured`);
+      return res.status(503).json({
+        success: false,
+        message: 'Webhooks are not configured for this provider'
+      });
+    }
+
+    const rawBody = Buffer.isBuffer(req.body) ? req.body.toString('utf8') : '';
+    const signature = verifyWebhookSignature(secret, req.get(WEBHOOK_SIGNATURE_HEADER), rawBody);
+
+    if (!signature.valid) {
+      console.warn(`⚠️  Rejected ${provider.name} webhook: ${signature.reason}`);
+      return res.status(400).json({
+        success: false,
+        message: signature.reason
+      });
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return res.status(400).json({
+        success: false,
+        message: 'Body is not valid JSON'
+      });
+    }
+
+    const event = provider.parseWebhook(payload);
+
+    // Event types we do not handle are acknowledged so the provider stops sending them
+    if (!event) {
+      return res.json({
+        success: true,
+        message: 'Event ignored'
+      });
+    }
+
+    const { event: stored, duplicate } = await recordWebhookEvent(provider.name, event, payload);
+
+    if (duplicate && stored.status === 'processed') {
+      return res.json({
+        success: true,
+        message: 'Event already processed',
+        data: { eventId: stored.eventId, status: stored.status, duplicate: true }
+      });
+    }
+
+    const processed = await processWebhookEvent(stored.id);
+
+    // Accepted either way - a failed event is retried from our side
+    return res.status(processed.status === 'processed' ? 200 : 202).json({
+      success: true,
+      message: processed.status === 'processed' ? 'Event processed' : 'Event stored for retry',
+      data: { eventId: processed.eventId, status: processed.status, duplicate }
+    });
+
+  } catch (error) {
+    console.error('Error receiving payment webhook:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to receive webhook'
+    });
+  }
+}));
+
+export default router;
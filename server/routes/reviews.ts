@@ -1,7 +1,7 @@
 import express, { Request, Response } from 'express';
-import { query } from '../config/database';
+import { query, withTransaction } from '../config/database';
 import { authenticateToken, optionalAuth } from '../middleware/auth';
-import { asyncHandler } from '../middleware/errorHandler';
+import { asyncHandler, createError, CustomError } from '../middleware/errorHandler';
 
 const router = express.Router();
 
@@ -252,57 +252,51 @@ router.post('/', authenticateToken, asyncHandler(async (req: Request, res: Respo
       return;
     }
 
-    // Check purchase eligibility
-    const purchaseQuery = `
-      SELECT DISTINCT o.id
-      FROM orders o
-      JOIN order_items oi ON o.id = oi.order_id
-      WHERE o.user_id = $1 
-        AND oi.product_id = $2 
-        AND o.status IN ('paid', 'shipped')
-    `;
-
-    const purchaseResult = await query(purchaseQuery, [userId, product_id]);
-    if (purchaseResult.rows.length === 0) {
-      res.status(403).json({
-        success: false,
-        message: 'You can only review products you have purchased'
-      });
-      return;
-    }
+    const reviewWithUserName = await withTransaction(async (client) => {
+      // Check purchase eligibility
+      const purchaseQuery = `
+        SELECT DISTINCT o.id
+        FROM orders o
+        JOIN order_items oi ON o.id = oi.order_id
+        WHERE o.user_id = $1 
+          AND oi.product_id = $2 
+          AND o.status IN ('paid', 'shipped')
+      `;
+
+      const purchaseResult = await client.query(purchaseQuery, [userId, product_id]);
+      if (purchaseResult.rows.length === 0) {
+        throw createError('You can only review products you have purchased', 403);
+      }
 
-    // Check if user has already reviewed this product
-    const existingReviewResult = await query(
-      'SELECT id FROM product_reviews WHERE user_id = $1 AND product_id = $2',
-      [userId, product_id]
-    );
+      // Check if user has already reviewed this product
+      const existingReviewResult = await client.query(
+        'SELECT id FROM product_reviews WHERE user_id = $1 AND product_id = $2',
+        [userId, product_id]
+      );
 
-    if (existingReviewResult.rows.length > 0) {
-      res.status(409).json({
-        success: false,
-        message: 'You have already reviewed this product'
-      });
-      return;
-    }
+      if (existingReviewResult.rows.length > 0) {
+        throw createError('You have already reviewed this product', 409);
+      }
 
-    // Create the review
-    const insertQuery = `
-      INSERT INTO product_reviews (user_id, product_id, rating, review)
-      VALUES ($1, $2, $3, $4)
-      RETURNING id, user_id, product_id, rating, review, created_at, updated_at
-    `;
+      // Create the review
+      const insertQuery = `
+        INSERT INTO product_reviews (user_id, product_id, rating, review)
+        VALUES ($1, $2, $3, $4)
+        RETURNING id, user_id, product_id, rating, review, created_at, updated_at
+      `;
 
-    const insertResult = await query(insertQuery, [userId, product_id, rating, review || null]);
-    const newReview = insertResult.rows[0];
+      const insertResult = await client.query(insertQuery, [userId, product_id, rating, review || null]);
+      const newReview = insertResult.rows[0];
 
-    // Get user name for response
-    const userResult = await query('SELECT full_name FROM users WHERE id = $1', [userId]);
-    const userName = userResult.rows[0]?.full_name || 'Anonymous';
+      // Get user name for response
+      const userResult = await client.query('SELECT full_name FROM users WHERE id = $1', [userId]);
+      const userName = userResult.rows[0]?.full_name || 'Anonymous';
 
-    const reviewWithUserName = {
-      ...newReview,
-      user_name: userName
-    };
+      return {
+        ...newReview,
+        user_name: userName
+      };
+    });
 
     res.status(201).json({
       success: true,
@@ -313,6 +307,15 @@ router.post('/', authenticateToken, asyncHandler(async (req: Request, res: Respo
     });
 
   } catch (error) {
+    const statusCode = (error as CustomError).statusCode;
+    if (statusCode) {
+      res.status(statusCode).json({
+        success: false,
+        message: (error as Error).message
+      });
+      return;
+    }
+
     console.error('Error creating review:', error);
     
     // Handle unique constraint violation (duplicate review)
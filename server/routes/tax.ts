@@ -0,0 +1,67 @@
+import express, { Request, Response } from 'express';
+import { asyncHandler, CustomError } from '../middleware/errorHandler';
+import { priceItems, PricingItemInput } from '../utils/orderPricing';
+import { quoteTax, TaxDestination } from '../utils/taxEngine';
+
+const router = express.Router();
+
+interface TaxQuoteRequest {
+  items: PricingItemInput[];
+  destination: TaxDestination;
+}
+
+/**
+ * POST /api/tax/quote
+ * Calculate the tax for cart items shipped to a destination
+ */
+router.post('/quote', asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { items, destination }: TaxQuoteRequest = req.body;
+
+    if (!destination || typeof destination.country !== 'string' || !destination.country.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'A destination country is required'
+      });
+    }
+
+    const pricedItems = await priceItems(items);
+
+    const tax = await quoteTax(
+      pricedItems.map(item => ({
+        productId: item.productId,
+        categoryId: item.categoryId,
+        amount: item.lineTotal
+      })),
+      destination
+    );
+
+    const subtotal = pricedItems.reduce((sum, item) => sum + item.lineTotal, 0);
+
+    return res.json({
+      success: true,
+      data: {
+        lines: tax.lines,
+        taxAmount: tax.taxAmount,
+        taxRate: subtotal > 0 ? Math.round((tax.taxAmount / subtotal) * 10000) / 10000 : 0
+      }
+    });
+
+  } catch (error) {
+    const statusCode = (error as CustomError).statusCode;
+    if (statusCode) {
+      return res.status(statusCode).json({
+        success: false,
+        message: (error as Error).message
+      });
+    }
+
+    console.error('Error quoting tax:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to calculate tax'
+    });
+  }
+}));
+
+export default router;
@@ -19,6 +19,12 @@ import { initializeAdminUser } from './utils/initAdmin';
 // Import Supabase Storage setup
 import { setupProductImagesBucket } from './utils/setupSupabaseStorageBucket';
 
+// Import background jobs
+import { startReservationSweeper } from './utils/stockReservations';
+import { startWebhookRetrySweeper } from './utils/paymentWebhooks';
+import { startEmailOutboxSender } from './utils/emailOutbox';
+import { startAbandonedCheckoutSweeper } from './utils/checkoutDrafts';
+
 // Import middleware
 import { errorHandler, notFound } from './middleware/errorHandler';
 
@@ -30,6 +36,11 @@ import productsRoutes from './routes/products';
 import deliveryRoutes from './routes/delivery';
 import ordersRoutes from './routes/orders';
 import reviewsRoutes from './routes/reviews';
+import taxRoutes from './routes/tax';
+import paymentsRoutes from './routes/payments';
+import currenciesRoutes from './routes/currencies';
+import addressesRoutes from './routes/addresses';
+import checkoutDraftsRoutes from './routes/checkoutDrafts';
 
 // Create Express app
 const app: Application = express();
@@ -102,10 +113,13 @@ app.use(cors({
   credentials: true,
   optionsSuccessStatus: 200,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Idempotency-Key'],
+  exposedHeaders: ['Idempotent-Replayed']
 }));
 
 // Body parsing middleware
+// Webhook signatures are checked against the exact bytes received, so keep them raw
+app.use('/api/payments/webhooks', express.raw({ type: 'application/json', limit: '1mb' }));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
@@ -134,6 +148,11 @@ app.use('/api/products', productsRoutes);
 app.use('/api', deliveryRoutes);
 app.use('/api/orders', ordersRoutes);
 app.use('/api/reviews', reviewsRoutes);
+app.use('/api/tax', taxRoutes);
+app.use('/api/payments', paymentsRoutes);
+app.use('/api/currencies', currenciesRoutes);
+app.use('/api/addresses', addressesRoutes);
+app.use('/api/checkout-drafts', checkoutDraftsRoutes);
 
 // API-only server - no static file serving
 // All routes are handled by the API routes above
@@ -220,6 +239,18 @@ const startServer = async (): Promise<void> => {
     // Set up graceful shutdown handlers
     setupGracefulShutdown(server);
 
+    // Release stock held by orders that were never paid
+    startReservationSweeper();
+
+    // Retry payment webhooks that could not be applied on delivery
+    startWebhookRetrySweeper();
+
+    // Send queued transactional emails and retry failed ones
+    startEmailOutboxSender();
+
+    // Email customers who left checkout without ordering
+    startAbandonedCheckoutSweeper();
+
   } catch (error) {
     console.error('❌ Failed to start server:', (error as Error).message);
     process.exit(1);
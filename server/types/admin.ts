@@ -6,7 +6,15 @@ export interface Category {
   created_at: string;
 }
 
-export interface Product {
+// Weight and parcel size used to price shipping - dimensions are optional
+export interface ProductShippingDetails {
+  weight_kg?: number;
+  length_cm?: number | null;
+  width_cm?: number | null;
+  height_cm?: number | null;
+}
+
+export interface Product extends ProductShippingDetails {
   id: string;
   name: string;
   description: string | null;
@@ -67,7 +75,7 @@ export interface AdminDeleteProductResponse {
   };
 }
 
-export interface CreateProductRequest {
+export interface CreateProductRequest extends ProductShippingDetails {
   name: string;
   description?: string;
   price: number;
@@ -76,7 +84,7 @@ export interface CreateProductRequest {
   image_url?: string;
 }
 
-export interface UpdateProductRequest {
+export interface UpdateProductRequest extends ProductShippingDetails {
   name: string;
   description?: string;
   price: number;
@@ -191,11 +199,16 @@ export enum OrderStatus {
 export interface OrderStats {
   totalOrders: number;
   pendingOrders: number;
+  paidOrders: number;
   processingOrders: number;
+  partiallyShippedOrders: number;
   shippedOrders: number;
   deliveredOrders: number;
   cancelledOrders: number;
+  refundedOrders: number;
+  returnedOrders: number;
   totalRevenue: number;
+  totalRefunded: number;
   averageOrderValue: number;
   ordersLast30Days: number;
 }
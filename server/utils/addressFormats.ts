@@ -0,0 +1,410 @@
+// Address fields whose presence and labels vary by country
+export type CountryAddressField = 'addressLine1' | 'addressLine2' | 'city' | 'state' | 'postalCode';
+
+export interface AddressFieldSchema {
+  label: string;
+  required: boolean;
+  placeholder?: string;
+}
+
+/**
+ * How addresses are written in one country
+ * Fields left out of `fields` are not asked for. `format` lists the lines
+ * below the recipient's name, with {field} placeholders; lines that end up
+ * empty are dropped.
+ */
+export interface CountryAddressSchema {
+  // Stored as the address's country, and what tax rules and shipping zones match on
+  country: string;
+  code: string;
+  fields: Partial<Record<CountryAddressField, AddressFieldSchema>>;
+  postalCodePattern: string | null;
+  postalCodeExample: string | null;
+  // Calling code without the +, and the national prefix dropped after it
+  callingCode: string;
+  trunkPrefix: string | null;
+  // The national number, without calling code or trunk prefix
+  phonePattern: string;
+  phoneExample: string;
+  format: string[];
+}
+
+// The shape of an address being checked or formatted
+export interface FormattableAddress {
+  addressLine1?: string | null;
+  addressLine2?: string | null;
+  city?: string | null;
+  state?: string | null;
+  postalCode?: string | null;
+  country?: string | null;
+}
+
+const STREET_FIELDS: Partial<Record<CountryAddressField, AddressFieldSchema>> = {
+  addressLine1: { label: 'Street address', required: true, placeholder: 'Street and house number' },
+  addressLine2: { label: 'Apartment, suite, etc.', required: false }
+};
+
+export const COUNTRY_ADDRESS_SCHEMAS: CountryAddressSchema[] = [
+  {
+    country: 'United States',
+    code: 'US',
+    fields: {
+      ...STREET_FIELDS,
+      city: { label: 'City', required: true },
+      state: { label: 'State', required: true, placeholder: 'e.g. CA' },
+      postalCode: { label: 'ZIP code', required: true }
+    },
+    postalCodePattern: '^\\d{5}(-\\d{4})?$',
+    postalCodeExample: '94103',
+    callingCode: '1',
+    trunkPrefix: '1',
+    phonePattern: '^[2-9]\\d{2}[2-9]\\d{6}$',
+    phoneExample: '(415) 555-0132',
+    format: ['{addressLine1}', '{addressLine2}', '{city}, {state} {postalCode}', '{country}']
+  },
+  {
+    country: 'Canada',
+    code: 'CA',
+    fields: {
+      ...STREET_FIELDS,
+      city: { label: 'City', required: true },
+      state: { label: 'Province', required: true, placeholder: 'e.g. ON' },
+      postalCode: { label: 'Postal code', required: true }
+    },
+    postalCodePattern: '^[ABCEGHJ-NPRSTVXY]\\d[ABCEGHJ-NPRSTV-Z] ?\\d[ABCEGHJ-NPRSTV-Z]\\d$',
+    postalCodeExample: 'K1A 0B1',
+    callingCode: '1',
+    trunkPrefix: '1',
+    phonePattern: '^[2-9]\\d{2}[2-9]\\d{6}$',
+    phoneExample: '(613) 555-0147',
+    format: ['{addressLine1}', '{addressLine2}', '{city} {state} {postalCode}', '{country}']
+  },
+  {
+    country: 'United Kingdom',
+    code: 'GB',
+    fields: {
+      ...STREET_FIELDS,
+      city: { label: 'Town or city', required: true },
+      state: { label: 'County', required: false },
+      postalCode: { label: 'Postcode', required: true }
+    },
+    postalCodePattern: '^[A-Z]{1,2}\\d[A-Z\\d]? ?\\d[A-Z]{2}$',
+    postalCodeExample: 'SW1A 1AA',
+    callingCode: '44',
+    trunkPrefix: '0',
+    phonePattern: '^[1-9]\\d{8,9}$',
+    phoneExample: '020 7946 0958',
+    format: ['{addressLine1}', '{addressLine2}', '{city}', '{state}', '{postalCode}', '{country}']
+  },
+  {
+    country: 'Australia',
+    code: 'AU',
+    fields: {
+      ...STREET_FIELDS,
+      city: { label: 'Suburb', required: true },
+      state: { label: 'State or territory', required: true, placeholder: 'e.g. NSW' },
+      postalCode: { label: 'Postcode', required: true }
+    },
+    postalCodePattern: '^\\d{4}$',
+    postalCodeExample: '2000',
+    callingCode: '61',
+    trunkPrefix: '0',
+    phonePattern: '^[2-478]\\d{8}$',
+    phoneExample: '0412 345 678',
+    format: ['{addressLine1}', '{addressLine2}', '{city} {state} {postalCode}', '{country}']
+  },
+  {
+    country: 'Morocco',
+    code: 'MA',
+    fields: {
+      addressLine1: { label: 'Address', required: true, placeholder: 'Street, number, building or neighbourhood' },
+      addressLine2: { label: 'Apartment, floor, landmark', required: false },
+      city: { label: 'City', required: true },
+      postalCode: { label: 'Postal code', required: false }
+    },
+    postalCodePattern: '^\\d{5}$',
+    postalCodeExample: '20250',
+    callingCode: '212',
+    trunkPrefix: '0',
+    phonePattern: '^[5-8]\\d{8}$',
+    phoneExample: '06 12 34 56 78',
+    format: ['{addressLine1}', '{addressLine2}', '{postalCode} {city}', '{country}']
+  },
+  {
+    country: 'France',
+    code: 'FR',
+    fields: {
+      ...STREET_FIELDS,
+      city: { label: 'City', required: true },
+      postalCode: { label: 'Postal code', required: true }
+    },
+    postalCodePattern: '^\\d{5}$',
+    postalCodeExample: '75008',
+    callingCode: '33',
+    trunkPrefix: '0',
+    phonePattern: '^[1-9]\\d{8}$',
+    phoneExample: '06 12 34 56 78',
+    format: ['{addressLine1}', '{addressLine2}', '{postalCode} {city}', '{country}']
+  },
+  {
+    country: 'Germany',
+    code: 'DE',
+    fields: {
+      ...STREET_FIELDS,
+      city: { label: 'City', required: true },
+      postalCode: { label: 'Postal code', required: true }
+    },
+    postalCodePattern: '^\\d{5}$',
+    postalCodeExample: '10115',
+    callingCode: '49',
+    trunkPrefix: '0',
+    phonePattern: '^[1-9]\\d{6,13}$',
+    phoneExample: '030 12345678',
+    format: ['{addressLine1}', '{addressLine2}', '{postalCode} {city}', '{country}']
+  },
+  {
+    country: 'Spain',
+    code: 'ES',
+    fields: {
+      ...STREET_FIELDS,
+      city: { label: 'City', required: true },
+      state: { label: 'Province', required: false },
+      postalCode: { label: 'Postal code', required: true }
+    },
+    postalCodePattern: '^\\d{5}$',
+    postalCodeExample: '28013',
+    callingCode: '34',
+    trunkPrefix: null,
+    phonePattern: '^[6-9]\\d{8}$',
+    phoneExample: '612 34 56 78',
+    format: ['{addressLine1}', '{addressLine2}', '{postalCode} {city}', '{state}', '{country}']
+  },
+  {
+    country: 'Italy',
+    code: 'IT',
+    fields: {
+      ...STREET_FIELDS,
+      city: { label: 'City', required: true },
+      state: { label: 'Province', required: true, placeholder: 'e.g. RM' },
+      postalCode: { label: 'Postal code', required: true }
+    },
+    postalCodePattern: '^\\d{5}$',
+    postalCodeExample: '00184',
+    callingCode: '39',
+    trunkPrefix: null,
+    phonePattern: '^[03]\\d{5,10}$',
+    phoneExample: '312 345 6789',
+    format: ['{addressLine1}', '{addressLine2}', '{postalCode} {city} {state}', '{country}']
+  },
+  {
+    country: 'Netherlands',
+    code: 'NL',
+    fields: {
+      ...STREET_FIELDS,
+      city: { label: 'City', required: true },
+      postalCode: { label: 'Postal code', required: true }
+    },
+    postalCodePattern: '^\\d{4} ?[A-Z]{2}$',
+    postalCodeExample: '1012 AB',
+    callingCode: '31',
+    trunkPrefix: '0',
+    phonePattern: '^[1-9]\\d{8}$',
+    phoneExample: '06 12345678',
+    format: ['{addressLine1}', '{addressLine2}', '{postalCode} {city}', '{country}']
+  },
+  {
+    country: 'Belgium',
+    code: 'BE',
+    fields: {
+      ...STREET_FIELDS,
+      city: { label: 'City', required: true },
+      postalCode: { label: 'Postal code', required: true }
+    },
+    postalCodePattern: '^\\d{4}$',
+    postalCodeExample: '1000',
+    callingCode: '32',
+    trunkPrefix: '0',
+    phonePattern: '^[1-9]\\d{7,8}$',
+    phoneExample: '0470 12 34 56',
+    format: ['{addressLine1}', '{addressLine2}', '{postalCode} {city}', '{country}']
+  },
+  {
+    country: 'Ireland',
+    code: 'IE',
+    fields: {
+      ...STREET_FIELDS,
+      city: { label: 'Town or city', required: true },
+      state: { label: 'County', required: false },
+      postalCode: { label: 'Eircode', required: false }
+    },
+    postalCodePattern: '^([AC-FHKNPRTV-Y]\\d{2}|D6W) ?[0-9AC-FHKNPRTV-Y]{4}$',
+    postalCodeExample: 'D02 X285',
+    callingCode: '353',
+    trunkPrefix: '0',
+    phonePattern: '^[1-9]\\d{6,9}$',
+    phoneExample: '085 123 4567',
+    format: ['{addressLine1}', '{addressLine2}', '{city}', '{state}', '{postalCode}', '{country}']
+  },
+  {
+    country: 'Portugal',
+    code: 'PT',
+    fields: {
+      ...STREET_FIELDS,
+      city: { label: 'City', required: true },
+      postalCode: { label: 'Postal code', required: true }
+    },
+    postalCodePattern: '^\\d{4}-\\d{3}$',
+    postalCodeExample: '1100-148',
+    callingCode: '351',
+    trunkPrefix: null,
+    phonePattern: '^[29]\\d{8}$',
+    phoneExample: '912 345 678',
+    format: ['{addressLine1}', '{addressLine2}', '{postalCode} {city}', '{country}']
+  }
+];
+
+// Addresses in countries without a schema, e.g. stored before schemas existed
+const FALLBACK_SCHEMA: CountryAddressSchema = {
+  country: '',
+  code: '',
+  fields: {
+    ...STREET_FIELDS,
+    city: { label: 'City', required: true },
+    state: { label: 'State, province or region', required: false },
+    postalCode: { label: 'Postal code', required: false }
+  },
+  postalCodePattern: null,
+  postalCodeExample: null,
+  callingCode: '',
+  trunkPrefix: null,
+  phonePattern: '^\\d{6,15}$',
+  phoneExample: '+1 415 555 0132',
+  format: ['{addressLine1}', '{addressLine2}', '{city} {state} {postalCode}', '{country}']
+};
+
+export const findCountrySchema = (country: string | null | undefined): CountryAddressSchema | null => {
+  const name = (country || '').trim().toLowerCase();
+  return COUNTRY_ADDRESS_SCHEMAS.find(schema => schema.country.toLowerCase() === name) || null;
+};
+
+const getCountrySchema = (country: string | null | undefined): CountryAddressSchema => {
+  return findCountrySchema(country) || FALLBACK_SCHEMA;
+};
+
+/**
+ * Postal codes in the country's usual form - upper case, and with the space
+ * where the country writes one (SW1A1AA becomes SW1A 1AA)
+ */
+export const normalizePostalCode = (country: string | null | undefined, postalCode: string): string => {
+  const upper = postalCode.trim().toUpperCase().replace(/\s+/g, ' ');
+  switch (findCountrySchema(country)?.code) {
+    case 'GB':
+      return upper.replace(/^([A-Z0-9]+?) ?(\d[A-Z]{2})$/, '$1 $2');
+    case 'CA':
+    case 'IE':
+      return upper.replace(/^([A-Z0-9]{3}) ?([A-Z0-9]{3,4})$/, '$1 $2');
+    case 'NL':
+      return upper.replace(/^(\d{4}) ?([A-Z]{2})$/, '$1 $2');
+    default:
+      return upper;
+  }
+};
+
+// The national number of a phone number typed in local or international form, or null
+const toNationalNumber = (schema: CountryAddressSchema, phone: string): string | null => {
+  const international = phone.trim().startsWith('+') || phone.trim().startsWith('00');
+  let digits = phone.replace(/\D/g, '');
+
+  if (international) {
+    digits = digits.replace(/^00/, '');
+    if (!schema.callingCode) {
+      return digits;
+    }
+    if (!digits.startsWith(schema.callingCode)) {
+      return null;
+    }
+    digits = digits.slice(schema.callingCode.length);
+  }
+
+  if (schema.trunkPrefix && digits.startsWith(schema.trunkPrefix) && !new RegExp(schema.phonePattern).test(digits)) {
+    digits = digits.slice(schema.trunkPrefix.length);
+  }
+  return digits;
+};
+
+/**
+ * Check an address against its country's rules
+ * Returns one message per problem, naming fields the way the country does.
+ */
+export const validateAddressForCountry = (address: FormattableAddress & { phone?: string | null }): string[] => {
+  const errors: string[] = [];
+
+  if (!address.country?.trim()) {
+    return ['Country is required'];
+  }
+
+  const schema = getCountrySchema(address.country);
+
+  for (const [field, rule] of Object.entries(schema.fields) as Array<[CountryAddressField, AddressFieldSchema]>) {
+    if (rule.required && !address[field]?.trim()) {
+      errors.push(`${rule.label} is required`);
+    }
+  }
+
+  const postalCode = address.postalCode?.trim();
+  if (postalCode && schema.fields.postalCode && schema.postalCodePattern
+    && !new RegExp(schema.postalCodePattern, 'i').test(postalCode)) {
+    errors.push(`${schema.fields.postalCode.label} should look like ${schema.postalCodeExample}`);
+  }
+
+  if (address.phone?.trim()) {
+    const nationalNumber = toNationalNumber(schema, address.phone);
+    if (!nationalNumber || !new RegExp(schema.phonePattern).test(nationalNumber)) {
+      errors.push(`Phone number should look like ${schema.phoneExample}${schema.callingCode ? ` or +${schema.callingCode} ...` : ''}`);
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Drop the fields the country does not use and tidy the postal code
+ */
+export const normalizeAddressForCountry = <T extends FormattableAddress>(address: T): T => {
+  const schema = findCountrySchema(address.country);
+  if (!schema) {
+    return address;
+  }
+
+  return {
+    ...address,
+    country: schema.country,
+    state: schema.fields.state ? address.state : null,
+    postalCode: schema.fields.postalCode && address.postalCode
+      ? normalizePostalCode(schema.country, address.postalCode)
+      : null
+  };
+};
+
+/**
+ * The lines of an address as it is written in its country, without the name
+ */
+export const formatAddressLines = (address: FormattableAddress): string[] => {
+  const schema = getCountrySchema(address.country);
+  const values: Record<string, string> = {
+    addressLine1: address.addressLine1 || '',
+    addressLine2: address.addressLine2 || '',
+    city: address.city || '',
+    state: schema.fields.state ? address.state || '' : '',
+    postalCode: address.postalCode || '',
+    country: address.country || ''
+  };
+
+  return schema.format
+    .map(line => line
+      .replace(/\{(\w+)\}/g, (_match, field: string) => values[field] || '')
+      .replace(/\s+/g, ' ')
+      .replace(/^[\s,]+|[\s,]+$/g, '')
+      .replace(/\s,/g, ','))
+    .filter(line => line.length > 0);
+};
@@ -0,0 +1,385 @@
+import { query, Queryable } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+import { validateAddressForCountry, normalizeAddressForCountry } from './addressFormats';
+
+export type AddressType = 'shipping' | 'billing';
+
+export const ADDRESS_TYPES: AddressType[] = ['shipping', 'billing'];
+
+// Keeps one account from filling the table
+export const MAX_SAVED_ADDRESSES = 20;
+
+// The fields a customer types in
+export interface AddressInput {
+  fullName: string;
+  phone: string;
+  addressLine1: string;
+  addressLine2: string | null;
+  city: string;
+  // Only some countries use these - see addressFormats
+  state: string | null;
+  postalCode: string | null;
+  country: string;
+}
+
+// An address book entry
+export interface SavedAddress extends AddressInput {
+  id: string;
+  type: AddressType;
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const ADDRESS_COLUMNS = `id, type, full_name, phone, address_line_1, address_line_2, city, state, postal_code, country,
+  is_default, created_at, updated_at`;
+
+// Which of the rest are required depends on the country
+const ADDRESS_FIELDS: Array<{ key: keyof AddressInput; label: string; required: boolean; maxLength: number }> = [
+  { key: 'fullName', label: 'Full name', required: true, maxLength: 100 },
+  { key: 'phone', label: 'Phone number', required: true, maxLength: 30 },
+  { key: 'addressLine1', label: 'Address', required: false, maxLength: 200 },
+  { key: 'addressLine2', label: 'Address line 2', required: false, maxLength: 200 },
+  { key: 'city', label: 'City', required: false, maxLength: 100 },
+  { key: 'state', label: 'State', required: false, maxLength: 100 },
+  { key: 'postalCode', label: 'Postal code', required: false, maxLength: 20 },
+  { key: 'country', label: 'Country', required: true, maxLength: 100 }
+];
+
+export const isAddressType = (value: unknown): value is AddressType => {
+  return typeof value === 'string' && ADDRESS_TYPES.includes(value as AddressType);
+};
+
+export const mapAddressRow = (row: any): SavedAddress => ({
+  id: row.id,
+  type: row.type,
+  fullName: row.full_name,
+  phone: row.phone,
+  addressLine1: row.address_line_1,
+  addressLine2: row.address_line_2,
+  city: row.city,
+  state: row.state,
+  postalCode: row.postal_code,
+  country: row.country,
+  isDefault: row.is_default,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+/**
+ * Read an address from a request body
+ * Values are trimmed and runs of spaces collapsed, so the same address typed
+ * twice is stored - and matched - the same way. The address is then checked
+ * against its country's rules, and fields the country does not use dropped.
+ */
+export const parseAddressInput = (value: unknown): { address: AddressInput | null; errors: string[] } => {
+  if (!value || typeof value !== 'object') {
+    return { address: null, errors: ['Address is required'] };
+  }
+
+  const source = value as Record<string, unknown>;
+  const address: Record<string, string | null> = {};
+  const errors: string[] = [];
+
+  for (const field of ADDRESS_FIELDS) {
+    const raw = source[field.key];
+    if (raw !== undefined && raw !== null && typeof raw !== 'string') {
+      errors.push(`${field.label} must be text`);
+      continue;
+    }
+
+    const text = (raw || '').trim().replace(/\s+/g, ' ');
+    if (field.required && !text) {
+      errors.push(`${field.label} is required`);
+    } else if (text.length > field.maxLength) {
+      errors.push(`${field.label} must be at most ${field.maxLength} characters`);
+    }
+    address[field.key] = text || null;
+  }
+
+  if (errors.length > 0) {
+    return { address: null, errors };
+  }
+
+  const countryErrors = validateAddressForCountry(address);
+  return countryErrors.length > 0
+    ? { address: null, errors: countryErrors }
+    : { address: normalizeAddressForCountry(address as unknown as AddressInput), errors };
+};
+
+const addressValues = (address: AddressInput): Array<string | null> => [
+  address.fullName,
+  address.phone,
+  address.addressLine1,
+  address.addressLine2,
+  address.city,
+  address.state,
+  address.postalCode,
+  address.country
+];
+
+/**
+ * The address book entry holding the same address, if there is one
+ * Letter case is ignored; pass a type to only look at entries of that type.
+ */
+export const findSavedAddress = async (
+  db: Queryable,
+  userId: string,
+  address: AddressInput,
+  type?: AddressType
+): Promise<SavedAddress | null> => {
+  const result = await db.query(
+    `SELECT ${ADDRESS_COLUMNS} FROM addresses
+     WHERE user_id = $1 AND in_address_book
+       AND LOWER(full_name) = LOWER($2) AND LOWER(phone) = LOWER($3)
+       AND LOWER(address_line_1) = LOWER($4) AND LOWER(COALESCE(address_line_2, '')) = LOWER(COALESCE($5, ''))
+       AND LOWER(city) = LOWER($6) AND LOWER(COALESCE(state, '')) = LOWER(COALESCE($7, ''))
+       AND LOWER(COALESCE(postal_code, '')) = LOWER(COALESCE($8, '')) AND LOWER(country) = LOWER($9)
+       AND ($10::text IS NULL OR type = $10)
+     ORDER BY is_default DESC, updated_at DESC
+     LIMIT 1`,
+    [userId, ...addressValues(address), type || null]
+  );
+
+  return result.rows.length > 0 ? mapAddressRow(result.rows[0]) : null;
+};
+
+/**
+ * A customer's address book, defaults first
+ */
+export const getAddressBook = async (userId: string, db: Queryable = { query }): Promise<SavedAddress[]> => {
+  const result = await db.query(
+    `SELECT ${ADDRESS_COLUMNS} FROM addresses
+     WHERE user_id = $1 AND in_address_book
+     ORDER BY type DESC, is_default DESC, updated_at DESC`,
+    [userId]
+  );
+
+  return result.rows.map(mapAddressRow);
+};
+
+export const getSavedAddress = async (db: Queryable, userId: string, addressId: string): Promise<SavedAddress | null> => {
+  const result = await db.query(
+    `SELECT ${ADDRESS_COLUMNS} FROM addresses WHERE id = $1 AND user_id = $2 AND in_address_book`,
+    [addressId, userId]
+  );
+
+  return result.rows.length > 0 ? mapAddressRow(result.rows[0]) : null;
+};
+
+// Address book changes for one customer run one at a time, so two
+// requests can never both make an entry the default
+const lockAddressBook = async (db: Queryable, userId: string): Promise<void> => {
+  await db.query('SELECT id FROM users WHERE id = $1 FOR UPDATE', [userId]);
+};
+
+const makeDefault = async (db: Queryable, userId: string, addressId: string, type: AddressType): Promise<void> => {
+  await db.query(
+    `UPDATE addresses SET is_default = false
+     WHERE user_id = $1 AND type = $2 AND in_address_book AND is_default AND id <> $3`,
+    [userId, type, addressId]
+  );
+  await db.query('UPDATE addresses SET is_default = true WHERE id = $1', [addressId]);
+};
+
+// After the default goes, the most recently used entry of its type takes over
+const promoteNextDefault = async (db: Queryable, userId: string, type: AddressType): Promise<void> => {
+  await db.query(
+    `UPDATE addresses SET is_default = true
+     WHERE id = (
+       SELECT id FROM addresses
+       WHERE user_id = $1 AND type = $2 AND in_address_book
+       ORDER BY updated_at DESC
+       LIMIT 1
+     )
+     AND NOT EXISTS (
+       SELECT 1 FROM addresses WHERE user_id = $1 AND type = $2 AND in_address_book AND is_default
+     )`,
+    [userId, type]
+  );
+};
+
+// Orders point at address rows, so a used row must never change
+const isUsedByOrders = async (db: Queryable, addressId: string): Promise<boolean> => {
+  const result = await db.query(
+    'SELECT 1 FROM orders WHERE shipping_address_id = $1 OR billing_address_id = $1 LIMIT 1',
+    [addressId]
+  );
+  return result.rows.length > 0;
+};
+
+/**
+ * Add an address to a customer's address book
+ * An entry with the same address and type is reused rather than duplicated.
+ * The first entry of a type becomes its default.
+ * Call inside a transaction.
+ */
+export const saveAddress = async (
+  db: Queryable,
+  userId: string,
+  type: AddressType,
+  address: AddressInput,
+  isDefault: boolean = false
+): Promise<{ address: SavedAddress; created: boolean }> => {
+  await lockAddressBook(db, userId);
+
+  const existing = await findSavedAddress(db, userId, address, type);
+  if (existing) {
+    if (isDefault && !existing.isDefault) {
+      await makeDefault(db, userId, existing.id, type);
+    }
+    return { address: (await getSavedAddress(db, userId, existing.id)) as SavedAddress, created: false };
+  }
+
+  const countResult = await db.query(
+    'SELECT COUNT(*) AS count FROM addresses WHERE user_id = $1 AND in_address_book',
+    [userId]
+  );
+  if (parseInt(countResult.rows[0].count) >= MAX_SAVED_ADDRESSES) {
+    throw createError(`Your address book is full - remove an address before saving another (at most ${MAX_SAVED_ADDRESSES})`, 409);
+  }
+
+  const insertResult = await db.query(
+    `INSERT INTO addresses (user_id, type, full_name, phone, address_line_1, address_line_2, city, state, postal_code, country, in_address_book)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, true)
+     RETURNING id`,
+    [userId, type, ...addressValues(address)]
+  );
+  const addressId = insertResult.rows[0].id;
+
+  if (isDefault) {
+    await makeDefault(db, userId, addressId, type);
+  } else {
+    await promoteNextDefault(db, userId, type);
+  }
+
+  return { address: (await getSavedAddress(db, userId, addressId)) as SavedAddress, created: true };
+};
+
+/**
+ * Change an address book entry
+ * Entries already used by an order are replaced by a new entry, leaving the
+ * order's address as it was; the returned entry may have a new id.
+ * Call inside a transaction.
+ */
+export const updateSavedAddress = async (
+  db: Queryable,
+  userId: string,
+  addressId: string,
+  changes: { type: AddressType; address: AddressInput; isDefault?: boolean }
+): Promise<SavedAddress> => {
+  await lockAddressBook(db, userId);
+
+  const current = await getSavedAddress(db, userId, addressId);
+  if (!current) {
+    throw createError('Address not found', 404);
+  }
+
+  const duplicate = await findSavedAddress(db, userId, changes.address, changes.type);
+  if (duplicate && duplicate.id !== addressId) {
+    throw createError('This address is already in your address book', 409);
+  }
+
+  let updatedId = addressId;
+
+  if (await isUsedByOrders(db, addressId)) {
+    await db.query(
+      'UPDATE addresses SET in_address_book = false, is_default = false, updated_at = NOW() WHERE id = $1',
+      [addressId]
+    );
+    const insertResult = await db.query(
+      `INSERT INTO addresses (user_id, type, full_name, phone, address_line_1, address_line_2, city, state, postal_code, country, in_address_book, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, true, $11)
+       RETURNING id`,
+      [userId, changes.type, ...addressValues(changes.address), current.createdAt]
+    );
+    updatedId = insertResult.rows[0].id;
+  } else {
+    await db.query(
+      `UPDATE addresses
+       SET type = $1, full_name = $2, phone = $3, address_line_1 = $4, address_line_2 = $5,
+           city = $6, state = $7, postal_code = $8, country = $9, is_default = false, updated_at = NOW()
+       WHERE id = $10`,
+      [changes.type, ...addressValues(changes.address), addressId]
+    );
+  }
+
+  // Unless told otherwise, an entry stays the default while it stays the same type
+  if (changes.isDefault ?? (current.isDefault && current.type === changes.type)) {
+    await makeDefault(db, userId, updatedId, changes.type);
+  }
+  await promoteNextDefault(db, userId, current.type);
+  await promoteNextDefault(db, userId, changes.type);
+
+  return (await getSavedAddress(db, userId, updatedId)) as SavedAddress;
+};
+
+/**
+ * Take an entry out of the address book
+ * Addresses used by an order stay stored for the order, hidden from the book.
+ * Call inside a transaction.
+ */
+export const removeSavedAddress = async (db: Queryable, userId: string, addressId: string): Promise<void> => {
+  await lockAddressBook(db, userId);
+
+  const current = await getSavedAddress(db, userId, addressId);
+  if (!current) {
+    throw createError('Address not found', 404);
+  }
+
+  if (await isUsedByOrders(db, addressId)) {
+    await db.query(
+      'UPDATE addresses SET in_address_book = false, is_default = false, updated_at = NOW() WHERE id = $1',
+      [addressId]
+    );
+  } else {
+    await db.query('DELETE FROM addresses WHERE id = $1', [addressId]);
+  }
+
+  if (current.isDefault) {
+    await promoteNextDefault(db, userId, current.type);
+  }
+};
+
+/**
+ * The address row an order should point at
+ * A saved entry is used as it is. A typed address is matched against the
+ * customer's address book first, saved to it when asked, and otherwise stored
+ * for the order alone. Guests' addresses are always stored for the order alone.
+ * Call inside the order's transaction.
+ */
+export const resolveOrderAddress = async (
+  db: Queryable,
+  userId: string | null,
+  type: AddressType,
+  source: { addressId?: string | null; address: AddressInput; save?: boolean }
+): Promise<string> => {
+  if (source.addressId) {
+    const saved = userId ? await getSavedAddress(db, userId, source.addressId) : null;
+    if (!saved) {
+      throw createError('The selected saved address was not found', 400);
+    }
+    return saved.id;
+  }
+
+  if (userId) {
+    if (source.save) {
+      const { address } = await saveAddress(db, userId, type, source.address);
+      return address.id;
+    }
+
+    const existing = await findSavedAddress(db, userId, source.address);
+    if (existing) {
+      return existing.id;
+    }
+  }
+
+  const insertResult = await db.query(
+    `INSERT INTO addresses (user_id, type, full_name, phone, address_line_1, address_line_2, city, state, postal_code, country)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+     RETURNING id`,
+    [userId, type, ...addressValues(source.address)]
+  );
+
+  return insertResult.rows[0].id;
+};
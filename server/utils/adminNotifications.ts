@@ -0,0 +1,55 @@
+import { query, Queryable } from '../config/database';
+
+export type AdminNotificationType =
+  | 'order_cancelled_by_customer'
+  | 'return_requested'
+  | 'payment_after_cancellation'
+  | 'refund_failed';
+
+export interface AdminNotification {
+  id: string;
+  type: AdminNotificationType;
+  orderId: string | null;
+  message: string;
+  readAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * Leave a notification for the admin dashboard
+ * Pass the transaction client so the notice only exists if the change it
+ * describes was committed.
+ */
+export const notifyAdmins = async (
+  db: Queryable,
+  type: AdminNotificationType,
+  message: string,
+  orderId: string | null = null
+): Promise<void> => {
+  await db.query(
+    'INSERT INTO admin_notifications (type, order_id, message) VALUES ($1, $2, $3)',
+    [type, orderId, message]
+  );
+};
+
+/**
+ * Get notifications no admin has dismissed yet, newest first
+ */
+export const getUnreadNotifications = async (db: Queryable = { query }): Promise<AdminNotification[]> => {
+  const result = await db.query(
+    `SELECT id, type, order_id, message, read_at, created_at
+     FROM admin_notifications
+     WHERE read_at IS NULL
+     ORDER BY created_at DESC
+     LIMIT 100`
+  );
+
+  return result.rows.map(row => ({
+    id: row.id,
+    type: row.type,
+    orderId: row.order_id,
+    message: row.message,
+    readAt: row.read_at,
+    createdAt: row.created_at
+  }));
+};
@@ -0,0 +1,644 @@
+import { PoolClient } from 'pg';
+import { query, Queryable } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+import { roundMoney } from './money';
+import { PdfDocument, PAGE_HEIGHT, PAGE_WIDTH } from './pdfDocument';
+import { formatAddressLines } from './addressFormats';
+
+export type BillingDocumentType = 'invoice' | 'credit_note';
+
+export const BILLING_DOCUMENT_TYPES: BillingDocumentType[] = ['invoice', 'credit_note'];
+
+// Most documents one bulk download may contain
+export const MAX_BULK_DOCUMENTS = 500;
+
+// The store's legal details as printed on a document
+export interface SellerDetails {
+  legalName: string;
+  addressLines: string[];
+  vatNumber: string | null;
+  registrationNumber: string | null;
+  email: string | null;
+}
+
+export interface BuyerDetails {
+  name: string;
+  addressLines: string[];
+  email: string | null;
+}
+
+export interface DocumentLine {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+export interface DocumentTaxLine {
+  name: string;
+  rate: number;
+  taxableAmount: number;
+  amount: number;
+}
+
+// Everything printed on a document, frozen when it is issued
+export interface BillingDocumentContent {
+  seller: SellerDetails;
+  buyer: BuyerDetails;
+  orderNumber: string;
+  orderDate: string;
+  paymentMethod: string | null;
+  currencyDecimals: number;
+  lines: DocumentLine[];
+  subtotal: number;
+  shippingCost: number;
+  discountAmount: number;
+  codFee: number;
+  taxLines: DocumentTaxLine[];
+  taxAmount: number;
+  total: number;
+  // Credit notes only
+  correctedInvoiceNumber: string | null;
+  reason: string | null;
+}
+
+export interface BillingDocumentSummary {
+  id: string;
+  documentType: BillingDocumentType;
+  number: string;
+  orderId: string;
+  orderNumber: string;
+  refundId: string | null;
+  currency: string;
+  total: number;
+  issuedAt: string;
+}
+
+export interface BillingDocument extends BillingDocumentSummary {
+  content: BillingDocumentContent;
+}
+
+export interface BillingDocumentFilters {
+  documentType?: BillingDocumentType;
+  orderId?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  credit_card: 'Credit card',
+  paypal: 'PayPal',
+  cash_on_delivery: 'Cash on delivery'
+};
+
+export const isBillingDocumentType = (value: unknown): value is BillingDocumentType => {
+  return typeof value === 'string' && BILLING_DOCUMENT_TYPES.includes(value as BillingDocumentType);
+};
+
+const mapDocumentRow = (row: any): BillingDocument => ({
+  id: row.id,
+  documentType: row.document_type,
+  number: row.number,
+  orderId: row.order_id,
+  orderNumber: row.order_id.substring(0, 8).toUpperCase(),
+  refundId: row.refund_id,
+  currency: row.currency.trim(),
+  total: parseFloat(row.total),
+  issuedAt: row.issued_at,
+  content: row.content
+});
+
+// Lists leave out the snapshot - it is only needed to render the PDF
+export const toDocumentSummary = (document: BillingDocument): BillingDocumentSummary => ({
+  id: document.id,
+  documentType: document.documentType,
+  number: document.number,
+  orderId: document.orderId,
+  orderNumber: document.orderNumber,
+  refundId: document.refundId,
+  currency: document.currency,
+  total: document.total,
+  issuedAt: document.issuedAt
+});
+
+/**
+ * The store's legal details from the environment
+ * STORE_LEGAL_ADDRESS separates address lines with '|'.
+ */
+export const getSellerDetails = (): SellerDetails => ({
+  legalName: process.env.STORE_LEGAL_NAME || 'ZineShop',
+  addressLines: (process.env.STORE_LEGAL_ADDRESS || '')
+    .split('|')
+    .map(line => line.trim())
+    .filter(Boolean),
+  vatNumber: process.env.STORE_VAT_NUMBER || null,
+  registrationNumber: process.env.STORE_REGISTRATION_NUMBER || null,
+  email: process.env.STORE_BILLING_EMAIL || null
+});
+
+/**
+ * Take the next number of a document type
+ * The sequence row stays locked until the transaction ends, so numbers are
+ * handed out in order and a rolled back document gives its number back.
+ */
+const takeDocumentNumber = async (client: PoolClient, documentType: BillingDocumentType): Promise<string> => {
+  const result = await client.query(
+    `UPDATE document_sequences
+     SET next_number = next_number + 1
+     WHERE document_type = $1
+     RETURNING prefix, next_number - 1 AS number`,
+    [documentType]
+  );
+
+  if (result.rows.length === 0) {
+    throw createError(`No number sequence is set up for ${documentType} documents`, 500);
+  }
+
+  const { prefix, number } = result.rows[0];
+  return `${prefix}-${String(number).padStart(6, '0')}`;
+};
+
+const insertDocument = async (
+  client: PoolClient,
+  document: {
+    documentType: BillingDocumentType;
+    orderId: string;
+    refundId: string | null;
+    invoiceId: string | null;
+    currency: string;
+    content: BillingDocumentContent;
+  }
+): Promise<BillingDocument> => {
+  const number = await takeDocumentNumber(client, document.documentType);
+
+  const result = await client.query(
+    `INSERT INTO billing_documents (document_type, number, order_id, refund_id, invoice_id, currency, total, content)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     RETURNING *`,
+    [
+      document.documentType,
+      number,
+      document.orderId,
+      document.refundId,
+      document.invoiceId,
+      document.currency,
+      document.content.total,
+      JSON.stringify(document.content)
+    ]
+  );
+
+  return mapDocumentRow(result.rows[0]);
+};
+
+/**
+ * Issue the invoice of a paid order
+ * Does nothing when the order already has one, so it can be called from
+ * every path that marks an order paid.
+ */
+export const issueInvoice = async (client: PoolClient, orderId: string): Promise<BillingDocument> => {
+  // Lock the order so two paths cannot both issue its invoice
+  const orderResult = await client.query(
+    `SELECT o.*, c.decimals AS currency_decimals,
+            COALESCE(ba.full_name, u.full_name) AS buyer_name,
+            COALESCE(o.customer_email, u.email) AS buyer_email,
+            ba.address_line_1 AS buyer_address_line_1,
+            ba.address_line_2 AS buyer_address_line_2,
+            ba.city AS buyer_city,
+            ba.state AS buyer_state,
+            ba.postal_code AS buyer_postal_code,
+            ba.country AS buyer_country
+     FROM orders o
+     JOIN currencies c ON o.currency = c.code
+     -- The whole billing address, or the whole shipping address - never a mix
+     LEFT JOIN addresses ba ON ba.id = COALESCE(o.billing_address_id, o.shipping_address_id)
+     LEFT JOIN users u ON o.user_id = u.id
+     WHERE o.id = $1
+     FOR UPDATE OF o`,
+    [orderId]
+  );
+
+  if (orderResult.rows.length === 0) {
+    throw createError('Order not found', 404);
+  }
+
+  const existing = await client.query(
+    "SELECT * FROM billing_documents WHERE order_id = $1 AND document_type = 'invoice'",
+    [orderId]
+  );
+
+  if (existing.rows.length > 0) {
+    return mapDocumentRow(existing.rows[0]);
+  }
+
+  const order = orderResult.rows[0];
+
+  const itemsResult = await client.query(
+    `SELECT oi.quantity, oi.unit_price, p.name
+     FROM order_items oi
+     LEFT JOIN products p ON oi.product_id = p.id
+     WHERE oi.order_id = $1
+     ORDER BY p.name`,
+    [orderId]
+  );
+  const taxLinesResult = await client.query(
+    `SELECT name, rate, taxable_amount, amount
+     FROM order_tax_lines
+     WHERE order_id = $1
+     ORDER BY created_at`,
+    [orderId]
+  );
+
+  const decimals = parseInt(order.currency_decimals);
+
+  const content: BillingDocumentContent = {
+    seller: getSellerDetails(),
+    buyer: {
+      name: order.buyer_name || order.buyer_email || 'Customer',
+      addressLines: formatAddressLines({
+        addressLine1: order.buyer_address_line_1,
+        addressLine2: order.buyer_address_line_2,
+        city: order.buyer_city,
+        state: order.buyer_state,
+        postalCode: order.buyer_postal_code,
+        country: order.buyer_country
+      }),
+      email: order.buyer_email
+    },
+    orderNumber: order.id.substring(0, 8).toUpperCase(),
+    orderDate: new Date(order.created_at).toISOString(),
+    paymentMethod: order.payment_method,
+    currencyDecimals: decimals,
+    lines: itemsResult.rows.map(item => {
+      const unitPrice = parseFloat(item.unit_price);
+      return {
+        description: item.name || 'Removed product',
+        quantity: item.quantity,
+        unitPrice,
+        amount: roundMoney(unitPrice * item.quantity, decimals)
+      };
+    }),
+    subtotal: parseFloat(order.subtotal),
+    shippingCost: parseFloat(order.shipping_cost || '0'),
+    discountAmount: parseFloat(order.discount_amount || '0'),
+    codFee: parseFloat(order.cod_fee || '0'),
+    taxLines: taxLinesResult.rows.map(line => ({
+      name: line.name,
+      rate: parseFloat(line.rate),
+      taxableAmount: parseFloat(line.taxable_amount),
+      amount: parseFloat(line.amount)
+    })),
+    taxAmount: parseFloat(order.tax_amount || '0'),
+    total: parseFloat(order.total),
+    correctedInvoiceNumber: null,
+    reason: null
+  };
+
+  return insertDocument(client, {
+    documentType: 'invoice',
+    orderId,
+    refundId: null,
+    invoiceId: null,
+    currency: order.currency.trim(),
+    content
+  });
+};
+
+/**
+ * Issue the credit note of a refund that went through
+ * The order's invoice is issued first if it is somehow missing. The refunded
+ * amount is split into net and tax in the same proportions as the invoice,
+ * and returned items are named on the line. Does nothing when the refund
+ * already has a credit note.
+ */
+export const issueCreditNote = async (client: PoolClient, refundId: string): Promise<BillingDocument> => {
+  const existing = await client.query('SELECT * FROM billing_documents WHERE refund_id = $1', [refundId]);
+
+  if (existing.rows.length > 0) {
+    return mapDocumentRow(existing.rows[0]);
+  }
+
+  const refundResult = await client.query(
+    'SELECT id, order_id, return_id, amount, reason, status FROM refunds WHERE id = $1',
+    [refundId]
+  );
+
+  if (refundResult.rows.length === 0) {
+    throw createError('Refund not found', 404);
+  }
+
+  const refund = refundResult.rows[0];
+
+  if (refund.status !== 'succeeded') {
+    throw createError('Credit notes are only issued for refunds that went through', 409);
+  }
+
+  const invoice = await issueInvoice(client, refund.order_id);
+  const { content: invoiceContent } = invoice;
+  const decimals = invoiceContent.currencyDecimals;
+  const total = parseFloat(refund.amount);
+
+  // Share of the invoice being credited - the tax goes back in the same proportion
+  const share = invoiceContent.total > 0 ? Math.min(1, total / invoiceContent.total) : 0;
+  const taxLines = invoiceContent.taxLines.map(line => ({
+    ...line,
+    taxableAmount: roundMoney(line.taxableAmount * share, decimals),
+    amount: roundMoney(line.amount * share, decimals)
+  }));
+  const taxAmount = roundMoney(taxLines.reduce((sum, line) => sum + line.amount, 0), decimals);
+  const netAmount = roundMoney(total - taxAmount, decimals);
+
+  let description = `Refund for order #${invoiceContent.orderNumber}`;
+
+  if (refund.return_id) {
+    const returnedResult = await client.query(
+      `SELECT ri.quantity, p.name
+       FROM return_items ri
+       JOIN order_items oi ON ri.order_item_id = oi.id
+       LEFT JOIN products p ON oi.product_id = p.id
+       WHERE ri.return_id = $1
+       ORDER BY p.name`,
+      [refund.return_id]
+    );
+
+    if (returnedResult.rows.length > 0) {
+      description += ' - returned ' + returnedResult.rows
+        .map(item => `${item.quantity} × ${item.name || 'Removed product'}`)
+        .join(', ');
+    }
+  }
+
+  const content: BillingDocumentContent = {
+    seller: getSellerDetails(),
+    buyer: invoiceContent.buyer,
+    orderNumber: invoiceContent.orderNumber,
+    orderDate: invoiceContent.orderDate,
+    paymentMethod: invoiceContent.paymentMethod,
+    currencyDecimals: decimals,
+    lines: [{ description, quantity: 1, unitPrice: netAmount, amount: netAmount }],
+    subtotal: netAmount,
+    shippingCost: 0,
+    discountAmount: 0,
+    codFee: 0,
+    taxLines,
+    taxAmount,
+    total,
+    correctedInvoiceNumber: invoice.number,
+    reason: refund.reason
+  };
+
+  return insertDocument(client, {
+    documentType: 'credit_note',
+    orderId: refund.order_id,
+    refundId,
+    invoiceId: invoice.id,
+    currency: invoice.currency,
+    content
+  });
+};
+
+/**
+ * Invoices and credit notes of an order, oldest first
+ */
+export const getOrderDocuments = async (orderId: string, db: Queryable = { query }): Promise<BillingDocumentSummary[]> => {
+  const documents = await listBillingDocuments({ orderId }, db);
+  return documents.map(toDocumentSummary);
+};
+
+export const getBillingDocument = async (documentId: string, db: Queryable = { query }): Promise<BillingDocument | null> => {
+  const result = await db.query('SELECT * FROM billing_documents WHERE id = $1', [documentId]);
+  return result.rows.length > 0 ? mapDocumentRow(result.rows[0]) : null;
+};
+
+/**
+ * Documents matching the filters in issue order, with their content
+ * from and to are dates (YYYY-MM-DD), both included.
+ */
+export const listBillingDocuments = async (
+  filters: BillingDocumentFilters,
+  db: Queryable = { query }
+): Promise<BillingDocument[]> => {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (filters.documentType) {
+    params.push(filters.documentType);
+    conditions.push(`document_type = $${params.length}`);
+  }
+  if (filters.orderId) {
+    params.push(filters.orderId);
+    conditions.push(`order_id = $${params.length}`);
+  }
+  if (filters.from) {
+    params.push(filters.from);
+    conditions.push(`issued_at >= $${params.length}::date`);
+  }
+  if (filters.to) {
+    params.push(filters.to);
+    conditions.push(`issued_at < $${params.length}::date + 1`);
+  }
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const limitClause = filters.limit ? `LIMIT ${Math.floor(filters.limit)}` : '';
+
+  const result = await db.query(
+    `SELECT * FROM billing_documents ${whereClause} ORDER BY issued_at, number ${limitClause}`,
+    params
+  );
+
+  return result.rows.map(mapDocumentRow);
+};
+
+// ===============================================
+// PDF LAYOUT
+// ===============================================
+
+const MARGIN = 48;
+const RIGHT = PAGE_WIDTH - MARGIN;
+const CONTENT_BOTTOM = PAGE_HEIGHT - 90;
+const ACCENT = '#4f46e5';
+const MUTED = '#6b7280';
+
+// Table column edges - numbers are right-aligned on them
+const COLUMN_QUANTITY = 350;
+const COLUMN_UNIT_PRICE = 450;
+const DESCRIPTION_WIDTH = 260;
+
+const formatAmount = (amount: number, currency: string, decimals: number): string => {
+  const formatted = Math.abs(amount).toLocaleString('en-US', {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals
+  });
+  return `${amount < 0 ? '-' : ''}${currency} ${formatted}`;
+};
+
+const formatDate = (value: string): string => {
+  return new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' });
+};
+
+const formatRate = (rate: number): string => `${parseFloat((rate * 100).toFixed(2))}%`;
+
+const drawFooter = (pdf: PdfDocument, document: BillingDocument): void => {
+  const { seller } = document.content;
+  const legal = [
+    seller.legalName,
+    seller.vatNumber && `VAT ${seller.vatNumber}`,
+    seller.registrationNumber && `Reg. no. ${seller.registrationNumber}`
+  ].filter(Boolean).join(' · ');
+
+  pdf.line(MARGIN, PAGE_HEIGHT - 60, RIGHT, PAGE_HEIGHT - 60);
+  pdf.text(legal, MARGIN, PAGE_HEIGHT - 44, { size: 8, color: MUTED });
+  pdf.text(`${document.number} · Page ${pdf.pageCount}`, RIGHT, PAGE_HEIGHT - 44, { size: 8, color: MUTED, align: 'right' });
+};
+
+const drawTableHeader = (pdf: PdfDocument, y: number): number => {
+  pdf.rect(MARGIN, y, RIGHT - MARGIN, 20, '#f3f4f6');
+  const options = { size: 9, bold: true, color: '#374151' };
+  pdf.text('Description', MARGIN + 8, y + 13.5, options);
+  pdf.text('Qty', COLUMN_QUANTITY, y + 13.5, { ...options, align: 'right' });
+  pdf.text('Unit price', COLUMN_UNIT_PRICE, y + 13.5, { ...options, align: 'right' });
+  pdf.text('Amount', RIGHT - 8, y + 13.5, { ...options, align: 'right' });
+  return y + 20;
+};
+
+/**
+ * Draw one document, starting on a new page
+ * Lines that do not fit continue on further pages under a repeated table header.
+ */
+const drawDocument = (pdf: PdfDocument, document: BillingDocument): void => {
+  const { content, currency } = document;
+  const isCreditNote = document.documentType === 'credit_note';
+  const money = (amount: number) => formatAmount(amount, currency, content.currencyDecimals);
+
+  pdf.addPage();
+
+  // Heading
+  pdf.text(content.seller.legalName, MARGIN, 70, { size: 18, bold: true });
+  pdf.text(isCreditNote ? 'CREDIT NOTE' : 'INVOICE', RIGHT, 70, { size: 18, bold: true, color: ACCENT, align: 'right' });
+  pdf.text(document.number, RIGHT, 88, { size: 11, color: MUTED, align: 'right' });
+  pdf.line(MARGIN, 100, RIGHT, 100, ACCENT, 1.5);
+
+  // Seller on the left, document details on the right
+  let sellerY = 124;
+  const sellerLines = [
+    ...content.seller.addressLines,
+    content.seller.vatNumber && `VAT number: ${content.seller.vatNumber}`,
+    content.seller.registrationNumber && `Registration number: ${content.seller.registrationNumber}`,
+    content.seller.email
+  ].filter((line): line is string => Boolean(line));
+
+  pdf.text(content.seller.legalName, MARGIN, sellerY, { size: 10, bold: true });
+  for (const line of sellerLines) {
+    sellerY += 13;
+    pdf.text(line, MARGIN, sellerY, { size: 9, color: '#374151' });
+  }
+
+  const details: Array<[string, string]> = [
+    ['Issue date', formatDate(document.issuedAt)],
+    ['Order', `#${content.orderNumber}`],
+    ['Order date', formatDate(content.orderDate)]
+  ];
+  if (content.paymentMethod) {
+    details.push(['Payment', PAYMENT_METHOD_LABELS[content.paymentMethod] || content.paymentMethod.replace(/_/g, ' ')]);
+  }
+  if (content.correctedInvoiceNumber) {
+    details.push(['Corrects invoice', content.correctedInvoiceNumber]);
+  }
+
+  let detailsY = 124;
+  for (const [label, value] of details) {
+    pdf.text(label, 340, detailsY, { size: 9, color: MUTED });
+    pdf.text(value, RIGHT, detailsY, { size: 9, bold: true, align: 'right' });
+    detailsY += 15;
+  }
+
+  // Buyer
+  let y = Math.max(sellerY + 13, detailsY) + 20;
+  pdf.text(isCreditNote ? 'CREDITED TO' : 'BILL TO', MARGIN, y, { size: 8, bold: true, color: MUTED });
+  y += 15;
+  pdf.text(content.buyer.name, MARGIN, y, { size: 10, bold: true });
+  for (const line of [...content.buyer.addressLines, content.buyer.email].filter((line): line is string => Boolean(line))) {
+    y += 13;
+    pdf.text(line, MARGIN, y, { size: 9, color: '#374151' });
+  }
+
+  // Lines
+  y = drawTableHeader(pdf, y + 24);
+
+  for (const line of content.lines) {
+    const descriptionLines = pdf.wrapText(line.description, DESCRIPTION_WIDTH, 9.5);
+    const rowHeight = descriptionLines.length * 12 + 10;
+
+    if (y + rowHeight > CONTENT_BOTTOM) {
+      drawFooter(pdf, document);
+      pdf.addPage();
+      pdf.text(`${document.number} (continued)`, MARGIN, 70, { size: 11, bold: true });
+      y = drawTableHeader(pdf, 88);
+    }
+
+    descriptionLines.forEach((text, index) => {
+      pdf.text(text, MARGIN + 8, y + 16 + index * 12, { size: 9.5 });
+    });
+    pdf.text(String(line.quantity), COLUMN_QUANTITY, y + 16, { size: 9.5, align: 'right' });
+    pdf.text(money(line.unitPrice), COLUMN_UNIT_PRICE, y + 16, { size: 9.5, align: 'right' });
+    pdf.text(money(line.amount), RIGHT - 8, y + 16, { size: 9.5, align: 'right' });
+    y += rowHeight;
+    pdf.line(MARGIN, y, RIGHT, y, '#e5e7eb');
+  }
+
+  // Totals, with the tax broken down by rate
+  const totals: Array<[string, number]> = [[isCreditNote ? 'Net amount' : 'Subtotal', content.subtotal]];
+  if (!isCreditNote) {
+    totals.push(['Shipping', content.shippingCost]);
+  }
+  if (content.discountAmount > 0) {
+    totals.push(['Discount', -content.discountAmount]);
+  }
+  if (content.codFee > 0) {
+    totals.push(['Cash on delivery fee', content.codFee]);
+  }
+  for (const line of content.taxLines) {
+    totals.push([`${line.name} ${formatRate(line.rate)} on ${money(line.taxableAmount)}`, line.amount]);
+  }
+  if (content.taxLines.length !== 1) {
+    totals.push(['Total tax', content.taxAmount]);
+  }
+
+  const totalsHeight = totals.length * 16 + 40 + (content.reason ? 40 : 0);
+  if (y + totalsHeight > CONTENT_BOTTOM) {
+    drawFooter(pdf, document);
+    pdf.addPage();
+    y = 70;
+  }
+
+  y += 22;
+  for (const [label, amount] of totals) {
+    pdf.text(label, COLUMN_UNIT_PRICE, y, { size: 9.5, color: '#374151', align: 'right' });
+    pdf.text(money(amount), RIGHT - 8, y, { size: 9.5, align: 'right' });
+    y += 16;
+  }
+
+  pdf.line(300, y - 6, RIGHT, y - 6, '#9ca3af');
+  y += 10;
+  pdf.text(isCreditNote ? 'Total credited' : 'Total', COLUMN_UNIT_PRICE, y, { size: 12, bold: true, align: 'right' });
+  pdf.text(money(content.total), RIGHT - 8, y, { size: 12, bold: true, align: 'right' });
+
+  if (content.reason) {
+    y += 30;
+    for (const text of pdf.wrapText(`Reason: ${content.reason}`, RIGHT - MARGIN, 9)) {
+      pdf.text(text, MARGIN, y, { size: 9, color: MUTED });
+      y += 12;
+    }
+  }
+
+  drawFooter(pdf, document);
+};
+
+/**
+ * Render documents into one PDF, each starting on its own page
+ */
+export const renderDocumentsPdf = (documents: BillingDocument[], title: string): Buffer => {
+  const pdf = new PdfDocument(title);
+  documents.forEach(document => drawDocument(pdf, document));
+  return pdf.toBuffer();
+};
@@ -0,0 +1,581 @@
+import jwt from 'jsonwebtoken';
+import { query, withTransaction, Queryable } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+import { roundMoney } from './money';
+import { resolveCurrency, convertAmount, Currency } from './currencies';
+import { renderEmail } from './emailTemplates';
+import { queueEmail } from './emailOutbox';
+import { isSingleEmailAddress } from './mailTransports';
+
+export type CheckoutDraftStatus = 'open' | 'reminded' | 'converted' | 'closed';
+
+// How long a checkout must sit untouched before the recovery email goes out
+export const ABANDONED_CHECKOUT_DELAY_MINUTES = parseInt(process.env.ABANDONED_CHECKOUT_DELAY_MINUTES || '60', 10);
+
+// Drafts older than this are no longer chased
+const MAX_DRAFT_AGE_DAYS = parseInt(process.env.ABANDONED_CHECKOUT_MAX_AGE_DAYS || '7', 10);
+
+// Lifetime of the token kept by the browser and of the emailed recovery link
+export const CHECKOUT_DRAFT_TOKEN_TTL_HOURS = parseInt(process.env.CHECKOUT_DRAFT_TOKEN_TTL_HOURS || '168', 10);
+
+const SWEEP_INTERVAL_MS = parseInt(process.env.ABANDONED_CHECKOUT_SWEEP_INTERVAL_MS || '300000', 10);
+
+// Each draft can become a recovery email, so one address only gets a few at a time
+const MAX_OPEN_DRAFTS_PER_EMAIL = parseInt(process.env.CHECKOUT_DRAFT_MAX_OPEN_PER_EMAIL || '3', 10);
+
+const MAX_DRAFT_ITEMS = 100;
+const MAX_ITEM_QUANTITY = 99;
+const MAX_FIELD_LENGTH = 500;
+
+// Keeps draft tokens from being accepted as order links or sign-in tokens
+const TOKEN_AUDIENCE = 'checkout-draft';
+
+// Address fields kept with a draft - anything else sent is dropped
+const DRAFT_ADDRESS_FIELDS = ['fullName', 'phone', 'addressLine1', 'addressLine2', 'city', 'state', 'postalCode', 'country'] as const;
+
+export type CheckoutDraftAddress = Partial<Record<typeof DRAFT_ADDRESS_FIELDS[number], string>>;
+
+export interface CheckoutDraftItem {
+  productId: string;
+  quantity: number;
+  variants?: Record<string, string>;
+}
+
+// The checkout form as the customer left it - never payment details
+export interface CheckoutDraftForm {
+  shippingAddress: CheckoutDraftAddress;
+  billingSameAsShipping: boolean;
+  billingAddress: CheckoutDraftAddress | null;
+  deliveryMethodId: string | null;
+  couponCode: string | null;
+  orderNotes: string | null;
+}
+
+export interface CheckoutDraftInput {
+  email: string;
+  items: CheckoutDraftItem[];
+  form: CheckoutDraftForm;
+  currency: string | null;
+}
+
+// A cart line of a restored draft with the product as it is now
+export interface RestoredCheckoutItem extends CheckoutDraftItem {
+  name: string;
+  price: number;
+  image: string | null;
+  maxStock: number;
+  category: string | null;
+}
+
+export interface RestoredCheckout {
+  draftId: string;
+  email: string;
+  items: RestoredCheckoutItem[];
+  // Lines left out because the product is gone or sold out
+  unavailableCount: number;
+  form: CheckoutDraftForm;
+  currency: string | null;
+}
+
+// A draft as listed to admins
+export interface CheckoutDraftSummary {
+  id: string;
+  email: string;
+  status: CheckoutDraftStatus;
+  itemCount: number;
+  orderId: string | null;
+  orderNumber: string | null;
+  orderTotal: number | null;
+  reminderSentAt: string | null;
+  restoredAt: string | null;
+  convertedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CheckoutRecoveryStats {
+  days: number;
+  captured: number;
+  converted: number;
+  // Reminded drafts - their customer left and was sent a recovery link
+  abandoned: number;
+  restored: number;
+  recovered: number;
+  recoveryRate: number;
+  // Net of refunds, for recovered orders that were paid
+  recoveredRevenue: number;
+  baseCurrency: string;
+  drafts: CheckoutDraftSummary[];
+}
+
+const getSecret = (): string => {
+  const secret = process.env.CHECKOUT_DRAFT_TOKEN_SECRET || process.env.ORDER_ACCESS_TOKEN_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('CHECKOUT_DRAFT_TOKEN_SECRET is not defined');
+  }
+  return secret;
+};
+
+/**
+ * Sign a token that lets its holder read and update one draft
+ * The browser keeps it while checking out; the recovery email links with one.
+ */
+export const createCheckoutDraftToken = (draftId: string): string => {
+  return jwt.sign({}, getSecret(), {
+    audience: TOKEN_AUDIENCE,
+    subject: draftId,
+    expiresIn: CHECKOUT_DRAFT_TOKEN_TTL_HOURS * 3600
+  });
+};
+
+// True when the token is unexpired and was issued for this draft
+export const verifyCheckoutDraftToken = (token: unknown, draftId: unknown): boolean => {
+  if (typeof token !== 'string' || typeof draftId !== 'string') {
+    return false;
+  }
+  try {
+    jwt.verify(token, getSecret(), { audience: TOKEN_AUDIENCE, subject: draftId });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// Storefront link that restores a draft's cart and form
+export const buildCheckoutRecoveryUrl = (draftId: string, token: string): string => {
+  const clientUrl = process.env.CLIENT_URL || 'http://localhost:5173';
+  return `${clientUrl}/checkout/recover/${draftId}?token=${encodeURIComponent(token)}`;
+};
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+export const isDraftId = (value: unknown): value is string => {
+  return typeof value === 'string' && uuidRegex.test(value);
+};
+
+const optionalText = (value: unknown): string | null => {
+  return typeof value === 'string' && value.trim() ? value.trim().slice(0, MAX_FIELD_LENGTH) : null;
+};
+
+const parseDraftAddress = (value: unknown): CheckoutDraftAddress => {
+  const address: CheckoutDraftAddress = {};
+  if (!value || typeof value !== 'object') {
+    return address;
+  }
+
+  for (const field of DRAFT_ADDRESS_FIELDS) {
+    const text = optionalText((value as Record<string, unknown>)[field]);
+    if (text) {
+      address[field] = text;
+    }
+  }
+  return address;
+};
+
+const parseVariants = (value: unknown): Record<string, string> | undefined => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    .map(([key, option]) => [key.slice(0, 50), option.slice(0, 100)]);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+/**
+ * Read a draft sent by the checkout page
+ * The form is kept leniently - it is half filled in by nature - but the email
+ * and cart lines must be usable.
+ */
+export const parseCheckoutDraftInput = (body: any): { draft: CheckoutDraftInput | null; errors: string[] } => {
+  const errors: string[] = [];
+
+  const email = typeof body?.email === 'string' ? body.email.trim().toLowerCase() : '';
+  // The same check the outbox applies, so every saved draft can be emailed
+  if (!isSingleEmailAddress(email)) {
+    errors.push('A valid email is required');
+  }
+
+  const items: CheckoutDraftItem[] = [];
+  if (!Array.isArray(body?.items) || body.items.length === 0) {
+    errors.push('Items must be a non-empty array');
+  } else if (body.items.length > MAX_DRAFT_ITEMS) {
+    errors.push(`A checkout can hold at most ${MAX_DRAFT_ITEMS} items`);
+  } else {
+    body.items.forEach((item: any, index: number) => {
+      if (!item || !uuidRegex.test(item.productId) || !Number.isInteger(item.quantity)
+        || item.quantity < 1 || item.quantity > MAX_ITEM_QUANTITY) {
+        errors.push(`Item ${index + 1} needs a product ID and a quantity from 1 to ${MAX_ITEM_QUANTITY}`);
+        return;
+      }
+      items.push({ productId: item.productId, quantity: item.quantity, variants: parseVariants(item.variants) });
+    });
+  }
+
+  if (errors.length > 0) {
+    return { draft: null, errors };
+  }
+
+  const form = body.form || {};
+  return {
+    draft: {
+      email,
+      items,
+      form: {
+        shippingAddress: parseDraftAddress(form.shippingAddress),
+        billingSameAsShipping: form.billingSameAsShipping !== false,
+        billingAddress: form.billingSameAsShipping === false ? parseDraftAddress(form.billingAddress) : null,
+        deliveryMethodId: typeof form.deliveryMethodId === 'string' && uuidRegex.test(form.deliveryMethodId) ? form.deliveryMethodId : null,
+        couponCode: optionalText(form.couponCode)?.toUpperCase() || null,
+        orderNotes: optionalText(form.orderNotes)
+      },
+      currency: typeof body.currency === 'string' && /^[A-Z]{3}$/.test(body.currency) ? body.currency : null
+    },
+    errors
+  };
+};
+
+/**
+ * Refuse another draft for an address that already has as many as it may
+ * Only drafts young enough to be chased count - older ones are never emailed.
+ */
+const assertDraftCapacity = async (db: Queryable, email: string): Promise<void> => {
+  const openResult = await db.query(
+    `SELECT COUNT(*) AS open_drafts
+     FROM checkout_drafts
+     WHERE email = $1 AND status IN ('open', 'reminded') AND created_at > NOW() - make_interval(days => $2)`,
+    [email, MAX_DRAFT_AGE_DAYS]
+  );
+
+  if (parseInt(openResult.rows[0].open_drafts) >= MAX_OPEN_DRAFTS_PER_EMAIL) {
+    throw createError('Too many saved checkouts for this email address', 429);
+  }
+};
+
+/**
+ * Save the checkout a customer is filling in
+ * A draft the caller holds a token for is updated while it is still open or
+ * reminded; otherwise a new one is started. Moving a draft to another address
+ * counts against that address like a new draft. Returns the draft with a fresh token.
+ */
+export const saveCheckoutDraft = async (
+  db: Queryable,
+  draft: CheckoutDraftInput,
+  options: { draftId?: unknown; token?: unknown; userId: string | null }
+): Promise<{ draftId: string; token: string }> => {
+  const values = [draft.email, JSON.stringify(draft.items), JSON.stringify(draft.form), draft.currency, options.userId];
+
+  if (isDraftId(options.draftId) && verifyCheckoutDraftToken(options.token, options.draftId)) {
+    const existingResult = await db.query(
+      "SELECT email FROM checkout_drafts WHERE id = $1 AND status IN ('open', 'reminded')",
+      [options.draftId]
+    );
+    const existing = existingResult.rows[0];
+
+    if (existing) {
+      if (existing.email !== draft.email) {
+        await assertDraftCapacity(db, draft.email);
+      }
+
+      const updateResult = await db.query(
+        `UPDATE checkout_drafts
+         SET email = $1, items = $2, form = $3, currency = $4, user_id = COALESCE($5, user_id), updated_at = NOW()
+         WHERE id = $6 AND status IN ('open', 'reminded')
+         RETURNING id`,
+        [...values, options.draftId]
+      );
+
+      if (updateResult.rows.length > 0) {
+        return { draftId: options.draftId, token: createCheckoutDraftToken(options.draftId) };
+      }
+    }
+  }
+
+  await assertDraftCapacity(db, draft.email);
+
+  const insertResult = await db.query(
+    `INSERT INTO checkout_drafts (email, items, form, currency, user_id)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING id`,
+    values
+  );
+  const draftId = insertResult.rows[0].id;
+
+  return { draftId, token: createCheckoutDraftToken(draftId) };
+};
+
+// Draft lines with the products as they are now, dropping unavailable ones
+const loadDraftItems = async (db: Queryable, items: CheckoutDraftItem[]): Promise<RestoredCheckoutItem[]> => {
+  const productsResult = await db.query(
+    `SELECT p.id, p.name, p.price, p.image_url, p.stock, c.name AS category_name
+     FROM products p
+     LEFT JOIN categories c ON p.category_id = c.id
+     WHERE p.id = ANY($1)`,
+    [items.map(item => item.productId)]
+  );
+  const products = new Map(productsResult.rows.map(row => [row.id, row]));
+
+  return items.flatMap(item => {
+    const product = products.get(item.productId);
+    if (!product || product.stock <= 0) {
+      return [];
+    }
+    return [{
+      ...item,
+      quantity: Math.min(item.quantity, product.stock),
+      name: product.name,
+      price: parseFloat(product.price),
+      image: product.image_url,
+      maxStock: product.stock,
+      category: product.category_name
+    }];
+  });
+};
+
+/**
+ * Open a draft from its recovery link or the browser's token
+ * The first restore after the reminder is recorded for the recovery stats.
+ */
+export const restoreCheckoutDraft = async (draftId: string, db: Queryable = { query }): Promise<RestoredCheckout> => {
+  const draftResult = await db.query('SELECT * FROM checkout_drafts WHERE id = $1', [draftId]);
+  const row = draftResult.rows[0];
+
+  if (!row) {
+    throw createError('This checkout link is no longer valid', 404);
+  }
+  if (row.status === 'converted') {
+    throw createError('This checkout has already been completed', 410);
+  }
+
+  if (row.reminder_sent_at && !row.restored_at) {
+    await db.query('UPDATE checkout_drafts SET restored_at = NOW() WHERE id = $1 AND restored_at IS NULL', [draftId]);
+  }
+
+  const items = await loadDraftItems(db, row.items);
+
+  return {
+    draftId: row.id,
+    email: row.email,
+    items,
+    unavailableCount: row.items.length - items.length,
+    form: row.form,
+    currency: row.currency ? row.currency.trim() : null
+  };
+};
+
+/**
+ * Close the draft an order was placed from
+ * Call inside the order's transaction, after checking the caller's token.
+ */
+export const markCheckoutDraftConverted = async (db: Queryable, draftId: string, orderId: string): Promise<void> => {
+  await db.query(
+    `UPDATE checkout_drafts
+     SET status = 'converted', order_id = $1, converted_at = NOW(), updated_at = NOW()
+     WHERE id = $2 AND status IN ('open', 'reminded')`,
+    [orderId, draftId]
+  );
+};
+
+// The draft's currency if it can still be priced in, the base currency otherwise
+const resolveDraftCurrency = async (db: Queryable, code: string | null): Promise<Currency> => {
+  try {
+    return await resolveCurrency(code, db);
+  } catch (error) {
+    return resolveCurrency(null, db);
+  }
+};
+
+/**
+ * Queue the recovery email of one abandoned draft
+ * The draft stays locked while the email is queued so two sweepers never
+ * remind twice. Drafts with nothing left to buy, or no usable address, are
+ * closed instead.
+ * Returns whether an email was queued.
+ */
+const remindDraft = async (draftId: string): Promise<boolean> => {
+  return withTransaction(async (client) => {
+    const draftResult = await client.query(
+      `SELECT d.*, u.full_name
+       FROM checkout_drafts d
+       LEFT JOIN users u ON d.user_id = u.id
+       WHERE d.id = $1 AND d.status = 'open' AND d.reminder_sent_at IS NULL
+       FOR UPDATE OF d SKIP LOCKED`,
+      [draftId]
+    );
+    const draft = draftResult.rows[0];
+
+    if (!draft) {
+      return false;
+    }
+
+    const items = await loadDraftItems(client, draft.items);
+    // Drafts saved before addresses were checked this strictly cannot be emailed
+    if (items.length === 0 || !isSingleEmailAddress(draft.email)) {
+      await client.query("UPDATE checkout_drafts SET status = 'closed', updated_at = NOW() WHERE id = $1", [draftId]);
+      return false;
+    }
+
+    const currency = await resolveDraftCurrency(client, draft.currency ? draft.currency.trim() : null);
+    const lines = items.map(item => ({
+      name: item.name,
+      quantity: item.quantity,
+      lineTotal: convertAmount(item.price * item.quantity, currency)
+    }));
+
+    await queueEmail(client, {
+      ...renderEmail({
+        template: 'checkout_recovery',
+        customerName: draft.full_name || draft.form?.shippingAddress?.fullName || 'there',
+        recoveryUrl: buildCheckoutRecoveryUrl(draftId, createCheckoutDraftToken(draftId)),
+        currency: currency.code,
+        items: lines,
+        total: roundMoney(lines.reduce((sum, line) => sum + line.lineTotal, 0), currency.decimals),
+        expiresInHours: CHECKOUT_DRAFT_TOKEN_TTL_HOURS
+      }),
+      template: 'checkout_recovery',
+      recipient: draft.email
+    });
+
+    await client.query(
+      "UPDATE checkout_drafts SET status = 'reminded', reminder_sent_at = NOW() WHERE id = $1",
+      [draftId]
+    );
+
+    return true;
+  });
+};
+
+/**
+ * Email the customers whose checkout has been abandoned
+ * Drafts whose customer has ordered since - from another device, say - are
+ * closed without an email. Returns how many reminders were queued.
+ */
+export const remindAbandonedCheckouts = async (): Promise<number> => {
+  await query(
+    `UPDATE checkout_drafts d
+     SET status = 'closed', updated_at = NOW()
+     WHERE d.status = 'open'
+       AND EXISTS (
+         SELECT 1 FROM orders o
+         WHERE LOWER(o.customer_email) = d.email AND o.created_at >= d.created_at
+       )`
+  );
+
+  const dueResult = await query(
+    `SELECT id FROM checkout_drafts
+     WHERE status = 'open' AND reminder_sent_at IS NULL
+       AND updated_at < NOW() - make_interval(mins => $1)
+       AND created_at > NOW() - make_interval(days => $2)
+     ORDER BY updated_at
+     LIMIT 100`,
+    [ABANDONED_CHECKOUT_DELAY_MINUTES, MAX_DRAFT_AGE_DAYS]
+  );
+
+  let reminded = 0;
+  for (const row of dueResult.rows) {
+    try {
+      if (await remindDraft(row.id)) {
+        reminded++;
+      }
+    } catch (error) {
+      // Close the draft so it is not retried, and the ones after it still get their email
+      console.error(`❌ Error reminding abandoned checkout ${row.id}:`, (error as Error).message);
+      await query("UPDATE checkout_drafts SET status = 'closed', updated_at = NOW() WHERE id = $1", [row.id]);
+    }
+  }
+  return reminded;
+};
+
+/**
+ * Periodically email abandoned checkouts
+ */
+export const startAbandonedCheckoutSweeper = (): NodeJS.Timeout => {
+  const timer = setInterval(() => {
+    remindAbandonedCheckouts()
+      .then(count => {
+        if (count > 0) {
+          console.log(`🛒 Sent recovery emails for ${count} abandoned checkout(s)`);
+        }
+      })
+      .catch(error => {
+        console.error('❌ Error reminding abandoned checkouts:', (error as Error).message);
+      });
+  }, SWEEP_INTERVAL_MS);
+
+  // Do not keep the process alive just for the sweeper
+  timer.unref();
+  return timer;
+};
+
+/**
+ * How well recovery emails bring customers back, over the last `days` days
+ * A draft counts as recovered when its order was placed after the reminder.
+ */
+export const getCheckoutRecoveryStats = async (days: number, db: Queryable = { query }): Promise<CheckoutRecoveryStats> => {
+  const statsResult = await db.query(
+    `SELECT
+       COUNT(*) AS captured,
+       COUNT(CASE WHEN d.status = 'converted' THEN 1 END) AS converted,
+       COUNT(d.reminder_sent_at) AS abandoned,
+       COUNT(CASE WHEN d.reminder_sent_at IS NOT NULL AND d.restored_at IS NOT NULL THEN 1 END) AS restored,
+       COUNT(CASE WHEN d.status = 'converted' AND d.reminder_sent_at IS NOT NULL THEN 1 END) AS recovered,
+       COALESCE(SUM(
+         CASE WHEN d.status = 'converted' AND d.reminder_sent_at IS NOT NULL AND o.status NOT IN ('pending', 'cancelled')
+           THEN o.base_total - COALESCE(r.refunded, 0) / o.exchange_rate
+         END
+       ), 0) AS recovered_revenue
+     FROM checkout_drafts d
+     LEFT JOIN orders o ON d.order_id = o.id
+     LEFT JOIN (
+       SELECT order_id, SUM(amount) AS refunded
+       FROM refunds
+       WHERE status <> 'failed'
+       GROUP BY order_id
+     ) r ON r.order_id = o.id
+     WHERE d.created_at >= NOW() - make_interval(days => $1)`,
+    [days]
+  );
+  const stats = statsResult.rows[0];
+
+  const draftsResult = await db.query(
+    `SELECT d.id, d.email, d.status, jsonb_array_length(d.items) AS item_count, d.order_id, o.base_total,
+            d.reminder_sent_at, d.restored_at, d.converted_at, d.created_at, d.updated_at
+     FROM checkout_drafts d
+     LEFT JOIN orders o ON d.order_id = o.id
+     WHERE d.created_at >= NOW() - make_interval(days => $1) AND d.reminder_sent_at IS NOT NULL
+     ORDER BY d.reminder_sent_at DESC
+     LIMIT 50`,
+    [days]
+  );
+
+  const abandoned = parseInt(stats.abandoned);
+  const recovered = parseInt(stats.recovered);
+  const baseCurrency = await resolveCurrency(null, db);
+
+  return {
+    days,
+    captured: parseInt(stats.captured),
+    converted: parseInt(stats.converted),
+    abandoned,
+    restored: parseInt(stats.restored),
+    recovered,
+    recoveryRate: abandoned > 0 ? roundMoney(recovered / abandoned, 4) : 0,
+    recoveredRevenue: roundMoney(parseFloat(stats.recovered_revenue), baseCurrency.decimals),
+    baseCurrency: baseCurrency.code,
+    drafts: draftsResult.rows.map(row => ({
+      id: row.id,
+      email: row.email,
+      status: row.status,
+      itemCount: parseInt(row.item_count),
+      orderId: row.order_id,
+      orderNumber: row.order_id ? row.order_id.substring(0, 8).toUpperCase() : null,
+      orderTotal: row.base_total !== null && row.base_total !== undefined ? parseFloat(row.base_total) : null,
+      reminderSentAt: row.reminder_sent_at,
+      restoredAt: row.restored_at,
+      convertedAt: row.converted_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }))
+  };
+};
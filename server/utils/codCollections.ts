@@ -0,0 +1,417 @@
+import { PoolClient } from 'pg';
+import { query, Queryable } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+import { roundMoney } from './money';
+import { transitionOrder } from './orderStateMachine';
+import { StatusChangeActor } from './orderStatusHistory';
+
+export type CodCollectionStatus = 'awaiting_collection' | 'collected' | 'failed' | 'refused';
+
+export const COD_COLLECTION_STATUSES: CodCollectionStatus[] = ['awaiting_collection', 'collected', 'failed', 'refused'];
+
+// Where a collection can go - a failed attempt can be tried again, collected and refused are final
+const COLLECTION_TRANSITIONS: Record<CodCollectionStatus, CodCollectionStatus[]> = {
+  awaiting_collection: ['collected', 'failed', 'refused'],
+  failed: ['awaiting_collection', 'collected', 'refused'],
+  collected: [],
+  refused: []
+};
+
+export type RemittanceStatus = 'reconciled' | 'discrepancy' | 'resolved';
+
+// Cash the courier still owes us is aged in these buckets (days)
+const AGING_BUCKETS = [
+  { label: '0-7 days', maxDays: 7 },
+  { label: '8-14 days', maxDays: 14 },
+  { label: '15-30 days', maxDays: 30 },
+  { label: 'Over 30 days', maxDays: Infinity }
+];
+
+export interface CodCollection {
+  id: string;
+  orderId: string;
+  orderNumber: string;
+  orderStatus: string;
+  customerEmail: string;
+  expectedAmount: number;
+  collectedAmount: number | null;
+  status: CodCollectionStatus;
+  driverReference: string | null;
+  note: string | null;
+  remittanceId: string | null;
+  remittanceReference: string | null;
+  collectedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CodRemittance {
+  id: string;
+  reference: string;
+  courier: string;
+  expectedAmount: number;
+  receivedAmount: number;
+  // received minus expected - negative when the courier paid in too little
+  difference: number;
+  status: RemittanceStatus;
+  note: string | null;
+  collectionCount: number;
+  createdByName: string | null;
+  receivedAt: string;
+}
+
+// Money owed on cash on delivery orders, grouped by age
+export interface CodReceivablesReport {
+  awaitingCollection: { count: number; amount: number };
+  heldByCourier: { count: number; amount: number };
+  totalOutstanding: number;
+  aging: Array<{ label: string; count: number; amount: number }>;
+  collections: Array<CodCollection & { ageDays: number }>;
+}
+
+export interface CollectionOutcome {
+  status: CodCollectionStatus;
+  amount?: number | null;
+  driverReference?: string | null;
+  note?: string | null;
+}
+
+export interface CreateRemittanceOptions {
+  reference: string;
+  courier: string;
+  receivedAmount: number;
+  collectionIds: string[];
+  note: string | null;
+}
+
+export const isCodCollectionStatus = (value: unknown): value is CodCollectionStatus => {
+  return typeof value === 'string' && COD_COLLECTION_STATUSES.includes(value as CodCollectionStatus);
+};
+
+const mapCollectionRow = (row: any): CodCollection => ({
+  id: row.id,
+  orderId: row.order_id,
+  orderNumber: row.order_id.substring(0, 8).toUpperCase(),
+  orderStatus: row.order_status,
+  customerEmail: row.customer_email,
+  expectedAmount: parseFloat(row.expected_amount),
+  collectedAmount: row.collected_amount === null ? null : parseFloat(row.collected_amount),
+  status: row.status,
+  driverReference: row.driver_reference,
+  note: row.note,
+  remittanceId: row.remittance_id,
+  remittanceReference: row.remittance_reference || null,
+  collectedAt: row.collected_at,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const mapRemittanceRow = (row: any): CodRemittance => ({
+  id: row.id,
+  reference: row.reference,
+  courier: row.courier,
+  expectedAmount: parseFloat(row.expected_amount),
+  receivedAmount: parseFloat(row.received_amount),
+  difference: roundMoney(parseFloat(row.received_amount) - parseFloat(row.expected_amount)),
+  status: row.status,
+  note: row.note,
+  collectionCount: parseInt(row.collection_count || '0'),
+  createdByName: row.created_by_name || null,
+  receivedAt: row.received_at
+});
+
+/**
+ * Cash on delivery collections, newest first
+ * unremitted limits the list to cash collected but not yet paid in by the courier.
+ */
+export const getCodCollections = async (
+  filters: { status?: CodCollectionStatus; unremitted?: boolean; orderId?: string },
+  db: Queryable = { query }
+): Promise<CodCollection[]> => {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (filters.status) {
+    params.push(filters.status);
+    conditions.push(`c.status = $${params.length}`);
+  }
+  if (filters.unremitted) {
+    conditions.push("c.status = 'collected' AND c.remittance_id IS NULL");
+  }
+  if (filters.orderId) {
+    params.push(filters.orderId);
+    conditions.push(`c.order_id = $${params.length}`);
+  }
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const result = await db.query(
+    `SELECT c.*, o.status AS order_status, o.customer_email, r.reference AS remittance_reference
+     FROM cod_collections c
+     JOIN orders o ON c.order_id = o.id
+     LEFT JOIN cod_remittances r ON c.remittance_id = r.id
+     ${whereClause}
+     ORDER BY c.created_at DESC
+     LIMIT 200`,
+    params
+  );
+
+  return result.rows.map(mapCollectionRow);
+};
+
+/**
+ * Record what happened when the courier tried to collect the cash
+ * Collected cash completes the payment and delivers the order. A refused
+ * delivery sends the order to returned and puts its items back in stock. A
+ * failed attempt keeps the order shipped so the courier can try again.
+ */
+export const recordCollectionOutcome = async (
+  client: PoolClient,
+  orderId: string,
+  outcome: CollectionOutcome,
+  actor: StatusChangeActor
+): Promise<void> => {
+  const collectionResult = await client.query(
+    `SELECT c.*, o.status AS order_status
+     FROM cod_collections c
+     JOIN orders o ON c.order_id = o.id
+     WHERE c.order_id = $1
+     FOR UPDATE OF c`,
+    [orderId]
+  );
+
+  if (collectionResult.rows.length === 0) {
+    throw createError('This order has no cash on delivery collection', 404);
+  }
+
+  const collection = collectionResult.rows[0];
+  const allowed = COLLECTION_TRANSITIONS[collection.status as CodCollectionStatus] || [];
+
+  if (!allowed.includes(outcome.status)) {
+    throw createError(
+      allowed.length > 0
+        ? `Cannot change a ${collection.status} collection to ${outcome.status}. Allowed: ${allowed.join(', ')}`
+        : `This collection is already ${collection.status}`,
+      409
+    );
+  }
+
+  const note = outcome.note?.trim() || null;
+  const driverReference = outcome.driverReference?.trim() || collection.driver_reference;
+
+  if ((outcome.status === 'failed' || outcome.status === 'refused') && !note) {
+    throw createError('Please say what happened at the door', 400);
+  }
+
+  if (outcome.status === 'collected') {
+    const amount = roundMoney(outcome.amount ?? parseFloat(collection.expected_amount));
+
+    if (!(amount > 0)) {
+      throw createError('Collected amount must be greater than zero', 400);
+    }
+
+    await client.query(
+      `UPDATE cod_collections
+       SET status = 'collected', collected_amount = $1, driver_reference = $2, note = COALESCE($3, note),
+           collected_at = NOW(), recorded_by = $4, updated_at = NOW()
+       WHERE id = $5`,
+      [amount, driverReference, note, actor.userId, collection.id]
+    );
+    await client.query(
+      "UPDATE payments SET status = 'success' WHERE order_id = $1 AND status = 'initiated'",
+      [orderId]
+    );
+
+    if (collection.order_status === 'shipped') {
+      await transitionOrder(client, orderId, 'delivered', actor, 'Cash collected on delivery');
+    }
+    return;
+  }
+
+  if (outcome.status === 'refused' && collection.order_status !== 'shipped') {
+    throw createError(`Only shipped orders can be refused - this order is ${collection.order_status}`, 409);
+  }
+
+  await client.query(
+    `UPDATE cod_collections
+     SET status = $1, driver_reference = $2, note = COALESCE($3, note), recorded_by = $4, updated_at = NOW()
+     WHERE id = $5`,
+    [outcome.status, driverReference, note, actor.userId, collection.id]
+  );
+
+  if (outcome.status === 'refused') {
+    await transitionOrder(client, orderId, 'returned', actor, `Delivery refused: ${note}`);
+
+    // The parcel comes back to the warehouse untouched
+    const itemsResult = await client.query(
+      'SELECT product_id, quantity FROM order_items WHERE order_id = $1',
+      [orderId]
+    );
+    for (const item of itemsResult.rows) {
+      await client.query(
+        'UPDATE products SET stock = stock + $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+        [item.quantity, item.product_id]
+      );
+    }
+
+    await client.query(
+      "UPDATE payments SET status = 'cancelled' WHERE order_id = $1 AND status = 'initiated'",
+      [orderId]
+    );
+  }
+};
+
+/**
+ * Remittances received from couriers, newest first
+ */
+export const getRemittances = async (db: Queryable = { query }): Promise<CodRemittance[]> => {
+  const result = await db.query(
+    `SELECT r.*, u.full_name AS created_by_name,
+            (SELECT COUNT(*) FROM cod_collections c WHERE c.remittance_id = r.id) AS collection_count
+     FROM cod_remittances r
+     LEFT JOIN users u ON r.created_by = u.id
+     ORDER BY r.received_at DESC
+     LIMIT 100`
+  );
+
+  return result.rows.map(mapRemittanceRow);
+};
+
+/**
+ * Record cash paid in by a courier against the collections it covers
+ * The collections are locked so one cannot be counted in two remittances. Any
+ * difference from what the courier collected is kept on the remittance.
+ */
+export const createRemittance = async (
+  client: PoolClient,
+  options: CreateRemittanceOptions,
+  actor: StatusChangeActor
+): Promise<CodRemittance> => {
+  const reference = options.reference.trim();
+  const receivedAmount = roundMoney(options.receivedAmount);
+  const collectionIds = [...new Set(options.collectionIds)];
+
+  if (collectionIds.length === 0) {
+    throw createError('Choose the collections this remittance covers', 400);
+  }
+
+  const existing = await client.query('SELECT id FROM cod_remittances WHERE reference = $1', [reference]);
+  if (existing.rows.length > 0) {
+    throw createError(`A remittance with reference ${reference} already exists`, 409);
+  }
+
+  const collectionsResult = await client.query(
+    `SELECT id, order_id, status, remittance_id, collected_amount
+     FROM cod_collections
+     WHERE id = ANY($1)
+     ORDER BY id
+     FOR UPDATE`,
+    [collectionIds]
+  );
+
+  if (collectionsResult.rows.length !== collectionIds.length) {
+    throw createError('One or more collections were not found', 404);
+  }
+
+  const unavailable = collectionsResult.rows.filter(row => row.status !== 'collected' || row.remittance_id);
+  if (unavailable.length > 0) {
+    throw createError(
+      'Only collected cash that has not been remitted can be included. Check orders: '
+        + unavailable.map(row => `#${row.order_id.substring(0, 8).toUpperCase()}`).join(', '),
+      409
+    );
+  }
+
+  const expectedAmount = roundMoney(
+    collectionsResult.rows.reduce((sum, row) => sum + parseFloat(row.collected_amount), 0)
+  );
+  const status: RemittanceStatus = expectedAmount === receivedAmount ? 'reconciled' : 'discrepancy';
+
+  const remittanceResult = await client.query(
+    `INSERT INTO cod_remittances (reference, courier, expected_amount, received_amount, status, note, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING *`,
+    [reference, options.courier.trim(), expectedAmount, receivedAmount, status, options.note, actor.userId]
+  );
+  const remittance = remittanceResult.rows[0];
+
+  await client.query(
+    'UPDATE cod_collections SET remittance_id = $1, updated_at = NOW() WHERE id = ANY($2)',
+    [remittance.id, collectionIds]
+  );
+
+  return mapRemittanceRow({ ...remittance, collection_count: collectionIds.length });
+};
+
+/**
+ * Close a remittance whose amount did not match, with a note on how it was settled
+ */
+export const resolveRemittance = async (
+  client: PoolClient,
+  remittanceId: string,
+  note: string
+): Promise<void> => {
+  const result = await client.query(
+    `UPDATE cod_remittances
+     SET status = 'resolved', note = $1
+     WHERE id = $2 AND status = 'discrepancy'
+     RETURNING id`,
+    [note, remittanceId]
+  );
+
+  if (result.rows.length === 0) {
+    const existing = await client.query('SELECT status FROM cod_remittances WHERE id = $1', [remittanceId]);
+    throw existing.rows.length === 0
+      ? createError('Remittance not found', 404)
+      : createError(`This remittance is ${existing.rows[0].status} - only discrepancies can be resolved`, 409);
+  }
+};
+
+/**
+ * Cash on delivery money not yet in our hands
+ * Covers orders still waiting for the courier to collect, and cash the
+ * courier collected but has not remitted. Ages count from shipping for the
+ * first and from collection for the second.
+ */
+export const getCodReceivables = async (db: Queryable = { query }): Promise<CodReceivablesReport> => {
+  const outstanding = [
+    ...await getCodCollections({ status: 'awaiting_collection' }, db),
+    ...await getCodCollections({ status: 'failed' }, db),
+    ...await getCodCollections({ unremitted: true }, db)
+  ];
+
+  const now = Date.now();
+  const collections = outstanding.map(collection => {
+    const since = new Date(collection.status === 'collected' && collection.collectedAt
+      ? collection.collectedAt
+      : collection.createdAt);
+    return { ...collection, ageDays: Math.floor((now - since.getTime()) / (24 * 60 * 60 * 1000)) };
+  }).sort((a, b) => b.ageDays - a.ageDays);
+
+  const amountOf = (collection: CodCollection) => collection.status === 'collected'
+    ? collection.collectedAmount || 0
+    : collection.expectedAmount;
+
+  const summarize = (items: CodCollection[]) => ({
+    count: items.length,
+    amount: roundMoney(items.reduce((sum, item) => sum + amountOf(item), 0))
+  });
+
+  const awaitingCollection = summarize(collections.filter(item => item.status !== 'collected'));
+  const heldByCourier = summarize(collections.filter(item => item.status === 'collected'));
+
+  let lowerBound = -1;
+  const aging = AGING_BUCKETS.map(bucket => {
+    const inBucket = collections.filter(item => item.ageDays > lowerBound && item.ageDays <= bucket.maxDays);
+    lowerBound = bucket.maxDays;
+    return { label: bucket.label, ...summarize(inBucket) };
+  });
+
+  return {
+    awaitingCollection,
+    heldByCourier,
+    totalOutstanding: roundMoney(awaitingCollection.amount + heldByCourier.amount),
+    aging,
+    collections
+  };
+};
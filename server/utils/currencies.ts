@@ -0,0 +1,119 @@
+import { query, Queryable } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+import { roundMoney } from './money';
+
+// A currency as stored in currencies
+export interface Currency {
+  code: string;
+  name: string;
+  // Minor units amounts are rounded to, e.g. 2 for cents
+  decimals: number;
+  // Units of this currency per 1 unit of the base currency
+  rate: number;
+  isBase: boolean;
+  isEnabled: boolean;
+  rateUpdatedAt: string | null;
+}
+
+// One line of an exchange rate file
+export interface CurrencyRateImport {
+  code: string;
+  rate: number;
+}
+
+const currencyCodeRegex = /^[A-Z]{3}$/;
+
+export const CURRENCY_SELECT = 'SELECT code, name, decimals, rate_to_base, is_base, is_enabled, rate_updated_at FROM currencies';
+
+export const isCurrencyCode = (value: unknown): value is string => {
+  return typeof value === 'string' && currencyCodeRegex.test(value);
+};
+
+export const mapCurrencyRow = (row: any): Currency => ({
+  // char(3) columns come back padded to their length
+  code: row.code.trim(),
+  name: row.name,
+  decimals: row.decimals,
+  rate: parseFloat(row.rate_to_base),
+  isBase: row.is_base,
+  isEnabled: row.is_enabled,
+  rateUpdatedAt: row.rate_updated_at
+});
+
+/**
+ * All currencies, base currency first
+ */
+export const getCurrencies = async (
+  options: { enabledOnly?: boolean } = {},
+  db: Queryable = { query }
+): Promise<Currency[]> => {
+  const result = await db.query(
+    `${CURRENCY_SELECT} ${options.enabledOnly ? 'WHERE is_enabled = true' : ''} ORDER BY is_base DESC, code`
+  );
+  return result.rows.map(mapCurrencyRow);
+};
+
+/**
+ * The currency an order is priced in
+ * No code means the base currency; unknown and disabled currencies are rejected.
+ */
+export const resolveCurrency = async (
+  code: string | null | undefined,
+  db: Queryable = { query }
+): Promise<Currency> => {
+  if (code !== undefined && code !== null && code !== '' && !isCurrencyCode(code)) {
+    throw createError('Currency must be a three-letter ISO code', 400);
+  }
+
+  const result = code
+    ? await db.query(`${CURRENCY_SELECT} WHERE code = $1 AND is_enabled = true`, [code])
+    : await db.query(`${CURRENCY_SELECT} WHERE is_base = true`);
+
+  if (result.rows.length === 0) {
+    throw createError(code ? `Prices are not available in ${code}` : 'No base currency is configured', code ? 400 : 500);
+  }
+
+  return mapCurrencyRow(result.rows[0]);
+};
+
+/**
+ * Convert a base-currency amount and round it to the currency's minor units
+ */
+export const convertAmount = (amount: number, currency: Currency): number => {
+  return roundMoney(amount * currency.rate, currency.decimals);
+};
+
+/**
+ * Read an exchange rate file
+ * One "CODE,rate" pair per line, rates being units per 1 base unit. Blank
+ * lines, lines starting with # and a "code,rate" header are skipped; any other
+ * line that cannot be read is reported with its line number.
+ */
+export const parseRateImport = (text: string): { rates: CurrencyRateImport[]; errors: string[] } => {
+  const rates: CurrencyRateImport[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || /^code\s*[,;]\s*rate$/i.test(line)) {
+      return;
+    }
+
+    const [code, rateText, ...rest] = line.split(/\s*[,;]\s*/);
+    const rate = Number(rateText);
+
+    if (rest.length > 0 || !isCurrencyCode(code?.toUpperCase()) || !rateText || !Number.isFinite(rate) || rate <= 0) {
+      errors.push(`Line ${index + 1}: expected "CODE,rate" with a positive rate`);
+      return;
+    }
+
+    if (rates.some(r => r.code === code.toUpperCase())) {
+      errors.push(`Line ${index + 1}: ${code.toUpperCase()} is listed more than once`);
+      return;
+    }
+
+    rates.push({ code: code.toUpperCase(), rate });
+  });
+
+  return { rates, errors };
+};
@@ -0,0 +1,154 @@
+import { query, Queryable } from '../config/database';
+
+// Dates are worked out on the store's calendar, not the server's
+const STORE_TIMEZONE = process.env.STORE_TIMEZONE || 'UTC';
+
+// Longest run of closed days the estimator will skip over
+const MAX_CLOSED_DAYS = 60;
+
+// How long a delivery method takes, as stored in delivery_methods
+export interface DeliveryWindow {
+  minBusinessDays: number;
+  maxBusinessDays: number;
+  // Orders placed at or after this hour (store time) leave the next business day
+  cutoffHour: number;
+}
+
+// Calendar dates (YYYY-MM-DD, store time) an order should arrive between
+export interface DeliveryEstimate {
+  dispatchDate: string;
+  earliest: string;
+  latest: string;
+}
+
+// A day the store does not ship, as stored in store_holidays
+export interface StoreHoliday {
+  id: string;
+  date: string;
+  name: string;
+  createdAt: string;
+}
+
+export const mapDeliveryWindowRow = (row: any): DeliveryWindow => ({
+  minBusinessDays: row.min_business_days,
+  maxBusinessDays: row.max_business_days,
+  cutoffHour: row.cutoff_hour
+});
+
+export const mapStoreHolidayRow = (row: any): StoreHoliday => ({
+  id: row.id,
+  date: row.holiday_date,
+  name: row.name,
+  createdAt: row.created_at
+});
+
+/**
+ * Date and hour of a moment in the store's timezone
+ */
+const toStoreTime = (moment: Date): { date: string; hour: number } => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: STORE_TIMEZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(moment);
+
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    hour: parseInt(part('hour'), 10)
+  };
+};
+
+// Calendar dates are handled as UTC midnights so no timezone shifts them
+const addDays = (date: string, days: number): string => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().substring(0, 10);
+};
+
+const isBusinessDay = (date: string, holidays: Set<string>): boolean => {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return weekday !== 0 && weekday !== 6 && !holidays.has(date);
+};
+
+const nextBusinessDay = (date: string, holidays: Set<string>): string => {
+  let next = addDays(date, 1);
+  for (let skipped = 0; !isBusinessDay(next, holidays) && skipped < MAX_CLOSED_DAYS; skipped++) {
+    next = addDays(next, 1);
+  }
+  return next;
+};
+
+const addBusinessDays = (date: string, days: number, holidays: Set<string>): string => {
+  let result = date;
+  for (let i = 0; i < days; i++) {
+    result = nextBusinessDay(result, holidays);
+  }
+  return result;
+};
+
+/**
+ * Store holidays from a date onwards, as YYYY-MM-DD dates
+ */
+export const getHolidayDates = async (from: Date = new Date(), db: Queryable = { query }): Promise<Set<string>> => {
+  const result = await db.query(
+    "SELECT to_char(holiday_date, 'YYYY-MM-DD') AS holiday_date FROM store_holidays WHERE holiday_date >= $1::date",
+    [toStoreTime(from).date]
+  );
+
+  return new Set(result.rows.map(row => row.holiday_date));
+};
+
+/**
+ * Work out the delivery dates for an order placed at a given moment
+ * An order placed on a business day before the cut-off hour leaves that day,
+ * otherwise on the next business day. Transit days skip weekends and holidays.
+ */
+export const calculateDeliveryEstimate = (
+  window: DeliveryWindow,
+  placedAt: Date,
+  holidays: Set<string>
+): DeliveryEstimate => {
+  const placed = toStoreTime(placedAt);
+
+  const dispatchDate = isBusinessDay(placed.date, holidays) && placed.hour < window.cutoffHour
+    ? placed.date
+    : nextBusinessDay(placed.date, holidays);
+
+  return {
+    dispatchDate,
+    earliest: addBusinessDays(dispatchDate, window.minBusinessDays, holidays),
+    latest: addBusinessDays(dispatchDate, window.maxBusinessDays, holidays)
+  };
+};
+
+/**
+ * Load the holiday calendar and estimate delivery for one order
+ */
+export const estimateDelivery = async (
+  window: DeliveryWindow,
+  placedAt: Date = new Date(),
+  db: Queryable = { query }
+): Promise<DeliveryEstimate> => {
+  const holidays = await getHolidayDates(placedAt, db);
+  return calculateDeliveryEstimate(window, placedAt, holidays);
+};
+
+/**
+ * Human readable range for messages sent to customers, e.g. "Oct 21 - Oct 23"
+ */
+export const formatDeliveryEstimate = (estimate: DeliveryEstimate): string => {
+  const format = (date: string) => new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    timeZone: 'UTC',
+    month: 'short',
+    day: 'numeric'
+  });
+
+  return estimate.earliest === estimate.latest
+    ? format(estimate.latest)
+    : `${format(estimate.earliest)} - ${format(estimate.latest)}`;
+};
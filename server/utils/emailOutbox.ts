@@ -0,0 +1,291 @@
+import { query, withTransaction, Queryable } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+import { getMailTransport, isSingleEmailAddress } from './mailTransports';
+import { EmailTemplate, RenderedEmail } from './emailTemplates';
+
+export type EmailStatus = 'pending' | 'sent' | 'failed';
+
+export const EMAIL_STATUSES: EmailStatus[] = ['pending', 'sent', 'failed'];
+
+// Failed sends are retried with a growing delay, then left for an admin
+export const MAX_EMAIL_ATTEMPTS = parseInt(process.env.EMAIL_MAX_ATTEMPTS || '6', 10);
+
+const SEND_INTERVAL_MS = parseInt(process.env.EMAIL_OUTBOX_INTERVAL_MS || '15000', 10);
+
+// Emails carrying a single-use link - the body is dropped once sent and they cannot be resent
+const SENSITIVE_TEMPLATES: EmailTemplate[] = ['password_reset'];
+
+const UNDELIVERABLE_RECIPIENT_ERROR = 'Recipient is not a single valid email address';
+
+const REDACTED_BODY = '[Removed after sending - this email contained a single-use link]';
+
+// Shown to admins in place of a single-use link email that has not been sent yet
+const HIDDEN_BODY = '[Hidden - this email contains a single-use link]';
+
+// One outbox entry, as shown to admins
+export interface OutboxEmail {
+  id: string;
+  template: EmailTemplate;
+  recipient: string;
+  subject: string;
+  orderId: string | null;
+  orderNumber: string | null;
+  resentFromId: string | null;
+  status: EmailStatus;
+  attempts: number;
+  lastError: string | null;
+  transport: string | null;
+  messageId: string | null;
+  createdAt: string;
+  sentAt: string | null;
+  nextAttemptAt: string | null;
+}
+
+export interface OutboxEmailWithBody extends OutboxEmail {
+  htmlBody: string;
+  textBody: string;
+}
+
+export const isEmailStatus = (value: unknown): value is EmailStatus => {
+  return typeof value === 'string' && EMAIL_STATUSES.includes(value as EmailStatus);
+};
+
+const mapOutboxRow = (row: any): OutboxEmail => ({
+  id: row.id,
+  template: row.template,
+  recipient: row.recipient,
+  subject: row.subject,
+  orderId: row.order_id,
+  orderNumber: row.order_id ? row.order_id.substring(0, 8).toUpperCase() : null,
+  resentFromId: row.resent_from_id,
+  status: row.status,
+  attempts: row.attempts,
+  lastError: row.last_error,
+  transport: row.transport,
+  messageId: row.message_id,
+  createdAt: row.created_at,
+  sentAt: row.sent_at,
+  nextAttemptAt: row.next_attempt_at
+});
+
+/**
+ * Add an email to the outbox
+ * Pass the transaction client so the email is only sent if the change it
+ * announces is committed. A recipient that is not a single plain address is
+ * never sent - the email is kept as failed for admins to see, without failing
+ * the change it belongs to (older orders may hold such addresses).
+ */
+export const queueEmail = async (
+  db: Queryable,
+  email: RenderedEmail & { template: EmailTemplate; recipient: string; orderId?: string | null }
+): Promise<string> => {
+  const deliverable = isSingleEmailAddress(email.recipient);
+  if (!deliverable) {
+    console.error(`Not sending ${email.template} email: recipient is not a single valid email address`);
+  }
+
+  const result = await db.query(
+    `INSERT INTO email_outbox (template, recipient, subject, html_body, text_body, order_id, status, last_error, next_attempt_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, CASE WHEN $7 = 'pending' THEN NOW() END)
+     RETURNING id`,
+    [
+      email.template,
+      email.recipient,
+      email.subject,
+      email.html,
+      email.text,
+      email.orderId || null,
+      deliverable ? 'pending' : 'failed',
+      deliverable ? null : UNDELIVERABLE_RECIPIENT_ERROR
+    ]
+  );
+
+  return result.rows[0].id;
+};
+
+/**
+ * Send one outbox email through the configured transport
+ * The row stays locked while it is sent so two workers never send it twice.
+ * Failures are stored on the row and it is scheduled for another attempt.
+ * Returns null when the email is already sent or another worker has it.
+ */
+export const deliverEmail = async (id: string): Promise<OutboxEmail | null> => {
+  return withTransaction(async (client) => {
+    const emailResult = await client.query(
+      "SELECT * FROM email_outbox WHERE id = $1 AND status <> 'sent' FOR UPDATE SKIP LOCKED",
+      [id]
+    );
+    const row = emailResult.rows[0];
+
+    if (!row) {
+      return null;
+    }
+
+    let updateResult;
+    try {
+      const transport = getMailTransport();
+      const { messageId } = await transport.send({
+        to: row.recipient,
+        subject: row.subject,
+        html: row.html_body,
+        text: row.text_body
+      });
+      const redact = SENSITIVE_TEMPLATES.includes(row.template);
+
+      updateResult = await client.query(
+        `UPDATE email_outbox
+         SET status = 'sent', attempts = attempts + 1, last_error = NULL, transport = $1, message_id = $2,
+             sent_at = NOW(), next_attempt_at = NULL,
+             html_body = CASE WHEN $3 THEN $4 ELSE html_body END,
+             text_body = CASE WHEN $3 THEN $4 ELSE text_body END
+         WHERE id = $5
+         RETURNING *`,
+        [transport.name, messageId, redact, REDACTED_BODY, id]
+      );
+    } catch (error) {
+      // Back off 1, 2, 4... minutes; stop retrying after the last attempt
+      updateResult = await client.query(
+        `UPDATE email_outbox
+         SET status = 'failed', attempts = attempts + 1, last_error = $1,
+             next_attempt_at = CASE WHEN attempts + 1 >= $2 THEN NULL
+                                    ELSE NOW() + INTERVAL '1 minute' * POWER(2, attempts) END
+         WHERE id = $3
+         RETURNING *`,
+        [(error as Error).message, MAX_EMAIL_ATTEMPTS, id]
+      );
+    }
+
+    return mapOutboxRow(updateResult.rows[0]);
+  });
+};
+
+/**
+ * Send queued emails and failed ones whose retry time has come
+ */
+export const deliverDueEmails = async (): Promise<number> => {
+  const dueResult = await query(
+    `SELECT id FROM email_outbox
+     WHERE status IN ('pending', 'failed') AND next_attempt_at <= NOW()
+     ORDER BY created_at
+     LIMIT 50`
+  );
+
+  let sent = 0;
+  for (const row of dueResult.rows) {
+    const email = await deliverEmail(row.id);
+    if (email?.status === 'sent') {
+      sent++;
+    }
+  }
+
+  return sent;
+};
+
+/**
+ * Periodically send what is waiting in the outbox
+ */
+export const startEmailOutboxSender = (): NodeJS.Timeout => {
+  const timer = setInterval(() => {
+    deliverDueEmails()
+      .then(count => {
+        if (count > 0) {
+          console.log(`✉️  Sent ${count} email(s)`);
+        }
+      })
+      .catch(error => {
+        console.error('❌ Error sending emails:', (error as Error).message);
+      });
+  }, SEND_INTERVAL_MS);
+
+  // Do not keep the process alive just for the sender
+  timer.unref();
+  return timer;
+};
+
+/**
+ * Recent outbox emails, newest first, without their bodies
+ */
+export const getOutboxEmails = async (
+  filters: { status?: EmailStatus; orderId?: string },
+  db: Queryable = { query }
+): Promise<OutboxEmail[]> => {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (filters.status) {
+    params.push(filters.status);
+    conditions.push(`status = $${params.length}`);
+  }
+  if (filters.orderId) {
+    params.push(filters.orderId);
+    conditions.push(`order_id = $${params.length}`);
+  }
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const result = await db.query(
+    `SELECT id, template, recipient, subject, order_id, resent_from_id, status, attempts, last_error,
+            transport, message_id, created_at, sent_at, next_attempt_at
+     FROM email_outbox
+     ${whereClause}
+     ORDER BY created_at DESC
+     LIMIT 200`,
+    params
+  );
+
+  return result.rows.map(mapOutboxRow);
+};
+
+export const getOutboxEmail = async (id: string, db: Queryable = { query }): Promise<OutboxEmailWithBody | null> => {
+  const result = await db.query('SELECT * FROM email_outbox WHERE id = $1', [id]);
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const row = result.rows[0];
+
+  // A live reset link would let whoever reads it take over the account - admins included
+  if (SENSITIVE_TEMPLATES.includes(row.template)) {
+    const body = row.status === 'sent' ? REDACTED_BODY : HIDDEN_BODY;
+    return { ...mapOutboxRow(row), htmlBody: body, textBody: body };
+  }
+
+  return { ...mapOutboxRow(row), htmlBody: row.html_body, textBody: row.text_body };
+};
+
+/**
+ * Queue a copy of an email and send it straight away
+ * The original stays in the outbox as it was, so the log shows every send.
+ */
+export const resendEmail = async (id: string): Promise<OutboxEmail> => {
+  const original = await getOutboxEmail(id);
+
+  if (!original) {
+    throw createError('Email not found', 404);
+  }
+  if (SENSITIVE_TEMPLATES.includes(original.template)) {
+    throw createError('This email contained a single-use link and cannot be resent - ask the customer to request a new one', 409);
+  }
+  if (!isSingleEmailAddress(original.recipient)) {
+    throw createError(UNDELIVERABLE_RECIPIENT_ERROR, 400);
+  }
+
+  const insertResult = await query(
+    `INSERT INTO email_outbox (template, recipient, subject, html_body, text_body, order_id, resent_from_id)
+     SELECT template, recipient, subject, html_body, text_body, order_id, id
+     FROM email_outbox
+     WHERE id = $1
+     RETURNING id`,
+    [id]
+  );
+  const copyId = insertResult.rows[0].id;
+
+  const sent = await deliverEmail(copyId);
+  if (sent) {
+    return sent;
+  }
+
+  const result = await query('SELECT * FROM email_outbox WHERE id = $1', [copyId]);
+  return mapOutboxRow(result.rows[0]);
+};
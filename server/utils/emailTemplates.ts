@@ -0,0 +1,215 @@
+import { formatMoney } from './money';
+
+// Name shown in email headings and footers
+const STORE_NAME = process.env.STORE_NAME || 'ZineShop';
+
+export type EmailTemplate =
+  | 'order_placed'
+  | 'order_paid'
+  | 'order_shipped'
+  | 'order_cancelled'
+  | 'refund_issued'
+  | 'order_lookup'
+  | 'password_reset'
+  | 'checkout_recovery';
+
+export const EMAIL_TEMPLATES: EmailTemplate[] = [
+  'order_placed', 'order_paid', 'order_shipped', 'order_cancelled', 'refund_issued', 'order_lookup', 'password_reset',
+  'checkout_recovery'
+];
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailOrderLine {
+  name: string;
+  quantity: number;
+  lineTotal: number;
+}
+
+// What every order email shows
+export interface OrderEmailDetails {
+  customerName: string;
+  orderNumber: string;
+  orderUrl: string;
+  currency: string;
+  total: number;
+  items: EmailOrderLine[];
+}
+
+export type TemplateData =
+  | { template: 'order_placed'; order: OrderEmailDetails; paymentMethod: string; deliveryEstimate: string | null }
+  | { template: 'order_paid'; order: OrderEmailDetails }
+  | { template: 'order_shipped'; order: OrderEmailDetails; carrierName: string; trackingNumber: string; trackingUrl: string | null; items: EmailOrderLine[] }
+  | { template: 'order_cancelled'; order: OrderEmailDetails; reason: string | null; refundDue: boolean }
+  | { template: 'refund_issued'; order: OrderEmailDetails; amount: number; reason: string | null }
+  | { template: 'order_lookup'; order: OrderEmailDetails; expiresInHours: number }
+  | { template: 'password_reset'; customerName: string; resetUrl: string; expiresInMinutes: number }
+  | { template: 'checkout_recovery'; customerName: string; recoveryUrl: string; currency: string; items: EmailOrderLine[]; total: number; expiresInHours: number };
+
+export const isEmailTemplate = (value: unknown): value is EmailTemplate => {
+  return typeof value === 'string' && EMAIL_TEMPLATES.includes(value as EmailTemplate);
+};
+
+const escapeHtml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+// Email parts - each renders to both HTML and plain text
+type Block =
+  | { type: 'paragraph'; text: string }
+  | { type: 'items'; currency: string; items: EmailOrderLine[]; total?: number }
+  | { type: 'button'; label: string; url: string };
+
+const renderHtml = (heading: string, blocks: Block[]): string => {
+  const body = blocks.map(block => {
+    switch (block.type) {
+      case 'paragraph':
+        return `<p style="margin:0 0 16px;line-height:1.5;">${escapeHtml(block.text)}</p>`;
+      case 'items': {
+        const rows = block.items.map(item =>
+          `<tr><td style="padding:6px 0;">${item.quantity} &times; ${escapeHtml(item.name)}</td>` +
+          `<td style="padding:6px 0;text-align:right;">${escapeHtml(formatMoney(item.lineTotal, block.currency))}</td></tr>`
+        );
+        if (block.total !== undefined) {
+          rows.push(
+            `<tr><td style="padding:8px 0;border-top:1px solid #e5e7eb;font-weight:bold;">Total</td>` +
+            `<td style="padding:8px 0;border-top:1px solid #e5e7eb;text-align:right;font-weight:bold;">${escapeHtml(formatMoney(block.total, block.currency))}</td></tr>`
+          );
+        }
+        return `<table style="width:100%;border-collapse:collapse;margin:0 0 16px;">${rows.join('')}</table>`;
+      }
+      case 'button':
+        return `<p style="margin:24px 0;"><a href="${escapeHtml(block.url)}" style="background:#4f46e5;color:#ffffff;padding:12px 20px;border-radius:8px;text-decoration:none;display:inline-block;">${escapeHtml(block.label)}</a></p>`;
+    }
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:Helvetica,Arial,sans-serif;color:#111827;">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:12px;padding:32px;">
+<p style="margin:0 0 24px;font-size:20px;font-weight:bold;color:#4f46e5;">${escapeHtml(STORE_NAME)}</p>
+<h1 style="margin:0 0 16px;font-size:22px;">${escapeHtml(heading)}</h1>
+${body}
+</div>
+<p style="text-align:center;font-size:12px;color:#6b7280;margin-top:16px;">You are receiving this email because of your account or order at ${escapeHtml(STORE_NAME)}.</p>
+</body>
+</html>`;
+};
+
+const renderText = (heading: string, blocks: Block[]): string => {
+  const body = blocks.map(block => {
+    switch (block.type) {
+      case 'paragraph':
+        return block.text;
+      case 'items': {
+        const lines = block.items.map(item => `${item.quantity} x ${item.name} - ${formatMoney(item.lineTotal, block.currency)}`);
+        if (block.total !== undefined) {
+          lines.push(`Total: ${formatMoney(block.total, block.currency)}`);
+        }
+        return lines.join('\n');
+      }
+      case 'button':
+        return `${block.label}: ${block.url}`;
+    }
+  }).join('\n\n');
+
+  return `${heading}\n\n${body}\n\n-- \n${STORE_NAME}\n`;
+};
+
+const render = (subject: string, heading: string, blocks: Block[]): RenderedEmail => ({
+  subject,
+  html: renderHtml(heading, blocks),
+  text: renderText(heading, blocks)
+});
+
+/**
+ * Subject, HTML and plain text body of a transactional email
+ */
+export const renderEmail = (data: TemplateData): RenderedEmail => {
+  if (data.template === 'password_reset') {
+    return render('Reset your password', 'Reset your password', [
+      { type: 'paragraph', text: `Hi ${data.customerName},` },
+      { type: 'paragraph', text: `Someone asked to reset the password of your ${STORE_NAME} account. The link works once and expires in ${data.expiresInMinutes} minutes.` },
+      { type: 'button', label: 'Choose a new password', url: data.resetUrl },
+      { type: 'paragraph', text: 'If it was not you, ignore this email - your password stays the same.' }
+    ]);
+  }
+
+  if (data.template === 'checkout_recovery') {
+    return render('You left something in your cart', 'Your cart is waiting', [
+      { type: 'paragraph', text: `Hi ${data.customerName},` },
+      { type: 'paragraph', text: 'You did not finish your checkout. We kept your cart and the details you filled in, so you can pick up where you left off.' },
+      { type: 'items', currency: data.currency, items: data.items, total: data.total },
+      { type: 'button', label: 'Complete your order', url: data.recoveryUrl },
+      { type: 'paragraph', text: `The link works for ${data.expiresInHours} hours. Prices and availability are checked again when you order.` }
+    ]);
+  }
+
+  const { order } = data;
+  const greeting: Block = { type: 'paragraph', text: `Hi ${order.customerName},` };
+  const orderLink: Block = { type: 'button', label: 'View your order', url: order.orderUrl };
+
+  switch (data.template) {
+    case 'order_placed':
+      return render(`Order #${order.orderNumber} received`, 'Thanks for your order', [
+        greeting,
+        {
+          type: 'paragraph',
+          text: data.paymentMethod === 'cash_on_delivery'
+            ? `We have received order #${order.orderNumber}. You pay the courier in cash when it arrives.`
+            : `We have received order #${order.orderNumber}. We will email you again once the payment has gone through.`
+        },
+        { type: 'items', currency: order.currency, items: order.items, total: order.total },
+        ...(data.deliveryEstimate
+          ? [{ type: 'paragraph' as const, text: `Estimated delivery: ${data.deliveryEstimate}.` }]
+          : []),
+        orderLink
+      ]);
+    case 'order_paid':
+      return render(`Payment received for order #${order.orderNumber}`, 'Payment received', [
+        greeting,
+        { type: 'paragraph', text: `We have received your payment of ${formatMoney(order.total, order.currency)} for order #${order.orderNumber}. Your invoice can be downloaded from the order page.` },
+        orderLink
+      ]);
+    case 'order_shipped':
+      return render(`Order #${order.orderNumber} is on its way`, 'Your order is on its way', [
+        greeting,
+        { type: 'paragraph', text: `A parcel of order #${order.orderNumber} has been handed to ${data.carrierName}. Tracking number: ${data.trackingNumber}.` },
+        { type: 'items', currency: order.currency, items: data.items },
+        ...(data.trackingUrl
+          ? [{ type: 'button' as const, label: 'Track your parcel', url: data.trackingUrl }]
+          : []),
+        orderLink
+      ]);
+    case 'order_cancelled':
+      return render(`Order #${order.orderNumber} was cancelled`, 'Your order was cancelled', [
+        greeting,
+        { type: 'paragraph', text: `Order #${order.orderNumber} has been cancelled${data.reason ? ` - ${data.reason}` : ''}.` },
+        ...(data.refundDue
+          ? [{ type: 'paragraph' as const, text: 'The money you paid will be refunded to your original payment method.' }]
+          : []),
+        orderLink
+      ]);
+    case 'refund_issued':
+      return render(`Refund for order #${order.orderNumber}`, 'Your refund is on its way', [
+        greeting,
+        { type: 'paragraph', text: `We have refunded ${formatMoney(data.amount, order.currency)} for order #${order.orderNumber}${data.reason ? ` - ${data.reason}` : ''}. Depending on your bank it can take a few days to show.` },
+        { type: 'paragraph', text: 'The credit note can be downloaded from the order page.' },
+        orderLink
+      ]);
+    case 'order_lookup':
+      return render(`Your link to order #${order.orderNumber}`, 'Here is your order', [
+        greeting,
+        { type: 'paragraph', text: `You asked for a link to order #${order.orderNumber}. It works for ${data.expiresInHours} hours.` },
+        orderLink,
+        { type: 'paragraph', text: 'If it was not you, you can ignore this email.' }
+      ]);
+  }
+};
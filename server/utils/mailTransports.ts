@@ -0,0 +1,205 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import nodemailer from 'nodemailer';
+
+// A rendered email ready to hand to a transport
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<{ messageId: string }>;
+}
+
+const SMTP_TIMEOUT_MS = parseInt(process.env.SMTP_TIMEOUT_MS || '30000', 10);
+
+export const getSenderAddress = (): string => process.env.EMAIL_FROM || 'ZineShop <no-reply@zineshop.com>';
+
+// The bare address of "Name <address>"
+const extractAddress = (value: string): string => {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+};
+
+/**
+ * Whether a value is exactly one plain email address
+ * No whitespace (so no CR/LF), quoting, brackets or separators - anything that
+ * could smuggle extra recipients or protocol commands into a send.
+ */
+export const isSingleEmailAddress = (value: unknown): value is string => {
+  return typeof value === 'string'
+    && value.length <= 254
+    && /^[^\s@<>()",;:\\]+@[^\s@<>()",;:\\]+\.[^\s@<>()",;:\\]+$/.test(value);
+};
+
+// Every transport checks the recipient itself, whatever put it in the outbox
+const assertRecipient = (message: MailMessage): string => {
+  const address = extractAddress(message.to);
+  if (/[\r\n]/.test(message.to) || !isSingleEmailAddress(address)) {
+    throw new Error('Recipient is not a single valid email address');
+  }
+  return address;
+};
+
+// Header values may not break onto new lines; non-ASCII text is sent as an encoded word
+const encodeHeader = (value: string): string => {
+  const singleLine = value.replace(/[\r\n]+/g, ' ');
+  return /^[ -~]*$/.test(singleLine)
+    ? singleLine
+    : `=?UTF-8?B?${Buffer.from(singleLine, 'utf8').toString('base64')}?=`;
+};
+
+const encodeAddress = (value: string): string => {
+  const match = value.match(/^(.*)<([^>]+)>\s*$/);
+  if (!match || !match[1].trim()) {
+    return extractAddress(value);
+  }
+  return `${encodeHeader(match[1].trim().replace(/^"|"$/g, ''))} <${match[2].trim()}>`;
+};
+
+const base64Lines = (content: string): string => {
+  return (Buffer.from(content, 'utf8').toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+};
+
+/**
+ * Build the RFC 5322 message with text and HTML alternatives
+ */
+export const buildMimeMessage = (message: MailMessage, messageId: string): string => {
+  const boundary = `alt-${randomUUID()}`;
+
+  return [
+    `From: ${encodeAddress(getSenderAddress())}`,
+    `To: ${encodeAddress(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.html),
+    `--${boundary}--`,
+    ''
+  ].join('\r\n');
+};
+
+const createMessageId = (): string => {
+  const domain = extractAddress(getSenderAddress()).split('@')[1] || 'localhost';
+  return `<${randomUUID()}@${domain}>`;
+};
+
+/**
+ * Delivers through an SMTP server (SMTP_HOST, SMTP_PORT...)
+ * SMTP_SECURE=true connects over TLS straight away (port 465); otherwise the
+ * connection is upgraded with STARTTLS whenever the server offers it.
+ */
+const smtpTransport: MailTransport = {
+  name: 'smtp',
+
+  async send(message) {
+    const recipient = assertRecipient(message);
+    const host = process.env.SMTP_HOST;
+    if (!host) {
+      throw new Error('SMTP_HOST is not set');
+    }
+    const secure = process.env.SMTP_SECURE === 'true';
+    const user = process.env.SMTP_USER;
+
+    const mailer = nodemailer.createTransport({
+      host,
+      port: parseInt(process.env.SMTP_PORT || (secure ? '465' : '587'), 10),
+      secure,
+      auth: user ? { user, pass: process.env.SMTP_PASSWORD || '' } : undefined,
+      connectionTimeout: SMTP_TIMEOUT_MS,
+      greetingTimeout: SMTP_TIMEOUT_MS,
+      socketTimeout: SMTP_TIMEOUT_MS
+    });
+
+    try {
+      const sender = getSenderAddress();
+      const info = await mailer.sendMail({
+        from: sender,
+        to: message.to,
+        // The envelope is spelled out so only the checked address is ever sent RCPT TO
+        envelope: { from: extractAddress(sender), to: [recipient] },
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        messageId: createMessageId()
+      });
+
+      return { messageId: info.messageId };
+    } finally {
+      mailer.close();
+    }
+  }
+};
+
+/**
+ * Writes each email as an .eml file (EMAIL_FILE_DIR) instead of sending it
+ * The local stand-in for an SMTP server - open the files in any mail client.
+ */
+const fileTransport: MailTransport = {
+  name: 'file',
+
+  async send(message) {
+    assertRecipient(message);
+    const directory = process.env.EMAIL_FILE_DIR || path.join(process.cwd(), 'tmp', 'emails');
+    const messageId = createMessageId();
+    const filename = `${new Date().toISOString().replace(/[:.]/g, '-')}-${messageId.slice(1, 9)}.eml`;
+
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(path.join(directory, filename), buildMimeMessage(message, messageId), 'utf8');
+
+    return { messageId };
+  }
+};
+
+// Emails taken by the memory transport, newest last
+export const sentEmails: Array<MailMessage & { messageId: string }> = [];
+
+/**
+ * Keeps emails in sentEmails - for tests and throwaway environments
+ */
+const memoryTransport: MailTransport = {
+  name: 'memory',
+
+  async send(message) {
+    assertRecipient(message);
+    const messageId = createMessageId();
+    sentEmails.push({ ...message, messageId });
+    return { messageId };
+  }
+};
+
+const TRANSPORTS: Record<string, MailTransport> = {
+  [smtpTransport.name]: smtpTransport,
+  [fileTransport.name]: fileTransport,
+  [memoryTransport.name]: memoryTransport
+};
+
+/**
+ * The transport chosen with EMAIL_TRANSPORT - files unless configured
+ */
+export const getMailTransport = (): MailTransport => {
+  const name = process.env.EMAIL_TRANSPORT || 'file';
+  const transport = TRANSPORTS[name];
+
+  if (!transport) {
+    throw new Error(`Unknown EMAIL_TRANSPORT "${name}". Use one of: ${Object.keys(TRANSPORTS).join(', ')}`);
+  }
+  return transport;
+};
@@ -0,0 +1,10 @@
+// Round a monetary amount to cents, or to the minor units of another currency
+export const roundMoney = (amount: number, decimals: number = 2): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round((amount + Number.EPSILON) * factor) / factor;
+};
+
+// Format an amount with its currency symbol, e.g. $12.50 or €12.50
+export const formatMoney = (amount: number, currency: string): string => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+};
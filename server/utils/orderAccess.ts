@@ -0,0 +1,64 @@
+import jwt from 'jsonwebtoken';
+import { User } from '../middleware/auth';
+
+// Link issued with the order confirmation
+const ACCESS_TOKEN_TTL_HOURS = parseInt(process.env.ORDER_ACCESS_TOKEN_TTL_HOURS || '720', 10);
+
+// Link sent by the "find my order" form
+export const LOOKUP_TOKEN_TTL_HOURS = parseInt(process.env.ORDER_LOOKUP_TOKEN_TTL_HOURS || '24', 10);
+
+// Keeps order links from being accepted as sign-in tokens and vice versa
+const TOKEN_AUDIENCE = 'order-access';
+
+const getSecret = (): string => {
+  const secret = process.env.ORDER_ACCESS_TOKEN_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('ORDER_ACCESS_TOKEN_SECRET is not defined');
+  }
+  return secret;
+};
+
+/**
+ * Sign a token that grants read access to one order
+ * Pass lookup to issue the shorter-lived token sent by the order lookup form.
+ */
+export const createOrderAccessToken = (orderId: string, lookup: boolean = false): string => {
+  const ttlHours = lookup ? LOOKUP_TOKEN_TTL_HOURS : ACCESS_TOKEN_TTL_HOURS;
+  return jwt.sign({}, getSecret(), {
+    audience: TOKEN_AUDIENCE,
+    subject: orderId,
+    expiresIn: ttlHours * 3600
+  });
+};
+
+// True when the token is unexpired and was issued for this order
+export const verifyOrderAccessToken = (token: string, orderId: string): boolean => {
+  try {
+    jwt.verify(token, getSecret(), { audience: TOKEN_AUDIENCE, subject: orderId });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// Storefront link that opens an order with its access token
+export const buildOrderAccessUrl = (orderId: string, token: string): string => {
+  const clientUrl = process.env.CLIENT_URL || 'http://localhost:5173';
+  return `${clientUrl}/order-confirmation/${orderId}?token=${encodeURIComponent(token)}`;
+};
+
+/**
+ * Decide whether a request may read an order
+ * Owners and admins are recognised from their session; anyone else needs a
+ * valid access token for the order.
+ */
+export const canAccessOrder = (
+  order: { id: string; user_id: string | null },
+  user: User | undefined,
+  token: string | undefined
+): boolean => {
+  if (user && (user.is_admin || (order.user_id && order.user_id === user.id))) {
+    return true;
+  }
+  return !!token && verifyOrderAccessToken(token, order.id);
+};
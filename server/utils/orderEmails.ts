@@ -0,0 +1,124 @@
+import { Queryable } from '../config/database';
+import { roundMoney } from './money';
+import { createOrderAccessToken, buildOrderAccessUrl } from './orderAccess';
+import { mapDeliveryWindowRow, estimateDelivery, formatDeliveryEstimate } from './deliveryEstimate';
+import { renderEmail, OrderEmailDetails, TemplateData } from './emailTemplates';
+import { queueEmail } from './emailOutbox';
+
+// The order emails and what each needs beyond the order itself
+export type OrderEmail =
+  | { template: 'order_placed' }
+  | { template: 'order_paid' }
+  | { template: 'order_shipped'; shipmentId: string; carrierName: string; trackingNumber: string; trackingUrl: string | null }
+  | { template: 'order_cancelled'; reason: string | null; refundDue: boolean }
+  | { template: 'refund_issued'; amount: number; reason: string | null }
+  | { template: 'order_lookup'; orderUrl: string; expiresInHours: number };
+
+/**
+ * Render an order email and add it to the outbox
+ * Call inside the transaction making the change so the email goes out only
+ * if it is committed. Orders without an email address are skipped.
+ */
+export const queueOrderEmail = async (db: Queryable, orderId: string, email: OrderEmail): Promise<void> => {
+  const orderResult = await db.query(
+    `SELECT o.id, o.total, o.currency, o.payment_method, o.created_at,
+            COALESCE(o.customer_email, u.email) AS recipient,
+            COALESCE(a.full_name, u.full_name) AS customer_name,
+            dm.min_business_days, dm.max_business_days, dm.cutoff_hour
+     FROM orders o
+     LEFT JOIN users u ON o.user_id = u.id
+     LEFT JOIN addresses a ON o.shipping_address_id = a.id
+     LEFT JOIN delivery_methods dm ON o.delivery_method_id = dm.id
+     WHERE o.id = $1`,
+    [orderId]
+  );
+  const order = orderResult.rows[0];
+
+  if (!order || !order.recipient) {
+    return;
+  }
+
+  const itemsResult = await db.query(
+    `SELECT oi.id, oi.quantity, oi.unit_price, p.name
+     FROM order_items oi
+     LEFT JOIN products p ON oi.product_id = p.id
+     WHERE oi.order_id = $1
+     ORDER BY p.name`,
+    [orderId]
+  );
+
+  const currency = order.currency.trim();
+  const details: OrderEmailDetails = {
+    customerName: order.customer_name || 'there',
+    orderNumber: order.id.substring(0, 8).toUpperCase(),
+    orderUrl: buildOrderAccessUrl(order.id, createOrderAccessToken(order.id)),
+    currency,
+    total: parseFloat(order.total),
+    items: itemsResult.rows.map(item => ({
+      name: item.name || 'Removed product',
+      quantity: item.quantity,
+      lineTotal: roundMoney(parseFloat(item.unit_price) * item.quantity)
+    }))
+  };
+
+  let data: TemplateData;
+
+  switch (email.template) {
+    case 'order_placed': {
+      // Orders whose delivery method was removed have nothing to estimate from
+      const deliveryEstimate = order.min_business_days === null
+        ? null
+        : await estimateDelivery(mapDeliveryWindowRow(order), new Date(order.created_at), db);
+      data = {
+        template: 'order_placed',
+        order: details,
+        paymentMethod: order.payment_method,
+        deliveryEstimate: deliveryEstimate ? formatDeliveryEstimate(deliveryEstimate) : null
+      };
+      break;
+    }
+    case 'order_shipped': {
+      const shippedResult = await db.query(
+        `SELECT si.quantity, p.name, oi.unit_price
+         FROM shipment_items si
+         JOIN order_items oi ON si.order_item_id = oi.id
+         LEFT JOIN products p ON oi.product_id = p.id
+         WHERE si.shipment_id = $1
+         ORDER BY p.name`,
+        [email.shipmentId]
+      );
+      data = {
+        template: 'order_shipped',
+        order: details,
+        carrierName: email.carrierName,
+        trackingNumber: email.trackingNumber,
+        trackingUrl: email.trackingUrl,
+        items: shippedResult.rows.map(item => ({
+          name: item.name || 'Removed product',
+          quantity: item.quantity,
+          lineTotal: roundMoney(parseFloat(item.unit_price) * item.quantity)
+        }))
+      };
+      break;
+    }
+    case 'order_cancelled':
+      data = { template: 'order_cancelled', order: details, reason: email.reason, refundDue: email.refundDue };
+      break;
+    case 'refund_issued':
+      data = { template: 'refund_issued', order: details, amount: email.amount, reason: email.reason };
+      break;
+    case 'order_lookup':
+      // Sent with the short-lived lookup link rather than the confirmation one
+      data = { template: 'order_lookup', order: { ...details, orderUrl: email.orderUrl }, expiresInHours: email.expiresInHours };
+      break;
+    default:
+      data = { template: email.template, order: details };
+  }
+
+  await queueEmail(db, {
+    ...renderEmail(data),
+    template: email.template,
+    recipient: order.recipient,
+    orderId
+  });
+};
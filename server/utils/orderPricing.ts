@@ -0,0 +1,337 @@
+import { query, Queryable } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+import { roundMoney } from './money';
+import { quoteTax, formatTaxRate, TaxDestination, TaxLine } from './taxEngine';
+import { applyCoupon, CouponResult, PromotionCustomer } from './promotions';
+import { quoteShipping, billableWeight } from './shippingRates';
+import { resolveCurrency, convertAmount } from './currencies';
+
+// Item as submitted by the client - only the product and quantity are trusted
+export interface PricingItemInput {
+  productId: string;
+  quantity: number;
+}
+
+export interface PricingRequest {
+  items: PricingItemInput[];
+  deliveryMethodId: string;
+  paymentMethod: string;
+  // Shipping destination used to pick the shipping zone and tax rules
+  destination?: TaxDestination | null;
+  couponCode?: string | null;
+  // Needed for per-customer coupon limits
+  customer?: PromotionCustomer;
+  // Currency the customer pays in - the base currency when omitted
+  currency?: string | null;
+}
+
+// Item priced from the current products table
+export interface PricedItem {
+  productId: string;
+  categoryId: string | null;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+  // Billable weight of the whole line in kg
+  weightKg: number;
+}
+
+// Order line with its share of the coupon discount and of the tax
+export interface OrderPricedItem extends PricedItem {
+  discountAmount: number;
+  taxAmount: number;
+}
+
+// One row of the order summary shown to the customer
+export interface PriceBreakdownLine {
+  code: 'subtotal' | 'shipping' | 'discount' | 'tax' | 'cod_fee' | 'total';
+  label: string;
+  amount: number;
+}
+
+// Order amounts in the base currency, kept for reporting
+export interface BaseAmounts {
+  subtotal: number;
+  shippingCost: number;
+  discountAmount: number;
+  taxAmount: number;
+  codFee: number;
+  total: number;
+}
+
+// Amounts are in the order currency, except the coupon which stays in the base currency
+export interface OrderPricing {
+  currency: string;
+  // Order currency units per 1 base unit
+  exchangeRate: number;
+  items: OrderPricedItem[];
+  subtotal: number;
+  shippingCost: number;
+  discountAmount: number;
+  coupon: CouponResult | null;
+  // Effective rate across all tax lines
+  taxRate: number;
+  taxAmount: number;
+  taxLines: TaxLine[];
+  codFee: number;
+  total: number;
+  breakdown: PriceBreakdownLine[];
+  base: BaseAmounts;
+}
+
+// Totals the client may send along with the order
+export interface ClientTotals {
+  items?: Array<{ productId: string; unitPrice?: number }>;
+  subtotal?: number;
+  shippingCost?: number;
+  discountAmount?: number;
+  taxAmount?: number;
+  codFee?: number;
+  total?: number;
+}
+
+// Tolerance used when comparing client totals with the server quote
+const PRICE_TOLERANCE = 0.01;
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+/**
+ * Price cart items from the current products table
+ * Duplicate lines for the same product (different variants) are merged.
+ */
+export const priceItems = async (
+  items: PricingItemInput[],
+  db: Queryable = { query }
+): Promise<PricedItem[]> => {
+  if (!Array.isArray(items) || items.length === 0) {
+    throw createError('Order must contain at least one item', 400);
+  }
+
+  const quantities = new Map<string, number>();
+  for (const item of items) {
+    if (!item || typeof item.productId !== 'string' || !uuidRegex.test(item.productId)) {
+      throw createError('Invalid product ID in order items', 400);
+    }
+    if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+      throw createError('Item quantities must be positive integers', 400);
+    }
+    quantities.set(item.productId, (quantities.get(item.productId) || 0) + item.quantity);
+  }
+
+  const productIds = Array.from(quantities.keys());
+
+  const productsResult = await db.query(
+    'SELECT id, name, price, category_id, weight_kg, length_cm, width_cm, height_cm FROM products WHERE id = ANY($1)',
+    [productIds]
+  );
+
+  if (productsResult.rows.length !== productIds.length) {
+    throw createError('One or more products in your order are no longer available', 400);
+  }
+
+  const productsById = new Map(productsResult.rows.map(row => [row.id, row]));
+
+  return productIds.map(productId => {
+    const product = productsById.get(productId);
+    const quantity = quantities.get(productId) as number;
+    const unitPrice = parseFloat(product.price);
+
+    return {
+      productId,
+      categoryId: product.category_id,
+      name: product.name,
+      quantity,
+      unitPrice,
+      lineTotal: roundMoney(unitPrice * quantity),
+      weightKg: Math.round(billableWeight(product) * quantity * 1000) / 1000
+    };
+  });
+};
+
+/**
+ * Price an order from the database
+ * Product prices, shipping rates and the payment method fee are always read
+ * from their tables; nothing the client sends is used as a price. Shipping is
+ * priced from the rate of the destination's zone on the cart's weight and
+ * subtotal before discounts. Tax comes from the tax rules matching the
+ * destination and is charged on the goods after any coupon discount.
+ * Everything is priced in the base currency and then converted part by part,
+ * so the converted total always adds up to its converted breakdown.
+ */
+export const quoteOrder = async (
+  request: PricingRequest,
+  db: Queryable = { query }
+): Promise<OrderPricing> => {
+  const { items, deliveryMethodId, paymentMethod, destination, couponCode, customer } = request;
+
+  if (!deliveryMethodId || !uuidRegex.test(deliveryMethodId)) {
+    throw createError('A valid delivery method is required', 400);
+  }
+
+  if (!paymentMethod || typeof paymentMethod !== 'string') {
+    throw createError('A payment method is required', 400);
+  }
+
+  if (!destination?.country || typeof destination.country !== 'string' || !destination.country.trim()) {
+    throw createError('A shipping country is required to price delivery', 400);
+  }
+
+  const [currency, pricedItems, deliveryResult, paymentResult] = await Promise.all([
+    resolveCurrency(request.currency, db),
+    priceItems(items, db),
+    db.query('SELECT id FROM delivery_methods WHERE id = $1 AND is_active = true', [deliveryMethodId]),
+    db.query('SELECT name, processing_fee FROM payment_methods WHERE name = $1 AND is_active = true', [paymentMethod])
+  ]);
+
+  if (deliveryResult.rows.length === 0) {
+    throw createError('Selected delivery method is not available', 400);
+  }
+
+  if (paymentResult.rows.length === 0) {
+    throw createError('Selected payment method is not available', 400);
+  }
+
+  // Couriers collect and remit cash in the base currency only
+  if (paymentMethod === 'cash_on_delivery' && !currency.isBase) {
+    throw createError('Cash on delivery is only available for orders paid in the store currency', 400);
+  }
+
+  const subtotal = roundMoney(pricedItems.reduce((sum, item) => sum + item.lineTotal, 0));
+
+  const shippingOptions = await quoteShipping(
+    { country: destination.country, region: destination.region },
+    { subtotal, weightKg: pricedItems.reduce((sum, item) => sum + item.weightKg, 0) },
+    db
+  );
+  const shipping = shippingOptions.find(option => option.deliveryMethodId === deliveryMethodId);
+
+  if (!shipping) {
+    throw createError('Selected delivery method does not ship this order to your address', 400);
+  }
+
+  const shippingCost = shipping.price;
+
+  const coupon = couponCode && couponCode.trim()
+    ? await applyCoupon(couponCode, {
+        items: pricedItems,
+        subtotal,
+        shippingCost,
+        customer: customer || { userId: null, email: null }
+      }, db)
+    : null;
+  const discount = coupon?.discount;
+  const discountAmount = discount?.discountAmount || 0;
+
+  const tax = await quoteTax(
+    pricedItems.map(item => ({
+      productId: item.productId,
+      categoryId: item.categoryId,
+      amount: roundMoney(item.lineTotal - (discount?.itemDiscounts[item.productId] || 0))
+    })),
+    destination,
+    db
+  );
+  const taxAmount = tax.taxAmount;
+
+  const codFee = paymentMethod === 'cash_on_delivery'
+    ? roundMoney(parseFloat(paymentResult.rows[0].processing_fee || '0'))
+    : 0;
+  const total = roundMoney(subtotal + shippingCost - discountAmount + taxAmount + codFee);
+
+  const convert = (amount: number) => convertAmount(amount, currency);
+  // What each line really cost after the coupon and with tax, so returns refund what was paid
+  const chargedItems: OrderPricedItem[] = pricedItems.map(item => {
+    const unitPrice = convert(item.unitPrice);
+    return {
+      ...item,
+      unitPrice,
+      lineTotal: roundMoney(unitPrice * item.quantity, currency.decimals),
+      discountAmount: convert(discount?.itemDiscounts[item.productId] || 0),
+      taxAmount: convert(tax.itemTaxes[item.productId] || 0)
+    };
+  });
+  const chargedTaxLines = tax.lines.map(line => ({
+    ...line,
+    taxableAmount: convert(line.taxableAmount),
+    amount: convert(line.amount)
+  }));
+
+  const charged = {
+    subtotal: roundMoney(chargedItems.reduce((sum, item) => sum + item.lineTotal, 0), currency.decimals),
+    shippingCost: convert(shippingCost),
+    discountAmount: convert(discountAmount),
+    taxAmount: roundMoney(chargedTaxLines.reduce((sum, line) => sum + line.amount, 0), currency.decimals),
+    codFee: convert(codFee)
+  };
+  const chargedTotal = roundMoney(
+    charged.subtotal + charged.shippingCost - charged.discountAmount + charged.taxAmount + charged.codFee,
+    currency.decimals
+  );
+
+  const breakdown: PriceBreakdownLine[] = [
+    { code: 'subtotal', label: 'Subtotal', amount: charged.subtotal },
+    { code: 'shipping', label: 'Shipping', amount: charged.shippingCost }
+  ];
+
+  if (discount && discountAmount > 0) {
+    breakdown.push({ code: 'discount', label: `Discount (${discount.code})`, amount: -charged.discountAmount });
+  }
+
+  if (chargedTaxLines.length > 0) {
+    for (const line of chargedTaxLines) {
+      breakdown.push({ code: 'tax', label: `${line.name} (${formatTaxRate(line.rate)})`, amount: line.amount });
+    }
+  } else {
+    breakdown.push({ code: 'tax', label: 'Tax', amount: 0 });
+  }
+
+  if (charged.codFee > 0) {
+    breakdown.push({ code: 'cod_fee', label: 'Cash on Delivery Fee', amount: charged.codFee });
+  }
+
+  breakdown.push({ code: 'total', label: 'Total', amount: chargedTotal });
+
+  return {
+    currency: currency.code,
+    exchangeRate: currency.rate,
+    items: chargedItems,
+    ...charged,
+    coupon,
+    taxRate: subtotal > 0 ? Math.round((taxAmount / subtotal) * 10000) / 10000 : 0,
+    taxLines: chargedTaxLines,
+    total: chargedTotal,
+    breakdown,
+    base: { subtotal, shippingCost, discountAmount, taxAmount, codFee, total }
+  };
+};
+
+/**
+ * Compare the totals the client displayed with the server quote
+ * Returns the list of fields that disagree; missing client values are ignored.
+ */
+export const findPriceMismatches = (pricing: OrderPricing, client: ClientTotals): string[] => {
+  const mismatches: string[] = [];
+
+  const differs = (clientValue: number | undefined, serverValue: number): boolean => {
+    if (clientValue === undefined || clientValue === null) return false;
+    return Math.abs(Number(clientValue) - serverValue) > PRICE_TOLERANCE;
+  };
+
+  const totals: Array<keyof Omit<ClientTotals, 'items'>> = ['subtotal', 'shippingCost', 'discountAmount', 'taxAmount', 'codFee', 'total'];
+  for (const field of totals) {
+    if (differs(client[field], pricing[field])) {
+      mismatches.push(field);
+    }
+  }
+
+  const pricesById = new Map(pricing.items.map(item => [item.productId, item.unitPrice]));
+  for (const item of client.items || []) {
+    const serverPrice = pricesById.get(item.productId);
+    if (serverPrice !== undefined && differs(item.unitPrice, serverPrice)) {
+      mismatches.push(`items.${item.productId}.unitPrice`);
+    }
+  }
+
+  return mismatches;
+};
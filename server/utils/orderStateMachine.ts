@@ -0,0 +1,226 @@
+import { PoolClient } from 'pg';
+import { createError } from '../middleware/errorHandler';
+import { commitReservations, releaseReservations } from './stockReservations';
+import { recordStatusChange, StatusChangeActor } from './orderStatusHistory';
+import { getPaymentProvider } from './paymentProviders';
+import { issueInvoice } from './billingDocuments';
+import { queueOrderEmail } from './orderEmails';
+
+export type OrderStatus =
+  | 'pending'
+  | 'paid'
+  | 'processing'
+  | 'partially_shipped'
+  | 'shipped'
+  | 'delivered'
+  | 'cancelled'
+  | 'refunded'
+  | 'returned';
+
+export const ORDER_STATUSES: OrderStatus[] = [
+  'pending', 'paid', 'processing', 'partially_shipped', 'shipped', 'delivered', 'cancelled', 'refunded', 'returned'
+];
+
+// Where an order can go from each status - cancelled and refunded are final
+const TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['paid', 'processing', 'cancelled'],
+  paid: ['processing', 'cancelled', 'refunded'],
+  processing: ['partially_shipped', 'shipped', 'cancelled', 'refunded'],
+  partially_shipped: ['shipped'],
+  shipped: ['delivered', 'returned'],
+  delivered: ['returned', 'refunded'],
+  returned: ['refunded'],
+  cancelled: [],
+  refunded: []
+};
+
+// Statuses in which the goods are still in the warehouse
+const NOT_SHIPPED: OrderStatus[] = ['pending', 'paid', 'processing'];
+
+// Statuses only reached by recording shipments, never set by hand
+export const SHIPMENT_DRIVEN_STATUSES: OrderStatus[] = ['partially_shipped'];
+
+// The order fields transitions depend on
+export interface TransitionableOrder {
+  id: string;
+  status: OrderStatus;
+  payment_method: string;
+}
+
+// Thrown when a status change is not part of the lifecycle
+export class InvalidTransitionError extends Error {
+  statusCode = 409;
+
+  constructor(public from: OrderStatus, public to: OrderStatus, public allowed: OrderStatus[]) {
+    super(allowed.length > 0
+      ? `Cannot change a ${from} order to ${to}. Allowed: ${allowed.join(', ')}`
+      : `Cannot change a ${from} order to ${to} - ${from} is a final status`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+export const isOrderStatus = (value: unknown): value is OrderStatus => {
+  return typeof value === 'string' && ORDER_STATUSES.includes(value as OrderStatus);
+};
+
+/**
+ * Statuses an order can move to next
+ * Cash on delivery orders are collected at the door, so they skip paid and go
+ * straight to processing; every other order must be paid first.
+ */
+export const getAllowedTransitions = (order: Pick<TransitionableOrder, 'status' | 'payment_method'>): OrderStatus[] => {
+  const isCashOnDelivery = order.payment_method === 'cash_on_delivery';
+
+  return (TRANSITIONS[order.status] || []).filter(next => {
+    if (order.status === 'pending' && next === 'paid') return !isCashOnDelivery;
+    if (order.status === 'pending' && next === 'processing') return isCashOnDelivery;
+    return true;
+  });
+};
+
+/**
+ * Statuses staff can pick for an order by hand
+ * Leaves out statuses that only recording a shipment can set.
+ */
+export const getManualTransitions = (order: Pick<TransitionableOrder, 'status' | 'payment_method'>): OrderStatus[] => {
+  return getAllowedTransitions(order).filter(next => !SHIPMENT_DRIVEN_STATUSES.includes(next));
+};
+
+/**
+ * Release card holds that were never captured
+ * A provider that cannot void leaves the payment as it was, so staff can see it.
+ */
+export const voidOpenAuthorizations = async (client: PoolClient, orderId: string): Promise<void> => {
+  const paymentsResult = await client.query(
+    `SELECT id, transaction_id, provider, payment_method
+     FROM payments
+     WHERE order_id = $1 AND status IN ('authorized', 'requires_action') AND transaction_id IS NOT NULL`,
+    [orderId]
+  );
+
+  for (const payment of paymentsResult.rows) {
+    const result = await getPaymentProvider(payment).void(payment.transaction_id);
+
+    if (result.status !== 'failed') {
+      await client.query("UPDATE payments SET status = 'voided' WHERE id = $1", [payment.id]);
+    }
+  }
+};
+
+/**
+ * Work that has to happen when an order enters a status
+ * Runs in the same transaction as the status update.
+ */
+const runSideEffects = async (
+  client: PoolClient,
+  order: TransitionableOrder,
+  to: OrderStatus,
+  reason: string | null
+): Promise<void> => {
+  const orderId = order.id;
+  const from = order.status;
+  const isCashOnDelivery = order.payment_method === 'cash_on_delivery';
+
+  switch (to) {
+    case 'paid':
+    case 'delivered':
+      await commitReservations(client, orderId);
+      // Any parcel still shown in transit has arrived with the order
+      if (to === 'delivered') {
+        await client.query(
+          "UPDATE shipments SET status = 'delivered', delivered_at = NOW() WHERE order_id = $1 AND status = 'in_transit'",
+          [orderId]
+        );
+      }
+      // The money is in - cash on delivery only counts once the courier's
+      // collection is recorded
+      if (!isCashOnDelivery) {
+        await client.query(
+          "UPDATE payments SET status = 'success' WHERE order_id = $1 AND status = 'initiated'",
+          [orderId]
+        );
+      }
+      // Paid orders get their numbered invoice - only once, whichever status comes first
+      await issueInvoice(client, orderId);
+      if (to === 'paid') {
+        await queueOrderEmail(client, orderId, { template: 'order_paid' });
+      }
+      break;
+    case 'processing':
+    case 'partially_shipped':
+    case 'shipped':
+      // The units are sold - stop the hold from expiring
+      await commitReservations(client, orderId);
+      // The courier now has to collect the cash
+      if (to === 'shipped' && isCashOnDelivery) {
+        await client.query(
+          `INSERT INTO cod_collections (order_id, expected_amount)
+           SELECT id, total FROM orders WHERE id = $1
+           ON CONFLICT (order_id) DO NOTHING`,
+          [orderId]
+        );
+      }
+      break;
+    case 'cancelled':
+      await releaseReservations(client, orderId);
+      await voidOpenAuthorizations(client, orderId);
+      // Money already taken has to go back; an unpaid payment is simply called off
+      await client.query(
+        "UPDATE payments SET status = $1 WHERE order_id = $2 AND status IN ('initiated', 'success')",
+        [from === 'pending' ? 'cancelled' : 'refund_pending', orderId]
+      );
+      await queueOrderEmail(client, orderId, { template: 'order_cancelled', reason, refundDue: from !== 'pending' });
+      break;
+    case 'refunded':
+      // Refunded before it left the warehouse - the units can be sold again
+      if (NOT_SHIPPED.includes(from)) {
+        await releaseReservations(client, orderId);
+      }
+      break;
+  }
+};
+
+/**
+ * Move an order to a new status
+ * The order row is locked, the change is checked against the lifecycle, side
+ * effects such as restocking run, and the change is added to the order's
+ * status history. Must be called inside a transaction.
+ */
+export const transitionOrder = async (
+  client: PoolClient,
+  orderId: string,
+  to: OrderStatus,
+  actor: StatusChangeActor,
+  reason: string | null = null
+): Promise<{ from: OrderStatus; order: any }> => {
+  const orderResult = await client.query(
+    'SELECT id, status, payment_method FROM orders WHERE id = $1 FOR UPDATE',
+    [orderId]
+  );
+
+  if (orderResult.rows.length === 0) {
+    throw createError('Order not found', 404);
+  }
+
+  const current = orderResult.rows[0] as TransitionableOrder;
+
+  if (current.status === to) {
+    throw createError(`Order is already in ${to} status`, 400);
+  }
+
+  const allowed = getAllowedTransitions(current);
+  if (!allowed.includes(to)) {
+    throw new InvalidTransitionError(current.status, to, allowed);
+  }
+
+  const updateResult = await client.query(
+    `UPDATE orders SET status = $1 WHERE id = $2
+     RETURNING id, status, total, payment_method, customer_email, created_at`,
+    [to, orderId]
+  );
+
+  await runSideEffects(client, current, to, reason);
+  await recordStatusChange(client, orderId, current.status, to, actor, reason);
+
+  return { from: current.status, order: updateResult.rows[0] };
+};
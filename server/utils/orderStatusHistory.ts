@@ -0,0 +1,69 @@
+import { query, Queryable } from '../config/database';
+
+// Who made a status change
+export type StatusActorType = 'customer' | 'admin' | 'system';
+
+export interface StatusChangeActor {
+  type: StatusActorType;
+  userId: string | null;
+}
+
+// One row of an order's status timeline
+export interface StatusHistoryEntry {
+  id: string;
+  fromStatus: string | null;
+  toStatus: string;
+  actorType: StatusActorType;
+  actorName: string | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+export const SYSTEM_ACTOR: StatusChangeActor = { type: 'system', userId: null };
+
+/**
+ * Append a status change to an order's history
+ * fromStatus is null for the entry written when the order is placed.
+ */
+export const recordStatusChange = async (
+  db: Queryable,
+  orderId: string,
+  fromStatus: string | null,
+  toStatus: string,
+  actor: StatusChangeActor,
+  reason: string | null = null
+): Promise<void> => {
+  await db.query(
+    `INSERT INTO order_status_history (order_id, from_status, to_status, actor_type, actor_id, reason)
+     VALUES ($1, $2, $3, $4, $5, $6)`,
+    [orderId, fromStatus, toStatus, actor.type, actor.userId, reason]
+  );
+};
+
+/**
+ * Get an order's status history, oldest first
+ */
+export const getStatusHistory = async (
+  orderId: string,
+  db: Queryable = { query }
+): Promise<StatusHistoryEntry[]> => {
+  const result = await db.query(
+    `SELECT h.id, h.from_status, h.to_status, h.actor_type, h.reason, h.created_at,
+            u.full_name as actor_name
+     FROM order_status_history h
+     LEFT JOIN users u ON h.actor_id = u.id
+     WHERE h.order_id = $1
+     ORDER BY h.created_at, h.id`,
+    [orderId]
+  );
+
+  return result.rows.map(row => ({
+    id: row.id,
+    fromStatus: row.from_status,
+    toStatus: row.to_status,
+    actorType: row.actor_type,
+    actorName: row.actor_name,
+    reason: row.reason,
+    createdAt: row.created_at
+  }));
+};
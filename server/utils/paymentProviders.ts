@@ -0,0 +1,293 @@
+import crypto from 'crypto';
+import { getWebhookSecret, signWebhookPayload } from './webhookSignature';
+
+// Outcome of asking a provider to authorize a payment
+export interface ProviderAuthorizationResult {
+  status: 'authorized' | 'requires_action' | 'declined';
+  transactionId: string | null;
+  declineReason?: string;
+  // Set when the customer has to confirm the payment, 3-D Secure style
+  challenge?: {
+    message: string;
+  };
+  // Safe to keep - never the full card number
+  card?: {
+    brand: string;
+    last4: string;
+  };
+}
+
+export interface ProviderAuthorizationRequest {
+  // Single-use token created in the browser by the provider's client library
+  paymentToken: string;
+  amount: number;
+  // ISO code of the order currency the amount is in
+  currency: string;
+  // Our order id, so payments can be matched on the provider's side
+  reference: string;
+}
+
+// Outcome of a capture, void or refund
+export interface ProviderOperationResult {
+  status: 'succeeded' | 'pending' | 'failed';
+  failureReason?: string;
+}
+
+export interface ProviderRefundResult extends ProviderOperationResult {
+  providerRefundId: string | null;
+}
+
+// The payment being refunded, as the provider knows it
+export interface ProviderPaymentReference {
+  paymentId: string;
+  transactionId: string | null;
+  amount: number;
+}
+
+// Provider notification mapped onto our terms
+export type ProviderEventType =
+  | 'payment.succeeded'
+  | 'payment.failed'
+  | 'payment.voided'
+  | 'refund.succeeded'
+  | 'refund.failed';
+
+export interface ProviderWebhookEvent {
+  eventId: string;
+  type: ProviderEventType;
+  transactionId: string;
+  // Provider's id of the refund, for refund events
+  refundId: string | null;
+  amount: number | null;
+  occurredAt: Date;
+  failureReason?: string;
+}
+
+export interface PaymentProvider {
+  name: string;
+  authorize(request: ProviderAuthorizationRequest): Promise<ProviderAuthorizationResult>;
+  // Finish an authorization that came back with a challenge
+  confirmChallenge(transactionId: string, response: string): Promise<ProviderAuthorizationResult>;
+  capture(transactionId: string, amount: number): Promise<ProviderOperationResult>;
+  void(transactionId: string): Promise<ProviderOperationResult>;
+  refund(payment: ProviderPaymentReference, amount: number, reason: string | null): Promise<ProviderRefundResult>;
+  // Returns null for payloads that are not a recognised event
+  parseWebhook(payload: unknown): ProviderWebhookEvent | null;
+}
+
+// Scenarios the mock gateway's browser tokens can ask for
+const MOCK_DECLINES: Record<string, string> = {
+  decline: 'Your card was declined',
+  insufficient_funds: 'Your card has insufficient funds',
+  expired_card: 'Your card has expired'
+};
+
+// Code the mock 3-D Secure page accepts
+export const MOCK_CHALLENGE_CODE = '1234';
+
+const MOCK_EVENT_TYPES: ProviderEventType[] = [
+  'payment.succeeded', 'payment.failed', 'payment.voided', 'refund.succeeded', 'refund.failed'
+];
+
+// Mock transactions whose capture is confirmed later by webhook
+const MOCK_ASYNC_PREFIX = 'mock_pi_async';
+
+// Same input, same id - keeps the mock gateway deterministic
+const mockId = (prefix: string, ...parts: string[]): string => {
+  return `${prefix}_${crypto.createHash('sha256').update(parts.join(':')).digest('hex').substring(0, 24)}`;
+};
+
+/**
+ * Deliver a signed webhook from the mock gateway to our own endpoint
+ * Sent after a short delay, like a real provider, so the request that caused
+ * it has finished first.
+ */
+export const sendMockWebhook = (type: ProviderEventType, data: Record<string, unknown>, delayMs = 2000): void => {
+  const secret = getWebhookSecret('mock');
+  const url = process.env.MOCK_WEBHOOK_URL
+    || `http://localhost:${process.env.PORT || '5000'}/api/payments/webhooks/mock`;
+
+  if (!secret) {
+    console.warn('⚠️  MOCK_WEBHOOK_SECRET is not set - mock webhook not sent');
+    return;
+  }
+
+  const body = JSON.stringify({
+    id: `evt_mock_${crypto.randomUUID().replace(/-/g, '')}`,
+    type,
+    created: new Date().toISOString(),
+    data
+  });
+
+  setTimeout(() => {
+    fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Payment-Signature': signWebhookPayload(secret, body)
+      },
+      body
+    }).catch(error => {
+      console.error('❌ Error sending mock webhook:', (error as Error).message);
+    });
+  }, delayMs).unref();
+};
+
+/**
+ * Local gateway for development
+ * Tokens come from the mock client library (tok_mock_<scenario>_<last4>) and
+ * decide the outcome: success, a decline, or a challenge that passes with
+ * MOCK_CHALLENGE_CODE. The async scenario's capture stays pending until the
+ * gateway confirms it by webhook. Other captures, voids and refunds always
+ * go through.
+ */
+const mockProvider: PaymentProvider = {
+  name: 'mock',
+
+  async authorize({ paymentToken, amount, currency, reference }) {
+    const match = /^tok_mock_([a-z_]+?)(?:_(\d{4}))?$/.exec(paymentToken);
+    const transactionId = mockId(
+      paymentToken.startsWith('tok_mock_async') ? MOCK_ASYNC_PREFIX : 'mock_pi',
+      reference, paymentToken, `${amount.toFixed(2)} ${currency}`
+    );
+
+    if (!match) {
+      return { status: 'declined', transactionId: null, declineReason: 'Invalid payment token' };
+    }
+
+    const [, scenario, last4] = match;
+    const card = last4 ? { brand: 'visa', last4 } : undefined;
+
+    if (MOCK_DECLINES[scenario]) {
+      return { status: 'declined', transactionId, declineReason: MOCK_DECLINES[scenario], card };
+    }
+
+    if (scenario === 'challenge') {
+      return {
+        status: 'requires_action',
+        transactionId,
+        challenge: { message: `Your bank needs to confirm this payment. Enter ${MOCK_CHALLENGE_CODE} to approve it.` },
+        card
+      };
+    }
+
+    if (scenario === 'success' || scenario === 'async' || scenario === 'paypal') {
+      return { status: 'authorized', transactionId, card };
+    }
+
+    return { status: 'declined', transactionId, declineReason: 'Unknown test card' };
+  },
+
+  async confirmChallenge(transactionId, response) {
+    return response.trim() === MOCK_CHALLENGE_CODE
+      ? { status: 'authorized', transactionId }
+      : { status: 'declined', transactionId, declineReason: 'Payment authentication failed' };
+  },
+
+  async capture(transactionId, amount) {
+    if (transactionId.startsWith(MOCK_ASYNC_PREFIX)) {
+      sendMockWebhook('payment.succeeded', { transactionId, amount });
+      return { status: 'pending' };
+    }
+
+    return { status: 'succeeded' };
+  },
+
+  async void() {
+    return { status: 'succeeded' };
+  },
+
+  async refund(payment, amount) {
+    return {
+      status: 'succeeded',
+      providerRefundId: mockId('mock_re', payment.paymentId, amount.toFixed(2), Date.now().toString())
+    };
+  },
+
+  parseWebhook(payload) {
+    const event = payload as Record<string, any>;
+
+    if (!event || typeof event.id !== 'string' || !MOCK_EVENT_TYPES.includes(event.type)
+      || typeof event.data?.transactionId !== 'string') {
+      return null;
+    }
+
+    return {
+      eventId: event.id,
+      type: event.type,
+      transactionId: event.data.transactionId,
+      refundId: typeof event.data.refundId === 'string' ? event.data.refundId : null,
+      amount: typeof event.data.amount === 'number' ? event.data.amount : null,
+      occurredAt: new Date(event.created || Date.now()),
+      failureReason: event.data.failureReason
+    };
+  }
+};
+
+/**
+ * Money handled outside any gateway, e.g. cash for cash on delivery orders
+ * Everything is recorded as done; staff settle with the customer directly.
+ */
+const manualProvider: PaymentProvider = {
+  name: 'manual',
+
+  async authorize() {
+    return { status: 'authorized', transactionId: null };
+  },
+
+  async confirmChallenge(transactionId) {
+    return { status: 'authorized', transactionId };
+  },
+
+  async capture() {
+    return { status: 'succeeded' };
+  },
+
+  async void() {
+    return { status: 'succeeded' };
+  },
+
+  async refund() {
+    return { status: 'succeeded', providerRefundId: null };
+  },
+
+  parseWebhook() {
+    return null;
+  }
+};
+
+const PROVIDERS: Record<string, PaymentProvider> = {
+  mock: mockProvider,
+  manual: manualProvider
+};
+
+/**
+ * Name of the provider that takes a new payment
+ * Cash on delivery never goes through a gateway; everything else uses the
+ * configured PAYMENT_PROVIDER.
+ */
+export const resolveProviderName = (paymentMethod: string | null): string => {
+  if (paymentMethod === 'cash_on_delivery') {
+    return manualProvider.name;
+  }
+
+  const configured = process.env.PAYMENT_PROVIDER || 'mock';
+
+  if (!PROVIDERS[configured]) {
+    throw new Error(`Unknown payment provider: ${configured}`);
+  }
+
+  return configured;
+};
+
+/**
+ * Provider that handles an existing payment
+ * Payments from before providers were recorded fall back to their method.
+ */
+export const getPaymentProvider = (payment: { provider: string | null; payment_method: string | null }): PaymentProvider => {
+  return PROVIDERS[payment.provider || ''] || PROVIDERS[resolveProviderName(payment.payment_method)];
+};
+
+export const getProviderByName = (name: string): PaymentProvider | null => {
+  return PROVIDERS[name] || null;
+};
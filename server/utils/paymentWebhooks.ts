@@ -0,0 +1,355 @@
+import { PoolClient } from 'pg';
+import { query, withTransaction, Queryable } from '../config/database';
+import { getProviderByName, ProviderWebhookEvent } from './paymentProviders';
+import { transitionOrder } from './orderStateMachine';
+import { SYSTEM_ACTOR } from './orderStatusHistory';
+import { notifyAdmins } from './adminNotifications';
+import { issueCreditNote } from './billingDocuments';
+import { queueOrderEmail } from './orderEmails';
+
+export type WebhookEventStatus = 'pending' | 'processed' | 'failed';
+
+export const WEBHOOK_EVENT_STATUSES: WebhookEventStatus[] = ['pending', 'processed', 'failed'];
+
+// Failed events are retried with a growing delay, then left for an admin
+export const MAX_WEBHOOK_ATTEMPTS = 8;
+
+const RETRY_INTERVAL_MS = 60 * 1000;
+
+// Payment statuses in which the provider has not settled the money yet
+const OPEN_PAYMENT_STATUSES = ['initiated', 'requires_action', 'authorized'];
+
+// One stored webhook delivery, as shown to admins
+export interface WebhookEvent {
+  id: string;
+  provider: string;
+  eventId: string;
+  eventType: string;
+  transactionId: string | null;
+  status: WebhookEventStatus;
+  attempts: number;
+  lastError: string | null;
+  outcome: string | null;
+  payload: unknown;
+  receivedAt: string;
+  processedAt: string | null;
+  nextRetryAt: string | null;
+}
+
+export const isWebhookEventStatus = (value: unknown): value is WebhookEventStatus => {
+  return typeof value === 'string' && WEBHOOK_EVENT_STATUSES.includes(value as WebhookEventStatus);
+};
+
+const mapWebhookEventRow = (row: any): WebhookEvent => ({
+  id: row.id,
+  provider: row.provider,
+  eventId: row.event_id,
+  eventType: row.event_type,
+  transactionId: row.transaction_id,
+  status: row.status,
+  attempts: row.attempts,
+  lastError: row.last_error,
+  outcome: row.outcome,
+  payload: row.payload,
+  receivedAt: row.received_at,
+  processedAt: row.processed_at,
+  nextRetryAt: row.next_retry_at
+});
+
+/**
+ * Store a verified webhook delivery
+ * Event ids are unique per provider, so a replayed delivery returns the
+ * stored event instead of creating a second one.
+ */
+export const recordWebhookEvent = async (
+  providerName: string,
+  event: ProviderWebhookEvent,
+  payload: unknown
+): Promise<{ event: WebhookEvent; duplicate: boolean }> => {
+  const insertResult = await query(
+    `INSERT INTO payment_webhook_events (provider, event_id, event_type, transaction_id, payload)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (provider, event_id) DO NOTHING
+     RETURNING *`,
+    [providerName, event.eventId, event.type, event.transactionId, JSON.stringify(payload)]
+  );
+
+  if (insertResult.rows.length > 0) {
+    return { event: mapWebhookEventRow(insertResult.rows[0]), duplicate: false };
+  }
+
+  const existingResult = await query(
+    'SELECT * FROM payment_webhook_events WHERE provider = $1 AND event_id = $2',
+    [providerName, event.eventId]
+  );
+
+  return { event: mapWebhookEventRow(existingResult.rows[0]), duplicate: true };
+};
+
+// Money arrived for an order that can no longer take it
+const flagPaymentForRefund = async (client: PoolClient, payment: any, why: string): Promise<string> => {
+  await client.query("UPDATE payments SET status = 'refund_pending' WHERE id = $1", [payment.id]);
+  await notifyAdmins(
+    client,
+    'payment_after_cancellation',
+    `Payment of ${parseFloat(payment.amount).toFixed(2)} for order #${payment.order_id.substring(0, 8).toUpperCase()} arrived after the order was ${why} - it needs to be refunded`,
+    payment.order_id
+  );
+  return 'Payment flagged for refund';
+};
+
+const applyPaymentEvent = async (client: PoolClient, providerName: string, event: ProviderWebhookEvent): Promise<string> => {
+  const paymentResult = await client.query(
+    `SELECT p.id, p.order_id, p.amount, p.status, o.status AS order_status
+     FROM payments p
+     JOIN orders o ON p.order_id = o.id
+     WHERE p.provider = $1 AND p.transaction_id = $2
+     FOR UPDATE OF p`,
+    [providerName, event.transactionId]
+  );
+
+  // The payment may not be committed yet - failing lets the event be retried
+  if (paymentResult.rows.length === 0) {
+    throw new Error(`No payment found for transaction ${event.transactionId}`);
+  }
+
+  const payment = paymentResult.rows[0];
+  const isOpen = OPEN_PAYMENT_STATUSES.includes(payment.status);
+
+  switch (event.type) {
+    case 'payment.succeeded':
+      if (payment.status === 'voided' || payment.status === 'cancelled') {
+        return flagPaymentForRefund(client, payment, payment.status);
+      }
+      if (!isOpen && payment.status !== 'failed') {
+        return `Payment already ${payment.status}`;
+      }
+
+      await client.query("UPDATE payments SET status = 'success' WHERE id = $1", [payment.id]);
+
+      if (payment.order_status === 'pending') {
+        await transitionOrder(client, payment.order_id, 'paid', SYSTEM_ACTOR, 'Payment confirmed by provider');
+        return 'Order marked paid';
+      }
+      if (payment.order_status === 'cancelled') {
+        return flagPaymentForRefund(client, payment, 'cancelled');
+      }
+      return 'Payment marked successful';
+
+    case 'payment.failed':
+      if (!isOpen) {
+        return `Payment already ${payment.status}`;
+      }
+
+      await client.query(
+        `UPDATE payments
+         SET status = 'failed', payment_details = COALESCE(payment_details, '{}'::jsonb) || $1::jsonb
+         WHERE id = $2`,
+        [JSON.stringify({ failureReason: event.failureReason || 'Payment failed' }), payment.id]
+      );
+      return 'Payment marked failed';
+
+    case 'payment.voided':
+      if (!isOpen) {
+        return `Payment already ${payment.status}`;
+      }
+
+      await client.query("UPDATE payments SET status = 'voided' WHERE id = $1", [payment.id]);
+      return 'Payment marked voided';
+
+    default:
+      return 'Ignored';
+  }
+};
+
+const applyRefundEvent = async (client: PoolClient, providerName: string, event: ProviderWebhookEvent): Promise<string> => {
+  if (!event.refundId) {
+    return 'Ignored - no refund id';
+  }
+
+  const refundResult = await client.query(
+    `SELECT r.id, r.status, r.payment_id, r.order_id, r.amount, r.reason, p.amount AS payment_amount
+     FROM refunds r
+     JOIN payments p ON r.payment_id = p.id
+     WHERE r.provider = $1 AND r.provider_refund_id = $2
+     FOR UPDATE OF r, p`,
+    [providerName, event.refundId]
+  );
+
+  if (refundResult.rows.length === 0) {
+    throw new Error(`No refund found for ${event.refundId}`);
+  }
+
+  const refund = refundResult.rows[0];
+
+  if (event.type === 'refund.succeeded') {
+    if (refund.status !== 'pending') {
+      return `Refund already ${refund.status}`;
+    }
+
+    await client.query("UPDATE refunds SET status = 'succeeded', updated_at = NOW() WHERE id = $1", [refund.id]);
+    await issueCreditNote(client, refund.id);
+    await queueOrderEmail(client, refund.order_id, { template: 'refund_issued', amount: parseFloat(refund.amount), reason: refund.reason });
+    return 'Refund marked succeeded';
+  }
+
+  if (refund.status === 'failed') {
+    return 'Refund already failed';
+  }
+
+  await client.query(
+    "UPDATE refunds SET status = 'failed', failure_reason = $1, updated_at = NOW() WHERE id = $2",
+    [event.failureReason || 'Refund failed', refund.id]
+  );
+
+  // The money stayed with us - put the payment back to what is really refunded
+  const refundedResult = await client.query(
+    "SELECT COALESCE(SUM(amount), 0) AS refunded FROM refunds WHERE payment_id = $1 AND status <> 'failed'",
+    [refund.payment_id]
+  );
+  const refunded = parseFloat(refundedResult.rows[0].refunded);
+  const paymentStatus = refunded <= 0
+    ? 'success'
+    : refunded >= parseFloat(refund.payment_amount) ? 'refunded' : 'partially_refunded';
+
+  await client.query('UPDATE payments SET status = $1 WHERE id = $2', [paymentStatus, refund.payment_id]);
+  await notifyAdmins(
+    client,
+    'refund_failed',
+    `Refund of ${parseFloat(refund.amount).toFixed(2)} for order #${refund.order_id.substring(0, 8).toUpperCase()} failed at the provider - ${event.failureReason || 'no reason given'}`,
+    refund.order_id
+  );
+
+  return 'Refund marked failed';
+};
+
+/**
+ * Apply a stored webhook event to payments, refunds and orders
+ * Safe to run more than once: processed events are skipped and every change
+ * checks the current status first. Errors are stored on the event and it is
+ * scheduled for another attempt.
+ */
+export const processWebhookEvent = async (id: string): Promise<WebhookEvent> => {
+  try {
+    await withTransaction(async (client) => {
+      const eventResult = await client.query(
+        'SELECT * FROM payment_webhook_events WHERE id = $1 FOR UPDATE',
+        [id]
+      );
+      const row = eventResult.rows[0];
+
+      if (!row || row.status === 'processed') {
+        return;
+      }
+
+      const provider = getProviderByName(row.provider);
+      const event = provider?.parseWebhook(row.payload);
+
+      if (!event) {
+        throw new Error(`Event can no longer be read by the ${row.provider} provider`);
+      }
+
+      const outcome = event.type.startsWith('refund.')
+        ? await applyRefundEvent(client, row.provider, event)
+        : await applyPaymentEvent(client, row.provider, event);
+
+      await client.query(
+        `UPDATE payment_webhook_events
+         SET status = 'processed', outcome = $1, attempts = attempts + 1,
+             last_error = NULL, processed_at = NOW(), next_retry_at = NULL
+         WHERE id = $2`,
+        [outcome, id]
+      );
+    });
+  } catch (error) {
+    // Back off 1, 2, 4... minutes; stop retrying after the last attempt
+    await query(
+      `UPDATE payment_webhook_events
+       SET status = 'failed', attempts = attempts + 1, last_error = $1,
+           next_retry_at = CASE WHEN attempts + 1 >= $2 THEN NULL
+                                ELSE NOW() + INTERVAL '1 minute' * POWER(2, attempts) END
+       WHERE id = $3`,
+      [(error as Error).message, MAX_WEBHOOK_ATTEMPTS, id]
+    );
+  }
+
+  const result = await query('SELECT * FROM payment_webhook_events WHERE id = $1', [id]);
+  return mapWebhookEventRow(result.rows[0]);
+};
+
+/**
+ * Process failed events whose retry time has come
+ * Also picks up events left pending, e.g. by a restart mid-delivery.
+ */
+export const retryFailedWebhookEvents = async (): Promise<number> => {
+  const dueResult = await query(
+    `SELECT id FROM payment_webhook_events
+     WHERE (status = 'failed' AND next_retry_at <= NOW())
+        OR (status = 'pending' AND received_at < NOW() - INTERVAL '5 minutes')
+     ORDER BY received_at
+     LIMIT 50`
+  );
+
+  let processed = 0;
+  for (const row of dueResult.rows) {
+    const event = await processWebhookEvent(row.id);
+    if (event.status === 'processed') {
+      processed++;
+    }
+  }
+
+  return processed;
+};
+
+/**
+ * Periodically retry failed webhook events
+ */
+export const startWebhookRetrySweeper = (): NodeJS.Timeout => {
+  const timer = setInterval(() => {
+    retryFailedWebhookEvents()
+      .then(count => {
+        if (count > 0) {
+          console.log(`🔔 Processed ${count} webhook event(s) on retry`);
+        }
+      })
+      .catch(error => {
+        console.error('❌ Error retrying webhook events:', (error as Error).message);
+      });
+  }, RETRY_INTERVAL_MS);
+
+  // Do not keep the process alive just for the sweeper
+  timer.unref();
+  return timer;
+};
+
+/**
+ * Recent webhook deliveries, newest first
+ */
+export const getWebhookEvents = async (
+  filters: { status?: WebhookEventStatus; provider?: string },
+  db: Queryable = { query }
+): Promise<WebhookEvent[]> => {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (filters.status) {
+    params.push(filters.status);
+    conditions.push(`status = $${params.length}`);
+  }
+  if (filters.provider) {
+    params.push(filters.provider);
+    conditions.push(`provider = $${params.length}`);
+  }
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const result = await db.query(
+    `SELECT * FROM payment_webhook_events
+     ${whereClause}
+     ORDER BY received_at DESC
+     LIMIT 200`,
+    params
+  );
+
+  return result.rows.map(mapWebhookEventRow);
+};
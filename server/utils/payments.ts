@@ -0,0 +1,200 @@
+import { PoolClient } from 'pg';
+import { createError } from '../middleware/errorHandler';
+import { getPaymentProvider, resolveProviderName, PaymentProvider, ProviderAuthorizationResult } from './paymentProviders';
+import { transitionOrder, voidOpenAuthorizations } from './orderStateMachine';
+import { SYSTEM_ACTOR } from './orderStatusHistory';
+
+export type PaymentStatus =
+  | 'initiated'
+  | 'requires_action'
+  | 'authorized'
+  | 'success'
+  | 'failed'
+  | 'voided'
+  | 'cancelled'
+  | 'refund_pending'
+  | 'partially_refunded'
+  | 'refunded';
+
+// What checkout is told after trying to take a payment
+export interface PaymentAttemptResult {
+  paymentId: string;
+  status: PaymentStatus;
+  challenge?: {
+    message: string;
+  };
+  failureReason?: string;
+}
+
+// Fields that would mean raw card data was posted to us instead of a token
+const RAW_CARD_FIELDS = ['card', 'cardNumber', 'number', 'cvc', 'cvv', 'expiryDate', 'expMonth', 'expYear'];
+
+export const hasRawCardData = (body: unknown): boolean => {
+  return !!body && typeof body === 'object' && RAW_CARD_FIELDS.some(field => field in (body as object));
+};
+
+// Lock a payment together with the status of its order
+const lockPayment = async (client: PoolClient, paymentId: string) => {
+  const result = await client.query(
+    `SELECT p.id, p.order_id, p.amount, p.currency, p.status, p.provider, p.payment_method, p.transaction_id,
+            o.status AS order_status
+     FROM payments p
+     JOIN orders o ON p.order_id = o.id
+     WHERE p.id = $1
+     FOR UPDATE OF p`,
+    [paymentId]
+  );
+
+  if (result.rows.length === 0) {
+    throw createError('Payment not found', 404);
+  }
+
+  const payment = result.rows[0];
+
+  if (payment.order_status !== 'pending') {
+    throw createError(`This order is already ${payment.order_status}`, 409);
+  }
+
+  return payment;
+};
+
+/**
+ * Store what the provider said about an authorization
+ * An approved authorization is captured straight away and the order becomes
+ * paid; a capture the provider refuses counts as a failed payment, and one it
+ * accepts for later leaves the payment authorized until its webhook arrives.
+ */
+const settleAuthorization = async (
+  client: PoolClient,
+  payment: any,
+  provider: PaymentProvider,
+  result: ProviderAuthorizationResult
+): Promise<PaymentAttemptResult> => {
+  const details: Record<string, unknown> = {};
+  if (result.card) details.card = result.card;
+
+  const save = async (status: PaymentStatus, failureReason?: string) => {
+    if (failureReason) details.failureReason = failureReason;
+
+    await client.query(
+      `UPDATE payments
+       SET status = $1, transaction_id = COALESCE($2, transaction_id),
+           payment_details = COALESCE(payment_details, '{}'::jsonb) || $3::jsonb
+       WHERE id = $4`,
+      [status, result.transactionId, JSON.stringify(details), payment.id]
+    );
+  };
+
+  if (result.status === 'declined') {
+    await save('failed', result.declineReason || 'Payment declined');
+    return { paymentId: payment.id, status: 'failed', failureReason: result.declineReason || 'Payment declined' };
+  }
+
+  if (result.status === 'requires_action') {
+    await save('requires_action');
+    return { paymentId: payment.id, status: 'requires_action', challenge: result.challenge };
+  }
+
+  await save('authorized');
+
+  const capture = await provider.capture(result.transactionId || payment.transaction_id, parseFloat(payment.amount));
+
+  if (capture.status === 'failed') {
+    await save('failed', capture.failureReason || 'Payment could not be captured');
+    return { paymentId: payment.id, status: 'failed', failureReason: capture.failureReason || 'Payment could not be captured' };
+  }
+
+  // The provider confirms the capture later by webhook
+  if (capture.status === 'pending') {
+    return { paymentId: payment.id, status: 'authorized' };
+  }
+
+  await client.query("UPDATE payments SET status = 'success' WHERE id = $1", [payment.id]);
+  await transitionOrder(client, payment.order_id, 'paid', SYSTEM_ACTOR, 'Payment captured');
+
+  return { paymentId: payment.id, status: 'success' };
+};
+
+/**
+ * Authorize and capture a payment with a token from the provider's client library
+ * Must be called inside a transaction; a decline is stored, not thrown.
+ */
+export const authorizePayment = async (
+  client: PoolClient,
+  paymentId: string,
+  paymentToken: string
+): Promise<PaymentAttemptResult> => {
+  const payment = await lockPayment(client, paymentId);
+
+  if (payment.status !== 'initiated') {
+    throw createError('This payment has already been processed', 409);
+  }
+
+  const provider = getPaymentProvider(payment);
+  const result = await provider.authorize({
+    paymentToken,
+    amount: parseFloat(payment.amount),
+    currency: payment.currency.trim(),
+    reference: payment.order_id
+  });
+
+  return settleAuthorization(client, payment, provider, result);
+};
+
+/**
+ * Finish a payment the customer's bank asked them to confirm
+ */
+export const completePaymentChallenge = async (
+  client: PoolClient,
+  paymentId: string,
+  response: string
+): Promise<PaymentAttemptResult> => {
+  const payment = await lockPayment(client, paymentId);
+
+  if (payment.status !== 'requires_action') {
+    throw createError('This payment is not waiting for confirmation', 409);
+  }
+
+  const provider = getPaymentProvider(payment);
+  const result = await provider.confirmChallenge(payment.transaction_id, response);
+
+  return settleAuthorization(client, payment, provider, result);
+};
+
+/**
+ * Try paying a pending order again, e.g. with another card after a decline
+ * Each attempt gets its own payment row; a challenge left unanswered is voided
+ * first so the customer's bank releases the hold.
+ */
+export const retryOrderPayment = async (
+  client: PoolClient,
+  orderId: string,
+  paymentToken: string
+): Promise<PaymentAttemptResult> => {
+  const orderResult = await client.query(
+    'SELECT id, status, total, currency, payment_method FROM orders WHERE id = $1 FOR UPDATE',
+    [orderId]
+  );
+  const order = orderResult.rows[0];
+
+  if (!order) {
+    throw createError('Order not found', 404);
+  }
+  if (order.status !== 'pending') {
+    throw createError(`This order is already ${order.status}`, 409);
+  }
+  if (order.payment_method === 'cash_on_delivery') {
+    throw createError('Cash on delivery orders are paid when they arrive', 400);
+  }
+
+  await voidOpenAuthorizations(client, orderId);
+
+  const paymentResult = await client.query(
+    `INSERT INTO payments (order_id, amount, currency, provider, status, payment_method)
+     VALUES ($1, $2, $3, $4, 'initiated', $5)
+     RETURNING id`,
+    [orderId, order.total, order.currency, resolveProviderName(order.payment_method), order.payment_method]
+  );
+
+  return authorizePayment(client, paymentResult.rows[0].id, paymentToken);
+};
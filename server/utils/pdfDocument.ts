@@ -0,0 +1,239 @@
+import { deflateSync } from 'zlib';
+
+// A4 in points
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: string; // #rrggbb
+  align?: 'left' | 'right';
+}
+
+// Glyph widths (1/1000 em) of the standard Helvetica fonts for ASCII 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding still has a code for
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+};
+
+const charWidth = (char: string, bold: boolean): number => {
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code <= 126) {
+    return (bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[code - 32];
+  }
+  return 556;
+};
+
+// Text as a WinAnsi byte string - anything the standard fonts cannot show becomes '?'
+const toWinAnsi = (text: string): string => {
+  let encoded = '';
+  for (const char of text) {
+    const code = char.codePointAt(0) as number;
+    if (WIN_ANSI_EXTRAS[char] !== undefined) {
+      encoded += String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    } else if (code === 9 || code === 10 || code === 13) {
+      encoded += ' ';
+    } else if (code < 32 || (code >= 127 && code < 160) || code > 255) {
+      encoded += '?';
+    } else {
+      encoded += char;
+    }
+  }
+  return encoded;
+};
+
+const escapeString = (text: string): string => text.replace(/[\\()]/g, match => `\\${match}`);
+
+const formatNumber = (value: number): string => {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2).replace(/0+$/, '').replace(/\.$/, '');
+};
+
+const toRgb = (hex: string): string => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+    .map(channel => formatNumber(Math.round((channel / 255) * 1000) / 1000))
+    .join(' ');
+};
+
+/**
+ * Minimal PDF writer for generated documents such as invoices
+ * Draws text, lines and filled rectangles on A4 pages using the standard
+ * Helvetica fonts, which every PDF reader ships, so no font files or
+ * network access are needed. Coordinates are in points from the top-left
+ * corner of the page.
+ */
+export class PdfDocument {
+  private pages: string[][] = [];
+
+  constructor(private title: string) {}
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  /**
+   * Width of a line of text in points
+   */
+  textWidth(text: string, size: number, bold = false): number {
+    let width = 0;
+    for (const char of toWinAnsi(text)) {
+      width += charWidth(char, bold);
+    }
+    return (width * size) / 1000;
+  }
+
+  /**
+   * Break text into lines no wider than maxWidth, splitting on spaces
+   * A single word longer than the width is left on a line of its own.
+   */
+  wrapText(text: string, maxWidth: number, size: number, bold = false): string[] {
+    const lines: string[] = [];
+    let current = '';
+
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (current && this.textWidth(candidate, size, bold) > maxWidth) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    }
+
+    if (current || lines.length === 0) {
+      lines.push(current);
+    }
+    return lines;
+  }
+
+  /**
+   * Write a line of text with its baseline at y
+   * Right-aligned text ends at x.
+   */
+  text(text: string, x: number, y: number, options: PdfTextOptions = {}): void {
+    const { size = 10, bold = false, color = '#111827', align = 'left' } = options;
+    const left = align === 'right' ? x - this.textWidth(text, size, bold) : x;
+
+    this.draw(
+      `BT ${toRgb(color)} rg /${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ` +
+      `${formatNumber(left)} ${formatNumber(PAGE_HEIGHT - y)} Td (${escapeString(toWinAnsi(text))}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color = '#d1d5db', width = 0.75): void {
+    this.draw(
+      `${toRgb(color)} RG ${formatNumber(width)} w ` +
+      `${formatNumber(x1)} ${formatNumber(PAGE_HEIGHT - y1)} m ${formatNumber(x2)} ${formatNumber(PAGE_HEIGHT - y2)} l S`
+    );
+  }
+
+  /**
+   * Filled rectangle whose top-left corner is at (x, y)
+   */
+  rect(x: number, y: number, width: number, height: number, color: string): void {
+    this.draw(
+      `${toRgb(color)} rg ${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y - height)} ` +
+      `${formatNumber(width)} ${formatNumber(height)} re f`
+    );
+  }
+
+  /**
+   * Serialize the document
+   * Page contents are deflated; everything else is plain text with a
+   * cross-reference table pointing at each object's byte offset.
+   */
+  toBuffer(): Buffer {
+    if (this.pages.length === 0) {
+      this.addPage();
+    }
+
+    const chunks: Buffer[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (chunk: string | Buffer) => {
+      const buffer = typeof chunk === 'string' ? Buffer.from(chunk, 'latin1') : chunk;
+      chunks.push(buffer);
+      length += buffer.length;
+    };
+
+    const writeObject = (id: number, body: string | Buffer[]) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n`);
+      if (typeof body === 'string') {
+        write(body);
+      } else {
+        body.forEach(write);
+      }
+      write('\nendobj\n');
+    };
+
+    // 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content per page
+    const pageIds = this.pages.map((_, index) => 6 + index * 2);
+
+    write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+    writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    writeObject(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    writeObject(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    writeObject(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    writeObject(5, `<< /Title (${escapeString(toWinAnsi(this.title))}) /Producer (ZineShop) >>`);
+
+    this.pages.forEach((operations, index) => {
+      const pageId = pageIds[index];
+      const content = deflateSync(Buffer.from(operations.join('\n'), 'latin1'));
+
+      writeObject(
+        pageId,
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`
+      );
+      writeObject(pageId + 1, [
+        Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+        content,
+        Buffer.from('\nendstream', 'latin1')
+      ]);
+    });
+
+    const objectCount = offsets.length;
+    const xrefOffset = length;
+
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+      write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return Buffer.concat(chunks);
+  }
+
+  private draw(operation: string): void {
+    if (this.pages.length === 0) {
+      this.addPage();
+    }
+    this.pages[this.pages.length - 1].push(operation);
+  }
+}
@@ -0,0 +1,273 @@
+import { PoolClient } from 'pg';
+import { query, Queryable } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+import { roundMoney, formatMoney } from './money';
+import { resolveCurrency } from './currencies';
+
+export type DiscountType = 'percentage' | 'fixed_amount' | 'free_shipping';
+
+export const DISCOUNT_TYPES: DiscountType[] = ['percentage', 'fixed_amount', 'free_shipping'];
+
+// Who is redeeming - signed-in customers are matched by account, guests by email
+export interface PromotionCustomer {
+  userId: string | null;
+  email: string | null;
+}
+
+// Cart line a discount can be spread over
+export interface DiscountableItem {
+  productId: string;
+  categoryId: string | null;
+  lineTotal: number;
+}
+
+export interface PromotionCart {
+  items: DiscountableItem[];
+  subtotal: number;
+  shippingCost: number;
+  customer: PromotionCustomer;
+}
+
+// A promotion as stored in promotions
+export interface Promotion {
+  id: string;
+  code: string;
+  description: string | null;
+  discountType: DiscountType;
+  discountValue: number;
+  minSubtotal: number;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  usageLimit: number | null;
+  perCustomerLimit: number | null;
+  categoryIds: string[];
+  productIds: string[];
+  isActive: boolean;
+}
+
+// Discount worked out for a cart
+export interface AppliedDiscount {
+  promotionId: string;
+  code: string;
+  description: string | null;
+  discountType: DiscountType;
+  // Off the goods, spread over the eligible items
+  itemDiscount: number;
+  // Off the shipping charge
+  shippingDiscount: number;
+  discountAmount: number;
+  itemDiscounts: Record<string, number>;
+}
+
+// Outcome of applying a code - invalid codes carry the reason instead of a discount
+export interface CouponResult {
+  code: string;
+  valid: boolean;
+  message?: string;
+  discount?: AppliedDiscount;
+}
+
+export const normalizeCode = (code: string): string => code.trim().toUpperCase();
+
+export const mapPromotionRow = (row: any): Promotion => ({
+  id: row.id,
+  code: row.code,
+  description: row.description,
+  discountType: row.discount_type,
+  discountValue: parseFloat(row.discount_value),
+  minSubtotal: parseFloat(row.min_subtotal || '0'),
+  startsAt: row.starts_at,
+  endsAt: row.ends_at,
+  usageLimit: row.usage_limit,
+  perCustomerLimit: row.per_customer_limit,
+  categoryIds: row.category_ids || [],
+  productIds: row.product_ids || [],
+  isActive: row.is_active
+});
+
+// Redemptions of cancelled orders give the use back
+const countRedemptions = async (
+  db: Queryable,
+  promotionId: string,
+  customer?: PromotionCustomer
+): Promise<number> => {
+  if (!customer) {
+    const result = await db.query(
+      `SELECT COUNT(*) as uses FROM promotion_redemptions pr
+       JOIN orders o ON pr.order_id = o.id
+       WHERE pr.promotion_id = $1 AND o.status != 'cancelled'`,
+      [promotionId]
+    );
+    return parseInt(result.rows[0].uses);
+  }
+
+  const result = await db.query(
+    `SELECT COUNT(*) as uses FROM promotion_redemptions pr
+     JOIN orders o ON pr.order_id = o.id
+     WHERE pr.promotion_id = $1 AND o.status != 'cancelled'
+       AND (($2::uuid IS NOT NULL AND pr.user_id = $2) OR LOWER(pr.customer_email) = LOWER($3))`,
+    [promotionId, customer.userId, customer.email || '']
+  );
+  return parseInt(result.rows[0].uses);
+};
+
+/**
+ * Check the usage limits of a promotion
+ * Returns the reason the code cannot be used, or null when it can.
+ */
+const checkUsageLimits = async (
+  db: Queryable,
+  promotion: Promotion,
+  customer: PromotionCustomer
+): Promise<string | null> => {
+  if (promotion.usageLimit !== null && await countRedemptions(db, promotion.id) >= promotion.usageLimit) {
+    return 'This code has reached its usage limit';
+  }
+
+  if (promotion.perCustomerLimit !== null && (customer.userId || customer.email)) {
+    if (await countRedemptions(db, promotion.id, customer) >= promotion.perCustomerLimit) {
+      return 'You have already used this code the maximum number of times';
+    }
+  }
+
+  return null;
+};
+
+const isEligible = (promotion: Promotion, item: DiscountableItem): boolean => {
+  if (promotion.categoryIds.length === 0 && promotion.productIds.length === 0) {
+    return true;
+  }
+  return promotion.productIds.includes(item.productId) ||
+    (item.categoryId !== null && promotion.categoryIds.includes(item.categoryId));
+};
+
+/**
+ * Spread a discount over items in proportion to their totals
+ * The last item takes the rounding remainder so the parts add up exactly.
+ */
+const allocateDiscount = (items: DiscountableItem[], discount: number): Record<string, number> => {
+  const eligibleTotal = items.reduce((sum, item) => sum + item.lineTotal, 0);
+  const allocations: Record<string, number> = {};
+  let allocated = 0;
+
+  items.forEach((item, index) => {
+    const share = index === items.length - 1
+      ? roundMoney(discount - allocated)
+      : roundMoney(discount * (item.lineTotal / eligibleTotal));
+    allocations[item.productId] = share;
+    allocated = roundMoney(allocated + share);
+  });
+
+  return allocations;
+};
+
+/**
+ * Apply a promotion code to a cart
+ * Checks the validity window, minimum subtotal, restrictions and usage limits.
+ * Problems are returned on the result rather than thrown so a quote can still
+ * be shown without the discount.
+ */
+export const applyCoupon = async (
+  rawCode: string,
+  cart: PromotionCart,
+  db: Queryable = { query }
+): Promise<CouponResult> => {
+  const code = normalizeCode(rawCode);
+  const invalid = (message: string): CouponResult => ({ code, valid: false, message });
+
+  const promotionResult = await db.query('SELECT * FROM promotions WHERE code = $1', [code]);
+
+  if (promotionResult.rows.length === 0 || !promotionResult.rows[0].is_active) {
+    return invalid('This code is not valid');
+  }
+
+  const promotion = mapPromotionRow(promotionResult.rows[0]);
+  const now = new Date();
+
+  if (promotion.startsAt && now < new Date(promotion.startsAt)) {
+    return invalid('This code is not active yet');
+  }
+
+  if (promotion.endsAt && now > new Date(promotion.endsAt)) {
+    return invalid('This code has expired');
+  }
+
+  if (cart.subtotal < promotion.minSubtotal) {
+    // Minimums are set in the base currency, like the cart subtotal they are checked against
+    const baseCurrency = await resolveCurrency(null, db);
+    return invalid(`This code requires a subtotal of at least ${formatMoney(promotion.minSubtotal, baseCurrency.code)}`);
+  }
+
+  const eligibleItems = cart.items.filter(item => isEligible(promotion, item));
+  if (eligibleItems.length === 0) {
+    return invalid('This code does not apply to any items in your cart');
+  }
+
+  const limitMessage = await checkUsageLimits(db, promotion, cart.customer);
+  if (limitMessage) {
+    return invalid(limitMessage);
+  }
+
+  const eligibleSubtotal = roundMoney(eligibleItems.reduce((sum, item) => sum + item.lineTotal, 0));
+  let itemDiscount = 0;
+  let shippingDiscount = 0;
+
+  switch (promotion.discountType) {
+    case 'percentage':
+      itemDiscount = roundMoney(eligibleSubtotal * Math.min(promotion.discountValue, 100) / 100);
+      break;
+    case 'fixed_amount':
+      itemDiscount = roundMoney(Math.min(promotion.discountValue, eligibleSubtotal));
+      break;
+    case 'free_shipping':
+      shippingDiscount = cart.shippingCost;
+      break;
+  }
+
+  return {
+    code,
+    valid: true,
+    discount: {
+      promotionId: promotion.id,
+      code,
+      description: promotion.description,
+      discountType: promotion.discountType,
+      itemDiscount,
+      shippingDiscount,
+      discountAmount: roundMoney(itemDiscount + shippingDiscount),
+      itemDiscounts: itemDiscount > 0 ? allocateDiscount(eligibleItems, itemDiscount) : {}
+    }
+  };
+};
+
+/**
+ * Record that an order used a promotion
+ * The promotion row is locked while its limits are checked again so two
+ * orders cannot both take the last use.
+ */
+export const redeemPromotion = async (
+  client: PoolClient,
+  orderId: string,
+  discount: AppliedDiscount,
+  customer: PromotionCustomer
+): Promise<void> => {
+  const promotionResult = await client.query(
+    'SELECT * FROM promotions WHERE id = $1 FOR UPDATE',
+    [discount.promotionId]
+  );
+
+  if (promotionResult.rows.length === 0) {
+    throw createError('This code is not valid', 400);
+  }
+
+  const limitMessage = await checkUsageLimits(client, mapPromotionRow(promotionResult.rows[0]), customer);
+  if (limitMessage) {
+    throw createError(limitMessage, 409);
+  }
+
+  await client.query(
+    `INSERT INTO promotion_redemptions (promotion_id, order_id, user_id, customer_email, discount_amount)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [discount.promotionId, orderId, customer.userId, customer.email, discount.discountAmount]
+  );
+};
@@ -0,0 +1,193 @@
+import { PoolClient } from 'pg';
+import { query, Queryable } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+import { roundMoney } from './money';
+import { getPaymentProvider } from './paymentProviders';
+import { transitionOrder, getAllowedTransitions } from './orderStateMachine';
+import { StatusChangeActor } from './orderStatusHistory';
+import { issueCreditNote } from './billingDocuments';
+import { queueOrderEmail } from './orderEmails';
+
+export type RefundStatus = 'pending' | 'succeeded' | 'failed';
+
+// Payment statuses in which money has actually been taken
+export const CAPTURED_PAYMENT_STATUSES = ['success', 'refund_pending', 'partially_refunded', 'refunded'];
+
+export interface Refund {
+  id: string;
+  paymentId: string;
+  orderId: string;
+  returnId: string | null;
+  amount: number;
+  reason: string | null;
+  status: RefundStatus;
+  provider: string;
+  providerRefundId: string | null;
+  failureReason: string | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+// Money taken for an order and how much of it has gone back
+export interface OrderRefundSummary {
+  capturedAmount: number;
+  refundedAmount: number;
+  refundableAmount: number;
+  refunds: Refund[];
+}
+
+export interface IssueRefundOptions {
+  orderId: string;
+  amount: number;
+  reason: string | null;
+  actor: StatusChangeActor;
+  returnId?: string | null;
+}
+
+const mapRefundRow = (row: any): Refund => ({
+  id: row.id,
+  paymentId: row.payment_id,
+  orderId: row.order_id,
+  returnId: row.return_id,
+  amount: parseFloat(row.amount),
+  reason: row.reason,
+  status: row.status,
+  provider: row.provider,
+  providerRefundId: row.provider_refund_id,
+  failureReason: row.failure_reason,
+  createdByName: row.created_by_name || null,
+  createdAt: row.created_at
+});
+
+/**
+ * Refunds of an order with the captured and still refundable amounts
+ * Failed refunds are listed but do not count against the captured amount.
+ */
+export const getOrderRefunds = async (orderId: string, db: Queryable = { query }): Promise<OrderRefundSummary> => {
+  const [paymentsResult, refundsResult] = await Promise.all([
+    db.query(
+      'SELECT COALESCE(SUM(amount), 0) AS captured FROM payments WHERE order_id = $1 AND status = ANY($2)',
+      [orderId, CAPTURED_PAYMENT_STATUSES]
+    ),
+    db.query(
+      `SELECT r.*, u.full_name AS created_by_name
+       FROM refunds r
+       LEFT JOIN users u ON r.created_by = u.id
+       WHERE r.order_id = $1
+       ORDER BY r.created_at DESC`,
+      [orderId]
+    )
+  ]);
+
+  const refunds = refundsResult.rows.map(mapRefundRow);
+  const capturedAmount = roundMoney(parseFloat(paymentsResult.rows[0].captured));
+  const refundedAmount = roundMoney(
+    refunds.filter(refund => refund.status !== 'failed').reduce((sum, refund) => sum + refund.amount, 0)
+  );
+
+  return {
+    capturedAmount,
+    refundedAmount,
+    refundableAmount: Math.max(0, roundMoney(capturedAmount - refundedAmount)),
+    refunds
+  };
+};
+
+/**
+ * Send money back for an order through its payment provider
+ * The payment row is locked so concurrent refunds cannot together exceed the
+ * captured amount. A failed provider call is still recorded, so the attempt
+ * shows in the ledger. Once everything captured has been refunded the payment
+ * is marked refunded and, where the lifecycle allows, so is the order.
+ */
+export const issueRefund = async (client: PoolClient, options: IssueRefundOptions): Promise<Refund> => {
+  const { orderId, reason, actor } = options;
+  const amount = roundMoney(options.amount);
+
+  if (!(amount > 0)) {
+    throw createError('Refund amount must be greater than zero', 400);
+  }
+
+  const paymentResult = await client.query(
+    `SELECT id, amount, transaction_id, provider, payment_method
+     FROM payments
+     WHERE order_id = $1 AND status = ANY($2)
+     ORDER BY created_at
+     LIMIT 1
+     FOR UPDATE`,
+    [orderId, CAPTURED_PAYMENT_STATUSES]
+  );
+
+  if (paymentResult.rows.length === 0) {
+    throw createError('This order has no captured payment to refund', 409);
+  }
+
+  const payment = paymentResult.rows[0];
+  const capturedAmount = parseFloat(payment.amount);
+
+  const refundedResult = await client.query(
+    "SELECT COALESCE(SUM(amount), 0) AS refunded FROM refunds WHERE payment_id = $1 AND status <> 'failed'",
+    [payment.id]
+  );
+  const alreadyRefunded = parseFloat(refundedResult.rows[0].refunded);
+  const refundable = roundMoney(capturedAmount - alreadyRefunded);
+
+  if (amount > refundable) {
+    throw createError(
+      refundable > 0
+        ? `Refund cannot exceed the ${refundable.toFixed(2)} still refundable on this order`
+        : 'This order has already been fully refunded',
+      400
+    );
+  }
+
+  const provider = getPaymentProvider(payment);
+
+  const insertResult = await client.query(
+    `INSERT INTO refunds (payment_id, order_id, return_id, amount, reason, status, provider, created_by)
+     VALUES ($1, $2, $3, $4, $5, 'pending', $6, $7)
+     RETURNING id`,
+    [payment.id, orderId, options.returnId || null, amount, reason, provider.name, actor.userId]
+  );
+  const refundId = insertResult.rows[0].id;
+
+  const result = await provider.refund(
+    { paymentId: payment.id, transactionId: payment.transaction_id, amount: capturedAmount },
+    amount,
+    reason
+  );
+
+  const refundResult = await client.query(
+    `UPDATE refunds
+     SET status = $1, provider_refund_id = $2, failure_reason = $3, updated_at = NOW()
+     WHERE id = $4
+     RETURNING *`,
+    [result.status, result.providerRefundId, result.failureReason || null, refundId]
+  );
+
+  // Refunds still pending at the provider get theirs when its webhook confirms them
+  if (result.status === 'succeeded') {
+    await issueCreditNote(client, refundId);
+    await queueOrderEmail(client, orderId, { template: 'refund_issued', amount, reason });
+  }
+
+  if (result.status !== 'failed') {
+    const fullyRefunded = roundMoney(alreadyRefunded + amount) >= capturedAmount;
+
+    await client.query(
+      'UPDATE payments SET status = $1 WHERE id = $2',
+      [fullyRefunded ? 'refunded' : 'partially_refunded', payment.id]
+    );
+
+    if (fullyRefunded) {
+      const orderResult = await client.query('SELECT status, payment_method FROM orders WHERE id = $1', [orderId]);
+      const order = orderResult.rows[0];
+
+      if (order && getAllowedTransitions(order).includes('refunded')) {
+        await transitionOrder(client, orderId, 'refunded', actor, reason);
+      }
+    }
+  }
+
+  return mapRefundRow(refundResult.rows[0]);
+};
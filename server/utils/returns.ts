@@ -0,0 +1,464 @@
+import { PoolClient } from 'pg';
+import { query, Queryable } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+import { roundMoney } from './money';
+import { transitionOrder } from './orderStateMachine';
+import { issueRefund } from './refunds';
+import { StatusChangeActor } from './orderStatusHistory';
+
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'received' | 'refunded';
+
+export const RETURN_STATUSES: ReturnStatus[] = ['requested', 'approved', 'rejected', 'received', 'refunded'];
+
+// Where a return request can go from each status - rejected and refunded are final
+const RETURN_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  requested: ['approved', 'rejected'],
+  approved: ['received', 'rejected'],
+  received: ['refunded'],
+  rejected: [],
+  refunded: []
+};
+
+// Why the customer is sending an item back
+export const RETURN_REASONS: Record<string, string> = {
+  damaged: 'Arrived damaged',
+  defective: 'Defective or does not work',
+  wrong_item: 'Wrong item sent',
+  not_as_described: 'Not as described',
+  no_longer_needed: 'No longer needed',
+  other: 'Other'
+};
+
+// State the customer says the item is in
+export const ITEM_CONDITIONS: Record<string, string> = {
+  unopened: 'Unopened',
+  opened: 'Opened, unused',
+  used: 'Used',
+  damaged: 'Damaged'
+};
+
+// What happens to a received item - back on sale or written off
+export type ReturnDisposition = 'restock' | 'write_off';
+
+export const RETURN_DISPOSITIONS: ReturnDisposition[] = ['restock', 'write_off'];
+
+// Only delivered goods can be sent back
+export const RETURNABLE_ORDER_STATUSES = ['delivered'];
+
+/**
+ * What the customer paid for the returned units of a line (ri joined to oi)
+ * The line's coupon discount and tax are shared out per unit, so a returned
+ * unit is worth what was actually charged for it, not its list price.
+ */
+const RETURNED_VALUE_SQL =
+  'ROUND(ri.quantity * (oi.unit_price * oi.quantity - oi.discount_amount + oi.tax_amount) / oi.quantity, 2)';
+
+// An order line with the quantity still available to return
+export interface ReturnableItem {
+  orderItemId: string;
+  productId: string;
+  name: string;
+  image: string | null;
+  unitPrice: number;
+  quantity: number;
+  returnableQuantity: number;
+}
+
+export interface ReturnItem {
+  id: string;
+  orderItemId: string;
+  productId: string;
+  name: string;
+  image: string | null;
+  unitPrice: number;
+  quantity: number;
+  // Net amount paid for these units, after discount and with tax
+  refundableAmount: number;
+  reason: string;
+  condition: string;
+  disposition: ReturnDisposition | null;
+}
+
+export interface ReturnRequest {
+  id: string;
+  rmaNumber: string;
+  orderId: string;
+  orderNumber: string;
+  orderStatus: string;
+  customerEmail: string;
+  // Currency of the order - refunds and item prices are in it
+  currency: string;
+  status: ReturnStatus;
+  customerNote: string | null;
+  adminNote: string | null;
+  refundAmount: number | null;
+  items: ReturnItem[];
+  createdAt: string;
+  decidedAt: string | null;
+  receivedAt: string | null;
+  refundedAt: string | null;
+}
+
+// A line the customer asks to send back
+export interface ReturnItemInput {
+  orderItemId: string;
+  quantity: number;
+  reason: string;
+  condition: string;
+}
+
+export const isReturnStatus = (value: unknown): value is ReturnStatus => {
+  return typeof value === 'string' && RETURN_STATUSES.includes(value as ReturnStatus);
+};
+
+export const getAllowedReturnTransitions = (status: ReturnStatus): ReturnStatus[] => {
+  return RETURN_TRANSITIONS[status] || [];
+};
+
+// Customer-facing reference, in the same style as order numbers
+export const formatRmaNumber = (returnId: string): string => `RMA-${returnId.substring(0, 8).toUpperCase()}`;
+
+/**
+ * Lines of an order with how many units can still be returned
+ * Units already on a return request count against the line unless the
+ * request was rejected.
+ */
+export const getReturnableItems = async (orderId: string, db: Queryable = { query }): Promise<ReturnableItem[]> => {
+  const result = await db.query(
+    `SELECT oi.id, oi.product_id, oi.quantity, oi.unit_price, p.name, p.image_url,
+            COALESCE((
+              SELECT SUM(ri.quantity)
+              FROM return_items ri
+              JOIN return_requests rr ON ri.return_id = rr.id
+              WHERE ri.order_item_id = oi.id AND rr.status <> 'rejected'
+            ), 0) AS returned_quantity
+     FROM order_items oi
+     LEFT JOIN products p ON oi.product_id = p.id
+     WHERE oi.order_id = $1
+     ORDER BY p.name`,
+    [orderId]
+  );
+
+  return result.rows.map(row => ({
+    orderItemId: row.id,
+    productId: row.product_id,
+    name: row.name,
+    image: row.image_url,
+    unitPrice: parseFloat(row.unit_price),
+    quantity: row.quantity,
+    returnableQuantity: Math.max(0, row.quantity - parseInt(row.returned_quantity))
+  }));
+};
+
+/**
+ * Load return requests with their items, newest first
+ * Filter by request, order or status; with no filters every request is returned.
+ */
+export const getReturnRequests = async (
+  filters: { orderId?: string; status?: ReturnStatus; returnId?: string },
+  db: Queryable = { query }
+): Promise<ReturnRequest[]> => {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (filters.returnId) {
+    params.push(filters.returnId);
+    conditions.push(`rr.id = $${params.length}`);
+  }
+  if (filters.orderId) {
+    params.push(filters.orderId);
+    conditions.push(`rr.order_id = $${params.length}`);
+  }
+  if (filters.status) {
+    params.push(filters.status);
+    conditions.push(`rr.status = $${params.length}`);
+  }
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const requestsResult = await db.query(
+    `SELECT rr.*, o.status AS order_status, o.customer_email, o.currency
+     FROM return_requests rr
+     JOIN orders o ON rr.order_id = o.id
+     ${whereClause}
+     ORDER BY rr.created_at DESC
+     LIMIT 200`,
+    params
+  );
+
+  if (requestsResult.rows.length === 0) {
+    return [];
+  }
+
+  const itemsResult = await db.query(
+    `SELECT ri.*, oi.product_id, oi.unit_price, ${RETURNED_VALUE_SQL} AS refundable_amount, p.name, p.image_url
+     FROM return_items ri
+     JOIN order_items oi ON ri.order_item_id = oi.id
+     LEFT JOIN products p ON oi.product_id = p.id
+     WHERE ri.return_id = ANY($1)
+     ORDER BY p.name`,
+    [requestsResult.rows.map(row => row.id)]
+  );
+
+  return requestsResult.rows.map(row => ({
+    id: row.id,
+    rmaNumber: formatRmaNumber(row.id),
+    orderId: row.order_id,
+    orderNumber: row.order_id.substring(0, 8).toUpperCase(),
+    orderStatus: row.order_status,
+    customerEmail: row.customer_email,
+    currency: row.currency.trim(),
+    status: row.status,
+    customerNote: row.customer_note,
+    adminNote: row.admin_note,
+    refundAmount: row.refund_amount !== null ? parseFloat(row.refund_amount) : null,
+    items: itemsResult.rows
+      .filter(item => item.return_id === row.id)
+      .map(item => ({
+        id: item.id,
+        orderItemId: item.order_item_id,
+        productId: item.product_id,
+        name: item.name,
+        image: item.image_url,
+        unitPrice: parseFloat(item.unit_price),
+        quantity: item.quantity,
+        refundableAmount: parseFloat(item.refundable_amount),
+        reason: item.reason,
+        condition: item.condition,
+        disposition: item.disposition
+      })),
+    createdAt: row.created_at,
+    decidedAt: row.decided_at,
+    receivedAt: row.received_at,
+    refundedAt: row.refunded_at
+  }));
+};
+
+/**
+ * Open a return request for some or all of an order's items
+ * The order row is locked so two requests for the same units cannot both
+ * pass the returnable-quantity check. Returns the new request's id.
+ */
+export const createReturnRequest = async (
+  client: PoolClient,
+  orderId: string,
+  userId: string | null,
+  items: ReturnItemInput[],
+  customerNote: string | null
+): Promise<string> => {
+  const orderResult = await client.query('SELECT status FROM orders WHERE id = $1 FOR UPDATE', [orderId]);
+
+  if (orderResult.rows.length === 0) {
+    throw createError('Order not found', 404);
+  }
+
+  if (!RETURNABLE_ORDER_STATUSES.includes(orderResult.rows[0].status)) {
+    throw createError('Only delivered orders can be returned', 409);
+  }
+
+  const returnable = await getReturnableItems(orderId, client);
+
+  for (const item of items) {
+    const line = returnable.find(candidate => candidate.orderItemId === item.orderItemId);
+
+    if (!line) {
+      throw createError('One of the items is not part of this order', 400);
+    }
+    if (item.quantity > line.returnableQuantity) {
+      throw createError(
+        line.returnableQuantity === 0
+          ? `${line.name} has already been returned`
+          : `Only ${line.returnableQuantity} of ${line.name} can be returned`,
+        409
+      );
+    }
+  }
+
+  const requestResult = await client.query(
+    `INSERT INTO return_requests (order_id, user_id, customer_note)
+     VALUES ($1, $2, $3)
+     RETURNING id`,
+    [orderId, userId, customerNote]
+  );
+
+  const returnId = requestResult.rows[0].id;
+
+  for (const item of items) {
+    await client.query(
+      `INSERT INTO return_items (return_id, order_item_id, quantity, reason, condition)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [returnId, item.orderItemId, item.quantity, item.reason, item.condition]
+    );
+  }
+
+  return returnId;
+};
+
+/**
+ * Lock a return request and check it may move to the given status
+ */
+const lockReturnForTransition = async (client: PoolClient, returnId: string, to: ReturnStatus) => {
+  const result = await client.query(
+    'SELECT id, order_id, status FROM return_requests WHERE id = $1 FOR UPDATE',
+    [returnId]
+  );
+
+  if (result.rows.length === 0) {
+    throw createError('Return request not found', 404);
+  }
+
+  const current = result.rows[0];
+  const allowed = getAllowedReturnTransitions(current.status);
+
+  if (!allowed.includes(to)) {
+    throw createError(
+      allowed.length > 0
+        ? `Cannot change a ${current.status} return to ${to}. Allowed: ${allowed.join(', ')}`
+        : `Cannot change a ${current.status} return to ${to} - ${current.status} is a final status`,
+      409
+    );
+  }
+
+  return current as { id: string; order_id: string; status: ReturnStatus };
+};
+
+/**
+ * Approve or reject a return request
+ */
+export const decideReturn = async (
+  client: PoolClient,
+  returnId: string,
+  decision: 'approved' | 'rejected',
+  adminId: string,
+  adminNote: string | null
+): Promise<void> => {
+  await lockReturnForTransition(client, returnId, decision);
+
+  await client.query(
+    `UPDATE return_requests
+     SET status = $1, admin_note = COALESCE($2, admin_note), decided_by = $3, decided_at = NOW(), updated_at = NOW()
+     WHERE id = $4`,
+    [decision, adminNote, adminId, returnId]
+  );
+};
+
+/**
+ * Record that the goods came back
+ * Each item is either restocked or written off. When every unit of the order
+ * has now been received back, the order itself moves to returned.
+ */
+export const receiveReturn = async (
+  client: PoolClient,
+  returnId: string,
+  dispositions: Record<string, ReturnDisposition>,
+  actor: StatusChangeActor
+): Promise<void> => {
+  const request = await lockReturnForTransition(client, returnId, 'received');
+
+  const itemsResult = await client.query(
+    `SELECT ri.id, ri.quantity, oi.product_id
+     FROM return_items ri
+     JOIN order_items oi ON ri.order_item_id = oi.id
+     WHERE ri.return_id = $1`,
+    [returnId]
+  );
+
+  for (const item of itemsResult.rows) {
+    const disposition = dispositions[item.id];
+
+    if (!disposition) {
+      throw createError('Choose restock or write-off for every returned item', 400);
+    }
+
+    await client.query('UPDATE return_items SET disposition = $1 WHERE id = $2', [disposition, item.id]);
+
+    if (disposition === 'restock') {
+      await client.query(
+        'UPDATE products SET stock = stock + $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+        [item.quantity, item.product_id]
+      );
+    }
+  }
+
+  await client.query(
+    `UPDATE return_requests SET status = 'received', received_at = NOW(), updated_at = NOW() WHERE id = $1`,
+    [returnId]
+  );
+
+  // Whole order back in the warehouse - reflect it on the order
+  const outstandingResult = await client.query(
+    `SELECT COALESCE(SUM(oi.quantity), 0) - COALESCE((
+       SELECT SUM(ri.quantity)
+       FROM return_items ri
+       JOIN return_requests rr ON ri.return_id = rr.id
+       WHERE rr.order_id = $1 AND rr.status IN ('received', 'refunded')
+     ), 0) AS outstanding
+     FROM order_items oi
+     WHERE oi.order_id = $1`,
+    [request.order_id]
+  );
+
+  if (parseInt(outstandingResult.rows[0].outstanding) <= 0) {
+    await transitionOrder(client, request.order_id, 'returned', actor, `Return ${formatRmaNumber(returnId)} received`);
+  }
+};
+
+/**
+ * Refund a received return
+ * Defaults to what was paid for the returned units, after the coupon and with
+ * their tax; a lower amount can be given, for example to deduct for a used
+ * item. The money goes back through the refunds ledger, and a fully returned
+ * order moves to refunded.
+ */
+export const refundReturn = async (
+  client: PoolClient,
+  returnId: string,
+  amount: number | null,
+  actor: StatusChangeActor
+): Promise<number> => {
+  const request = await lockReturnForTransition(client, returnId, 'refunded');
+
+  const valueResult = await client.query(
+    `SELECT COALESCE(SUM(${RETURNED_VALUE_SQL}), 0) AS value
+     FROM return_items ri
+     JOIN order_items oi ON ri.order_item_id = oi.id
+     WHERE ri.return_id = $1`,
+    [returnId]
+  );
+
+  const itemsValue = roundMoney(parseFloat(valueResult.rows[0].value));
+  const refundAmount = amount === null ? itemsValue : roundMoney(amount);
+
+  if (refundAmount < 0 || refundAmount > itemsValue) {
+    throw createError(`Refund must be between 0 and ${itemsValue.toFixed(2)}`, 400);
+  }
+
+  await client.query(
+    `UPDATE return_requests
+     SET status = 'refunded', refund_amount = $1, refunded_at = NOW(), updated_at = NOW()
+     WHERE id = $2`,
+    [refundAmount, returnId]
+  );
+
+  // Nothing to send back when the whole value was deducted
+  if (refundAmount > 0) {
+    const refund = await issueRefund(client, {
+      orderId: request.order_id,
+      amount: refundAmount,
+      reason: `Return ${formatRmaNumber(returnId)}`,
+      actor,
+      returnId
+    });
+
+    if (refund.status === 'failed') {
+      throw createError(refund.failureReason || 'The payment provider declined the refund', 502);
+    }
+  }
+
+  const orderResult = await client.query('SELECT status FROM orders WHERE id = $1', [request.order_id]);
+  if (orderResult.rows[0]?.status === 'returned') {
+    await transitionOrder(client, request.order_id, 'refunded', actor, `Return ${formatRmaNumber(returnId)} refunded`);
+  }
+
+  return refundAmount;
+};
@@ -0,0 +1,356 @@
+import { PoolClient } from 'pg';
+import { query, Queryable } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+import { transitionOrder } from './orderStateMachine';
+import { StatusChangeActor } from './orderStatusHistory';
+import { queueOrderEmail } from './orderEmails';
+
+export type ShipmentStatus = 'in_transit' | 'delivered';
+
+// Carriers staff can choose, with the public tracking page for a tracking number
+export const CARRIERS: Record<string, { name: string; trackingUrl: string | null }> = {
+  ups: { name: 'UPS', trackingUrl: 'https://www.ups.com/track?tracknum={tracking}' },
+  fedex: { name: 'FedEx', trackingUrl: 'https://www.fedex.com/fedextrack/?trknbr={tracking}' },
+  usps: { name: 'USPS', trackingUrl: 'https://tools.usps.com/go/TrackConfirmAction?tLabels={tracking}' },
+  dhl: { name: 'DHL', trackingUrl: 'https://www.dhl.com/en/express/tracking.html?AWB={tracking}' },
+  other: { name: 'Other', trackingUrl: null }
+};
+
+// Goods can be handed to a carrier once the order is being prepared
+export const SHIPPABLE_ORDER_STATUSES = ['processing', 'partially_shipped', 'shipped'];
+
+// Orders waiting for some or all of their units to ship
+export const FULFILLMENT_QUEUE_STATUSES = ['processing', 'partially_shipped'];
+
+// An order line with the quantity not yet put in a shipment
+export interface ShippableItem {
+  orderItemId: string;
+  productId: string;
+  name: string;
+  image: string | null;
+  quantity: number;
+  unshippedQuantity: number;
+}
+
+export interface ShipmentItem {
+  id: string;
+  orderItemId: string;
+  productId: string;
+  name: string;
+  image: string | null;
+  quantity: number;
+}
+
+export interface Shipment {
+  id: string;
+  orderId: string;
+  carrier: string;
+  carrierName: string;
+  trackingNumber: string;
+  trackingUrl: string | null;
+  status: ShipmentStatus;
+  items: ShipmentItem[];
+  shippedAt: string;
+  deliveredAt: string | null;
+}
+
+// An order in the fulfillment queue with the lines still to ship
+export interface FulfillmentQueueEntry {
+  orderId: string;
+  orderNumber: string;
+  orderStatus: string;
+  customerName: string;
+  customerEmail: string;
+  shipmentCount: number;
+  unshippedUnits: number;
+  items: ShippableItem[];
+  createdAt: string;
+}
+
+// A line going into a new shipment
+export interface ShipmentItemInput {
+  orderItemId: string;
+  quantity: number;
+}
+
+export const isCarrier = (value: unknown): value is string => {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CARRIERS, value);
+};
+
+/**
+ * Public tracking page for a parcel
+ * Null for carriers without a known tracking page.
+ */
+export const buildTrackingUrl = (carrier: string, trackingNumber: string): string | null => {
+  const template = CARRIERS[carrier]?.trackingUrl;
+  return template ? template.replace('{tracking}', encodeURIComponent(trackingNumber)) : null;
+};
+
+/**
+ * Lines of an order with how many units have not been shipped yet
+ */
+export const getShippableItems = async (orderId: string, db: Queryable = { query }): Promise<ShippableItem[]> => {
+  const result = await db.query(
+    `SELECT oi.id, oi.product_id, oi.quantity, p.name, p.image_url,
+            COALESCE((
+              SELECT SUM(si.quantity) FROM shipment_items si WHERE si.order_item_id = oi.id
+            ), 0) AS shipped_quantity
+     FROM order_items oi
+     LEFT JOIN products p ON oi.product_id = p.id
+     WHERE oi.order_id = $1
+     ORDER BY p.name`,
+    [orderId]
+  );
+
+  return result.rows.map(row => ({
+    orderItemId: row.id,
+    productId: row.product_id,
+    name: row.name,
+    image: row.image_url,
+    quantity: row.quantity,
+    unshippedQuantity: Math.max(0, row.quantity - parseInt(row.shipped_quantity))
+  }));
+};
+
+/**
+ * Load an order's shipments with their items, oldest first
+ */
+export const getShipments = async (orderId: string, db: Queryable = { query }): Promise<Shipment[]> => {
+  const shipmentsResult = await db.query(
+    'SELECT * FROM shipments WHERE order_id = $1 ORDER BY shipped_at, created_at',
+    [orderId]
+  );
+
+  if (shipmentsResult.rows.length === 0) {
+    return [];
+  }
+
+  const itemsResult = await db.query(
+    `SELECT si.*, oi.product_id, p.name, p.image_url
+     FROM shipment_items si
+     JOIN order_items oi ON si.order_item_id = oi.id
+     LEFT JOIN products p ON oi.product_id = p.id
+     WHERE si.shipment_id = ANY($1)
+     ORDER BY p.name`,
+    [shipmentsResult.rows.map(row => row.id)]
+  );
+
+  return shipmentsResult.rows.map(row => ({
+    id: row.id,
+    orderId: row.order_id,
+    carrier: row.carrier,
+    carrierName: CARRIERS[row.carrier]?.name || row.carrier,
+    trackingNumber: row.tracking_number,
+    trackingUrl: buildTrackingUrl(row.carrier, row.tracking_number),
+    status: row.status,
+    items: itemsResult.rows
+      .filter(item => item.shipment_id === row.id)
+      .map(item => ({
+        id: item.id,
+        orderItemId: item.order_item_id,
+        productId: item.product_id,
+        name: item.name,
+        image: item.image_url,
+        quantity: item.quantity
+      })),
+    shippedAt: row.shipped_at,
+    deliveredAt: row.delivered_at
+  }));
+};
+
+/**
+ * Orders with units still to ship, oldest first
+ * Only lines with something left to ship are listed.
+ */
+export const getFulfillmentQueue = async (db: Queryable = { query }): Promise<FulfillmentQueueEntry[]> => {
+  const result = await db.query(
+    `SELECT o.id AS order_id, o.status, o.customer_email, o.created_at, sa.full_name AS customer_name,
+            (SELECT COUNT(*) FROM shipments s WHERE s.order_id = o.id) AS shipment_count,
+            oi.id, oi.product_id, oi.quantity, p.name, p.image_url,
+            COALESCE((
+              SELECT SUM(si.quantity) FROM shipment_items si WHERE si.order_item_id = oi.id
+            ), 0) AS shipped_quantity
+     FROM orders o
+     LEFT JOIN addresses sa ON o.shipping_address_id = sa.id
+     JOIN order_items oi ON oi.order_id = o.id
+     LEFT JOIN products p ON oi.product_id = p.id
+     WHERE o.status = ANY($1)
+     ORDER BY o.created_at, p.name`,
+    [FULFILLMENT_QUEUE_STATUSES]
+  );
+
+  const entries = new Map<string, FulfillmentQueueEntry>();
+
+  for (const row of result.rows) {
+    const unshippedQuantity = Math.max(0, row.quantity - parseInt(row.shipped_quantity));
+    if (unshippedQuantity === 0) continue;
+
+    let entry = entries.get(row.order_id);
+    if (!entry) {
+      entry = {
+        orderId: row.order_id,
+        orderNumber: row.order_id.substring(0, 8).toUpperCase(),
+        orderStatus: row.status,
+        customerName: row.customer_name,
+        customerEmail: row.customer_email,
+        shipmentCount: parseInt(row.shipment_count),
+        unshippedUnits: 0,
+        items: [],
+        createdAt: row.created_at
+      };
+      entries.set(row.order_id, entry);
+    }
+
+    entry.unshippedUnits += unshippedQuantity;
+    entry.items.push({
+      orderItemId: row.id,
+      productId: row.product_id,
+      name: row.name,
+      image: row.image_url,
+      quantity: row.quantity,
+      unshippedQuantity
+    });
+  }
+
+  return Array.from(entries.values());
+};
+
+/**
+ * Record a parcel handed to a carrier
+ * With no items, every unit not yet shipped goes into the shipment. The order
+ * is partially shipped until every unit is in a shipment, then shipped.
+ * Returns the new shipment's id.
+ */
+export const createShipment = async (
+  client: PoolClient,
+  orderId: string,
+  shipment: { carrier: string; trackingNumber: string; shippedAt: Date | null; items: ShipmentItemInput[] | null },
+  actor: StatusChangeActor
+): Promise<string> => {
+  const orderResult = await client.query('SELECT status FROM orders WHERE id = $1 FOR UPDATE', [orderId]);
+
+  if (orderResult.rows.length === 0) {
+    throw createError('Order not found', 404);
+  }
+
+  const orderStatus = orderResult.rows[0].status;
+  if (!SHIPPABLE_ORDER_STATUSES.includes(orderStatus)) {
+    throw createError(`Orders can only be shipped once they are processing - this order is ${orderStatus.replace('_', ' ')}`, 409);
+  }
+
+  const shippable = await getShippableItems(orderId, client);
+
+  const items = shipment.items ?? shippable
+    .filter(line => line.unshippedQuantity > 0)
+    .map(line => ({ orderItemId: line.orderItemId, quantity: line.unshippedQuantity }));
+
+  if (items.length === 0) {
+    throw createError('Every item of this order has already been shipped', 409);
+  }
+
+  for (const item of items) {
+    const line = shippable.find(candidate => candidate.orderItemId === item.orderItemId);
+
+    if (!line) {
+      throw createError('One of the items is not part of this order', 400);
+    }
+    if (item.quantity > line.unshippedQuantity) {
+      throw createError(
+        line.unshippedQuantity === 0
+          ? `${line.name} has already been shipped`
+          : `Only ${line.unshippedQuantity} of ${line.name} are left to ship`,
+        409
+      );
+    }
+  }
+
+  const shipmentResult = await client.query(
+    `INSERT INTO shipments (order_id, carrier, tracking_number, created_by, shipped_at)
+     VALUES ($1, $2, $3, $4, COALESCE($5, NOW()))
+     RETURNING id`,
+    [orderId, shipment.carrier, shipment.trackingNumber, actor.userId, shipment.shippedAt]
+  );
+
+  const shipmentId = shipmentResult.rows[0].id;
+
+  for (const item of items) {
+    await client.query(
+      'INSERT INTO shipment_items (shipment_id, order_item_id, quantity) VALUES ($1, $2, $3)',
+      [shipmentId, item.orderItemId, item.quantity]
+    );
+  }
+
+  await queueOrderEmail(client, orderId, {
+    template: 'order_shipped',
+    shipmentId,
+    carrierName: CARRIERS[shipment.carrier].name,
+    trackingNumber: shipment.trackingNumber,
+    trackingUrl: buildTrackingUrl(shipment.carrier, shipment.trackingNumber)
+  });
+
+  // Already shipped orders were marked by hand and only gain tracking details
+  if (orderStatus !== 'shipped') {
+    const shippedUnits = items.reduce((sum, item) => sum + item.quantity, 0);
+    const remainingUnits = shippable.reduce((sum, line) => sum + line.unshippedQuantity, 0) - shippedUnits;
+    const next = remainingUnits > 0 ? 'partially_shipped' : 'shipped';
+
+    if (next !== orderStatus) {
+      await transitionOrder(
+        client,
+        orderId,
+        next,
+        actor,
+        `Shipped with ${CARRIERS[shipment.carrier].name} (${shipment.trackingNumber})`
+      );
+    }
+  }
+
+  return shipmentId;
+};
+
+/**
+ * Record that a parcel arrived
+ * Once every unit is shipped and every shipment delivered, a shipped order
+ * moves to delivered.
+ */
+export const markShipmentDelivered = async (
+  client: PoolClient,
+  shipmentId: string,
+  actor: StatusChangeActor
+): Promise<string> => {
+  const shipmentResult = await client.query(
+    'SELECT id, order_id, status FROM shipments WHERE id = $1 FOR UPDATE',
+    [shipmentId]
+  );
+
+  if (shipmentResult.rows.length === 0) {
+    throw createError('Shipment not found', 404);
+  }
+
+  const shipment = shipmentResult.rows[0];
+
+  if (shipment.status === 'delivered') {
+    throw createError('Shipment is already delivered', 400);
+  }
+
+  await client.query(
+    "UPDATE shipments SET status = 'delivered', delivered_at = NOW() WHERE id = $1",
+    [shipmentId]
+  );
+
+  const orderResult = await client.query('SELECT status FROM orders WHERE id = $1 FOR UPDATE', [shipment.order_id]);
+  const openResult = await client.query(
+    "SELECT COUNT(*) AS count FROM shipments WHERE order_id = $1 AND status <> 'delivered'",
+    [shipment.order_id]
+  );
+  const shippable = await getShippableItems(shipment.order_id, client);
+
+  const everythingArrived = parseInt(openResult.rows[0].count) === 0
+    && shippable.every(line => line.unshippedQuantity === 0);
+
+  if (everythingArrived && orderResult.rows[0]?.status === 'shipped') {
+    await transitionOrder(client, shipment.order_id, 'delivered', actor, 'All shipments delivered');
+  }
+
+  return shipment.order_id;
+};
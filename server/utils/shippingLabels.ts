@@ -0,0 +1,141 @@
+import { query, Queryable } from '../config/database';
+import { PdfDocument } from './pdfDocument';
+import { formatAddressLines } from './addressFormats';
+import { getSellerDetails } from './billingDocuments';
+import { CARRIERS } from './shipments';
+
+// What goes on the address label of one parcel
+export interface ShippingLabel {
+  shipmentId: string;
+  orderNumber: string;
+  carrierName: string;
+  trackingNumber: string;
+  units: number;
+  sender: {
+    name: string;
+    addressLines: string[];
+  };
+  recipient: {
+    name: string;
+    addressLines: string[];
+    phone: string | null;
+  };
+}
+
+// A 4 x 6 inch label in the top-left corner of the page
+const LABEL_LEFT = 40;
+const LABEL_TOP = 40;
+const LABEL_WIDTH = 288;
+const LABEL_HEIGHT = 432;
+const PADDING = 14;
+const BORDER = '#111827';
+const MUTED = '#6b7280';
+
+/**
+ * Load the label of a shipment
+ * Null when the shipment does not exist.
+ */
+export const getShippingLabel = async (shipmentId: string, db: Queryable = { query }): Promise<ShippingLabel | null> => {
+  const result = await db.query(
+    `SELECT s.id, s.order_id, s.carrier, s.tracking_number,
+            (SELECT COALESCE(SUM(si.quantity), 0) FROM shipment_items si WHERE si.shipment_id = s.id) AS units,
+            a.full_name, a.phone, a.address_line_1, a.address_line_2, a.city, a.state, a.postal_code, a.country
+     FROM shipments s
+     JOIN orders o ON s.order_id = o.id
+     LEFT JOIN addresses a ON o.shipping_address_id = a.id
+     WHERE s.id = $1`,
+    [shipmentId]
+  );
+  const row = result.rows[0];
+
+  if (!row) {
+    return null;
+  }
+
+  const seller = getSellerDetails();
+
+  return {
+    shipmentId: row.id,
+    orderNumber: row.order_id.substring(0, 8).toUpperCase(),
+    carrierName: CARRIERS[row.carrier]?.name || row.carrier,
+    trackingNumber: row.tracking_number,
+    units: parseInt(row.units),
+    sender: {
+      name: seller.legalName,
+      addressLines: seller.addressLines
+    },
+    recipient: {
+      name: row.full_name || '',
+      addressLines: formatAddressLines({
+        addressLine1: row.address_line_1,
+        addressLine2: row.address_line_2,
+        city: row.city,
+        state: row.state,
+        postalCode: row.postal_code,
+        country: row.country
+      }),
+      phone: row.phone || null
+    }
+  };
+};
+
+/**
+ * Draw a shipping label on a single page
+ * The recipient block uses the destination country's address layout.
+ */
+export const renderShippingLabelPdf = (label: ShippingLabel): Buffer => {
+  const pdf = new PdfDocument(`Label ${label.orderNumber}`);
+  const left = LABEL_LEFT + PADDING;
+  const right = LABEL_LEFT + LABEL_WIDTH - PADDING;
+  const textWidth = LABEL_WIDTH - PADDING * 2;
+  const bottom = LABEL_TOP + LABEL_HEIGHT;
+
+  pdf.addPage();
+
+  // Border
+  pdf.line(LABEL_LEFT, LABEL_TOP, LABEL_LEFT + LABEL_WIDTH, LABEL_TOP, BORDER, 1.5);
+  pdf.line(LABEL_LEFT + LABEL_WIDTH, LABEL_TOP, LABEL_LEFT + LABEL_WIDTH, bottom, BORDER, 1.5);
+  pdf.line(LABEL_LEFT + LABEL_WIDTH, bottom, LABEL_LEFT, bottom, BORDER, 1.5);
+  pdf.line(LABEL_LEFT, bottom, LABEL_LEFT, LABEL_TOP, BORDER, 1.5);
+
+  // Sender
+  let y = LABEL_TOP + PADDING + 8;
+  pdf.text('FROM', left, y, { size: 7, bold: true, color: MUTED });
+  y += 12;
+  pdf.text(label.sender.name, left, y, { size: 9, bold: true });
+  for (const line of label.sender.addressLines) {
+    y += 11;
+    pdf.text(line, left, y, { size: 8 });
+  }
+
+  y += PADDING;
+  pdf.line(LABEL_LEFT, y, LABEL_LEFT + LABEL_WIDTH, y, BORDER, 1);
+
+  // Recipient, large enough to read at a glance
+  y += PADDING + 8;
+  pdf.text('SHIP TO', left, y, { size: 7, bold: true, color: MUTED });
+  for (const line of pdf.wrapText(label.recipient.name, textWidth, 14, true)) {
+    y += 18;
+    pdf.text(line, left, y, { size: 14, bold: true });
+  }
+  for (const addressLine of label.recipient.addressLines) {
+    for (const line of pdf.wrapText(addressLine, textWidth, 12)) {
+      y += 16;
+      pdf.text(line, left, y, { size: 12 });
+    }
+  }
+  if (label.recipient.phone) {
+    y += 16;
+    pdf.text(`Tel. ${label.recipient.phone}`, left, y, { size: 10, color: MUTED });
+  }
+
+  // Carrier and tracking number along the bottom
+  const footerTop = bottom - 70;
+  pdf.line(LABEL_LEFT, footerTop, LABEL_LEFT + LABEL_WIDTH, footerTop, BORDER, 1);
+  pdf.text(label.carrierName, left, footerTop + 22, { size: 12, bold: true });
+  pdf.text(`Order #${label.orderNumber}`, right, footerTop + 22, { size: 9, align: 'right' });
+  pdf.text(label.trackingNumber, left, footerTop + 44, { size: 11 });
+  pdf.text(`${label.units} unit${label.units === 1 ? '' : 's'}`, right, footerTop + 44, { size: 9, color: MUTED, align: 'right' });
+
+  return pdf.toBuffer();
+};
@@ -0,0 +1,246 @@
+import { query, Queryable } from '../config/database';
+import { roundMoney } from './money';
+import { DeliveryWindow, mapDeliveryWindowRow } from './deliveryEstimate';
+
+export type ShippingRateType = 'weight' | 'subtotal' | 'free_over';
+
+export const SHIPPING_RATE_TYPES: ShippingRateType[] = ['weight', 'subtotal', 'free_over'];
+
+// cm³ per billable kg - parcels that are large for their weight are charged by size
+export const VOLUMETRIC_DIVISOR = 5000;
+
+// Where an order is shipped to - only the parts zones match on
+export interface ShippingDestination {
+  country: string;
+  region?: string | null;
+}
+
+// A place covered by a zone - no region covers the whole country
+export interface ShippingZoneRegion {
+  country: string;
+  region: string | null;
+}
+
+export interface ShippingZone {
+  id: string;
+  name: string;
+  isRestOfWorld: boolean;
+  regions: ShippingZoneRegion[];
+}
+
+// Price for carts whose weight (kg) or subtotal is in [minValue, maxValue)
+export interface ShippingRateBracket {
+  minValue: number;
+  maxValue: number | null;
+  price: number;
+}
+
+// How a delivery method is priced in a zone, as stored in shipping_rates
+export interface ShippingRate {
+  id: string;
+  deliveryMethodId: string;
+  zoneId: string;
+  rateType: ShippingRateType;
+  // free_over only: charged below the threshold
+  basePrice: number | null;
+  freeOverAmount: number | null;
+  brackets: ShippingRateBracket[];
+}
+
+// What shipping is priced on
+export interface ShippingCart {
+  subtotal: number;
+  weightKg: number;
+}
+
+// A delivery method that ships to the destination, with its price for the cart
+export interface ShippingOption {
+  deliveryMethodId: string;
+  name: string;
+  description: string | null;
+  estimatedDays: string;
+  window: DeliveryWindow;
+  zoneId: string;
+  zoneName: string;
+  rateType: ShippingRateType;
+  price: number;
+}
+
+export const isShippingRateType = (value: unknown): value is ShippingRateType => {
+  return typeof value === 'string' && SHIPPING_RATE_TYPES.includes(value as ShippingRateType);
+};
+
+const mapShippingBracketRow = (row: any): ShippingRateBracket => ({
+  minValue: parseFloat(row.min_value),
+  maxValue: row.max_value === null ? null : parseFloat(row.max_value),
+  price: parseFloat(row.price)
+});
+
+const mapShippingRateRow = (row: any, bracketRows: any[]): ShippingRate => ({
+  id: row.id,
+  deliveryMethodId: row.delivery_method_id,
+  zoneId: row.zone_id,
+  rateType: row.rate_type,
+  basePrice: row.base_price === null ? null : parseFloat(row.base_price),
+  freeOverAmount: row.free_over_amount === null ? null : parseFloat(row.free_over_amount),
+  brackets: bracketRows
+    .filter(bracket => bracket.shipping_rate_id === row.id)
+    .map(mapShippingBracketRow)
+});
+
+/**
+ * All shipping zones with the places they cover, rest of world last
+ */
+export const getShippingZones = async (db: Queryable = { query }): Promise<ShippingZone[]> => {
+  const zonesResult = await db.query('SELECT id, name, is_rest_of_world FROM shipping_zones ORDER BY is_rest_of_world, name');
+  const regionsResult = await db.query(
+    'SELECT zone_id, country, region FROM shipping_zone_regions ORDER BY country, region NULLS FIRST'
+  );
+
+  return zonesResult.rows.map(row => ({
+    id: row.id,
+    name: row.name,
+    isRestOfWorld: row.is_rest_of_world,
+    regions: regionsResult.rows
+      .filter(region => region.zone_id === row.id)
+      .map(region => ({ country: region.country, region: region.region }))
+  }));
+};
+
+/**
+ * All shipping rates with their brackets, lowest bracket first
+ */
+export const getShippingRates = async (db: Queryable = { query }): Promise<ShippingRate[]> => {
+  const ratesResult = await db.query(
+    'SELECT id, delivery_method_id, zone_id, rate_type, base_price, free_over_amount FROM shipping_rates'
+  );
+
+  if (ratesResult.rows.length === 0) {
+    return [];
+  }
+
+  const bracketsResult = await db.query(
+    'SELECT shipping_rate_id, min_value, max_value, price FROM shipping_rate_brackets ORDER BY min_value'
+  );
+
+  return ratesResult.rows.map(row => mapShippingRateRow(row, bracketsResult.rows));
+};
+
+/**
+ * Billable weight of one unit in kg
+ * The larger of the actual weight and the volumetric weight; products without
+ * all three dimensions are charged by actual weight.
+ */
+export const billableWeight = (product: {
+  weight_kg: string | number | null;
+  length_cm: string | number | null;
+  width_cm: string | number | null;
+  height_cm: string | number | null;
+}): number => {
+  const weight = parseFloat(String(product.weight_kg ?? 0)) || 0;
+
+  if (product.length_cm === null || product.width_cm === null || product.height_cm === null) {
+    return weight;
+  }
+
+  const volume = parseFloat(String(product.length_cm)) * parseFloat(String(product.width_cm)) * parseFloat(String(product.height_cm));
+  return Math.max(weight, volume / VOLUMETRIC_DIVISOR);
+};
+
+/**
+ * Find the zone a destination is in
+ * A zone listing the region wins over one listing the whole country, which
+ * wins over the rest-of-world zone. Null when no zone covers the destination.
+ */
+export const findShippingZone = async (
+  destination: ShippingDestination,
+  db: Queryable = { query }
+): Promise<{ id: string; name: string } | null> => {
+  const result = await db.query(
+    `SELECT z.id, z.name
+     FROM shipping_zones z
+     LEFT JOIN shipping_zone_regions zr ON zr.zone_id = z.id
+       AND LOWER(zr.country) = LOWER($1)
+       AND (zr.region IS NULL OR LOWER(zr.region) = LOWER($2))
+     WHERE zr.id IS NOT NULL OR z.is_rest_of_world
+     ORDER BY (zr.region IS NOT NULL) DESC, (zr.id IS NOT NULL) DESC
+     LIMIT 1`,
+    [destination.country.trim(), destination.region?.trim() || '']
+  );
+
+  return result.rows[0] || null;
+};
+
+/**
+ * Price a cart with one rate
+ * Null when no bracket covers the cart, e.g. a parcel too heavy for the method.
+ */
+export const priceShippingRate = (rate: ShippingRate, cart: ShippingCart): number | null => {
+  if (rate.rateType === 'free_over') {
+    return cart.subtotal >= (rate.freeOverAmount as number) ? 0 : roundMoney(rate.basePrice as number);
+  }
+
+  const value = rate.rateType === 'weight' ? cart.weightKg : cart.subtotal;
+  const bracket = rate.brackets.find(b => value >= b.minValue && (b.maxValue === null || value < b.maxValue));
+
+  return bracket ? roundMoney(bracket.price) : null;
+};
+
+/**
+ * Delivery methods that ship a cart to a destination, cheapest first
+ * Methods without a rate for the destination's zone, or whose rate has no
+ * bracket for the cart, are left out.
+ */
+export const quoteShipping = async (
+  destination: ShippingDestination,
+  cart: ShippingCart,
+  db: Queryable = { query }
+): Promise<ShippingOption[]> => {
+  const zone = await findShippingZone(destination, db);
+  if (!zone) {
+    return [];
+  }
+
+  const ratesResult = await db.query(
+    `SELECT sr.id, sr.delivery_method_id, sr.zone_id, sr.rate_type, sr.base_price, sr.free_over_amount,
+            dm.name, dm.description, dm.estimated_days, dm.min_business_days, dm.max_business_days, dm.cutoff_hour
+     FROM shipping_rates sr
+     JOIN delivery_methods dm ON sr.delivery_method_id = dm.id
+     WHERE sr.zone_id = $1 AND dm.is_active = true`,
+    [zone.id]
+  );
+
+  if (ratesResult.rows.length === 0) {
+    return [];
+  }
+
+  const bracketsResult = await db.query(
+    `SELECT shipping_rate_id, min_value, max_value, price
+     FROM shipping_rate_brackets
+     WHERE shipping_rate_id = ANY($1)
+     ORDER BY min_value`,
+    [ratesResult.rows.map(row => row.id)]
+  );
+
+  const options: ShippingOption[] = [];
+
+  for (const row of ratesResult.rows) {
+    const rate = mapShippingRateRow(row, bracketsResult.rows);
+    const price = priceShippingRate(rate, cart);
+    if (price === null) continue;
+
+    options.push({
+      deliveryMethodId: row.delivery_method_id,
+      name: row.name,
+      description: row.description,
+      estimatedDays: row.estimated_days,
+      window: mapDeliveryWindowRow(row),
+      zoneId: zone.id,
+      zoneName: zone.name,
+      rateType: rate.rateType,
+      price
+    });
+  }
+
+  return options.sort((a, b) => a.price - b.price || a.window.maxBusinessDays - b.window.maxBusinessDays);
+};
@@ -0,0 +1,217 @@
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../config/database';
+import { SYSTEM_ACTOR } from './orderStatusHistory';
+import { transitionOrder } from './orderStateMachine';
+
+// How long units stay held for an order while its payment is pending
+export const RESERVATION_TTL_MINUTES = parseInt(process.env.STOCK_RESERVATION_TTL_MINUTES || '30', 10);
+
+// How often expired reservations are swept
+const SWEEP_INTERVAL_MS = parseInt(process.env.STOCK_RESERVATION_SWEEP_INTERVAL_MS || '60000', 10);
+
+export interface ReservationItem {
+  productId: string;
+  quantity: number;
+}
+
+// A line that cannot be fulfilled from current stock
+export interface StockConflict {
+  productId: string;
+  name: string;
+  requested: number;
+  available: number;
+  message: string;
+}
+
+// Thrown when one or more items cannot be reserved
+export class StockConflictError extends Error {
+  statusCode = 409;
+
+  constructor(public conflicts: StockConflict[]) {
+    super('Some items in your cart are no longer available in the requested quantity');
+    this.name = 'StockConflictError';
+  }
+}
+
+/**
+ * Take stock for an order
+ * Product rows are locked in a stable order so concurrent checkouts queue behind
+ * each other instead of both reading the same stock level. Every line is
+ * checked before anything is decremented so the customer sees all conflicts at
+ * once. When holdMinutes is given the units are recorded as an active
+ * reservation that is released again if the order is not paid in time,
+ * otherwise the reservation is committed immediately.
+ */
+export const reserveStock = async (
+  client: PoolClient,
+  orderId: string,
+  items: ReservationItem[],
+  holdMinutes: number | null
+): Promise<Date | null> => {
+  const productIds = items.map(item => item.productId).sort();
+
+  const productsResult = await client.query(
+    'SELECT id, name, stock FROM products WHERE id = ANY($1) ORDER BY id FOR UPDATE',
+    [productIds]
+  );
+
+  const productsById = new Map(productsResult.rows.map(row => [row.id, row]));
+  const conflicts: StockConflict[] = [];
+
+  for (const item of items) {
+    const product = productsById.get(item.productId);
+    const available = product ? Math.max(0, parseInt(product.stock)) : 0;
+
+    if (item.quantity > available) {
+      conflicts.push({
+        productId: item.productId,
+        name: product?.name || 'Unknown product',
+        requested: item.quantity,
+        available,
+        message: available === 0 ? 'Out of stock' : `Only ${available} left`
+      });
+    }
+  }
+
+  if (conflicts.length > 0) {
+    throw new StockConflictError(conflicts);
+  }
+
+  for (const item of items) {
+    // The stock guard is redundant under the row lock but keeps the update safe on its own
+    const updateResult = await client.query(
+      'UPDATE products SET stock = stock - $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2 AND stock >= $1',
+      [item.quantity, item.productId]
+    );
+
+    if (updateResult.rowCount === 0) {
+      throw new StockConflictError([{
+        productId: item.productId,
+        name: productsById.get(item.productId)?.name || 'Unknown product',
+        requested: item.quantity,
+        available: 0,
+        message: 'Out of stock'
+      }]);
+    }
+  }
+
+  // Orders that do not wait for a payment keep their units straight away
+  const expiresAt = holdMinutes === null ? null : new Date(Date.now() + holdMinutes * 60 * 1000);
+  const status = expiresAt ? 'active' : 'committed';
+
+  for (const item of items) {
+    await client.query(
+      `INSERT INTO stock_reservations (order_id, product_id, quantity, status, expires_at)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [orderId, item.productId, item.quantity, status, expiresAt]
+    );
+  }
+
+  return expiresAt;
+};
+
+/**
+ * Mark an order's active reservations as permanent (payment received)
+ */
+export const commitReservations = async (client: PoolClient, orderId: string): Promise<void> => {
+  await client.query(
+    `UPDATE stock_reservations SET status = 'committed', updated_at = CURRENT_TIMESTAMP
+     WHERE order_id = $1 AND status = 'active'`,
+    [orderId]
+  );
+};
+
+/**
+ * Put an order's units back into stock
+ * Covers both held and committed units, so it also restocks paid orders that
+ * are cancelled before shipping. Returns the number of reservation lines released.
+ */
+export const releaseReservations = async (client: PoolClient, orderId: string): Promise<number> => {
+  const releasedResult = await client.query(
+    `UPDATE stock_reservations SET status = 'released', updated_at = CURRENT_TIMESTAMP
+     WHERE order_id = $1 AND status IN ('active', 'committed')
+     RETURNING product_id, quantity`,
+    [orderId]
+  );
+
+  for (const row of releasedResult.rows) {
+    await client.query(
+      'UPDATE products SET stock = stock + $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+      [row.quantity, row.product_id]
+    );
+  }
+
+  return releasedResult.rows.length;
+};
+
+/**
+ * Release every reservation whose payment window has passed
+ * The unpaid order is cancelled together with the release.
+ */
+export const releaseExpiredReservations = async (): Promise<number> => {
+  const expiredResult = await query(
+    `SELECT DISTINCT order_id FROM stock_reservations
+     WHERE status = 'active' AND expires_at <= NOW()`
+  );
+
+  let releasedOrders = 0;
+
+  for (const row of expiredResult.rows) {
+    // One order that cannot be cancelled must not hold up the rest of the sweep
+    let released = false;
+    try {
+      released = await withTransaction(async (client) => {
+        // Lock the order so a payment arriving at the same moment is not lost
+        const orderResult = await client.query(
+          'SELECT id, status FROM orders WHERE id = $1 FOR UPDATE',
+          [row.order_id]
+        );
+
+        const order = orderResult.rows[0];
+        if (order && order.status !== 'pending' && order.status !== 'cancelled') {
+          // Paid in the meantime - keep the units
+          await commitReservations(client, row.order_id);
+          return false;
+        }
+
+        if (order && order.status === 'pending') {
+          // A normal cancellation - releases the units, voids open payments and tells the customer
+          await transitionOrder(client, row.order_id, 'cancelled', SYSTEM_ACTOR, 'Payment was not received in time');
+        } else {
+          await releaseReservations(client, row.order_id);
+        }
+
+        return true;
+      });
+    } catch (error) {
+      console.error(`❌ Error releasing stock for order ${row.order_id}:`, (error as Error).message);
+    }
+
+    if (released) {
+      releasedOrders++;
+    }
+  }
+
+  return releasedOrders;
+};
+
+/**
+ * Periodically release expired reservations
+ */
+export const startReservationSweeper = (): NodeJS.Timeout => {
+  const timer = setInterval(() => {
+    releaseExpiredReservations()
+      .then(count => {
+        if (count > 0) {
+          console.log(`📦 Released stock for ${count} expired order reservation(s)`);
+        }
+      })
+      .catch(error => {
+        console.error('❌ Error releasing expired stock reservations:', (error as Error).message);
+      });
+  }, SWEEP_INTERVAL_MS);
+
+  // Do not keep the process alive just for the sweeper
+  timer.unref();
+  return timer;
+};
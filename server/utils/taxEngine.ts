@@ -0,0 +1,182 @@
+import { query, Queryable } from '../config/database';
+import { roundMoney } from './money';
+
+// Where an order is shipped to - only the parts tax rules match on
+export interface TaxDestination {
+  country: string;
+  region?: string | null;
+  postalCode?: string | null;
+}
+
+// Goods amount to tax for one product
+export interface TaxableItem {
+  productId: string;
+  categoryId: string | null;
+  amount: number;
+}
+
+export type TaxJurisdiction = 'country' | 'region' | 'postal_code';
+
+// A tax rule as stored in tax_rules
+export interface TaxRule {
+  id: string;
+  name: string;
+  country: string;
+  region: string | null;
+  postalCodePrefix: string | null;
+  categoryId: string | null;
+  rate: number;
+  isActive: boolean;
+}
+
+// One applied rate on an order
+export interface TaxLine {
+  ruleId: string;
+  name: string;
+  jurisdiction: TaxJurisdiction;
+  rate: number;
+  categoryId: string | null;
+  taxableAmount: number;
+  amount: number;
+}
+
+export interface TaxQuote {
+  lines: TaxLine[];
+  taxAmount: number;
+  // Tax charged on each product's line, keyed by product ID - adds up to taxAmount
+  itemTaxes: Record<string, number>;
+}
+
+const JURISDICTIONS: TaxJurisdiction[] = ['country', 'region', 'postal_code'];
+
+export const mapTaxRuleRow = (row: any): TaxRule => ({
+  id: row.id,
+  name: row.name,
+  country: row.country,
+  region: row.region,
+  postalCodePrefix: row.postal_code_prefix,
+  categoryId: row.category_id,
+  rate: parseFloat(row.rate),
+  isActive: row.is_active
+});
+
+const jurisdictionOf = (rule: TaxRule): TaxJurisdiction => {
+  if (rule.postalCodePrefix) return 'postal_code';
+  if (rule.region) return 'region';
+  return 'country';
+};
+
+/**
+ * Split one tax line over the items it was charged on, in proportion to their amounts
+ * The last item takes the rounding remainder so the parts add up to the line.
+ */
+const allocateLineTax = (amount: number, items: TaxableItem[], itemTaxes: Record<string, number>): void => {
+  const taxableTotal = items.reduce((sum, item) => sum + item.amount, 0);
+  let allocated = 0;
+
+  items.forEach((item, index) => {
+    const share = index === items.length - 1
+      ? roundMoney(amount - allocated)
+      : roundMoney(taxableTotal > 0 ? amount * (item.amount / taxableTotal) : 0);
+    itemTaxes[item.productId] = roundMoney((itemTaxes[item.productId] || 0) + share);
+    allocated = roundMoney(allocated + share);
+  });
+};
+
+const normalizePostalCode = (postalCode: string): string => {
+  return postalCode.replace(/\s+/g, '').toUpperCase();
+};
+
+/**
+ * Pick the rule that applies to one item at one jurisdiction level
+ * A rule for the item's category overrides the general rule of the same level,
+ * and a longer postal code prefix wins over a shorter one.
+ */
+const selectRule = (rules: TaxRule[], categoryId: string | null): TaxRule | undefined => {
+  const byPrefixLength = (a: TaxRule, b: TaxRule) =>
+    (b.postalCodePrefix?.length || 0) - (a.postalCodePrefix?.length || 0);
+
+  const categoryRules = rules.filter(rule => categoryId && rule.categoryId === categoryId).sort(byPrefixLength);
+  if (categoryRules.length > 0) {
+    return categoryRules[0];
+  }
+
+  return rules.filter(rule => !rule.categoryId).sort(byPrefixLength)[0];
+};
+
+/**
+ * Work out the tax for a set of items shipped to a destination
+ * Each jurisdiction level (country, region, postal code) contributes at most one
+ * rate per item and the levels add up, so a state rate and a local rate can
+ * both apply. Items are grouped per rule into one line each.
+ */
+export const quoteTax = async (
+  items: TaxableItem[],
+  destination: TaxDestination | null | undefined,
+  db: Queryable = { query }
+): Promise<TaxQuote> => {
+  if (!destination?.country || items.length === 0) {
+    return { lines: [], taxAmount: 0, itemTaxes: {} };
+  }
+
+  const rulesResult = await db.query(
+    `SELECT id, name, country, region, postal_code_prefix, category_id, rate, is_active
+     FROM tax_rules
+     WHERE is_active = true
+       AND LOWER(country) = LOWER($1)
+       AND (region IS NULL OR LOWER(region) = LOWER($2))
+       AND (postal_code_prefix IS NULL OR $3 LIKE UPPER(REPLACE(postal_code_prefix, ' ', '')) || '%')`,
+    [
+      destination.country.trim(),
+      destination.region?.trim() || '',
+      normalizePostalCode(destination.postalCode || '')
+    ]
+  );
+
+  const rules = rulesResult.rows.map(mapTaxRuleRow);
+  const linesByRule = new Map<string, TaxLine>();
+  const itemsByRule = new Map<string, TaxableItem[]>();
+
+  for (const item of items) {
+    for (const jurisdiction of JURISDICTIONS) {
+      const rule = selectRule(rules.filter(r => jurisdictionOf(r) === jurisdiction), item.categoryId);
+      if (!rule || rule.rate <= 0) continue;
+
+      const line = linesByRule.get(rule.id) || {
+        ruleId: rule.id,
+        name: rule.name,
+        jurisdiction,
+        rate: rule.rate,
+        categoryId: rule.categoryId,
+        taxableAmount: 0,
+        amount: 0
+      };
+
+      line.taxableAmount = roundMoney(line.taxableAmount + item.amount);
+      linesByRule.set(rule.id, line);
+      itemsByRule.set(rule.id, [...(itemsByRule.get(rule.id) || []), item]);
+    }
+  }
+
+  const lines = Array.from(linesByRule.values())
+    .map(line => ({ ...line, amount: roundMoney(line.taxableAmount * line.rate) }))
+    .sort((a, b) => JURISDICTIONS.indexOf(a.jurisdiction) - JURISDICTIONS.indexOf(b.jurisdiction));
+
+  const itemTaxes: Record<string, number> = {};
+  for (const line of lines) {
+    allocateLineTax(line.amount, itemsByRule.get(line.ruleId) || [], itemTaxes);
+  }
+
+  return {
+    lines,
+    taxAmount: roundMoney(lines.reduce((sum, line) => sum + line.amount, 0)),
+    itemTaxes
+  };
+};
+
+/**
+ * Format a rate such as 0.0725 as "7.25%"
+ */
+export const formatTaxRate = (rate: number): string => {
+  return `${parseFloat((rate * 100).toFixed(3))}%`;
+};
@@ -0,0 +1,71 @@
+import crypto from 'crypto';
+
+// Header providers put the signature in: t=<unix seconds>,v1=<hex hmac>
+export const WEBHOOK_SIGNATURE_HEADER = 'x-payment-signature';
+
+// Deliveries signed longer ago than this are treated as replays
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+export type SignatureCheck =
+  | { valid: true; timestamp: Date }
+  | { valid: false; reason: string };
+
+const computeSignature = (secret: string, timestamp: number, rawBody: string): string => {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+};
+
+/**
+ * Secret shared with a provider for signing its webhooks
+ * Each provider can have its own, e.g. MOCK_WEBHOOK_SECRET for the mock gateway.
+ */
+export const getWebhookSecret = (providerName: string): string | null => {
+  return process.env[`${providerName.toUpperCase()}_WEBHOOK_SECRET`] || null;
+};
+
+/**
+ * Signature header for a payload - used by the mock gateway when it sends webhooks
+ */
+export const signWebhookPayload = (secret: string, rawBody: string, timestamp: number = Math.floor(Date.now() / 1000)): string => {
+  return `t=${timestamp},v1=${computeSignature(secret, timestamp, rawBody)}`;
+};
+
+/**
+ * Check a webhook's signature header against the raw request body
+ * The timestamp is part of what is signed, so an old delivery cannot be
+ * replayed with a fresh timestamp.
+ */
+export const verifyWebhookSignature = (
+  secret: string,
+  header: string | undefined,
+  rawBody: string,
+  now: Date = new Date()
+): SignatureCheck => {
+  if (!header) {
+    return { valid: false, reason: 'Missing signature' };
+  }
+
+  const parts = Object.fromEntries(
+    header.split(',').map(part => {
+      const [key, ...value] = part.trim().split('=');
+      return [key, value.join('=')];
+    })
+  );
+
+  const timestamp = parseInt(parts.t, 10);
+  if (!parts.t || isNaN(timestamp) || !parts.v1) {
+    return { valid: false, reason: 'Malformed signature' };
+  }
+
+  const expected = Buffer.from(computeSignature(secret, timestamp, rawBody), 'hex');
+  const received = Buffer.from(parts.v1, 'hex');
+
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    return { valid: false, reason: 'Signature does not match' };
+  }
+
+  if (Math.abs(now.getTime() / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+    return { valid: false, reason: 'Signature timestamp is outside the allowed window' };
+  }
+
+  return { valid: true, timestamp: new Date(timestamp * 1000) };
+};